@@ -10,7 +10,9 @@
  * semuanya membutuhkan data dari done-summary.
  */
 
+import { AsyncLocalStorage } from 'async_hooks';
 import { downloadText, listPaths } from '../utils/azureBlob';
+import { readDtTransactions, DtTransaction, DtReadReport } from '../utils/dtReader';
 
 // Cache untuk raw CSV content (lebih hemat memory, bisa di-parse ulang)
 interface CacheEntry {
@@ -33,12 +35,19 @@ export class DoneSummaryCacheService {
   // Cache untuk parsed data (optional, untuk kalkulasi yang sering akses data yang sama)
   private parsedDataCache: Map<string, ParsedCacheEntry<any>> = new Map();
   
+  // Report parsing terakhir per DT file (jumlah baris rusak, dll)
+  private readReports: Map<string, DtReadReport> = new Map();
+  
   // Cache untuk list of DT files (untuk menghindari listPaths berulang)
   private dtFilesListCache: {
     files: string[];
     timestamp: number;
   } | null = null;
   
+  // Batasan tanggal untuk kalkulasi yang berjalan di dalam runWithDateScope (backfill).
+  // Pakai AsyncLocalStorage supaya phase yang jalan bersamaan tetap melihat semua DT file.
+  private dateScope = new AsyncLocalStorage<Set<string>>();
+  
   // Active processing dates - track tanggal yang sedang diproses oleh kalkulasi
   // Bisa multiple dates jika ada multiple kalkulasi parallel
   private activeProcessingDates: Set<string> = new Set();
@@ -284,10 +293,90 @@ export class DoneSummaryCacheService {
   }
   
   /**
-   * Get list of all DT files (cached)
+   * Get canonical DT transactions (streamed via utils/dtReader, tanpa raw string)
+   * Semua kalkulasi yang butuh transaksi done-summary sebaiknya memakai method ini
+   * sehingga parsing ter-share dan hanya ada satu definisi kolom.
+   * @param blobName Full blob path (e.g., 'done-summary/20251021/DT251021.csv')
+   * @returns Transaction records (4-character stocks only) or null if file missing
+   */
+  public async getTransactions(blobName: string): Promise<DtTransaction[] | null> {
+    const fileDate = this.extractDateFromBlobName(blobName);
+    const isActive = !!fileDate && this.isDateActive(fileDate);
+    
+    if (isActive) {
+      this.dateLastAccess.set(fileDate!, Date.now());
+      const parsedCached = this.parsedDataCache.get(blobName);
+      if (parsedCached && (Date.now() - parsedCached.timestamp) < this.CACHE_TTL) {
+        this.stats.cacheHits++;
+        console.log(`📦 Parsed Cache HIT: ${blobName} (${parsedCached.data.length} records)`);
+        return parsedCached.data as DtTransaction[];
+      }
+    }
+    
+    this.stats.cacheMisses++;
+    console.log(`📥 Cache MISS: ${blobName} - streaming from storage...`);
+    
+    try {
+      const { data, report } = await readDtTransactions(blobName);
+      this.readReports.set(blobName, report);
+      this.stats.totalLoads++;
+      
+      if (isActive) {
+        const estimatedSize = data.length * 200; // ~200 bytes per record estimate
+        if (this.currentCacheSize + estimatedSize > this.MAX_CACHE_SIZE) {
+          await this.evictOldParsedEntries(estimatedSize);
+        }
+        this.parsedDataCache.set(blobName, {
+          data,
+          timestamp: Date.now(),
+          size: estimatedSize
+        });
+        this.currentCacheSize += estimatedSize;
+        console.log(`✅ Parsed and cached: ${blobName} (${data.length} records, ${report.malformedRows} malformed)`);
+      } else {
+        console.log(`✅ Parsed (not cached): ${blobName} (${data.length} records, ${report.malformedRows} malformed)`);
+      }
+      
+      return data;
+    } catch (error) {
+      console.error(`❌ Error loading ${blobName}:`, error);
+      return null;
+    }
+  }
+  
+  /**
+   * Get parse report of the last read of a DT file (malformed rows, counts)
+   */
+  public getReadReport(blobName: string): DtReadReport | null {
+    return this.readReports.get(blobName) || null;
+  }
+  
+  /**
+   * Jalankan fn dengan getDtFilesList() hanya mengembalikan DT file untuk tanggal tertentu.
+   * Kalkulator yang memilih tanggal dari list ini (findAllDtFiles) jadi hanya memproses tanggal tsb.
+   * @param dates Tanggal YYYYMMDD
+   */
+  public runWithDateScope<T>(dates: string[], fn: () => Promise<T>): Promise<T> {
+    return this.dateScope.run(new Set(dates), fn);
+  }
+  
+  /**
+   * Get list of all DT files (cached), limited to the active date scope if any
    * @returns Array of DT file paths
    */
   public async getDtFilesList(): Promise<string[]> {
+    const files = await this.loadDtFilesList();
+    const scope = this.dateScope.getStore();
+    if (!scope) {
+      return files;
+    }
+    
+    const scoped = files.filter(file => scope.has(file.split('/')[1] || ''));
+    console.log(`📅 DT Files List scoped to ${scope.size} date(s): ${scoped.length} files`);
+    return scoped;
+  }
+  
+  private async loadDtFilesList(): Promise<string[]> {
     // Check cache first
     if (this.dtFilesListCache && (Date.now() - this.dtFilesListCache.timestamp) < this.CACHE_TTL) {
       console.log(`📦 DT Files List Cache HIT: ${this.dtFilesListCache.files.length} files`);
@@ -403,6 +492,7 @@ export class DoneSummaryCacheService {
     console.log('🧹 Clearing all done-summary caches...');
     this.rawContentCache.clear();
     this.parsedDataCache.clear();
+    this.readReports.clear();
     this.dtFilesListCache = null;
     this.activeProcessingDates.clear();
     this.dateLastAccess.clear();
@@ -436,6 +526,12 @@ export class DoneSummaryCacheService {
       }
     }
     
+    for (const key of this.readReports.keys()) {
+      if (key.startsWith(prefix)) {
+        this.readReports.delete(key);
+      }
+    }
+    
     this.currentCacheSize -= freedSize;
     console.log(`✅ Cleared ${clearedCount} entries for date ${dateSuffix}, freed ${(freedSize / 1024 / 1024).toFixed(2)} MB`);
   }
@@ -7,9 +7,13 @@
  * 
  * Cache ini di-share antar semua kalkulasi yang menggunakan stock data,
  * seperti RRC, RRG, Seasonality, Trend Filter, Watchlist, Money Flow, dll.
+ *
+ * Yang di-cache selalu isi mentah; back-adjustment corporate action diterapkan
+ * saat dibaca (lihat corporateActionService) sehingga kalkulasi mendapat seri adjusted.
  */
 
 import { downloadText } from '../utils/azureBlob';
+import { corporateActions } from '../services/corporateActionService';
 
 // Cache untuk raw CSV content
 interface CacheEntry {
@@ -124,13 +128,23 @@ class StockCacheService {
   }
   
   /**
-   * Get raw CSV content from cache or Azure
+   * Get CSV content from cache or Azure, default sudah di-adjust corporate action
    * OPTIMIZED: Hanya cache file yang sedang diproses (activeProcessingFiles)
    * CRITICAL: Kalkulasi harus manual set active files sebelum memanggil getRawContent
    * @param blobName Full blob path (e.g., 'stock/BASIC MATERIALS/BBCA.csv')
+   * @param options.adjusted false untuk harga mentah TICMI (mis. valuasi posisi broker pada tanggal transaksi)
    * @returns CSV content as string
    */
-  async getRawContent(blobName: string): Promise<string | null> {
+  async getRawContent(blobName: string, options: { adjusted?: boolean } = {}): Promise<string | null> {
+    const content = await this.loadContent(blobName);
+    if (!content || options.adjusted === false) {
+      return content;
+    }
+    const ticker = (blobName.split('/').pop() || '').replace('.csv', '');
+    return (await corporateActions.adjustContent(ticker, content)).content;
+  }
+
+  private async loadContent(blobName: string): Promise<string | null> {
     // Selalu update last access time untuk file ini
     this.fileLastAccess.set(blobName, Date.now());
     
@@ -0,0 +1,365 @@
+// backtest_engine.ts
+// Simulasi trading harian di atas OHLC stock/ + sinyal output platform (pure, tanpa I/O).
+//
+// Aturan eksekusi:
+// - Rule entry/exit dievaluasi pada close hari T, order dieksekusi di open hari T+1 (tanpa lookahead)
+// - Harga fill dibulatkan ke fraksi harga IDX (beli dibulatkan ke atas, jual ke bawah)
+// - Ukuran posisi dalam lot (1 lot = 100 lembar), fee beli/jual dalam persen nilai transaksi
+// - Stop loss / take profit dicek intraday dari high/low; gap melewati level => fill di open
+
+export const IDX_LOT_SIZE = 100;
+
+export type SignalSource = 'price' | 'accumulation' | 'foreign_flow' | 'money_flow' | 'rrg' | 'top_broker';
+export type ConditionOperator = '>' | '>=' | '<' | '<=' | '==' | '!=';
+export type SignalValue = number | string;
+
+export interface BacktestCondition {
+  source: SignalSource;
+  field: string;
+  operator: ConditionOperator;
+  value: SignalValue;
+  /** Hanya untuk source top_broker: kode broker yang di-rank */
+  broker?: string | undefined;
+}
+
+export interface BacktestBar {
+  /** YYYYMMDD */
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface BacktestSymbolData {
+  symbol: string;
+  /** Urut tanggal ascending */
+  bars: BacktestBar[];
+  /** date (YYYYMMDD) -> conditionKey -> nilai sinyal pada hari tersebut */
+  signals: Map<string, Map<string, SignalValue>>;
+}
+
+export interface BacktestConfig {
+  initialCapital: number;
+  maxPositions: number;
+  entry: BacktestCondition[];
+  exit: BacktestCondition[];
+  /** Fee dalam persen, default IDX retail umum: beli 0.15%, jual 0.25% (termasuk PPh final 0.1%) */
+  buyFeePct: number;
+  sellFeePct: number;
+  stopLossPct?: number | undefined;
+  takeProfitPct?: number | undefined;
+  maxHoldingDays?: number | undefined;
+}
+
+export type ExitReason = 'signal' | 'stop_loss' | 'take_profit' | 'max_holding' | 'end_of_test';
+
+export interface BacktestTrade {
+  symbol: string;
+  entryDate: string;
+  entryPrice: number;
+  exitDate: string;
+  exitPrice: number;
+  lots: number;
+  shares: number;
+  fees: number;
+  netPnl: number;
+  returnPct: number;
+  holdingDays: number;
+  exitReason: ExitReason;
+}
+
+export interface EquityPoint {
+  date: string;
+  equity: number;
+  cash: number;
+  openPositions: number;
+  drawdownPct: number;
+}
+
+export interface BacktestMetrics {
+  initialCapital: number;
+  finalEquity: number;
+  totalReturnPct: number;
+  cagrPct: number;
+  maxDrawdownPct: number;
+  winRatePct: number;
+  totalTrades: number;
+  wins: number;
+  losses: number;
+  avgReturnPct: number;
+  profitFactor: number | null;
+  totalFees: number;
+  exposurePct: number;
+}
+
+export interface BacktestResult {
+  metrics: BacktestMetrics;
+  equityCurve: EquityPoint[];
+  trades: BacktestTrade[];
+}
+
+interface OpenPosition {
+  symbol: string;
+  entryDate: string;
+  entryPrice: number;
+  shares: number;
+  entryFee: number;
+  barsHeld: number;
+}
+
+interface PendingOrder {
+  symbol: string;
+  side: 'buy' | 'sell';
+  reason: ExitReason;
+}
+
+/**
+ * Fraksi harga IDX (papan utama/pengembangan)
+ */
+export function idxTickSize(price: number): number {
+  if (price < 200) return 1;
+  if (price < 500) return 2;
+  if (price < 2000) return 5;
+  if (price < 5000) return 10;
+  return 25;
+}
+
+export function roundToTick(price: number, direction: 'up' | 'down'): number {
+  const tick = idxTickSize(price);
+  const rounded = direction === 'up' ? Math.ceil(price / tick) * tick : Math.floor(price / tick) * tick;
+  return Math.max(rounded, 1);
+}
+
+export function conditionKey(condition: Pick<BacktestCondition, 'source' | 'field' | 'broker'>): string {
+  return condition.broker
+    ? `${condition.source}.${condition.field}.${condition.broker.toUpperCase()}`
+    : `${condition.source}.${condition.field}`;
+}
+
+function compareValue(actual: SignalValue, operator: ConditionOperator, expected: SignalValue): boolean {
+  if (typeof actual === 'string' || typeof expected === 'string') {
+    const a = String(actual).toUpperCase();
+    const b = String(expected).toUpperCase();
+    if (operator === '==') return a === b;
+    if (operator === '!=') return a !== b;
+    return false;
+  }
+  switch (operator) {
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    case '==': return actual === expected;
+    case '!=': return actual !== expected;
+  }
+}
+
+/** Sinyal yang tidak tersedia di hari tersebut dianggap tidak terpenuhi */
+function conditionHolds(values: Map<string, SignalValue> | undefined, condition: BacktestCondition): boolean {
+  const actual = values?.get(conditionKey(condition));
+  return actual !== undefined && compareValue(actual, condition.operator, condition.value);
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+export function runBacktest(data: BacktestSymbolData[], config: BacktestConfig): BacktestResult {
+  const barIndex = new Map<string, Map<string, BacktestBar>>();
+  const allDates = new Set<string>();
+  data.forEach(item => {
+    barIndex.set(item.symbol, new Map(item.bars.map(bar => [bar.date, bar])));
+    item.bars.forEach(bar => allDates.add(bar.date));
+  });
+  const dates = Array.from(allDates).sort();
+  const symbols = data.map(item => item.symbol).sort();
+  const signalsBySymbol = new Map(data.map(item => [item.symbol, item.signals]));
+
+  let cash = config.initialCapital;
+  const positions = new Map<string, OpenPosition>();
+  const lastClose = new Map<string, number>();
+  const trades: BacktestTrade[] = [];
+  const equityCurve: EquityPoint[] = [];
+  let pending: PendingOrder[] = [];
+  let peak = config.initialCapital;
+  let daysWithExposure = 0;
+
+  const closePosition = (position: OpenPosition, date: string, rawPrice: number, reason: ExitReason) => {
+    const exitPrice = roundToTick(rawPrice, 'down');
+    const gross = exitPrice * position.shares;
+    const exitFee = gross * (config.sellFeePct / 100);
+    cash += gross - exitFee;
+    const cost = position.entryPrice * position.shares;
+    const fees = position.entryFee + exitFee;
+    const netPnl = gross - cost - fees;
+    trades.push({
+      symbol: position.symbol,
+      entryDate: position.entryDate,
+      entryPrice: position.entryPrice,
+      exitDate: date,
+      exitPrice,
+      lots: position.shares / IDX_LOT_SIZE,
+      shares: position.shares,
+      fees: round2(fees),
+      netPnl: round2(netPnl),
+      returnPct: round2((netPnl / (cost + position.entryFee)) * 100),
+      holdingDays: position.barsHeld,
+      exitReason: reason
+    });
+    positions.delete(position.symbol);
+  };
+
+  const currentEquity = () => {
+    let value = cash;
+    positions.forEach(position => {
+      value += position.shares * (lastClose.get(position.symbol) ?? position.entryPrice);
+    });
+    return value;
+  };
+
+  for (const date of dates) {
+    // 1) Eksekusi order dari sinyal hari sebelumnya di open hari ini (jual dulu agar cash tersedia)
+    const orders = pending;
+    pending = [];
+    for (const order of orders.filter(o => o.side === 'sell')) {
+      const bar = barIndex.get(order.symbol)?.get(date);
+      const position = positions.get(order.symbol);
+      if (!position) continue;
+      if (!bar) {
+        // Tidak ada transaksi hari ini (suspend/libur emiten) - coba lagi di bar berikutnya
+        pending.push(order);
+        continue;
+      }
+      closePosition(position, date, bar.open, order.reason);
+    }
+    for (const order of orders.filter(o => o.side === 'buy')) {
+      const bar = barIndex.get(order.symbol)?.get(date);
+      if (!bar || positions.has(order.symbol) || positions.size >= config.maxPositions) continue;
+
+      const entryPrice = roundToTick(bar.open, 'up');
+      const allocation = Math.min(cash, currentEquity() / config.maxPositions);
+      const lots = Math.floor(allocation / (entryPrice * IDX_LOT_SIZE * (1 + config.buyFeePct / 100)));
+      if (lots < 1) continue;
+
+      const shares = lots * IDX_LOT_SIZE;
+      const entryFee = entryPrice * shares * (config.buyFeePct / 100);
+      cash -= entryPrice * shares + entryFee;
+      positions.set(order.symbol, { symbol: order.symbol, entryDate: date, entryPrice, shares, entryFee, barsHeld: 0 });
+    }
+
+    // 2) Stop loss / take profit intraday
+    for (const position of Array.from(positions.values())) {
+      const bar = barIndex.get(position.symbol)?.get(date);
+      if (!bar) continue;
+      position.barsHeld += 1;
+
+      if (config.stopLossPct !== undefined) {
+        const stopPrice = position.entryPrice * (1 - config.stopLossPct / 100);
+        if (bar.low <= stopPrice) {
+          closePosition(position, date, Math.min(bar.open, stopPrice), 'stop_loss');
+          continue;
+        }
+      }
+      if (config.takeProfitPct !== undefined) {
+        const targetPrice = position.entryPrice * (1 + config.takeProfitPct / 100);
+        if (bar.high >= targetPrice) {
+          closePosition(position, date, Math.max(bar.open, targetPrice), 'take_profit');
+        }
+      }
+    }
+
+    data.forEach(item => {
+      const bar = barIndex.get(item.symbol)?.get(date);
+      if (bar) lastClose.set(item.symbol, bar.close);
+    });
+
+    // 3) Evaluasi rule di close hari ini -> order untuk open hari berikutnya
+    const pendingSells = new Set(pending.map(order => order.symbol));
+    for (const position of positions.values()) {
+      if (pendingSells.has(position.symbol)) continue;
+      const values = signalsBySymbol.get(position.symbol)?.get(date);
+      if (config.exit.some(condition => conditionHolds(values, condition))) {
+        pending.push({ symbol: position.symbol, side: 'sell', reason: 'signal' });
+      } else if (config.maxHoldingDays !== undefined && position.barsHeld >= config.maxHoldingDays) {
+        pending.push({ symbol: position.symbol, side: 'sell', reason: 'max_holding' });
+      }
+    }
+
+    let freeSlots = config.maxPositions - positions.size + pending.filter(o => o.side === 'sell').length;
+    for (const symbol of symbols) {
+      if (freeSlots <= 0) break;
+      if (positions.has(symbol) || !barIndex.get(symbol)?.has(date)) continue;
+      const values = signalsBySymbol.get(symbol)?.get(date);
+      if (config.entry.length > 0 && config.entry.every(condition => conditionHolds(values, condition))) {
+        pending.push({ symbol, side: 'buy', reason: 'signal' });
+        freeSlots -= 1;
+      }
+    }
+
+    const equity = currentEquity();
+    peak = Math.max(peak, equity);
+    if (positions.size > 0) daysWithExposure += 1;
+    equityCurve.push({
+      date,
+      equity: round2(equity),
+      cash: round2(cash),
+      openPositions: positions.size,
+      drawdownPct: round2(peak > 0 ? ((equity - peak) / peak) * 100 : 0)
+    });
+  }
+
+  // Posisi yang masih terbuka ditutup di close terakhir agar P/L masuk statistik
+  const lastDate = dates[dates.length - 1];
+  if (lastDate) {
+    for (const position of Array.from(positions.values())) {
+      closePosition(position, lastDate, lastClose.get(position.symbol) ?? position.entryPrice, 'end_of_test');
+    }
+    const lastPoint = equityCurve[equityCurve.length - 1];
+    if (lastPoint) {
+      lastPoint.equity = round2(cash);
+      lastPoint.cash = round2(cash);
+      lastPoint.openPositions = 0;
+      peak = Math.max(peak, cash);
+      lastPoint.drawdownPct = round2(peak > 0 ? ((cash - peak) / peak) * 100 : 0);
+    }
+  }
+
+  return {
+    metrics: computeMetrics(config.initialCapital, equityCurve, trades, daysWithExposure),
+    equityCurve,
+    trades
+  };
+}
+
+function toTime(date: string): number {
+  return Date.UTC(Number(date.slice(0, 4)), Number(date.slice(4, 6)) - 1, Number(date.slice(6, 8)));
+}
+
+function computeMetrics(initialCapital: number, equityCurve: EquityPoint[], trades: BacktestTrade[], daysWithExposure: number): BacktestMetrics {
+  const finalEquity = equityCurve[equityCurve.length - 1]?.equity ?? initialCapital;
+  const first = equityCurve[0];
+  const last = equityCurve[equityCurve.length - 1];
+  const years = first && last ? (toTime(last.date) - toTime(first.date)) / (365.25 * 24 * 3600 * 1000) : 0;
+  const growth = initialCapital > 0 ? finalEquity / initialCapital : 0;
+
+  const wins = trades.filter(trade => trade.netPnl > 0);
+  const losses = trades.filter(trade => trade.netPnl <= 0);
+  const grossProfit = wins.reduce((sum, trade) => sum + trade.netPnl, 0);
+  const grossLoss = Math.abs(losses.reduce((sum, trade) => sum + trade.netPnl, 0));
+
+  return {
+    initialCapital,
+    finalEquity: round2(finalEquity),
+    totalReturnPct: round2((growth - 1) * 100),
+    cagrPct: round2(years > 0 && growth > 0 ? (Math.pow(growth, 1 / years) - 1) * 100 : 0),
+    maxDrawdownPct: round2(Math.min(0, ...equityCurve.map(point => point.drawdownPct))),
+    winRatePct: round2(trades.length > 0 ? (wins.length / trades.length) * 100 : 0),
+    totalTrades: trades.length,
+    wins: wins.length,
+    losses: losses.length,
+    avgReturnPct: round2(trades.length > 0 ? trades.reduce((sum, trade) => sum + trade.returnPct, 0) / trades.length : 0),
+    profitFactor: grossLoss > 0 ? round2(grossProfit / grossLoss) : null,
+    totalFees: round2(trades.reduce((sum, trade) => sum + trade.fees, 0)),
+    exposurePct: round2(equityCurve.length > 0 ? (daysWithExposure / equityCurve.length) * 100 : 0)
+  };
+}
@@ -2,6 +2,8 @@ import { uploadText, listPaths } from '../../utils/azureBlob';
 import { BATCH_SIZE_PHASE_7, MAX_CONCURRENT_REQUESTS_PHASE_7 } from '../../services/dataUpdateService';
 import { SchedulerLogService } from '../../services/schedulerLogService';
 import { doneSummaryCache } from '../../cache/doneSummaryCacheService';
+import { DtTransaction } from '../../utils/dtReader';
+import { recomputeManifest } from '../../services/recomputeManifest';
 
 // Progress tracker interface for thread-safe stock counting
 interface ProgressTracker {
@@ -27,17 +29,7 @@ async function limitConcurrency<T>(promises: Promise<T>[], maxConcurrency: numbe
 }
 
 // Type definitions for bid/ask footprint data
-interface TransactionData {
-  STK_CODE: string;
-  BRK_COD1: string; // Seller broker (bid side)
-  BRK_COD2: string; // Buyer broker (ask side)
-  STK_VOLM: number;
-  STK_PRIC: number;
-  TRX_CODE: string;
-  TRX_TIME: string;
-  TRX_ORD1: number; // Order reference 1
-  TRX_ORD2: number; // Order reference 2
-}
+type TransactionData = DtTransaction;
 
 interface PriceLevelData {
   Price: number;
@@ -124,7 +116,9 @@ export class BidAskCalculator {
           for (let attempt = 1; attempt <= maxRetries; attempt++) {
             try {
               const existingFiles = await listPaths({ prefix: outputPrefix, maxResults: 1 });
-              return { file, dateSuffix, exists: existingFiles.length > 0, error: null };
+              // Output lama dianggap belum ada jika DT file-nya di-publish ulang (lihat recomputeManifest)
+              const upToDate = existingFiles.length > 0 && !(await recomputeManifest.needsRebuild('bid_ask', dateSuffix));
+              return { file, dateSuffix, exists: upToDate, error: null };
             } catch (error: any) {
               const isRetryable = 
                 error?.code === 'PARSE_ERROR' ||
@@ -212,10 +206,10 @@ export class BidAskCalculator {
     try {
       console.log(`Loading DT file: ${blobName}`);
       
-      // Use shared cache for raw content (will cache automatically if not exists)
-      const content = await doneSummaryCache.getRawContent(blobName);
+      // Use shared cache for parsed DT transactions (streamed via utils/dtReader)
+      const data = await doneSummaryCache.getTransactions(blobName);
     
-      if (!content || content.trim().length === 0) {
+      if (!data || data.length === 0) {
         console.log(`⚠️ Empty file: ${blobName}`);
         return null;
       }
@@ -225,7 +219,6 @@ export class BidAskCalculator {
       const dateFolder = pathParts[1] || 'unknown'; // 20251021
       const dateSuffix = dateFolder; // Use full date as suffix
       
-      const data = this.parseTransactionData(content);
       console.log(`✅ Loaded ${data.length} transactions from ${blobName}`);
       
       return { data, dateSuffix };
@@ -235,69 +228,6 @@ export class BidAskCalculator {
     }
   }
 
-  private parseTransactionData(content: string): TransactionData[] {
-    const lines = content.trim().split('\n');
-    const data: TransactionData[] = [];
-    
-    if (lines.length < 2) return data;
-    
-    // Parse header to get column indices (using semicolon separator)
-    const header = lines[0]?.split(';') || [];
-    console.log(`📋 CSV Header: ${header.join(', ')}`);
-    
-    const getColumnIndex = (columnName: string): number => {
-      return header.findIndex(col => col.trim() === columnName);
-    };
-    
-    const stkCodeIndex = getColumnIndex('STK_CODE');
-    const brkCod1Index = getColumnIndex('BRK_COD1');
-    const brkCod2Index = getColumnIndex('BRK_COD2');
-    const stkVolmIndex = getColumnIndex('STK_VOLM');
-    const stkPricIndex = getColumnIndex('STK_PRIC');
-    const trxCodeIndex = getColumnIndex('TRX_CODE');
-    const trxTimeIndex = getColumnIndex('TRX_TIME');
-    const trxOrd1Index = getColumnIndex('TRX_ORD1');
-    const trxOrd2Index = getColumnIndex('TRX_ORD2');
-    
-    // Validate required columns exist
-    if (stkCodeIndex === -1 || brkCod1Index === -1 || brkCod2Index === -1 || 
-        stkVolmIndex === -1 || stkPricIndex === -1 || trxCodeIndex === -1) {
-      console.error('❌ Required columns not found in CSV header');
-      return data;
-    }
-    
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i];
-      if (!line || line.trim().length === 0) continue;
-      
-      const values = line.split(';');
-      if (values.length < header.length) continue;
-      
-      const stockCode = values[stkCodeIndex]?.trim() || '';
-      
-      // Filter only 4-character stock codes (regular stocks) - same as original file
-      if (stockCode && stockCode.length === 4) {
-        const transaction: TransactionData = {
-          STK_CODE: stockCode,
-          BRK_COD1: values[brkCod1Index]?.trim() || '',
-          BRK_COD2: values[brkCod2Index]?.trim() || '',
-          STK_VOLM: parseFloat(values[stkVolmIndex]?.trim() || '0') || 0,
-          STK_PRIC: parseFloat(values[stkPricIndex]?.trim() || '0') || 0,
-          TRX_CODE: values[trxCodeIndex]?.trim() || '',
-          TRX_TIME: trxTimeIndex !== -1 ? values[trxTimeIndex]?.trim() || '' : '',
-          TRX_ORD1: trxOrd1Index !== -1 ? parseFloat(values[trxOrd1Index]?.trim() || '0') || 0 : 0,
-          TRX_ORD2: trxOrd2Index !== -1 ? parseFloat(values[trxOrd2Index]?.trim() || '0') || 0 : 0
-        };
-        
-        data.push(transaction);
-      }
-    }
-    
-    console.log(`📊 Loaded ${data.length} transaction records from Azure (4-character stocks only)`);
-    return data;
-  }
-
-
   /**
    * Create bid/ask footprint data by stock
    */
@@ -559,6 +489,7 @@ export class BidAskCalculator {
       const allStockFilename = `${basePath}/ALL_STOCK.csv`;
       await this.saveToAzure(allStockFilename, stockFootprintData);
       allFiles.push(allStockFilename);
+      await recomputeManifest.recordBuild('bid_ask', dateSuffix);
       
       console.log(`✅ Completed processing ${blobName} - ${allFiles.length} files created, ${stockCount} stocks processed`);
       return { success: true, dateSuffix, files: allFiles, stockCount };
@@ -2,6 +2,8 @@ import { uploadText, listPaths } from '../../utils/azureBlob';
 import { BATCH_SIZE_PHASE_7, MAX_CONCURRENT_REQUESTS_PHASE_7 } from '../../services/dataUpdateService';
 import { SchedulerLogService } from '../../services/schedulerLogService';
 import { doneSummaryCache } from '../../cache/doneSummaryCacheService';
+import { DtTransaction } from '../../utils/dtReader';
+import { recomputeManifest } from '../../services/recomputeManifest';
 
 // Helper function to limit concurrency for Phase 7-8
 async function limitConcurrency<T>(promises: Promise<T>[], maxConcurrency: number): Promise<T[]> {
@@ -22,20 +24,7 @@ async function limitConcurrency<T>(promises: Promise<T>[], maxConcurrency: numbe
 }
 
 // Type definitions for broker breakdown data
-interface TransactionData {
-  STK_CODE: string;
-  BRK_COD1: string; // Buyer broker
-  BRK_COD2: string; // Seller broker
-  STK_VOLM: number;
-  STK_PRIC: number;
-  TRX_CODE: string;
-  TRX_TIME: string;
-  TRX_TYPE: string; // Board type: RG, TN, NG
-  INV_TYP1: string; // Investor type 1 (buyer) - I = Indonesia, A = Asing
-  INV_TYP2: string; // Investor type 2 (seller) - I = Indonesia, A = Asing
-  TRX_ORD1: number; // Order reference 1 (buyer)
-  TRX_ORD2: number; // Order reference 2 (seller)
-}
+type TransactionData = DtTransaction;
 
 interface BrokerBreakdownData {
   Price: number;
@@ -76,6 +65,9 @@ interface ProgressTracker {
 }
 
 export class BrokerBreakdownCalculator {
+  // Tanggal yang output-nya stale (DT di-publish ulang) - semua stock ditulis ulang
+  private rebuildDates: Set<string> = new Set();
+
   constructor() {
     // No need for Azure client initialization - using azureBlob utility
   }
@@ -158,6 +150,10 @@ export class BrokerBreakdownCalculator {
         for (let attempt = 1; attempt <= maxRetries; attempt++) {
           try {
             const existingFiles = await listPaths({ prefix: outputPrefix, maxResults: 1 });
+            if (existingFiles.length > 0 && await recomputeManifest.needsRebuild('broker_breakdown', dateSuffix)) {
+              this.rebuildDates.add(dateSuffix);
+              return { blobName, dateSuffix, exists: false, error: null };
+            }
             return { blobName, dateSuffix, exists: existingFiles.length > 0, error: null };
           } catch (error: any) {
             const isRetryable = 
@@ -241,10 +237,10 @@ export class BrokerBreakdownCalculator {
    */
   private async loadAndProcessSingleDtFile(blobName: string): Promise<{ data: TransactionData[], dateSuffix: string } | null> {
     try {
-      // Use shared cache for raw content (will cache automatically if not exists)
-      const content = await doneSummaryCache.getRawContent(blobName);
+      // Use shared cache for parsed DT transactions (streamed via utils/dtReader)
+      const data = await doneSummaryCache.getTransactions(blobName);
       
-      if (!content || content.trim().length === 0) {
+      if (!data || data.length === 0) {
         console.log(`⚠️ Empty file: ${blobName}`);
         return null;
       }
@@ -254,7 +250,6 @@ export class BrokerBreakdownCalculator {
       const dateFolder = pathParts[1] || 'unknown'; // 20251021
       const dateSuffix = dateFolder; // Use full date as suffix
       
-      const data = this.parseTransactionData(content);
       // Log will be shown in processSingleDtFile with more context
       
       return { data, dateSuffix };
@@ -264,76 +259,6 @@ export class BrokerBreakdownCalculator {
     }
   }
 
-  private parseTransactionData(content: string): TransactionData[] {
-    const lines = content.trim().split('\n');
-    const data: TransactionData[] = [];
-    
-    if (lines.length < 2) return data;
-    
-    // Parse header to get column indices (using semicolon separator)
-    const header = lines[0]?.split(';') || [];
-    // Silent - header logging is too verbose
-    
-    const getColumnIndex = (columnName: string): number => {
-      return header.findIndex(col => col.trim() === columnName);
-    };
-    
-    const stkCodeIndex = getColumnIndex('STK_CODE');
-    const brkCod1Index = getColumnIndex('BRK_COD1');
-    const brkCod2Index = getColumnIndex('BRK_COD2');
-    const stkVolmIndex = getColumnIndex('STK_VOLM');
-    const stkPricIndex = getColumnIndex('STK_PRIC');
-    const trxCodeIndex = getColumnIndex('TRX_CODE');
-    const trxTimeIndex = getColumnIndex('TRX_TIME');
-    const trxTypeIndex = getColumnIndex('TRX_TYPE');
-    const invTyp1Index = getColumnIndex('INV_TYP1');
-    const invTyp2Index = getColumnIndex('INV_TYP2');
-    const trxOrd1Index = getColumnIndex('TRX_ORD1');
-    const trxOrd2Index = getColumnIndex('TRX_ORD2');
-    
-    // Validate required columns exist
-    if (stkCodeIndex === -1 || brkCod1Index === -1 || brkCod2Index === -1 || 
-        stkVolmIndex === -1 || stkPricIndex === -1 || trxCodeIndex === -1 ||
-        trxTimeIndex === -1 || trxTypeIndex === -1 || invTyp1Index === -1 || 
-        invTyp2Index === -1 || trxOrd1Index === -1 || trxOrd2Index === -1) {
-      console.error('❌ Required columns not found in CSV header');
-      return data;
-    }
-    
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i];
-      if (!line || line.trim().length === 0) continue;
-      
-      const values = line.split(';');
-      if (values.length < header.length) continue;
-      
-      const stockCode = values[stkCodeIndex]?.trim() || '';
-      
-      // Filter hanya kode emiten 4 huruf
-      if (stockCode.length === 4) {
-        const transaction: TransactionData = {
-          STK_CODE: stockCode,
-          BRK_COD1: values[brkCod1Index]?.trim() || '',
-          BRK_COD2: values[brkCod2Index]?.trim() || '',
-          STK_VOLM: parseFloat(values[stkVolmIndex]?.trim() || '0') || 0,
-          STK_PRIC: parseFloat(values[stkPricIndex]?.trim() || '0') || 0,
-          TRX_CODE: values[trxCodeIndex]?.trim() || '',
-          TRX_TIME: values[trxTimeIndex]?.trim() || '',
-          TRX_TYPE: values[trxTypeIndex]?.trim() || '',
-          INV_TYP1: values[invTyp1Index]?.trim() || '',
-          INV_TYP2: values[invTyp2Index]?.trim() || '',
-          TRX_ORD1: parseInt(values[trxOrd1Index]?.trim() || '0', 10) || 0,
-          TRX_ORD2: parseInt(values[trxOrd2Index]?.trim() || '0', 10) || 0
-        };
-        
-        data.push(transaction);
-      }
-    }
-    
-    // Silent - too verbose, already logged in processSingleDtFile
-    return data;
-  }
-
   /**
    * Pre-compute flags for all transactions to avoid repeated calculations
    */
@@ -858,7 +783,9 @@ export class BrokerBreakdownCalculator {
       // OPTIMIZED: Check stock folders first (folder-level check is ~100x faster)
       const uniqueStocksArray = Array.from(uniqueStocks);
       console.log(`🔍 Date ${dateSuffix}: Checking ${uniqueStocksArray.length} stock folders for existing data...`);
-      const existingStockFolders = await this.checkStockFoldersExist(dateSuffix, uniqueStocksArray);
+      const existingStockFolders = this.rebuildDates.has(dateSuffix)
+        ? new Set<string>()
+        : await this.checkStockFoldersExist(dateSuffix, uniqueStocksArray);
       const stocksToProcess = uniqueStocksArray.filter(stock => !existingStockFolders.has(stock));
       
       // Update progress tracker for stocks that already exist
@@ -1048,6 +975,8 @@ export class BrokerBreakdownCalculator {
       })).size;
       
       console.log(`✅ Date ${dateSuffix}: Completed - ${createdFiles.length.toLocaleString()} files created for ${stocksWithFiles} stocks`);
+      await recomputeManifest.recordBuild('broker_breakdown', dateSuffix);
+      this.rebuildDates.delete(dateSuffix);
       
       return { success: true, dateSuffix, files: createdFiles };
       
@@ -0,0 +1,642 @@
+import { downloadText, uploadText, listPaths } from '../../utils/azureBlob';
+import { SchedulerLogService } from '../../services/schedulerLogService';
+import { tradingCalendar } from '../../services/tradingCalendarService';
+
+// broker_clustering.ts
+// Deteksi broker yang bergerak sebagai satu grup ("satu bandar") dari histori
+// broker_transaction (net per broker per emiten per hari) dan broker_summary IDX
+// (net per broker se-market). Setiap pasangan broker diberi skor dari:
+//   1. korelasi Pearson net harian (dinormalisasi dengan turnover emiten hari itu)
+//   2. co-accumulation: hari keduanya net searah / hari salah satunya aktif
+//   3. overlap level harga dari done_summary_broker_breakdown (hanya kandidat cluster)
+// Cluster dibentuk dengan average-linkage di atas skor flow, lalu confidence akhir
+// ikut memperhitungkan overlap harga.
+//
+// Output:
+//   broker_clusters/global.json
+//   broker_clusters/stock/{EMITEN}.json
+
+export const BROKER_CLUSTER_PREFIX = 'broker_clusters';
+
+const LOOKBACK_DAYS = 40;
+const MIN_DAYS = 10;               // Emiten dengan histori lebih pendek dilewati
+const MIN_ACTIVE_DAYS = 5;         // Broker harus aktif minimal sekian hari di emiten
+const MIN_COMMON_DAYS = 5;         // Pasangan harus sama-sama aktif minimal sekian hari
+const FULL_CONFIDENCE_DAYS = 15;   // Di bawah ini confidence diskalakan turun
+const MAX_BROKERS_PER_EMITEN = 40; // Top broker per gross value, membatasi O(n²)
+const MIN_NET_SHARE = 0.01;        // Net < 1% turnover dianggap netral untuk co-accumulation
+const CLUSTER_THRESHOLD = 0.55;    // Skor flow minimal rata-rata antar anggota cluster
+const PRICE_LEVEL_DAYS = 3;
+const PRICE_LEVEL_MAX_EMITENS = 150;
+const LOAD_CONCURRENCY = 8;
+
+const WEIGHTS = { correlation: 0.5, coAccumulation: 0.3, priceLevel: 0.2 };
+
+export interface BrokerPairScore {
+  a: string;
+  b: string;
+  correlation: number;
+  coAccumulation: number;
+  /** null jika data broker breakdown tidak tersedia untuk pasangan ini */
+  priceLevelOverlap: number | null;
+  commonDays: number;
+  confidence: number;
+  /** Khusus global: jumlah emiten di mana pasangan ini satu cluster */
+  emitenCount?: number;
+}
+
+export interface BrokerCluster {
+  id: number;
+  brokers: string[];
+  confidence: number;
+  correlation: number;
+  coAccumulation: number;
+  priceLevelOverlap: number | null;
+  /** Total net value (bertanda) anggota cluster selama lookback */
+  netValue: number;
+  pairs: BrokerPairScore[];
+}
+
+export interface BrokerClusterResult {
+  scope: 'global' | 'stock';
+  stockCode: string | null;
+  asOf: string;
+  from: string;
+  to: string;
+  tradingDays: number;
+  brokerCount: number;
+  clusters: BrokerCluster[];
+  generatedAt: string;
+}
+
+interface EmitenSeries {
+  /** Net value bertanda per broker, index = urutan tanggal */
+  net: Map<string, Float64Array>;
+  gross: Map<string, number>;
+  turnover: Float64Array;
+}
+
+interface PairStats {
+  correlation: number;
+  coAccumulation: number;
+  commonDays: number;
+}
+
+const round = (value: number, digits = 4) => Math.round(value * 10 ** digits) / 10 ** digits;
+const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = [];
+  for (let i = 0; i < items.length; i += limit) {
+    results.push(...await Promise.all(items.slice(i, i + limit).map(fn)));
+  }
+  return results;
+}
+
+function parseCsv(csv: string): { headers: string[]; rows: string[][] } {
+  const lines = csv.trim().split(/\r?\n/);
+  const headers = (lines[0] || '').replace(/^\uFEFF/, '').split(',').map(h => h.trim());
+  const rows = lines.slice(1)
+    .map(line => line.split(',').map(v => v.trim()))
+    .filter(values => values.length === headers.length);
+  return { headers, rows };
+}
+
+/**
+ * Statistik pasangan dari dua seri net (sudah dinormalisasi turnover).
+ * Korelasi dihitung hanya di hari keduanya aktif supaya hari kosong tidak
+ * membuat dua broker pasif terlihat "berkorelasi".
+ */
+function computePairStats(x: Float64Array, y: Float64Array): PairStats {
+  let n = 0, sumX = 0, sumY = 0, sumXX = 0, sumYY = 0, sumXY = 0;
+  let sameDirection = 0, eitherActive = 0;
+
+  for (let i = 0; i < x.length; i++) {
+    const a = x[i] || 0;
+    const b = y[i] || 0;
+    if (a !== 0 && b !== 0) {
+      n++;
+      sumX += a; sumY += b;
+      sumXX += a * a; sumYY += b * b; sumXY += a * b;
+    }
+    const aSignificant = Math.abs(a) >= MIN_NET_SHARE;
+    const bSignificant = Math.abs(b) >= MIN_NET_SHARE;
+    if (aSignificant || bSignificant) {
+      eitherActive++;
+      if (aSignificant && bSignificant && Math.sign(a) === Math.sign(b)) sameDirection++;
+    }
+  }
+
+  let correlation = 0;
+  if (n >= 3) {
+    const cov = sumXY - (sumX * sumY) / n;
+    const varX = sumXX - (sumX * sumX) / n;
+    const varY = sumYY - (sumY * sumY) / n;
+    correlation = varX > 0 && varY > 0 ? cov / Math.sqrt(varX * varY) : 0;
+  }
+
+  return {
+    correlation,
+    coAccumulation: eitherActive > 0 ? sameDirection / eitherActive : 0,
+    commonDays: n
+  };
+}
+
+/** Skor flow (tanpa level harga) yang dipakai untuk membentuk cluster */
+function flowScore(stats: PairStats): number {
+  if (stats.commonDays < MIN_COMMON_DAYS) return 0;
+  const raw = (WEIGHTS.correlation * Math.max(0, stats.correlation) + WEIGHTS.coAccumulation * stats.coAccumulation)
+    / (WEIGHTS.correlation + WEIGHTS.coAccumulation);
+  return raw * Math.min(1, stats.commonDays / FULL_CONFIDENCE_DAYS);
+}
+
+function confidenceScore(stats: PairStats, priceLevel: number | null): number {
+  if (priceLevel === null) return flowScore(stats);
+  if (stats.commonDays < MIN_COMMON_DAYS) return 0;
+  const raw = WEIGHTS.correlation * Math.max(0, stats.correlation)
+    + WEIGHTS.coAccumulation * stats.coAccumulation
+    + WEIGHTS.priceLevel * priceLevel;
+  return raw * Math.min(1, stats.commonDays / FULL_CONFIDENCE_DAYS);
+}
+
+/**
+ * Average-linkage agglomerative clustering: gabungkan dua cluster selama rata-rata
+ * skor antar anggotanya >= threshold. Beda dengan connected components, ini tidak
+ * membuat rantai A~B~C menjadi satu grup kalau A dan C sebenarnya tidak searah.
+ */
+function averageLinkage(brokers: string[], score: (a: string, b: string) => number, threshold: number): string[][] {
+  let clusters = brokers.map(broker => [broker]);
+
+  while (clusters.length > 1) {
+    let best = { i: -1, j: -1, score: threshold };
+    for (let i = 0; i < clusters.length; i++) {
+      for (let j = i + 1; j < clusters.length; j++) {
+        let total = 0;
+        for (const a of clusters[i]!) {
+          for (const b of clusters[j]!) total += score(a, b);
+        }
+        const average = total / (clusters[i]!.length * clusters[j]!.length);
+        if (average >= best.score) best = { i, j, score: average };
+      }
+    }
+    if (best.i < 0) break;
+    const merged = [...clusters[best.i]!, ...clusters[best.j]!];
+    clusters = clusters.filter((_, idx) => idx !== best.i && idx !== best.j);
+    clusters.push(merged);
+  }
+
+  return clusters.filter(cluster => cluster.length >= 2).map(cluster => cluster.sort());
+}
+
+/** Histogram intersection dua distribusi lot per harga (0..1) */
+function histogramOverlap(a: Map<number, number>, b: Map<number, number>): number | null {
+  let totalA = 0, totalB = 0;
+  a.forEach(v => { totalA += v; });
+  b.forEach(v => { totalB += v; });
+  if (totalA <= 0 || totalB <= 0) return null;
+  let overlap = 0;
+  a.forEach((lotA, price) => {
+    const lotB = b.get(price);
+    if (lotB) overlap += Math.min(lotA / totalA, lotB / totalB);
+  });
+  return overlap;
+}
+
+export class BrokerClusteringCalculator {
+  constructor() {
+    // No need for Azure client initialization - using azureBlob utility
+  }
+
+  /**
+   * Cari tanggal trading terakhir (maks. LOOKBACK_DAYS) yang punya folder broker_transaction.
+   * Hari non-bursa dilewati lewat trading calendar; folder kosong di hari bursa = belum diproses.
+   */
+  private async findTradingDates(endDate: string | null): Promise<Array<{ date: string; brokers: string[] }>> {
+    const result: Array<{ date: string; brokers: string[] }> = [];
+    const cursor = endDate
+      ? new Date(Date.UTC(+endDate.slice(0, 4), +endDate.slice(4, 6) - 1, +endDate.slice(6, 8)))
+      : new Date();
+    const maxScan = LOOKBACK_DAYS * 2 + 10;
+
+    for (let scanned = 0; scanned < maxScan && result.length < LOOKBACK_DAYS; scanned++) {
+      const date = cursor.toISOString().slice(0, 10).replace(/-/g, '');
+      if (await tradingCalendar.isTradingDay(date)) {
+        const files = await listPaths({ prefix: `broker_transaction/broker_transaction_${date}/` });
+        const brokers = (files || [])
+          .filter(path => path.endsWith('.csv'))
+          .map(path => (path.split('/').pop() || '').replace('.csv', ''))
+          .filter(code => /^[A-Z0-9]{2}$/.test(code));
+        if (brokers.length > 0) result.push({ date, brokers });
+      }
+      cursor.setUTCDate(cursor.getUTCDate() - 1);
+    }
+
+    return result.reverse();
+  }
+
+  /**
+   * Muat broker_transaction pivot Broker untuk semua tanggal, disusun ulang per emiten.
+   * Net dinormalisasi terhadap turnover emiten hari itu agar hari dengan volume besar
+   * tidak mendominasi korelasi.
+   */
+  private async loadEmitenSeries(days: Array<{ date: string; brokers: string[] }>, logId: string | null): Promise<Map<string, EmitenSeries>> {
+    const series = new Map<string, EmitenSeries>();
+    const getSeries = (emiten: string) => {
+      let entry = series.get(emiten);
+      if (!entry) {
+        entry = { net: new Map(), gross: new Map(), turnover: new Float64Array(days.length) };
+        series.set(emiten, entry);
+      }
+      return entry;
+    };
+
+    for (let dayIndex = 0; dayIndex < days.length; dayIndex++) {
+      const { date, brokers } = days[dayIndex]!;
+      await mapWithConcurrency(brokers, LOAD_CONCURRENCY, async broker => {
+        let csv: string;
+        try {
+          csv = await downloadText(`broker_transaction/broker_transaction_${date}/${broker}.csv`);
+        } catch {
+          return;
+        }
+        const { headers, rows } = parseCsv(csv);
+        const col = (name: string) => headers.indexOf(name);
+        const emitenIdx = col('Emiten');
+        if (emitenIdx < 0) return;
+        const buyerValueIdx = col('BuyerValue');
+        const sellerValueIdx = col('SellerValue');
+        const netBuyIdx = col('NetBuyValue');
+        const netSellIdx = col('NetSellValue');
+        const num = (values: string[], idx: number) => (idx >= 0 ? parseFloat(values[idx] || '0') || 0 : 0);
+
+        for (const values of rows) {
+          const emiten = values[emitenIdx];
+          if (!emiten) continue;
+          const entry = getSeries(emiten);
+          const buyerValue = num(values, buyerValueIdx);
+          const net = num(values, netBuyIdx) - num(values, netSellIdx);
+          let brokerNet = entry.net.get(broker);
+          if (!brokerNet) {
+            brokerNet = new Float64Array(days.length);
+            entry.net.set(broker, brokerNet);
+          }
+          brokerNet[dayIndex] = net;
+          // Setiap transaksi tercatat sekali di sisi buyer, jadi jumlah BuyerValue = turnover
+          entry.turnover[dayIndex] = (entry.turnover[dayIndex] || 0) + buyerValue;
+          entry.gross.set(broker, (entry.gross.get(broker) || 0) + buyerValue + num(values, sellerValueIdx));
+        }
+      });
+
+      if (logId) {
+        await SchedulerLogService.updateLog(logId, {
+          progress_percentage: Math.round(((dayIndex + 1) / days.length) * 50),
+          current_processing: `Loading broker transactions ${date} (${dayIndex + 1}/${days.length})`
+        });
+      }
+    }
+
+    // Normalisasi net → porsi turnover
+    series.forEach(entry => {
+      entry.net.forEach(values => {
+        for (let i = 0; i < values.length; i++) {
+          const turnover = entry.turnover[i] || 0;
+          values[i] = turnover > 0 ? (values[i] || 0) / turnover : 0;
+        }
+      });
+    });
+
+    return series;
+  }
+
+  /**
+   * Seri net se-market per broker dari broker_summary IDX.csv (All Trade).
+   * Tanggal tanpa IDX.csv dibiarkan 0 (dianggap tidak aktif oleh computePairStats).
+   */
+  private async loadGlobalSeries(dates: string[]): Promise<Map<string, Float64Array>> {
+    const net = new Map<string, Float64Array>();
+    const files = await mapWithConcurrency(dates, LOAD_CONCURRENCY, async date => {
+      try {
+        return await downloadText(`broker_summary/broker_summary_${date}/IDX.csv`);
+      } catch {
+        return null;
+      }
+    });
+
+    files.forEach((csv, dayIndex) => {
+      if (!csv) return;
+      const { headers, rows } = parseCsv(csv);
+      const col = (name: string) => headers.indexOf(name);
+      const brokerIdx = col('BrokerCode');
+      if (brokerIdx < 0) return;
+      const num = (values: string[], name: string) => parseFloat(values[col(name)] || '0') || 0;
+
+      let turnover = 0;
+      const dayNet = new Map<string, number>();
+      for (const values of rows) {
+        const broker = values[brokerIdx];
+        if (!broker) continue;
+        turnover += num(values, 'BuyerValue');
+        dayNet.set(broker, num(values, 'NetBuyValue') - num(values, 'NetSellValue'));
+      }
+      if (turnover <= 0) return;
+      dayNet.forEach((value, broker) => {
+        let values = net.get(broker);
+        if (!values) {
+          values = new Float64Array(dates.length);
+          net.set(broker, values);
+        }
+        values[dayIndex] = value / turnover;
+      });
+    });
+
+    return net;
+  }
+
+  /**
+   * Overlap level harga rata-rata per pasangan di beberapa hari terakhir.
+   * Buy side dan sell side dibandingkan terpisah: grup yang sama biasanya
+   * menampung di harga yang sama dan membuang di harga yang sama.
+   */
+  private async computePriceLevelOverlap(emiten: string, brokers: string[], dates: string[]): Promise<Map<string, number>> {
+    const sums = new Map<string, { total: number; count: number }>();
+
+    for (const date of dates) {
+      const histograms = new Map<string, { buy: Map<number, number>; sell: Map<number, number> }>();
+      await mapWithConcurrency(brokers, LOAD_CONCURRENCY, async broker => {
+        try {
+          const csv = await downloadText(`done_summary_broker_breakdown/${date}/${emiten}/${broker}.csv`);
+          const { headers, rows } = parseCsv(csv);
+          const priceIdx = headers.indexOf('Price');
+          const bLotIdx = headers.indexOf('BLot');
+          const sLotIdx = headers.indexOf('SLot');
+          if (priceIdx < 0) return;
+          const buy = new Map<number, number>();
+          const sell = new Map<number, number>();
+          for (const values of rows) {
+            const price = parseFloat(values[priceIdx] || '');
+            if (!Number.isFinite(price)) continue;
+            const bLot = parseFloat(values[bLotIdx] || '0') || 0;
+            const sLot = parseFloat(values[sLotIdx] || '0') || 0;
+            if (bLot > 0) buy.set(price, (buy.get(price) || 0) + bLot);
+            if (sLot > 0) sell.set(price, (sell.get(price) || 0) + sLot);
+          }
+          histograms.set(broker, { buy, sell });
+        } catch {
+          // Broker tidak bertransaksi di emiten ini pada tanggal tsb
+        }
+      });
+
+      for (let i = 0; i < brokers.length; i++) {
+        for (let j = i + 1; j < brokers.length; j++) {
+          const a = histograms.get(brokers[i]!);
+          const b = histograms.get(brokers[j]!);
+          if (!a || !b) continue;
+          const sides = [histogramOverlap(a.buy, b.buy), histogramOverlap(a.sell, b.sell)]
+            .filter((value): value is number => value !== null);
+          if (sides.length === 0) continue;
+          const key = pairKey(brokers[i]!, brokers[j]!);
+          const entry = sums.get(key) || { total: 0, count: 0 };
+          entry.total += sides.reduce((sum, value) => sum + value, 0) / sides.length;
+          entry.count++;
+          sums.set(key, entry);
+        }
+      }
+    }
+
+    const result = new Map<string, number>();
+    sums.forEach((entry, key) => result.set(key, entry.total / entry.count));
+    return result;
+  }
+
+  private buildCluster(
+    id: number,
+    members: string[],
+    stats: Map<string, PairStats>,
+    priceLevels: Map<string, number>,
+    netTotals: Map<string, number>
+  ): BrokerCluster {
+    const pairs: BrokerPairScore[] = [];
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const key = pairKey(members[i]!, members[j]!);
+        const pair = stats.get(key) || { correlation: 0, coAccumulation: 0, commonDays: 0 };
+        const priceLevel = priceLevels.has(key) ? priceLevels.get(key)! : null;
+        pairs.push({
+          a: members[i]!,
+          b: members[j]!,
+          correlation: round(pair.correlation),
+          coAccumulation: round(pair.coAccumulation),
+          priceLevelOverlap: priceLevel === null ? null : round(priceLevel),
+          commonDays: pair.commonDays,
+          confidence: round(confidenceScore(pair, priceLevel))
+        });
+      }
+    }
+
+    const mean = (values: number[]) => (values.length ? values.reduce((s, v) => s + v, 0) / values.length : 0);
+    const priceValues = pairs.map(p => p.priceLevelOverlap).filter((v): v is number => v !== null);
+
+    return {
+      id,
+      brokers: members,
+      confidence: round(mean(pairs.map(p => p.confidence))),
+      correlation: round(mean(pairs.map(p => p.correlation))),
+      coAccumulation: round(mean(pairs.map(p => p.coAccumulation))),
+      priceLevelOverlap: priceValues.length ? round(mean(priceValues)) : null,
+      netValue: Math.round(members.reduce((sum, broker) => sum + (netTotals.get(broker) || 0), 0)),
+      pairs: pairs.sort((a, b) => b.confidence - a.confidence)
+    };
+  }
+
+  /**
+   * Hitung cluster untuk satu emiten. Mengembalikan stats semua pasangan juga,
+   * dipakai untuk agregasi global.
+   */
+  private clusterEmiten(entry: EmitenSeries, rawNet: Map<string, number>): { members: string[][]; stats: Map<string, PairStats> } {
+    const brokers = Array.from(entry.net.entries())
+      .filter(([, values]) => values.filter(v => v !== 0).length >= MIN_ACTIVE_DAYS)
+      .map(([broker]) => broker)
+      .sort((a, b) => (entry.gross.get(b) || 0) - (entry.gross.get(a) || 0))
+      .slice(0, MAX_BROKERS_PER_EMITEN);
+
+    const stats = new Map<string, PairStats>();
+    for (let i = 0; i < brokers.length; i++) {
+      for (let j = i + 1; j < brokers.length; j++) {
+        stats.set(pairKey(brokers[i]!, brokers[j]!), computePairStats(entry.net.get(brokers[i]!)!, entry.net.get(brokers[j]!)!));
+      }
+    }
+
+    const score = (a: string, b: string) => {
+      const pair = stats.get(pairKey(a, b));
+      return pair ? flowScore(pair) : 0;
+    };
+    const members = averageLinkage(brokers, score, CLUSTER_THRESHOLD)
+      // Cluster dengan net terbesar (absolut) lebih relevan untuk bandarmology
+      .sort((a, b) => Math.abs(b.reduce((s, k) => s + (rawNet.get(k) || 0), 0)) - Math.abs(a.reduce((s, k) => s + (rawNet.get(k) || 0), 0)));
+
+    return { members, stats };
+  }
+
+  /**
+   * Generate broker clusters per emiten dan global untuk LOOKBACK_DAYS hari trading
+   * terakhir sampai endDate (YYYYMMDD) atau hari ini jika 'all' / kosong.
+   */
+  async generateBrokerClusters(endDate: string = 'all', logId: string | null = null): Promise<{ success: boolean; message: string; data?: any }> {
+    const target = /^\d{8}$/.test(endDate) ? endDate : null;
+    const days = await this.findTradingDates(target);
+    if (days.length < MIN_DAYS) {
+      return { success: false, message: `Not enough broker_transaction history (${days.length} trading days, need ${MIN_DAYS})` };
+    }
+    const dates = days.map(d => d.date);
+    const from = dates[0]!;
+    const to = dates[dates.length - 1]!;
+    console.log(`🔄 Broker clustering over ${dates.length} trading days (${from} - ${to})`);
+
+    const series = await this.loadEmitenSeries(days, logId);
+    const priceLevelDates = dates.slice(-PRICE_LEVEL_DAYS);
+
+    // Emiten dengan turnover terbesar yang dapat cek overlap level harga
+    const turnoverRank = Array.from(series.entries())
+      .map(([emiten, entry]) => ({ emiten, turnover: entry.turnover.reduce((s, v) => s + v, 0) }))
+      .sort((a, b) => b.turnover - a.turnover);
+    const priceLevelEmitens = new Set(turnoverRank.slice(0, PRICE_LEVEL_MAX_EMITENS).map(r => r.emiten));
+
+    // Akumulasi global per pasangan: co-accumulation dibobot turnover emiten
+    const globalCoAcc = new Map<string, { weighted: number; weight: number }>();
+    const globalPrice = new Map<string, { total: number; count: number }>();
+    const globalTogether = new Map<string, number>();
+    const generatedAt = new Date().toISOString();
+
+    let processed = 0;
+    let filesCreated = 0;
+    for (const { emiten, turnover } of turnoverRank) {
+      processed++;
+      const entry = series.get(emiten)!;
+      const activeDays = Array.from(entry.turnover).filter(v => v > 0).length;
+      if (activeDays < MIN_DAYS || !/^[A-Z]{4}$/.test(emiten)) continue;
+
+      // Net mentah (rupiah) untuk ranking cluster: porsi turnover × turnover harian
+      const rawNet = new Map<string, number>();
+      entry.net.forEach((values, broker) => {
+        let total = 0;
+        for (let i = 0; i < values.length; i++) total += (values[i] || 0) * (entry.turnover[i] || 0);
+        rawNet.set(broker, total);
+      });
+
+      const { members, stats } = this.clusterEmiten(entry, rawNet);
+
+      stats.forEach((pair, key) => {
+        if (pair.commonDays < MIN_COMMON_DAYS) return;
+        const acc = globalCoAcc.get(key) || { weighted: 0, weight: 0 };
+        acc.weighted += pair.coAccumulation * turnover;
+        acc.weight += turnover;
+        globalCoAcc.set(key, acc);
+      });
+
+      let priceLevels = new Map<string, number>();
+      if (members.length > 0 && priceLevelEmitens.has(emiten)) {
+        priceLevels = await this.computePriceLevelOverlap(emiten, Array.from(new Set(members.flat())), priceLevelDates);
+        priceLevels.forEach((value, key) => {
+          const acc = globalPrice.get(key) || { total: 0, count: 0 };
+          acc.total += value;
+          acc.count++;
+          globalPrice.set(key, acc);
+        });
+      }
+
+      const clusters = members.map((cluster, idx) => this.buildCluster(idx + 1, cluster, stats, priceLevels, rawNet));
+      clusters.forEach(cluster => cluster.pairs.forEach(pair => {
+        const key = pairKey(pair.a, pair.b);
+        globalTogether.set(key, (globalTogether.get(key) || 0) + 1);
+      }));
+
+      const result: BrokerClusterResult = {
+        scope: 'stock',
+        stockCode: emiten,
+        asOf: to,
+        from,
+        to,
+        tradingDays: activeDays,
+        brokerCount: entry.net.size,
+        clusters,
+        generatedAt
+      };
+      await uploadText(`${BROKER_CLUSTER_PREFIX}/stock/${emiten}.json`, JSON.stringify(result), 'application/json');
+      filesCreated++;
+
+      if (logId && processed % 50 === 0) {
+        await SchedulerLogService.updateLog(logId, {
+          progress_percentage: 50 + Math.round((processed / turnoverRank.length) * 45),
+          current_processing: `Clustering emiten ${processed}/${turnoverRank.length}`
+        });
+      }
+    }
+
+    // Global: korelasi dari seri IDX se-market, co-accumulation & overlap harga dari agregasi per emiten
+    const globalNet = await this.loadGlobalSeries(dates);
+    const globalBrokers = Array.from(globalNet.entries())
+      .filter(([, values]) => values.filter(v => v !== 0).length >= MIN_ACTIVE_DAYS)
+      .map(([broker]) => broker)
+      .sort();
+    const globalStats = new Map<string, PairStats>();
+    for (let i = 0; i < globalBrokers.length; i++) {
+      for (let j = i + 1; j < globalBrokers.length; j++) {
+        const key = pairKey(globalBrokers[i]!, globalBrokers[j]!);
+        const idxStats = computePairStats(globalNet.get(globalBrokers[i]!)!, globalNet.get(globalBrokers[j]!)!);
+        const coAcc = globalCoAcc.get(key);
+        globalStats.set(key, {
+          correlation: idxStats.correlation,
+          coAccumulation: coAcc && coAcc.weight > 0 ? coAcc.weighted / coAcc.weight : idxStats.coAccumulation,
+          commonDays: idxStats.commonDays
+        });
+      }
+    }
+    const globalPriceLevels = new Map<string, number>();
+    globalPrice.forEach((acc, key) => globalPriceLevels.set(key, acc.total / acc.count));
+
+    const globalRawNet = new Map<string, number>();
+    series.forEach(entry => {
+      entry.net.forEach((values, broker) => {
+        let total = 0;
+        for (let i = 0; i < values.length; i++) total += (values[i] || 0) * (entry.turnover[i] || 0);
+        globalRawNet.set(broker, (globalRawNet.get(broker) || 0) + total);
+      });
+    });
+
+    const globalMembers = averageLinkage(globalBrokers, (a, b) => {
+      const pair = globalStats.get(pairKey(a, b));
+      return pair ? flowScore(pair) : 0;
+    }, CLUSTER_THRESHOLD);
+    const globalClusters = globalMembers
+      .map((cluster, idx) => this.buildCluster(idx + 1, cluster, globalStats, globalPriceLevels, globalRawNet))
+      .sort((a, b) => b.confidence - a.confidence)
+      .map((cluster, idx) => ({
+        ...cluster,
+        id: idx + 1,
+        pairs: cluster.pairs.map(pair => ({ ...pair, emitenCount: globalTogether.get(pairKey(pair.a, pair.b)) || 0 }))
+      }));
+
+    const globalResult: BrokerClusterResult = {
+      scope: 'global',
+      stockCode: null,
+      asOf: to,
+      from,
+      to,
+      tradingDays: dates.length,
+      brokerCount: globalBrokers.length,
+      clusters: globalClusters,
+      generatedAt
+    };
+    await uploadText(`${BROKER_CLUSTER_PREFIX}/global.json`, JSON.stringify(globalResult), 'application/json');
+    filesCreated++;
+
+    console.log(`✅ Broker clustering done: ${filesCreated} files, ${globalClusters.length} global clusters`);
+    return {
+      success: true,
+      message: `Broker clusters generated for ${filesCreated - 1} emitens (${from} - ${to})`,
+      data: { from, to, tradingDays: dates.length, filesCreated, globalClusters: globalClusters.length }
+    };
+  }
+}
+
+export default BrokerClusteringCalculator;
@@ -2,6 +2,8 @@ import { uploadText, exists } from '../../utils/azureBlob';
 import { BATCH_SIZE_PHASE_4, MAX_CONCURRENT_REQUESTS_PHASE_4 } from '../../services/dataUpdateService';
 import { SchedulerLogService } from '../../services/schedulerLogService';
 import { doneSummaryCache } from '../../cache/doneSummaryCacheService';
+import { DtTransaction } from '../../utils/dtReader';
+import { recomputeManifest } from '../../services/recomputeManifest';
 
 // Progress tracker interface for thread-safe broker counting
 interface ProgressTracker {
@@ -28,15 +30,7 @@ async function limitConcurrency<T>(promises: Promise<T>[], maxConcurrency: numbe
 
 // Type definitions, sama seperti broker_summary.ts
 type TransactionType = 'RG' | 'TN' | 'NG';
-interface TransactionData {
-  STK_CODE: string;
-  BRK_COD1: string;
-  BRK_COD2: string;
-  STK_VOLM: number;
-  STK_PRIC: number;
-  TRX_CODE: string;
-  TRX_TYPE: string; // field tambahan
-}
+type TransactionData = DtTransaction;
 
 interface BrokerSummary {
   BrokerCode: string;
@@ -56,6 +50,9 @@ interface BrokerSummary {
 
 
 export class BrokerDataRGTNNGCalculator {
+  // Tanggal yang output-nya stale - file per emiten ditulis ulang walaupun sudah ada
+  private rebuildDates: Set<string> = new Set();
+
   constructor() { }
 
   /**
@@ -155,6 +152,11 @@ export class BrokerDataRGTNNGCalculator {
             if (csvFiles.length > 0) {
               allExist = true;
             }
+
+            if (allExist && await recomputeManifest.needsRebuild('broker_summary_type', dateSuffix)) {
+              this.rebuildDates.add(dateSuffix);
+              allExist = false;
+            }
           } catch (error) {
             // If check fails, proceed with processing (safer to process than skip)
             allExist = false;
@@ -229,18 +231,17 @@ export class BrokerDataRGTNNGCalculator {
     try {
       console.log(`📥 Loading file: ${blobName}`);
       
-      // Use shared cache for raw content (will cache automatically if not exists)
-      const content = await doneSummaryCache.getRawContent(blobName);
-      if (!content || content.trim().length === 0) {
+      // Use shared cache for parsed DT transactions (streamed via utils/dtReader)
+      const data = await doneSummaryCache.getTransactions(blobName);
+      if (!data || data.length === 0) {
         console.warn(`⚠️ Empty file or no content: ${blobName}`);
         return null;
       }
-      console.log(`✅ Downloaded ${blobName} (${content.length} characters)`);
+      console.log(`✅ Downloaded ${blobName} (${data.length} transactions)`);
       const pathParts = blobName.split('/');
       const dateFolder = pathParts[1] || 'unknown';
       const dateSuffix = dateFolder;
       console.log(`📅 Extracted date suffix: ${dateSuffix} from ${blobName}`);
-      const data = this.parseTransactionData(content);
       console.log(`✅ Parsed ${data.length} transactions from ${blobName}`);
       return { data, dateSuffix };
     } catch (error: any) {
@@ -249,40 +250,6 @@ export class BrokerDataRGTNNGCalculator {
     }
   }
 
-  private parseTransactionData(content: string): TransactionData[] {
-    const lines = content.trim().split('\n');
-    const header = lines[0]?.split(';') || [];
-    const getIdx = (col: string) => header.findIndex(h => h.trim() === col);
-    const iSTK_CODE = getIdx('STK_CODE');
-    const iBRK_COD1 = getIdx('BRK_COD1');
-    const iBRK_COD2 = getIdx('BRK_COD2');
-    const iSTK_VOLM = getIdx('STK_VOLM');
-    const iSTK_PRIC = getIdx('STK_PRIC');
-    const iTRX_CODE = getIdx('TRX_CODE');
-    const iTRX_TYPE = getIdx('TRX_TYPE');
-    if ([iSTK_CODE, iBRK_COD1, iBRK_COD2, iSTK_VOLM, iSTK_PRIC, iTRX_CODE, iTRX_TYPE].some(k => k === -1)) return [];
-    const data: TransactionData[] = [];
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i];
-      if (!line || line.trim().length === 0) continue;
-      const values = line.split(';');
-      const stockCode = values[iSTK_CODE]?.trim() || '';
-      if (stockCode.length === 4) {
-        const base: TransactionData = {
-          STK_CODE: stockCode,
-          BRK_COD1: values[iBRK_COD1]?.trim() || '',
-          BRK_COD2: values[iBRK_COD2]?.trim() || '',
-          STK_VOLM: parseFloat(values[iSTK_VOLM]?.trim() || '0') || 0,
-          STK_PRIC: parseFloat(values[iSTK_PRIC]?.trim() || '0') || 0,
-          TRX_CODE: values[iTRX_CODE]?.trim() || '',
-          TRX_TYPE: values[iTRX_TYPE]?.trim() || '',
-        };
-        data.push(base);
-      }
-    }
-    return data;
-  }
-
   private filterByType(data: TransactionData[], type: TransactionType): TransactionData[] {
     return data.filter(row => row.TRX_TYPE === type);
   }
@@ -306,7 +273,7 @@ export class BrokerDataRGTNNGCalculator {
       
       // Check if file already exists - skip if exists
       try {
-        const fileExists = await exists(filename);
+        const fileExists = !this.rebuildDates.has(dateSuffix) && await exists(filename);
         if (fileExists) {
           console.log(`⏭️ Skipping ${filename} - file already exists`);
           skippedFiles.push(filename);
@@ -528,6 +495,8 @@ export class BrokerDataRGTNNGCalculator {
                 const result = await this.createBrokerSummaryPerEmiten(filtered, date, type, progressTracker);
                 totalBrokerCount += result.brokerCount;
               }
+              await recomputeManifest.recordBuild('broker_summary_type', date);
+              this.rebuildDates.delete(date);
               
               return { success: true, skipped: false, dateSuffix: date, brokerCount: totalBrokerCount };
             } catch (error: any) {
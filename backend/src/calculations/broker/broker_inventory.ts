@@ -2,6 +2,9 @@ import { uploadText, listPaths, downloadText, listPrefixes } from '../../utils/a
 import { BATCH_SIZE_PHASE_8, MAX_CONCURRENT_REQUESTS_PHASE_8 } from '../../services/dataUpdateService';
 import { SchedulerLogService } from '../../services/schedulerLogService';
 import { brokerTransactionCache } from '../../cache/brokerTransactionCacheService';
+import { stockCache } from '../../cache/stockCacheService';
+import { brokerInventoryScreener } from '../../services/brokerInventoryScreener';
+import { tradingCalendar } from '../../services/tradingCalendarService';
 
 // Progress tracker interface for thread-safe broker-emiten counting
 interface ProgressTracker {
@@ -32,9 +35,25 @@ interface BrokerInventoryData {
   BuyVol: number;
   SellVol: number;
   NetBuyVol: number;
+  NetBuyValue: number;
   CumulativeBuyVol: number;
   CumulativeSellVol: number;
   CumulativeNetBuyVol: number;
+  AvgCost: number; // Weighted average acquisition price of the open position
+  RealizedPL: number; // P/L realized by this day's sells (or short covers)
+  CumulativeRealizedPL: number;
+  Close: number; // Day's close (carried forward when the stock has no row for this date)
+  UnrealizedPL: number; // (Close - AvgCost) x open position
+}
+
+/**
+ * Running cost basis per broker-emiten.
+ * Position bertanda: positif = long, negatif = net short relatif terhadap awal window.
+ */
+interface CostBasisState {
+  position: number;
+  avgCost: number;
+  cumulativeRealizedPL: number;
 }
 
 interface BrokerTransactionData {
@@ -210,6 +229,13 @@ export class BrokerInventoryCalculator {
         return new Set();
       }
 
+      // Output lama (sebelum kolom cost basis) harus dihitung ulang
+      const header = (lines[0] || '').split(',');
+      if (!header.includes('AvgCost') || !header.includes('NetBuyValue')) {
+        console.log('Existing broker_inventory output has no cost basis columns - treating as first run.');
+        return new Set();
+      }
+
       const processedDates = new Set<string>();
 
       // First line is header, following lines contain data
@@ -316,87 +342,182 @@ export class BrokerInventoryCalculator {
   }
 
   /**
-   * Calculate the previous date (baseline date)
+   * Previous IDX trading day (baseline date) - melewati weekend, libur bursa dan cuti bersama
    * Supports both YYMMDD (6 digits) and YYYYMMDD (8 digits) formats
-   * Returns date in the same format as input
+   * Returns date in the same format as input, or null (tanpa baseline) jika format tidak valid
    */
-  private getPreviousDate(dateStr: string): string {
-    if (!dateStr || dateStr.length < 6) {
+  private async getPreviousTradingDate(dateStr: string): Promise<string | null> {
+    if (!/^(\d{6}|\d{8})$/.test(dateStr || '')) {
       console.warn(`⚠️ Invalid date format: ${dateStr}`);
-      return dateStr;
+      return null;
     }
-    
-    let year: number;
-    let month: number;
-    let day: number;
+
     const isYYYYMMDD = dateStr.length === 8;
-    
-    if (isYYYYMMDD) {
-      // YYYYMMDD format (8 digits)
-      year = parseInt(dateStr.substring(0, 4) || '0');
-      month = parseInt(dateStr.substring(4, 6) || '0') - 1; // Month is 0-indexed
-      day = parseInt(dateStr.substring(6, 8) || '0');
-    } else {
-      // YYMMDD format (6 digits)
-      year = 2000 + parseInt(dateStr.substring(0, 2) || '0');
-      month = parseInt(dateStr.substring(2, 4) || '0') - 1; // Month is 0-indexed
-      day = parseInt(dateStr.substring(4, 6) || '0');
+    const fullDate = isYYYYMMDD ? dateStr : `20${dateStr}`;
+    let previous: string;
+    try {
+      previous = await tradingCalendar.previousTradingDay(fullDate);
+    } catch (error) {
+      // Jangan pernah kembalikan tanggal itu sendiri: baseline akan menimpa baris hari pertama
+      console.warn(`⚠️ Could not resolve previous trading day for ${dateStr}, falling back to previous weekday:`, error instanceof Error ? error.message : error);
+      const cursor = new Date(Date.UTC(+fullDate.slice(0, 4), +fullDate.slice(4, 6) - 1, +fullDate.slice(6, 8)));
+      do {
+        cursor.setUTCDate(cursor.getUTCDate() - 1);
+      } while (cursor.getUTCDay() === 0 || cursor.getUTCDay() === 6);
+      previous = cursor.toISOString().slice(0, 10).replace(/-/g, '');
     }
-    
-    const date = new Date(year, month, day);
-    date.setDate(date.getDate() - 1);
-    
-    // Convert back to same format as input
-    if (isYYYYMMDD) {
-      // Return YYYYMMDD format
-      const prevYear = date.getFullYear();
-      const prevMonth = (date.getMonth() + 1).toString().padStart(2, '0');
-      const prevDay = date.getDate().toString().padStart(2, '0');
-      return `${prevYear}${prevMonth}${prevDay}`;
-    } else {
-      // Return YYMMDD format
-      const prevYear = date.getFullYear() % 100;
-      const prevMonth = (date.getMonth() + 1).toString().padStart(2, '0');
-      const prevDay = date.getDate().toString().padStart(2, '0');
-      return `${prevYear.toString().padStart(2, '0')}${prevMonth}${prevDay}`;
+    return isYYYYMMDD ? previous : previous.substring(2);
+  }
+
+  /**
+   * Normalize stock OHLC date (YYYY-MM-DD, DD/MM/YYYY or YYYYMMDD) to YYYYMMDD
+   */
+  private normalizeStockDate(rawDate: string): string {
+    const dateStr = rawDate.trim();
+    if (dateStr.includes('/')) {
+      const [day, month, year] = dateStr.split('/');
+      if (!day || !month || !year) return '';
+      return `${year}${month.padStart(2, '0')}${day.padStart(2, '0')}`;
     }
+    return dateStr.replace(/-/g, '').substring(0, 8);
+  }
+
+  /**
+   * Build ticker -> stock OHLC blob path lookup from a single stock/ listing
+   */
+  private async loadStockPathLookup(): Promise<Map<string, string>> {
+    const lookup = new Map<string, string>();
+    try {
+      const files = await listPaths({ prefix: 'stock/' });
+      for (const file of files) {
+        const parts = file.split('/');
+        const fileName = parts[2];
+        if (parts.length === 3 && fileName && fileName.endsWith('.csv')) {
+          lookup.set(fileName.replace('.csv', '').toUpperCase(), file);
+        }
+      }
+      console.log(`📊 Found ${lookup.size} stock OHLC files for close price lookup`);
+    } catch (error) {
+      console.error('Error listing stock OHLC files - unrealized P/L will be empty:', error);
+    }
+    return lookup;
+  }
+
+  /**
+   * Load close prices for one emiten, limited to the processed date range (YYYYMMDD -> Close)
+   */
+  private async loadClosePrices(stockPath: string | undefined, dateRange: Set<string>): Promise<Map<string, number>> {
+    const closes = new Map<string, number>();
+    if (!stockPath) {
+      return closes;
+    }
+
+    try {
+      // Harga mentah: posisi broker dinilai pada harga saat transaksi terjadi
+      const content = await stockCache.getRawContent(stockPath, { adjusted: false });
+      if (!content) {
+        return closes;
+      }
+
+      const lines = content.trim().split('\n');
+      const headers = (lines[0] || '').split(',').map(h => h.trim().replace(/^\uFEFF/, '').toLowerCase());
+      const dateIdx = headers.indexOf('date');
+      const closeIdx = headers.indexOf('close');
+      if (dateIdx < 0 || closeIdx < 0) {
+        return closes;
+      }
+
+      for (let i = 1; i < lines.length; i++) {
+        const values = (lines[i] || '').split(',');
+        const date = this.normalizeStockDate(values[dateIdx] || '');
+        const close = parseFloat(values[closeIdx] || '0') || 0;
+        if (date && close > 0 && dateRange.has(date)) {
+          closes.set(date, close);
+        }
+      }
+    } catch (error) {
+      console.warn(`⚠️ Could not load close prices from ${stockPath}: ${error}`);
+    }
+    return closes;
+  }
+
+  /**
+   * Apply one fill to the running cost basis and return realized P/L.
+   * Fill searah posisi menambah posisi dengan harga rata-rata tertimbang;
+   * fill berlawanan menutup posisi pada avg cost, sisanya membuka posisi baru.
+   */
+  private applyFill(state: CostBasisState, volume: number, price: number, side: 1 | -1): number {
+    if (volume <= 0 || price <= 0) {
+      return 0;
+    }
+
+    let realized = 0;
+    let remaining = volume;
+
+    if (state.position !== 0 && Math.sign(state.position) !== side) {
+      const closing = Math.min(remaining, Math.abs(state.position));
+      // Long ditutup oleh sell: (price - avg); short ditutup oleh buy: (avg - price)
+      realized = (price - state.avgCost) * closing * -side;
+      state.position += closing * side;
+      remaining -= closing;
+      if (state.position === 0) {
+        state.avgCost = 0;
+      }
+    }
+
+    if (remaining > 0) {
+      const openVolume = Math.abs(state.position);
+      state.avgCost = (state.avgCost * openVolume + price * remaining) / (openVolume + remaining);
+      state.position += remaining * side;
+    }
+
+    state.cumulativeRealizedPL += realized;
+    return realized;
   }
 
   /**
    * Create broker inventory data for a specific broker and emiten across date range
    * dateRange should be sorted in ascending order (oldest first) for proper cumulative calculation
+   * Buys (at BuyerAvg) are applied before sells (at SellerAvg) within the same day.
    */
   private createBrokerInventoryData(
     brokerCode: string,
     emitenCode: string,
     dateRange: string[],
-    allBrokerData: Map<string, Map<string, BrokerTransactionData[]>>
+    allBrokerData: Map<string, Map<string, BrokerTransactionData[]>>,
+    closePrices: Map<string, number> = new Map(),
+    baselineDate: string | null = null
   ): BrokerInventoryData[] {
     const inventoryData: BrokerInventoryData[] = [];
     let cumulativeBuyVol = 0;
     let cumulativeSellVol = 0;
     let cumulativeNetBuyVol = 0;
+    const costBasis: CostBasisState = { position: 0, avgCost: 0, cumulativeRealizedPL: 0 };
+    let lastClose = 0;
+    const round2 = (value: number): number => Math.round(value * 100) / 100;
     
     // Ensure dateRange is sorted in ascending order (oldest first)
     const sortedDateRange = [...dateRange].sort();
     
-    // Add baseline date (first date - 1) with zero values
-    if (sortedDateRange.length > 0) {
-      const firstDate = sortedDateRange[0];
-      if (firstDate) {
-        const baselineDate = this.getPreviousDate(firstDate);
-        inventoryData.push({
-          Date: baselineDate,
-          BuyVol: 0,
-          SellVol: 0,
-          NetBuyVol: 0,
-          CumulativeBuyVol: 0,
-          CumulativeSellVol: 0,
-          CumulativeNetBuyVol: 0
-        });
-      }
+    // Add baseline date (previous trading day of the first date) with zero values
+    if (sortedDateRange.length > 0 && baselineDate) {
+      inventoryData.push({
+        Date: baselineDate,
+        BuyVol: 0,
+        SellVol: 0,
+        NetBuyVol: 0,
+        NetBuyValue: 0,
+        CumulativeBuyVol: 0,
+        CumulativeSellVol: 0,
+        CumulativeNetBuyVol: 0,
+        AvgCost: 0,
+        RealizedPL: 0,
+        CumulativeRealizedPL: 0,
+        Close: 0,
+        UnrealizedPL: 0
+      });
     }
-    
+
     // Process dates in chronological order (oldest first) for cumulative calculation
     for (const date of sortedDateRange) {
       const brokerDataForDate = allBrokerData.get(date)?.get(brokerCode) || [];
@@ -405,19 +526,35 @@ export class BrokerInventoryCalculator {
       const buyVol = emitenRecord ? emitenRecord.BuyerVol : 0;
       const sellVol = emitenRecord ? emitenRecord.SellerVol : 0;
       const netBuyVol = buyVol - sellVol;
+      const netBuyValue = emitenRecord ? emitenRecord.BuyerValue - emitenRecord.SellerValue : 0;
       
       cumulativeBuyVol += buyVol;
       cumulativeSellVol += sellVol;
       cumulativeNetBuyVol += netBuyVol;
       
+      const realizedPL =
+        this.applyFill(costBasis, buyVol, emitenRecord ? emitenRecord.BuyerAvg : 0, 1) +
+        this.applyFill(costBasis, sellVol, emitenRecord ? emitenRecord.SellerAvg : 0, -1);
+      
+      lastClose = closePrices.get(date) ?? lastClose;
+      const unrealizedPL = lastClose > 0 && costBasis.position !== 0
+        ? (lastClose - costBasis.avgCost) * costBasis.position
+        : 0;
+      
       inventoryData.push({
         Date: date,
         BuyVol: buyVol,
         SellVol: sellVol,
         NetBuyVol: netBuyVol,
+        NetBuyValue: netBuyValue,
         CumulativeBuyVol: cumulativeBuyVol,
         CumulativeSellVol: cumulativeSellVol,
-        CumulativeNetBuyVol: cumulativeNetBuyVol
+        CumulativeNetBuyVol: cumulativeNetBuyVol,
+        AvgCost: round2(costBasis.avgCost),
+        RealizedPL: round2(realizedPL),
+        CumulativeRealizedPL: round2(costBasis.cumulativeRealizedPL),
+        Close: lastClose,
+        UnrealizedPL: round2(unrealizedPL)
       });
     }
     
@@ -478,11 +615,25 @@ export class BrokerInventoryCalculator {
     const createdFiles: string[] = [];
     let totalCombinations = 0;
     
+    // Close prices per emiten for unrealized P/L (loaded once, shared across brokers)
+    const stockPaths = await this.loadStockPathLookup();
+    const dateSet = new Set(dateRange);
+    const closePricesByEmiten = new Map<string, Map<string, number>>();
+    // Baseline sama untuk semua kombinasi: hari bursa sebelum tanggal pertama
+    const firstDate = [...dateRange].sort()[0];
+    const baselineDate = firstDate ? await this.getPreviousTradingDate(firstDate) : null;
+    
     // Create inventory data for each broker-emiten combination
     for (const [brokerCode, emitenSet] of brokerEmitenCombinations) {
       for (const emitenCode of emitenSet) {
+        let closePrices = closePricesByEmiten.get(emitenCode);
+        if (!closePrices) {
+          closePrices = await this.loadClosePrices(stockPaths.get(emitenCode.toUpperCase()), dateSet);
+          closePricesByEmiten.set(emitenCode, closePrices);
+        }
+        
         // Create inventory data for this broker-emiten combination
-        const inventoryData = this.createBrokerInventoryData(brokerCode, emitenCode, dateRange, allBrokerData);
+        const inventoryData = this.createBrokerInventoryData(brokerCode, emitenCode, dateRange, allBrokerData, closePrices, baselineDate);
         
         // Save to Azure Blob Storage - same as original file structure
         const blobName = `broker_inventory/${emitenCode}/${brokerCode}.csv`;
@@ -734,6 +885,9 @@ export class BrokerInventoryCalculator {
       const result = await this.createBrokerInventoryFiles(allBrokerData, dates, progressTracker);
       const createdFiles = result.files;
       
+      // Screener index membaca ulang output yang baru ditulis di background
+      brokerInventoryScreener.refresh(createdFiles);
+      
       console.log("\nBroker inventory analysis completed successfully!");
       console.log(`Total broker inventory files created: ${createdFiles.length}`);
       
@@ -2,6 +2,8 @@ import { uploadText, exists } from '../../utils/azureBlob';
 import { BATCH_SIZE_PHASE_4, MAX_CONCURRENT_REQUESTS_PHASE_4 } from '../../services/dataUpdateService';
 import { SchedulerLogService } from '../../services/schedulerLogService';
 import { doneSummaryCache } from '../../cache/doneSummaryCacheService';
+import { DtTransaction } from '../../utils/dtReader';
+import { recomputeManifest } from '../../services/recomputeManifest';
 
 // Progress tracker interface for thread-safe broker counting
 interface ProgressTracker {
@@ -27,14 +29,7 @@ async function limitConcurrency<T>(promises: Promise<T>[], maxConcurrency: numbe
 }
 
 // Type definitions
-interface TransactionData {
-  STK_CODE: string;
-  BRK_COD1: string;
-  BRK_COD2: string;
-  STK_VOLM: number;
-  STK_PRIC: number;
-  TRX_CODE: string;
-}
+type TransactionData = DtTransaction;
 
 interface BrokerSummary {
   BrokerCode: string;
@@ -146,7 +141,8 @@ export class BrokerSummaryCalculator {
 
           try {
             const outputExists = await existsWithRetry(keyOutputFile);
-            return { file, dateSuffix, exists: outputExists, error: null };
+            const upToDate = outputExists && !(await recomputeManifest.needsRebuild('broker_summary', dateSuffix));
+            return { file, dateSuffix, exists: upToDate, error: null };
           } catch (error) {
             return { file, dateSuffix, exists: false, error: error instanceof Error ? error.message : String(error) };
           }
@@ -222,10 +218,10 @@ export class BrokerSummaryCalculator {
     try {
       console.log(`Loading DT file: ${blobName}`);
 
-      // Use shared cache for raw content (will cache automatically if not exists)
-      const content = await doneSummaryCache.getRawContent(blobName);
+      // Use shared cache for parsed DT transactions (streamed via utils/dtReader)
+      const data = await doneSummaryCache.getTransactions(blobName);
 
-      if (!content || content.trim().length === 0) {
+      if (!data || data.length === 0) {
         console.log(`⚠️ Empty file: ${blobName}`);
         return null;
       }
@@ -235,7 +231,6 @@ export class BrokerSummaryCalculator {
       const dateFolder = pathParts[1] || 'unknown'; // 20251021
       const dateSuffix = dateFolder; // Use full date as suffix
 
-      const data = this.parseTransactionData(content);
       console.log(`✅ Loaded ${data.length} transactions from ${blobName}`);
 
       return { data, dateSuffix };
@@ -245,62 +240,6 @@ export class BrokerSummaryCalculator {
     }
   }
 
-  private parseTransactionData(content: string): TransactionData[] {
-    const lines = content.trim().split('\n');
-    const data: TransactionData[] = [];
-
-    if (lines.length < 2) return data;
-
-    // Parse header to get column indices (using semicolon separator)
-    const header = lines[0]?.split(';') || [];
-    console.log(`📋 CSV Header: ${header.join(', ')}`);
-
-    const getColumnIndex = (columnName: string): number => {
-      return header.findIndex(col => col.trim() === columnName);
-    };
-
-    const stkCodeIndex = getColumnIndex('STK_CODE');
-    const brkCod1Index = getColumnIndex('BRK_COD1');
-    const brkCod2Index = getColumnIndex('BRK_COD2');
-    const stkVolmIndex = getColumnIndex('STK_VOLM');
-    const stkPricIndex = getColumnIndex('STK_PRIC');
-    const trxCodeIndex = getColumnIndex('TRX_CODE');
-
-    // Validate required columns exist
-    if (stkCodeIndex === -1 || brkCod1Index === -1 || brkCod2Index === -1 ||
-      stkVolmIndex === -1 || stkPricIndex === -1 || trxCodeIndex === -1) {
-      console.error('❌ Required columns not found in CSV header');
-      return data;
-    }
-
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i];
-      if (!line || line.trim().length === 0) continue;
-
-      const values = line.split(';');
-      if (values.length < header.length) continue;
-
-      const stockCode = values[stkCodeIndex]?.trim() || '';
-
-      // Filter hanya kode emiten 4 huruf - same as original file
-      if (stockCode.length === 4) {
-        const transaction: TransactionData = {
-          STK_CODE: stockCode,
-          BRK_COD1: values[brkCod1Index]?.trim() || '',
-          BRK_COD2: values[brkCod2Index]?.trim() || '',
-          STK_VOLM: parseFloat(values[stkVolmIndex]?.trim() || '0') || 0,
-          STK_PRIC: parseFloat(values[stkPricIndex]?.trim() || '0') || 0,
-          TRX_CODE: values[trxCodeIndex]?.trim() || ''
-        };
-
-        data.push(transaction);
-      }
-    }
-
-    console.log(`📊 Loaded ${data.length} transaction records from Azure (4-character stocks only)`);
-    return data;
-  }
-
   /**
    * Create broker summary files for each emiten
    */
@@ -636,6 +575,7 @@ export class BrokerSummaryCalculator {
       const allsumStartTime = Date.now();
       await this.saveToAzure(`broker_summary/broker_summary_${dateSuffix}/ALLSUM-broker_summary.csv`, detailedSummary);
       timing.allsum = Math.round((Date.now() - allsumStartTime) / 1000);
+      await recomputeManifest.recordBuild('broker_summary', dateSuffix);
 
       const allFiles = [
         ...brokerSummaryFiles,
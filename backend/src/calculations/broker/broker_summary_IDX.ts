@@ -1,5 +1,6 @@
 import { downloadText, uploadText, listPaths } from '../../utils/azureBlob';
 import { BATCH_SIZE_PHASE_4, MAX_CONCURRENT_REQUESTS_PHASE_4 } from '../../services/dataUpdateService';
+import { recomputeManifest } from '../../services/recomputeManifest';
 
 // Helper function to limit concurrency for Phase 4
 async function limitConcurrency<T>(promises: Promise<T>[], maxConcurrency: number): Promise<T[]> {
@@ -245,7 +246,7 @@ export class BrokerSummaryIDXCalculator {
       const idxFilePath = `${folderPrefix}/IDX.csv`;
       try {
         const idxExists = await exists(idxFilePath);
-        if (idxExists) {
+        if (idxExists && !(await recomputeManifest.needsRebuild('broker_summary_idx', dateSuffix, marketType || undefined))) {
           console.log(`⏭️ Skipping ${idxFilePath} - IDX.csv already exists`);
           return {
             success: true,
@@ -365,6 +366,7 @@ export class BrokerSummaryIDXCalculator {
 
       // Save IDX.csv to the same folder (reuse variable from skip check)
       await uploadText(idxFilePath, csvContent, 'text/csv');
+      await recomputeManifest.recordBuild('broker_summary_idx', dateSuffix, marketType || undefined);
 
       const brokerCount = aggregatedData.length;
       console.log(`✅ Successfully created ${idxFilePath} with ${brokerCount} brokers`);
@@ -1,7 +1,8 @@
 import { uploadText } from '../../utils/azureBlob';
 import { BATCH_SIZE_PHASE_4, MAX_CONCURRENT_REQUESTS_PHASE_4 } from '../../services/dataUpdateService';
-import { downloadText as downloadTextUtil } from '../../utils/azureBlob';
 import { brokerSummaryCache } from '../../cache/brokerSummaryCacheService';
+import { recomputeManifest } from '../../services/recomputeManifest';
+import { sectorTaxonomy } from '../../services/sectorTaxonomyService';
 
 // Helper function to limit concurrency for Phase 4
 async function limitConcurrency<T>(promises: Promise<T>[], maxConcurrency: number): Promise<T[]> {
@@ -18,69 +19,6 @@ async function limitConcurrency<T>(promises: Promise<T>[], maxConcurrency: numbe
   return results;
 }
 
-// Sector mapping cache - loaded from csv_input/sector_mapping.csv
-// OPTIMIZATION: Cache dengan timestamp untuk avoid reload berulang
-let SECTOR_MAPPING: { [key: string]: string[] } = {};
-let SECTOR_MAPPING_TIMESTAMP: number = 0;
-const SECTOR_MAPPING_CACHE_TTL = 60 * 60 * 1000; // 1 hour
-
-/**
- * Build sector mapping from csv_input/sector_mapping.csv
- * OPTIMIZED: Cache dengan TTL untuk avoid reload berulang
- */
-async function buildSectorMappingFromCsv(): Promise<void> {
-  // Check if cache is still valid
-  const now = Date.now();
-  if (Object.keys(SECTOR_MAPPING).length > 0 && (now - SECTOR_MAPPING_TIMESTAMP) < SECTOR_MAPPING_CACHE_TTL) {
-    console.log('📦 Using cached sector mapping (age: ' + Math.round((now - SECTOR_MAPPING_TIMESTAMP) / 1000) + 's)');
-    return;
-  }
-  
-  try {
-    console.log('🔍 Building sector mapping from csv_input/sector_mapping.csv...');
-    
-    // Reset mapping
-    Object.keys(SECTOR_MAPPING).forEach(sector => {
-      SECTOR_MAPPING[sector] = [];
-    });
-    
-    // Load sector mapping from CSV file
-    const csvData = await downloadTextUtil('csv_input/sector_mapping.csv');
-    const lines = csvData.split('\n');
-    
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i];
-      if (!line || line.trim().length === 0) continue;
-      
-      const parts = line.split(',');
-      if (parts.length >= 2) {
-        const sector = parts[0]?.trim();
-        const emiten = parts[1]?.trim();
-        
-        if (sector && emiten && emiten.length === 4) {
-          if (!SECTOR_MAPPING[sector]) {
-            SECTOR_MAPPING[sector] = [];
-          }
-          if (!SECTOR_MAPPING[sector].includes(emiten)) {
-            SECTOR_MAPPING[sector].push(emiten);
-          }
-        }
-      }
-    }
-    
-    // Update cache timestamp
-    SECTOR_MAPPING_TIMESTAMP = now;
-    
-    console.log('📊 Sector mapping built successfully from CSV');
-    console.log(`📊 Found ${Object.keys(SECTOR_MAPPING).length} sectors with total ${Object.values(SECTOR_MAPPING).flat().length} emitens`);
-  } catch (error) {
-    console.warn('⚠️ Could not build sector mapping from CSV:', error);
-    console.log('⚠️ Using empty sector mapping');
-    SECTOR_MAPPING = {};
-    SECTOR_MAPPING_TIMESTAMP = 0;
-  }
-}
-
 // Type definitions - same as broker_summary.ts
 interface BrokerSummary {
   BrokerCode: string;
@@ -295,13 +233,8 @@ export class BrokerSummarySectorCalculator {
         };
       }
 
-      // Build sector mapping if not already loaded
-      if (Object.keys(SECTOR_MAPPING).length === 0) {
-        await buildSectorMappingFromCsv();
-      }
-
-      // Get stocks in this sector
-      const stocksInSector = SECTOR_MAPPING[sectorName] || [];
+      // Get stocks in this sector (sector taxonomy = sumber mapping yang sama dengan route & calculator lain)
+      const stocksInSector = (await sectorTaxonomy.getSectorMapping())[sectorName] || [];
       
       if (stocksInSector.length === 0) {
         console.log(`⚠️ No stocks found for sector: ${sectorName}`);
@@ -325,9 +258,10 @@ export class BrokerSummarySectorCalculator {
       // Check if sector CSV already exists - skip if exists
       const { exists } = await import('../../utils/azureBlob');
       const sectorFilePath = `${folderPrefix}/${sectorName}.csv`;
+      const manifestVariant = marketType ? `${marketType}/${sectorName}` : sectorName;
       try {
         const sectorExists = await exists(sectorFilePath);
-        if (sectorExists) {
+        if (sectorExists && !(await recomputeManifest.needsRebuild('broker_summary_sector', dateSuffix, manifestVariant))) {
           console.log(`⏭️ Skipping ${sectorFilePath} - ${sectorName}.csv already exists`);
           return {
             success: true,
@@ -432,6 +366,7 @@ export class BrokerSummarySectorCalculator {
 
       // Save sector CSV to the same folder
       await uploadText(sectorFilePath, csvContent, 'text/csv');
+      await recomputeManifest.recordBuild('broker_summary_sector', dateSuffix, manifestVariant);
 
       const brokerCount = aggregatedData.length;
       console.log(`✅ Successfully created ${sectorFilePath} with ${brokerCount} brokers`);
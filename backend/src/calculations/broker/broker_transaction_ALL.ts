@@ -1,5 +1,6 @@
 import { uploadText, listPaths, exists, downloadText as downloadTextUtil } from '../../utils/azureBlob';
 import { BATCH_SIZE_PHASE_5, MAX_CONCURRENT_REQUESTS_PHASE_5 } from '../../services/dataUpdateService';
+import { recomputeManifest } from '../../services/recomputeManifest';
 
 // Progress tracker interface for thread-safe broker counting
 interface ProgressTracker {
@@ -448,6 +449,7 @@ export class BrokerTransactionALLCalculator {
       // Check if ALL.csv already exists - skip if exists
       // OPTIMIZED: Added retry logic for exists() check
       const allFilePath = `${folderPrefix}/ALL.csv`;
+      const manifestVariant = `${investorType || 'all'}_${marketType || 'all'}`;
       const maxRetries = 2;
       let allExists = false;
       for (let attempt = 1; attempt <= maxRetries; attempt++) {
@@ -470,7 +472,7 @@ export class BrokerTransactionALLCalculator {
         }
       }
       
-      if (allExists) {
+      if (allExists && !(await recomputeManifest.needsRebuild('broker_transaction_all', dateSuffix, manifestVariant))) {
         console.log(`⏭️ Skipping ${allFilePath} - ALL.csv already exists`);
         return {
           success: true,
@@ -597,6 +599,7 @@ export class BrokerTransactionALLCalculator {
 
       // Save ALL.csv to the same folder
       await uploadText(allFilePath, csvContentOutput, 'text/csv');
+      await recomputeManifest.recordBuild('broker_transaction_all', dateSuffix, manifestVariant);
 
       const brokerCount = brokerFiles.length;
       console.log(`✅ Successfully created ${allFilePath} with aggregated ALL data from ${brokerCount} brokers`);
@@ -719,9 +722,10 @@ export class BrokerTransactionALLCalculator {
 
       // Check if ALL.csv already exists - skip if exists
       const allFilePath = `${folderPrefix}/${sectorName}_ALL.csv`;
+      const manifestVariant = `${sectorName}_${investorType || 'all'}_${marketType || 'all'}`;
       try {
         const allExists = await exists(allFilePath);
-        if (allExists) {
+        if (allExists && !(await recomputeManifest.needsRebuild('broker_transaction_all', dateSuffix, manifestVariant))) {
           console.log(`⏭️ Skipping ${allFilePath} - ${sectorName}_ALL.csv already exists`);
           return {
             success: true,
@@ -838,6 +842,7 @@ export class BrokerTransactionALLCalculator {
 
       // Save ALL.csv to the same folder
       await uploadText(allFilePath, csvContentOutput, 'text/csv');
+      await recomputeManifest.recordBuild('broker_transaction_all', dateSuffix, manifestVariant);
 
       const brokerCount = brokerFiles.length;
       console.log(`✅ Successfully created ${allFilePath} with aggregated ${sectorName}_ALL data from ${brokerCount} brokers`);
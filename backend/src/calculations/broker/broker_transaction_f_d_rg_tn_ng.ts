@@ -2,6 +2,8 @@ import { uploadText, listPaths } from '../../utils/azureBlob';
 import { BATCH_SIZE_PHASE_5, MAX_CONCURRENT_REQUESTS_PHASE_5 } from '../../services/dataUpdateService';
 import { SchedulerLogService } from '../../services/schedulerLogService';
 import { doneSummaryCache } from '../../cache/doneSummaryCacheService';
+import { DtTransaction } from '../../utils/dtReader';
+import { recomputeManifest } from '../../services/recomputeManifest';
 
 // Progress tracker interface for thread-safe broker counting
 interface ProgressTracker {
@@ -30,20 +32,7 @@ async function limitConcurrency<T>(promises: Promise<T>[], maxConcurrency: numbe
 type TransactionType = 'RG' | 'TN' | 'NG';
 type InvestorType = 'D' | 'F'; // D = Domestik (I), F = Foreign (A)
 
-interface TransactionData {
-  STK_CODE: string;
-  BRK_COD1: string; // Buyer broker
-  BRK_COD2: string; // Seller broker
-  STK_VOLM: number;
-  STK_PRIC: number;
-  TRX_CODE: string;
-  TRX_TYPE: string; // field tambahan
-  TRX_TIME: string; // Transaction time (HH:MM:SS or HHMMSS)
-  INV_TYP1: string; // Investor type 1 (buyer) - I = Indonesia, A = Asing
-  INV_TYP2: string; // Investor type 2 (seller) - I = Indonesia, A = Asing
-  TRX_ORD1: number; // Order reference 1 (buyer)
-  TRX_ORD2: number; // Order reference 2 (seller)
-}
+type TransactionData = DtTransaction;
 
 interface BrokerTransactionData {
   Emiten: string;
@@ -266,7 +255,7 @@ export class BrokerTransactionFDRGTNNGCalculator {
         const invTypeName = invType.toLowerCase();
         const prefix = `broker_transaction_${typeName}_${invTypeName}/broker_transaction_${typeName}_${invTypeName}_${dateSuffix}/`;
         const existingFiles = await listPaths({ prefix, maxResults: 1 });
-        return existingFiles.length > 0;
+        return existingFiles.length > 0 && !(await recomputeManifest.needsRebuild('broker_transaction_f_d_rg_tn_ng', dateSuffix));
       } catch (error: any) {
         const isRetryable = 
           error?.code === 'PARSE_ERROR' ||
@@ -425,16 +414,15 @@ export class BrokerTransactionFDRGTNNGCalculator {
     try {
       console.log(`📥 Loading file: ${blobName}`);
       
-      // Use shared cache for raw content (will cache automatically if not exists)
-      const content = await doneSummaryCache.getRawContent(blobName);
-      if (!content || content.trim().length === 0) {
+      // Use shared cache for parsed DT transactions (streamed via utils/dtReader)
+      const data = await doneSummaryCache.getTransactions(blobName);
+      if (!data || data.length === 0) {
         console.warn(`⚠️ Empty file or no content: ${blobName}`);
         return { success: false, dateSuffix, files: [] };
       }
-      console.log(`✅ Loaded ${blobName} (${content.length} characters)`);
+      console.log(`✅ Loaded ${blobName} (${data.length} transactions)`);
       console.log(`📅 Extracted date suffix: ${dateSuffix} from ${blobName}`);
       
-      const data = this.parseTransactionData(content);
       console.log(`✅ Parsed ${data.length} transactions from ${blobName}`);
       
       if (data.length === 0) {
@@ -480,6 +468,7 @@ export class BrokerTransactionFDRGTNNGCalculator {
       }
       
       console.log(`✅ Completed processing ${blobName} - ${allFiles.length} files created, ${totalBrokerCount} brokers processed`);
+      await recomputeManifest.recordBuild('broker_transaction_f_d_rg_tn_ng', dateSuffix);
       return { success: true, dateSuffix, files: allFiles, timing, brokerCount: totalBrokerCount };
       
     } catch (error: any) {
@@ -488,49 +477,6 @@ export class BrokerTransactionFDRGTNNGCalculator {
     }
   }
 
-  private parseTransactionData(content: string): TransactionData[] {
-    const lines = content.trim().split('\n');
-    const header = lines[0]?.split(';') || [];
-    const getIdx = (col: string) => header.findIndex(h => h.trim() === col);
-    const iSTK_CODE = getIdx('STK_CODE');
-    const iBRK_COD1 = getIdx('BRK_COD1');
-    const iBRK_COD2 = getIdx('BRK_COD2');
-    const iSTK_VOLM = getIdx('STK_VOLM');
-    const iSTK_PRIC = getIdx('STK_PRIC');
-    const iTRX_CODE = getIdx('TRX_CODE');
-    const iTRX_TYPE = getIdx('TRX_TYPE');
-    const iTRX_TIME = getIdx('TRX_TIME');
-    const iINV_TYP1 = getIdx('INV_TYP1');
-    const iINV_TYP2 = getIdx('INV_TYP2');
-    const iTRX_ORD1 = getIdx('TRX_ORD1');
-    const iTRX_ORD2 = getIdx('TRX_ORD2');
-    if ([iSTK_CODE, iBRK_COD1, iBRK_COD2, iSTK_VOLM, iSTK_PRIC, iTRX_CODE, iTRX_TYPE, iTRX_TIME, iINV_TYP1, iINV_TYP2, iTRX_ORD1, iTRX_ORD2].some(k => k === -1)) return [];
-    const data: TransactionData[] = [];
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i];
-      if (!line || line.trim().length === 0) continue;
-      const values = line.split(';');
-      const stockCode = values[iSTK_CODE]?.trim() || '';
-      if (stockCode.length === 4) {
-        const base: TransactionData = {
-          STK_CODE: stockCode,
-          BRK_COD1: values[iBRK_COD1]?.trim() || '',
-          BRK_COD2: values[iBRK_COD2]?.trim() || '',
-          STK_VOLM: parseFloat(values[iSTK_VOLM]?.trim() || '0') || 0,
-          STK_PRIC: parseFloat(values[iSTK_PRIC]?.trim() || '0') || 0,
-          TRX_CODE: values[iTRX_CODE]?.trim() || '',
-          TRX_TYPE: values[iTRX_TYPE]?.trim() || '',
-          TRX_TIME: values[iTRX_TIME]?.trim() || '',
-          INV_TYP1: values[iINV_TYP1]?.trim() || '',
-          INV_TYP2: values[iINV_TYP2]?.trim() || '',
-          TRX_ORD1: parseInt(values[iTRX_ORD1]?.trim() || '0', 10) || 0,
-          TRX_ORD2: parseInt(values[iTRX_ORD2]?.trim() || '0', 10) || 0,
-        };
-        data.push(base);
-      }
-    }
-      return data;
-    }
     
   private filterByType(data: TransactionData[], type: TransactionType): TransactionData[] {
     return data.filter(row => row.TRX_TYPE === type);
@@ -2,6 +2,7 @@ import { uploadText, listPaths, exists } from '../../utils/azureBlob';
 import { brokerTransactionCache } from '../../cache/brokerTransactionCacheService';
 import { BATCH_SIZE_PHASE_5, MAX_CONCURRENT_REQUESTS_PHASE_5 } from '../../services/dataUpdateService';
 import { downloadText as downloadTextUtil } from '../../utils/azureBlob';
+import { recomputeManifest } from '../../services/recomputeManifest';
 
 // Progress tracker interface for thread-safe broker counting
 interface ProgressTracker {
@@ -419,9 +420,10 @@ export class BrokerTransactionSectorCalculator {
       // CRITICAL: Check if Sector.csv already exists FIRST - skip if exists
       // OPTIMIZED: Simplified check (like broker_summary_sector)
       const sectorFilePath = `${folderPrefix}/${sectorName}.csv`;
+      const manifestVariant = `${sectorName}_${investorType || 'all'}_${marketType || 'all'}`;
       try {
         const sectorExists = await exists(sectorFilePath);
-        if (sectorExists) {
+        if (sectorExists && !(await recomputeManifest.needsRebuild('broker_transaction_sector', dateSuffix, manifestVariant))) {
           console.log(`⏭️ Skipping ${sectorFilePath} - ${sectorName}.csv already exists`);
           return {
             success: true,
@@ -559,6 +561,7 @@ export class BrokerTransactionSectorCalculator {
 
       // Save Sector.csv to the same folder
       await uploadText(sectorFilePath, csvContentOutput, 'text/csv');
+      await recomputeManifest.recordBuild('broker_transaction_sector', dateSuffix, manifestVariant);
 
       const brokerCount = brokerFiles.length;
       console.log(`✅ Successfully created ${sectorFilePath} with aggregated ${sectorName} data from ${brokerCount} brokers`);
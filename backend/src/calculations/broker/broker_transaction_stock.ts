@@ -2,6 +2,8 @@ import { uploadText, listPaths } from '../../utils/azureBlob';
 import { BATCH_SIZE_PHASE_6, MAX_CONCURRENT_REQUESTS_PHASE_6 } from '../../services/dataUpdateService';
 import { SchedulerLogService } from '../../services/schedulerLogService';
 import { doneSummaryCache } from '../../cache/doneSummaryCacheService';
+import { DtTransaction } from '../../utils/dtReader';
+import { recomputeManifest } from '../../services/recomputeManifest';
 
 // Progress tracker interface for thread-safe stock counting
 interface ProgressTracker {
@@ -27,17 +29,7 @@ async function limitConcurrency<T>(promises: Promise<T>[], maxConcurrency: numbe
 }
 
 // Type definitions
-interface TransactionData {
-  STK_CODE: string;
-  BRK_COD1: string; // Buyer broker
-  BRK_COD2: string; // Seller broker
-  STK_VOLM: number;
-  STK_PRIC: number;
-  TRX_CODE: string;
-  TRX_TIME: string; // Transaction time (HH:MM:SS or HHMMSS)
-  TRX_ORD1: number; // Order reference 1 (buyer)
-  TRX_ORD2: number; // Order reference 2 (seller)
-}
+type TransactionData = DtTransaction;
 
 interface BrokerTransactionData {
   Broker: string; // Changed from Emiten - now we list brokers for each stock
@@ -336,10 +328,10 @@ export class BrokerTransactionStockCalculator {
     try {
       console.log(`Loading DT file: ${blobName}`);
       
-      // Use shared cache for raw content (will cache automatically if not exists)
-      const content = await doneSummaryCache.getRawContent(blobName);
+      // Use shared cache for parsed DT transactions (streamed via utils/dtReader)
+      const data = await doneSummaryCache.getTransactions(blobName);
       
-      if (!content || content.trim().length === 0) {
+      if (!data || data.length === 0) {
         console.log(`⚠️ Empty file: ${blobName}`);
         return null;
       }
@@ -349,7 +341,6 @@ export class BrokerTransactionStockCalculator {
       const dateFolder = pathParts[1] || 'unknown'; // 20251021
       const dateSuffix = dateFolder; // Use full date as suffix
       
-      const data = this.parseTransactionData(content);
       console.log(`✅ Loaded ${data.length} transactions from ${blobName}`);
       
       return { data, dateSuffix };
@@ -359,69 +350,6 @@ export class BrokerTransactionStockCalculator {
     }
   }
 
-  private parseTransactionData(content: string): TransactionData[] {
-    const lines = content.trim().split('\n');
-    const data: TransactionData[] = [];
-    
-    if (lines.length < 2) return data;
-    
-    // Parse header to get column indices (using semicolon separator)
-    const header = lines[0]?.split(';') || [];
-    console.log(`📋 CSV Header: ${header.join(', ')}`);
-    
-    const getColumnIndex = (columnName: string): number => {
-      return header.findIndex(col => col.trim() === columnName);
-    };
-    
-    const stkCodeIndex = getColumnIndex('STK_CODE');
-    const brkCod1Index = getColumnIndex('BRK_COD1');
-    const brkCod2Index = getColumnIndex('BRK_COD2');
-    const stkVolmIndex = getColumnIndex('STK_VOLM');
-    const stkPricIndex = getColumnIndex('STK_PRIC');
-    const trxCodeIndex = getColumnIndex('TRX_CODE');
-    const trxTimeIndex = getColumnIndex('TRX_TIME');
-    const trxOrd1Index = getColumnIndex('TRX_ORD1');
-    const trxOrd2Index = getColumnIndex('TRX_ORD2');
-    
-    // Validate required columns exist
-    if (stkCodeIndex === -1 || brkCod1Index === -1 || brkCod2Index === -1 || 
-        stkVolmIndex === -1 || stkPricIndex === -1 || trxCodeIndex === -1 ||
-        trxTimeIndex === -1 || trxOrd1Index === -1 || trxOrd2Index === -1) {
-      console.error('❌ Required columns not found in CSV header');
-      return data;
-    }
-    
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i];
-      if (!line || line.trim().length === 0) continue;
-      
-      const values = line.split(';');
-      if (values.length < header.length) continue;
-      
-      const stockCode = values[stkCodeIndex]?.trim() || '';
-      
-      // Filter hanya kode emiten 4 huruf
-      if (stockCode.length === 4) {
-        const transaction: TransactionData = {
-          STK_CODE: stockCode,
-          BRK_COD1: values[brkCod1Index]?.trim() || '',
-          BRK_COD2: values[brkCod2Index]?.trim() || '',
-          STK_VOLM: parseFloat(values[stkVolmIndex]?.trim() || '0') || 0,
-          STK_PRIC: parseFloat(values[stkPricIndex]?.trim() || '0') || 0,
-          TRX_CODE: values[trxCodeIndex]?.trim() || '',
-          TRX_TIME: values[trxTimeIndex]?.trim() || '',
-          TRX_ORD1: parseInt(values[trxOrd1Index]?.trim() || '0', 10) || 0,
-          TRX_ORD2: parseInt(values[trxOrd2Index]?.trim() || '0', 10) || 0,
-        };
-        
-        data.push(transaction);
-      }
-    }
-    
-    console.log(`📊 Loaded ${data.length} transaction records from Azure (4-character stocks only)`);
-    return data;
-  }
-
   /**
    * Check if broker transaction stock folder for specific date already exists
    * OPTIMIZED: Added retry logic for Azure network errors
@@ -432,7 +360,7 @@ export class BrokerTransactionStockCalculator {
       try {
         const prefix = `broker_transaction_stock/broker_transaction_stock_${dateSuffix}/`;
         const existingFiles = await listPaths({ prefix, maxResults: 1 });
-        return existingFiles.length > 0;
+        return existingFiles.length > 0 && !(await recomputeManifest.needsRebuild('broker_transaction_stock', dateSuffix));
       } catch (error: any) {
         const isRetryable = 
           error?.code === 'PARSE_ERROR' ||
@@ -720,6 +648,7 @@ export class BrokerTransactionStockCalculator {
       const stockCount = result.stockCount;
       
       console.log(`✅ Completed processing ${blobName} - ${allFiles.length} files created, ${stockCount} stocks processed`);
+      await recomputeManifest.recordBuild('broker_transaction_stock', dateSuffix);
       return { success: true, dateSuffix, files: allFiles, timing, stockCount };
       
     } catch (error) {
@@ -1,5 +1,6 @@
 import { downloadText, uploadText, listPaths, exists } from '../../utils/azureBlob';
 import { BATCH_SIZE_PHASE_6, MAX_CONCURRENT_REQUESTS_PHASE_6 } from '../../services/dataUpdateService';
+import { recomputeManifest } from '../../services/recomputeManifest';
 
 // Progress tracker interface for thread-safe stock counting
 interface ProgressTracker {
@@ -416,6 +417,7 @@ export class BrokerTransactionStockIDXCalculator {
       // Check if IDX.csv already exists - skip if exists
       // OPTIMIZED: Added retry logic for exists() check
       const idxFilePath = `${folderPrefix}/IDX.csv`;
+      const manifestVariant = `${investorType || 'all'}_${marketType || 'all'}`;
       const maxRetriesExists = 2;
       let idxExists = false;
       for (let attempt = 1; attempt <= maxRetriesExists; attempt++) {
@@ -439,7 +441,7 @@ export class BrokerTransactionStockIDXCalculator {
         }
       }
       
-      if (idxExists) {
+      if (idxExists && !(await recomputeManifest.needsRebuild('broker_transaction_stock_idx', dateSuffix, manifestVariant))) {
         console.log(`⏭️ Skipping ${idxFilePath} - IDX.csv already exists`);
         return {
           success: true,
@@ -559,6 +561,7 @@ export class BrokerTransactionStockIDXCalculator {
 
       // Save IDX.csv to the same folder
       await uploadText(idxFilePath, csvContent, 'text/csv');
+      await recomputeManifest.recordBuild('broker_transaction_stock_idx', dateSuffix, manifestVariant);
 
       const stockCount = stockFiles.length;
       console.log(`✅ Successfully created ${idxFilePath} with ${aggregatedData.length} brokers aggregated from ${stockCount} stocks`);
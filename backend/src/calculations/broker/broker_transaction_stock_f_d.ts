@@ -2,6 +2,8 @@ import { uploadText, listPaths } from '../../utils/azureBlob';
 import { BATCH_SIZE_PHASE_6, MAX_CONCURRENT_REQUESTS_PHASE_6 } from '../../services/dataUpdateService';
 import { SchedulerLogService } from '../../services/schedulerLogService';
 import { doneSummaryCache } from '../../cache/doneSummaryCacheService';
+import { DtTransaction } from '../../utils/dtReader';
+import { recomputeManifest } from '../../services/recomputeManifest';
 
 // Progress tracker interface for thread-safe stock counting
 interface ProgressTracker {
@@ -27,19 +29,7 @@ async function limitConcurrency<T>(promises: Promise<T>[], maxConcurrency: numbe
 }
 
 // Type definitions
-interface TransactionData {
-  STK_CODE: string;
-  BRK_COD1: string; // Buyer broker
-  BRK_COD2: string; // Seller broker
-  STK_VOLM: number;
-  STK_PRIC: number;
-  TRX_CODE: string;
-  TRX_TIME: string; // Transaction time (HH:MM:SS or HHMMSS)
-  INV_TYP1: string; // Investor type 1 (buyer) - I = Indonesia, A = Asing
-  INV_TYP2: string; // Investor type 2 (seller) - I = Indonesia, A = Asing
-  TRX_ORD1: number; // Order reference 1 (buyer)
-  TRX_ORD2: number; // Order reference 2 (seller)
-}
+type TransactionData = DtTransaction;
 
 interface BrokerTransactionData {
   Broker: string; // Changed from Emiten - now we list brokers for each stock
@@ -354,7 +344,7 @@ export class BrokerTransactionStockFDCalculator {
         const prefixD = `broker_transaction_stock/broker_transaction_stock_d_${dateSuffix}/`;
         const existingFilesD = await listPaths({ prefix: prefixD, maxResults: 1 });
         // If D exists, assume both D and F exist (skip date)
-        return existingFilesD.length > 0;
+        return existingFilesD.length > 0 && !(await recomputeManifest.needsRebuild('broker_transaction_stock_f_d', dateSuffix));
       } catch (error: any) {
         const isRetryable = 
           error?.code === 'PARSE_ERROR' ||
@@ -380,10 +370,10 @@ export class BrokerTransactionStockFDCalculator {
     try {
       console.log(`Loading DT file: ${blobName}`);
       
-      // Use shared cache for raw content (will cache automatically if not exists)
-      const content = await doneSummaryCache.getRawContent(blobName);
+      // Use shared cache for parsed DT transactions (streamed via utils/dtReader)
+      const data = await doneSummaryCache.getTransactions(blobName);
       
-      if (!content || content.trim().length === 0) {
+      if (!data || data.length === 0) {
         console.log(`⚠️ Empty file: ${blobName}`);
         return null;
       }
@@ -393,7 +383,6 @@ export class BrokerTransactionStockFDCalculator {
       const dateFolder = pathParts[1] || 'unknown'; // 20251021
       const dateSuffix = dateFolder; // Use full date as suffix
       
-      const data = this.parseTransactionData(content);
       console.log(`✅ Loaded ${data.length} transactions from ${blobName}`);
       
       return { data, dateSuffix };
@@ -403,74 +392,6 @@ export class BrokerTransactionStockFDCalculator {
     }
   }
 
-  private parseTransactionData(content: string): TransactionData[] {
-    const lines = content.trim().split('\n');
-    const data: TransactionData[] = [];
-    
-    if (lines.length < 2) return data;
-    
-    // Parse header to get column indices (using semicolon separator)
-    const header = lines[0]?.split(';') || [];
-    console.log(`📋 CSV Header: ${header.join(', ')}`);
-    
-    const getColumnIndex = (columnName: string): number => {
-      return header.findIndex(col => col.trim() === columnName);
-    };
-    
-    const stkCodeIndex = getColumnIndex('STK_CODE');
-    const brkCod1Index = getColumnIndex('BRK_COD1');
-    const brkCod2Index = getColumnIndex('BRK_COD2');
-    const stkVolmIndex = getColumnIndex('STK_VOLM');
-    const stkPricIndex = getColumnIndex('STK_PRIC');
-    const trxCodeIndex = getColumnIndex('TRX_CODE');
-    const trxTimeIndex = getColumnIndex('TRX_TIME');
-    const invTyp1Index = getColumnIndex('INV_TYP1');
-    const invTyp2Index = getColumnIndex('INV_TYP2');
-    const trxOrd1Index = getColumnIndex('TRX_ORD1');
-    const trxOrd2Index = getColumnIndex('TRX_ORD2');
-    
-    // Validate required columns exist
-    if (stkCodeIndex === -1 || brkCod1Index === -1 || brkCod2Index === -1 || 
-        stkVolmIndex === -1 || stkPricIndex === -1 || trxCodeIndex === -1 ||
-        trxTimeIndex === -1 || invTyp1Index === -1 || invTyp2Index === -1 ||
-        trxOrd1Index === -1 || trxOrd2Index === -1) {
-      console.error('❌ Required columns not found in CSV header');
-      return data;
-    }
-    
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i];
-      if (!line || line.trim().length === 0) continue;
-      
-      const values = line.split(';');
-      if (values.length < header.length) continue;
-      
-      const stockCode = values[stkCodeIndex]?.trim() || '';
-      
-      // Filter hanya kode emiten 4 huruf
-      if (stockCode.length === 4) {
-        const transaction: TransactionData = {
-          STK_CODE: stockCode,
-          BRK_COD1: values[brkCod1Index]?.trim() || '',
-          BRK_COD2: values[brkCod2Index]?.trim() || '',
-          STK_VOLM: parseFloat(values[stkVolmIndex]?.trim() || '0') || 0,
-          STK_PRIC: parseFloat(values[stkPricIndex]?.trim() || '0') || 0,
-          TRX_CODE: values[trxCodeIndex]?.trim() || '',
-          TRX_TIME: values[trxTimeIndex]?.trim() || '',
-          INV_TYP1: values[invTyp1Index]?.trim() || '',
-          INV_TYP2: values[invTyp2Index]?.trim() || '',
-          TRX_ORD1: parseInt(values[trxOrd1Index]?.trim() || '0', 10) || 0,
-          TRX_ORD2: parseInt(values[trxOrd2Index]?.trim() || '0', 10) || 0,
-        };
-        
-        data.push(transaction);
-      }
-    }
-    
-    console.log(`📊 Loaded ${data.length} transaction records from Azure (4-character stocks only)`);
-    return data;
-  }
-
   /**
    * Create broker transaction files for each stock, separated by investor type (D/F) (pivoted - group by stock, list brokers)
    * OPTIMIZED: Skip files that already exist
@@ -794,6 +715,7 @@ export class BrokerTransactionStockFDCalculator {
       const stockCount = result.stockCount;
       
       console.log(`✅ Completed processing ${blobName} - ${allFiles.length} files created, ${stockCount} stocks processed`);
+      await recomputeManifest.recordBuild('broker_transaction_stock_f_d', dateSuffix);
       return { success: true, dateSuffix, files: allFiles, timing, stockCount };
       
     } catch (error) {
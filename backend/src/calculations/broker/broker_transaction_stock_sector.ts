@@ -1,5 +1,6 @@
 import { downloadText, uploadText, listPaths, exists, downloadText as downloadTextUtil } from '../../utils/azureBlob';
 import { BATCH_SIZE_PHASE_6, MAX_CONCURRENT_REQUESTS_PHASE_6 } from '../../services/dataUpdateService';
+import { recomputeManifest } from '../../services/recomputeManifest';
 
 // Progress tracker interface for thread-safe stock counting
 interface ProgressTracker {
@@ -484,6 +485,7 @@ export class BrokerTransactionStockSectorCalculator {
       // Check if Sector.csv already exists - skip if exists
       // OPTIMIZED: Added retry logic for exists() check
       const sectorFilePath = `${folderPrefix}/${sectorName}.csv`;
+      const manifestVariant = `${sectorName}_${investorType || 'all'}_${marketType || 'all'}`;
       const maxRetriesExists = 2;
       let sectorExists = false;
       for (let attempt = 1; attempt <= maxRetriesExists; attempt++) {
@@ -507,7 +509,7 @@ export class BrokerTransactionStockSectorCalculator {
         }
       }
       
-      if (sectorExists) {
+      if (sectorExists && !(await recomputeManifest.needsRebuild('broker_transaction_stock_sector', dateSuffix, manifestVariant))) {
         console.log(`⏭️ Skipping ${sectorFilePath} - ${sectorName}.csv already exists`);
         return {
           success: true,
@@ -628,6 +630,7 @@ export class BrokerTransactionStockSectorCalculator {
 
       // Save Sector.csv to the same folder
       await uploadText(sectorFilePath, csvContent, 'text/csv');
+      await recomputeManifest.recordBuild('broker_transaction_stock_sector', dateSuffix, manifestVariant);
 
       const stockCount = stockFiles.length;
       console.log(`✅ Successfully created ${sectorFilePath} with ${aggregatedData.length} brokers aggregated from ${stockCount} stocks in sector ${sectorName}`);
@@ -2,6 +2,8 @@ import { uploadText, listPaths } from '../../utils/azureBlob';
 import { BATCH_SIZE_PHASE_3, MAX_CONCURRENT_REQUESTS_PHASE_3 } from '../../services/dataUpdateService';
 import { SchedulerLogService } from '../../services/schedulerLogService';
 import { doneSummaryCache } from '../../cache/doneSummaryCacheService';
+import { DtTransaction } from '../../utils/dtReader';
+import { recomputeManifest } from '../../services/recomputeManifest';
 
 // Progress tracker interface for thread-safe stock counting
 interface ProgressTracker {
@@ -93,8 +95,8 @@ export class BreakDoneTradeCalculator {
       try {
         const prefix = `done_detail/${dateSuffix}/STOCK/`;
         const existingFiles = await listPaths({ prefix, maxResults: 1 });
-        // If we found at least 1 file, consider it complete
-        return existingFiles.length > 0;
+        // If we found at least 1 file, consider it complete (unless built from an older DT file)
+        return existingFiles.length > 0 && !(await recomputeManifest.needsRebuild('break_done_trade', dateSuffix));
       } catch (error: any) {
         const isRetryable = 
           error?.code === 'PARSE_ERROR' ||
@@ -207,10 +209,10 @@ export class BreakDoneTradeCalculator {
     try {
       console.log(`Loading DT file: ${blobName}`);
       
-      // Use shared cache for raw content (will cache automatically if not exists)
-      const content = await doneSummaryCache.getRawContent(blobName);
+      // Use shared cache for parsed DT transactions (streamed via utils/dtReader)
+      const transactions = await doneSummaryCache.getTransactions(blobName);
       
-      if (!content || content.trim().length === 0) {
+      if (!transactions || transactions.length === 0) {
         console.log(`⚠️ Empty file: ${blobName}`);
         return null;
       }
@@ -220,7 +222,7 @@ export class BreakDoneTradeCalculator {
       const dateFolder = pathParts[1] || 'unknown'; // 20251021
       const dateSuffix = dateFolder; // Use full date as suffix
       
-      const data = this.parseDoneTradeData(content);
+      const data = transactions.map(row => this.toDoneTradeData(row));
       console.log(`✅ Loaded ${data.length} done trade records from ${blobName}`);
       
       return { data, dateSuffix };
@@ -230,92 +232,30 @@ export class BreakDoneTradeCalculator {
     }
   }
 
-  private parseDoneTradeData(content: string): DoneTradeData[] {
-    const lines = content.trim().split('\n');
-    const data: DoneTradeData[] = [];
-    
-    if (lines.length < 2) return data;
-    
-    // Parse header to get column indices (using semicolon separator)
-    const header = lines[0]?.split(';') || [];
-    console.log(`📋 CSV Header: ${header.join(', ')}`);
-    
-    const getColumnIndex = (columnName: string): number => {
-      return header.findIndex(col => col.trim() === columnName);
+  /**
+   * Map canonical DT transaction to done trade output row
+   */
+  private toDoneTradeData(row: DtTransaction): DoneTradeData {
+    return {
+      STK_CODE: row.STK_CODE,
+      BRK_COD1: row.BRK_COD1,
+      BRK_COD2: row.BRK_COD2,
+      STK_VOLM: row.STK_VOLM,
+      STK_PRIC: row.STK_PRIC,
+      TRX_DATE: row.TRX_DATE,
+      TRX_TIME: parseInt(row.TRX_TIME || '0') || 0,
+      INV_TYP1: row.INV_TYP1,
+      INV_TYP2: row.INV_TYP2,
+      TYP: row.TYP,
+      TRX_CODE: parseInt(row.TRX_CODE || '0') || 0,
+      TRX_SESS: parseInt(row.TRX_SESS || '0') || 0,
+      TRX_ORD1: row.TRX_ORD1,
+      TRX_ORD2: row.TRX_ORD2,
+      // HAKA = 1 if TRX_ORD1 > TRX_ORD2, HAKI = 0 otherwise
+      HAKA_HAKI: row.TRX_ORD1 > row.TRX_ORD2 ? 1 : 0,
+      // VALUE: Volume * Price / 100
+      VALUE: (row.STK_VOLM * row.STK_PRIC) / 100
     };
-    
-    const stkCodeIndex = getColumnIndex('STK_CODE');
-    const brkCod1Index = getColumnIndex('BRK_COD1');
-    const brkCod2Index = getColumnIndex('BRK_COD2');
-    const stkVolmIndex = getColumnIndex('STK_VOLM');
-    const stkPricIndex = getColumnIndex('STK_PRIC');
-    const trxDateIndex = getColumnIndex('TRX_DATE');
-    const trxTimeIndex = getColumnIndex('TRX_TIME');
-    const invTyp1Index = getColumnIndex('INV_TYP1');
-    const invTyp2Index = getColumnIndex('INV_TYP2');
-    const typIndex = getColumnIndex('TYP');
-    const trxCodeIndex = getColumnIndex('TRX_CODE');
-    const trxSessIndex = getColumnIndex('TRX_SESS');
-    const trxOrd1Index = getColumnIndex('TRX_ORD1');
-    const trxOrd2Index = getColumnIndex('TRX_ORD2');
-    
-    // Validate required columns exist
-    if (stkCodeIndex === -1 || brkCod1Index === -1 || brkCod2Index === -1 || 
-        stkVolmIndex === -1 || stkPricIndex === -1) {
-      console.error('❌ Required columns not found in CSV header');
-      return data;
-    }
-    
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i];
-      if (!line || line.trim().length === 0) continue;
-      
-      const values = line.split(';');
-      if (values.length < header.length) continue;
-      
-      // Parse numeric fields
-      const stkVolm = parseFloat(values[stkVolmIndex]?.trim() || '0') || 0;
-      const stkPric = parseFloat(values[stkPricIndex]?.trim() || '0') || 0;
-      const trxOrd1 = trxOrd1Index !== -1 ? parseInt(values[trxOrd1Index]?.trim() || '0') || 0 : 0;
-      const trxOrd2 = trxOrd2Index !== -1 ? parseInt(values[trxOrd2Index]?.trim() || '0') || 0 : 0;
-      
-      // Calculate HAKA/HAKI: HAKA = 1 if TRX_ORD1 > TRX_ORD2, HAKI = 0 otherwise
-      const hakaHaki = trxOrd1 > trxOrd2 ? 1 : 0;
-      
-      // Calculate VALUE: Volume * Price / 100
-      const value = (stkVolm * stkPric) / 100;
-      
-      const doneTradeData: DoneTradeData = {
-        STK_CODE: values[stkCodeIndex]?.trim() || '',
-        BRK_COD1: values[brkCod1Index]?.trim() || '',
-        BRK_COD2: values[brkCod2Index]?.trim() || '',
-        STK_VOLM: stkVolm,
-        STK_PRIC: stkPric,
-        TRX_DATE: trxDateIndex !== -1 ? values[trxDateIndex]?.trim() || '' : '',
-        TRX_TIME: trxTimeIndex !== -1 ? parseInt(values[trxTimeIndex]?.trim() || '0') || 0 : 0,
-        INV_TYP1: invTyp1Index !== -1 ? values[invTyp1Index]?.trim() || '' : '',
-        INV_TYP2: invTyp2Index !== -1 ? values[invTyp2Index]?.trim() || '' : '',
-        TYP: typIndex !== -1 ? values[typIndex]?.trim() || '' : '',
-        TRX_CODE: trxCodeIndex !== -1 ? parseInt(values[trxCodeIndex]?.trim() || '0') || 0 : 0,
-        TRX_SESS: trxSessIndex !== -1 ? parseInt(values[trxSessIndex]?.trim() || '0') || 0 : 0,
-        TRX_ORD1: trxOrd1,
-        TRX_ORD2: trxOrd2,
-        HAKA_HAKI: hakaHaki,
-        VALUE: value
-      };
-      
-      // Add any additional columns that might exist - same as original file
-      header.forEach((colName, index) => {
-        if (!doneTradeData.hasOwnProperty(colName.trim())) {
-          doneTradeData[colName.trim()] = values[index]?.trim() || '';
-        }
-      });
-      
-      data.push(doneTradeData);
-    }
-    
-    console.log(`📊 Loaded ${data.length} done trade records from Azure`);
-    return data;
   }
 
   /**
@@ -479,6 +419,7 @@ export class BreakDoneTradeCalculator {
       }
       
       console.log(`✅ Completed processing ${blobName} - ${createdFiles.length} files created`);
+      await recomputeManifest.recordBuild('break_done_trade', dateSuffix);
       return { success: true, dateSuffix, files: createdFiles };
       
     } catch (error) {
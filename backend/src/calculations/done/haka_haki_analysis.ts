@@ -1,5 +1,7 @@
 import { uploadText, listPaths } from '../../utils/azureBlob';
 import { doneSummaryCache } from '../../cache/doneSummaryCacheService';
+import { DtTransaction } from '../../utils/dtReader';
+import { recomputeManifest } from '../../services/recomputeManifest';
 
 const MAX_CONCURRENT_REQUESTS = 3;
 
@@ -23,19 +25,7 @@ async function limitConcurrency<T>(promises: Promise<T>[], maxConcurrency: numbe
 type InvestorType = 'All' | 'D' | 'F';
 type BoardType = 'All' | 'RG' | 'TN' | 'NG';
 
-interface TransactionData {
-    STK_CODE: string;
-    BRK_COD1: string; // Buyer
-    BRK_COD2: string; // Seller
-    STK_VOLM: number;
-    STK_PRIC: number;
-    TRX_ORD1: number;
-    TRX_ORD2: number;
-    INV_TYP1: string; // Buyer Type (D/F)
-    INV_TYP2: string; // Seller Type (D/F)
-    TRX_TYPE: string; // Board Type (RG/TN/NG)
-    [key: string]: any;
-}
+type TransactionData = DtTransaction;
 
 interface EnhancedTransactionData extends TransactionData {
     isBid: boolean; // Not strictly used in HAKA/HAKI logic below but good for parity
@@ -122,7 +112,7 @@ export class HakaHakiAnalysisCalculator {
                 // Safest is to skip if folder has ANY files, assuming it ran before.
                 // Or proceed if we want to ensure completeness.
                 const existingFiles = await listPaths({ prefix: outputPrefix, maxResults: 1 });
-                if (existingFiles.length > 0) {
+                if (existingFiles.length > 0 && !(await recomputeManifest.needsRebuild('haka_haki', dateSuffix))) {
                     console.log(`⏭️ HAKA/HAKI breakdown already exists for date ${dateSuffix} - skipping`);
                 } else {
                     filesToProcess.push(file);
@@ -134,58 +124,6 @@ export class HakaHakiAnalysisCalculator {
         return filesToProcess;
     }
 
-    private parseTransactionData(content: string): TransactionData[] {
-        const lines = content.trim().split('\n');
-        const data: TransactionData[] = [];
-
-        if (lines.length < 2) return data;
-
-        const header = lines[0]?.split(';') || [];
-        const getColumnIndex = (columnName: string) => header.findIndex(col => col.trim() === columnName);
-
-        const stkCodeIndex = getColumnIndex('STK_CODE');
-        const brkCod1Index = getColumnIndex('BRK_COD1');
-        const brkCod2Index = getColumnIndex('BRK_COD2');
-        const stkVolmIndex = getColumnIndex('STK_VOLM');
-        const stkPricIndex = getColumnIndex('STK_PRIC');
-        const trxOrd1Index = getColumnIndex('TRX_ORD1');
-        const trxOrd2Index = getColumnIndex('TRX_ORD2');
-        // New columns for filtering
-        const invTyp1Index = getColumnIndex('INV_TYP1');
-        const invTyp2Index = getColumnIndex('INV_TYP2');
-        const trxTypeIndex = getColumnIndex('TRX_TYPE');
-
-        if (stkCodeIndex === -1 || brkCod1Index === -1 || brkCod2Index === -1 ||
-            stkVolmIndex === -1 || stkPricIndex === -1) {
-            return data;
-        }
-
-        for (let i = 1; i < lines.length; i++) {
-            const line = lines[i];
-            if (!line || line.trim().length === 0) continue;
-
-            const values = line.split(';');
-            if (values.length < header.length) continue;
-
-            const stockCode = values[stkCodeIndex]?.trim() || '';
-            if (stockCode.length === 4) {
-                data.push({
-                    STK_CODE: stockCode,
-                    BRK_COD1: values[brkCod1Index]?.trim() || '',
-                    BRK_COD2: values[brkCod2Index]?.trim() || '',
-                    STK_VOLM: parseFloat(values[stkVolmIndex]?.trim() || '0') || 0,
-                    STK_PRIC: parseFloat(values[stkPricIndex]?.trim() || '0') || 0,
-                    TRX_ORD1: parseInt(values[trxOrd1Index]?.trim() || '0') || 0,
-                    TRX_ORD2: parseInt(values[trxOrd2Index]?.trim() || '0') || 0,
-                    INV_TYP1: invTyp1Index !== -1 ? (values[invTyp1Index]?.trim() || '') : '',
-                    INV_TYP2: invTyp2Index !== -1 ? (values[invTyp2Index]?.trim() || '') : '',
-                    TRX_TYPE: trxTypeIndex !== -1 ? (values[trxTypeIndex]?.trim() || '') : '',
-                });
-            }
-        }
-        return data;
-    }
-
     private getInvestorType(type: string): InvestorType {
         if (!type) return 'D'; // Default to Domestic if unknown
         return type.toUpperCase() === 'F' ? 'F' : 'D';
@@ -270,16 +208,14 @@ export class HakaHakiAnalysisCalculator {
 
     private async processSingleDtFile(blobName: string, _progressTracker?: ProgressTracker): Promise<boolean> {
         try {
-            const content = await doneSummaryCache.getRawContent(blobName);
-            if (!content || content.trim().length === 0) return false;
+            // Use shared cache for parsed DT transactions (streamed via utils/dtReader)
+            const rawData = await doneSummaryCache.getTransactions(blobName);
+            if (!rawData || rawData.length === 0) return false;
 
             const pathParts = blobName.split('/');
             const dateSuffix = pathParts[1] || 'unknown';
 
-            // 1. Parse & Enhance
-            const rawData = this.parseTransactionData(content);
-            if (rawData.length === 0) return false;
-
+            // 1. Enhance
             const enhancedData = this.enhanceTransactions(rawData);
 
             // 2. Group by Stock
@@ -348,6 +284,7 @@ export class HakaHakiAnalysisCalculator {
                 }
             }
 
+            await recomputeManifest.recordBuild('haka_haki', dateSuffix);
             return true;
 
         } catch (e) {
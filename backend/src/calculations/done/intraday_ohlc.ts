@@ -0,0 +1,264 @@
+import { uploadText, listPaths } from '../../utils/azureBlob';
+import { doneSummaryCache } from '../../cache/doneSummaryCacheService';
+import { DtTransaction } from '../../utils/dtReader';
+import { recomputeManifest } from '../../services/recomputeManifest';
+import { SchedulerLogService } from '../../services/schedulerLogService';
+
+// intraday_ohlc.ts
+// Candle intraday (1/5/15/30/60 menit) per emiten dari transaksi done-summary (DT).
+// Hanya board RG: harga nego (NG) dan tutup sendiri (TN) bisa jauh dari harga pasar
+// dan akan merusak high/low candle.
+//
+// Output: stock_intraday/{YYYYMMDD}/{EMITEN}.csv
+//   Interval,Time,Open,High,Low,Close,Volume,Value,Frequency,BuyVolume,SellVolume
+// Time = jam mulai bar (HH:MM, WIB). Semua interval ada di satu file supaya satu
+// request cukup untuk semua timeframe.
+
+export const INTRADAY_PREFIX = 'stock_intraday';
+export const INTRADAY_INTERVALS = [1, 5, 15, 30, 60] as const;
+export type IntradayInterval = typeof INTRADAY_INTERVALS[number];
+
+const MAX_DATES_TO_PROCESS = 7;
+const UPLOAD_CONCURRENCY = 10;
+
+export interface IntradayBar {
+  Interval: IntradayInterval;
+  Time: string;
+  Open: number;
+  High: number;
+  Low: number;
+  Close: number;
+  Volume: number;
+  Value: number;
+  Frequency: number;
+  /** Volume transaksi yang diinisiasi buyer (HAKA: TRX_ORD1 > TRX_ORD2) */
+  BuyVolume: number;
+  /** Volume transaksi yang diinisiasi seller (HAKI: TRX_ORD2 > TRX_ORD1) */
+  SellVolume: number;
+}
+
+export const INTRADAY_COLUMNS: Array<keyof IntradayBar> = [
+  'Interval', 'Time', 'Open', 'High', 'Low', 'Close', 'Volume', 'Value', 'Frequency', 'BuyVolume', 'SellVolume'
+];
+
+/**
+ * TRX_TIME bisa berupa HH:MM:SS, HHMMSS, atau angka tanpa nol di depan (90001).
+ * Return detik sejak 00:00, atau null kalau tidak bisa dibaca.
+ */
+function parseSecondOfDay(timeStr: string): number | null {
+  const digits = (timeStr || '').trim().replace(/:/g, '');
+  if (!/^\d{3,6}$/.test(digits)) return null;
+  const padded = digits.padStart(6, '0');
+  const hour = parseInt(padded.slice(0, 2), 10);
+  const minute = parseInt(padded.slice(2, 4), 10);
+  const second = parseInt(padded.slice(4, 6), 10);
+  if (hour > 23 || minute > 59 || second > 59) return null;
+  return hour * 3600 + minute * 60 + second;
+}
+
+const formatMinute = (minuteOfDay: number) =>
+  `${String(Math.floor(minuteOfDay / 60)).padStart(2, '0')}:${String(minuteOfDay % 60).padStart(2, '0')}`;
+
+interface BarAccumulator {
+  start: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  value: number;
+  frequency: number;
+  buyVolume: number;
+  sellVolume: number;
+  /** Detik (TRX_TIME) transaksi open/close saat ini, untuk menentukan open/close */
+  openSecond: number;
+  closeSecond: number;
+}
+
+export class IntradayOhlcCalculator {
+  constructor() {
+    // No need for Azure client initialization - using azureBlob utility
+  }
+
+  private async findDtFilesToProcess(): Promise<string[]> {
+    const allDtFiles: string[] = await doneSummaryCache.getDtFilesList();
+    const recentFiles = [...allDtFiles]
+      .sort((a, b) => (b.split('/')[1] || '').localeCompare(a.split('/')[1] || ''))
+      .slice(0, MAX_DATES_TO_PROCESS);
+
+    const filesToProcess: string[] = [];
+    for (const file of recentFiles) {
+      const dateSuffix = file.split('/')[1] || 'unknown';
+      try {
+        const existing = await listPaths({ prefix: `${INTRADAY_PREFIX}/${dateSuffix}/`, maxResults: 1 });
+        if (existing.length > 0 && !(await recomputeManifest.needsRebuild('stock_intraday', dateSuffix))) {
+          console.log(`⏭️ Intraday OHLC already exists for date ${dateSuffix} - skipping`);
+          continue;
+        }
+      } catch {
+        // Gagal cek = proses ulang
+      }
+      filesToProcess.push(file);
+    }
+    return filesToProcess;
+  }
+
+  /**
+   * Bangun bar 1 menit per emiten. Urutan baris di file DT tidak dijamin urut waktu,
+   * jadi open/close ditentukan dari TRX_TIME lengkap (HHMMSS); transaksi di detik yang
+   * sama diurutkan sesuai posisi barisnya di file.
+   */
+  buildMinuteBars(transactions: DtTransaction[]): Map<string, Map<number, BarAccumulator>> {
+    const byStock = new Map<string, Map<number, BarAccumulator>>();
+
+    transactions.forEach(row => {
+      if (row.TRX_TYPE && row.TRX_TYPE !== 'RG') return;
+      if (row.STK_PRIC <= 0 || row.STK_VOLM <= 0) return;
+      const second = parseSecondOfDay(row.TRX_TIME);
+      if (second === null) return;
+      const minute = Math.floor(second / 60);
+
+      let bars = byStock.get(row.STK_CODE);
+      if (!bars) {
+        bars = new Map();
+        byStock.set(row.STK_CODE, bars);
+      }
+
+      let bar = bars.get(minute);
+      if (!bar) {
+        bar = {
+          start: minute,
+          open: row.STK_PRIC, high: row.STK_PRIC, low: row.STK_PRIC, close: row.STK_PRIC,
+          volume: 0, value: 0, frequency: 0, buyVolume: 0, sellVolume: 0,
+          openSecond: second, closeSecond: second
+        };
+        bars.set(minute, bar);
+      }
+
+      // Baris diproses naik sesuai posisi di file: detik sama -> baris lebih awal tetap open, baris terakhir jadi close
+      if (second < bar.openSecond) { bar.openSecond = second; bar.open = row.STK_PRIC; }
+      if (second >= bar.closeSecond) { bar.closeSecond = second; bar.close = row.STK_PRIC; }
+      bar.high = Math.max(bar.high, row.STK_PRIC);
+      bar.low = Math.min(bar.low, row.STK_PRIC);
+      bar.volume += row.STK_VOLM;
+      bar.value += row.STK_VOLM * row.STK_PRIC;
+      bar.frequency++;
+      if (row.TRX_ORD1 > row.TRX_ORD2) bar.buyVolume += row.STK_VOLM;
+      else if (row.TRX_ORD2 > row.TRX_ORD1) bar.sellVolume += row.STK_VOLM;
+    });
+
+    return byStock;
+  }
+
+  /**
+   * Turunkan semua interval dari bar 1 menit (hasilnya identik dengan membangun
+   * langsung dari transaksi, karena OHLC dan volume bisa digabung).
+   */
+  aggregateBars(minuteBars: Map<number, BarAccumulator>): IntradayBar[] {
+    const sorted = Array.from(minuteBars.values()).sort((a, b) => a.start - b.start);
+    const result: IntradayBar[] = [];
+
+    for (const interval of INTRADAY_INTERVALS) {
+      const buckets = new Map<number, BarAccumulator>();
+      for (const bar of sorted) {
+        const start = Math.floor(bar.start / interval) * interval;
+        const bucket = buckets.get(start);
+        if (!bucket) {
+          buckets.set(start, { ...bar, start });
+          continue;
+        }
+        // sorted naik, jadi bar ini selalu setelah isi bucket sebelumnya
+        bucket.high = Math.max(bucket.high, bar.high);
+        bucket.low = Math.min(bucket.low, bar.low);
+        bucket.close = bar.close;
+        bucket.volume += bar.volume;
+        bucket.value += bar.value;
+        bucket.frequency += bar.frequency;
+        bucket.buyVolume += bar.buyVolume;
+        bucket.sellVolume += bar.sellVolume;
+      }
+
+      buckets.forEach(bucket => {
+        result.push({
+          Interval: interval,
+          Time: formatMinute(bucket.start),
+          Open: bucket.open,
+          High: bucket.high,
+          Low: bucket.low,
+          Close: bucket.close,
+          Volume: bucket.volume,
+          Value: Math.round(bucket.value),
+          Frequency: bucket.frequency,
+          BuyVolume: bucket.buyVolume,
+          SellVolume: bucket.sellVolume
+        });
+      });
+    }
+
+    return result;
+  }
+
+  private toCsv(bars: IntradayBar[]): string {
+    return [
+      INTRADAY_COLUMNS.join(','),
+      ...bars.map(bar => INTRADAY_COLUMNS.map(column => bar[column]).join(','))
+    ].join('\n');
+  }
+
+  private async processDtFile(blobName: string): Promise<number> {
+    const transactions = await doneSummaryCache.getTransactions(blobName);
+    if (!transactions || transactions.length === 0) {
+      console.log(`⚠️ No transactions in ${blobName}`);
+      return 0;
+    }
+    const dateSuffix = blobName.split('/')[1] || 'unknown';
+    const byStock = this.buildMinuteBars(transactions);
+
+    const entries = Array.from(byStock.entries());
+    for (let i = 0; i < entries.length; i += UPLOAD_CONCURRENCY) {
+      await Promise.all(entries.slice(i, i + UPLOAD_CONCURRENCY).map(([stock, minuteBars]) =>
+        uploadText(`${INTRADAY_PREFIX}/${dateSuffix}/${stock}.csv`, this.toCsv(this.aggregateBars(minuteBars)), 'text/csv')
+      ));
+    }
+
+    await recomputeManifest.recordBuild('stock_intraday', dateSuffix);
+    console.log(`✅ Intraday OHLC ${dateSuffix}: ${entries.length} stocks`);
+    return entries.length;
+  }
+
+  /**
+   * Generate intraday candles untuk tanggal DT terbaru yang belum diproses (atau stale)
+   */
+  async generateIntradayData(logId?: string | null): Promise<{ success: boolean; message: string; data?: any }> {
+    const filesToProcess = await this.findDtFilesToProcess();
+    if (filesToProcess.length === 0) {
+      return { success: true, message: 'Intraday OHLC is up to date', data: { dates: 0, files: 0 } };
+    }
+
+    let totalFiles = 0;
+    let failedDates = 0;
+    for (let i = 0; i < filesToProcess.length; i++) {
+      const blobName = filesToProcess[i]!;
+      if (logId) {
+        await SchedulerLogService.updateLog(logId, {
+          progress_percentage: Math.round((i / filesToProcess.length) * 100),
+          current_processing: `Building intraday bars ${blobName.split('/')[1]} (${i + 1}/${filesToProcess.length})`
+        });
+      }
+      try {
+        totalFiles += await this.processDtFile(blobName);
+      } catch (error) {
+        failedDates++;
+        console.error(`❌ Intraday OHLC failed for ${blobName}:`, error);
+      }
+    }
+
+    return {
+      success: failedDates < filesToProcess.length,
+      message: `Intraday OHLC generated for ${filesToProcess.length - failedDates}/${filesToProcess.length} dates (${totalFiles} files)`,
+      data: { dates: filesToProcess.length - failedDates, files: totalFiles }
+    };
+  }
+}
+
+export default IntradayOhlcCalculator;
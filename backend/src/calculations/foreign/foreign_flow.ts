@@ -1,7 +1,9 @@
-import { downloadText, uploadText } from '../../utils/azureBlob';
+import { downloadText, uploadText, listPaths, listPrefixes } from '../../utils/azureBlob';
+import { DtTransaction, getDtDateFromBlobName, streamDtTransactions } from '../../utils/dtReader';
 import { BATCH_SIZE_PHASE_3, MAX_CONCURRENT_REQUESTS_PHASE_3 } from '../../services/dataUpdateService';
 import { SchedulerLogService } from '../../services/schedulerLogService';
 import { doneSummaryCache } from '../../cache/doneSummaryCacheService';
+import { recomputeManifest } from '../../services/recomputeManifest';
 
 // Progress tracker interface for thread-safe stock counting
 interface ProgressTracker {
@@ -27,17 +29,7 @@ async function limitConcurrency<T>(promises: Promise<T>[], maxConcurrency: numbe
 }
 
 // Type definitions untuk Foreign Flow
-interface TransactionData {
-  STK_CODE: string;
-  BRK_COD1: string;  // Seller broker
-  BRK_COD2: string;  // Buyer broker
-  STK_VOLM: number;
-  STK_PRIC: number;
-  TRX_DATE: string;
-  TRX_TIME: string;
-  INV_TYP1: string;  // Investor type seller: 'A' = Foreign, 'D' = Domestic
-  INV_TYP2: string;  // Investor type buyer: 'A' = Foreign, 'D' = Domestic
-}
+type TransactionData = DtTransaction;
 
 interface ForeignFlowData {
   Date: string;
@@ -46,6 +38,87 @@ interface ForeignFlowData {
   NetBuyVol: number;  // Net volume beli foreign (BuyVol - SellVol)
 }
 
+// Output per tanggal (selain foreign_flow/{STOCK}.csv yang kumulatif per emiten):
+//   foreign_flow_broker/{YYYYMMDD}/{STOCK}.csv - atribusi flow foreign per kode broker
+//   foreign_flow_daily/{YYYYMMDD}.csv          - ringkasan flow foreign semua emiten (untuk ranking)
+export const FOREIGN_BROKER_PREFIX = 'foreign_flow_broker';
+export const FOREIGN_DAILY_PREFIX = 'foreign_flow_daily';
+
+const FLOW_COLUMNS = ['BuyVol', 'SellVol', 'NetBuyVol', 'BuyValue', 'SellValue', 'NetBuyValue'] as const;
+const UPLOAD_CONCURRENCY = 10;
+/** Tanggal tanpa file emiten yang boleh dilewati getBrokerFlows sebelum berhenti mencari */
+const BROKER_FLOW_MAX_MISSED_DATES = 10;
+
+/** Flow foreign dengan volume dan value (rupiah); dipakai untuk atribusi broker dan ringkasan harian */
+export interface ForeignFlowTotals {
+  BuyVol: number;
+  SellVol: number;
+  NetBuyVol: number;
+  BuyValue: number;
+  SellValue: number;
+  NetBuyValue: number;
+}
+
+export interface ForeignBrokerFlow extends ForeignFlowTotals {
+  Broker: string;
+}
+
+export interface ForeignStockFlow extends ForeignFlowTotals {
+  Stock: string;
+}
+
+export interface CumulativeForeignPosition {
+  Date: string;
+  NetBuyVol: number;
+  /** Net foreign kumulatif sejak anchor date (lembar) */
+  CumulativeNetVol: number;
+}
+
+export interface OwnershipReconciliationPeriod {
+  /** Tanggal snapshot holding awal/akhir (YYYYMMDD) */
+  from: string;
+  to: string;
+  /** Perubahan kepemilikan foreign menurut data holding bulanan (lembar) */
+  holdingChange: number;
+  /** Net foreign dari transaksi bursa di antara dua snapshot (lembar) */
+  flowNetVol: number;
+  /** holdingChange - flowNetVol: transaksi di luar bursa, corporate action, atau data DT yang tidak lengkap */
+  residual: number;
+  tradingDays: number;
+}
+
+export interface ForeignOwnershipEstimate {
+  stockCode: string;
+  periods: OwnershipReconciliationPeriod[];
+  latestHolding: { date: string; foreignShares: number; foreignPercent: number; totalShares: number } | null;
+  /** Snapshot holding terakhir + net foreign sejak tanggal snapshot */
+  estimate: {
+    asOf: string;
+    flowSinceSnapshot: number;
+    estimatedForeignShares: number;
+    estimatedForeignPercent: number | null;
+  } | null;
+}
+
+const emptyTotals = (): ForeignFlowTotals => ({ BuyVol: 0, SellVol: 0, NetBuyVol: 0, BuyValue: 0, SellValue: 0, NetBuyValue: 0 });
+
+/** Tanggal foreign_flow (TRX_DATE) dan holding bisa berformat YYYYMMDD atau YYYY-MM-DD */
+const normalizeDate = (date: string): string => (date || '').replace(/[^0-9]/g, '').slice(0, 8);
+
+function parseFlowCsv<T extends ForeignFlowTotals>(content: string, keyColumn: string): Array<T> {
+  const lines = content.trim().split(/\r?\n/);
+  const headers = (lines[0] || '').replace(/^\uFEFF/, '').split(',').map(h => h.trim());
+  return lines.slice(1).filter(line => line.trim()).map(line => {
+    const values = line.split(',');
+    const row: any = {};
+    headers.forEach((header, i) => {
+      const value = values[i]?.trim() || '';
+      row[header] = header === keyColumn ? value : (parseFloat(value) || 0);
+    });
+    return row as T;
+  });
+}
+
 export class ForeignFlowCalculator {
   constructor() {
     // No need for Azure client initialization - using azureBlob utility
@@ -98,6 +171,11 @@ export class ForeignFlowCalculator {
             if (existingDatesByStock.size > 0) {
               const representativeDates = existingDatesByStock.get('BBCA');
               if (representativeDates && representativeDates.has(dateSuffix)) {
+                // DT di-publish ulang: lepas tanggal ini dari existing dates agar baris lama ditimpa saat merge
+                if (await recomputeManifest.needsRebuild('foreign_flow', dateSuffix)) {
+                  representativeDates.delete(dateSuffix);
+                  return { file, dateSuffix, needsProcessing: true };
+                }
                 // Representative file already has this date, assume all stocks have it
                 return { file, dateSuffix, needsProcessing: false };
               }
@@ -144,68 +222,6 @@ export class ForeignFlowCalculator {
     }
   }
 
-  private parseTransactionData(content: string): TransactionData[] {
-    const lines = content.trim().split('\n');
-    const data: TransactionData[] = [];
-    
-    if (lines.length < 2) return data;
-    
-    // Parse header to get column indices (using semicolon separator)
-    const header = lines[0]?.split(';') || [];
-    console.log(`📋 CSV Header: ${header.join(', ')}`);
-    
-    const getColumnIndex = (columnName: string): number => {
-      return header.findIndex(col => col.trim() === columnName);
-    };
-    
-    const stkCodeIndex = getColumnIndex('STK_CODE');
-    const brkCod1Index = getColumnIndex('BRK_COD1');
-    const brkCod2Index = getColumnIndex('BRK_COD2');
-    const stkVolmIndex = getColumnIndex('STK_VOLM');
-    const stkPricIndex = getColumnIndex('STK_PRIC');
-    const trxDateIndex = getColumnIndex('TRX_DATE');
-    const trxTimeIndex = getColumnIndex('TRX_TIME');
-    const invTyp1Index = getColumnIndex('INV_TYP1');
-    const invTyp2Index = getColumnIndex('INV_TYP2');
-    
-    // Validate required columns exist
-    if (stkCodeIndex === -1 || brkCod1Index === -1 || brkCod2Index === -1 || 
-        stkVolmIndex === -1 || stkPricIndex === -1) {
-      console.error('❌ Required columns not found in CSV header');
-      return data;
-    }
-    
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i];
-      if (!line || line.trim().length === 0) continue;
-      
-      const values = line.split(';');
-      if (values.length < header.length) continue;
-      
-      const stockCode = values[stkCodeIndex]?.trim() || '';
-      
-      // Filter hanya kode emiten 4 huruf - same as original file
-      if (stockCode.length === 4) {
-        const transaction: TransactionData = {
-          STK_CODE: stockCode,
-          BRK_COD1: values[brkCod1Index]?.trim() || '',
-          BRK_COD2: values[brkCod2Index]?.trim() || '',
-          STK_VOLM: parseFloat(values[stkVolmIndex]?.trim() || '0') || 0,
-          STK_PRIC: parseFloat(values[stkPricIndex]?.trim() || '0') || 0,
-          TRX_DATE: trxDateIndex !== -1 ? values[trxDateIndex]?.trim() || '' : '',
-          TRX_TIME: trxTimeIndex !== -1 ? values[trxTimeIndex]?.trim() || '' : '',
-          INV_TYP1: invTyp1Index !== -1 ? values[invTyp1Index]?.trim() || '' : '',
-          INV_TYP2: invTyp2Index !== -1 ? values[invTyp2Index]?.trim() || '' : ''
-        };
-        
-        data.push(transaction);
-      }
-    }
-    
-    console.log(`📊 Loaded ${data.length} transaction records from Azure (4-character stocks only)`);
-    return data;
-  }
-
   /**
    * Check if transaction involves foreign investors
    */
@@ -304,6 +320,86 @@ export class ForeignFlowCalculator {
     return foreignFlowData;
   }
 
+  /**
+   * Atribusi flow foreign per broker dengan konvensi kolom yang sama dengan broker_transaction_f_d
+   * dan broker_transaction_stock_f_d: BRK_COD1/INV_TYP1 = sisi pembeli, BRK_COD2/INV_TYP2 = sisi
+   * penjual. Foreign buyer (INV_TYP1 = 'A') dihitung ke BRK_COD1, foreign seller (INV_TYP2 = 'A') ke BRK_COD2.
+   * Return Map<stock, Map<broker, totals>> untuk satu file DT (satu tanggal).
+   */
+  private createForeignBrokerFlowData(data: TransactionData[]): Map<string, Map<string, ForeignFlowTotals>> {
+    const byStock = new Map<string, Map<string, ForeignFlowTotals>>();
+    const getTotals = (stock: string, broker: string) => {
+      let brokers = byStock.get(stock);
+      if (!brokers) {
+        brokers = new Map();
+        byStock.set(stock, brokers);
+      }
+      let totals = brokers.get(broker);
+      if (!totals) {
+        totals = emptyTotals();
+        brokers.set(broker, totals);
+      }
+      return totals;
+    };
+
+    data.forEach(transaction => {
+      const value = transaction.STK_VOLM * transaction.STK_PRIC;
+      if (transaction.INV_TYP1 === 'A' && transaction.BRK_COD1) {
+        const totals = getTotals(transaction.STK_CODE, transaction.BRK_COD1);
+        totals.BuyVol += transaction.STK_VOLM;
+        totals.BuyValue += value;
+      }
+      if (transaction.INV_TYP2 === 'A' && transaction.BRK_COD2) {
+        const totals = getTotals(transaction.STK_CODE, transaction.BRK_COD2);
+        totals.SellVol += transaction.STK_VOLM;
+        totals.SellValue += value;
+      }
+    });
+
+    byStock.forEach(brokers => brokers.forEach(totals => {
+      totals.NetBuyVol = totals.BuyVol - totals.SellVol;
+      totals.NetBuyValue = totals.BuyValue - totals.SellValue;
+    }));
+    return byStock;
+  }
+
+  private toFlowCsv(keyColumn: string, rows: Array<[string, ForeignFlowTotals]>): string {
+    return [
+      [keyColumn, ...FLOW_COLUMNS].join(','),
+      ...rows.map(([key, totals]) => [key, ...FLOW_COLUMNS.map(column => Math.round(totals[column]))].join(','))
+    ].join('\n');
+  }
+
+  /**
+   * Simpan atribusi broker per emiten dan ringkasan harian semua emiten untuk satu tanggal.
+   * File per tanggal selalu ditulis ulang utuh, jadi tidak perlu merge seperti foreign_flow/{STOCK}.csv.
+   */
+  private async saveForeignBrokerFlowFiles(dateSuffix: string, byStock: Map<string, Map<string, ForeignFlowTotals>>): Promise<string[]> {
+    const files: string[] = [];
+    const dailyRows: Array<[string, ForeignFlowTotals]> = [];
+    const entries = Array.from(byStock.entries());
+
+    for (let i = 0; i < entries.length; i += UPLOAD_CONCURRENCY) {
+      await Promise.all(entries.slice(i, i + UPLOAD_CONCURRENCY).map(async ([stock, brokers]) => {
+        const rows = Array.from(brokers.entries()).sort((a, b) => b[1].NetBuyValue - a[1].NetBuyValue);
+        const stockTotals = emptyTotals();
+        rows.forEach(([, totals]) => FLOW_COLUMNS.forEach(column => { stockTotals[column] += totals[column]; }));
+        dailyRows.push([stock, stockTotals]);
+
+        const filename = `${FOREIGN_BROKER_PREFIX}/${dateSuffix}/${stock}.csv`;
+        await uploadText(filename, this.toFlowCsv('Broker', rows), 'text/csv');
+        files.push(filename);
+      }));
+    }
+
+    dailyRows.sort((a, b) => b[1].NetBuyValue - a[1].NetBuyValue);
+    const dailyFile = `${FOREIGN_DAILY_PREFIX}/${dateSuffix}.csv`;
+    await uploadText(dailyFile, this.toFlowCsv('Stock', dailyRows), 'text/csv');
+    files.push(dailyFile);
+    console.log(`✅ Foreign broker flow ${dateSuffix}: ${entries.length} stocks`);
+    return files;
+  }
+
   /**
    * Read existing CSV data from Azure
    * OPTIMIZED: Added retry logic for downloadText
@@ -499,52 +595,46 @@ export class ForeignFlowCalculator {
    * Catatan penting:
    * - File DT bisa sangat besar (ratusan MB), dan untuk foreign_flow tidak di-share
    *   ke kalkulasi lain.
-   * - Karena itu, kita TIDAK perlu menyimpannya di doneSummaryCache. Kita cukup
-   *   load langsung dari Azure, filter transaksi yang benar-benar baru, lalu buang
-   *   string mentahnya dari memory.
+   * - Karena itu, kita TIDAK perlu menyimpannya di doneSummaryCache. File di-stream
+   *   langsung dari storage dan transaksi yang tanggalnya sudah ada di output
+   *   dibuang selama streaming, sehingga hanya transaksi baru yang ditampung.
    * - Ini menghindari kasus "💾 Cached ... ⏭️ Skipping ... ✅ Cleared ..." untuk
    *   file yang sebenarnya tidak menghasilkan output baru.
    */
   private async processSingleDtFile(blobName: string, existingDatesByStock: Map<string, Set<string>>, progressTracker?: ProgressTracker): Promise<{ success: boolean; dateSuffix: string; files: string[] }> {
     // Extract date from blob name first
-    const pathParts = blobName.split('/');
-    const dateFolder = pathParts[1] || 'unknown';
-    const dateSuffix = dateFolder;
+    const dateSuffix = getDtDateFromBlobName(blobName);
     
     // File DT ini besar dan hanya dipakai oleh foreign_flow.
-    // Untuk menghindari cache yang tidak terpakai, kita load LANGSUNG dari Azure tanpa doneSummaryCache.
-    console.log(`✅ Loading file (no cache): ${blobName} (already pre-checked - needs processing)...`);
-    const rawContent = await downloadText(blobName);
-    if (!rawContent) {
-      console.log(`⚠️ Failed to load file: ${blobName} - skipping`);
-      return { success: false, dateSuffix, files: [] };
-    }
+    // Untuk menghindari cache yang tidak terpakai, kita stream LANGSUNG dari storage tanpa doneSummaryCache.
+    console.log(`✅ Streaming file (no cache): ${blobName} (already pre-checked - needs processing)...`);
     
-    const data = this.parseTransactionData(rawContent);
+    // CRITICAL: Filter transaksi yang sudah ada di output selama streaming
+    // Hanya proses transaksi yang belum ada
+    let totalTransactions = 0;
+    const filteredData: TransactionData[] = [];
+    for await (const row of streamDtTransactions(blobName)) {
+      totalTransactions++;
+      const existingDates = existingDatesByStock.get(row.STK_CODE);
+      
+      // Jika stock belum punya tanggal ini di output, berarti perlu diproses
+      if (!existingDates || !existingDates.has(row.TRX_DATE)) {
+        filteredData.push(row);
+      }
+    }
     
-    if (data.length === 0) {
+    if (totalTransactions === 0) {
       console.log(`⚠️ No transaction data in ${blobName} - skipping`);
       return { success: false, dateSuffix, files: [] };
     }
     
-    // CRITICAL: Filter transaksi yang sudah ada di output
-    // Hanya proses transaksi yang belum ada
-    const filteredData = data.filter(row => {
-      const stockCode = row.STK_CODE;
-      const trxDate = row.TRX_DATE;
-      const existingDates = existingDatesByStock.get(stockCode);
-      
-      // Jika stock belum punya tanggal ini di output, berarti perlu diproses
-      return !existingDates || !existingDates.has(trxDate);
-    });
-    
     // Jika TIDAK ADA transaksi yang perlu diproses setelah filter, skip file
     if (filteredData.length === 0) {
-      console.log(`⏭️  Skipping ${blobName} - all ${data.length} transactions already exist in output (after filtering)`);
+      console.log(`⏭️  Skipping ${blobName} - all ${totalTransactions} transactions already exist in output (after filtering)`);
       return { success: false, dateSuffix, files: [] };
     }
     
-    const skippedCount = data.length - filteredData.length;
+    const skippedCount = totalTransactions - filteredData.length;
     if (skippedCount > 0) {
       console.log(`🔍 Filtered ${skippedCount} transactions (dates already exist), processing ${filteredData.length} new transactions`);
     }
@@ -562,8 +652,10 @@ export class ForeignFlowCalculator {
       
       // Create or update individual CSV files for each stock
       const createdFiles = await this.createForeignFlowCsvFiles(foreignFlowData, dateSuffix, progressTracker);
+      createdFiles.push(...await this.saveForeignBrokerFlowFiles(dateSuffix, this.createForeignBrokerFlowData(filteredData)));
       
       console.log(`✅ Completed processing ${blobName} - ${createdFiles.length} files updated`);
+      await recomputeManifest.recordBuild('foreign_flow', dateSuffix);
       return { success: true, dateSuffix, files: createdFiles };
       
     } catch (error) {
@@ -722,6 +814,172 @@ export class ForeignFlowCalculator {
       // tidak menggunakan cache untuk DT files.
     }
   }
+
+  /**
+   * Tanggal yang punya output per-tanggal (YYYYMMDD, urut turun), opsional dibatasi <= endDate.
+   * foreign_flow_broker/ berisi satu folder per tanggal (~900 file emiten), jadi yang di-list hanya
+   * folder tanggalnya; foreign_flow_daily/ cukup listing flat karena satu file per tanggal.
+   */
+  private async listFlowDates(prefix: string, endDate?: string): Promise<string[]> {
+    const paths = prefix === FOREIGN_BROKER_PREFIX
+      ? await listPrefixes(`${prefix}/`)
+      : await listPaths({ prefix: `${prefix}/` });
+    const dates = new Set<string>();
+    paths.forEach(path => {
+      const match = path.slice(prefix.length + 1).match(/^(\d{8})/);
+      if (match?.[1] && (!endDate || match[1] <= endDate)) dates.add(match[1]);
+    });
+    return Array.from(dates).sort().reverse();
+  }
+
+  /**
+   * Net foreign kumulatif per emiten sejak anchorDate (YYYYMMDD), urut tanggal naik.
+   * Tanpa anchor = sejak tanggal pertama di foreign_flow/{STOCK}.csv.
+   */
+  public async buildCumulativePosition(stockCode: string, anchorDate?: string): Promise<CumulativeForeignPosition[]> {
+    const flow = await this.readExistingCsvDataFromAzure(`foreign_flow/${stockCode}.csv`);
+    const anchor = anchorDate ? normalizeDate(anchorDate) : '';
+    let cumulative = 0;
+    return flow
+      .map(row => ({ ...row, Date: normalizeDate(row.Date) }))
+      .filter(row => row.Date && row.Date >= anchor)
+      .sort((a, b) => a.Date.localeCompare(b.Date))
+      .map(row => {
+        cumulative += row.NetBuyVol;
+        return { Date: row.Date, NetBuyVol: row.NetBuyVol, CumulativeNetVol: cumulative };
+      });
+  }
+
+  /**
+   * Atribusi broker untuk satu emiten, dijumlah atas `days` tanggal terakhir <= endDate.
+   * Tanggal tanpa file emiten dilewati, maksimal BROKER_FLOW_MAX_MISSED_DATES tanggal.
+   */
+  public async getBrokerFlows(stockCode: string, endDate?: string, days: number = 1): Promise<{ dates: string[]; brokers: ForeignBrokerFlow[] }> {
+    const dates: string[] = [];
+    const totals = new Map<string, ForeignFlowTotals>();
+    const candidates = (await this.listFlowDates(FOREIGN_BROKER_PREFIX, endDate)).slice(0, days + BROKER_FLOW_MAX_MISSED_DATES);
+    for (const date of candidates) {
+      if (dates.length >= days) break;
+      let content: string;
+      try {
+        content = await downloadText(`${FOREIGN_BROKER_PREFIX}/${date}/${stockCode}.csv`);
+      } catch (error: any) {
+        // Emiten tidak ditransaksikan foreign di tanggal ini; error storage lain tetap dilempar
+        if (!String(error?.message || '').includes('Blob not found')) throw error;
+        continue;
+      }
+      dates.push(date);
+      parseFlowCsv<ForeignBrokerFlow>(content, 'Broker').forEach(row => {
+        const acc = totals.get(row.Broker) || emptyTotals();
+        FLOW_COLUMNS.forEach(column => { acc[column] += row[column]; });
+        totals.set(row.Broker, acc);
+      });
+    }
+    const brokers = Array.from(totals.entries())
+      .map(([Broker, acc]) => ({ Broker, ...acc }))
+      .sort((a, b) => b.NetBuyValue - a.NetBuyValue);
+    return { dates, brokers };
+  }
+
+  /**
+   * Ranking emiten berdasarkan net foreign (value atau volume) atas `days` tanggal terakhir <= endDate
+   */
+  public async getTopForeignFlows(options: { endDate?: string | undefined; days: number; limit: number; sortBy: 'value' | 'volume' }): Promise<{
+    dates: string[];
+    inflow: ForeignStockFlow[];
+    outflow: ForeignStockFlow[];
+  }> {
+    const dates = (await this.listFlowDates(FOREIGN_DAILY_PREFIX, options.endDate)).slice(0, options.days);
+    const totals = new Map<string, ForeignFlowTotals>();
+    await Promise.all(dates.map(async date => {
+      const rows = parseFlowCsv<ForeignStockFlow>(await downloadText(`${FOREIGN_DAILY_PREFIX}/${date}.csv`), 'Stock');
+      rows.forEach(row => {
+        const acc = totals.get(row.Stock) || emptyTotals();
+        FLOW_COLUMNS.forEach(column => { acc[column] += row[column]; });
+        totals.set(row.Stock, acc);
+      });
+    }));
+
+    const key = options.sortBy === 'volume' ? 'NetBuyVol' : 'NetBuyValue';
+    const ranked = Array.from(totals.entries())
+      .map(([Stock, acc]) => ({ Stock, ...acc }))
+      .sort((a, b) => b[key] - a[key]);
+    return {
+      dates,
+      inflow: ranked.filter(row => row[key] > 0).slice(0, options.limit),
+      outflow: ranked.filter(row => row[key] < 0).reverse().slice(0, options.limit)
+    };
+  }
+
+  /**
+   * Rekonsiliasi flow foreign harian dengan snapshot kepemilikan bulanan holding/{STOCK}.csv.
+   * Asumsi: foreign_total_value di holding dan STK_VOLM di DT sama-sama dalam lembar saham.
+   */
+  public async estimateOwnershipChange(stockCode: string): Promise<ForeignOwnershipEstimate> {
+    const result: ForeignOwnershipEstimate = { stockCode, periods: [], latestHolding: null, estimate: null };
+
+    let holdingCsv: string;
+    try {
+      holdingCsv = await downloadText(`holding/${stockCode}.csv`);
+    } catch {
+      return result;
+    }
+    const holdingLines = holdingCsv.trim().split(/\r?\n/);
+    const headers = (holdingLines[0] || '').replace(/^\uFEFF/, '').split(',').map(h => h.trim());
+    const col = (name: string) => headers.indexOf(name);
+    const [dateIdx, foreignIdx, percentIdx, totalIdx] = [col('date'), col('foreign_total_value'), col('foreign_total_inPercent'), col('total_value')];
+    if (dateIdx < 0 || foreignIdx < 0) return result;
+
+    // Baris placeholder (status NOT_AVAILABLE / EMPTY) tidak punya angka kepemilikan
+    const snapshots = holdingLines.slice(1)
+      .map(line => line.split(','))
+      .map(values => ({
+        date: normalizeDate(values[dateIdx] || ''),
+        foreignShares: parseFloat(values[foreignIdx] || ''),
+        foreignPercent: percentIdx >= 0 ? parseFloat(values[percentIdx] || '') : NaN,
+        totalShares: totalIdx >= 0 ? parseFloat(values[totalIdx] || '') : NaN
+      }))
+      .filter(snapshot => snapshot.date.length === 8 && Number.isFinite(snapshot.foreignShares))
+      .sort((a, b) => a.date.localeCompare(b.date));
+    if (snapshots.length === 0) return result;
+
+    const flow = await this.buildCumulativePosition(stockCode);
+    // Net flow dalam (from, to]: snapshot tanggal `from` sudah mencerminkan transaksi hari itu
+    const flowBetween = (from: string, to: string) => {
+      const rows = flow.filter(row => row.Date > from && row.Date <= to);
+      return { net: rows.reduce((sum, row) => sum + row.NetBuyVol, 0), days: rows.length };
+    };
+
+    for (let i = 1; i < snapshots.length; i++) {
+      const previous = snapshots[i - 1]!;
+      const current = snapshots[i]!;
+      const { net, days } = flowBetween(previous.date, current.date);
+      if (days === 0) continue; // Belum ada data flow untuk periode ini
+      const holdingChange = current.foreignShares - previous.foreignShares;
+      result.periods.push({ from: previous.date, to: current.date, holdingChange, flowNetVol: net, residual: holdingChange - net, tradingDays: days });
+    }
+
+    const latest = snapshots[snapshots.length - 1]!;
+    result.latestHolding = {
+      date: latest.date,
+      foreignShares: latest.foreignShares,
+      foreignPercent: Number.isFinite(latest.foreignPercent) ? latest.foreignPercent : 0,
+      totalShares: Number.isFinite(latest.totalShares) ? latest.totalShares : 0
+    };
+
+    const lastFlowDate = flow[flow.length - 1]?.Date;
+    if (lastFlowDate) {
+      const { net } = flowBetween(latest.date, lastFlowDate);
+      const estimatedForeignShares = latest.foreignShares + net;
+      result.estimate = {
+        asOf: lastFlowDate > latest.date ? lastFlowDate : latest.date,
+        flowSinceSnapshot: net,
+        estimatedForeignShares,
+        estimatedForeignPercent: latest.totalShares > 0 ? (estimatedForeignShares / latest.totalShares) * 100 : null
+      };
+    }
+    return result;
+  }
 }
 
 export default ForeignFlowCalculator;
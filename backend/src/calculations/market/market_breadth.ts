@@ -0,0 +1,357 @@
+import { downloadText, uploadText, listPaths, exists } from '../../utils/azureBlob';
+import { adjustStockContent } from '../../services/corporateActionService';
+import { doneSummaryCache } from '../../cache/doneSummaryCacheService';
+import { sectorTaxonomy } from '../../services/sectorTaxonomyService';
+import { SchedulerLogService } from '../../services/schedulerLogService';
+import { FOREIGN_DAILY_PREFIX } from '../foreign/foreign_flow';
+
+// market_breadth.ts
+// Ringkasan se-market per hari bursa:
+// - advancers/decliners/unchanged dan new 52W high/low dari stock/{sector}/{EMITEN}.csv
+// - % emiten di atas MA20/50/200 dari flag AboveMA di accumulation_distribution/{date}.csv
+// - total net foreign dari foreign_flow_daily/{date}.csv
+// - sektor net buy terbesar/terkecil dari broker_summary/broker_summary_{date}/{Sektor}.csv
+//
+// Output: market_breadth/market_breadth.csv (satu time series, satu baris per tanggal)
+//
+// Dijalankan setelah Phase 3, padahal accumulation (Phase 8) dan broker summary sektor
+// (Phase 4) untuk hari ini belum ada. Karena itu beberapa tanggal terakhir selalu dihitung
+// ulang: kolom yang kosong hari ini akan terisi pada run berikutnya.
+
+export const MARKET_BREADTH_PREFIX = 'market_breadth';
+export const MARKET_BREADTH_FILE = `${MARKET_BREADTH_PREFIX}/market_breadth.csv`;
+
+const RECENT_DATES_TO_PROCESS = 7;
+// Saat file time series belum ada, isi histori sekaligus (OHLC sudah punya histori panjang)
+const INITIAL_BACKFILL_DATES = 120;
+const DOWNLOAD_CONCURRENCY = 10;
+const HIGH_LOW_LOOKBACK = 250; // ~52 minggu bursa
+// Emiten yang baru listing tidak dihitung new high/low sampai punya histori cukup
+const MIN_HIGH_LOW_HISTORY = 60;
+// Net sektor = net 5 broker pembeli terbesar + net 5 broker penjual terbesar.
+// Net seluruh broker dalam satu sektor selalu nol (setiap buy adalah sell broker lain).
+const SECTOR_TOP_BROKERS = 5;
+
+export interface MarketBreadthRow {
+  /** YYYYMMDD */
+  Date: string;
+  Advancers: number;
+  Decliners: number;
+  Unchanged: number;
+  TotalStocks: number;
+  NewHighs: number;
+  NewLows: number;
+  /** null = accumulation_distribution tanggal ini belum tersedia */
+  AboveMA20Pct: number | null;
+  AboveMA50Pct: number | null;
+  AboveMA200Pct: number | null;
+  /** null = foreign_flow_daily tanggal ini belum tersedia */
+  ForeignNetVolume: number | null;
+  ForeignNetValue: number | null;
+  /** Kosong = broker summary sektor tanggal ini belum tersedia */
+  TopSector: string;
+  TopSectorNetValue: number | null;
+  BottomSector: string;
+  BottomSectorNetValue: number | null;
+}
+
+export const MARKET_BREADTH_COLUMNS: Array<keyof MarketBreadthRow> = [
+  'Date', 'Advancers', 'Decliners', 'Unchanged', 'TotalStocks', 'NewHighs', 'NewLows',
+  'AboveMA20Pct', 'AboveMA50Pct', 'AboveMA200Pct', 'ForeignNetVolume', 'ForeignNetValue',
+  'TopSector', 'TopSectorNetValue', 'BottomSector', 'BottomSectorNetValue'
+];
+
+const NULLABLE_NUMBER_COLUMNS = new Set<keyof MarketBreadthRow>([
+  'AboveMA20Pct', 'AboveMA50Pct', 'AboveMA200Pct', 'ForeignNetVolume', 'ForeignNetValue',
+  'TopSectorNetValue', 'BottomSectorNetValue'
+]);
+
+interface PriceBar {
+  date: string;
+  high: number;
+  low: number;
+  close: number;
+}
+
+/** Tanggal di file OHLC bisa YYYY-MM-DD atau YYYYMMDD */
+const normalizeDate = (value: string) => value.trim().replace(/-/g, '').slice(0, 8);
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Parse market_breadth.csv. Dipakai juga oleh route, jadi urutan kolom dibaca dari header.
+ */
+export function parseMarketBreadthCsv(content: string): MarketBreadthRow[] {
+  const lines = content.replace(/^\uFEFF/, '').trim().split('\n');
+  const headers = (lines[0] || '').split(',').map(h => h.trim());
+  const rows: MarketBreadthRow[] = [];
+
+  for (let i = 1; i < lines.length; i++) {
+    const values = (lines[i] || '').split(',');
+    const raw: Record<string, string> = {};
+    headers.forEach((header, index) => { raw[header] = values[index]?.trim() ?? ''; });
+    if (!raw['Date']) continue;
+
+    const row: any = {};
+    MARKET_BREADTH_COLUMNS.forEach(column => {
+      const value = raw[column] ?? '';
+      if (column === 'Date' || column === 'TopSector' || column === 'BottomSector') {
+        row[column] = value;
+      } else if (NULLABLE_NUMBER_COLUMNS.has(column)) {
+        row[column] = value === '' ? null : Number(value);
+      } else {
+        row[column] = Number(value) || 0;
+      }
+    });
+    rows.push(row as MarketBreadthRow);
+  }
+
+  return rows.sort((a, b) => a.Date.localeCompare(b.Date));
+}
+
+function toCsv(rows: MarketBreadthRow[]): string {
+  return [
+    MARKET_BREADTH_COLUMNS.join(','),
+    // Koma di nama sektor (custom taxonomy) dibuang agar kolom CSV tidak bergeser
+    ...rows.map(row => MARKET_BREADTH_COLUMNS.map(column => {
+      const value = row[column];
+      if (value === null || value === undefined) return '';
+      return typeof value === 'string' ? value.replace(/,/g, ' ') : value;
+    }).join(','))
+  ].join('\n');
+}
+
+/** Baca CSV sederhana menjadi array record per header */
+function parseSimpleCsv(content: string): Array<Record<string, string>> {
+  const lines = content.replace(/^\uFEFF/, '').trim().split('\n');
+  const headers = (lines[0] || '').split(',').map(h => h.trim());
+  const rows: Array<Record<string, string>> = [];
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i]?.trim();
+    if (!line) continue;
+    const values = line.split(',');
+    const row: Record<string, string> = {};
+    headers.forEach((header, index) => { row[header] = values[index]?.trim() ?? ''; });
+    rows.push(row);
+  }
+  return rows;
+}
+
+export class MarketBreadthCalculator {
+  constructor() {
+    // No need for Azure client initialization - using azureBlob utility
+  }
+
+  private async loadExistingRows(): Promise<MarketBreadthRow[]> {
+    try {
+      if (!(await exists(MARKET_BREADTH_FILE))) return [];
+      return parseMarketBreadthCsv(await downloadText(MARKET_BREADTH_FILE));
+    } catch (error) {
+      console.warn(`⚠️ Could not read ${MARKET_BREADTH_FILE}, rebuilding:`, error instanceof Error ? error.message : error);
+      return [];
+    }
+  }
+
+  /**
+   * Tanggal bursa dari daftar DT file, urut naik
+   */
+  private async getTradingDates(count: number): Promise<string[]> {
+    const allDtFiles: string[] = await doneSummaryCache.getDtFilesList();
+    const dates = Array.from(new Set(allDtFiles.map(file => file.split('/')[1] || '').filter(date => /^\d{8}$/.test(date))));
+    return dates.sort().slice(-count);
+  }
+
+  /**
+   * Semua file OHLC emiten, hanya kolom yang dibutuhkan (Date/High/Low/Close), urut tanggal naik
+   */
+  private async loadAllPriceBars(): Promise<Map<string, PriceBar[]>> {
+    const files = (await listPaths({ prefix: 'stock/' }))
+      .filter(file => file.endsWith('.csv') && file.split('/').length >= 3);
+    const result = new Map<string, PriceBar[]>();
+
+    for (let i = 0; i < files.length; i += DOWNLOAD_CONCURRENCY) {
+      await Promise.all(files.slice(i, i + DOWNLOAD_CONCURRENCY).map(async file => {
+        const ticker = (file.split('/').pop() || '').replace('.csv', '');
+        try {
+          const bars = parseSimpleCsv(await adjustStockContent(file, await downloadText(file)))
+            .map(row => ({
+              date: normalizeDate(row['Date'] || ''),
+              high: parseFloat(row['High'] || '') || 0,
+              low: parseFloat(row['Low'] || '') || 0,
+              close: parseFloat(row['Close'] || '') || 0
+            }))
+            .filter(bar => bar.date.length === 8 && bar.close > 0)
+            .sort((a, b) => a.date.localeCompare(b.date));
+          if (bars.length > 0) result.set(ticker, bars);
+        } catch (error) {
+          console.warn(`⚠️ Could not load OHLC for ${ticker}:`, error instanceof Error ? error.message : error);
+        }
+      }));
+    }
+
+    console.log(`📊 Market breadth: loaded OHLC for ${result.size}/${files.length} stocks`);
+    return result;
+  }
+
+  /**
+   * Advancers/decliners dan new high/low untuk satu tanggal.
+   * New high = High hari ini melewati High tertinggi 250 sesi sebelumnya (new low sebaliknya).
+   */
+  calculatePriceBreadth(priceBars: Map<string, PriceBar[]>, date: string): Pick<MarketBreadthRow, 'Advancers' | 'Decliners' | 'Unchanged' | 'TotalStocks' | 'NewHighs' | 'NewLows'> {
+    const result = { Advancers: 0, Decliners: 0, Unchanged: 0, TotalStocks: 0, NewHighs: 0, NewLows: 0 };
+
+    priceBars.forEach(bars => {
+      const index = bars.findIndex(bar => bar.date === date);
+      if (index <= 0) return;
+      const today = bars[index]!;
+      const previous = bars[index - 1]!;
+
+      result.TotalStocks++;
+      if (today.close > previous.close) result.Advancers++;
+      else if (today.close < previous.close) result.Decliners++;
+      else result.Unchanged++;
+
+      const window = bars.slice(Math.max(0, index - HIGH_LOW_LOOKBACK), index);
+      if (window.length < MIN_HIGH_LOW_HISTORY) return;
+      const priorHigh = Math.max(...window.map(bar => bar.high || bar.close));
+      const priorLow = Math.min(...window.map(bar => bar.low || bar.close));
+      if ((today.high || today.close) > priorHigh) result.NewHighs++;
+      if ((today.low || today.close) < priorLow) result.NewLows++;
+    });
+
+    return result;
+  }
+
+  /**
+   * Persentase emiten dengan flag AboveMA = 1 di output accumulation_distribution
+   */
+  private async loadMovingAverageBreadth(date: string): Promise<Pick<MarketBreadthRow, 'AboveMA20Pct' | 'AboveMA50Pct' | 'AboveMA200Pct'>> {
+    const empty = { AboveMA20Pct: null, AboveMA50Pct: null, AboveMA200Pct: null };
+    const path = `accumulation_distribution/${date}.csv`;
+    try {
+      if (!(await exists(path))) return empty;
+      const rows = parseSimpleCsv(await downloadText(path)).filter(row => row['Symbol']);
+      if (rows.length === 0) return empty;
+      const pct = (column: string) => round2(rows.filter(row => row[column] === '1').length / rows.length * 100);
+      return { AboveMA20Pct: pct('AboveMA20'), AboveMA50Pct: pct('AboveMA50'), AboveMA200Pct: pct('AboveMA200') };
+    } catch (error) {
+      console.warn(`⚠️ Could not read ${path}:`, error instanceof Error ? error.message : error);
+      return empty;
+    }
+  }
+
+  private async loadForeignNet(date: string): Promise<Pick<MarketBreadthRow, 'ForeignNetVolume' | 'ForeignNetValue'>> {
+    const empty = { ForeignNetVolume: null, ForeignNetValue: null };
+    const path = `${FOREIGN_DAILY_PREFIX}/${date}.csv`;
+    try {
+      if (!(await exists(path))) return empty;
+      const rows = parseSimpleCsv(await downloadText(path));
+      return {
+        ForeignNetVolume: rows.reduce((sum, row) => sum + (parseFloat(row['NetBuyVol'] || '') || 0), 0),
+        ForeignNetValue: Math.round(rows.reduce((sum, row) => sum + (parseFloat(row['NetBuyValue'] || '') || 0), 0))
+      };
+    } catch (error) {
+      console.warn(`⚠️ Could not read ${path}:`, error instanceof Error ? error.message : error);
+      return empty;
+    }
+  }
+
+  /**
+   * Net top broker per sektor dari broker summary sektor (All Trade), lalu ambil sektor
+   * dengan net terbesar dan terkecil
+   */
+  private async loadSectorNet(date: string, sectors: string[]): Promise<Pick<MarketBreadthRow, 'TopSector' | 'TopSectorNetValue' | 'BottomSector' | 'BottomSectorNetValue'>> {
+    const sectorNets: Array<{ sector: string; net: number }> = [];
+
+    for (const sector of sectors) {
+      const path = `broker_summary/broker_summary_${date}/${sector}.csv`;
+      try {
+        if (!(await exists(path))) continue;
+        // Kolom broker summary tertukar (lihat broker_summary.ts): SellerValue = beli, BuyerValue = jual
+        const nets = parseSimpleCsv(await downloadText(path))
+          .map(row => (parseFloat(row['SellerValue'] || '') || 0) - (parseFloat(row['BuyerValue'] || '') || 0))
+          .sort((a, b) => b - a);
+        if (nets.length === 0) continue;
+        const topBuy = nets.slice(0, SECTOR_TOP_BROKERS).filter(net => net > 0);
+        const topSell = nets.slice(-SECTOR_TOP_BROKERS).filter(net => net < 0);
+        const net = [...topBuy, ...topSell].reduce((sum, value) => sum + value, 0);
+        sectorNets.push({ sector, net: Math.round(net) });
+      } catch (error) {
+        console.warn(`⚠️ Could not read ${path}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    if (sectorNets.length === 0) {
+      return { TopSector: '', TopSectorNetValue: null, BottomSector: '', BottomSectorNetValue: null };
+    }
+    sectorNets.sort((a, b) => b.net - a.net);
+    const top = sectorNets[0]!;
+    const bottom = sectorNets[sectorNets.length - 1]!;
+    return { TopSector: top.sector, TopSectorNetValue: top.net, BottomSector: bottom.sector, BottomSectorNetValue: bottom.net };
+  }
+
+  /**
+   * Hitung ulang beberapa tanggal terakhir dan gabungkan ke time series yang ada
+   */
+  async generateMarketBreadth(logId?: string | null): Promise<{ success: boolean; message: string; data?: any }> {
+    const existingRows = await this.loadExistingRows();
+    const dates = await this.getTradingDates(existingRows.length > 0 ? RECENT_DATES_TO_PROCESS : INITIAL_BACKFILL_DATES);
+    if (dates.length === 0) {
+      return { success: false, message: 'No trading dates found in done-summary files' };
+    }
+
+    if (logId) {
+      await SchedulerLogService.updateLog(logId, {
+        progress_percentage: 5,
+        current_processing: 'Loading stock OHLC files for market breadth...'
+      });
+    }
+    const priceBars = await this.loadAllPriceBars();
+    const sectors = Object.keys(await sectorTaxonomy.getSectorMapping());
+
+    const rowsByDate = new Map(existingRows.map(row => [row.Date, row]));
+    let processed = 0;
+    for (let i = 0; i < dates.length; i++) {
+      const date = dates[i]!;
+      if (logId) {
+        await SchedulerLogService.updateLog(logId, {
+          progress_percentage: 10 + Math.round((i / dates.length) * 90),
+          current_processing: `Calculating market breadth ${date} (${i + 1}/${dates.length})`
+        });
+      }
+
+      const priceBreadth = this.calculatePriceBreadth(priceBars, date);
+      if (priceBreadth.TotalStocks === 0) {
+        // OHLC tanggal ini belum di-update, jangan timpa baris lama dengan angka nol
+        console.log(`⏭️ No OHLC data for ${date} yet - skipping market breadth`);
+        continue;
+      }
+
+      const row: MarketBreadthRow = {
+        Date: date,
+        ...priceBreadth,
+        ...(await this.loadMovingAverageBreadth(date)),
+        ...(await this.loadForeignNet(date)),
+        ...(await this.loadSectorNet(date, sectors))
+      };
+      rowsByDate.set(date, row);
+      processed++;
+    }
+
+    if (processed === 0) {
+      return { success: false, message: `No OHLC data for the last ${dates.length} trading dates` };
+    }
+
+    const rows = Array.from(rowsByDate.values()).sort((a, b) => a.Date.localeCompare(b.Date));
+    await uploadText(MARKET_BREADTH_FILE, toCsv(rows), 'text/csv');
+    console.log(`✅ Market breadth updated: ${processed} dates recalculated, ${rows.length} dates in series`);
+
+    return {
+      success: true,
+      message: `Market breadth calculated for ${processed}/${dates.length} dates`,
+      data: { dates: processed, totalDates: rows.length }
+    };
+  }
+}
+
+export default MarketBreadthCalculator;
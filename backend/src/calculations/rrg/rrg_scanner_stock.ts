@@ -6,7 +6,9 @@
 // ------------------------------------------------------------
 
 import { downloadText, uploadText, listPaths, exists } from '../../utils/azureBlob';
+import { adjustStockContent } from '../../services/corporateActionService';
 import { BATCH_SIZE_PHASE_2, MAX_CONCURRENT_REQUESTS_PHASE_2 } from '../../services/dataUpdateService';
+import { UNCLASSIFIED_SECTOR } from '../../services/sectorTaxonomyService';
 
 // Helper function to limit concurrency for Phase 2
 async function limitConcurrency<T>(promises: Promise<T>[], maxConcurrency: number): Promise<T[]> {
@@ -95,29 +97,8 @@ function getSectorForEmiten(emiten: string): string {
     }
   }
   
-  // If not found, distribute based on hash
-  const sectors = Object.keys(SECTOR_MAPPING);
-  if (sectors.length === 0) {
-    return 'Financials'; // Default fallback
-  }
-  
-  const hash = emiten.split('').reduce((a, b) => {
-    a = ((a << 5) - a) + b.charCodeAt(0);
-    return a & a;
-  }, 0);
-  const sectorIndex = Math.abs(hash) % sectors.length;
-  const selectedSector = sectors[sectorIndex];
-  
-  if (!selectedSector) {
-    return 'Financials'; // Default fallback
-  }
-  
-  if (!SECTOR_MAPPING[selectedSector]) {
-    SECTOR_MAPPING[selectedSector] = [];
-  }
-  SECTOR_MAPPING[selectedSector].push(emiten);
-  
-  return selectedSector;
+  // Tidak ada di folder sektor manapun -> Unclassified (jangan tebak sektor)
+  return UNCLASSIFIED_SECTOR;
 }
 
 /**
@@ -170,7 +151,7 @@ async function readStockData(stockCode: string): Promise<StockData | null> {
       return null;
     }
     
-    const raw = await downloadText(stockPath);
+    const raw = await adjustStockContent(stockPath, await downloadText(stockPath));
     const lines = raw.split(/\r?\n/).filter((l) => l.trim().length > 0);
     
     if (lines.length === 0) return null;
@@ -6,6 +6,7 @@
 // ------------------------------------------------------------
 
 import { downloadText, uploadText, listPaths, exists } from '../../utils/azureBlob';
+import { adjustStockContent } from '../../services/corporateActionService';
 import * as path from 'path';
 import { BATCH_SIZE_PHASE_2, MAX_CONCURRENT_REQUESTS_PHASE_2 } from '../../services/dataUpdateService';
 
@@ -102,7 +103,8 @@ function parseCsvLine(line: string): string[] {
 }
 
 async function readCsvData(filePath: string): Promise<StockData> {
-  const raw = await downloadText(filePath);
+  const content = await downloadText(filePath);
+  const raw = filePath.startsWith('stock/') ? await adjustStockContent(filePath, content) : content;
   const lines = raw.split(/\r?\n/).filter((l) => l.trim().length > 0);
   
   if (lines.length === 0) {
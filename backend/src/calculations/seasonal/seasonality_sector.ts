@@ -5,7 +5,9 @@
 // ------------------------------------------------------------
 
 import { downloadText, uploadText, listPaths, exists } from '../../utils/azureBlob';
+import { adjustStockContent } from '../../services/corporateActionService';
 import { BATCH_SIZE_PHASE_2, MAX_CONCURRENT_REQUESTS_PHASE_2 } from '../../services/dataUpdateService';
+import { UNCLASSIFIED_SECTOR } from '../../services/sectorTaxonomyService';
 
 interface StockData {
   Date: string;
@@ -96,7 +98,7 @@ async function loadStockData(sector: string, ticker: string): Promise<StockData[
   }
   
   try {
-    const csvContent = await downloadText(stockPath);
+    const csvContent = await adjustStockContent(stockPath, await downloadText(stockPath));
     const lines = csvContent.trim().split('\n');
     const headers = parseCsvLine(lines[0] || '');
     
@@ -373,7 +375,8 @@ async function getAllSectors(): Promise<string[]> {
       const parts = file.split('/');
       if (parts.length >= 2) {
         const sector = parts[1];
-        if (sector && sector !== '' && !sector.includes('.')) { // Exclude files, only folders
+        // Exclude files (only folders) and the Unclassified bucket - bukan sektor sungguhan
+        if (sector && sector !== '' && !sector.includes('.') && sector !== UNCLASSIFIED_SECTOR) {
           sectors.add(sector);
         }
       }
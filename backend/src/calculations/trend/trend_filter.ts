@@ -1,5 +1,7 @@
-import { BlobServiceClient } from '@azure/storage-blob';
+import { downloadText, uploadText, listPaths, exists } from '../../utils/azureBlob';
+import { adjustStockContent } from '../../services/corporateActionService';
 import { BATCH_SIZE_PHASE_2, MAX_CONCURRENT_REQUESTS_PHASE_2 } from '../../services/dataUpdateService';
+import { DEFAULT_TREND_RULE_SET, TrendRuleSet, evaluateTrend, getTrendOutputPrefix } from './trend_rules';
 
 interface StockData {
   Date: string;
@@ -60,29 +62,15 @@ interface TrendResults {
 }
 
 export class TrendFilterCalculator {
-  private blobServiceClient: any;
-  private containerName: string;
-
-  constructor() {
-    this.blobServiceClient = BlobServiceClient.fromConnectionString(
-      process.env['AZURE_STORAGE_CONNECTION_STRING'] || ''
-    );
-    this.containerName = process.env['AZURE_STORAGE_CONTAINER_NAME'] || 'bandarmolony-data';
-  }
-
   private async loadStockDataFromAzure(sector: string, ticker: string): Promise<StockData[]> {
     try {
       const blobName = `stock/${sector}/${ticker}.csv`;
-      const blobClient = this.blobServiceClient
-        .getContainerClient(this.containerName)
-        .getBlobClient(blobName);
 
-      if (!(await blobClient.exists())) {
+      if (!(await exists(blobName))) {
         return [];
       }
 
-      const downloadResponse = await blobClient.download();
-      const csvContent = await this.streamToString(downloadResponse.readableStreamBody!);
+      const csvContent = await adjustStockContent(blobName, await downloadText(blobName));
       const lines = csvContent.trim().split('\n');
       const headers = lines[0]?.split(',') || [];
 
@@ -138,7 +126,8 @@ export class TrendFilterCalculator {
         console.log(`📊 ${ticker}: Total lines=${lines.length-1}, Valid=${data.length}, Empty=${emptyLines}, Invalid=${invalidLines}, Skipped=${skippedLines}`);
       }
 
-      return data.sort((a, b) => new Date(b.Date).getTime() - new Date(a.Date).getTime());
+      // Urut kronologis (lama -> baru): evaluateTrend mengambil window dari ujung array
+      return data.sort((a, b) => new Date(a.Date).getTime() - new Date(b.Date).getTime());
     } catch (error) {
       console.warn(`⚠️ Warning: Could not load data for ${ticker}: ${error}`);
       return [];
@@ -149,16 +138,15 @@ export class TrendFilterCalculator {
     const stocks: { sector: string; ticker: string }[] = [];
 
     try {
-      const containerClient = this.blobServiceClient.getContainerClient(this.containerName);
-      const blobs = containerClient.listBlobsFlat({ prefix: 'stock/' });
+      const blobNames = await listPaths({ prefix: 'stock/' });
 
-      for await (const blob of blobs) {
-        const blobName = blob.name;
+      for (const blobName of blobNames) {
         if (blobName.endsWith('.csv') && blobName.includes('/')) {
           const pathParts = blobName.split('/');
-          if (pathParts.length >= 3) {
-            const sector = pathParts[1];
-            const ticker = pathParts[2].replace('.csv', '');
+          const sector = pathParts[1];
+          const fileName = pathParts[2];
+          if (pathParts.length >= 3 && sector && fileName) {
+            const ticker = fileName.replace('.csv', '');
             stocks.push({ sector, ticker });
           }
         }
@@ -178,17 +166,13 @@ export class TrendFilterCalculator {
 
     try {
       const blobName = 'csv_input/emiten_detail_list.csv';
-      const blobClient = this.blobServiceClient
-        .getContainerClient(this.containerName)
-        .getBlobClient(blobName);
 
-      if (!(await blobClient.exists())) {
+      if (!(await exists(blobName))) {
         console.warn('⚠️ Warning: emiten_detail_list.csv not found, using ticker as company name');
         return emitenMap;
       }
 
-      const downloadResponse = await blobClient.download();
-      const csvContent = await this.streamToString(downloadResponse.readableStreamBody!);
+      const csvContent = await downloadText(blobName);
       const lines = csvContent.trim().split('\n');
       const headers = lines[0]?.split(',').map(h => h.trim()) || [];
 
@@ -243,274 +227,159 @@ export class TrendFilterCalculator {
     return results;
   }
 
-  private calculateTrend(data: StockData[], periodDays: number): { trend: string; changePct: number; latestPrice: number } | null {
-    if (data.length < periodDays) {
-      return null;
-    }
-
-    // Get data for the specified period
-    const recentData = data.slice(-periodDays);
-
-    // Calculate moving averages
-    const shortWindow = Math.min(5, Math.max(1, Math.floor(recentData.length / 3)));
-    const longWindow = Math.min(Math.floor(periodDays / 2), Math.max(1, Math.floor(recentData.length / 2)));
-
-    // Calculate short MA
-    const shortMA = recentData.slice(-shortWindow).reduce((sum, item) => sum + item.Close, 0) / shortWindow;
-
-    // Calculate long MA
-    const longMA = recentData.slice(-longWindow).reduce((sum, item) => sum + item.Close, 0) / longWindow;
-
-    // Get latest values
-    const latestPrice = recentData[recentData.length - 1]?.Close;
-    const firstPrice = recentData[0]?.Close;
-
-    // Calculate price change percentage (same as original)
-    if (!latestPrice || !firstPrice) {
-      return null;
-    }
-    
-    // Handle zero price case
-    if (firstPrice === 0) {
-      // If first price is 0, use a very small value to avoid division by zero
-      const changePct = latestPrice > 0 ? 100 : 0;
-      return {
-        trend: changePct > 0 ? 'Uptrend' : 'Sideways',
-        changePct: changePct,
-        latestPrice: parseFloat(latestPrice.toFixed(2))
-      };
-    }
-    
-    const changePct = ((latestPrice - firstPrice) / firstPrice) * 100;
-
-    // Determine trend based on multiple criteria
-    let trendScore = 0;
-
-    // Criterion 1: Moving Average relationship
-    if (shortMA > longMA) {
-      trendScore += 1;
-    } else if (shortMA < longMA) {
-      trendScore -= 1;
-    }
-
-    // Criterion 2: Price position relative to moving averages
-    if (latestPrice > shortMA) {
-      trendScore += 1;
-    } else if (latestPrice < shortMA) {
-      trendScore -= 1;
-    }
-
-    // Criterion 3: Price change percentage
-    if (changePct > 2) { // Strong uptrend threshold
-      trendScore += 1;
-    } else if (changePct < -2) { // Strong downtrend threshold
-      trendScore -= 1;
-    }
-
-    // Criterion 4: Recent momentum (last 3 days vs previous 3 days)
-    if (recentData.length >= 6) {
-      const recent3d = recentData.slice(-3).reduce((sum, item) => sum + item.Close, 0) / 3;
-      const previous3d = recentData.slice(-6, -3).reduce((sum, item) => sum + item.Close, 0) / 3;
-      if (recent3d > previous3d) {
-        trendScore += 1;
-      } else if (recent3d < previous3d) {
-        trendScore -= 1;
-      }
-    }
-
-    // Determine final trend
-    let trend: string;
-    if (trendScore >= 2) {
-      trend = 'Uptrend';
-    } else if (trendScore <= -2) {
-      trend = 'Downtrend';
-    } else {
-      trend = 'Sideways';
-    }
-
-    return {
-      trend,
-      changePct: parseFloat(changePct.toFixed(2)),
-      latestPrice: parseFloat(latestPrice.toFixed(2))
-    };
-  }
-
-  private async generateTrendAnalysis(timePeriods: string[] = ['3D', '5D', '2W', '1M'], logId?: string | null): Promise<TrendResults> {
-    // Define period mappings
-    const periodMapping: { [key: string]: number } = {
-      '3D': 3,
-      '5D': 5,
-      '2W': 14,
-      '1M': 30
-    };
-
+  private async generateTrendAnalysis(ruleSets: TrendRuleSet[], logId?: string | null): Promise<Map<string, TrendResults>> {
     const allStocks = await this.getAllStocksFromAzure();
     const emitenDetails = await this.loadEmitenDetailsFromAzure();
-    const results: { [period: string]: TrendSummary } = {};
 
-    console.log(`📊 Processing ${allStocks.length} stocks for trend analysis...`);
+    // stocksData per rule set per period; file saham cukup dibaca sekali untuk semua rule set
+    const collected = new Map<string, Map<string, TrendData[]>>();
+    for (const ruleSet of ruleSets) {
+      collected.set(ruleSet.id, new Map(ruleSet.periods.map(period => [period.label, [] as TrendData[]])));
+    }
+
+    console.log(`📊 Processing ${allStocks.length} stocks for trend analysis (${ruleSets.length} rule set(s): ${ruleSets.map(r => r.id).join(', ')})...`);
     console.log(`📋 Loaded ${emitenDetails.size} emiten details for company names`);
-    
-    // Debug: Log some sample stocks
-    console.log(`🔍 Sample stocks to process:`, allStocks.slice(0, 5));
 
-    for (const period of timePeriods) {
-      if (!periodMapping[period]) {
-        continue;
+    let noDataCount = 0;
+    let processedCount = 0;
+
+    // Process stocks in batches
+    const BATCH_SIZE = BATCH_SIZE_PHASE_2; // Phase 2: 500 stocks at a time
+    const totalBatches = Math.ceil(allStocks.length / BATCH_SIZE);
+    for (let i = 0; i < allStocks.length; i += BATCH_SIZE) {
+      const batch = allStocks.slice(i, i + BATCH_SIZE);
+      const batchNumber = Math.floor(i / BATCH_SIZE) + 1;
+
+      if (logId) {
+        const { SchedulerLogService } = await import('../../services/schedulerLogService');
+        await SchedulerLogService.updateLog(logId, {
+          progress_percentage: Math.round((processedCount / allStocks.length) * 100),
+          current_processing: `Processing trend batch ${batchNumber}/${totalBatches} (${processedCount}/${allStocks.length} stocks)`
+        });
       }
 
-      const periodDays = periodMapping[period];
-      const stocksData: TrendData[] = [];
-      let noDataCount = 0;
-      let noTrendCount = 0;
-      let processedCount = 0;
+      // Memory check before batch
+      if (global.gc) {
+        const memBefore = process.memoryUsage();
+        const heapUsedMB = memBefore.heapUsed / 1024 / 1024;
+        if (heapUsedMB > 10240) { // 10GB threshold
+          console.log(`⚠️ High memory usage detected: ${heapUsedMB.toFixed(2)}MB, forcing GC...`);
+          global.gc();
+          await new Promise(resolve => setTimeout(resolve, 100));
+        }
+      }
 
-      console.log(`⏰ Analyzing ${period} period (${periodDays} days)...`);
+      const batchPromises = batch.map(async (stock) => {
+        const data = await this.loadStockDataFromAzure(stock.sector, stock.ticker);
+        processedCount++;
 
-      // Process stocks in batches
-      const BATCH_SIZE = BATCH_SIZE_PHASE_2; // Phase 2: 500 stocks at a time
-      for (let i = 0; i < allStocks.length; i += BATCH_SIZE) {
-        const batch = allStocks.slice(i, i + BATCH_SIZE);
-        const batchNumber = Math.floor(i / BATCH_SIZE) + 1;
-        
-        // Update progress before batch (use processedCount, not batch index)
-        if (logId) {
-          const { SchedulerLogService } = await import('../../services/schedulerLogService');
-          await SchedulerLogService.updateLog(logId, {
-            progress_percentage: Math.round((processedCount / allStocks.length) * 100),
-            current_processing: `Processing ${period} period - batch ${batchNumber}/${Math.ceil(allStocks.length / BATCH_SIZE)} (${processedCount}/${allStocks.length} stocks)`
-          });
-        }
-        
-        // Memory check before batch
-        if (global.gc) {
-          const memBefore = process.memoryUsage();
-          const heapUsedMB = memBefore.heapUsed / 1024 / 1024;
-          if (heapUsedMB > 10240) { // 10GB threshold
-            console.log(`⚠️ High memory usage detected: ${heapUsedMB.toFixed(2)}MB, forcing GC...`);
-            global.gc();
-            await new Promise(resolve => setTimeout(resolve, 100));
+        if (data.length === 0) {
+          noDataCount++;
+          if (noDataCount <= 5) { // Log first 5 missing data cases
+            console.log(`⚠️ No data found for ${stock.ticker} in sector ${stock.sector}`);
           }
+          return;
         }
-        
-        const batchPromises = batch.map(async (stock) => {
-          const data = await this.loadStockDataFromAzure(stock.sector, stock.ticker);
-          
-          if (data.length === 0) {
-            noDataCount++;
-            if (noDataCount <= 5) { // Log first 5 missing data cases
-              console.log(`⚠️ No data found for ${stock.ticker} in sector ${stock.sector}`);
-            }
-            return null;
-          }
 
-          const trendResult = this.calculateTrend(data, periodDays);
-          
-          if (trendResult) {
-            processedCount++;
-            // Get company name from emiten details, fallback to ticker if not found
-            const emitenDetail = emitenDetails.get(stock.ticker);
-            const companyName = emitenDetail?.CompanyName || `${stock.ticker} Company`;
+        // Get company name from emiten details, fallback to ticker if not found
+        const companyName = emitenDetails.get(stock.ticker)?.CompanyName || `${stock.ticker} Company`;
 
-            return {
+        for (const ruleSet of ruleSets) {
+          const byPeriod = collected.get(ruleSet.id)!;
+          for (const period of ruleSet.periods) {
+            const trendResult = evaluateTrend(data, period.days, ruleSet);
+            if (!trendResult) continue;
+            byPeriod.get(period.label)!.push({
               Symbol: stock.ticker,
               Name: companyName,
               Price: trendResult.latestPrice,
               ChangePct: trendResult.changePct,
               Sector: stock.sector,
-              Trend: trendResult.trend as 'Uptrend' | 'Sideways' | 'Downtrend',
-              Period: period
-            };
-          } else {
-            noTrendCount++;
-            if (noTrendCount <= 5) { // Log first 5 no trend cases
-              console.log(`⚠️ No trend calculated for ${stock.ticker} (${data.length} data points, need ${periodDays})`);
-            }
-            return null;
+              Trend: trendResult.trend,
+              Period: period.label
+            });
           }
-        });
+        }
+      });
 
-        // Limit concurrency for Phase 2
-        const batchResults = await this.limitConcurrency(batchPromises, MAX_CONCURRENT_REQUESTS_PHASE_2);
-        const validResults = batchResults.filter((result): result is TrendData => result !== null);
-        stocksData.push(...validResults);
+      // Limit concurrency for Phase 2
+      await this.limitConcurrency(batchPromises, MAX_CONCURRENT_REQUESTS_PHASE_2);
+      console.log(`📊 Processed batch ${batchNumber}/${totalBatches} (${processedCount}/${allStocks.length} stocks)`);
 
-        console.log(`📊 Processed batch ${batchNumber}/${Math.ceil(allStocks.length / BATCH_SIZE)} for ${period} - Valid: ${validResults.length}/${batch.length}`);
-        
-        // Update progress after batch
-        if (logId) {
-          const { SchedulerLogService } = await import('../../services/schedulerLogService');
-          await SchedulerLogService.updateLog(logId, {
-            progress_percentage: Math.round((processedCount / allStocks.length) * 100),
-            current_processing: `Completed ${period} period - batch ${batchNumber}/${Math.ceil(allStocks.length / BATCH_SIZE)} (${processedCount}/${allStocks.length} stocks)`
-          });
-        }
-        
-        // Memory cleanup after batch
-        if (global.gc) {
-          global.gc();
-          const memAfter = process.memoryUsage();
-          const heapUsedMB = memAfter.heapUsed / 1024 / 1024;
-          console.log(`📊 Batch ${batchNumber} complete - Memory: ${heapUsedMB.toFixed(2)}MB`);
-        }
-        
-        // Small delay between batches
-        if (i + BATCH_SIZE < allStocks.length) {
-          await new Promise(resolve => setTimeout(resolve, 100));
-        }
+      // Memory cleanup after batch
+      if (global.gc) {
+        global.gc();
+        const memAfter = process.memoryUsage();
+        const heapUsedMB = memAfter.heapUsed / 1024 / 1024;
+        console.log(`📊 Batch ${batchNumber} complete - Memory: ${heapUsedMB.toFixed(2)}MB`);
+      }
+
+      // Small delay between batches
+      if (i + BATCH_SIZE < allStocks.length) {
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+    }
+
+    console.log(`📊 Trend input summary: Total=${allStocks.length}, NoData=${noDataCount}`);
+
+    const resultsByRuleSet = new Map<string, TrendResults>();
+    for (const ruleSet of ruleSets) {
+      const results: { [period: string]: TrendSummary } = {};
+      const byPeriod = collected.get(ruleSet.id)!;
+
+      for (const period of ruleSet.periods) {
+        const stocksData = byPeriod.get(period.label) || [];
+
+        // Sort by change percentage (descending)
+        stocksData.sort((a, b) => b.ChangePct - a.ChangePct);
+
+        // Count trends
+        const trendCounts = {
+          Uptrend: stocksData.filter(s => s.Trend === 'Uptrend').length,
+          Sideways: stocksData.filter(s => s.Trend === 'Sideways').length,
+          Downtrend: stocksData.filter(s => s.Trend === 'Downtrend').length
+        };
+
+        const totalStocks = stocksData.length;
+        const percentOf = (count: number) => totalStocks > 0 ? parseFloat(((count / totalStocks) * 100).toFixed(1)) : 0;
+
+        results[period.label] = {
+          Period: period.label,
+          PeriodDays: period.days,
+          TotalStocks: totalStocks,
+          TrendCounts: trendCounts,
+          TrendPercentages: {
+            Uptrend: percentOf(trendCounts.Uptrend),
+            Sideways: percentOf(trendCounts.Sideways),
+            Downtrend: percentOf(trendCounts.Downtrend)
+          },
+          Stocks: stocksData
+        };
       }
 
-      console.log(`📊 ${period} Summary: Total=${allStocks.length}, Processed=${processedCount}, NoData=${noDataCount}, NoTrend=${noTrendCount}, Final=${stocksData.length}`);
-
-      // Sort by change percentage (descending)
-      stocksData.sort((a, b) => b.ChangePct - a.ChangePct);
-
-      // Count trends
-      const trendCounts = {
-        Uptrend: stocksData.filter(s => s.Trend === 'Uptrend').length,
-        Sideways: stocksData.filter(s => s.Trend === 'Sideways').length,
-        Downtrend: stocksData.filter(s => s.Trend === 'Downtrend').length
-      };
-
-      const totalStocks = stocksData.length;
-
-      // Calculate percentages
-      const trendPercentages = {
-        Uptrend: totalStocks > 0 ? parseFloat(((trendCounts.Uptrend / totalStocks) * 100).toFixed(1)) : 0,
-        Sideways: totalStocks > 0 ? parseFloat(((trendCounts.Sideways / totalStocks) * 100).toFixed(1)) : 0,
-        Downtrend: totalStocks > 0 ? parseFloat(((trendCounts.Downtrend / totalStocks) * 100).toFixed(1)) : 0
-      };
-
-      results[period] = {
-        Period: period,
-        PeriodDays: periodDays,
-        TotalStocks: totalStocks,
-        TrendCounts: trendCounts,
-        TrendPercentages: trendPercentages,
-        Stocks: stocksData
-      };
-
-      console.log(`✅ ${period} analysis completed: ${totalStocks} stocks analyzed`);
+      const periodLabels = ruleSet.periods.map(period => period.label);
+      resultsByRuleSet.set(ruleSet.id, {
+        Metadata: {
+          GeneratedAt: new Date().toISOString(),
+          AnalysisType: 'trend_filter',
+          Description: `Stock trend analysis with multiple time periods (rule set: ${ruleSet.id})`,
+          TotalPeriods: periodLabels.length,
+          PeriodsAnalyzed: periodLabels
+        },
+        Periods: results
+      });
     }
 
-    return {
-      Metadata: {
-        GeneratedAt: new Date().toISOString(),
-        AnalysisType: 'trend_filter',
-        Description: 'Stock trend analysis with multiple time periods',
-        TotalPeriods: timePeriods.length,
-        PeriodsAnalyzed: timePeriods
-      },
-      Periods: results
-    };
+    return resultsByRuleSet;
   }
 
-  private async saveToCSV(results: TrendResults): Promise<void> {
+  private async saveToCSV(results: TrendResults, ruleSetId: string): Promise<void> {
+    const prefix = getTrendOutputPrefix(ruleSetId);
     try {
       // Save individual CSV files for each time period
       for (const [period, data] of Object.entries(results.Periods)) {
         const filename = `o1-trend-${period.toLowerCase()}.csv`;
-        const blobName = `trend_output/${filename}`;
+        const blobName = `${prefix}${filename}`;
         
         // Create CSV content
         let csvContent = 'Symbol,Name,Price,Change%,Sector,Trend\n';
@@ -519,19 +388,14 @@ export class TrendFilterCalculator {
           csvContent += `${stock.Symbol},${stock.Name},${stock.Price},${stock.ChangePct},${stock.Sector},${stock.Trend}\n`;
         });
         
-        const containerClient = this.blobServiceClient.getContainerClient(this.containerName);
-        const blockBlobClient = containerClient.getBlockBlobClient(blobName);
-        
-        await blockBlobClient.upload(csvContent, csvContent.length, {
-          blobHTTPHeaders: { blobContentType: 'text/csv' }
-        });
+        await uploadText(blobName, csvContent, 'text/csv');
         
         console.log(`✅ Trend data for ${period} saved to Azure: ${blobName}`);
       }
 
       // Save summary CSV
       const summaryFilename = 'trend-summary.csv';
-      const summaryBlobName = `trend_output/${summaryFilename}`;
+      const summaryBlobName = `${prefix}${summaryFilename}`;
       
       let summaryContent = 'Period,TotalStocks,UptrendCount,Uptrend%,SidewaysCount,Sideways%,DowntrendCount,Downtrend%\n';
       
@@ -539,12 +403,7 @@ export class TrendFilterCalculator {
         summaryContent += `${period},${data.TotalStocks},${data.TrendCounts.Uptrend},${data.TrendPercentages.Uptrend},${data.TrendCounts.Sideways},${data.TrendPercentages.Sideways},${data.TrendCounts.Downtrend},${data.TrendPercentages.Downtrend}\n`;
       }
       
-      const containerClient = this.blobServiceClient.getContainerClient(this.containerName);
-      const blockBlobClient = containerClient.getBlockBlobClient(summaryBlobName);
-      
-      await blockBlobClient.upload(summaryContent, summaryContent.length, {
-        blobHTTPHeaders: { blobContentType: 'text/csv' }
-      });
+      await uploadText(summaryBlobName, summaryContent, 'text/csv');
       
       console.log(`✅ Trend summary saved to Azure: ${summaryBlobName}`);
     } catch (error) {
@@ -553,9 +412,9 @@ export class TrendFilterCalculator {
     }
   }
 
-  private printSummary(results: TrendResults): void {
+  private printSummary(results: TrendResults, ruleSetId: string): void {
     console.log('\n' + '='.repeat(60));
-    console.log('TREND FILTER ANALYSIS SUMMARY');
+    console.log(`TREND FILTER ANALYSIS SUMMARY (rule set: ${ruleSetId})`);
     console.log('='.repeat(60));
     
     for (const [period, data] of Object.entries(results.Periods)) {
@@ -583,32 +442,23 @@ export class TrendFilterCalculator {
     console.log('='.repeat(60));
   }
 
-  private async streamToString(readableStream: NodeJS.ReadableStream): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const chunks: any[] = [];
-      readableStream.on('data', (data) => {
-        chunks.push(data.toString());
-      });
-      readableStream.on('end', () => {
-        resolve(chunks.join(''));
-      });
-      readableStream.on('error', reject);
-    });
-  }
-
-  public async generateTrendFilterData(logId?: string | null): Promise<void> {
+  /**
+   * Generate trend data untuk rule set yang diberikan (default: hanya rule set bawaan).
+   * Output rule set default tetap di trend_output/, rule set lain di trend_output/rule_sets/{id}/.
+   */
+  public async generateTrendFilterData(logId?: string | null, ruleSets: TrendRuleSet[] = [DEFAULT_TREND_RULE_SET]): Promise<void> {
     try {
       console.log('🔄 Starting trend filter analysis...');
       console.log('⚠️ Note: This will regenerate all trend data to ensure consistency');
-      
-      const timePeriods = ['3D', '5D', '2W', '1M'];
-      const results = await this.generateTrendAnalysis(timePeriods, logId);
-      
+
+      const resultsByRuleSet = await this.generateTrendAnalysis(ruleSets, logId);
+
       console.log('💾 Saving to Azure...');
-      await this.saveToCSV(results);
-      
-      this.printSummary(results);
-      
+      for (const [ruleSetId, results] of resultsByRuleSet) {
+        await this.saveToCSV(results, ruleSetId);
+        this.printSummary(results, ruleSetId);
+      }
+
       console.log('✅ Trend filter analysis completed successfully!');
       console.log('🔄 Please refresh frontend to see updated data');
     } catch (error) {
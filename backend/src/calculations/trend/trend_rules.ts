@@ -0,0 +1,257 @@
+// trend_rules.ts
+// Trend classification sebagai data: rule set menentukan MA, threshold, kriteria ADX/slope dan periode.
+// Rule set "default" mereproduksi scoring lama TrendFilterCalculator.
+
+export type MovingAverageType = 'SMA' | 'EMA' | 'WMA';
+export type TrendLabel = 'Uptrend' | 'Sideways' | 'Downtrend';
+
+export interface TrendPeriodDefinition {
+  /** Label yang dipakai di API/UI dan nama file output, mis. '5D' */
+  label: string;
+  /** Jumlah bar (hari bursa) yang dianalisis */
+  days: number;
+}
+
+export interface TrendRuleSet {
+  id: string;
+  name: string;
+  description?: string | undefined;
+  periods: TrendPeriodDefinition[];
+  ma: {
+    type: MovingAverageType;
+    /** null = window adaptif seperti rule lama (tergantung panjang periode) */
+    shortWindow: number | null;
+    longWindow: number | null;
+  };
+  /** Perubahan harga (%) sepanjang periode yang dianggap signifikan */
+  changeThresholdPct: number;
+  /** Bandingkan rata-rata N bar terakhir vs N bar sebelumnya; 0 = nonaktif */
+  momentumWindow: number;
+  /** Opsional: ADX >= minAdx => +weight / -weight sesuai arah +DI vs -DI */
+  adx?: { period: number; minAdx: number; weight: number } | undefined;
+  /** Opsional: slope regresi linear close (% per bar terhadap rata-rata harga) */
+  slope?: { window: number; minSlopePct: number; weight: number } | undefined;
+  /** Score >= uptrend => Uptrend, score <= downtrend => Downtrend, selain itu Sideways */
+  scoreThresholds: { uptrend: number; downtrend: number };
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+export interface TrendBar {
+  Date: string;
+  High: number;
+  Low: number;
+  Close: number;
+}
+
+export interface TrendEvaluation {
+  trend: TrendLabel;
+  score: number;
+  changePct: number;
+  latestPrice: number;
+}
+
+export const DEFAULT_TREND_RULE_SET_ID = 'default';
+
+export const DEFAULT_TREND_RULE_SET: TrendRuleSet = {
+  id: DEFAULT_TREND_RULE_SET_ID,
+  name: 'Default',
+  description: 'MA cross + price vs short MA + ±2% change + 3-bar momentum, cutoff ±2',
+  periods: [
+    { label: '3D', days: 3 },
+    { label: '5D', days: 5 },
+    { label: '2W', days: 14 },
+    { label: '1M', days: 30 }
+  ],
+  ma: { type: 'SMA', shortWindow: null, longWindow: null },
+  changeThresholdPct: 2,
+  momentumWindow: 3,
+  scoreThresholds: { uptrend: 2, downtrend: -2 }
+};
+
+function movingAverage(values: number[], window: number, type: MovingAverageType): number {
+  const slice = values.slice(-window);
+  if (slice.length === 0) return 0;
+
+  if (type === 'EMA') {
+    // Seed dengan nilai pertama window agar hasil tetap terdefinisi untuk data pendek
+    const k = 2 / (slice.length + 1);
+    return slice.reduce((ema, value, index) => (index === 0 ? value : value * k + ema * (1 - k)), 0);
+  }
+  if (type === 'WMA') {
+    let weighted = 0;
+    let weights = 0;
+    slice.forEach((value, index) => {
+      weighted += value * (index + 1);
+      weights += index + 1;
+    });
+    return weighted / weights;
+  }
+  return slice.reduce((sum, value) => sum + value, 0) / slice.length;
+}
+
+/**
+ * ADX (Wilder) beserta +DI / -DI pada bar terakhir; null jika data kurang dari 2 * period
+ */
+export function calculateAdx(bars: TrendBar[], period: number): { adx: number; plusDi: number; minusDi: number } | null {
+  if (period < 1 || bars.length < period * 2 + 1) return null;
+
+  const tr: number[] = [];
+  const plusDm: number[] = [];
+  const minusDm: number[] = [];
+  for (let i = 1; i < bars.length; i++) {
+    const current = bars[i]!;
+    const previous = bars[i - 1]!;
+    const upMove = current.High - previous.High;
+    const downMove = previous.Low - current.Low;
+    plusDm.push(upMove > downMove && upMove > 0 ? upMove : 0);
+    minusDm.push(downMove > upMove && downMove > 0 ? downMove : 0);
+    tr.push(Math.max(current.High - current.Low, Math.abs(current.High - previous.Close), Math.abs(current.Low - previous.Close)));
+  }
+
+  let smoothTr = tr.slice(0, period).reduce((a, b) => a + b, 0);
+  let smoothPlus = plusDm.slice(0, period).reduce((a, b) => a + b, 0);
+  let smoothMinus = minusDm.slice(0, period).reduce((a, b) => a + b, 0);
+  const dxValues: number[] = [];
+  let plusDi = 0;
+  let minusDi = 0;
+
+  for (let i = period; i <= tr.length; i++) {
+    if (i > period) {
+      smoothTr = smoothTr - smoothTr / period + tr[i - 1]!;
+      smoothPlus = smoothPlus - smoothPlus / period + plusDm[i - 1]!;
+      smoothMinus = smoothMinus - smoothMinus / period + minusDm[i - 1]!;
+    }
+    plusDi = smoothTr > 0 ? (smoothPlus / smoothTr) * 100 : 0;
+    minusDi = smoothTr > 0 ? (smoothMinus / smoothTr) * 100 : 0;
+    const diSum = plusDi + minusDi;
+    dxValues.push(diSum > 0 ? (Math.abs(plusDi - minusDi) / diSum) * 100 : 0);
+  }
+
+  if (dxValues.length < period) return null;
+  let adx = dxValues.slice(0, period).reduce((a, b) => a + b, 0) / period;
+  for (let i = period; i < dxValues.length; i++) {
+    adx = (adx * (period - 1) + dxValues[i]!) / period;
+  }
+  return { adx, plusDi, minusDi };
+}
+
+/**
+ * Slope regresi linear close, dinyatakan sebagai % per bar terhadap rata-rata harga window
+ */
+export function calculateSlopePct(closes: number[], window: number): number | null {
+  const slice = closes.slice(-window);
+  const n = slice.length;
+  if (n < 2) return null;
+
+  const meanX = (n - 1) / 2;
+  const meanY = slice.reduce((a, b) => a + b, 0) / n;
+  if (meanY === 0) return null;
+
+  let numerator = 0;
+  let denominator = 0;
+  slice.forEach((y, x) => {
+    numerator += (x - meanX) * (y - meanY);
+    denominator += (x - meanX) ** 2;
+  });
+  return denominator > 0 ? (numerator / denominator / meanY) * 100 : 0;
+}
+
+/**
+ * Klasifikasi trend untuk satu periode. `bars` harus urut kronologis (lama -> baru).
+ * Indikator yang butuh lookback (MA, ADX, slope) boleh memakai bar sebelum awal periode.
+ */
+export function evaluateTrend(bars: TrendBar[], periodDays: number, ruleSet: TrendRuleSet): TrendEvaluation | null {
+  if (bars.length < periodDays || periodDays < 1) {
+    return null;
+  }
+
+  const recent = bars.slice(-periodDays);
+  const closes = recent.map(bar => bar.Close);
+  const latestPrice = closes[closes.length - 1];
+  const firstPrice = closes[0];
+  if (!latestPrice || firstPrice === undefined) {
+    return null;
+  }
+
+  const round = (value: number) => parseFloat(value.toFixed(2));
+
+  if (firstPrice === 0) {
+    const changePct = latestPrice > 0 ? 100 : 0;
+    return { trend: changePct > 0 ? 'Uptrend' : 'Sideways', score: 0, changePct, latestPrice: round(latestPrice) };
+  }
+
+  const changePct = ((latestPrice - firstPrice) / firstPrice) * 100;
+  const sign = (value: number) => (value > 0 ? 1 : value < 0 ? -1 : 0);
+
+  const shortWindow = ruleSet.ma.shortWindow ?? Math.min(5, Math.max(1, Math.floor(recent.length / 3)));
+  const longWindow = ruleSet.ma.longWindow ?? Math.min(Math.floor(periodDays / 2), Math.max(1, Math.floor(recent.length / 2)));
+  // MA dihitung dari seluruh bar, bukan hanya periode, supaya window lebih panjang dari periode tetap utuh
+  const allCloses = bars.map(bar => bar.Close);
+  const shortMA = movingAverage(allCloses, Math.max(1, shortWindow), ruleSet.ma.type);
+  const longMA = movingAverage(allCloses, Math.max(1, longWindow), ruleSet.ma.type);
+
+  let score = 0;
+
+  // MA relationship + posisi harga terhadap short MA
+  score += sign(shortMA - longMA);
+  score += sign(latestPrice - shortMA);
+
+  // Perubahan harga sepanjang periode
+  if (changePct > ruleSet.changeThresholdPct) {
+    score += 1;
+  } else if (changePct < -ruleSet.changeThresholdPct) {
+    score -= 1;
+  }
+
+  // Momentum: N bar terakhir vs N bar sebelumnya
+  const m = ruleSet.momentumWindow;
+  if (m > 0 && closes.length >= m * 2) {
+    const recentAvg = closes.slice(-m).reduce((a, b) => a + b, 0) / m;
+    const previousAvg = closes.slice(-m * 2, -m).reduce((a, b) => a + b, 0) / m;
+    score += sign(recentAvg - previousAvg);
+  }
+
+  if (ruleSet.adx) {
+    const adx = calculateAdx(bars, ruleSet.adx.period);
+    if (adx && adx.adx >= ruleSet.adx.minAdx) {
+      score += sign(adx.plusDi - adx.minusDi) * ruleSet.adx.weight;
+    }
+  }
+
+  if (ruleSet.slope) {
+    const slopePct = calculateSlopePct(allCloses, ruleSet.slope.window);
+    if (slopePct !== null && Math.abs(slopePct) >= ruleSet.slope.minSlopePct) {
+      score += sign(slopePct) * ruleSet.slope.weight;
+    }
+  }
+
+  const trend: TrendLabel = score >= ruleSet.scoreThresholds.uptrend
+    ? 'Uptrend'
+    : score <= ruleSet.scoreThresholds.downtrend
+      ? 'Downtrend'
+      : 'Sideways';
+
+  return { trend, score, changePct: round(changePct), latestPrice: round(latestPrice) };
+}
+
+/**
+ * Jumlah bar yang perlu dimuat agar semua periode + indikator rule set bisa dihitung
+ */
+export function getRequiredBars(ruleSet: TrendRuleSet): number {
+  const maxPeriod = Math.max(...ruleSet.periods.map(period => period.days), 1);
+  return Math.max(
+    maxPeriod,
+    ruleSet.ma.shortWindow ?? 0,
+    ruleSet.ma.longWindow ?? 0,
+    ruleSet.adx ? ruleSet.adx.period * 2 + 1 : 0,
+    ruleSet.slope ? ruleSet.slope.window : 0
+  );
+}
+
+/**
+ * Prefix output per rule set. Default tetap di root trend_output/ (dibaca alert & frontend lama).
+ */
+export function getTrendOutputPrefix(ruleSetId: string): string {
+  return ruleSetId === DEFAULT_TREND_RULE_SET_ID ? 'trend_output/' : `trend_output/rule_sets/${ruleSetId}/`;
+}
@@ -1,5 +1,6 @@
 
-import { BlobServiceClient } from '@azure/storage-blob';
+import { downloadText, listPaths, exists } from '../../utils/azureBlob';
+import { adjustStockContent } from '../../services/corporateActionService';
 
 interface StockData {
   Date: string;
@@ -31,9 +32,6 @@ interface EmitenDetail {
 }
 
 export class WatchlistCalculator {
-  private blobServiceClient: any;
-  private containerName: string;
-
   private buildStockLookup(stocks: { sector: string; ticker: string }[]): Map<string, { sector: string; ticker: string }> {
     const lookup = new Map<string, { sector: string; ticker: string }>();
     stocks.forEach((stock) => {
@@ -43,19 +41,9 @@ export class WatchlistCalculator {
     return lookup;
   }
 
-  constructor() {
-    this.blobServiceClient = BlobServiceClient.fromConnectionString(
-      process.env['AZURE_STORAGE_CONNECTION_STRING'] || ''
-    );
-    this.containerName = process.env['AZURE_STORAGE_CONTAINER_NAME'] || 'bandarmolony-data';
-  }
-
   private async loadStockDataFromAzure(sector: string, ticker: string): Promise<StockData[]> {
     try {
       const blobName = `stock/${sector}/${ticker}.csv`;
-      const blobClient = this.blobServiceClient
-        .getContainerClient(this.containerName)
-        .getBlobClient(blobName);
 
       // Retry configuration
       const MAX_RETRIES = 3;
@@ -65,12 +53,11 @@ export class WatchlistCalculator {
       // Retry loop for download
       for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
         try {
-          if (!(await blobClient.exists())) {
+          if (!(await exists(blobName))) {
             return [];
           }
 
-          const downloadResponse = await blobClient.download();
-          csvContent = await this.streamToString(downloadResponse.readableStreamBody!);
+          csvContent = await adjustStockContent(blobName, await downloadText(blobName));
           break; // Success, exit retry loop
         } catch (error: any) {
           const isRetryable = error.name === 'AbortError' ||
@@ -212,16 +199,15 @@ export class WatchlistCalculator {
     const stocks: { sector: string; ticker: string }[] = [];
 
     try {
-      const containerClient = this.blobServiceClient.getContainerClient(this.containerName);
-      const blobs = containerClient.listBlobsFlat({ prefix: 'stock/' });
+      const blobNames = await listPaths({ prefix: 'stock/' });
 
-      for await (const blob of blobs) {
-        const blobName = blob.name;
+      for (const blobName of blobNames) {
         if (blobName.endsWith('.csv') && blobName.includes('/')) {
           const pathParts = blobName.split('/');
-          if (pathParts.length >= 3) {
-            const sector = pathParts[1];
-            const ticker = pathParts[2].replace('.csv', '');
+          const sector = pathParts[1];
+          const fileName = pathParts[2];
+          if (pathParts.length >= 3 && sector && fileName) {
+            const ticker = fileName.replace('.csv', '');
             stocks.push({ sector, ticker });
           }
         }
@@ -240,17 +226,13 @@ export class WatchlistCalculator {
 
     try {
       const blobName = 'csv_input/emiten_detail_list.csv';
-      const blobClient = this.blobServiceClient
-        .getContainerClient(this.containerName)
-        .getBlobClient(blobName);
 
-      if (!(await blobClient.exists())) {
+      if (!(await exists(blobName))) {
         console.warn('⚠️ Warning: emiten_detail_list.csv not found, using ticker as company name');
         return emitenMap;
       }
 
-      const downloadResponse = await blobClient.download();
-      const csvContent = await this.streamToString(downloadResponse.readableStreamBody!);
+      const csvContent = await downloadText(blobName);
       const lines = csvContent.trim().split('\n');
       const headers = lines[0]?.split(',').map(h => h.trim()) || [];
 
@@ -292,19 +274,6 @@ export class WatchlistCalculator {
   }
 
 
-  private async streamToString(readableStream: NodeJS.ReadableStream): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const chunks: any[] = [];
-      readableStream.on('data', (data) => {
-        chunks.push(data.toString());
-      });
-      readableStream.on('end', () => {
-        resolve(chunks.join(''));
-      });
-      readableStream.on('error', reject);
-    });
-  }
-
   /**
    * Get watchlist data for multiple stocks
    * @param symbols Array of stock symbols to get data for
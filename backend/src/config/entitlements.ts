@@ -0,0 +1,114 @@
+// Mapping plan → fitur untuk gating server-side pada router market-data.
+// Default bisa di-override lewat env ENTITLEMENTS_CONFIG (JSON), contoh:
+//   {"plans":{"Free":["technical_analysis"],"Plus":["*"]},"trialPlan":"Pro"}
+
+export const FEATURES = [
+  'market_rotation',
+  'broker_activity',
+  'stock_transaction',
+  'story',
+  'technical_analysis',
+  'watchlist',
+  'backtest',
+  // Export bulk dataset ke CSV/XLSX/Parquet
+  'data_export',
+  // Akses data via personal API key (X-API-Key), di luar UI
+  'api_access'
+] as const;
+
+export type Feature = typeof FEATURES[number];
+
+export interface EntitlementConfig {
+  /** Plan name (sesuai users.subscription_plan) → daftar fitur, '*' = semua fitur */
+  plans: Record<string, string[]>;
+  /** Plan yang dipakai saat subscription_status = 'trial' */
+  trialPlan: string;
+  /** Role yang selalu lolos tanpa cek plan */
+  bypassRoles: string[];
+}
+
+/**
+ * Prefix route (relatif terhadap /api) → fitur.
+ * Dipakai di index.ts saat mount router dan diekspos ke frontend via /api/me/entitlements
+ */
+export const ROUTE_FEATURES: Record<string, Feature> = {
+  'rrg': 'market_rotation',
+  'rrc': 'market_rotation',
+  'seasonality': 'market_rotation',
+  'trend-filter': 'market_rotation',
+  'market-breadth': 'market_rotation',
+  'broker': 'broker_activity',
+  'broker-breakdown': 'broker_activity',
+  'broker-summary': 'broker_activity',
+  'broker-inventory': 'broker_activity',
+  'broker-clusters': 'broker_activity',
+  'top-broker': 'broker_activity',
+  'done-summary': 'stock_transaction',
+  'break-done-trade': 'stock_transaction',
+  'bidask': 'stock_transaction',
+  'accumulation': 'story',
+  'foreign': 'story',
+  'moneyflow': 'story',
+  'holding': 'story',
+  'shareholders': 'story',
+  'stock': 'technical_analysis',
+  'stock-list': 'technical_analysis',
+  'sector-ohlc-price': 'technical_analysis',
+  'watchlist': 'watchlist',
+  'backtest': 'backtest',
+  'export': 'data_export'
+};
+
+const DEFAULT_ENTITLEMENTS: EntitlementConfig = {
+  plans: {
+    Free: [],
+    Plus: ['market_rotation', 'broker_activity', 'stock_transaction', 'story', 'technical_analysis', 'watchlist', 'backtest', 'data_export'],
+    Premium: ['*'],
+    Pro: ['*']
+  },
+  trialPlan: 'Pro',
+  bypassRoles: ['admin', 'developer']
+};
+
+function loadEntitlements(): EntitlementConfig {
+  const raw = process.env['ENTITLEMENTS_CONFIG'];
+  if (!raw || !raw.trim()) {
+    return DEFAULT_ENTITLEMENTS;
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    const plans: Record<string, string[]> = {};
+    if (parsed?.plans && typeof parsed.plans === 'object') {
+      for (const [plan, features] of Object.entries(parsed.plans)) {
+        if (Array.isArray(features)) {
+          plans[plan] = features.filter((f): f is string => typeof f === 'string');
+        }
+      }
+    }
+
+    return {
+      plans: Object.keys(plans).length > 0 ? plans : DEFAULT_ENTITLEMENTS.plans,
+      trialPlan: typeof parsed?.trialPlan === 'string' ? parsed.trialPlan : DEFAULT_ENTITLEMENTS.trialPlan,
+      bypassRoles: Array.isArray(parsed?.bypassRoles)
+        ? parsed.bypassRoles.filter((r: unknown): r is string => typeof r === 'string')
+        : DEFAULT_ENTITLEMENTS.bypassRoles
+    };
+  } catch (error) {
+    console.error('⚠️ ENTITLEMENTS_CONFIG is not valid JSON, using default plan mapping:', error);
+    return DEFAULT_ENTITLEMENTS;
+  }
+}
+
+export const entitlements: EntitlementConfig = loadEntitlements();
+
+export function planHasFeature(plan: string | null | undefined, feature: Feature): boolean {
+  const features = plan ? entitlements.plans[plan] : undefined;
+  if (!features) return false;
+  return features.includes('*') || features.includes(feature);
+}
+
+/** Plan apa saja yang membuka fitur ini (untuk pesan upgrade di frontend) */
+export function plansWithFeature(feature: Feature): string[] {
+  return Object.keys(entitlements.plans).filter(plan => planHasFeature(plan, feature));
+}
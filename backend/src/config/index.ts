@@ -101,6 +101,16 @@ export const config = {
   // External Services
   AZURE_STORAGE_CONNECTION_STRING: process.env['AZURE_STORAGE_CONNECTION_STRING'] || '',
   AZURE_STORAGE_CONTAINER_NAME: process.env['AZURE_STORAGE_CONTAINER_NAME'] || '',
+
+  // Storage Driver - 'azure' (default) atau 'local' untuk development/test tanpa Azure
+  STORAGE_DRIVER: process.env['STORAGE_DRIVER'] || 'azure',
+  LOCAL_STORAGE_ROOT: process.env['LOCAL_STORAGE_ROOT'] || './local-storage',
+
+  // Alert Delivery - 'stub' (default, tidak kirim keluar) atau 'live'
+  ALERT_DELIVERY_TRANSPORT: process.env['ALERT_DELIVERY_TRANSPORT'] || 'stub',
+  ALERT_EMAIL_API_URL: process.env['ALERT_EMAIL_API_URL'] || '',
+  ALERT_EMAIL_API_KEY: process.env['ALERT_EMAIL_API_KEY'] || '',
+  ALERT_EMAIL_FROM: process.env['ALERT_EMAIL_FROM'] || '',
 };
 
 export default config;
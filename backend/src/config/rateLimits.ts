@@ -0,0 +1,98 @@
+// Konfigurasi token bucket untuk rate limiting API.
+// Tiap bucket: `capacity` token (burst maksimal), diisi ulang `refillPerMinute` token per menit.
+// Default bisa di-override lewat env RATE_LIMIT_CONFIG (JSON), contoh:
+//   {"plans":{"Plus":{"capacity":120,"refillPerMinute":60}},"costs":[{"pattern":"^/api/stock/data","cost":3}]}
+
+export interface BucketConfig {
+  capacity: number;
+  refillPerMinute: number;
+}
+
+export interface RouteCost {
+  /** Regex terhadap path request (tanpa query string), mis. ^/api/stock/data */
+  pattern: string;
+  cost: number;
+}
+
+export interface RateLimitConfig {
+  enabled: boolean;
+  /** Bucket per IP untuk semua request /api (sebelum autentikasi) */
+  ip: BucketConfig;
+  /** Bucket per user / per API key, berdasarkan plan efektif */
+  plans: Record<string, BucketConfig>;
+  /** Bucket untuk role admin/developer */
+  privileged: BucketConfig;
+  /** Cost default 1 token; endpoint berat punya bobot sendiri (pattern pertama yang cocok dipakai) */
+  costs: RouteCost[];
+}
+
+const DEFAULT_RATE_LIMITS: RateLimitConfig = {
+  enabled: true,
+  ip: { capacity: 300, refillPerMinute: 300 },
+  plans: {
+    Free: { capacity: 30, refillPerMinute: 30 },
+    Plus: { capacity: 120, refillPerMinute: 120 },
+    Premium: { capacity: 240, refillPerMinute: 240 },
+    Pro: { capacity: 600, refillPerMinute: 600 }
+  },
+  privileged: { capacity: 2000, refillPerMinute: 2000 },
+  costs: [
+    { pattern: '^/api/bidask/frequency/download/', cost: 20 },
+    { pattern: '^/api/bidask/download/', cost: 10 },
+    { pattern: '^/api/backtest/run', cost: 20 },
+    { pattern: '^/api/export/?$', cost: 20 },
+    { pattern: '^/api/stock/data(/|$)', cost: 5 },
+    { pattern: '^/api/done-summary/batch/', cost: 5 }
+  ]
+};
+
+function isBucket(value: any): value is BucketConfig {
+  return value
+    && Number.isFinite(value.capacity) && value.capacity > 0
+    && Number.isFinite(value.refillPerMinute) && value.refillPerMinute > 0;
+}
+
+function loadRateLimits(): RateLimitConfig {
+  const raw = process.env['RATE_LIMIT_CONFIG'];
+  const enabled = process.env['RATE_LIMIT_ENABLED'] !== 'false';
+  if (!raw || !raw.trim()) {
+    return { ...DEFAULT_RATE_LIMITS, enabled };
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    const plans: Record<string, BucketConfig> = { ...DEFAULT_RATE_LIMITS.plans };
+    if (parsed?.plans && typeof parsed.plans === 'object') {
+      for (const [plan, bucket] of Object.entries(parsed.plans)) {
+        if (isBucket(bucket)) plans[plan] = bucket;
+      }
+    }
+
+    const costs: RouteCost[] = Array.isArray(parsed?.costs)
+      ? parsed.costs.filter((c: any) => typeof c?.pattern === 'string' && Number.isFinite(c?.cost) && c.cost > 0)
+      : DEFAULT_RATE_LIMITS.costs;
+
+    return {
+      enabled,
+      ip: isBucket(parsed?.ip) ? parsed.ip : DEFAULT_RATE_LIMITS.ip,
+      plans,
+      privileged: isBucket(parsed?.privileged) ? parsed.privileged : DEFAULT_RATE_LIMITS.privileged,
+      costs
+    };
+  } catch (error) {
+    console.error('⚠️ RATE_LIMIT_CONFIG is not valid JSON, using default rate limits:', error);
+    return { ...DEFAULT_RATE_LIMITS, enabled };
+  }
+}
+
+export const rateLimits: RateLimitConfig = loadRateLimits();
+
+const compiledCosts = rateLimits.costs.map(c => ({ regex: new RegExp(c.pattern), cost: c.cost }));
+
+export function costForPath(path: string): number {
+  return compiledCosts.find(c => c.regex.test(path))?.cost ?? 1;
+}
+
+export function bucketForPlan(plan: string): BucketConfig {
+  return rateLimits.plans[plan] || rateLimits.plans['Free'] || DEFAULT_RATE_LIMITS.plans['Free']!;
+}
@@ -28,19 +28,33 @@ import topBrokerRoutes from './routes/top-broker';
 import watchlistRoutes from './routes/watchlist';
 import brokerSummaryRoutes from './routes/broker-summary';
 import brokerInventoryRoutes from './routes/broker_inventory';
+import brokerClusterRoutes from './routes/brokerClusters';
+import marketBreadthRoutes from './routes/marketBreadth';
 import sectorOhlcPriceRoutes from './routes/sector_ohlc_price';
 import publicRoutes from './routes/public';
+import alertRoutes from './routes/alerts';
+import backtestRoutes from './routes/backtest';
+import apiKeyRoutes from './routes/apiKeys';
+import exportRoutes from './routes/export';
 import { requireSupabaseUser } from './middleware/requireSupabaseUser';
-import { securityHeaders, sanitizeInput } from './middleware/security';
+import { requireRouteEntitlement } from './middleware/entitlements';
+import { securityHeaders, sanitizeInput, generalRateLimit, planRateLimit } from './middleware/security';
 import { createErrorResponse, ERROR_CODES, HTTP_STATUS } from './utils/responseUtils';
 
 // Scheduler for daily updates
 import { startScheduler } from './services/scheduler';
 import { initializeAzureLogging } from './services/azureLoggingService';
 import { startSubscriptionExpiryChecker } from './services/subscriptionExpiry';
+import { brokerInventoryScreener } from './services/brokerInventoryScreener';
+import { ApiKeyManager } from './utils/apiKeyManager';
 
 const app = express();
 
+// Backend jalan di belakang IIS/Azure front end: tanpa ini req.ip = alamat proxy untuk semua request
+// dan semua user berbagi satu bucket rate limit. Jumlah hop bisa diatur lewat TRUST_PROXY_HOPS.
+const trustProxyHops = Number.parseInt(process.env['TRUST_PROXY_HOPS'] || '1', 10);
+app.set('trust proxy', Number.isFinite(trustProxyHops) && trustProxyHops >= 0 ? trustProxyHops : 1);
+
 // Security middleware
 app.use(securityHeaders);
 app.use(sanitizeInput);
@@ -66,12 +80,16 @@ app.use(cors({
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS', 'PATCH'],
   allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-Midtrans-Signature'],
+  exposedHeaders: ['RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'RateLimit-Policy', 'Retry-After', 'Content-Disposition', 'X-Export-Rows', 'X-Export-Files'],
   optionsSuccessStatus: 200
 }));
 
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
+// Rate limit per IP untuk semua endpoint API (kuota per plan dipasang per router data di bawah)
+app.use('/api', generalRateLimit);
+
 // routes publik
 app.use('/health', healthRoutes);
 app.use('/api', demoRoutes);
@@ -81,28 +99,34 @@ app.use('/api/public', publicRoutes); // Public routes (no auth) - for GitHub Ac
 app.use('/api/admin', adminRoutes);
 app.use('/api/developer', developerRoutes);
 app.use('/api/subscription', subscriptionRoutes);
-app.use('/api/rrc', rrcRoutes);
-app.use('/api/rrg', rrgRoutes);
+app.use('/api/api-keys', apiKeyRoutes);
+app.use('/api/rrc', requireRouteEntitlement('rrc'), planRateLimit, rrcRoutes);
+app.use('/api/rrg', requireRouteEntitlement('rrg'), planRateLimit, rrgRoutes);
 app.use('/api/trigger', triggerRoutes);
-app.use('/api/seasonality', seasonalityRoutes);
-app.use('/api/trend-filter', trendFilterRoutes);
-app.use('/api/accumulation', accumulationRoutes);
-app.use('/api/bidask', bidAskRoutes);
-app.use('/api/broker', brokerRoutes);
-app.use('/api/broker-breakdown', brokerBreakdownRoutes);
-app.use('/api/foreign', foreignRoutes);
-app.use('/api/moneyflow', moneyFlowRoutes);
-app.use('/api/stock', stockRoutes);
-app.use('/api/stock-list', stockRoutes); // Use same router, different endpoints
-app.use('/api/holding', holdingRoutes);
-app.use('/api/shareholders', shareholdersRoutes);
-app.use('/api/done-summary', doneSummaryRoutes);
-app.use('/api/break-done-trade', breakDoneTradeRoutes);
-app.use('/api/top-broker', topBrokerRoutes);
-app.use('/api/watchlist', watchlistRoutes);
-app.use('/api/broker-summary', brokerSummaryRoutes);
-app.use('/api/broker-inventory', brokerInventoryRoutes);
-app.use('/api/sector-ohlc-price', sectorOhlcPriceRoutes);
+app.use('/api/seasonality', requireRouteEntitlement('seasonality'), planRateLimit, seasonalityRoutes);
+app.use('/api/trend-filter', requireRouteEntitlement('trend-filter'), planRateLimit, trendFilterRoutes);
+app.use('/api/accumulation', requireRouteEntitlement('accumulation'), planRateLimit, accumulationRoutes);
+app.use('/api/bidask', requireRouteEntitlement('bidask'), planRateLimit, bidAskRoutes);
+app.use('/api/broker', requireRouteEntitlement('broker'), planRateLimit, brokerRoutes);
+app.use('/api/broker-breakdown', requireRouteEntitlement('broker-breakdown'), planRateLimit, brokerBreakdownRoutes);
+app.use('/api/foreign', requireRouteEntitlement('foreign'), planRateLimit, foreignRoutes);
+app.use('/api/moneyflow', requireRouteEntitlement('moneyflow'), planRateLimit, moneyFlowRoutes);
+app.use('/api/stock', requireRouteEntitlement('stock'), planRateLimit, stockRoutes);
+app.use('/api/stock-list', requireRouteEntitlement('stock-list'), planRateLimit, stockRoutes); // Use same router, different endpoints
+app.use('/api/holding', requireRouteEntitlement('holding'), planRateLimit, holdingRoutes);
+app.use('/api/shareholders', requireRouteEntitlement('shareholders'), planRateLimit, shareholdersRoutes);
+app.use('/api/done-summary', requireRouteEntitlement('done-summary'), planRateLimit, doneSummaryRoutes);
+app.use('/api/break-done-trade', requireRouteEntitlement('break-done-trade'), planRateLimit, breakDoneTradeRoutes);
+app.use('/api/top-broker', requireRouteEntitlement('top-broker'), planRateLimit, topBrokerRoutes);
+app.use('/api/watchlist', requireRouteEntitlement('watchlist', { publicPaths: [/^\/shared\//] }), planRateLimit, watchlistRoutes);
+app.use('/api/broker-summary', requireRouteEntitlement('broker-summary'), planRateLimit, brokerSummaryRoutes);
+app.use('/api/broker-inventory', requireRouteEntitlement('broker-inventory'), planRateLimit, brokerInventoryRoutes);
+app.use('/api/broker-clusters', requireRouteEntitlement('broker-clusters'), planRateLimit, brokerClusterRoutes);
+app.use('/api/market-breadth', requireRouteEntitlement('market-breadth'), planRateLimit, marketBreadthRoutes);
+app.use('/api/sector-ohlc-price', requireRouteEntitlement('sector-ohlc-price'), planRateLimit, sectorOhlcPriceRoutes);
+app.use('/api/alerts', alertRoutes);
+app.use('/api/backtest', requireRouteEntitlement('backtest'), planRateLimit, backtestRoutes);
+app.use('/api/export', requireRouteEntitlement('export'), planRateLimit, exportRoutes);
 
 // contoh protected route pakai Supabase Auth token
 app.get('/me', requireSupabaseUser, (req: any, res) => {
@@ -151,6 +175,16 @@ process.on('uncaughtException', (error: Error) => {
   console.warn('⚠️ Continuing execution despite uncaught exception...');
 });
 
+// Pemakaian API key di-buffer di memory; flush dulu sebelum proses berhenti (deploy/restart kirim SIGTERM)
+const shutdown = (signal: NodeJS.Signals) => {
+  console.log(`🛑 Received ${signal}, flushing API key usage before exit...`);
+  ApiKeyManager.flushUsage()
+    .catch(error => console.error('❌ Failed to flush API key usage on shutdown:', error))
+    .finally(() => process.exit(0));
+};
+process.once('SIGTERM', shutdown);
+process.once('SIGINT', shutdown);
+
 const PORT = parseInt(config.PORT) || 3001;
 const HOST = process.env['HOST'] || '0.0.0.0'; // Listen on all interfaces to allow access from public IP
 app.listen(PORT, HOST, async () => {
@@ -173,4 +207,7 @@ app.listen(PORT, HOST, async () => {
   // Start subscription expiry checker
   console.log('⏰ Starting subscription expiry checker...');
   startSubscriptionExpiryChecker();
+
+  // Index screener broker inventory dibangun di background, bukan saat request pertama
+  brokerInventoryScreener.refresh();
 });
@@ -0,0 +1,224 @@
+import { supabaseAdmin } from '../supabaseClient';
+import { requireSupabaseUser } from './requireSupabaseUser';
+import { ApiKeyManager } from '../utils/apiKeyManager';
+import { createErrorResponse, ERROR_CODES, HTTP_STATUS } from '../utils/responseUtils';
+import { entitlements, planHasFeature, plansWithFeature, FEATURES, Feature, ROUTE_FEATURES } from '../config/entitlements';
+
+export interface UserEntitlement {
+  role: string;
+  isActive: boolean;
+  subscriptionStatus: string;
+  /** Plan yang berlaku sekarang (trial/expired sudah diperhitungkan) */
+  plan: string;
+  subscriptionEndDate: string | null;
+  features: Feature[];
+}
+
+// Profil subscription di-cache sebentar supaya tiap request data tidak selalu query ke users
+const CACHE_TTL_MS = 30 * 1000;
+const entitlementCache = new Map<string, { value: UserEntitlement; expiresAt: number }>();
+
+export function invalidateEntitlementCache(userId?: string): void {
+  if (userId) {
+    entitlementCache.delete(userId);
+  } else {
+    entitlementCache.clear();
+  }
+}
+
+/**
+ * Resolve plan efektif user dari tabel users.
+ * Status active/trial dengan end date yang sudah lewat dianggap Free.
+ */
+export async function resolveEntitlement(userId: string): Promise<UserEntitlement> {
+  const cached = entitlementCache.get(userId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.value;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('users')
+    .select('role, is_active, subscription_status, subscription_plan, subscription_end_date')
+    .eq('id', userId)
+    .single();
+
+  if (error || !data) {
+    throw error || new Error('User profile not found');
+  }
+
+  const role = data.role || 'user';
+  const status = data.subscription_status || 'inactive';
+  const endDate: string | null = data.subscription_end_date || null;
+  const notExpired = !endDate || new Date(endDate).getTime() > Date.now();
+
+  let plan = 'Free';
+  if (entitlements.bypassRoles.includes(role)) {
+    plan = data.subscription_plan || 'Pro';
+  } else if (status === 'trial' && notExpired) {
+    plan = data.subscription_plan || entitlements.trialPlan;
+  } else if (status === 'active' && notExpired) {
+    plan = data.subscription_plan || 'Free';
+  }
+
+  const features = entitlements.bypassRoles.includes(role)
+    ? [...FEATURES]
+    : FEATURES.filter(feature => planHasFeature(plan, feature));
+
+  const value: UserEntitlement = {
+    role,
+    isActive: data.is_active !== false,
+    subscriptionStatus: status,
+    plan,
+    subscriptionEndDate: endDate,
+    features
+  };
+
+  entitlementCache.set(userId, { value, expiresAt: Date.now() + CACHE_TTL_MS });
+  return value;
+}
+
+interface EntitlementOptions {
+  /** Path (relatif terhadap mount point) yang tetap publik, mis. link watchlist yang di-share */
+  publicPaths?: RegExp[];
+}
+
+/**
+ * Kirim 402/403 jika entitlement tidak mencakup fitur. Return true kalau request sudah dijawab.
+ */
+export function rejectIfNotEntitled(res: any, entitlement: UserEntitlement, feature: Feature): boolean {
+  if (!entitlement.isActive) {
+    res.status(HTTP_STATUS.FORBIDDEN).json(createErrorResponse(
+      'Your account is inactive. Please contact support.',
+      ERROR_CODES.ACCOUNT_SUSPENDED,
+      undefined,
+      HTTP_STATUS.FORBIDDEN
+    ));
+    return true;
+  }
+
+  if (entitlement.features.includes(feature)) {
+    return false;
+  }
+
+  const details = {
+    feature,
+    currentPlan: entitlement.plan,
+    subscriptionStatus: entitlement.subscriptionStatus,
+    allowedPlans: plansWithFeature(feature)
+  };
+
+  if (entitlement.plan === 'Free') {
+    res.status(HTTP_STATUS.PAYMENT_REQUIRED).json({
+      ...createErrorResponse(
+        'An active subscription is required to access this feature.',
+        ERROR_CODES.SUBSCRIPTION_REQUIRED,
+        undefined,
+        HTTP_STATUS.PAYMENT_REQUIRED
+      ),
+      details
+    });
+    return true;
+  }
+
+  res.status(HTTP_STATUS.FORBIDDEN).json({
+    ...createErrorResponse(
+      `Your ${entitlement.plan} plan does not include this feature.`,
+      ERROR_CODES.FEATURE_NOT_IN_PLAN,
+      undefined,
+      HTTP_STATUS.FORBIDDEN
+    ),
+    details
+  });
+  return true;
+}
+
+/**
+ * API key bisa dikirim lewat header X-API-Key atau Authorization: Bearer gk_...
+ */
+function extractApiKey(req: any): string | null {
+  const headerKey = req.headers['x-api-key'];
+  if (typeof headerKey === 'string' && headerKey.trim()) {
+    return headerKey.trim();
+  }
+  const auth: string = req.headers.authorization || '';
+  const bearer = auth.startsWith('Bearer ') ? auth.slice(7).trim() : '';
+  return ApiKeyManager.isApiKey(bearer) ? bearer : null;
+}
+
+function sendServerError(res: any, feature: Feature, error: unknown) {
+  console.error(`requireEntitlement(${feature}) error:`, error);
+  return res.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).json(createErrorResponse(
+    'Failed to verify subscription. Please try again later.',
+    ERROR_CODES.INTERNAL_SERVER_ERROR,
+    undefined,
+    HTTP_STATUS.INTERNAL_SERVER_ERROR
+  ));
+}
+
+/**
+ * Middleware gating fitur berbayar.
+ * 401 jika belum login, 403 jika akun nonaktif / plan tidak mencakup fitur,
+ * 402 jika tidak punya subscription aktif sama sekali.
+ * Selain session Supabase, request juga bisa diautentikasi dengan personal API key
+ * selama plan user mencakup fitur api_access.
+ */
+export function requireEntitlement(feature: Feature, options: EntitlementOptions = {}) {
+  return async (req: any, res: any, next: any) => {
+    if (options.publicPaths?.some(pattern => pattern.test(req.path))) {
+      return next();
+    }
+
+    const apiKey = extractApiKey(req);
+    if (apiKey) {
+      try {
+        const identity = await ApiKeyManager.authenticate(apiKey);
+        if (!identity) {
+          return res.status(HTTP_STATUS.UNAUTHORIZED).json(createErrorResponse(
+            'Invalid or revoked API key',
+            ERROR_CODES.INVALID_API_KEY,
+            undefined,
+            HTTP_STATUS.UNAUTHORIZED
+          ));
+        }
+
+        const entitlement = await resolveEntitlement(identity.userId);
+        if (rejectIfNotEntitled(res, entitlement, 'api_access') || rejectIfNotEntitled(res, entitlement, feature)) {
+          return;
+        }
+
+        req.user = { id: identity.userId, role: entitlement.role, authMethod: 'api_key', apiKeyId: identity.keyId };
+        req.entitlement = entitlement;
+        ApiKeyManager.recordUsage(identity.keyId, req.ip);
+        return next();
+      } catch (error) {
+        return sendServerError(res, feature, error);
+      }
+    }
+
+    return requireSupabaseUser(req, res, async () => {
+      try {
+        const entitlement = await resolveEntitlement(req.user.id);
+        req.entitlement = entitlement;
+
+        if (rejectIfNotEntitled(res, entitlement, feature)) {
+          return;
+        }
+        return next();
+      } catch (error) {
+        return sendServerError(res, feature, error);
+      }
+    });
+  };
+}
+
+/**
+ * Shortcut untuk mount router di index.ts: fitur diambil dari ROUTE_FEATURES
+ * supaya mapping yang dipakai server sama dengan yang diekspos ke frontend.
+ */
+export function requireRouteEntitlement(routePrefix: string, options: EntitlementOptions = {}) {
+  const feature = ROUTE_FEATURES[routePrefix];
+  if (!feature) {
+    throw new Error(`No entitlement feature mapped for /api/${routePrefix}`);
+  }
+  return requireEntitlement(feature, options);
+}
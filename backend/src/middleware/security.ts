@@ -1,4 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
+import { rateLimits, costForPath, bucketForPlan, BucketConfig } from '../config/rateLimits';
+import { entitlements } from '../config/entitlements';
+import { getRateLimitStore, RateLimitResult } from '../utils/rateLimitStore';
+import { createErrorResponse, ERROR_CODES, HTTP_STATUS } from '../utils/responseUtils';
 
 /**
  * Security middleware to add security headers
@@ -30,14 +34,94 @@ export function securityHeaders(req: Request, res: Response, next: NextFunction)
   next();
 }
 
+function requestPath(req: Request): string {
+  return (req.originalUrl || req.url).split('?')[0] || '/';
+}
+
+function setRateLimitHeaders(res: Response, result: RateLimitResult, bucket: BucketConfig) {
+  // Header standar (draft IETF RateLimit header fields)
+  res.setHeader('RateLimit-Limit', String(result.limit));
+  res.setHeader('RateLimit-Remaining', String(result.remaining));
+  res.setHeader('RateLimit-Reset', String(result.resetSeconds));
+  res.setHeader('RateLimit-Policy', `${bucket.capacity};w=${Math.round(bucket.capacity / bucket.refillPerMinute * 60)}`);
+}
+
+async function consumeOrReject(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  key: string,
+  bucket: BucketConfig
+) {
+  try {
+    const cost = costForPath(requestPath(req));
+    const result = await getRateLimitStore().consume(key, cost, bucket);
+    setRateLimitHeaders(res, result, bucket);
+
+    if (!result.allowed) {
+      res.setHeader('Retry-After', String(result.retryAfterSeconds));
+      return res.status(HTTP_STATUS.TOO_MANY_REQUESTS).json({
+        ...createErrorResponse(
+          `Rate limit exceeded. Try again in ${result.retryAfterSeconds}s.`,
+          ERROR_CODES.RATE_LIMITED,
+          undefined,
+          HTTP_STATUS.TOO_MANY_REQUESTS
+        ),
+        details: { limit: result.limit, cost, retryAfterSeconds: result.retryAfterSeconds }
+      });
+    }
+    return next();
+  } catch (error) {
+    // Store bermasalah jangan sampai memblokir semua request (fail open)
+    console.error('Rate limit store error:', error);
+    return next();
+  }
+}
+
+/**
+ * IP client untuk key bucket. Azure front end menulis X-Forwarded-For sebagai "ip:port",
+ * port-nya dibuang supaya satu client tidak dapat bucket baru di setiap koneksi.
+ */
+function clientIp(req: Request): string {
+  const ip = req.ip || 'unknown';
+  const ipv4WithPort = ip.match(/^(\d{1,3}(?:\.\d{1,3}){3}):\d+$/);
+  if (ipv4WithPort) return ipv4WithPort[1]!;
+  const ipv6WithPort = ip.match(/^\[([^\]]+)\]:\d+$/);
+  return ipv6WithPort ? ipv6WithPort[1]! : ip;
+}
+
 /**
  * Rate limiting middleware for general API endpoints
+ * Token bucket per IP, dipasang sebelum autentikasi
  */
-export function generalRateLimit(_req: Request, _res: Response, next: NextFunction) {
-  // Simple in-memory rate limiting (for production, use Redis)
-  // This is a simplified implementation
-  // In production, use a proper rate limiting library like express-rate-limit
-  next();
+export function generalRateLimit(req: Request, res: Response, next: NextFunction) {
+  if (!rateLimits.enabled || req.method === 'OPTIONS') {
+    return next();
+  }
+  return consumeOrReject(req, res, next, `ip:${clientIp(req)}`, rateLimits.ip);
+}
+
+/**
+ * Rate limiting per user / per API key dengan kuota sesuai plan.
+ * Dipasang setelah requireEntitlement (butuh req.user & req.entitlement);
+ * request tanpa user (mis. link watchlist publik) jatuh ke bucket Free per IP.
+ */
+export function planRateLimit(req: Request, res: Response, next: NextFunction) {
+  if (!rateLimits.enabled) {
+    return next();
+  }
+
+  const user = (req as any).user;
+  const entitlement = (req as any).entitlement;
+  if (!user || !entitlement) {
+    return consumeOrReject(req, res, next, `anon:${clientIp(req)}`, bucketForPlan('Free'));
+  }
+
+  const key = user.apiKeyId ? `apikey:${user.apiKeyId}` : `user:${user.id}`;
+  const bucket = entitlements.bypassRoles.includes(entitlement.role)
+    ? rateLimits.privileged
+    : bucketForPlan(entitlement.plan);
+  return consumeOrReject(req, res, next, key, bucket);
 }
 
 /**
@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import { supabaseAdmin } from '../supabaseClient';
 import { createSuccessResponse, createErrorResponse, ERROR_CODES, HTTP_STATUS } from '../utils/responseUtils';
+import { sectorTaxonomy, SectorTaxonomyValidationError, IDX_IC_SECTORS, UNCLASSIFIED_SECTOR } from '../services/sectorTaxonomyService';
+import { corporateActions, CorporateActionValidationError, CORPORATE_ACTION_TYPES } from '../services/corporateActionService';
 
 const router = Router();
 
@@ -963,4 +965,209 @@ router.post('/users/create', requireAdmin, async (req: any, res) => {
   }
 });
 
+/**
+ * GET /api/admin/sector-mapping
+ * Semua klasifikasi IDX-IC + ticker Unclassified + status recompute sektor
+ */
+router.get('/sector-mapping', requireAdmin, async (_req, res) => {
+  try {
+    await sectorTaxonomy.load(true);
+    const [classifications, unclassified] = await Promise.all([
+      sectorTaxonomy.listClassifications(),
+      sectorTaxonomy.getUnclassifiedTickers()
+    ]);
+
+    return res.json(createSuccessResponse({
+      sectors: IDX_IC_SECTORS,
+      classifications,
+      unclassified: { sector: UNCLASSIFIED_SECTOR, tickers: unclassified },
+      recompute: sectorTaxonomy.getRecomputeStatus()
+    }));
+  } catch (error: any) {
+    console.error('Get sector mapping error:', error);
+    return res.status(500).json(createErrorResponse(
+      'Failed to load sector mapping',
+      ERROR_CODES.INTERNAL_SERVER_ERROR,
+      undefined,
+      HTTP_STATUS.INTERNAL_SERVER_ERROR
+    ));
+  }
+});
+
+/**
+ * PUT /api/admin/sector-mapping/:ticker
+ * Body: { sector, subSector?, industry? }
+ * File stock dipindah ke folder sektor baru; calculator sektor dijadwalkan ulang (debounced)
+ */
+router.put('/sector-mapping/:ticker', requireAdmin, async (req: any, res) => {
+  try {
+    const { sector, subSector, industry } = req.body || {};
+    if (typeof sector !== 'string' || !sector.trim()) {
+      return res.status(400).json(createErrorResponse(
+        'sector is required',
+        ERROR_CODES.VALIDATION_ERROR,
+        'sector',
+        HTTP_STATUS.BAD_REQUEST
+      ));
+    }
+
+    const result = await sectorTaxonomy.setClassification(
+      req.params.ticker,
+      {
+        sector,
+        subSector: typeof subSector === 'string' ? subSector : '',
+        industry: typeof industry === 'string' ? industry : ''
+      },
+      req.user?.email || req.user?.id || 'admin'
+    );
+
+    return res.json(createSuccessResponse({
+      ...result,
+      recompute: sectorTaxonomy.getRecomputeStatus()
+    }, 'Sector mapping updated'));
+  } catch (error: any) {
+    if (error instanceof SectorTaxonomyValidationError) {
+      return res.status(400).json(createErrorResponse(
+        error.message,
+        ERROR_CODES.VALIDATION_ERROR,
+        undefined,
+        HTTP_STATUS.BAD_REQUEST
+      ));
+    }
+    console.error('Update sector mapping error:', error);
+    return res.status(500).json(createErrorResponse(
+      'Failed to update sector mapping',
+      ERROR_CODES.INTERNAL_SERVER_ERROR,
+      undefined,
+      HTTP_STATUS.INTERNAL_SERVER_ERROR
+    ));
+  }
+});
+
+/**
+ * DELETE /api/admin/sector-mapping/:ticker
+ * Kembalikan ticker ke bucket Unclassified
+ */
+router.delete('/sector-mapping/:ticker', requireAdmin, async (req: any, res) => {
+  try {
+    const previous = await sectorTaxonomy.removeClassification(req.params.ticker, req.user?.email || req.user?.id || 'admin');
+    if (!previous) {
+      return res.status(404).json(createErrorResponse(
+        'Ticker is not classified',
+        ERROR_CODES.NOT_FOUND,
+        undefined,
+        HTTP_STATUS.NOT_FOUND
+      ));
+    }
+    return res.json(createSuccessResponse({
+      previous,
+      recompute: sectorTaxonomy.getRecomputeStatus()
+    }, 'Ticker moved to Unclassified'));
+  } catch (error: any) {
+    console.error('Delete sector mapping error:', error);
+    return res.status(500).json(createErrorResponse(
+      'Failed to update sector mapping',
+      ERROR_CODES.INTERNAL_SERVER_ERROR,
+      undefined,
+      HTTP_STATUS.INTERNAL_SERVER_ERROR
+    ));
+  }
+});
+
+/**
+ * POST /api/admin/sector-mapping/recompute
+ * Jalankan recompute calculator sektor sekarang (tanpa menunggu debounce)
+ */
+router.post('/sector-mapping/recompute', requireAdmin, async (req: any, res) => {
+  sectorTaxonomy.scheduleSectorRecompute(req.user?.email || req.user?.id || 'admin', 0);
+  return res.json(createSuccessResponse(sectorTaxonomy.getRecomputeStatus(), 'Sector recompute started'));
+});
+
+/**
+ * GET /api/admin/corporate-actions?ticker=BBCA
+ * Tabel corporate action untuk back-adjustment harga
+ */
+router.get('/corporate-actions', requireAdmin, async (req: any, res) => {
+  try {
+    await corporateActions.load(true);
+    const ticker = typeof req.query.ticker === 'string' ? req.query.ticker : undefined;
+    return res.json(createSuccessResponse({
+      types: CORPORATE_ACTION_TYPES,
+      actions: await corporateActions.listActions(ticker)
+    }));
+  } catch (error: any) {
+    console.error('Get corporate actions error:', error);
+    return res.status(500).json(createErrorResponse(
+      'Failed to load corporate actions',
+      ERROR_CODES.INTERNAL_SERVER_ERROR,
+      undefined,
+      HTTP_STATUS.INTERNAL_SERVER_ERROR
+    ));
+  }
+});
+
+/**
+ * PUT /api/admin/corporate-actions
+ * Body: { ticker, exDate, type, ratioOld, ratioNew, price?, notes? }
+ * Entry dengan ticker + exDate + type yang sama diganti. Seri adjusted dipakai
+ * kalkulasi mulai run Phase 2 berikutnya.
+ */
+router.put('/corporate-actions', requireAdmin, async (req: any, res) => {
+  try {
+    const { ticker, exDate, type, ratioOld, ratioNew, price, notes } = req.body || {};
+    const result = await corporateActions.upsertAction({
+      ticker: String(ticker || ''),
+      exDate: String(exDate || ''),
+      type: String(type || ''),
+      ratioOld: Number(ratioOld),
+      ratioNew: Number(ratioNew),
+      price: price === undefined || price === null || price === '' ? null : Number(price),
+      notes: typeof notes === 'string' ? notes : ''
+    });
+    return res.json(createSuccessResponse(result, 'Corporate action saved'));
+  } catch (error: any) {
+    if (error instanceof CorporateActionValidationError) {
+      return res.status(400).json(createErrorResponse(
+        error.message,
+        ERROR_CODES.VALIDATION_ERROR,
+        undefined,
+        HTTP_STATUS.BAD_REQUEST
+      ));
+    }
+    console.error('Update corporate action error:', error);
+    return res.status(500).json(createErrorResponse(
+      'Failed to save corporate action',
+      ERROR_CODES.INTERNAL_SERVER_ERROR,
+      undefined,
+      HTTP_STATUS.INTERNAL_SERVER_ERROR
+    ));
+  }
+});
+
+/**
+ * DELETE /api/admin/corporate-actions/:ticker/:exDate/:type
+ */
+router.delete('/corporate-actions/:ticker/:exDate/:type', requireAdmin, async (req: any, res) => {
+  try {
+    const previous = await corporateActions.removeAction(req.params.ticker, req.params.exDate, req.params.type);
+    if (!previous) {
+      return res.status(404).json(createErrorResponse(
+        'Corporate action not found',
+        ERROR_CODES.NOT_FOUND,
+        undefined,
+        HTTP_STATUS.NOT_FOUND
+      ));
+    }
+    return res.json(createSuccessResponse({ previous }, 'Corporate action removed'));
+  } catch (error: any) {
+    console.error('Delete corporate action error:', error);
+    return res.status(500).json(createErrorResponse(
+      'Failed to remove corporate action',
+      ERROR_CODES.INTERNAL_SERVER_ERROR,
+      undefined,
+      HTTP_STATUS.INTERNAL_SERVER_ERROR
+    ));
+  }
+});
+
 export default router;
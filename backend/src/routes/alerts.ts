@@ -0,0 +1,186 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireSupabaseUser } from '../middleware/requireSupabaseUser';
+import { AlertRuleValidationError, AlertService, ALERT_RULE_PHASES, ALERT_RULE_TYPES } from '../services/alertService';
+import { createSuccessResponse, createErrorResponse, ERROR_CODES, HTTP_STATUS } from '../utils/responseUtils';
+
+const router = Router();
+
+const ruleBodySchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  rule_type: z.enum(ALERT_RULE_TYPES as [string, ...string[]]),
+  params: z.record(z.string(), z.any()),
+  channels: z.array(z.enum(['email', 'webhook'])).optional(),
+  webhook_url: z.url().nullable().optional(),
+  is_active: z.boolean().optional()
+});
+
+const eventsQuerySchema = z.object({
+  unread: z.enum(['true', 'false']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional()
+});
+
+const markReadSchema = z.object({
+  ids: z.array(z.string()).optional()
+});
+
+function handleError(res: any, error: any, context: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(HTTP_STATUS.BAD_REQUEST).json(createErrorResponse(
+      error.issues[0]?.message || 'Invalid request',
+      ERROR_CODES.VALIDATION_ERROR,
+      error.issues[0]?.path.join('.'),
+      HTTP_STATUS.BAD_REQUEST
+    ));
+  }
+  if (error instanceof AlertRuleValidationError) {
+    return res.status(HTTP_STATUS.BAD_REQUEST).json(createErrorResponse(
+      error.message,
+      ERROR_CODES.VALIDATION_ERROR,
+      undefined,
+      HTTP_STATUS.BAD_REQUEST
+    ));
+  }
+  console.error(`❌ ${context}:`, error);
+  return res.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).json(createErrorResponse(
+    'Internal server error',
+    ERROR_CODES.INTERNAL_SERVER_ERROR,
+    undefined,
+    HTTP_STATUS.INTERNAL_SERVER_ERROR
+  ));
+}
+
+function notFound(res: any) {
+  return res.status(HTTP_STATUS.NOT_FOUND).json(createErrorResponse(
+    'Alert rule not found',
+    ERROR_CODES.NOT_FOUND,
+    undefined,
+    HTTP_STATUS.NOT_FOUND
+  ));
+}
+
+/**
+ * GET /api/alerts/rule-types
+ * Daftar rule type yang didukung beserta phase yang mengevaluasinya
+ */
+router.get('/rule-types', (_req, res) => {
+  return res.json(createSuccessResponse(
+    ALERT_RULE_TYPES.map(type => ({ type, phase: ALERT_RULE_PHASES[type] }))
+  ));
+});
+
+/**
+ * GET /api/alerts/rules
+ */
+router.get('/rules', requireSupabaseUser, async (req: any, res) => {
+  try {
+    const rules = await AlertService.listRules(req.user.id);
+    return res.json(createSuccessResponse(rules));
+  } catch (error) {
+    return handleError(res, error, 'GET /api/alerts/rules');
+  }
+});
+
+/**
+ * POST /api/alerts/rules
+ */
+router.post('/rules', requireSupabaseUser, async (req: any, res) => {
+  try {
+    const body = ruleBodySchema.parse(req.body);
+    const rule = await AlertService.createRule(req.user.id, {
+      name: body.name,
+      rule_type: body.rule_type as any,
+      params: body.params,
+      channels: body.channels || [],
+      webhook_url: body.webhook_url ?? null,
+      is_active: body.is_active ?? true
+    });
+    return res.status(201).json(createSuccessResponse(rule, 'Alert rule created'));
+  } catch (error) {
+    return handleError(res, error, 'POST /api/alerts/rules');
+  }
+});
+
+/**
+ * PUT /api/alerts/rules/:id
+ */
+router.put('/rules/:id', requireSupabaseUser, async (req: any, res) => {
+  try {
+    const body = ruleBodySchema.partial().parse(req.body);
+    const updates: Parameters<typeof AlertService.updateRule>[2] = {};
+    if (body.name !== undefined) updates.name = body.name;
+    if (body.rule_type !== undefined) updates.rule_type = body.rule_type as any;
+    if (body.params !== undefined) updates.params = body.params;
+    if (body.channels !== undefined) updates.channels = body.channels;
+    if (body.webhook_url !== undefined) updates.webhook_url = body.webhook_url;
+    if (body.is_active !== undefined) updates.is_active = body.is_active;
+
+    const rule = await AlertService.updateRule(req.user.id, req.params.id, updates);
+    if (!rule) return notFound(res);
+    return res.json(createSuccessResponse(rule, 'Alert rule updated'));
+  } catch (error) {
+    return handleError(res, error, 'PUT /api/alerts/rules/:id');
+  }
+});
+
+/**
+ * DELETE /api/alerts/rules/:id
+ */
+router.delete('/rules/:id', requireSupabaseUser, async (req: any, res) => {
+  try {
+    const deleted = await AlertService.deleteRule(req.user.id, req.params.id);
+    if (!deleted) return notFound(res);
+    return res.json(createSuccessResponse({ id: req.params.id }, 'Alert rule deleted'));
+  } catch (error) {
+    return handleError(res, error, 'DELETE /api/alerts/rules/:id');
+  }
+});
+
+/**
+ * POST /api/alerts/rules/:id/preview
+ * Evaluasi rule terhadap data terbaru tanpa menyimpan state / mengirim alert
+ */
+router.post('/rules/:id/preview', requireSupabaseUser, async (req: any, res) => {
+  try {
+    const rule = await AlertService.getRule(req.user.id, req.params.id);
+    if (!rule) return notFound(res);
+    const evaluation = await AlertService.previewRule(rule);
+    return res.json(createSuccessResponse(evaluation));
+  } catch (error) {
+    return handleError(res, error, 'POST /api/alerts/rules/:id/preview');
+  }
+});
+
+/**
+ * GET /api/alerts/inbox?unread=true&limit=50
+ */
+router.get('/inbox', requireSupabaseUser, async (req: any, res) => {
+  try {
+    const query = eventsQuerySchema.parse(req.query);
+    const options: { unreadOnly?: boolean; limit?: number } = { unreadOnly: query.unread === 'true' };
+    if (query.limit !== undefined) options.limit = query.limit;
+    const [events, unreadCount] = await Promise.all([
+      AlertService.listEvents(req.user.id, options),
+      AlertService.getUnreadCount(req.user.id)
+    ]);
+    return res.json(createSuccessResponse({ events, unreadCount }));
+  } catch (error) {
+    return handleError(res, error, 'GET /api/alerts/inbox');
+  }
+});
+
+/**
+ * POST /api/alerts/inbox/read
+ * Body: { ids?: string[] } - tanpa ids = tandai semua sebagai dibaca
+ */
+router.post('/inbox/read', requireSupabaseUser, async (req: any, res) => {
+  try {
+    const { ids } = markReadSchema.parse(req.body || {});
+    await AlertService.markRead(req.user.id, ids);
+    return res.json(createSuccessResponse({ unreadCount: await AlertService.getUnreadCount(req.user.id) }));
+  } catch (error) {
+    return handleError(res, error, 'POST /api/alerts/inbox/read');
+  }
+});
+
+export default router;
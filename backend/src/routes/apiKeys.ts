@@ -0,0 +1,152 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireSupabaseUser } from '../middleware/requireSupabaseUser';
+import { resolveEntitlement, rejectIfNotEntitled } from '../middleware/entitlements';
+import { ApiKeyManager, ApiKeyValidationError, MAX_API_KEYS_PER_USER } from '../utils/apiKeyManager';
+import { AuditLogger } from '../utils/auditLogger';
+import { createSuccessResponse, createErrorResponse, ERROR_CODES, HTTP_STATUS } from '../utils/responseUtils';
+
+const router = Router();
+
+// Manajemen key hanya lewat session login (bukan dengan API key itu sendiri)
+router.use(requireSupabaseUser);
+
+const nameSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(60)
+});
+
+function handleError(res: any, error: any, context: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(HTTP_STATUS.BAD_REQUEST).json(createErrorResponse(
+      error.issues[0]?.message || 'Invalid request',
+      ERROR_CODES.VALIDATION_ERROR,
+      error.issues[0]?.path.join('.'),
+      HTTP_STATUS.BAD_REQUEST
+    ));
+  }
+  if (error instanceof ApiKeyValidationError) {
+    return res.status(HTTP_STATUS.BAD_REQUEST).json(createErrorResponse(
+      error.message,
+      ERROR_CODES.VALIDATION_ERROR,
+      undefined,
+      HTTP_STATUS.BAD_REQUEST
+    ));
+  }
+  console.error(`❌ ${context}:`, error);
+  return res.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).json(createErrorResponse(
+    'Internal server error',
+    ERROR_CODES.INTERNAL_SERVER_ERROR,
+    undefined,
+    HTTP_STATUS.INTERNAL_SERVER_ERROR
+  ));
+}
+
+function notFound(res: any) {
+  return res.status(HTTP_STATUS.NOT_FOUND).json(createErrorResponse(
+    'API key not found',
+    ERROR_CODES.NOT_FOUND,
+    undefined,
+    HTTP_STATUS.NOT_FOUND
+  ));
+}
+
+/**
+ * Create/rotate hanya untuk plan yang punya fitur api_access.
+ * List, rename dan revoke tetap boleh supaya user yang downgrade masih bisa membersihkan key lama.
+ */
+async function ensureApiAccess(req: any, res: any): Promise<boolean> {
+  const entitlement = await resolveEntitlement(req.user.id);
+  return !rejectIfNotEntitled(res, entitlement, 'api_access');
+}
+
+function requestMeta(req: any): [string | undefined, string | undefined] {
+  return [req.ip, req.headers['user-agent']];
+}
+
+/**
+ * GET /api/api-keys
+ * Daftar key milik user beserta counter pemakaian (secret tidak pernah dikembalikan lagi)
+ */
+router.get('/', async (req: any, res) => {
+  try {
+    const keys = await ApiKeyManager.listKeys(req.user.id);
+    const entitlement = await resolveEntitlement(req.user.id);
+    return res.json(createSuccessResponse({
+      keys,
+      maxKeys: MAX_API_KEYS_PER_USER,
+      apiAccess: entitlement.features.includes('api_access')
+    }));
+  } catch (error) {
+    return handleError(res, error, 'GET /api/api-keys');
+  }
+});
+
+/**
+ * POST /api/api-keys
+ * Body: { name }. Response berisi `key` plaintext - hanya ditampilkan sekali.
+ */
+router.post('/', async (req: any, res) => {
+  try {
+    const { name } = nameSchema.parse(req.body || {});
+    if (!(await ensureApiAccess(req, res))) return;
+
+    const { key, record } = await ApiKeyManager.createKey(req.user.id, name);
+    await AuditLogger.logApiKeyEvent(req.user.id, 'api_key_created', record.id, { name, prefix: record.key_prefix }, ...requestMeta(req));
+    return res.status(HTTP_STATUS.CREATED).json(createSuccessResponse({ key, record }, 'API key created'));
+  } catch (error) {
+    return handleError(res, error, 'POST /api/api-keys');
+  }
+});
+
+/**
+ * PATCH /api/api-keys/:id
+ * Body: { name }
+ */
+router.patch('/:id', async (req: any, res) => {
+  try {
+    const { name } = nameSchema.parse(req.body || {});
+    const record = await ApiKeyManager.renameKey(req.user.id, req.params.id, name);
+    if (!record) return notFound(res);
+
+    await AuditLogger.logApiKeyEvent(req.user.id, 'api_key_renamed', record.id, { name }, ...requestMeta(req));
+    return res.json(createSuccessResponse(record, 'API key renamed'));
+  } catch (error) {
+    return handleError(res, error, 'PATCH /api/api-keys/:id');
+  }
+});
+
+/**
+ * POST /api/api-keys/:id/rotate
+ * Secret baru, nama & counter tetap. Secret lama langsung tidak berlaku.
+ */
+router.post('/:id/rotate', async (req: any, res) => {
+  try {
+    if (!(await ensureApiAccess(req, res))) return;
+
+    const rotated = await ApiKeyManager.rotateKey(req.user.id, req.params.id);
+    if (!rotated) return notFound(res);
+
+    await AuditLogger.logApiKeyEvent(req.user.id, 'api_key_rotated', rotated.record.id, { prefix: rotated.record.key_prefix }, ...requestMeta(req));
+    return res.json(createSuccessResponse(rotated, 'API key rotated'));
+  } catch (error) {
+    return handleError(res, error, 'POST /api/api-keys/:id/rotate');
+  }
+});
+
+/**
+ * DELETE /api/api-keys/:id
+ * Revoke key (record tetap disimpan untuk histori pemakaian)
+ */
+router.delete('/:id', async (req: any, res) => {
+  try {
+    const record = await ApiKeyManager.revokeKey(req.user.id, req.params.id);
+    if (!record) return notFound(res);
+
+    await AuditLogger.logApiKeyEvent(req.user.id, 'api_key_revoked', record.id, { name: record.name, requestCount: record.request_count }, ...requestMeta(req));
+    return res.json(createSuccessResponse(record, 'API key revoked'));
+  } catch (error) {
+    return handleError(res, error, 'DELETE /api/api-keys/:id');
+  }
+});
+
+export default router;
@@ -0,0 +1,83 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireSupabaseUser } from '../middleware/requireSupabaseUser';
+import {
+  backtestService,
+  BacktestValidationError,
+  BACKTEST_FIELDS,
+  MAX_BACKTEST_SYMBOLS,
+  MAX_BACKTEST_YEARS
+} from '../services/backtestService';
+import { IDX_LOT_SIZE } from '../calculations/backtest/backtest_engine';
+
+const router = Router();
+
+const conditionSchema = z.object({
+  source: z.enum(['price', 'accumulation', 'foreign_flow', 'money_flow', 'rrg', 'top_broker']),
+  field: z.string().min(1),
+  operator: z.enum(['>', '>=', '<', '<=', '==', '!=']),
+  value: z.union([z.number(), z.string().trim().min(1)]),
+  broker: z.string().trim().toUpperCase().min(2).max(4).optional()
+});
+
+const runSchema = z.object({
+  symbols: z.array(z.string().trim().toUpperCase().regex(/^[A-Z0-9]{2,6}$/, 'Invalid symbol')).min(1).max(MAX_BACKTEST_SYMBOLS),
+  fromDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'fromDate must be YYYY-MM-DD'),
+  toDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'toDate must be YYYY-MM-DD'),
+  entry: z.array(conditionSchema).min(1, 'At least one entry condition is required').max(10),
+  exit: z.array(conditionSchema).max(10).default([]),
+  initialCapital: z.number().min(1_000_000).max(1_000_000_000_000).default(100_000_000),
+  maxPositions: z.number().int().min(1).max(MAX_BACKTEST_SYMBOLS).default(5),
+  buyFeePct: z.number().min(0).max(5).default(0.15),
+  sellFeePct: z.number().min(0).max(5).default(0.25),
+  stopLossPct: z.number().gt(0).max(100).optional(),
+  takeProfitPct: z.number().gt(0).max(1000).optional(),
+  maxHoldingDays: z.number().int().min(1).max(750).optional()
+});
+
+/**
+ * GET /api/backtest/fields
+ * Source + field yang bisa dipakai di rule entry/exit, beserta batas & default eksekusi
+ */
+router.get('/fields', (_req, res) => {
+  res.json({
+    success: true,
+    data: {
+      fields: BACKTEST_FIELDS,
+      limits: { maxSymbols: MAX_BACKTEST_SYMBOLS, maxYears: MAX_BACKTEST_YEARS },
+      execution: { lotSize: IDX_LOT_SIZE, buyFeePct: 0.15, sellFeePct: 0.25, fill: 'next_open' }
+    }
+  });
+});
+
+/**
+ * POST /api/backtest/run
+ * Body: { symbols, fromDate, toDate, entry[], exit[], initialCapital?, maxPositions?,
+ *         buyFeePct?, sellFeePct?, stopLossPct?, takeProfitPct?, maxHoldingDays? }
+ * Entry = semua kondisi terpenuhi, exit = salah satu kondisi terpenuhi
+ */
+router.post('/run', requireSupabaseUser, async (req, res) => {
+  try {
+    const body = runSchema.parse(req.body || {});
+    const result = await backtestService.run(body);
+    return res.json({ success: true, data: result });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid parameters',
+        details: error.issues
+      });
+    }
+    if (error instanceof BacktestValidationError) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    console.error('[Backtest] Error running backtest:', error);
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to run backtest'
+    });
+  }
+});
+
+export default router;
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import { downloadText, listPaths } from '../utils/azureBlob';
+import { brokerSummaryRange, BrokerSummaryRangeValidationError } from '../services/brokerSummaryRangeService';
 
 const router = Router();
 
@@ -9,6 +10,13 @@ const querySchema = z.object({
   market: z.string().optional(),
 });
 
+const rangeQuerySchema = z.object({
+  from: z.string().regex(/^\d{8}$/, 'from must be in YYYYMMDD format'),
+  to: z.string().regex(/^\d{8}$/, 'to must be in YYYYMMDD format'),
+  market: z.string().optional(),
+  investor: z.enum(['F', 'D', '']).optional()
+});
+
 const paramsSchema = z.object({
   stockCode: z.string().min(1, 'Stock code is required')
 });
@@ -184,6 +192,36 @@ router.get('/summary/:stockCode', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/broker-summary/range/:stockCode?from=YYYYMMDD&to=YYYYMMDD&market=RG&investor=F
+ * Agregasi multi-hari: total per broker (VWAP dari total value/volume) + breakdown per hari.
+ * Tanpa market = All Trade; investor F/D memakai file broker_transaction_stock per tipe investor.
+ */
+router.get('/range/:stockCode', async (req, res) => {
+  try {
+    const { stockCode } = paramsSchema.parse(req.params);
+    const { from, to, market, investor } = rangeQuerySchema.parse(req.query);
+
+    const data = await brokerSummaryRange.getRange({
+      stockCode,
+      from,
+      to,
+      board: normalizeMarket(market),
+      investor: investor || undefined
+    });
+    return res.json({ success: true, data });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ success: false, error: error.issues[0]?.message || 'Invalid request' });
+    }
+    if (error instanceof BrokerSummaryRangeValidationError) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    console.error('broker-summary/range error:', error);
+    return res.status(500).json({ success: false, error: error.message || 'Failed to aggregate broker summary' });
+  }
+});
+
 router.get('/dates', async (_req, res) => {
   try {
     // Collect dates from all modern prefixes (rg/tn/ng) and legacy
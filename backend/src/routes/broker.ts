@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { downloadText } from '../utils/azureBlob';
+import { getBrokerTransactionPath } from '../utils/brokerTransactionPath';
 import { z } from 'zod';
 
 const router = Router();
@@ -179,149 +180,6 @@ router.get('/summary/:stockCode', async (req, res) => {
   }
 });
 
-/**
- * Helper function to determine Azure Storage path based on broker code and market filter
- * 
- * Path rules:
- * - BROKER: broker_transaction[/opsi_board][/tanggal]/[kode_saham].csv
- * - STOCK: sama seperti broker, tapi tambahkan suffix _stock pada semua prefix
- * 
- * SPECIAL CASE: When Board = All Trade (empty) and Inv = F or D:
- * - Folder: broker_transaction/
- * - File: broker_transaction_f_YYYYMMDD/{code}.csv or broker_transaction_d_YYYYMMDD/{code}.csv
- * 
- * Examples:
- * - ALL (no filters) → broker_transaction/broker_transaction_YYYYMMDD/{code}.csv
- * - F (All Trade) → broker_transaction/broker_transaction_f_YYYYMMDD/{code}.csv
- * - D (All Trade) → broker_transaction/broker_transaction_d_YYYYMMDD/{code}.csv
- * - RG (ALL) → broker_transaction_rg/broker_transaction_rg_YYYYMMDD/{code}.csv
- * - RG (F) → broker_transaction_rg_f/broker_transaction_rg_f_YYYYMMDD/{code}.csv
- * - RG (D) → broker_transaction_rg_d/broker_transaction_rg_d_YYYYMMDD/{code}.csv
- * - TN/NG: same pattern as RG
- * 
- * For Stock pivot, use pattern: broker_transaction_stock[_board][_inv]
- * - ALL (no filters) → broker_transaction_stock/broker_transaction_stock_YYYYMMDD/{code}.csv
- * - F (All Trade) → broker_transaction_stock/broker_transaction_stock_f_YYYYMMDD/{code}.csv
- * - D (All Trade) → broker_transaction_stock/broker_transaction_stock_d_YYYYMMDD/{code}.csv
- * - RG (ALL) → broker_transaction_stock_rg/broker_transaction_stock_rg_YYYYMMDD/{code}.csv
- * - RG (F) → broker_transaction_stock_rg_f/broker_transaction_stock_rg_f_YYYYMMDD/{code}.csv
- * - RG (D) → broker_transaction_stock_rg_d/broker_transaction_stock_rg_d_YYYYMMDD/{code}.csv
- * - TN/NG: same pattern as RG
- */
-const getAzurePath = (code: string, dateStr: string, pivot: 'Broker' | 'Stock' = 'Broker', invFilter?: string, boardFilter?: string): string => {
-  // Start with base prefix
-  let folderPrefix = 'broker_transaction';
-  let filePrefix = 'broker_transaction';
-  
-  // Check if board filter is provided (RG/TN/NG)
-  // Normalize: trim whitespace and check if empty
-  const normalizedBoardFilter = boardFilter ? boardFilter.trim() : '';
-  const hasBoardFilter = normalizedBoardFilter !== '' && normalizedBoardFilter !== 'All Trade';
-  
-  // Check if inv filter is provided (F/D)
-  // Normalize: trim whitespace and uppercase
-  const normalizedInvFilter = invFilter ? invFilter.trim().toUpperCase() : '';
-  const hasInvFilter = normalizedInvFilter === 'F' || normalizedInvFilter === 'D';
-  
-  // Debug logging
-  console.log(`[getAzurePath] Input: code=${code}, dateStr=${dateStr}, pivot=${pivot}, invFilter="${invFilter}", boardFilter="${boardFilter}"`);
-  console.log(`[getAzurePath] Normalized: invFilter="${normalizedInvFilter}", boardFilter="${normalizedBoardFilter}"`);
-  console.log(`[getAzurePath] hasBoardFilter=${hasBoardFilter}, hasInvFilter=${hasInvFilter}`);
-  
-  // Path structure mengikuti inkonsistensi di Azure (sama seperti broker_transaction_ALL.ts):
-  // - Jika ada boardFilter (RG/TN/NG): TIDAK ada broker_transaction/ di depan
-  //   Contoh: broker_transaction_rg/broker_transaction_rg_20251204/
-  //   Contoh: broker_transaction_rg_d/broker_transaction_rg_d_20251205/
-  // - Jika TIDAK ada boardFilter: ADA broker_transaction/ di depan
-  //   Contoh: broker_transaction/broker_transaction_20251205/
-  //   Contoh: broker_transaction/broker_transaction_d_20251204/
-  //   Contoh: broker_transaction/broker_transaction_f_20251204/
-  if (hasBoardFilter) {
-    // When board filter exists, use pattern: broker_transaction_{board}[_{inv}]
-    const board = normalizedBoardFilter.toUpperCase();
-    const folderMap: { [key: string]: string } = {
-      'RG': 'rg',
-      'TN': 'tn',
-      'NG': 'ng'
-    };
-    const folderType = folderMap[board] || board.toLowerCase();
-    
-    // Build parts for folder and file prefix
-    const parts = [folderType];
-    if (hasInvFilter) {
-      parts.push(normalizedInvFilter.toLowerCase());
-    }
-    
-    folderPrefix = `broker_transaction_${parts.join('_')}`;
-    filePrefix = folderPrefix;
-    console.log(`[getAzurePath] Board filter path: ${folderPrefix}/${filePrefix}_${dateStr}/${code}.csv`);
-  } else if (hasInvFilter) {
-    // SPECIAL CASE: Board = All Trade (empty) and Inv = F or D
-    // Folder stays as broker_transaction/, but file prefix includes _f or _d
-    folderPrefix = 'broker_transaction';
-    filePrefix = `broker_transaction_${normalizedInvFilter.toLowerCase()}`;
-    console.log(`[getAzurePath] All Trade + Inv filter path: ${folderPrefix}/${filePrefix}_${dateStr}/${code}.csv`);
-  } else {
-    // No filters, use default
-    folderPrefix = 'broker_transaction';
-    filePrefix = 'broker_transaction';
-    console.log(`[getAzurePath] No filters path: ${folderPrefix}/${filePrefix}_${dateStr}/${code}.csv`);
-  }
-  
-  // For Stock pivot, use different pattern: broker_transaction_stock[_board][_inv]
-  if (pivot === 'Stock') {
-    // Start with broker_transaction_stock base
-    folderPrefix = 'broker_transaction_stock';
-    filePrefix = 'broker_transaction_stock';
-    
-    if (hasBoardFilter) {
-      // Stock + Board: broker_transaction_stock_{board}[_{inv}]
-      const board = normalizedBoardFilter.toUpperCase();
-      const folderMap: { [key: string]: string } = {
-        'RG': 'rg',
-        'TN': 'tn',
-        'NG': 'ng'
-      };
-      const folderType = folderMap[board] || board.toLowerCase();
-      
-      // Build parts: stock + board + [inv]
-      const parts = [folderType];
-      if (hasInvFilter) {
-        parts.push(normalizedInvFilter.toLowerCase());
-      }
-      
-      folderPrefix = `broker_transaction_stock_${parts.join('_')}`;
-      filePrefix = folderPrefix;
-      console.log(`[getAzurePath] Stock + Board filter path: ${folderPrefix}/${filePrefix}_${dateStr}/${code}.csv`);
-    } else if (hasInvFilter) {
-      // SPECIAL CASE: Stock + All Trade + Inv (F/D)
-      // Folder: broker_transaction_stock/
-      // File: broker_transaction_stock_f_YYYYMMDD/ or broker_transaction_stock_d_YYYYMMDD/
-      folderPrefix = 'broker_transaction_stock';
-      filePrefix = `broker_transaction_stock_${normalizedInvFilter.toLowerCase()}`;
-      console.log(`[getAzurePath] Stock + All Trade + Inv filter path: ${folderPrefix}/${filePrefix}_${dateStr}/${code}.csv`);
-    } else {
-      // Stock + All Trade (no filters)
-      folderPrefix = 'broker_transaction_stock';
-      filePrefix = 'broker_transaction_stock';
-      console.log(`[getAzurePath] Stock + All Trade (no filters) path: ${folderPrefix}/${filePrefix}_${dateStr}/${code}.csv`);
-    }
-  }
-  
-  // Handle special cases:
-  // 1. {sector}_ALL format (e.g., "BANK_ALL") - sector aggregation files
-  // 2. "ALL" format (no sector) - all emitens aggregation file
-  const isSectorALL = code.endsWith('_ALL') && code !== 'ALL';
-  const isALL = code === 'ALL';
-  
-  // Return path: {folderPrefix}/{filePrefix}_YYYYMMDD/{code}.csv
-  // For {sector}_ALL, the code already includes "_ALL" suffix
-  // For ALL (no sector), use "ALL.csv"
-  const finalPath = `${folderPrefix}/${filePrefix}_${dateStr}/${code}.csv`;
-  console.log(`[getAzurePath] Final path: ${finalPath}${isSectorALL ? ' (Sector ALL file)' : isALL ? ' (ALL.csv - no sector filter)' : ''}`);
-  return finalPath;
-};
-
 /**
  * Parse CSV data with semicolon delimiter and map to transaction format
  * Supports both Broker pivot (Emiten as first column) and Stock pivot (Broker as first column)
@@ -920,7 +778,7 @@ router.get('/transaction/:brokerCode', async (req, res) => {
     }
     
     // Get Azure Storage path based on code, pivot, inv filter, and board filter
-    const azurePath = getAzurePath(brokerCode, dateStr, pivot, invFilter, boardFilter);
+    const azurePath = getBrokerTransactionPath(brokerCode, dateStr, pivot, invFilter, boardFilter);
     
     // Validate azurePath
     if (!azurePath) {
@@ -0,0 +1,82 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { downloadText } from '../utils/azureBlob';
+import { BROKER_CLUSTER_PREFIX, BrokerClusterResult } from '../calculations/broker/broker_clustering';
+
+const router = Router();
+
+// Output di-generate sekali sehari oleh Phase 8, cache singkat cukup
+const dataCache = new Map<string, { data: BrokerClusterResult; timestamp: number }>();
+const CACHE_DURATION = 10 * 60 * 1000; // 10 menit
+
+const querySchema = z.object({
+  minConfidence: z.coerce.number().min(0).max(1).default(0)
+});
+
+const paramsSchema = z.object({
+  stockCode: z.string().regex(/^[A-Za-z]{4}$/, 'Stock code must be 4 letters')
+});
+
+async function loadClusters(path: string): Promise<BrokerClusterResult | null> {
+  const cached = dataCache.get(path);
+  if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
+    return cached.data;
+  }
+  try {
+    const data = JSON.parse(await downloadText(path)) as BrokerClusterResult;
+    dataCache.set(path, { data, timestamp: Date.now() });
+    return data;
+  } catch {
+    return null;
+  }
+}
+
+const withMinConfidence = (result: BrokerClusterResult, minConfidence: number): BrokerClusterResult => ({
+  ...result,
+  clusters: result.clusters.filter(cluster => cluster.confidence >= minConfidence)
+});
+
+/**
+ * GET /api/broker-clusters/global?minConfidence=0.6
+ * Cluster broker se-market (korelasi net IDX + agregasi co-accumulation per emiten)
+ */
+router.get('/global', async (req, res) => {
+  try {
+    const { minConfidence } = querySchema.parse(req.query);
+    const data = await loadClusters(`${BROKER_CLUSTER_PREFIX}/global.json`);
+    if (!data) {
+      return res.status(404).json({ success: false, error: 'Broker clusters have not been generated yet' });
+    }
+    return res.json({ success: true, data: withMinConfidence(data, minConfidence) });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ success: false, error: error.issues[0]?.message || 'Invalid request' });
+    }
+    console.error('broker-clusters/global error:', error);
+    return res.status(500).json({ success: false, error: error.message || 'Failed to load broker clusters' });
+  }
+});
+
+/**
+ * GET /api/broker-clusters/:stockCode?minConfidence=0.6
+ * Cluster broker untuk satu emiten; 404 jika emiten tidak cukup histori untuk dianalisis
+ */
+router.get('/:stockCode', async (req, res) => {
+  try {
+    const { stockCode } = paramsSchema.parse(req.params);
+    const { minConfidence } = querySchema.parse(req.query);
+    const data = await loadClusters(`${BROKER_CLUSTER_PREFIX}/stock/${stockCode.toUpperCase()}.json`);
+    if (!data) {
+      return res.status(404).json({ success: false, error: `No broker clusters for ${stockCode.toUpperCase()}` });
+    }
+    return res.json({ success: true, data: withMinConfidence(data, minConfidence) });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ success: false, error: error.issues[0]?.message || 'Invalid request' });
+    }
+    console.error('broker-clusters error:', error);
+    return res.status(500).json({ success: false, error: error.message || 'Failed to load broker clusters' });
+  }
+});
+
+export default router;
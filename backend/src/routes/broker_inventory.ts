@@ -2,6 +2,7 @@ import express from 'express';
 import { BrokerInventoryCalculator } from '../calculations/broker/broker_inventory';
 import { downloadText } from '../utils/azureBlob';
 import { z } from 'zod';
+import { brokerInventoryScreener, ScreenerOptions, SCREENER_MAX_WINDOW } from '../services/brokerInventoryScreener';
 
 const router = express.Router();
 const brokerInventoryCalculator = new BrokerInventoryCalculator();
@@ -12,6 +13,72 @@ const brokerInventoryParamsSchema = z.object({
   brokerCode: z.string().min(1, 'Broker code is required')
 });
 
+const screenerQuerySchema = z.object({
+  brokers: z.string().optional(), // Comma-separated broker codes, e.g. "YP,CC"
+  topN: z.coerce.number().int().min(1).max(20).default(5),
+  window: z.coerce.number().int().min(1).max(SCREENER_MAX_WINDOW).default(5),
+  minNetValue: z.coerce.number().default(0),
+  minStreak: z.coerce.number().int().min(0).optional(),
+  minPriceChange: z.coerce.number().optional(),
+  maxPriceChange: z.coerce.number().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50)
+});
+
+/**
+ * GET /api/broker-inventory/screener
+ * Scan all broker_inventory outputs for emitens where the chosen brokers
+ * (or the top-N net buyers per emiten) accumulated over the last `window` days.
+ * Query: brokers, topN, window, minNetValue, minStreak (default = window),
+ *        minPriceChange, maxPriceChange (percent), limit
+ */
+router.get('/screener', async (req, res) => {
+  try {
+    const query = screenerQuerySchema.parse(req.query);
+    const brokers = (query.brokers || '')
+      .split(',')
+      .map(b => b.trim().toUpperCase())
+      .filter(b => b.length > 0);
+
+    const options: ScreenerOptions = {
+      brokers,
+      topN: query.topN,
+      window: query.window,
+      minNetValue: query.minNetValue,
+      minStreak: query.minStreak ?? query.window,
+      limit: query.limit
+    };
+    if (query.minPriceChange !== undefined) options.minPriceChange = query.minPriceChange;
+    if (query.maxPriceChange !== undefined) options.maxPriceChange = query.maxPriceChange;
+
+    const results = await brokerInventoryScreener.screen(options);
+
+    return res.json({
+      success: true,
+      data: {
+        filters: options,
+        index: brokerInventoryScreener.getIndexInfo(),
+        results,
+        count: results.length
+      }
+    });
+  } catch (error: any) {
+    console.error('[BrokerInventory] Error running screener:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid parameters',
+        details: error.issues
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to run broker inventory screener'
+    });
+  }
+});
+
 /**
  * GET /api/broker-inventory/brokers/:stockCode
  * Get list of available brokers for a specific stock from broker_inventory folder
@@ -72,7 +139,7 @@ router.get('/brokers/:stockCode', async (req, res) => {
  * GET /api/broker-inventory/:stockCode/:brokerCode
  * Get broker inventory data for a specific stock and broker
  * Path: broker_inventory/{stockCode}/{brokerCode}.csv
- * Format: Date,NetBuyVol,CumulativeNetBuyVol
+ * Format: Date,BuyVol,SellVol,NetBuyVol,Cumulative*,AvgCost,RealizedPL,CumulativeRealizedPL,Close,UnrealizedPL
  */
 router.get('/:stockCode/:brokerCode', async (req, res) => {
   try {
@@ -119,7 +186,7 @@ router.get('/:stockCode/:brokerCode', async (req, res) => {
       headers.forEach((header, index) => {
         const value = values[index];
         // Convert numeric fields
-        if (['NetBuyVol', 'CumulativeNetBuyVol'].includes(header)) {
+        if (header !== 'Date') {
           row[header] = parseFloat(value || '0') || 0;
         } else {
           row[header] = value || '';
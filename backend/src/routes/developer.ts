@@ -11,8 +11,11 @@ import {
   getAllPhasesStatus,
   triggerPhase,
   togglePhaseEnabled,
-  updatePhaseTriggerConfig
+  updatePhaseTriggerConfig,
+  getJobGraphStatus,
+  rerunJobFrom
 } from '../services/scheduler';
+import { tradingCalendar, todayInExchangeTimezone, TradingCalendarValidationError } from '../services/tradingCalendarService';
 
 const router = Router();
 
@@ -1098,19 +1101,11 @@ router.put('/scheduler/phases/:phaseId/trigger-config', requireDeveloper, async
               isWithinWindow = currentTimeMinutes >= resizeMinutes && currentTimeMinutes < schedulerMinutes;
             }
             
-            // Check if weekend skip is enabled and today is weekend
-            const isWeekend = (() => {
-              const now = new Date();
-              const dayOfWeekInTz = new Intl.DateTimeFormat('en-US', {
-                timeZone: timezone,
-                weekday: 'short'
-              }).formatToParts(now);
-              const weekday = dayOfWeekInTz.find(p => p.type === 'weekday')?.value || '';
-              return weekday === 'Sat' || weekday === 'Sun';
-            })();
+            // Check if weekend skip is enabled and today is weekend / IDX holiday
+            const isNonTradingDay = !(await tradingCalendar.isTradingDay(todayInExchangeTimezone(timezone)));
             
             // Trigger webhook immediately if current time is within resize window AND not weekend (if weekend skip enabled)
-            if (isWithinWindow && !(config.WEEKEND_SKIP && isWeekend)) {
+            if (isWithinWindow && !(config.WEEKEND_SKIP && isNonTradingDay)) {
               console.log('✅ Current time is within resize window - triggering webhook immediately (phase trigger config)');
               
               const webhookResult = await triggerGitHubWorkflow('scheduler-time-changed', {
@@ -1126,8 +1121,8 @@ router.put('/scheduler/phases/:phaseId/trigger-config', requireDeveloper, async
                 console.warn('⚠️ GitHub webhook trigger failed (immediate - phase trigger config)');
               }
             } else {
-              if (isWithinWindow && config.WEEKEND_SKIP && isWeekend) {
-                console.log('⏸️ Weekend detected - skipping immediate webhook trigger (weekend skip enabled)');
+              if (isWithinWindow && config.WEEKEND_SKIP && isNonTradingDay) {
+                console.log('⏸️ Non-trading day (weekend/IDX holiday) - skipping immediate webhook trigger (weekend skip enabled)');
               } else {
                 console.log('⏸️ Current time is not within resize window - webhook will be triggered at scheduled time');
               }
@@ -1381,19 +1376,11 @@ router.put('/scheduler/config', requireDeveloper, async (req, res) => {
           isWithinWindow = currentTimeMinutes >= resizeMinutes && currentTimeMinutes < schedulerMinutes;
         }
         
-        // Check if weekend skip is enabled and today is weekend
-        const isWeekend = (() => {
-          const now = new Date();
-          const dayOfWeekInTz = new Intl.DateTimeFormat('en-US', {
-            timeZone: timezone,
-            weekday: 'short'
-          }).formatToParts(now);
-          const weekday = dayOfWeekInTz.find(p => p.type === 'weekday')?.value || '';
-          return weekday === 'Sat' || weekday === 'Sun';
-        })();
+        // Check if weekend skip is enabled and today is weekend / IDX holiday
+        const isNonTradingDay = !(await tradingCalendar.isTradingDay(todayInExchangeTimezone(timezone)));
         
         // Trigger webhook immediately if current time is within resize window AND not weekend (if weekend skip enabled)
-        if (isWithinWindow && !(updatedConfig.WEEKEND_SKIP && isWeekend)) {
+        if (isWithinWindow && !(updatedConfig.WEEKEND_SKIP && isNonTradingDay)) {
           console.log('✅ Current time is within resize window - triggering webhook immediately');
           
           const webhookResult = await triggerGitHubWorkflow('scheduler-time-changed', {
@@ -1412,8 +1399,8 @@ router.put('/scheduler/config', requireDeveloper, async (req, res) => {
             webhookError = 'Webhook trigger returned false - check environment variables and GitHub token';
           }
         } else {
-          if (isWithinWindow && updatedConfig.WEEKEND_SKIP && isWeekend) {
-            console.log('⏸️ Weekend detected - skipping immediate webhook trigger (weekend skip enabled)');
+          if (isWithinWindow && updatedConfig.WEEKEND_SKIP && isNonTradingDay) {
+            console.log('⏸️ Non-trading day (weekend/IDX holiday) - skipping immediate webhook trigger (weekend skip enabled)');
           } else {
             console.log('⏸️ Current time is not within resize window - webhook will be triggered at scheduled time');
           }
@@ -1780,19 +1767,11 @@ router.put('/scheduler/phases/:phaseId/trigger-config', requireDeveloper, async
               isWithinWindow = currentTimeMinutes >= resizeMinutes && currentTimeMinutes < schedulerMinutes;
             }
             
-            // Check if weekend skip is enabled and today is weekend
-            const isWeekend = (() => {
-              const now = new Date();
-              const dayOfWeekInTz = new Intl.DateTimeFormat('en-US', {
-                timeZone: timezone,
-                weekday: 'short'
-              }).formatToParts(now);
-              const weekday = dayOfWeekInTz.find(p => p.type === 'weekday')?.value || '';
-              return weekday === 'Sat' || weekday === 'Sun';
-            })();
+            // Check if weekend skip is enabled and today is weekend / IDX holiday
+            const isNonTradingDay = !(await tradingCalendar.isTradingDay(todayInExchangeTimezone(timezone)));
             
             // Trigger webhook immediately if current time is within resize window AND not weekend (if weekend skip enabled)
-            if (isWithinWindow && !(config.WEEKEND_SKIP && isWeekend)) {
+            if (isWithinWindow && !(config.WEEKEND_SKIP && isNonTradingDay)) {
               console.log('✅ Current time is within resize window - triggering webhook immediately (phase trigger config)');
               
               const webhookResult = await triggerGitHubWorkflow('scheduler-time-changed', {
@@ -1808,8 +1787,8 @@ router.put('/scheduler/phases/:phaseId/trigger-config', requireDeveloper, async
                 console.warn('⚠️ GitHub webhook trigger failed (immediate - phase trigger config)');
               }
             } else {
-              if (isWithinWindow && config.WEEKEND_SKIP && isWeekend) {
-                console.log('⏸️ Weekend detected - skipping immediate webhook trigger (weekend skip enabled)');
+              if (isWithinWindow && config.WEEKEND_SKIP && isNonTradingDay) {
+                console.log('⏸️ Non-trading day (weekend/IDX holiday) - skipping immediate webhook trigger (weekend skip enabled)');
               } else {
                 console.log('⏸️ Current time is not within resize window - webhook will be triggered at scheduled time');
               }
@@ -2063,19 +2042,11 @@ router.put('/scheduler/config', requireDeveloper, async (req, res) => {
           isWithinWindow = currentTimeMinutes >= resizeMinutes && currentTimeMinutes < schedulerMinutes;
         }
         
-        // Check if weekend skip is enabled and today is weekend
-        const isWeekend = (() => {
-          const now = new Date();
-          const dayOfWeekInTz = new Intl.DateTimeFormat('en-US', {
-            timeZone: timezone,
-            weekday: 'short'
-          }).formatToParts(now);
-          const weekday = dayOfWeekInTz.find(p => p.type === 'weekday')?.value || '';
-          return weekday === 'Sat' || weekday === 'Sun';
-        })();
+        // Check if weekend skip is enabled and today is weekend / IDX holiday
+        const isNonTradingDay = !(await tradingCalendar.isTradingDay(todayInExchangeTimezone(timezone)));
         
         // Trigger webhook immediately if current time is within resize window AND not weekend (if weekend skip enabled)
-        if (isWithinWindow && !(updatedConfig.WEEKEND_SKIP && isWeekend)) {
+        if (isWithinWindow && !(updatedConfig.WEEKEND_SKIP && isNonTradingDay)) {
           console.log('✅ Current time is within resize window - triggering webhook immediately');
           
           const webhookResult = await triggerGitHubWorkflow('scheduler-time-changed', {
@@ -2094,8 +2065,8 @@ router.put('/scheduler/config', requireDeveloper, async (req, res) => {
             webhookError = 'Webhook trigger returned false - check environment variables and GitHub token';
           }
         } else {
-          if (isWithinWindow && updatedConfig.WEEKEND_SKIP && isWeekend) {
-            console.log('⏸️ Weekend detected - skipping immediate webhook trigger (weekend skip enabled)');
+          if (isWithinWindow && updatedConfig.WEEKEND_SKIP && isNonTradingDay) {
+            console.log('⏸️ Non-trading day (weekend/IDX holiday) - skipping immediate webhook trigger (weekend skip enabled)');
           } else {
             console.log('⏸️ Current time is not within resize window - webhook will be triggered at scheduled time');
           }
@@ -2244,6 +2215,130 @@ router.get('/scheduler/status', requireDeveloper, async (_req, res) => {
   }
 });
 
+/**
+ * GET /api/developer/scheduler/jobs?date=YYYYMMDD
+ * Job graph Phase 2 - 8 (input/output, retry, timeout) dengan status terakhir tiap node pada tanggal itu
+ */
+router.get('/scheduler/jobs', requireDeveloper, async (req, res) => {
+  try {
+    const date = typeof req.query['date'] === 'string' && req.query['date']
+      ? req.query['date'].replace(/-/g, '')
+      : todayInExchangeTimezone();
+    if (!/^\d{8}$/.test(date)) {
+      return res.status(400).json(createErrorResponse(
+        'Invalid date format. Expected YYYYMMDD',
+        'VALIDATION_ERROR',
+        'date',
+        400
+      ));
+    }
+
+    const status = await getJobGraphStatus(date);
+    return res.json(createSuccessResponse(status, 'Job graph status retrieved successfully'));
+  } catch (error) {
+    console.error('Get job graph status error:', error);
+    return res.status(500).json(createErrorResponse(
+      'Failed to retrieve job graph status',
+      'INTERNAL_SERVER_ERROR',
+      undefined,
+      500
+    ));
+  }
+});
+
+/**
+ * POST /api/developer/scheduler/jobs/:nodeId/rerun
+ * Body: { date: 'YYYYMMDD' }
+ * Jalankan ulang satu job node beserta semua downstream-nya untuk tanggal itu (background)
+ */
+router.post('/scheduler/jobs/:nodeId/rerun', requireDeveloper, async (req: any, res) => {
+  try {
+    const { nodeId } = req.params;
+    const date = String(req.body?.date || '').replace(/-/g, '');
+    const triggeredBy = req.user?.email || req.user?.id || 'developer';
+    const result = await rerunJobFrom(nodeId, date, triggeredBy);
+
+    if (result.success) {
+      return res.json(createSuccessResponse(result, result.message));
+    }
+    return res.status(400).json(createErrorResponse(
+      result.message,
+      'RERUN_FAILED',
+      undefined,
+      400
+    ));
+  } catch (error) {
+    console.error('Rerun job error:', error);
+    return res.status(500).json(createErrorResponse(
+      'Failed to rerun job',
+      'INTERNAL_SERVER_ERROR',
+      undefined,
+      500
+    ));
+  }
+});
+
+/**
+ * GET /api/developer/trading-calendar
+ * Daftar libur bursa + half day, plus status hari ini
+ */
+router.get('/trading-calendar', requireDeveloper, async (_req, res) => {
+  try {
+    await tradingCalendar.load(true);
+    const today = todayInExchangeTimezone();
+    const [calendar, isTradingDay] = await Promise.all([
+      tradingCalendar.getCalendar(),
+      tradingCalendar.isTradingDay(today)
+    ]);
+    return res.json(createSuccessResponse({
+      ...calendar,
+      today,
+      isTradingDay,
+      previousTradingDay: await tradingCalendar.previousTradingDay(today)
+    }, 'Trading calendar retrieved successfully'));
+  } catch (error) {
+    console.error('Get trading calendar error:', error);
+    return res.status(500).json(createErrorResponse(
+      'Failed to retrieve trading calendar',
+      'INTERNAL_SERVER_ERROR',
+      undefined,
+      500
+    ));
+  }
+});
+
+/**
+ * PUT /api/developer/trading-calendar
+ * Body: { holidays: [{ date, description }], halfDays: [{ date, closeTime, description }] }
+ * Mengganti seluruh daftar; scheduler dan kalkulasi memakai kalender baru pada pemanggilan berikutnya.
+ */
+router.put('/trading-calendar', requireDeveloper, async (req: any, res) => {
+  try {
+    const { holidays, halfDays } = req.body || {};
+    const calendar = await tradingCalendar.update(
+      { holidays, halfDays },
+      req.user?.email || req.user?.id || 'developer'
+    );
+    return res.json(createSuccessResponse(calendar, 'Trading calendar updated successfully'));
+  } catch (error) {
+    if (error instanceof TradingCalendarValidationError) {
+      return res.status(400).json(createErrorResponse(
+        error.message,
+        'VALIDATION_ERROR',
+        undefined,
+        400
+      ));
+    }
+    console.error('Update trading calendar error:', error);
+    return res.status(500).json(createErrorResponse(
+      'Failed to update trading calendar',
+      'INTERNAL_SERVER_ERROR',
+      undefined,
+      500
+    ));
+  }
+});
+
 /**
  * GET /api/developer/test-ticmi-index
  * Test TICMI API for index data (e.g., IDXBASIC)
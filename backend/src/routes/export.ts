@@ -0,0 +1,135 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { rejectIfNotEntitled } from '../middleware/entitlements';
+import {
+  exportService,
+  ExportValidationError,
+  EXPORT_DATASETS,
+  EXPORT_DATASET_FEATURES,
+  ExportRequest,
+  MAX_EXPORT_DAYS,
+  MAX_EXPORT_CODES
+} from '../services/exportService';
+import { createSuccessResponse, createErrorResponse, ERROR_CODES, HTTP_STATUS } from '../utils/responseUtils';
+
+const router = Router();
+
+// Ticker/broker bisa dikirim sebagai array (JSON body) atau string "BBCA,BBRI" (query string)
+const codeList = z.preprocess(
+  value => (typeof value === 'string' ? value.split(',') : value),
+  z.array(z.string().trim().max(20)).optional()
+);
+
+const exportSchema = z.object({
+  dataset: z.enum(EXPORT_DATASETS),
+  fromDate: z.string().regex(/^\d{4}-?\d{2}-?\d{2}$/, 'fromDate must be YYYY-MM-DD'),
+  toDate: z.string().regex(/^\d{4}-?\d{2}-?\d{2}$/, 'toDate must be YYYY-MM-DD'),
+  tickers: codeList,
+  brokers: codeList,
+  board: z.enum(['RG', 'TN', 'NG']).optional(),
+  investor: z.enum(['F', 'D']).optional(),
+  pivot: z.enum(['Broker', 'Stock']).optional(),
+  format: z.enum(['csv', 'xlsx', 'parquet']).default('csv'),
+  groupBy: z.enum(['date', 'code']).optional()
+});
+
+function handleError(res: any, error: any, context: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(HTTP_STATUS.BAD_REQUEST).json(createErrorResponse(
+      error.issues[0]?.message || 'Invalid request',
+      ERROR_CODES.VALIDATION_ERROR,
+      error.issues[0]?.path.join('.'),
+      HTTP_STATUS.BAD_REQUEST
+    ));
+  }
+  if (error instanceof ExportValidationError) {
+    return res.status(HTTP_STATUS.BAD_REQUEST).json(createErrorResponse(
+      error.message,
+      ERROR_CODES.VALIDATION_ERROR,
+      undefined,
+      HTTP_STATUS.BAD_REQUEST
+    ));
+  }
+  console.error(`❌ ${context}:`, error);
+  return res.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).json(createErrorResponse(
+    'Internal server error',
+    ERROR_CODES.INTERNAL_SERVER_ERROR,
+    undefined,
+    HTTP_STATUS.INTERNAL_SERVER_ERROR
+  ));
+}
+
+async function handleExport(req: any, res: any, input: unknown, context: string) {
+  try {
+    const params = exportSchema.parse(input);
+    // Selain data_export, user juga harus punya akses ke fitur asal dataset
+    if (rejectIfNotEntitled(res, req.entitlement, EXPORT_DATASET_FEATURES[params.dataset])) {
+      return;
+    }
+
+    const request: ExportRequest = {
+      dataset: params.dataset,
+      fromDate: params.fromDate,
+      toDate: params.toDate,
+      tickers: params.tickers || [],
+      brokers: params.brokers || [],
+      board: params.board,
+      investor: params.investor,
+      pivot: params.pivot,
+      format: params.format,
+      groupBy: params.groupBy
+    };
+    const plan = await exportService.prepare(request);
+
+    if (request.format === 'csv') {
+      // CSV di-stream per file sumber: jumlah baris/file belum diketahui saat header dikirim
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${exportService.getFilename(plan)}"`);
+      await exportService.streamCsv(plan, res);
+      return res.end();
+    }
+
+    const file = await exportService.build(plan);
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.setHeader('Content-Length', file.body.length);
+    res.setHeader('X-Export-Rows', String(file.rowCount));
+    res.setHeader('X-Export-Files', String(file.fileCount));
+    return res.end(file.body);
+  } catch (error) {
+    if (res.headersSent) {
+      // Stream CSV sudah berjalan: status tidak bisa diubah, putus koneksi agar file tidak tampak lengkap
+      console.error(`❌ ${context}:`, error);
+      return res.destroy();
+    }
+    return handleError(res, error, context);
+  }
+}
+
+/**
+ * GET /api/export/datasets
+ * Daftar dataset yang bisa diexport beserta fitur yang dibutuhkan dan batasannya
+ */
+router.get('/datasets', (_req, res) => {
+  return res.json(createSuccessResponse({
+    datasets: EXPORT_DATASETS.map(dataset => ({ dataset, feature: EXPORT_DATASET_FEATURES[dataset] })),
+    formats: ['csv', 'xlsx', 'parquet'],
+    maxDays: MAX_EXPORT_DAYS,
+    maxCodes: MAX_EXPORT_CODES
+  }));
+});
+
+/**
+ * POST /api/export
+ * Body: { dataset, fromDate, toDate, tickers?, brokers?, board?, investor?, pivot?, format?, groupBy? }
+ * Response berupa file (attachment), bukan JSON
+ */
+router.post('/', (req: any, res) => handleExport(req, res, req.body || {}, 'POST /api/export'));
+
+/**
+ * GET /api/export?dataset=...&fromDate=...&toDate=...&tickers=BBCA,BBRI&format=parquet
+ * Versi query string untuk dipakai langsung dari notebook/script dengan API key
+ */
+router.get('/', (req: any, res) => handleExport(req, res, req.query, 'GET /api/export'));
+
+export default router;
@@ -1,10 +1,27 @@
 import { Router } from 'express';
+import { z } from 'zod';
 import ForeignFlowCalculator from '../calculations/foreign/foreign_flow';
 import { downloadText } from '../utils/azureBlob';
 
 const router = Router();
 const foreignCalculator = new ForeignFlowCalculator();
 
+const stockParamsSchema = z.object({
+  code: z.string().regex(/^[A-Za-z]{4}$/, 'Stock code must be 4 letters').transform(code => code.toUpperCase())
+});
+
+const dateSchema = z.string().regex(/^\d{8}$/, 'Date must be in YYYYMMDD format');
+
+const topFlowsQuerySchema = z.object({
+  date: dateSchema.optional(),
+  days: z.coerce.number().int().min(1).max(60).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+  sortBy: z.enum(['value', 'volume']).default('value')
+});
+
+const sendValidationError = (res: any, error: z.ZodError) =>
+  res.status(400).json({ success: false, error: error.issues[0]?.message || 'Invalid request' });
+
 // Get foreign flow status
 router.get('/status', async (_req, res) => {
   try {
@@ -73,6 +90,88 @@ router.get('/data/:date', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/foreign/top-flows?date=YYYYMMDD&days=5&limit=10&sortBy=value
+ * Ranking net foreign inflow/outflow se-market atas N hari bursa terakhir (<= date)
+ */
+router.get('/top-flows', async (req, res) => {
+  try {
+    const { date, days, limit, sortBy } = topFlowsQuerySchema.parse(req.query);
+    const data = await foreignCalculator.getTopForeignFlows({ endDate: date, days, limit, sortBy });
+    if (data.dates.length === 0) {
+      return res.status(404).json({ success: false, error: 'No foreign flow summary available' });
+    }
+    return res.json({ success: true, data: { ...data, sortBy, generated_at: new Date().toISOString() } });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) return sendValidationError(res, error);
+    console.error('foreign/top-flows error:', error);
+    return res.status(500).json({ success: false, error: error.message || 'Failed to rank foreign flows' });
+  }
+});
+
+/**
+ * GET /api/foreign/stock/:code/cumulative?anchor=YYYYMMDD
+ * Net foreign kumulatif sejak anchor date (default: awal histori)
+ */
+router.get('/stock/:code/cumulative', async (req, res) => {
+  try {
+    const { code } = stockParamsSchema.parse(req.params);
+    const { anchor } = z.object({ anchor: dateSchema.optional() }).parse(req.query);
+    const data = await foreignCalculator.buildCumulativePosition(code, anchor);
+    if (data.length === 0) {
+      return res.status(404).json({ success: false, error: `No foreign flow data found for ${code}` });
+    }
+    return res.json({ success: true, data: { code, anchor: anchor || data[0]?.Date, data, total: data.length } });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) return sendValidationError(res, error);
+    console.error('foreign/cumulative error:', error);
+    return res.status(500).json({ success: false, error: error.message || 'Failed to build cumulative foreign position' });
+  }
+});
+
+/**
+ * GET /api/foreign/stock/:code/brokers?date=YYYYMMDD&days=5
+ * Flow foreign per kode broker (dijumlah atas N hari terakhir <= date)
+ */
+router.get('/stock/:code/brokers', async (req, res) => {
+  try {
+    const { code } = stockParamsSchema.parse(req.params);
+    const { date, days } = z.object({
+      date: dateSchema.optional(),
+      days: z.coerce.number().int().min(1).max(60).default(1)
+    }).parse(req.query);
+    const data = await foreignCalculator.getBrokerFlows(code, date, days);
+    if (data.dates.length === 0) {
+      return res.status(404).json({ success: false, error: `No foreign broker flow found for ${code}` });
+    }
+    return res.json({ success: true, data: { code, ...data } });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) return sendValidationError(res, error);
+    console.error('foreign/brokers error:', error);
+    return res.status(500).json({ success: false, error: error.message || 'Failed to load foreign broker flow' });
+  }
+});
+
+/**
+ * GET /api/foreign/stock/:code/ownership
+ * Estimasi kepemilikan foreign terkini: snapshot holding bulanan + net flow sejak snapshot,
+ * beserta selisih flow vs perubahan holding per periode
+ */
+router.get('/stock/:code/ownership', async (req, res) => {
+  try {
+    const { code } = stockParamsSchema.parse(req.params);
+    const data = await foreignCalculator.estimateOwnershipChange(code);
+    if (!data.latestHolding) {
+      return res.status(404).json({ success: false, error: `No holding data found for ${code}` });
+    }
+    return res.json({ success: true, data });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) return sendValidationError(res, error);
+    console.error('foreign/ownership error:', error);
+    return res.status(500).json({ success: false, error: error.message || 'Failed to estimate foreign ownership' });
+  }
+});
+
 // Get foreign flow data for specific stock
 router.get('/stock/:code', async (req, res) => {
   try {
@@ -0,0 +1,59 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { downloadText } from '../utils/azureBlob';
+import { MARKET_BREADTH_FILE, MarketBreadthRow, parseMarketBreadthCsv } from '../calculations/market/market_breadth';
+
+const router = Router();
+
+// Satu file untuk semua tanggal, di-update setelah Phase 3 (dan diulang beberapa hari terakhir)
+let seriesCache: { rows: MarketBreadthRow[]; timestamp: number } | null = null;
+const CACHE_DURATION = 5 * 60 * 1000; // 5 menit
+
+const querySchema = z.object({
+  days: z.coerce.number().int().min(1).max(500).default(60),
+  endDate: z.string().regex(/^\d{8}$/, 'endDate must be YYYYMMDD').optional()
+});
+
+async function loadSeries(): Promise<MarketBreadthRow[] | null> {
+  if (seriesCache && Date.now() - seriesCache.timestamp < CACHE_DURATION) {
+    return seriesCache.rows;
+  }
+  try {
+    const rows = parseMarketBreadthCsv(await downloadText(MARKET_BREADTH_FILE));
+    seriesCache = { rows, timestamp: Date.now() };
+    return rows;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET /api/market-breadth?days=60&endDate=YYYYMMDD
+ * Time series market breadth harian (urut tanggal naik), baris terakhir = tanggal terbaru
+ */
+router.get('/', async (req, res) => {
+  try {
+    const { days, endDate } = querySchema.parse(req.query);
+    const rows = await loadSeries();
+    if (!rows || rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Market breadth has not been generated yet' });
+    }
+
+    const series = (endDate ? rows.filter(row => row.Date <= endDate) : rows).slice(-days);
+    return res.json({
+      success: true,
+      data: {
+        series,
+        latest: series[series.length - 1] || null
+      }
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ success: false, error: error.issues[0]?.message || 'Invalid request' });
+    }
+    console.error('market-breadth error:', error);
+    return res.status(500).json({ success: false, error: error.message || 'Failed to load market breadth' });
+  }
+});
+
+export default router;
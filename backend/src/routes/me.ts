@@ -3,6 +3,8 @@ import { requireSupabaseUser } from '../middleware/requireSupabaseUser';
 import { supabaseAdmin } from '../supabaseClient';
 import { z } from 'zod';
 import { createSuccessResponse, createErrorResponse, ERROR_CODES, HTTP_STATUS } from '../utils/responseUtils';
+import { resolveEntitlement, invalidateEntitlementCache } from '../middleware/entitlements';
+import { entitlements, ROUTE_FEATURES, FEATURES } from '../config/entitlements';
 
 const router = Router();
 
@@ -185,6 +187,9 @@ router.get('/', requireSupabaseUser, async (req: any, res) => {
       }
     }
 
+    // Status subscription bisa saja baru di-sync di atas, buang cache entitlement lama
+    invalidateEntitlementCache(userId);
+
     // Update last_login_at in background (don't await)
     (async () => {
       try {
@@ -215,6 +220,31 @@ router.get('/', requireSupabaseUser, async (req: any, res) => {
   }
 });
 
+/**
+ * GET /api/me/entitlements
+ * Plan efektif user + fitur yang terbuka, beserta mapping plan → fitur dan route → fitur
+ * yang dipakai middleware requireEntitlement (sumber kebenaran untuk gating di frontend).
+ */
+router.get('/entitlements', requireSupabaseUser, async (req: any, res) => {
+  try {
+    const entitlement = await resolveEntitlement(req.user.id as string);
+    return res.json(createSuccessResponse({
+      ...entitlement,
+      allFeatures: FEATURES,
+      plans: entitlements.plans,
+      routes: ROUTE_FEATURES
+    }));
+  } catch (err: any) {
+    console.error('GET /api/me/entitlements error:', err);
+    return res.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).json(createErrorResponse(
+      'Internal server error',
+      ERROR_CODES.INTERNAL_SERVER_ERROR,
+      err.message,
+      HTTP_STATUS.INTERNAL_SERVER_ERROR
+    ));
+  }
+});
+
 /**
  * PUT /api/me
  * Update current user profile
@@ -1,113 +1,33 @@
 import express from 'express';
 import { downloadText } from '../utils/azureBlob';
+import { INTRADAY_PREFIX, INTRADAY_INTERVALS } from '../calculations/done/intraday_ohlc';
+import { getDtBlobName, streamDtTransactions } from '../utils/dtReader';
+import { sectorTaxonomy, UNCLASSIFIED_SECTOR } from '../services/sectorTaxonomyService';
+import { corporateActions, AppliedAdjustment } from '../services/corporateActionService';
+import { tradingCalendar } from '../services/tradingCalendarService';
 
-// Sector mapping (same as stockDataUpdateService.ts)
-const SECTOR_MAPPING: { [key: string]: string[] } = {
-  'Basic Materials': [],
-  'Consumer Cyclicals': [],
-  'Consumer Non-Cyclicals': [],
-  'Energy': [],
-  'Financials': [],
-  'Healthcare': [],
-  'Industrials': [],
-  'Infrastructures': [],
-  'Properties & Real Estate': [],
-  'Technology': [],
-  'Transportation & Logistic': []
-};
-
-// Build sector mapping from csv_input/sector_mapping.csv
-async function buildSectorMappingFromCsv(): Promise<void> {
-  try {
-    console.log('🔍 Building sector mapping from csv_input/sector_mapping.csv...');
-
-    // Load sector mapping from CSV file
-    const csvData = await downloadText('csv_input/sector_mapping.csv');
-    const lines = csvData.split('\n')
-      .map(line => line.trim())
-      .filter(line => line && line.length > 0);
-
-    // Clear existing mapping
-    Object.keys(SECTOR_MAPPING).forEach(sector => {
-      SECTOR_MAPPING[sector] = [];
-    });
-
-    // Parse CSV data (skip header row: "sector,emiten")
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i];
-      if (!line) continue;
-
-      // Simple CSV parsing: split by comma
-      const values = line.split(',').map(v => v.trim());
-
-      if (values.length >= 2) {
-        const sector = values[0] || '';
-        const emiten = values[1] || '';
-
-        if (sector && emiten) {
-          if (!SECTOR_MAPPING[sector]) {
-            SECTOR_MAPPING[sector] = [];
-          }
-          // Avoid duplicates
-          if (!SECTOR_MAPPING[sector].includes(emiten)) {
-            SECTOR_MAPPING[sector].push(emiten);
-          }
-        }
-      }
-    }
-
-    console.log('📊 Sector mapping built successfully from CSV');
-    console.log(`📊 Found ${Object.keys(SECTOR_MAPPING).length} sectors with total ${Object.values(SECTOR_MAPPING).flat().length} emitens`);
-
-  } catch (error) {
-    console.warn('⚠️ Could not build sector mapping from CSV:', error);
-    console.log('⚠️ Using default sector mapping');
-
-    // Initialize with default sectors if CSV fails
-    Object.keys(SECTOR_MAPPING).forEach(sector => {
-      SECTOR_MAPPING[sector] = [];
-    });
-  }
-}
-
-// Get sector for emiten using mapping
-function getSectorForEmiten(emiten: string): string {
-  // Check if emiten already exists in mapping
-  for (const [sector, emitens] of Object.entries(SECTOR_MAPPING)) {
-    if (emitens.includes(emiten)) {
-      return sector;
-    }
-  }
+const router = express.Router();
 
-  // If not found, distribute based on hash
-  const sectors = Object.keys(SECTOR_MAPPING);
-  if (sectors.length === 0) {
-    return 'Technology'; // Default fallback
+/**
+ * Query adjusted=true -> seri back-adjusted corporate action (split, bonus, rights).
+ * Default mentah seperti yang ditulis stockDataScheduler.
+ */
+async function loadStockCsv(stockCode: string, filePath: string, adjusted: boolean): Promise<{ csvData: string; adjustments: AppliedAdjustment[] }> {
+  const csvData = await downloadText(filePath);
+  if (!adjusted) {
+    return { csvData, adjustments: [] };
   }
-
-  const hash = emiten.split('').reduce((a, b) => {
-    a = ((a << 5) - a) + b.charCodeAt(0);
-    return a & a;
-  }, 0);
-
-  return sectors[Math.abs(hash) % sectors.length] || 'Technology';
+  const result = await corporateActions.adjustContent(stockCode, csvData);
+  return { csvData: result.content, adjustments: result.adjustments };
 }
 
-const router = express.Router();
-
 /**
  * Get list of available stocks
  */
 router.get('/list', async (_req, res) => {
   try {
-    // Build sector mapping first
-    await buildSectorMappingFromCsv();
-
-    // Get all stocks from sector mapping
-    const allStocks: string[] = [];
-    Object.values(SECTOR_MAPPING).forEach(stocks => {
-      allStocks.push(...stocks);
-    });
+    // Get all classified stocks from sector taxonomy
+    const allStocks = Object.values(await sectorTaxonomy.getSectorMapping()).flat();
 
     const stocks = allStocks
       .filter(stock => stock.length === 4) // Only 4-character stock codes
@@ -199,11 +119,13 @@ router.get('/emiten-list', async (_req, res) => {
 
 /**
  * Get OHLC data for a specific stock
+ * Query: startDate, endDate, limit, adjusted=true|false
  */
 router.get('/data/:stockCode', async (req, res) => {
   try {
     const { stockCode } = req.params;
     const { startDate, endDate, limit } = req.query;
+    const adjusted = req.query['adjusted'] === 'true';
 
     if (!stockCode || stockCode.length !== 4) {
       return res.status(400).json({
@@ -213,17 +135,14 @@ router.get('/data/:stockCode', async (req, res) => {
     }
 
 
-    // Build sector mapping first
-    await buildSectorMappingFromCsv();
-
-    // Get sector for this stock
-    const sector = getSectorForEmiten(stockCode.toUpperCase());
-    const filePath = `stock/${sector}/${stockCode.toUpperCase()}.csv`;
+    // Resolve stock file via sector taxonomy
+    const filePath = await sectorTaxonomy.resolveStockPath(stockCode);
+    const sector = filePath.split('/')[1] || UNCLASSIFIED_SECTOR;
 
     console.log(`📊 Using sector: ${sector} for stock: ${stockCode}`);
 
     // Download CSV data from Azure
-    const csvData = await downloadText(filePath);
+    const { csvData, adjustments } = await loadStockCsv(stockCode.toUpperCase(), filePath, adjusted);
 
     // Parse CSV data
     const lines = csvData.split('\n').filter(line => line.trim());
@@ -284,6 +203,8 @@ router.get('/data/:stockCode', async (req, res) => {
         headers,
         data: filteredData,
         total: filteredData.length,
+        adjusted,
+        adjustments,
         generated_at: new Date().toISOString()
       }
     });
@@ -299,10 +220,12 @@ router.get('/data/:stockCode', async (req, res) => {
 
 /**
  * Get OHLC data for multiple stocks
+ * Query: stocks (bisa berulang), startDate, endDate, limit, adjusted=true|false
  */
 router.get('/data', async (req, res) => {
   try {
     const { stocks, startDate, endDate, limit } = req.query;
+    const adjusted = req.query['adjusted'] === 'true';
 
     if (!stocks) {
       return res.status(400).json({
@@ -313,21 +236,16 @@ router.get('/data', async (req, res) => {
 
     const stockCodes = Array.isArray(stocks) ? stocks as string[] : [stocks as string];
 
-    // Build sector mapping first
-    await buildSectorMappingFromCsv();
-
     const results: any[] = [];
 
     for (const stockCode of stockCodes) {
       if (stockCode.length !== 4) continue;
 
       try {
-        // Get sector for this stock
-        const sector = getSectorForEmiten(stockCode.toUpperCase());
-        const filePath = `stock/${sector}/${stockCode.toUpperCase()}.csv`;
+        const filePath = await sectorTaxonomy.resolveStockPath(stockCode);
 
 
-        const csvData = await downloadText(filePath);
+        const { csvData, adjustments } = await loadStockCsv(stockCode.toUpperCase(), filePath, adjusted);
 
         const lines = csvData.split('\n').filter(line => line.trim());
         if (lines.length === 0) continue;
@@ -376,7 +294,8 @@ router.get('/data', async (req, res) => {
         results.push({
           stockCode: stockCode.toUpperCase(),
           data: filteredData,
-          total: filteredData.length
+          total: filteredData.length,
+          adjustments
         });
 
       } catch (error) {
@@ -390,6 +309,7 @@ router.get('/data', async (req, res) => {
       data: {
         stocks: results,
         total: results.length,
+        adjusted,
         generated_at: new Date().toISOString()
       }
     });
@@ -428,68 +348,36 @@ router.get('/footprint/:stockCode', async (req, res) => {
 
     // Look for bid/ask data in done-summary folder
     const dateStr = String(date);
-    const dtFileName = `done-summary/${dateStr}/DT${dateStr.slice(2)}.csv`;
+    const dtFileName = getDtBlobName(dateStr);
 
     try {
-      const csvData = await downloadText(dtFileName);
-
-      // Parse CSV data with semicolon separator
-      const lines = csvData.split('\n').filter(line => line.trim());
-      if (lines.length === 0) {
-        return res.status(404).json({
-          success: false,
-          error: 'No transaction data found for this date'
-        });
-      }
+      // Stream DT file dan group by price level tanpa menampung seluruh file di memory
+      const priceLevels = new Map<number, { buy: number; sell: number; price: number }>();
 
-      const headers = lines[0]?.split(';') || [];
-      const data = lines.slice(1).map(line => {
-        const values = line.split(';');
-        const row: any = {};
-        headers.forEach((header, index) => {
-          const value = values[index]?.trim() || '';
-          if (['STK_VOLM', 'STK_PRIC'].includes(header)) {
-            row[header] = parseFloat(value) || 0;
-          } else {
-            row[header] = value;
-          }
-        });
-        return row;
-      });
+      for await (const row of streamDtTransactions(dtFileName, { stockCode })) {
+        const price = row.STK_PRIC;
+        let level = priceLevels.get(price);
+        if (!level) {
+          level = { buy: 0, sell: 0, price: price };
+          priceLevels.set(price, level);
+        }
 
-      // Filter data for the specific stock
-      const stockData = data.filter(row =>
-        row.STK_CODE === stockCode.toUpperCase()
-      );
+        if (row.TRX_CODE === 'B') {
+          level.buy += row.STK_VOLM;
+        } else if (row.TRX_CODE === 'S') {
+          level.sell += row.STK_VOLM;
+        }
+      }
 
-      if (stockData.length === 0) {
+      if (priceLevels.size === 0) {
         return res.status(404).json({
           success: false,
           error: `No transaction data found for stock ${stockCode} on date ${date}`
         });
       }
 
-      // Group by price level and calculate buy/sell frequency
-      const priceLevels: { [key: string]: { buy: number; sell: number; price: number } } = {};
-
-      stockData.forEach(row => {
-        const price = row.STK_PRIC;
-        const volume = row.STK_VOLM;
-        const trxCode = row.TRX_CODE;
-
-        if (!priceLevels[price]) {
-          priceLevels[price] = { buy: 0, sell: 0, price: price };
-        }
-
-        if (trxCode === 'B') {
-          priceLevels[price].buy += volume;
-        } else if (trxCode === 'S') {
-          priceLevels[price].sell += volume;
-        }
-      });
-
       // Convert to array format for frontend
-      const footprintData = Object.values(priceLevels).map(level => ({
+      const footprintData = Array.from(priceLevels.values()).map(level => ({
         price: level.price,
         bFreq: level.buy,
         sFreq: level.sell
@@ -524,6 +412,104 @@ router.get('/footprint/:stockCode', async (req, res) => {
   }
 });
 
+// Hari kerja yang dicek ke belakang saat mencari tanggal intraday terakhir
+const INTRADAY_LOOKBACK_WEEKDAYS = 10;
+const MAX_INTRADAY_DAYS = 5;
+
+/**
+ * Get intraday OHLC bars for a specific stock
+ * Query: interval (1|5|15|30|60, default 5), date (YYYYMMDD, default = latest available),
+ *        days (jumlah sesi ke belakang sampai date, 1-5, default 1)
+ */
+router.get('/intraday/:stockCode', async (req, res) => {
+  try {
+    const stockCode = String(req.params.stockCode || '').toUpperCase();
+    const interval = parseInt(String(req.query['interval'] || '5'), 10);
+    const days = Math.min(Math.max(parseInt(String(req.query['days'] || '1'), 10) || 1, 1), MAX_INTRADAY_DAYS);
+    const date = req.query['date'] ? String(req.query['date']) : '';
+
+    if (stockCode.length !== 4) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid stock code. Must be 4 characters.'
+      });
+    }
+    if (!(INTRADAY_INTERVALS as readonly number[]).includes(interval)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid interval. Must be one of ${INTRADAY_INTERVALS.join(', ')}`
+      });
+    }
+    if (date && !/^\d{8}$/.test(date)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid date. Must be YYYYMMDD format.'
+      });
+    }
+
+    // Jalan mundur per hari bursa dari date (atau hari ini) sampai dapat `days` sesi
+    const cursor = date
+      ? new Date(Date.UTC(+date.slice(0, 4), +date.slice(4, 6) - 1, +date.slice(6, 8)))
+      : new Date();
+    const sessions: Array<{ date: string; csv: string }> = [];
+    for (let scanned = 0; scanned < INTRADAY_LOOKBACK_WEEKDAYS + days && sessions.length < days; scanned++) {
+      const candidate = cursor.toISOString().slice(0, 10).replace(/-/g, '');
+      if (await tradingCalendar.isTradingDay(candidate)) {
+        try {
+          const csv = await downloadText(`${INTRADAY_PREFIX}/${candidate}/${stockCode}.csv`);
+          sessions.push({ date: candidate, csv });
+        } catch {
+          // Emiten tidak ditransaksikan atau belum diproses
+        }
+      }
+      cursor.setUTCDate(cursor.getUTCDate() - 1);
+    }
+
+    if (sessions.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: `No intraday data found for ${stockCode}${date ? ` on or before ${date}` : ''}`
+      });
+    }
+
+    const data: any[] = [];
+    sessions.reverse().forEach(session => {
+      const lines = session.csv.split('\n').filter(line => line.trim());
+      const headers = lines[0]?.split(',').map(h => h.trim()) || [];
+      lines.slice(1).forEach(line => {
+        const values = line.split(',');
+        if (parseInt(values[0] || '', 10) !== interval) return;
+        const row: any = { Date: session.date };
+        headers.forEach((header, index) => {
+          const value = values[index]?.trim() || '';
+          row[header] = header === 'Time' ? value : parseFloat(value) || 0;
+        });
+        delete row.Interval;
+        data.push(row);
+      });
+    });
+
+    return res.json({
+      success: true,
+      data: {
+        stockCode,
+        interval,
+        dates: sessions.map(session => session.date),
+        data,
+        total: data.length,
+        generated_at: new Date().toISOString()
+      }
+    });
+
+  } catch (error) {
+    console.error(`❌ Error getting intraday data for ${req.params.stockCode}:`, error);
+    return res.status(500).json({
+      success: false,
+      error: `Failed to get intraday data for ${req.params.stockCode}`
+    });
+  }
+});
+
 /**
  * Get latest available date for a specific stock
  */
@@ -539,12 +525,9 @@ router.get('/latest-date/:stockCode', async (req, res) => {
     }
 
 
-    // Build sector mapping first
-    await buildSectorMappingFromCsv();
-
-    // Get sector for this stock
-    const sector = getSectorForEmiten(stockCode.toUpperCase());
-    const filePath = `stock/${sector}/${stockCode.toUpperCase()}.csv`;
+    // Resolve stock file via sector taxonomy
+    const filePath = await sectorTaxonomy.resolveStockPath(stockCode);
+    const sector = filePath.split('/')[1] || UNCLASSIFIED_SECTOR;
 
     console.log(`📊 Using sector: ${sector} for stock: ${stockCode}`);
 
@@ -631,24 +614,23 @@ router.get('/latest-date/:stockCode', async (req, res) => {
 router.get('/sector-mapping', async (_req, res) => {
   try {
 
-    // Build sector mapping first
-    await buildSectorMappingFromCsv();
+    const sectorMapping = await sectorTaxonomy.getSectorMapping();
 
     // Build reverse mapping: stock -> sector
     const stockToSector: { [stock: string]: string } = {};
-    for (const [sector, stocks] of Object.entries(SECTOR_MAPPING)) {
+    for (const [sector, stocks] of Object.entries(sectorMapping)) {
       stocks.forEach(stock => {
         stockToSector[stock.toUpperCase()] = sector;
       });
     }
 
     // Also get list of all sectors
-    const sectors = Object.keys(SECTOR_MAPPING).filter(sector => SECTOR_MAPPING[sector] && SECTOR_MAPPING[sector].length > 0);
+    const sectors = Object.keys(sectorMapping).filter(sector => sectorMapping[sector] && sectorMapping[sector].length > 0);
 
     // Add IDX as a special sector (for aggregate index data)
     // IDX is not a regular stock but an aggregated index, so it should appear as a sector
-    if (!SECTOR_MAPPING['IDX']) {
-      SECTOR_MAPPING['IDX'] = ['IDX'];
+    if (!sectorMapping['IDX']) {
+      sectorMapping['IDX'] = ['IDX'];
     }
     if (!sectors.includes('IDX')) {
       sectors.push('IDX');
@@ -659,7 +641,7 @@ router.get('/sector-mapping', async (_req, res) => {
       data: {
         stockToSector,
         sectors: sectors.sort(),
-        sectorMapping: SECTOR_MAPPING
+        sectorMapping
       }
     });
 
@@ -672,6 +654,37 @@ router.get('/sector-mapping', async (_req, res) => {
   }
 });
 
+/**
+ * GET /api/stock/sector-taxonomy
+ * Taxonomy IDX-IC lengkap (sector -> sub-sector -> industry -> tickers) + bucket Unclassified
+ */
+router.get('/sector-taxonomy', async (_req, res) => {
+  try {
+    const [taxonomy, unclassified] = await Promise.all([
+      sectorTaxonomy.getTaxonomy(),
+      sectorTaxonomy.getUnclassifiedTickers()
+    ]);
+
+    return res.json({
+      success: true,
+      data: {
+        sectors: taxonomy,
+        unclassified: {
+          sector: UNCLASSIFIED_SECTOR,
+          tickers: unclassified,
+          total: unclassified.length
+        }
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error getting sector taxonomy:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get sector taxonomy'
+    });
+  }
+});
+
 // ============================================================================
 // Stock List with Company Names (from stock-list.ts)
 // ============================================================================
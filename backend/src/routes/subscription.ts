@@ -2,6 +2,7 @@ import express from 'express';
 import { z } from 'zod';
 import { supabaseAdmin } from '../supabaseClient';
 import { requireSupabaseUser } from '../middleware/requireSupabaseUser';
+import { invalidateEntitlementCache } from '../middleware/entitlements';
 import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils';
 import { HTTP_STATUS, ERROR_CODES } from '../utils/responseUtils';
 import { midtransService } from '../services/midtransService';
@@ -1001,6 +1002,7 @@ router.post('/webhook/simulate', async (req, res) => {
           updated_at: new Date().toISOString()
         })
         .eq('id', transaction.user_id);
+      invalidateEntitlementCache(transaction.user_id);
     }
 
     // Handle failed payment (deny, failure, expire, cancel)
@@ -1440,6 +1442,7 @@ router.post('/webhook', async (req, res) => {
           updated_at: new Date().toISOString()
         })
         .eq('id', transaction.user_id);
+      invalidateEntitlementCache(transaction.user_id);
 
       // Log successful payment
       await supabaseAdmin
@@ -1868,6 +1871,7 @@ router.post('/start-trial', requireSupabaseUser, async (req: any, res) => {
     if (userUpdateError) {
       throw userUpdateError;
     }
+    invalidateEntitlementCache(userId);
 
     return res.json(createSuccessResponse({
       subscription,
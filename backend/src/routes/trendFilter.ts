@@ -1,9 +1,74 @@
 import { Router } from 'express';
+import { z } from 'zod';
 import TrendFilterDataScheduler from '../services/trendFilterDataScheduler';
+import { requireSupabaseUser } from '../middleware/requireSupabaseUser';
+import { resolveEntitlement } from '../middleware/entitlements';
+import { createErrorResponse, ERROR_CODES, HTTP_STATUS } from '../utils/responseUtils';
+import { trendRuleSets, TrendRuleSetValidationError } from '../services/trendRuleSetService';
+import { DEFAULT_TREND_RULE_SET_ID } from '../calculations/trend/trend_rules';
 
 const router = Router();
 const trendFilterService = new TrendFilterDataScheduler();
 
+// Rule set dipakai semua user, jadi hanya admin/developer yang boleh mengubah (dipasang setelah requireSupabaseUser)
+const RULE_SET_EDITOR_ROLES = ['admin', 'developer'];
+
+const requireRuleSetEditor = async (req: any, res: any, next: any) => {
+  try {
+    const { role, isActive } = await resolveEntitlement(req.user.id);
+    if (isActive && RULE_SET_EDITOR_ROLES.includes(role)) {
+      return next();
+    }
+  } catch (error) {
+    console.error('Failed to resolve role for trend rule set change:', error);
+  }
+  return res.status(HTTP_STATUS.FORBIDDEN).json(createErrorResponse(
+    'Admin or developer access required',
+    ERROR_CODES.FORBIDDEN,
+    undefined,
+    HTTP_STATUS.FORBIDDEN
+  ));
+};
+
+const positiveInt = z.number().int().min(1);
+
+const ruleSetBodySchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(60),
+  description: z.string().trim().max(300).optional(),
+  periods: z.array(z.object({
+    // Label dipakai di nama file output (o1-trend-{label}.csv)
+    label: z.string().regex(/^[A-Za-z0-9]{1,8}$/, 'Period label must be 1-8 alphanumeric characters'),
+    days: positiveInt
+  })).min(1, 'At least one period is required').max(8),
+  ma: z.object({
+    type: z.enum(['SMA', 'EMA', 'WMA']),
+    shortWindow: positiveInt.nullable(),
+    longWindow: positiveInt.nullable()
+  }),
+  changeThresholdPct: z.number().min(0).max(100),
+  momentumWindow: z.number().int().min(0).max(60),
+  adx: z.object({
+    period: positiveInt.max(100),
+    minAdx: z.number().min(0).max(100),
+    weight: z.number().min(0).max(10)
+  }).optional(),
+  slope: z.object({
+    window: z.number().int().min(2).max(250),
+    minSlopePct: z.number().min(0),
+    weight: z.number().min(0).max(10)
+  }).optional(),
+  scoreThresholds: z.object({
+    uptrend: z.number(),
+    downtrend: z.number()
+  })
+});
+
+const ruleSetIdSchema = z.string().regex(/^[a-z0-9][a-z0-9-]{0,39}$/, 'Rule set id must be lowercase letters, digits or dashes');
+
+function ruleSetParam(value: unknown): string {
+  return typeof value === 'string' && value.trim() ? value.trim() : DEFAULT_TREND_RULE_SET_ID;
+}
+
 // Get trend filter status
 router.get('/status', async (_req, res) => {
   try {
@@ -42,7 +107,7 @@ router.post('/generate', async (_req, res) => {
 router.get('/data', async (req, res) => {
   try {
     const { period } = req.query;
-    const result = await trendFilterService.getTrendFilterData(period as string);
+    const result = await trendFilterService.getTrendFilterData(period as string, ruleSetParam(req.query['ruleSet']));
     
     if (result.success) {
       res.json(result);
@@ -61,7 +126,7 @@ router.get('/data', async (req, res) => {
 router.get('/data/:period', async (req, res) => {
   try {
     const { period } = req.params;
-    const result = await trendFilterService.getTrendFilterData(period);
+    const result = await trendFilterService.getTrendFilterData(period, ruleSetParam(req.query['ruleSet']));
     
     if (result.success) {
       res.json(result);
@@ -76,18 +141,92 @@ router.get('/data/:period', async (req, res) => {
   }
 });
 
-// Get available periods
-router.get('/periods', async (_req, res) => {
+// Get available periods (per rule set, default: rule set bawaan)
+router.get('/periods', async (req, res) => {
+  try {
+    const ruleSetId = ruleSetParam(req.query['ruleSet']);
+    const ruleSet = await trendRuleSets.get(ruleSetId);
+    if (!ruleSet) {
+      return res.status(404).json({
+        success: false,
+        error: `Trend rule set ${ruleSetId} not found`
+      });
+    }
+    return res.json({
+      success: true,
+      data: ruleSet.periods.map(period => period.label)
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: `Failed to get available periods: ${error instanceof Error ? error.message : 'Unknown error'}`
+    });
+  }
+});
+
+// List rule sets (default + custom)
+router.get('/rule-sets', async (_req, res) => {
   try {
-    const periods = ['3D', '5D', '2W', '1M'];
     res.json({
       success: true,
-      data: periods
+      data: await trendRuleSets.list()
     });
   } catch (error) {
     res.status(500).json({
       success: false,
-      error: `Failed to get available periods: ${error instanceof Error ? error.message : 'Unknown error'}`
+      error: `Failed to get trend rule sets: ${error instanceof Error ? error.message : 'Unknown error'}`
+    });
+  }
+});
+
+// Create / replace custom rule set, lalu generate output rule set tersebut di background
+router.put('/rule-sets/:id', requireSupabaseUser, requireRuleSetEditor, async (req: any, res) => {
+  try {
+    const id = ruleSetIdSchema.parse(req.params.id);
+    const body = ruleSetBodySchema.parse(req.body || {});
+    const saved = await trendRuleSets.save({ id, ...body }, req.user?.email || req.user?.id || 'unknown');
+
+    trendFilterService.generateTrendFilterData(null, `Trend rule set ${id} updated`, [id]).catch(error => {
+      console.error(`❌ Trend generation for rule set ${id} failed:`, error);
+    });
+
+    return res.json({
+      success: true,
+      data: saved,
+      message: 'Rule set saved; trend data is being generated'
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const issue = error.issues[0];
+      return res.status(400).json({
+        success: false,
+        error: issue ? `${issue.path.join('.') || 'body'}: ${issue.message}` : 'Invalid rule set'
+      });
+    }
+    if (error instanceof TrendRuleSetValidationError) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    return res.status(500).json({
+      success: false,
+      error: `Failed to save trend rule set: ${error instanceof Error ? error.message : 'Unknown error'}`
+    });
+  }
+});
+
+router.delete('/rule-sets/:id', requireSupabaseUser, requireRuleSetEditor, async (req, res) => {
+  try {
+    const removed = await trendRuleSets.remove(req.params.id);
+    if (!removed) {
+      return res.status(404).json({ success: false, error: `Trend rule set ${req.params.id} not found` });
+    }
+    return res.json({ success: true, message: 'Rule set deleted' });
+  } catch (error) {
+    if (error instanceof TrendRuleSetValidationError) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    return res.status(500).json({
+      success: false,
+      error: `Failed to delete trend rule set: ${error instanceof Error ? error.message : 'Unknown error'}`
     });
   }
 });
@@ -15,6 +15,7 @@ import BidAskDataScheduler from '../services/bidAskDataScheduler';
 import BrokerSummaryDataScheduler from '../services/brokerSummaryDataScheduler';
 import TopBrokerDataScheduler from '../services/topBrokerDataScheduler';
 import BrokerInventoryDataScheduler from '../services/brokerInventoryDataScheduler';
+import BrokerClusteringDataScheduler from '../services/brokerClusteringDataScheduler';
 import ForeignFlowDataScheduler from '../services/foreignFlowDataScheduler';
 import MoneyFlowDataScheduler from '../services/moneyFlowDataScheduler';
 import { preGenerateAllRRC } from '../services/rrcDataScheduler';
@@ -27,6 +28,8 @@ import BrokerSummarySectorDataScheduler from '../services/brokerSummarySectorDat
 import BrokerBreakdownDataScheduler from '../services/brokerBreakdownDataScheduler';
 import BreakDoneTradeDataScheduler from '../services/breakDoneTradeDataScheduler';
 import HakaHakiAnalysisDataScheduler from '../services/hakaHakiAnalysisDataScheduler';
+import IntradayOhlcDataScheduler from '../services/intradayOhlcDataScheduler';
+import MarketBreadthDataScheduler from '../services/marketBreadthDataScheduler';
 import BrokerTransactionDataScheduler from '../services/brokerTransactionDataScheduler';
 import BrokerTransactionRGTNNGDataScheduler from '../services/brokerTransactionRGTNNGDataScheduler';
 import BrokerTransactionFDDataScheduler from '../services/brokerTransactionFDDataScheduler';
@@ -40,6 +43,10 @@ import { BrokerTransactionStockSectorDataScheduler } from '../services/brokerTra
 import { BrokerTransactionALLDataScheduler } from '../services/brokerTransactionALLDataScheduler';
 import { BrokerDataRGTNNGCalculator } from '../calculations/broker/broker_data_rg_tn_ng';
 import { updateWatchlistSnapshot } from '../services/watchlistSnapshotService';
+import { recomputeManifest, DATASET_GRAPH, SOURCE_DATASET, EXTERNAL_DATASETS } from '../services/recomputeManifest';
+import { dataQualityService, runDataQualityValidation } from '../services/dataQualityService';
+import { getBackfillFeatures, startBackfill, resumeBackfill, getBackfillJobs, getBackfillJob } from '../services/scheduler';
+import { BackfillValidationError } from '../services/backfillService';
 import { supabaseAdmin } from '../supabaseClient';
 
 const router = express.Router();
@@ -414,6 +421,52 @@ router.post('/accumulation', async (req, res) => {
   }
 });
 
+// Manual trigger for Broker Clustering (rolling window up to latest trading day)
+router.post('/broker-clustering', async (req, res) => {
+  try {
+    console.log('🔄 Manual trigger: Broker Clustering calculation');
+
+    const triggeredBy = getTriggeredBy(req);
+    const logEntry = await SchedulerLogService.createLog({
+      feature_name: 'broker_clustering',
+      trigger_type: 'manual',
+      triggered_by: triggeredBy,
+      status: 'running',
+      environment: process.env['NODE_ENV'] || 'development'
+    });
+
+    if (!logEntry) {
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to create scheduler log entry'
+      });
+    }
+
+    // Run calculation in background
+    const brokerClusteringService = new BrokerClusteringDataScheduler();
+    brokerClusteringService.generateBrokerClusteringData('all', logEntry.id, triggeredBy).catch(async (error) => {
+      if (logEntry.id) {
+        await SchedulerLogService.updateLog(logEntry.id, {
+          status: 'failed',
+          error_message: error.message
+        });
+      }
+    });
+
+    return res.json({
+      success: true,
+      message: 'Broker Clustering calculation triggered',
+      log_id: logEntry.id
+    });
+  } catch (error) {
+    console.error('❌ Error triggering broker clustering calculation:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // Manual trigger for Bid/Ask Footprint calculation
 router.post('/bidask', async (req, res) => {
   try {
@@ -2193,6 +2246,102 @@ router.post('/broker-transaction-all', async (req, res) => {
   }
 });
 
+// Manual trigger for Intraday OHLC (candle 1/5/15/30/60 menit dari DT)
+router.post('/stock-intraday', async (req, res) => {
+  try {
+    console.log('🔄 Manual trigger: Intraday OHLC');
+
+    const triggeredBy = getTriggeredBy(req);
+    const logEntry = await SchedulerLogService.createLog({
+      feature_name: 'stock_intraday',
+      trigger_type: 'manual',
+      triggered_by: triggeredBy,
+      status: 'running',
+      environment: process.env['NODE_ENV'] || 'development'
+    });
+
+    if (!logEntry) {
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to create scheduler log entry'
+      });
+    }
+
+    const intradayService = new IntradayOhlcDataScheduler();
+
+    // Execute in background
+    intradayService.generateIntradayData('all', logEntry.id || null, triggeredBy).catch(async (error: any) => {
+      console.error(`❌ Intraday OHLC error: ${error.message}`);
+      if (logEntry.id) {
+        await SchedulerLogService.updateLog(logEntry.id, {
+          status: 'failed',
+          error_message: error.message
+        });
+      }
+    });
+
+    return res.json({
+      success: true,
+      message: 'Intraday OHLC triggered successfully',
+      log_id: logEntry.id
+    });
+  } catch (error: any) {
+    console.error('❌ Error triggering Intraday OHLC:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Manual trigger for Market Breadth (advancers/decliners, new high/low, % di atas MA, foreign, sektor)
+router.post('/market-breadth', async (req, res) => {
+  try {
+    console.log('🔄 Manual trigger: Market Breadth');
+
+    const triggeredBy = getTriggeredBy(req);
+    const logEntry = await SchedulerLogService.createLog({
+      feature_name: 'market_breadth',
+      trigger_type: 'manual',
+      triggered_by: triggeredBy,
+      status: 'running',
+      environment: process.env['NODE_ENV'] || 'development'
+    });
+
+    if (!logEntry) {
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to create scheduler log entry'
+      });
+    }
+
+    const marketBreadthService = new MarketBreadthDataScheduler();
+
+    // Execute in background
+    marketBreadthService.generateMarketBreadth('all', logEntry.id || null, triggeredBy).catch(async (error: any) => {
+      console.error(`❌ Market Breadth error: ${error.message}`);
+      if (logEntry.id) {
+        await SchedulerLogService.updateLog(logEntry.id, {
+          status: 'failed',
+          error_message: error.message
+        });
+      }
+    });
+
+    return res.json({
+      success: true,
+      message: 'Market Breadth triggered successfully',
+      log_id: logEntry.id
+    });
+  } catch (error: any) {
+    console.error('❌ Error triggering Market Breadth:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // Manual trigger for HAKA HAKI Analysis
 router.post('/haka-haki-analysis', async (req, res) => {
   try {
@@ -2250,4 +2399,233 @@ router.post('/haka-haki-analysis', async (req, res) => {
   }
 });
 
-export default router;
\ No newline at end of file
+// Manual trigger for Data Quality validation (OHLC repair/quarantine + DT vs OHLC checks)
+router.post('/data-quality', async (req, res) => {
+  try {
+    console.log('🔄 Manual trigger: Data Quality validation');
+
+    const triggeredBy = getTriggeredBy(req);
+    const logEntry = await SchedulerLogService.createLog({
+      feature_name: 'data_quality',
+      trigger_type: 'manual',
+      triggered_by: triggeredBy,
+      status: 'running',
+      environment: process.env['NODE_ENV'] || 'development'
+    });
+
+    if (!logEntry) {
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to create scheduler log entry'
+      });
+    }
+
+    // Execute in background (markCompleted/markFailed ditangani runDataQualityValidation)
+    runDataQualityValidation(logEntry.id || null, triggeredBy).catch((error: any) => {
+      console.error(`❌ Data Quality validation error: ${error.message}`);
+    });
+
+    return res.json({
+      success: true,
+      message: 'Data Quality validation triggered successfully',
+      log_id: logEntry.id
+    });
+  } catch (error: any) {
+    console.error('❌ Error triggering Data Quality validation:', error);
+    return res.status(500).json({
+      success: false,
+      message: error.message || 'Unknown error'
+    });
+  }
+});
+
+// Get data quality report for a date
+router.get('/data-quality/:date', async (req, res) => {
+  try {
+    const { date } = req.params;
+    if (!/^\d{8}$/.test(date)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid date format. Expected YYYYMMDD'
+      });
+    }
+
+    const report = await dataQualityService.getReport(date);
+    if (!report) {
+      return res.status(404).json({
+        success: false,
+        message: `No data quality report for ${date}`
+      });
+    }
+    return res.json({ success: true, data: report });
+  } catch (error: any) {
+    console.error('❌ Error fetching data quality report:', error);
+    return res.status(500).json({
+      success: false,
+      message: error.message || 'Unknown error'
+    });
+  }
+});
+
+// Get recompute manifest status (which outputs are built from which input) for a date
+router.get('/manifest/:date', async (req, res) => {
+  try {
+    const { date } = req.params;
+    if (!/^\d{8}$/.test(date)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid date format. Expected YYYYMMDD'
+      });
+    }
+
+    const datasets = await recomputeManifest.getDateStatus(date);
+    return res.json({
+      success: true,
+      data: { date, datasets }
+    });
+  } catch (error: any) {
+    console.error('❌ Error fetching recompute manifest:', error);
+    return res.status(500).json({
+      success: false,
+      message: error.message || 'Unknown error'
+    });
+  }
+});
+
+// Invalidate a dataset (and its downstream dependents) for a date so the next phase run recomputes it
+router.post('/manifest/invalidate', async (req, res) => {
+  try {
+    const { date, dataset = SOURCE_DATASET } = req.body || {};
+    if (!date || !/^\d{8}$/.test(String(date))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid date format. Expected YYYYMMDD'
+      });
+    }
+    if (dataset !== SOURCE_DATASET && !EXTERNAL_DATASETS.includes(dataset) && !DATASET_GRAPH[dataset]) {
+      return res.status(400).json({
+        success: false,
+        message: `Unknown dataset: ${dataset}`
+      });
+    }
+
+    const invalidated = await recomputeManifest.invalidate(dataset, String(date), `manual invalidation by ${getTriggeredBy(req)}`);
+    return res.json({
+      success: true,
+      message: `Invalidated ${invalidated.length} dataset(s) for ${date}`,
+      data: { date, dataset, invalidated }
+    });
+  } catch (error: any) {
+    console.error('❌ Error invalidating recompute manifest:', error);
+    return res.status(500).json({
+      success: false,
+      message: error.message || 'Unknown error'
+    });
+  }
+});
+
+// List backfill-capable calculators and recent backfill jobs
+router.get('/backfill', async (_req, res) => {
+  try {
+    const { activeJobId, jobs } = await getBackfillJobs();
+    return res.json({
+      success: true,
+      data: { features: getBackfillFeatures(), activeJobId, jobs }
+    });
+  } catch (error: any) {
+    console.error('❌ Error fetching backfill jobs:', error);
+    return res.status(500).json({
+      success: false,
+      message: error.message || 'Unknown error'
+    });
+  }
+});
+
+// Get a backfill job with per-date progress
+router.get('/backfill/:id', async (req, res) => {
+  try {
+    const job = await getBackfillJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        message: `Backfill job not found: ${req.params.id}`
+      });
+    }
+    return res.json({ success: true, data: job });
+  } catch (error: any) {
+    console.error('❌ Error fetching backfill job:', error);
+    return res.status(500).json({
+      success: false,
+      message: error.message || 'Unknown error'
+    });
+  }
+});
+
+// Recompute one calculator for a historical date range (cancel via /logs/:id/cancel)
+router.post('/backfill', async (req, res) => {
+  try {
+    const { feature, fromDate, toDate, mode = 'skip_existing' } = req.body || {};
+    if (!feature || !fromDate || !toDate) {
+      return res.status(400).json({
+        success: false,
+        message: 'feature, fromDate and toDate are required'
+      });
+    }
+
+    const triggeredBy = getTriggeredBy(req);
+    console.log(`🔄 Manual trigger: Backfill ${feature} ${fromDate} - ${toDate} (${mode})`);
+    const job = await startBackfill(String(feature), {
+      fromDate: String(fromDate),
+      toDate: String(toDate),
+      mode,
+      triggeredBy
+    });
+
+    return res.json({
+      success: true,
+      message: `Backfill ${job.featureName} started for ${job.dates.length} date(s)`,
+      log_id: job.logId,
+      data: job
+    });
+  } catch (error: any) {
+    if (error instanceof BackfillValidationError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('❌ Error triggering backfill:', error);
+    return res.status(500).json({
+      success: false,
+      message: error.message || 'Unknown error'
+    });
+  }
+});
+
+// Resume an interrupted, cancelled or failed backfill from its unfinished dates
+router.post('/backfill/:id/resume', async (req, res) => {
+  try {
+    const job = await resumeBackfill(req.params.id, getTriggeredBy(req));
+    const remaining = job.dates.length - job.completedDates.length;
+    return res.json({
+      success: true,
+      message: `Backfill ${job.featureName} resumed with ${remaining} remaining date(s)`,
+      log_id: job.logId,
+      data: job
+    });
+  } catch (error: any) {
+    if (error instanceof BackfillValidationError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('❌ Error resuming backfill:', error);
+    return res.status(500).json({
+      success: false,
+      message: error.message || 'Unknown error'
+    });
+  }
+});
+
+export default router;
@@ -1,5 +1,14 @@
 import express from 'express';
+import { z } from 'zod';
 import { downloadText } from '../utils/azureBlob';
+import { requireSupabaseUser } from '../middleware/requireSupabaseUser';
+import {
+  WatchlistService,
+  WatchlistValidationError,
+  buildWatchlistCsv,
+  parseWatchlistCsv
+} from '../services/watchlistService';
+import { createSuccessResponse, createErrorResponse, ERROR_CODES, HTTP_STATUS } from '../utils/responseUtils';
 
 const router = express.Router();
 const SNAPSHOT_BLOB_PATH = 'watchlist/watchlist.csv';
@@ -210,4 +219,302 @@ router.post('/', async (req, res) => {
   }
 });
 
+// ---------------------------------------------------------------------------
+// Named watchlists per user (server-side)
+// ---------------------------------------------------------------------------
+
+const symbolSchema = z.string().trim().min(1).max(12).regex(/^[A-Za-z0-9.]+$/, 'Invalid symbol');
+const noteSchema = z.string().trim().max(500).nullable().optional();
+
+const itemSchema = z.object({
+  symbol: symbolSchema,
+  note: noteSchema
+});
+
+const createListSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  items: z.array(itemSchema).optional()
+});
+
+const renameListSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100)
+});
+
+const reorderListsSchema = z.object({
+  ids: z.array(z.string()).min(1)
+});
+
+const setItemsSchema = z.object({
+  items: z.array(itemSchema)
+});
+
+const importSchema = z.object({
+  csv: z.string().min(1, 'CSV content is required').max(200_000),
+  mode: z.enum(['append', 'replace']).optional()
+});
+
+function handleListError(res: any, error: any, context: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(HTTP_STATUS.BAD_REQUEST).json(createErrorResponse(
+      error.issues[0]?.message || 'Invalid request',
+      ERROR_CODES.VALIDATION_ERROR,
+      error.issues[0]?.path.join('.'),
+      HTTP_STATUS.BAD_REQUEST
+    ));
+  }
+  if (error instanceof WatchlistValidationError) {
+    return res.status(HTTP_STATUS.BAD_REQUEST).json(createErrorResponse(
+      error.message,
+      ERROR_CODES.VALIDATION_ERROR,
+      undefined,
+      HTTP_STATUS.BAD_REQUEST
+    ));
+  }
+  console.error(`❌ ${context}:`, error);
+  return res.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).json(createErrorResponse(
+    'Internal server error',
+    ERROR_CODES.INTERNAL_SERVER_ERROR,
+    undefined,
+    HTTP_STATUS.INTERNAL_SERVER_ERROR
+  ));
+}
+
+function listNotFound(res: any) {
+  return res.status(HTTP_STATUS.NOT_FOUND).json(createErrorResponse(
+    'Watchlist not found',
+    ERROR_CODES.NOT_FOUND,
+    undefined,
+    HTTP_STATUS.NOT_FOUND
+  ));
+}
+
+/**
+ * GET /api/watchlist/lists
+ * Semua watchlist milik user, urut sesuai position
+ */
+router.get('/lists', requireSupabaseUser, async (req: any, res) => {
+  try {
+    const lists = await WatchlistService.listWatchlists(req.user.id);
+    return res.json(createSuccessResponse(lists));
+  } catch (error) {
+    return handleListError(res, error, 'GET /api/watchlist/lists');
+  }
+});
+
+/**
+ * POST /api/watchlist/lists
+ * Body: { name, items?: [{ symbol, note? }] }
+ */
+router.post('/lists', requireSupabaseUser, async (req: any, res) => {
+  try {
+    const body = createListSchema.parse(req.body);
+    const list = await WatchlistService.createWatchlist(req.user.id, body.name, body.items || []);
+    return res.status(201).json(createSuccessResponse(list, 'Watchlist created'));
+  } catch (error) {
+    return handleListError(res, error, 'POST /api/watchlist/lists');
+  }
+});
+
+/**
+ * PUT /api/watchlist/lists/order
+ * Body: { ids: string[] } - urutan watchlist baru
+ */
+router.put('/lists/order', requireSupabaseUser, async (req: any, res) => {
+  try {
+    const { ids } = reorderListsSchema.parse(req.body);
+    const lists = await WatchlistService.reorderWatchlists(req.user.id, ids);
+    return res.json(createSuccessResponse(lists));
+  } catch (error) {
+    return handleListError(res, error, 'PUT /api/watchlist/lists/order');
+  }
+});
+
+/**
+ * PATCH /api/watchlist/lists/:id
+ * Body: { name }
+ */
+router.patch('/lists/:id', requireSupabaseUser, async (req: any, res) => {
+  try {
+    const { name } = renameListSchema.parse(req.body);
+    const list = await WatchlistService.renameWatchlist(req.user.id, req.params.id, name);
+    if (!list) return listNotFound(res);
+    return res.json(createSuccessResponse(list, 'Watchlist updated'));
+  } catch (error) {
+    return handleListError(res, error, 'PATCH /api/watchlist/lists/:id');
+  }
+});
+
+/**
+ * DELETE /api/watchlist/lists/:id
+ */
+router.delete('/lists/:id', requireSupabaseUser, async (req: any, res) => {
+  try {
+    const deleted = await WatchlistService.deleteWatchlist(req.user.id, req.params.id);
+    if (!deleted) return listNotFound(res);
+    return res.json(createSuccessResponse({ id: req.params.id }, 'Watchlist deleted'));
+  } catch (error) {
+    return handleListError(res, error, 'DELETE /api/watchlist/lists/:id');
+  }
+});
+
+/**
+ * PUT /api/watchlist/lists/:id/items
+ * Body: { items: [{ symbol, note? }] } - ganti seluruh isi; urutan array = urutan tampil
+ */
+router.put('/lists/:id/items', requireSupabaseUser, async (req: any, res) => {
+  try {
+    const { items } = setItemsSchema.parse(req.body);
+    const list = await WatchlistService.setItems(req.user.id, req.params.id, items);
+    if (!list) return listNotFound(res);
+    return res.json(createSuccessResponse(list));
+  } catch (error) {
+    return handleListError(res, error, 'PUT /api/watchlist/lists/:id/items');
+  }
+});
+
+/**
+ * POST /api/watchlist/lists/:id/items
+ * Body: { symbol, note? } - tambah ke akhir list
+ */
+router.post('/lists/:id/items', requireSupabaseUser, async (req: any, res) => {
+  try {
+    const item = itemSchema.parse(req.body);
+    const list = await WatchlistService.addItems(req.user.id, req.params.id, [item]);
+    if (!list) return listNotFound(res);
+    return res.json(createSuccessResponse(list));
+  } catch (error) {
+    return handleListError(res, error, 'POST /api/watchlist/lists/:id/items');
+  }
+});
+
+/**
+ * PATCH /api/watchlist/lists/:id/items/:symbol
+ * Body: { note }
+ */
+router.patch('/lists/:id/items/:symbol', requireSupabaseUser, async (req: any, res) => {
+  try {
+    const note = noteSchema.parse(req.body?.note);
+    const list = await WatchlistService.updateItemNote(req.user.id, req.params.id, req.params.symbol, note ?? null);
+    if (!list) return listNotFound(res);
+    return res.json(createSuccessResponse(list));
+  } catch (error) {
+    return handleListError(res, error, 'PATCH /api/watchlist/lists/:id/items/:symbol');
+  }
+});
+
+/**
+ * DELETE /api/watchlist/lists/:id/items/:symbol
+ */
+router.delete('/lists/:id/items/:symbol', requireSupabaseUser, async (req: any, res) => {
+  try {
+    const list = await WatchlistService.removeItem(req.user.id, req.params.id, req.params.symbol);
+    if (!list) return listNotFound(res);
+    return res.json(createSuccessResponse(list));
+  } catch (error) {
+    return handleListError(res, error, 'DELETE /api/watchlist/lists/:id/items/:symbol');
+  }
+});
+
+/**
+ * GET /api/watchlist/lists/:id/export
+ * Download CSV (symbol,note)
+ */
+router.get('/lists/:id/export', requireSupabaseUser, async (req: any, res) => {
+  try {
+    const list = await WatchlistService.getWatchlist(req.user.id, req.params.id);
+    if (!list) return listNotFound(res);
+    const filename = `${list.name.replace(/[^A-Za-z0-9_-]+/g, '_') || 'watchlist'}.csv`;
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    return res.send(buildWatchlistCsv(list));
+  } catch (error) {
+    return handleListError(res, error, 'GET /api/watchlist/lists/:id/export');
+  }
+});
+
+/**
+ * POST /api/watchlist/lists/:id/import
+ * Body: { csv, mode?: 'append' | 'replace' } - CSV ticker (kolom kedua opsional = note)
+ */
+router.post('/lists/:id/import', requireSupabaseUser, async (req: any, res) => {
+  try {
+    const { csv, mode } = importSchema.parse(req.body);
+    const items = parseWatchlistCsv(csv);
+    if (items.length === 0) {
+      throw new WatchlistValidationError('No valid tickers found in CSV');
+    }
+    const list = mode === 'replace'
+      ? await WatchlistService.setItems(req.user.id, req.params.id, items)
+      : await WatchlistService.addItems(req.user.id, req.params.id, items);
+    if (!list) return listNotFound(res);
+    return res.json(createSuccessResponse({ list, imported: items.length }, `Imported ${items.length} symbols`));
+  } catch (error) {
+    return handleListError(res, error, 'POST /api/watchlist/lists/:id/import');
+  }
+});
+
+/**
+ * POST /api/watchlist/lists/:id/share
+ * Buat share token baru (token lama tidak berlaku lagi)
+ */
+router.post('/lists/:id/share', requireSupabaseUser, async (req: any, res) => {
+  try {
+    const token = await WatchlistService.createShareToken(req.user.id, req.params.id);
+    if (!token) return listNotFound(res);
+    return res.json(createSuccessResponse({ shareToken: token }, 'Share link created'));
+  } catch (error) {
+    return handleListError(res, error, 'POST /api/watchlist/lists/:id/share');
+  }
+});
+
+/**
+ * DELETE /api/watchlist/lists/:id/share
+ */
+router.delete('/lists/:id/share', requireSupabaseUser, async (req: any, res) => {
+  try {
+    const revoked = await WatchlistService.revokeShareToken(req.user.id, req.params.id);
+    if (!revoked) return listNotFound(res);
+    return res.json(createSuccessResponse({ id: req.params.id }, 'Share link revoked'));
+  } catch (error) {
+    return handleListError(res, error, 'DELETE /api/watchlist/lists/:id/share');
+  }
+});
+
+/**
+ * GET /api/watchlist/shared/:token
+ * Read-only view watchlist yang di-share (tanpa login), beserta harga dari snapshot
+ */
+router.get('/shared/:token', async (req, res) => {
+  try {
+    const list = await WatchlistService.getSharedWatchlist(req.params.token);
+    if (!list) return listNotFound(res);
+
+    let snapshot: WatchlistSnapshotRow[] = [];
+    try {
+      snapshot = filterSnapshot(await loadSnapshot(), list.items.map(item => item.symbol));
+    } catch {
+      // Harga opsional; list tetap ditampilkan walau snapshot gagal dimuat
+    }
+    const snapshotBySymbol = new Map(snapshot.map(row => [row.symbol, row]));
+
+    return res.json(createSuccessResponse({
+      name: list.name,
+      updated_at: list.updated_at,
+      items: list.items.map(item => {
+        const row = snapshotBySymbol.get(item.symbol);
+        return {
+          symbol: item.symbol,
+          note: item.note,
+          name: row?.name ?? item.symbol,
+          price: row?.last_price ?? null,
+          change: row?.change ?? null,
+          changePercent: row?.change_percent ?? null
+        };
+      })
+    }));
+  } catch (error) {
+    return handleListError(res, error, 'GET /api/watchlist/shared/:token');
+  }
+});
+
 export default router;
@@ -1,6 +1,6 @@
 import { BlobServiceClient } from '@azure/storage-blob';
 import * as dotenv from 'dotenv';
-import { getSectorFallback } from '../services/dataUpdateService';
+import { UNCLASSIFIED_SECTOR } from '../services/sectorTaxonomyService';
 
 // Load environment variables
 dotenv.config();
@@ -125,10 +125,9 @@ async function checkMissingStocks() {
                 }
             }
 
-            // 2. Check Fallback Sector (Hash-based)
+            // 2. Check Unclassified bucket
             if (!found) {
-                const fallbackSector = getSectorFallback(ticker, availableSectors);
-                const blobName = `stock/${fallbackSector}/${ticker}.csv`;
+                const blobName = `stock/${UNCLASSIFIED_SECTOR}/${ticker}.csv`;
                 const stockBlob = containerClient.getBlockBlobClient(blobName);
                 if (await stockBlob.exists()) {
                     found = true;
@@ -0,0 +1,215 @@
+// alertDelivery.ts
+// Delivery channel untuk alert yang ter-trigger (selain inbox in-app)
+//
+// ALERT_DELIVERY_TRANSPORT=live  -> email dikirim lewat HTTP email relay, webhook di-POST ke URL user
+// ALERT_DELIVERY_TRANSPORT=stub  -> tidak ada request keluar; payload dicatat di memory + console (untuk test lokal)
+
+import axios from 'axios';
+import dns from 'dns';
+import https from 'https';
+import net from 'net';
+import config from '../config';
+
+export type AlertChannel = 'email' | 'webhook';
+
+export interface AlertDeliveryMessage {
+  userId: string;
+  ruleId: string;
+  ruleName: string;
+  subject: string;
+  text: string;
+  payload: Record<string, any>;
+}
+
+export interface AlertDeliveryTarget {
+  channel: AlertChannel;
+  /** Email address untuk channel email, URL untuk channel webhook */
+  address: string;
+}
+
+export interface AlertDeliveryResult {
+  channel: AlertChannel;
+  success: boolean;
+  error?: string;
+}
+
+export interface AlertTransport {
+  readonly name: string;
+  send(target: AlertDeliveryTarget, message: AlertDeliveryMessage): Promise<void>;
+}
+
+const DELIVERY_TIMEOUT_MS = 10000;
+
+// Webhook URL diisi user lalu di-POST dari server: tujuan ke jaringan internal (loopback, private,
+// link-local termasuk metadata 169.254.169.254, CGNAT, multicast) ditolak untuk mencegah SSRF
+const BLOCKED_ADDRESSES = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+].forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+].forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv6'));
+
+export class WebhookUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookUrlError';
+  }
+}
+
+export function isBlockedAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:127.0.0.1) dicek sebagai IPv4
+  const mapped = address.match(/^::ffff:(\d{1,3}(?:\.\d{1,3}){3})$/i);
+  if (mapped) return BLOCKED_ADDRESSES.check(mapped[1]!, 'ipv4');
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Validasi webhook URL: wajib https dan host harus resolve ke alamat publik
+ */
+export async function assertSafeWebhookUrl(rawUrl: string): Promise<void> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new WebhookUrlError('webhook_url is not a valid URL');
+  }
+  if (url.protocol !== 'https:') {
+    throw new WebhookUrlError('webhook_url must use https');
+  }
+  if (url.username || url.password) {
+    throw new WebhookUrlError('webhook_url must not contain credentials');
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  if (net.isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await dns.promises.lookup(host, { all: true })).map(entry => entry.address);
+    } catch {
+      throw new WebhookUrlError(`webhook_url host ${host} could not be resolved`);
+    }
+  }
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    throw new WebhookUrlError('webhook_url must point to a public address');
+  }
+}
+
+// Cek ulang alamat saat koneksi dibuka, supaya DNS yang berubah setelah validasi (rebinding) tetap tertolak
+const safeLookup = ((hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error);
+    const blocked = addresses.find(entry => isBlockedAddress(entry.address));
+    if (blocked || addresses.length === 0) {
+      return callback(new WebhookUrlError(`webhook_url resolves to a non-public address${blocked ? ` (${blocked.address})` : ''}`));
+    }
+    if (options.all) return callback(null, addresses);
+    return callback(null, addresses[0]!.address, addresses[0]!.family);
+  });
+}) as net.LookupFunction;
+
+const webhookAgent = new https.Agent({ lookup: safeLookup });
+
+/**
+ * Transport live: webhook langsung ke URL user, email lewat relay HTTP
+ * (body JSON {from, to, subject, text}) yang dikonfigurasi di ALERT_EMAIL_API_URL
+ */
+export class HttpAlertTransport implements AlertTransport {
+  readonly name = 'live';
+
+  async send(target: AlertDeliveryTarget, message: AlertDeliveryMessage): Promise<void> {
+    if (target.channel === 'webhook') {
+      await assertSafeWebhookUrl(target.address);
+      await axios.post(target.address, {
+        rule_id: message.ruleId,
+        rule_name: message.ruleName,
+        subject: message.subject,
+        text: message.text,
+        ...message.payload
+      }, { timeout: DELIVERY_TIMEOUT_MS, maxRedirects: 0, httpsAgent: webhookAgent, proxy: false });
+      return;
+    }
+
+    if (!config.ALERT_EMAIL_API_URL) {
+      throw new Error('ALERT_EMAIL_API_URL is not configured');
+    }
+    const headers: Record<string, string> = {};
+    if (config.ALERT_EMAIL_API_KEY) {
+      headers['Authorization'] = `Bearer ${config.ALERT_EMAIL_API_KEY}`;
+    }
+    await axios.post(config.ALERT_EMAIL_API_URL, {
+      from: config.ALERT_EMAIL_FROM,
+      to: target.address,
+      subject: message.subject,
+      text: message.text
+    }, { headers, timeout: DELIVERY_TIMEOUT_MS });
+  }
+}
+
+/**
+ * Transport stub: menyimpan delivery terakhir di memory tanpa request keluar
+ */
+export class StubAlertTransport implements AlertTransport {
+  readonly name = 'stub';
+  private readonly sent: Array<{ target: AlertDeliveryTarget; message: AlertDeliveryMessage; sentAt: string }> = [];
+  private readonly maxEntries = 200;
+
+  async send(target: AlertDeliveryTarget, message: AlertDeliveryMessage): Promise<void> {
+    console.log(`📭 [AlertStub] ${target.channel} -> ${target.address}: ${message.subject}`);
+    this.sent.push({ target, message, sentAt: new Date().toISOString() });
+    if (this.sent.length > this.maxEntries) {
+      this.sent.shift();
+    }
+  }
+
+  getSent() {
+    return [...this.sent];
+  }
+
+  clear(): void {
+    this.sent.length = 0;
+  }
+}
+
+let activeTransport: AlertTransport | null = null;
+
+/**
+ * Get transport sesuai config ALERT_DELIVERY_TRANSPORT (lazy, singleton)
+ */
+export function getAlertTransport(): AlertTransport {
+  if (!activeTransport) {
+    activeTransport = config.ALERT_DELIVERY_TRANSPORT === 'live' ? new HttpAlertTransport() : new StubAlertTransport();
+  }
+  return activeTransport;
+}
+
+/**
+ * Override transport aktif (mis. untuk test)
+ */
+export function setAlertTransport(transport: AlertTransport | null): void {
+  activeTransport = transport;
+}
+
+/**
+ * Kirim ke semua target; kegagalan satu channel tidak menggagalkan channel lain
+ */
+export async function deliverAlert(targets: AlertDeliveryTarget[], message: AlertDeliveryMessage): Promise<AlertDeliveryResult[]> {
+  const transport = getAlertTransport();
+  const results: AlertDeliveryResult[] = [];
+  for (const target of targets) {
+    try {
+      await transport.send(target, message);
+      results.push({ channel: target.channel, success: true });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`❌ Alert delivery via ${target.channel} failed for rule ${message.ruleId}:`, errorMessage);
+      results.push({ channel: target.channel, success: false, error: errorMessage });
+    }
+  }
+  return results;
+}
@@ -0,0 +1,590 @@
+// alertService.ts
+// User-defined alert rules yang dievaluasi setelah phase scheduler selesai
+//
+// Tabel database:
+// - alert_rules  : id, user_id, name, rule_type, params (jsonb), channels (text[]), webhook_url,
+//                  is_active, last_matched, last_value, last_evaluated_at, last_triggered_at,
+//                  created_at, updated_at
+// - alert_events : id, user_id, rule_id, rule_name, rule_type, phase_id, message, payload (jsonb),
+//                  delivery (jsonb), is_read, created_at
+//
+// Alert ter-trigger saat kondisi berubah dari tidak terpenuhi menjadi terpenuhi (edge trigger),
+// sehingga kondisi yang bertahan beberapa hari tidak mengirim alert yang sama setiap hari.
+
+import { z } from 'zod';
+import { supabaseAdmin } from '../supabaseClient';
+import { downloadText, exists, listPaths } from '../utils/azureBlob';
+import { AlertChannel, AlertDeliveryResult, AlertDeliveryTarget, deliverAlert, assertSafeWebhookUrl } from './alertDelivery';
+
+export type AlertPhaseId = 'phase2_market_rotation' | 'phase3_flow_trade' | 'phase8_additional';
+
+const operatorSchema = z.enum(['>', '<']);
+const stockCodeSchema = z.string().trim().min(1).transform(s => s.toUpperCase());
+
+/**
+ * Parameter per rule type. Key = rule_type yang disimpan di alert_rules.
+ */
+export const ALERT_RULE_PARAM_SCHEMAS = {
+  // "foreign net buy on BBRI > 50bn for 3 days" (value = NetBuyVol x close)
+  foreign_net_buy: z.object({
+    stockCode: stockCodeSchema,
+    operator: operatorSchema,
+    threshold: z.number(),
+    days: z.number().int().min(1).max(30).default(1),
+    metric: z.enum(['value', 'volume']).default('value')
+  }),
+  // "MFI < 20"
+  mfi: z.object({
+    stockCode: stockCodeSchema,
+    operator: operatorSchema,
+    threshold: z.number().min(0).max(100)
+  }),
+  // "stock enters RRG Leading quadrant"
+  rrg_quadrant: z.object({
+    stockCode: stockCodeSchema,
+    quadrant: z.enum(['LEADING', 'WEAKENING', 'LAGGING', 'IMPROVING'])
+  }),
+  trend: z.object({
+    stockCode: stockCodeSchema,
+    period: z.enum(['3D', '5D', '2W', '1M']).default('1M'),
+    trend: z.enum(['Uptrend', 'Sideways', 'Downtrend'])
+  }),
+  // "broker YP net accumulation crosses X lots"
+  broker_accumulation: z.object({
+    stockCode: stockCodeSchema,
+    brokerCode: z.string().trim().min(1).transform(s => s.toUpperCase()),
+    operator: operatorSchema,
+    thresholdLots: z.number()
+  })
+} as const;
+
+export type AlertRuleType = keyof typeof ALERT_RULE_PARAM_SCHEMAS;
+
+export const ALERT_RULE_TYPES = Object.keys(ALERT_RULE_PARAM_SCHEMAS) as AlertRuleType[];
+
+/** Phase yang menghasilkan data untuk setiap rule type */
+export const ALERT_RULE_PHASES: Record<AlertRuleType, AlertPhaseId> = {
+  rrg_quadrant: 'phase2_market_rotation',
+  trend: 'phase2_market_rotation',
+  mfi: 'phase3_flow_trade',
+  foreign_net_buy: 'phase3_flow_trade',
+  broker_accumulation: 'phase8_additional'
+};
+
+export interface AlertRule {
+  id: string;
+  user_id: string;
+  name: string;
+  rule_type: AlertRuleType;
+  params: Record<string, any>;
+  channels: AlertChannel[];
+  webhook_url: string | null;
+  is_active: boolean;
+  last_matched: boolean;
+  last_value: string | null;
+  last_evaluated_at: string | null;
+  last_triggered_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AlertEvent {
+  id: string;
+  user_id: string;
+  rule_id: string;
+  rule_name: string;
+  rule_type: AlertRuleType;
+  phase_id: string | null;
+  message: string;
+  payload: Record<string, any>;
+  delivery: AlertDeliveryResult[];
+  is_read: boolean;
+  created_at: string;
+}
+
+export interface AlertRuleInput {
+  name: string;
+  rule_type: AlertRuleType;
+  params: Record<string, any>;
+  channels?: AlertChannel[];
+  webhook_url?: string | null;
+  is_active?: boolean;
+}
+
+export interface AlertEvaluation {
+  matched: boolean;
+  value: number | string | null;
+  asOf: string | null;
+  message: string;
+}
+
+export class AlertRuleValidationError extends Error {
+  constructor(message: string, readonly details?: unknown) {
+    super(message);
+    this.name = 'AlertRuleValidationError';
+  }
+}
+
+const compare = (value: number, operator: '>' | '<', threshold: number): boolean =>
+  operator === '>' ? value > threshold : value < threshold;
+
+const normalizeDate = (date: string): string => date.trim().replace(/-/g, '');
+
+function parseCsv(content: string): { header: string[]; rows: string[][] } {
+  const lines = content.split(/\r?\n/).filter(line => line.trim().length > 0);
+  const header = (lines[0] || '').split(',').map(h => h.trim().replace(/^\uFEFF/, ''));
+  return { header, rows: lines.slice(1).map(line => line.split(',').map(v => v.trim())) };
+}
+
+/**
+ * Cache file per satu putaran evaluasi - banyak rule membaca file yang sama
+ * (mis. rrg_output/scanner/o3-rrg.csv)
+ */
+class EvaluationContext {
+  private readonly files = new Map<string, Promise<string | null>>();
+  private stockPaths: Promise<Map<string, string>> | null = null;
+
+  load(path: string): Promise<string | null> {
+    let pending = this.files.get(path);
+    if (!pending) {
+      pending = (async () => {
+        try {
+          if (!(await exists(path))) return null;
+          return await downloadText(path);
+        } catch (error) {
+          console.warn(`⚠️ Alert evaluation could not read ${path}:`, error);
+          return null;
+        }
+      })();
+      this.files.set(path, pending);
+    }
+    return pending;
+  }
+
+  /** Close per tanggal (YYYYMMDD) dari stock/{sector}/{ticker}.csv */
+  async getClosePrices(stockCode: string): Promise<Map<string, number>> {
+    if (!this.stockPaths) {
+      this.stockPaths = listPaths({ prefix: 'stock/' }).then(files => {
+        const lookup = new Map<string, string>();
+        files.forEach(file => {
+          const ticker = file.split('/')[2]?.replace('.csv', '');
+          if (ticker) lookup.set(ticker.toUpperCase(), file);
+        });
+        return lookup;
+      });
+    }
+    const path = (await this.stockPaths).get(stockCode);
+    const closes = new Map<string, number>();
+    const content = path ? await this.load(path) : null;
+    if (!content) return closes;
+
+    const { header, rows } = parseCsv(content);
+    const dateIdx = header.findIndex(h => h.toLowerCase() === 'date');
+    const closeIdx = header.findIndex(h => h.toLowerCase() === 'close');
+    if (dateIdx < 0 || closeIdx < 0) return closes;
+    rows.forEach(row => {
+      const close = parseFloat(row[closeIdx] || '0');
+      if (row[dateIdx] && close > 0) closes.set(normalizeDate(row[dateIdx]!), close);
+    });
+    return closes;
+  }
+}
+
+type RuleEvaluator = (params: any, context: EvaluationContext) => Promise<AlertEvaluation>;
+
+const formatNumber = (value: number): string => value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+
+const EVALUATORS: Record<AlertRuleType, RuleEvaluator> = {
+  foreign_net_buy: async (params: z.infer<typeof ALERT_RULE_PARAM_SCHEMAS.foreign_net_buy>, context) => {
+    const content = await context.load(`foreign_flow/${params.stockCode}.csv`);
+    if (!content) return { matched: false, value: null, asOf: null, message: `No foreign flow data for ${params.stockCode}` };
+
+    const { header, rows } = parseCsv(content);
+    const dateIdx = header.indexOf('Date');
+    const netIdx = header.indexOf('NetBuyVol');
+    const series = rows
+      .map(row => ({ date: normalizeDate(row[dateIdx] || ''), netBuyVol: parseFloat(row[netIdx] || '0') || 0 }))
+      .filter(row => row.date)
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .slice(-params.days);
+    if (series.length < params.days) {
+      return { matched: false, value: null, asOf: series[series.length - 1]?.date || null, message: `Not enough foreign flow history for ${params.stockCode}` };
+    }
+
+    const closes = params.metric === 'value' ? await context.getClosePrices(params.stockCode) : null;
+    const values = series.map(row => (closes ? row.netBuyVol * (closes.get(row.date) || 0) : row.netBuyVol));
+    const matched = values.every(value => compare(value, params.operator, params.threshold));
+    const latest = values[values.length - 1] ?? 0;
+    const unit = params.metric === 'value' ? 'net buy value' : 'net buy volume';
+    return {
+      matched,
+      value: latest,
+      asOf: series[series.length - 1]?.date || null,
+      message: `${params.stockCode} foreign ${unit} ${params.operator} ${formatNumber(params.threshold)} for ${params.days} day(s) (latest ${formatNumber(latest)})`
+    };
+  },
+
+  mfi: async (params: z.infer<typeof ALERT_RULE_PARAM_SCHEMAS.mfi>, context) => {
+    const content = await context.load(`money_flow/stock/${params.stockCode}.csv`);
+    if (!content) return { matched: false, value: null, asOf: null, message: `No money flow data for ${params.stockCode}` };
+
+    const { header, rows } = parseCsv(content);
+    const dateIdx = header.indexOf('Date');
+    const mfiIdx = header.indexOf('MFI');
+    const latest = rows
+      .map(row => ({ date: normalizeDate(row[dateIdx] || ''), mfi: parseFloat(row[mfiIdx] || '') }))
+      .filter(row => row.date && Number.isFinite(row.mfi))
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .pop();
+    if (!latest) return { matched: false, value: null, asOf: null, message: `No MFI value for ${params.stockCode}` };
+
+    return {
+      matched: compare(latest.mfi, params.operator, params.threshold),
+      value: latest.mfi,
+      asOf: latest.date,
+      message: `${params.stockCode} MFI ${formatNumber(latest.mfi)} ${params.operator} ${params.threshold}`
+    };
+  },
+
+  rrg_quadrant: async (params: z.infer<typeof ALERT_RULE_PARAM_SCHEMAS.rrg_quadrant>, context) => {
+    const content = await context.load('rrg_output/scanner/o3-rrg.csv');
+    if (!content) return { matched: false, value: null, asOf: null, message: 'No RRG scanner output' };
+
+    const { header, rows } = parseCsv(content);
+    const row = rows.find(r => (r[header.indexOf('Symbol')] || '').toUpperCase() === params.stockCode);
+    if (!row) return { matched: false, value: null, asOf: null, message: `${params.stockCode} not found in RRG scanner` };
+
+    const rsRatio = parseFloat(row[header.indexOf('RS-Ratio')] || '0');
+    const rsMomentum = parseFloat(row[header.indexOf('RS-Momentum')] || '0');
+    const quadrant = rsRatio >= 100
+      ? (rsMomentum >= 100 ? 'LEADING' : 'WEAKENING')
+      : (rsMomentum >= 100 ? 'IMPROVING' : 'LAGGING');
+    return {
+      matched: quadrant === params.quadrant,
+      value: quadrant,
+      asOf: null,
+      message: `${params.stockCode} is in RRG ${quadrant} quadrant (RS-Ratio ${formatNumber(rsRatio)}, RS-Momentum ${formatNumber(rsMomentum)})`
+    };
+  },
+
+  trend: async (params: z.infer<typeof ALERT_RULE_PARAM_SCHEMAS.trend>, context) => {
+    const content = await context.load(`trend_output/o1-trend-${params.period.toLowerCase()}.csv`);
+    if (!content) return { matched: false, value: null, asOf: null, message: `No ${params.period} trend output` };
+
+    const { header, rows } = parseCsv(content);
+    const row = rows.find(r => (r[header.indexOf('Symbol')] || '').toUpperCase() === params.stockCode);
+    const trend = row?.[header.indexOf('Trend')] || null;
+    return {
+      matched: trend === params.trend,
+      value: trend,
+      asOf: null,
+      message: trend
+        ? `${params.stockCode} ${params.period} trend is ${trend}`
+        : `${params.stockCode} not found in ${params.period} trend output`
+    };
+  },
+
+  broker_accumulation: async (params: z.infer<typeof ALERT_RULE_PARAM_SCHEMAS.broker_accumulation>, context) => {
+    const content = await context.load(`broker_inventory/${params.stockCode}/${params.brokerCode}.csv`);
+    if (!content) return { matched: false, value: null, asOf: null, message: `No broker inventory for ${params.brokerCode} on ${params.stockCode}` };
+
+    const { header, rows } = parseCsv(content);
+    const dateIdx = header.indexOf('Date');
+    const cumIdx = header.indexOf('CumulativeNetBuyVol');
+    const latest = rows
+      .map(row => ({ date: normalizeDate(row[dateIdx] || ''), cumulative: parseFloat(row[cumIdx] || '0') || 0 }))
+      .filter(row => row.date)
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .pop();
+    if (!latest) return { matched: false, value: null, asOf: null, message: `No broker inventory rows for ${params.brokerCode} on ${params.stockCode}` };
+
+    // Inventory disimpan dalam lembar saham; threshold user dalam lot (100 lembar)
+    const lots = latest.cumulative / 100;
+    return {
+      matched: compare(lots, params.operator, params.thresholdLots),
+      value: lots,
+      asOf: latest.date,
+      message: `${params.brokerCode} net accumulation on ${params.stockCode} is ${formatNumber(lots)} lots (${params.operator} ${formatNumber(params.thresholdLots)})`
+    };
+  }
+};
+
+export class AlertService {
+  /**
+   * Validasi dan normalisasi params sesuai rule type
+   */
+  static parseParams(ruleType: string, params: unknown): Record<string, any> {
+    const schema = ALERT_RULE_PARAM_SCHEMAS[ruleType as AlertRuleType];
+    if (!schema) {
+      throw new AlertRuleValidationError(`Unknown rule type: ${ruleType}. Valid types: ${ALERT_RULE_TYPES.join(', ')}`);
+    }
+    const result = schema.safeParse(params);
+    if (!result.success) {
+      throw new AlertRuleValidationError(`Invalid params for ${ruleType}`, result.error.issues);
+    }
+    return result.data;
+  }
+
+  static async listRules(userId: string): Promise<AlertRule[]> {
+    const { data, error } = await supabaseAdmin
+      .from('alert_rules')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return data || [];
+  }
+
+  static async createRule(userId: string, input: AlertRuleInput): Promise<AlertRule> {
+    const params = this.parseParams(input.rule_type, input.params);
+    await this.validateChannels(input.channels || [], input.webhook_url);
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseAdmin
+      .from('alert_rules')
+      .insert([{
+        user_id: userId,
+        name: input.name,
+        rule_type: input.rule_type,
+        params,
+        channels: input.channels || [],
+        webhook_url: input.webhook_url || null,
+        is_active: input.is_active ?? true,
+        last_matched: false,
+        created_at: now,
+        updated_at: now
+      }])
+      .select()
+      .single();
+    if (error) throw error;
+    return data;
+  }
+
+  static async updateRule(userId: string, ruleId: string, input: Partial<AlertRuleInput>): Promise<AlertRule | null> {
+    const existing = await this.getRule(userId, ruleId);
+    if (!existing) return null;
+
+    const ruleType = input.rule_type || existing.rule_type;
+    const updates: Record<string, any> = { updated_at: new Date().toISOString() };
+    if (input.name !== undefined) updates['name'] = input.name;
+    if (input.is_active !== undefined) updates['is_active'] = input.is_active;
+    if (input.rule_type !== undefined || input.params !== undefined) {
+      updates['rule_type'] = ruleType;
+      updates['params'] = this.parseParams(ruleType, input.params ?? existing.params);
+      // Kondisi berubah - mulai dari state "belum terpenuhi" lagi
+      updates['last_matched'] = false;
+    }
+    if (input.channels !== undefined || input.webhook_url !== undefined) {
+      const channels = input.channels ?? existing.channels;
+      const webhookUrl = input.webhook_url !== undefined ? input.webhook_url : existing.webhook_url;
+      await this.validateChannels(channels, webhookUrl);
+      updates['channels'] = channels;
+      updates['webhook_url'] = webhookUrl || null;
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('alert_rules')
+      .update(updates)
+      .eq('id', ruleId)
+      .eq('user_id', userId)
+      .select()
+      .single();
+    if (error) throw error;
+    return data;
+  }
+
+  static async deleteRule(userId: string, ruleId: string): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+      .from('alert_rules')
+      .delete()
+      .eq('id', ruleId)
+      .eq('user_id', userId)
+      .select('id');
+    if (error) throw error;
+    return (data || []).length > 0;
+  }
+
+  static async getRule(userId: string, ruleId: string): Promise<AlertRule | null> {
+    const { data, error } = await supabaseAdmin
+      .from('alert_rules')
+      .select('*')
+      .eq('id', ruleId)
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Evaluasi satu rule terhadap data terbaru tanpa menyimpan state atau mengirim alert
+   */
+  static async previewRule(rule: Pick<AlertRule, 'rule_type' | 'params'>): Promise<AlertEvaluation> {
+    return EVALUATORS[rule.rule_type](rule.params, new EvaluationContext());
+  }
+
+  static async listEvents(userId: string, options: { unreadOnly?: boolean; limit?: number } = {}): Promise<AlertEvent[]> {
+    let query = supabaseAdmin
+      .from('alert_events')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(options.limit || 50);
+    if (options.unreadOnly) {
+      query = query.eq('is_read', false);
+    }
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  }
+
+  static async getUnreadCount(userId: string): Promise<number> {
+    const { count, error } = await supabaseAdmin
+      .from('alert_events')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('is_read', false);
+    if (error) throw error;
+    return count || 0;
+  }
+
+  /**
+   * Tandai event sebagai sudah dibaca; tanpa eventIds = semua event user
+   */
+  static async markRead(userId: string, eventIds?: string[]): Promise<void> {
+    let query = supabaseAdmin
+      .from('alert_events')
+      .update({ is_read: true })
+      .eq('user_id', userId)
+      .eq('is_read', false);
+    if (eventIds && eventIds.length > 0) {
+      query = query.in('id', eventIds);
+    }
+    const { error } = await query;
+    if (error) throw error;
+  }
+
+  /**
+   * Evaluasi semua rule aktif yang datanya dihasilkan oleh phase ini.
+   * Dipanggil scheduler setelah phase selesai - tidak pernah throw agar chain phase tidak terganggu.
+   */
+  static async evaluateAfterPhase(phaseId: AlertPhaseId): Promise<{ evaluated: number; triggered: number }> {
+    const ruleTypes = ALERT_RULE_TYPES.filter(type => ALERT_RULE_PHASES[type] === phaseId);
+    const summary = { evaluated: 0, triggered: 0 };
+
+    try {
+      const { data: rules, error } = await supabaseAdmin
+        .from('alert_rules')
+        .select('*')
+        .eq('is_active', true)
+        .in('rule_type', ruleTypes);
+      if (error) throw error;
+      if (!rules || rules.length === 0) {
+        return summary;
+      }
+
+      console.log(`🔔 Evaluating ${rules.length} alert rules after ${phaseId}...`);
+      const context = new EvaluationContext();
+      const emailCache = new Map<string, string | null>();
+
+      for (const rule of rules as AlertRule[]) {
+        try {
+          const evaluation = await EVALUATORS[rule.rule_type](rule.params, context);
+          summary.evaluated++;
+          const triggered = evaluation.matched && !rule.last_matched;
+          const now = new Date().toISOString();
+
+          await supabaseAdmin
+            .from('alert_rules')
+            .update({
+              last_matched: evaluation.matched,
+              last_value: evaluation.value === null ? null : String(evaluation.value),
+              last_evaluated_at: now,
+              ...(triggered ? { last_triggered_at: now } : {})
+            })
+            .eq('id', rule.id);
+
+          if (triggered) {
+            await this.triggerAlert(rule, evaluation, phaseId, emailCache);
+            summary.triggered++;
+          }
+        } catch (error) {
+          console.error(`❌ Error evaluating alert rule ${rule.id} (${rule.rule_type}):`, error);
+        }
+      }
+
+      console.log(`🔔 Alert evaluation after ${phaseId}: ${summary.evaluated} evaluated, ${summary.triggered} triggered`);
+    } catch (error) {
+      console.error(`❌ Alert evaluation after ${phaseId} failed:`, error);
+    }
+    return summary;
+  }
+
+  private static async triggerAlert(
+    rule: AlertRule,
+    evaluation: AlertEvaluation,
+    phaseId: AlertPhaseId,
+    emailCache: Map<string, string | null>
+  ): Promise<void> {
+    const payload = {
+      rule_type: rule.rule_type,
+      params: rule.params,
+      value: evaluation.value,
+      as_of: evaluation.asOf,
+      phase_id: phaseId
+    };
+
+    const { data: event, error } = await supabaseAdmin
+      .from('alert_events')
+      .insert([{
+        user_id: rule.user_id,
+        rule_id: rule.id,
+        rule_name: rule.name,
+        rule_type: rule.rule_type,
+        phase_id: phaseId,
+        message: evaluation.message,
+        payload,
+        delivery: [],
+        is_read: false,
+        created_at: new Date().toISOString()
+      }])
+      .select('id')
+      .single();
+    if (error) throw error;
+
+    const targets: AlertDeliveryTarget[] = [];
+    if (rule.channels.includes('webhook') && rule.webhook_url) {
+      targets.push({ channel: 'webhook', address: rule.webhook_url });
+    }
+    if (rule.channels.includes('email')) {
+      if (!emailCache.has(rule.user_id)) {
+        const { data: user } = await supabaseAdmin.from('users').select('email').eq('id', rule.user_id).maybeSingle();
+        emailCache.set(rule.user_id, user?.email || null);
+      }
+      const email = emailCache.get(rule.user_id);
+      if (email) targets.push({ channel: 'email', address: email });
+    }
+    if (targets.length === 0) return;
+
+    const delivery = await deliverAlert(targets, {
+      userId: rule.user_id,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      subject: `[Alert] ${rule.name}`,
+      text: evaluation.message,
+      payload
+    });
+    await supabaseAdmin.from('alert_events').update({ delivery }).eq('id', event.id);
+  }
+
+  private static async validateChannels(channels: AlertChannel[], webhookUrl: string | null | undefined): Promise<void> {
+    if (channels.includes('webhook') && !webhookUrl) {
+      throw new AlertRuleValidationError('webhook_url is required when the webhook channel is enabled');
+    }
+    if (webhookUrl) {
+      try {
+        await assertSafeWebhookUrl(webhookUrl);
+      } catch (error) {
+        throw new AlertRuleValidationError(error instanceof Error ? error.message : 'Invalid webhook_url');
+      }
+    }
+  }
+}
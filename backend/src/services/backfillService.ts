@@ -0,0 +1,362 @@
+// backfillService.ts
+// Backfill historis: hitung ulang satu kalkulator untuk rentang tanggal, mis. setelah rumus berubah.
+//
+// Kalkulator berbasis DT memilih tanggal sendiri lewat findAllDtFiles (hanya beberapa tanggal
+// terbaru yang belum diproses), jadi backfill menjalankan kalkulator sekali per tanggal dengan
+// daftar DT file dibatasi ke tanggal itu (doneSummaryCache.runWithDateScope). Mode overwrite
+// meng-invalidate recompute manifest dulu sehingga output yang sudah ada tetap dihitung ulang.
+//
+// Progress per tanggal disimpan di backfill_jobs/{id}.json: job yang terputus (server restart)
+// atau di-cancel bisa dilanjutkan dari tanggal yang belum selesai.
+
+import { randomUUID } from 'crypto';
+import { downloadText, uploadText, listPaths } from '../utils/azureBlob';
+import { doneSummaryCache } from '../cache/doneSummaryCacheService';
+import { recomputeManifest } from './recomputeManifest';
+import { SchedulerLogService } from './schedulerLogService';
+import { toCompactDate } from './tradingCalendarService';
+import type { JobResult } from './jobOrchestrator';
+
+const BACKFILL_JOBS_PREFIX = 'backfill_jobs';
+const MAX_RANGE_DAYS = 366;
+const BUSY_POLL_MS = 30 * 1000;
+
+export type BackfillMode = 'skip_existing' | 'overwrite';
+
+/** 'interrupted' = tercatat running tapi tidak ada runner aktif (server restart) */
+export type BackfillStatus = 'running' | 'completed' | 'failed' | 'cancelled' | 'interrupted';
+
+export interface BackfillTarget {
+  feature: string;
+  name: string;
+  /** Dataset recompute manifest yang di-invalidate pada mode overwrite */
+  datasets: string[];
+  run: (triggeredBy: string) => Promise<JobResult>;
+}
+
+export interface BackfillJob {
+  id: string;
+  feature: string;
+  featureName: string;
+  fromDate: string;
+  toDate: string;
+  mode: BackfillMode;
+  /** Tanggal yang punya DT file di rentang, urut naik */
+  dates: string[];
+  completedDates: string[];
+  /** Tanggal gagal -> pesan error; dicoba lagi saat resume */
+  failedDates: Record<string, string>;
+  status: BackfillStatus;
+  logId?: string;
+  triggeredBy: string;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  error?: string;
+}
+
+export interface BackfillRequest {
+  fromDate: string;
+  toDate: string;
+  mode: BackfillMode;
+  triggeredBy: string;
+}
+
+export interface BackfillRunnerOptions {
+  /** Alasan backfill harus menunggu sebelum tanggal berikutnya (mis. phase sedang jalan), atau null */
+  busyReason?: () => string | null;
+}
+
+export class BackfillValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackfillValidationError';
+  }
+}
+
+export class BackfillRunner {
+  private activeJobId: string | null = null;
+  // Tanggal yang sedang dihitung; null saat backfill menunggu atau idle
+  private dateInFlight: { promise: Promise<void>; resolve: () => void } | null = null;
+
+  constructor(private options: BackfillRunnerOptions = {}) {}
+
+  isRunning(): boolean {
+    return this.activeJobId !== null;
+  }
+
+  getActiveJobId(): string | null {
+    return this.activeJobId;
+  }
+
+  /**
+   * Tunggu tanggal backfill yang sedang dihitung selesai. Caller (phase / rerun) harus sudah
+   * membuat busyReason non-null, sehingga backfill berhenti sebelum tanggal berikutnya.
+   */
+  async waitForCurrentDate(): Promise<void> {
+    while (this.dateInFlight) {
+      await this.dateInFlight.promise;
+    }
+  }
+
+  /**
+   * Buat job baru dan jalankan di background. Hanya tanggal yang punya DT file yang diproses.
+   */
+  async start(target: BackfillTarget, request: BackfillRequest): Promise<BackfillJob> {
+    const fromDate = toCompactDate(request.fromDate);
+    const toDate = toCompactDate(request.toDate);
+    if (!fromDate || !toDate) {
+      throw new BackfillValidationError('Invalid date range. Expected YYYYMMDD or YYYY-MM-DD');
+    }
+    if (fromDate > toDate) {
+      throw new BackfillValidationError('fromDate must not be after toDate');
+    }
+    if (daysBetween(fromDate, toDate) > MAX_RANGE_DAYS) {
+      throw new BackfillValidationError(`Date range is limited to ${MAX_RANGE_DAYS} days per backfill`);
+    }
+    if (request.mode !== 'skip_existing' && request.mode !== 'overwrite') {
+      throw new BackfillValidationError(`Unknown mode: ${request.mode}. Expected skip_existing or overwrite`);
+    }
+    this.assertIdle();
+
+    const dates = (await doneSummaryCache.getDtFilesList())
+      .map(file => file.split('/')[1] || '')
+      .filter(date => /^\d{8}$/.test(date) && date >= fromDate && date <= toDate)
+      .sort();
+    if (dates.length === 0) {
+      throw new BackfillValidationError(`No DT files found between ${fromDate} and ${toDate}`);
+    }
+
+    const now = new Date().toISOString();
+    const job: BackfillJob = {
+      id: randomUUID(),
+      feature: target.feature,
+      featureName: target.name,
+      fromDate,
+      toDate,
+      mode: request.mode,
+      dates: Array.from(new Set(dates)),
+      completedDates: [],
+      failedDates: {},
+      status: 'running',
+      triggeredBy: request.triggeredBy,
+      createdAt: now,
+      updatedAt: now
+    };
+    await this.launch(job, target, request.triggeredBy);
+    return job;
+  }
+
+  /**
+   * Lanjutkan job yang terputus, di-cancel atau gagal: tanggal yang sudah selesai dilewati,
+   * tanggal yang gagal dicoba lagi.
+   */
+  async resume(jobId: string, target: BackfillTarget, triggeredBy: string): Promise<BackfillJob> {
+    const job = await this.getJob(jobId);
+    if (!job) {
+      throw new BackfillValidationError(`Backfill job not found: ${jobId}`);
+    }
+    if (job.feature !== target.feature) {
+      throw new BackfillValidationError(`Backfill job ${jobId} belongs to ${job.feature}`);
+    }
+    if (job.status === 'running' || job.status === 'completed') {
+      throw new BackfillValidationError(`Cannot resume backfill job with status: ${job.status}`);
+    }
+    this.assertIdle();
+
+    // Log lama dari job yang terputus masih 'running' - tutup dulu
+    if (job.status === 'interrupted' && job.logId) {
+      await SchedulerLogService.markFailed(job.logId, 'Backfill interrupted (server restart), resumed in a new log');
+    }
+
+    job.status = 'running';
+    delete job.finishedAt;
+    delete job.error;
+    await this.launch(job, target, triggeredBy);
+    return job;
+  }
+
+  async getJob(jobId: string): Promise<BackfillJob | null> {
+    if (!/^[0-9a-f-]{36}$/i.test(jobId)) return null;
+    try {
+      const job = JSON.parse(await downloadText(this.getJobPath(jobId))) as BackfillJob;
+      if (job.status === 'running' && job.id !== this.activeJobId) {
+        job.status = 'interrupted';
+      }
+      return job;
+    } catch {
+      return null;
+    }
+  }
+
+  /** Job terbaru lebih dulu */
+  async listJobs(limit: number = 20): Promise<BackfillJob[]> {
+    const paths = await listPaths({ prefix: `${BACKFILL_JOBS_PREFIX}/` });
+    const ids = paths
+      .map(path => path.slice(BACKFILL_JOBS_PREFIX.length + 1).replace(/\.json$/, ''))
+      .filter(id => id.length > 0);
+    const jobs = await Promise.all(ids.map(id => this.getJob(id)));
+    return jobs
+      .filter((job): job is BackfillJob => job !== null)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, limit);
+  }
+
+  private assertIdle(): void {
+    if (this.activeJobId) {
+      throw new BackfillValidationError(`Another backfill (${this.activeJobId}) is in progress`);
+    }
+  }
+
+  private async launch(job: BackfillJob, target: BackfillTarget, triggeredBy: string): Promise<void> {
+    // Dicek ulang: start/resume lain bisa lolos selama await sebelumnya
+    this.assertIdle();
+    this.activeJobId = job.id;
+    try {
+      const logEntry = await SchedulerLogService.createLog({
+        feature_name: `backfill_${target.feature}`,
+        trigger_type: 'manual',
+        triggered_by: triggeredBy,
+        status: 'running',
+        environment: process.env['NODE_ENV'] || 'development'
+      });
+      if (!logEntry?.id) {
+        throw new Error('Failed to create scheduler log entry');
+      }
+      job.logId = logEntry.id;
+      job.updatedAt = new Date().toISOString();
+      await this.saveJob(job);
+    } catch (error) {
+      this.activeJobId = null;
+      throw error;
+    }
+
+    this.runJob(job, target, triggeredBy)
+      .catch(async (error) => {
+        console.error(`❌ Backfill ${job.id} error:`, error);
+        job.status = 'failed';
+        job.error = error instanceof Error ? error.message : 'Unknown error';
+        job.finishedAt = new Date().toISOString();
+        await this.saveJob(job).catch(() => {});
+        if (job.logId) {
+          await SchedulerLogService.markFailed(job.logId, job.error, error);
+        }
+      })
+      .finally(() => {
+        this.activeJobId = null;
+      });
+  }
+
+  private async runJob(job: BackfillJob, target: BackfillTarget, triggeredBy: string): Promise<void> {
+    const logId = job.logId!;
+    const total = job.dates.length;
+    const done = new Set(job.completedDates);
+    const remaining = job.dates.filter(date => !done.has(date));
+    console.log(`⏪ Backfill ${target.name} ${job.fromDate}-${job.toDate} (${job.mode}): ${remaining.length}/${total} date(s) to process`);
+
+    for (const date of remaining) {
+      await this.waitUntilIdle(logId);
+      try {
+        if (await this.isCancelled(logId)) {
+          job.status = 'cancelled';
+          break;
+        }
+
+        await SchedulerLogService.updateLog(logId, {
+          progress_percentage: Math.round((done.size / total) * 100),
+          current_processing: `${target.name} ${date} (${done.size + 1}/${total})`
+        });
+
+        try {
+          if (job.mode === 'overwrite') {
+            for (const dataset of target.datasets) {
+              // Output lama yang belum tercatat di manifest akan di-adopt sebagai valid; catat dulu agar invalidate berlaku
+              await recomputeManifest.getStaleReason(dataset, date);
+              await recomputeManifest.invalidate(dataset, date, `backfill ${job.id} by ${triggeredBy}`);
+            }
+          }
+          const result = await doneSummaryCache.runWithDateScope([date], () => target.run(`Backfill ${date} by ${triggeredBy}`));
+          if (result.success) {
+            done.add(date);
+            job.completedDates.push(date);
+            delete job.failedDates[date];
+          } else {
+            job.failedDates[date] = result.message || 'Calculation failed';
+          }
+        } catch (error) {
+          job.failedDates[date] = error instanceof Error ? error.message : 'Unknown error';
+        }
+
+        if (job.failedDates[date]) {
+          console.warn(`⚠️ Backfill ${target.name} ${date} failed: ${job.failedDates[date]}`);
+        }
+        job.updatedAt = new Date().toISOString();
+        await this.saveJob(job);
+      } finally {
+        this.releaseDate();
+      }
+    }
+
+    const failed = Object.keys(job.failedDates).length;
+    job.finishedAt = new Date().toISOString();
+    if (job.status !== 'cancelled') {
+      job.status = failed > 0 ? 'failed' : 'completed';
+    }
+    await this.saveJob(job);
+    console.log(`⏪ Backfill ${target.name} ${job.status}: ${job.completedDates.length}/${total} date(s) done, ${failed} failed`);
+
+    if (job.status === 'completed') {
+      await SchedulerLogService.markCompleted(logId, {
+        total_files_processed: total,
+        files_created: job.completedDates.length,
+        files_failed: 0
+      });
+    } else if (job.status === 'failed') {
+      await SchedulerLogService.markFailed(logId, `Backfill ${target.name} failed for ${failed} of ${total} date(s)`, { failedDates: job.failedDates });
+    }
+  }
+
+  // Cancel lewat scheduler log (tombol cancel di Manual Trigger Progress), dicek antar tanggal
+  private async isCancelled(logId: string): Promise<boolean> {
+    const log = await SchedulerLogService.getLogById(logId);
+    return log?.status === 'cancelled';
+  }
+
+  /**
+   * Tunggu sampai tidak ada phase / rerun yang jalan, lalu tandai tanggal berikutnya sedang dihitung.
+   * Penandaan dilakukan tanpa await setelah cek busyReason agar phase yang baru mulai pasti menunggu.
+   */
+  private async waitUntilIdle(logId: string): Promise<void> {
+    let reason = this.options.busyReason?.() || null;
+    while (reason) {
+      if (await this.isCancelled(logId)) break;
+      await SchedulerLogService.updateLog(logId, { current_processing: `Waiting: ${reason}` });
+      await new Promise(resolve => setTimeout(resolve, BUSY_POLL_MS));
+      reason = this.options.busyReason?.() || null;
+    }
+
+    let resolve: () => void = () => {};
+    const promise = new Promise<void>(done => {
+      resolve = done;
+    });
+    this.dateInFlight = { promise, resolve };
+  }
+
+  private releaseDate(): void {
+    this.dateInFlight?.resolve();
+    this.dateInFlight = null;
+  }
+
+  private getJobPath(jobId: string): string {
+    return `${BACKFILL_JOBS_PREFIX}/${jobId}.json`;
+  }
+
+  private async saveJob(job: BackfillJob): Promise<void> {
+    await uploadText(this.getJobPath(job.id), JSON.stringify(job, null, 2), 'application/json');
+  }
+}
+
+function daysBetween(from: string, to: string): number {
+  const toUtc = (date: string) => Date.UTC(+date.slice(0, 4), +date.slice(4, 6) - 1, +date.slice(6, 8));
+  return Math.round((toUtc(to) - toUtc(from)) / (24 * 60 * 60 * 1000));
+}
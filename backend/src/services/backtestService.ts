@@ -0,0 +1,333 @@
+// backtestService.ts
+// Backtest rule entry/exit di atas output platform sendiri:
+// - OHLC          : stock/{sector}/{ticker}.csv
+// - accumulation  : accumulation_distribution/{YYYYMMDD}.csv (AboveMA20, VPercent5D, ...)
+// - foreign_flow  : foreign_flow/{ticker}.csv (NetBuyVol, ...; NetBuyValue = NetBuyVol * Close)
+// - money_flow    : money_flow/stock/{ticker}.csv (MFI)
+// - rrg           : rrg_output/stock/o1-rrg-{ticker}.csv (hanya sepanjang trajectory yang disimpan)
+// - top_broker    : top_broker/top_broker_{YYYYMMDD}/top_broker_by_stock.csv (rank broker pembeli per emiten)
+//
+// Semua file dibaca per request (tanpa cache global) lalu diteruskan ke runBacktest.
+
+import { downloadText, exists, listPaths } from '../utils/azureBlob';
+import { sectorTaxonomy } from './sectorTaxonomyService';
+import {
+  BacktestBar,
+  BacktestCondition,
+  BacktestConfig,
+  BacktestResult,
+  BacktestSymbolData,
+  SignalSource,
+  SignalValue,
+  conditionKey,
+  runBacktest
+} from '../calculations/backtest/backtest_engine';
+
+export const MAX_BACKTEST_SYMBOLS = 30;
+export const MAX_BACKTEST_YEARS = 3;
+const LOAD_CONCURRENCY = 10;
+
+/** Field yang bisa dipakai di rule, per source (untuk validasi & dropdown frontend) */
+export const BACKTEST_FIELDS: Record<SignalSource, string[]> = {
+  price: ['Close', 'Volume', 'ChangePercent'],
+  accumulation: [
+    'Percent1D', 'VPercent1D', 'VPercent3D', 'VPercent5D', 'VPercent10D', 'VPercent20D', 'VPercent50D', 'VPercent100D',
+    'AboveMA5', 'AboveMA10', 'AboveMA20', 'AboveMA50', 'AboveMA100', 'AboveMA200',
+    'W4', 'W3', 'W2', 'W1', 'D4', 'D3', 'D2', 'D1', 'D0'
+  ],
+  foreign_flow: ['BuyVol', 'SellVol', 'NetBuyVol', 'NetBuyValue'],
+  money_flow: ['MFI'],
+  rrg: ['rs_ratio', 'rs_momentum', 'quadrant'],
+  top_broker: ['rank']
+};
+
+export interface BacktestRequest extends Omit<BacktestConfig, 'entry' | 'exit'> {
+  symbols: string[];
+  /** YYYY-MM-DD */
+  fromDate: string;
+  toDate: string;
+  entry: BacktestCondition[];
+  exit: BacktestCondition[];
+}
+
+export interface BacktestRunResult extends BacktestResult {
+  request: BacktestRequest;
+  /** Simbol yang tidak punya OHLC di rentang tanggal */
+  skippedSymbols: string[];
+  generatedAt: string;
+}
+
+export class BacktestValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BacktestValidationError';
+  }
+}
+
+/** 'YYYY-MM-DD', 'YYYY-MM-DDTHH:mm', 'YYYYMMDD' -> 'YYYYMMDD' */
+const normalizeDate = (value: string): string => value.trim().slice(0, 10).replace(/[-/]/g, '');
+
+function parseCsv(content: string): { header: string[]; rows: string[][] } {
+  const lines = content.split(/\r?\n/).filter(line => line.trim().length > 0);
+  const header = (lines[0] || '').split(',').map(h => h.trim().replace(/^\uFEFF/, ''));
+  return { header, rows: lines.slice(1).map(line => line.split(',').map(v => v.trim())) };
+}
+
+async function loadCsv(path: string): Promise<{ header: string[]; rows: string[][] } | null> {
+  try {
+    if (!(await exists(path))) return null;
+    return parseCsv(await downloadText(path));
+  } catch (error) {
+    console.warn(`⚠️ Backtest could not read ${path}:`, error);
+    return null;
+  }
+}
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = [];
+  for (let i = 0; i < items.length; i += limit) {
+    results.push(...(await Promise.all(items.slice(i, i + limit).map(fn))));
+  }
+  return results;
+}
+
+const rrgQuadrant = (rsRatio: number, rsMomentum: number): string =>
+  rsRatio >= 100 ? (rsMomentum >= 100 ? 'LEADING' : 'WEAKENING') : (rsMomentum >= 100 ? 'IMPROVING' : 'LAGGING');
+
+export class BacktestService {
+  async run(request: BacktestRequest): Promise<BacktestRunResult> {
+    const fromDate = normalizeDate(request.fromDate);
+    const toDate = normalizeDate(request.toDate);
+    this.validate(request, fromDate, toDate);
+
+    const symbols = Array.from(new Set(request.symbols.map(symbol => symbol.trim().toUpperCase()).filter(Boolean)));
+    const conditions = [...request.entry, ...request.exit];
+    const sources = new Set(conditions.map(condition => condition.source));
+
+    const perSymbol = await mapWithConcurrency(symbols, LOAD_CONCURRENCY, async symbol => {
+      const bars = await this.loadBars(symbol, fromDate, toDate);
+      return { symbol, bars, signals: new Map<string, Map<string, SignalValue>>() } as BacktestSymbolData;
+    });
+    const data = perSymbol.filter(item => item.bars.length > 0);
+    const skippedSymbols = perSymbol.filter(item => item.bars.length === 0).map(item => item.symbol);
+
+    const setSignal = (item: BacktestSymbolData, date: string, key: string, value: SignalValue) => {
+      let values = item.signals.get(date);
+      if (!values) {
+        values = new Map();
+        item.signals.set(date, values);
+      }
+      values.set(key, value);
+    };
+
+    if (sources.has('price')) {
+      data.forEach(item => item.bars.forEach((bar, index) => {
+        const previous = item.bars[index - 1];
+        setSignal(item, bar.date, conditionKey({ source: 'price', field: 'Close' }), bar.close);
+        setSignal(item, bar.date, conditionKey({ source: 'price', field: 'Volume' }), bar.volume);
+        if (previous && previous.close > 0) {
+          setSignal(item, bar.date, conditionKey({ source: 'price', field: 'ChangePercent' }), ((bar.close - previous.close) / previous.close) * 100);
+        }
+      }));
+    }
+
+    if (sources.has('foreign_flow')) {
+      await mapWithConcurrency(data, LOAD_CONCURRENCY, async item => {
+        const csv = await loadCsv(`foreign_flow/${item.symbol}.csv`);
+        if (!csv) return;
+        const closes = new Map(item.bars.map(bar => [bar.date, bar.close]));
+        const dateIdx = csv.header.indexOf('Date');
+        csv.rows.forEach(row => {
+          const date = normalizeDate(row[dateIdx] || '');
+          if (!date || date < fromDate || date > toDate) return;
+          ['BuyVol', 'SellVol', 'NetBuyVol'].forEach(field => {
+            const value = parseFloat(row[csv.header.indexOf(field)] || '');
+            if (Number.isFinite(value)) setSignal(item, date, conditionKey({ source: 'foreign_flow', field }), value);
+          });
+          const netBuyVol = parseFloat(row[csv.header.indexOf('NetBuyVol')] || '');
+          const close = closes.get(date);
+          if (Number.isFinite(netBuyVol) && close !== undefined) {
+            setSignal(item, date, conditionKey({ source: 'foreign_flow', field: 'NetBuyValue' }), netBuyVol * close);
+          }
+        });
+      });
+    }
+
+    if (sources.has('money_flow')) {
+      await mapWithConcurrency(data, LOAD_CONCURRENCY, async item => {
+        const csv = await loadCsv(`money_flow/stock/${item.symbol}.csv`);
+        if (!csv) return;
+        const dateIdx = csv.header.indexOf('Date');
+        const mfiIdx = csv.header.indexOf('MFI');
+        csv.rows.forEach(row => {
+          const date = normalizeDate(row[dateIdx] || '');
+          const mfi = parseFloat(row[mfiIdx] || '');
+          if (date >= fromDate && date <= toDate && Number.isFinite(mfi)) {
+            setSignal(item, date, conditionKey({ source: 'money_flow', field: 'MFI' }), mfi);
+          }
+        });
+      });
+    }
+
+    if (sources.has('rrg')) {
+      await mapWithConcurrency(data, LOAD_CONCURRENCY, async item => {
+        const csv = await loadCsv(`rrg_output/stock/o1-rrg-${item.symbol}.csv`);
+        if (!csv) return;
+        const dateIdx = csv.header.indexOf('date');
+        const ratioIdx = csv.header.indexOf('rs_ratio');
+        const momentumIdx = csv.header.indexOf('rs_momentum');
+        csv.rows.forEach(row => {
+          const date = normalizeDate(row[dateIdx] || '');
+          const rsRatio = parseFloat(row[ratioIdx] || '');
+          const rsMomentum = parseFloat(row[momentumIdx] || '');
+          if (!date || date < fromDate || date > toDate || !Number.isFinite(rsRatio) || !Number.isFinite(rsMomentum)) return;
+          setSignal(item, date, conditionKey({ source: 'rrg', field: 'rs_ratio' }), rsRatio);
+          setSignal(item, date, conditionKey({ source: 'rrg', field: 'rs_momentum' }), rsMomentum);
+          setSignal(item, date, conditionKey({ source: 'rrg', field: 'quadrant' }), rrgQuadrant(rsRatio, rsMomentum));
+        });
+      });
+    }
+
+    if (sources.has('accumulation')) {
+      await this.loadAccumulation(data, conditions, fromDate, toDate, setSignal);
+    }
+
+    if (sources.has('top_broker')) {
+      await this.loadTopBrokerRanks(data, conditions, fromDate, toDate, setSignal);
+    }
+
+    const { symbols: _symbols, fromDate: _from, toDate: _to, ...config } = request;
+    const result = runBacktest(data, config);
+
+    return {
+      ...result,
+      request: { ...request, symbols },
+      skippedSymbols,
+      generatedAt: new Date().toISOString()
+    };
+  }
+
+  private validate(request: BacktestRequest, fromDate: string, toDate: string): void {
+    if (!/^\d{8}$/.test(fromDate) || !/^\d{8}$/.test(toDate) || fromDate >= toDate) {
+      throw new BacktestValidationError('fromDate must be before toDate (YYYY-MM-DD)');
+    }
+    const years = (Date.parse(request.toDate) - Date.parse(request.fromDate)) / (365.25 * 24 * 3600 * 1000);
+    if (years > MAX_BACKTEST_YEARS) {
+      throw new BacktestValidationError(`Backtest range is limited to ${MAX_BACKTEST_YEARS} years`);
+    }
+    if (request.symbols.length === 0 || request.symbols.length > MAX_BACKTEST_SYMBOLS) {
+      throw new BacktestValidationError(`Provide between 1 and ${MAX_BACKTEST_SYMBOLS} symbols`);
+    }
+    if (request.entry.length === 0) {
+      throw new BacktestValidationError('At least one entry condition is required');
+    }
+    for (const condition of [...request.entry, ...request.exit]) {
+      if (!BACKTEST_FIELDS[condition.source].includes(condition.field)) {
+        throw new BacktestValidationError(`Unknown field "${condition.field}" for source ${condition.source}`);
+      }
+      if (condition.source === 'top_broker' && !condition.broker) {
+        throw new BacktestValidationError('top_broker conditions require a broker code');
+      }
+    }
+  }
+
+  private async loadBars(symbol: string, fromDate: string, toDate: string): Promise<BacktestBar[]> {
+    const csv = await loadCsv(await sectorTaxonomy.resolveStockPath(symbol));
+    if (!csv) return [];
+    const column = (name: string) => csv.header.findIndex(h => h.toLowerCase() === name.toLowerCase());
+    const [dateIdx, openIdx, highIdx, lowIdx, closeIdx, volumeIdx] = ['Date', 'Open', 'High', 'Low', 'Close', 'Volume'].map(column);
+
+    const bars: BacktestBar[] = [];
+    csv.rows.forEach(row => {
+      const date = normalizeDate(row[dateIdx!] || '');
+      const close = parseFloat(row[closeIdx!] || '');
+      if (!date || date < fromDate || date > toDate || !(close > 0)) return;
+      const open = parseFloat(row[openIdx!] || '') || close;
+      bars.push({
+        date,
+        open,
+        high: parseFloat(row[highIdx!] || '') || Math.max(open, close),
+        low: parseFloat(row[lowIdx!] || '') || Math.min(open, close),
+        close,
+        volume: parseFloat(row[volumeIdx!] || '') || 0
+      });
+    });
+    return bars.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * accumulation_distribution disimpan per tanggal (semua emiten dalam satu file)
+   */
+  private async loadAccumulation(
+    data: BacktestSymbolData[],
+    conditions: BacktestCondition[],
+    fromDate: string,
+    toDate: string,
+    setSignal: (item: BacktestSymbolData, date: string, key: string, value: SignalValue) => void
+  ): Promise<void> {
+    const fields = Array.from(new Set(conditions.filter(c => c.source === 'accumulation').map(c => c.field)));
+    const bySymbol = new Map(data.map(item => [item.symbol, item]));
+    const files = (await listPaths({ prefix: 'accumulation_distribution/' }))
+      .map(path => ({ path, date: path.split('/').pop()?.replace('.csv', '') || '' }))
+      .filter(file => /^\d{8}$/.test(file.date) && file.date >= fromDate && file.date <= toDate);
+
+    await mapWithConcurrency(files, LOAD_CONCURRENCY, async file => {
+      const csv = await loadCsv(file.path);
+      if (!csv) return;
+      const symbolIdx = csv.header.indexOf('Symbol');
+      csv.rows.forEach(row => {
+        const item = bySymbol.get((row[symbolIdx] || '').toUpperCase());
+        if (!item) return;
+        fields.forEach(field => {
+          const value = parseFloat(row[csv.header.indexOf(field)] || '');
+          if (Number.isFinite(value)) setSignal(item, file.date, conditionKey({ source: 'accumulation', field }), value);
+        });
+      });
+    });
+  }
+
+  /**
+   * Rank broker (1 = pembeli terbesar by value) di antara pembeli emiten pada tanggal tersebut.
+   * Broker yang tidak membeli hari itu tidak punya nilai => kondisi tidak terpenuhi.
+   */
+  private async loadTopBrokerRanks(
+    data: BacktestSymbolData[],
+    conditions: BacktestCondition[],
+    fromDate: string,
+    toDate: string,
+    setSignal: (item: BacktestSymbolData, date: string, key: string, value: SignalValue) => void
+  ): Promise<void> {
+    const brokers = new Set(conditions.filter(c => c.source === 'top_broker').map(c => (c.broker || '').toUpperCase()));
+    const bySymbol = new Map(data.map(item => [item.symbol, item]));
+    const dates = Array.from(new Set(data.flatMap(item => item.bars.map(bar => bar.date))))
+      .filter(date => date >= fromDate && date <= toDate);
+
+    await mapWithConcurrency(dates, LOAD_CONCURRENCY, async date => {
+      const csv = await loadCsv(`top_broker/top_broker_${date}/top_broker_by_stock.csv`);
+      if (!csv) return;
+      const brokerIdx = csv.header.indexOf('BrokerCode');
+      const emitenIdx = csv.header.indexOf('Emiten');
+      const valueIdx = csv.header.indexOf('TotalValue');
+
+      const buyers = new Map<string, Array<{ broker: string; value: number }>>();
+      csv.rows.forEach(row => {
+        const emiten = (row[emitenIdx] || '').toUpperCase();
+        if (!bySymbol.has(emiten)) return;
+        const list = buyers.get(emiten) || [];
+        list.push({ broker: (row[brokerIdx] || '').toUpperCase(), value: parseFloat(row[valueIdx] || '0') || 0 });
+        buyers.set(emiten, list);
+      });
+
+      buyers.forEach((list, emiten) => {
+        list.sort((a, b) => b.value - a.value);
+        list.forEach((entry, index) => {
+          if (brokers.has(entry.broker)) {
+            setSignal(bySymbol.get(emiten)!, date, conditionKey({ source: 'top_broker', field: 'rank', broker: entry.broker }), index + 1);
+          }
+        });
+      });
+    });
+  }
+}
+
+export const backtestService: BacktestService = new BacktestService();
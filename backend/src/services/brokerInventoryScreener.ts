@@ -0,0 +1,314 @@
+// brokerInventoryScreener.ts
+// Screener akumulasi/distribusi broker di atas output broker_inventory/{EMITEN}/{BROKER}.csv
+//
+// Semua file broker_inventory dibaca sekali ke index in-memory (hanya kolom dan
+// hari terakhir yang dipakai screener), lalu setiap request screener cukup memfilter
+// index tersebut. Index dibangun di background saat startup, dan setelah broker
+// inventory selesai di-generate hanya file yang baru ditulis yang dibaca ulang.
+
+import { downloadText, listPaths } from '../utils/azureBlob';
+
+const INVENTORY_PREFIX = 'broker_inventory/';
+const LOAD_CONCURRENCY = 20;
+/** Window screener terbesar; index hanya menyimpan sebanyak ini hari terakhir per broker */
+export const SCREENER_MAX_WINDOW = 30;
+
+interface InventoryPoint {
+  date: string;
+  netBuyVol: number;
+  netBuyValue: number;
+  avgCost: number;
+  close: number;
+  unrealizedPL: number;
+}
+
+/** emiten -> broker -> points (urut tanggal ascending, tanpa baris baseline, maksimal SCREENER_MAX_WINDOW) */
+type InventoryIndex = Map<string, Map<string, InventoryPoint[]>>;
+
+export interface ScreenerOptions {
+  /** Broker yang dipantau; jika kosong dipakai top-N net buyer per emiten */
+  brokers: string[];
+  topN: number;
+  /** Jumlah hari trading terakhir yang dievaluasi */
+  window: number;
+  /** Minimal total net buy value grup broker selama window */
+  minNetValue: number;
+  /** Minimal hari berturut-turut (dari hari terakhir) grup broker net buy */
+  minStreak: number;
+  /** Filter perubahan harga (%) selama window */
+  minPriceChange?: number;
+  maxPriceChange?: number;
+  limit: number;
+}
+
+export interface ScreenerBrokerResult {
+  brokerCode: string;
+  netBuyVol: number;
+  netBuyValue: number;
+  streak: number;
+  avgCost: number;
+  unrealizedPL: number;
+}
+
+export interface ScreenerResult {
+  stockCode: string;
+  fromDate: string;
+  toDate: string;
+  netBuyVol: number;
+  netBuyValue: number;
+  streak: number;
+  priceChangePercent: number | null;
+  brokers: ScreenerBrokerResult[];
+}
+
+function parseInventoryCsv(content: string): InventoryPoint[] {
+  const lines = content.trim().split('\n');
+  const header = (lines[0] || '').split(',').map(h => h.trim());
+  const col = (name: string) => header.indexOf(name);
+  const dateIdx = col('Date');
+  const netVolIdx = col('NetBuyVol');
+  if (dateIdx < 0 || netVolIdx < 0) {
+    return [];
+  }
+  const netValueIdx = col('NetBuyValue');
+  const buyVolIdx = col('BuyVol');
+  const sellVolIdx = col('SellVol');
+  const avgCostIdx = col('AvgCost');
+  const closeIdx = col('Close');
+  const unrealizedIdx = col('UnrealizedPL');
+  const num = (values: string[], idx: number) => (idx < 0 ? 0 : parseFloat(values[idx] || '0') || 0);
+
+  const points: InventoryPoint[] = [];
+  let baselineDate: string | null = null;
+  for (let i = 1; i < lines.length; i++) {
+    const values = (lines[i] || '').split(',');
+    const date = values[dateIdx]?.trim();
+    if (!date) continue;
+    const noFlow = num(values, buyVolIdx) === 0 && num(values, sellVolIdx) === 0 && num(values, netVolIdx) === 0;
+    if (noFlow && num(values, closeIdx) === 0 && (baselineDate === null || date < baselineDate)) {
+      baselineDate = date;
+    }
+    points.push({
+      date,
+      netBuyVol: num(values, netVolIdx),
+      netBuyValue: num(values, netValueIdx),
+      avgCost: num(values, avgCostIdx),
+      close: num(values, closeIdx),
+      unrealizedPL: num(values, unrealizedIdx)
+    });
+  }
+
+  // File ditulis newest-first dengan baris baseline (semua nilai nol) di tanggal paling awal;
+  // dibuang berdasarkan isinya, bukan posisinya, supaya file tanpa baseline tidak kehilangan hari pertama
+  points.sort((a, b) => a.date.localeCompare(b.date));
+  if (baselineDate !== null && points[0]?.date === baselineDate) {
+    points.shift();
+  }
+  // evaluateEmiten hanya memakai window terakhir dan titik terakhir untuk avgCost/unrealizedPL
+  return points.slice(-SCREENER_MAX_WINDOW);
+}
+
+/** Jumlah hari berturut-turut dari hari terakhir dengan nilai positif */
+function trailingStreak(values: number[]): number {
+  let streak = 0;
+  for (let i = values.length - 1; i >= 0 && (values[i] || 0) > 0; i--) {
+    streak++;
+  }
+  return streak;
+}
+
+export class BrokerInventoryScreenerService {
+  private index: InventoryIndex | null = null;
+  private loadedAt = 0;
+  private loading: Promise<void> | null = null;
+
+  /**
+   * Bangun ulang index di background. Tanpa `files` seluruh broker_inventory/ dibaca
+   * (startup); dengan `files` hanya file tersebut yang dibaca ulang ke index yang ada.
+   * Refresh berikutnya menunggu refresh yang sedang berjalan, dan error hanya di-log.
+   */
+  refresh(files?: string[]): Promise<void> {
+    const run: Promise<void> = (this.loading ?? Promise.resolve())
+      .then(async () => {
+        if (files && this.index) {
+          await this.loadFiles(files, this.index);
+        } else {
+          const index: InventoryIndex = new Map();
+          await this.loadFiles(await this.listInventoryFiles(), index);
+          this.index = index;
+        }
+        this.loadedAt = Date.now();
+      })
+      .catch(error => {
+        console.error('[BrokerInventoryScreener] Failed to refresh index:', error);
+      })
+      .finally(() => {
+        if (this.loading === run) {
+          this.loading = null;
+        }
+      });
+    this.loading = run;
+    return run;
+  }
+
+  getIndexInfo(): { loaded: boolean; loadedAt: string | null; emitenCount: number } {
+    return {
+      loaded: this.index !== null,
+      loadedAt: this.loadedAt ? new Date(this.loadedAt).toISOString() : null,
+      emitenCount: this.index?.size || 0
+    };
+  }
+
+  async screen(options: ScreenerOptions): Promise<ScreenerResult[]> {
+    const index = await this.getIndex();
+    const brokerFilter = options.brokers.map(b => b.toUpperCase());
+    const results: ScreenerResult[] = [];
+
+    for (const [stockCode, brokerMap] of index) {
+      const result = this.evaluateEmiten(stockCode, brokerMap, brokerFilter, options);
+      if (result) {
+        results.push(result);
+      }
+    }
+
+    results.sort((a, b) => b.netBuyValue - a.netBuyValue);
+    return results.slice(0, options.limit);
+  }
+
+  private evaluateEmiten(
+    stockCode: string,
+    brokerMap: Map<string, InventoryPoint[]>,
+    brokerFilter: string[],
+    options: ScreenerOptions
+  ): ScreenerResult | null {
+    // Tanggal window diambil dari seluruh broker emiten ini, bukan per broker
+    const allDates = new Set<string>();
+    brokerMap.forEach(points => points.forEach(p => allDates.add(p.date)));
+    const windowDates = Array.from(allDates).sort().slice(-options.window);
+    if (windowDates.length === 0) {
+      return null;
+    }
+    const windowSet = new Set(windowDates);
+
+    const brokerStats: (ScreenerBrokerResult & { daily: number[] })[] = [];
+    for (const [brokerCode, points] of brokerMap) {
+      if (brokerFilter.length > 0 && !brokerFilter.includes(brokerCode)) continue;
+
+      const byDate = new Map(points.filter(p => windowSet.has(p.date)).map(p => [p.date, p]));
+      const daily = windowDates.map(date => byDate.get(date)?.netBuyVol || 0);
+      const latest = points[points.length - 1];
+      brokerStats.push({
+        brokerCode,
+        netBuyVol: daily.reduce((sum, v) => sum + v, 0),
+        netBuyValue: Array.from(byDate.values()).reduce((sum, p) => sum + p.netBuyValue, 0),
+        streak: trailingStreak(daily),
+        avgCost: latest?.avgCost || 0,
+        unrealizedPL: latest?.unrealizedPL || 0,
+        daily
+      });
+    }
+
+    const selected = brokerFilter.length > 0
+      ? brokerStats
+      : brokerStats
+          .filter(b => b.netBuyValue > 0)
+          .sort((a, b) => b.netBuyValue - a.netBuyValue)
+          .slice(0, options.topN);
+    if (selected.length === 0) {
+      return null;
+    }
+
+    const groupDaily = windowDates.map((_date, i) => selected.reduce((sum, b) => sum + (b.daily[i] || 0), 0));
+    const netBuyValue = selected.reduce((sum, b) => sum + b.netBuyValue, 0);
+    const streak = trailingStreak(groupDaily);
+    if (netBuyValue < options.minNetValue || streak < options.minStreak) {
+      return null;
+    }
+
+    const priceChangePercent = this.getPriceChange(brokerMap, windowDates);
+    if (options.minPriceChange !== undefined || options.maxPriceChange !== undefined) {
+      if (priceChangePercent === null) return null;
+      if (options.minPriceChange !== undefined && priceChangePercent < options.minPriceChange) return null;
+      if (options.maxPriceChange !== undefined && priceChangePercent > options.maxPriceChange) return null;
+    }
+
+    return {
+      stockCode,
+      fromDate: windowDates[0] || '',
+      toDate: windowDates[windowDates.length - 1] || '',
+      netBuyVol: groupDaily.reduce((sum, v) => sum + v, 0),
+      netBuyValue,
+      streak,
+      priceChangePercent,
+      brokers: selected.map(({ daily: _daily, ...broker }) => broker)
+    };
+  }
+
+  /**
+   * Perubahan harga close dari hari pertama ke hari terakhir window (%).
+   * Close sama untuk semua broker di emiten yang sama, ambil dari broker mana saja.
+   */
+  private getPriceChange(brokerMap: Map<string, InventoryPoint[]>, windowDates: string[]): number | null {
+    const closes = new Map<string, number>();
+    for (const points of brokerMap.values()) {
+      for (const p of points) {
+        if (p.close > 0 && !closes.has(p.date)) closes.set(p.date, p.close);
+      }
+    }
+    const first = closes.get(windowDates[0] || '');
+    const last = closes.get(windowDates[windowDates.length - 1] || '');
+    if (!first || !last) {
+      return null;
+    }
+    return Math.round(((last - first) / first) * 10000) / 100;
+  }
+
+  private async getIndex(): Promise<InventoryIndex> {
+    if (this.index) {
+      return this.index;
+    }
+    // Index normalnya sudah dibangun saat startup; request hanya menunggu build yang berjalan
+    await (this.loading ?? this.refresh());
+    return this.index ?? new Map();
+  }
+
+  private async listInventoryFiles(): Promise<string[]> {
+    return (await listPaths({ prefix: INVENTORY_PREFIX })).filter(f => f.endsWith('.csv'));
+  }
+
+  private async loadFiles(files: string[], index: InventoryIndex): Promise<void> {
+    const startTime = Date.now();
+    console.log(`[BrokerInventoryScreener] Loading ${files.length} broker inventory files...`);
+
+    let failed = 0;
+    for (let i = 0; i < files.length; i += LOAD_CONCURRENCY) {
+      const batch = files.slice(i, i + LOAD_CONCURRENCY);
+      await Promise.all(batch.map(async (file) => {
+        // Path: broker_inventory/{EMITEN}/{BROKER}.csv
+        const [, stockCode, fileName] = file.split('/');
+        if (!stockCode || !fileName) return;
+        const brokerCode = fileName.replace('.csv', '').toUpperCase();
+        try {
+          const points = parseInventoryCsv(await downloadText(file));
+          if (points.length === 0) {
+            index.get(stockCode)?.delete(brokerCode);
+            return;
+          }
+          if (!index.has(stockCode)) {
+            index.set(stockCode, new Map());
+          }
+          index.get(stockCode)!.set(brokerCode, points);
+        } catch (error) {
+          failed++;
+          if (failed <= 5) {
+            console.warn(`[BrokerInventoryScreener] Failed to load ${file}:`, error);
+          }
+        }
+      }));
+    }
+
+    console.log(`[BrokerInventoryScreener] Indexed ${index.size} emitens in ${((Date.now() - startTime) / 1000).toFixed(1)}s (${failed} files failed)`);
+  }
+}
+
+export const brokerInventoryScreener: BrokerInventoryScreenerService = new BrokerInventoryScreenerService();
@@ -0,0 +1,290 @@
+// brokerSummaryRangeService.ts
+// Agregasi broker summary multi-hari (from/to) per emiten/sektor di sisi server,
+// supaya view mingguan/bulanan cukup satu request. Hasil di-cache per kombinasi range.
+
+import { downloadText } from '../utils/azureBlob';
+import { getBrokerTransactionPath } from '../utils/brokerTransactionPath';
+import { tradingCalendar } from './tradingCalendarService';
+
+export const MAX_RANGE_DAYS = 93;
+
+const CACHE_DURATION = 10 * 60 * 1000; // 10 menit
+const MAX_CACHE_ENTRIES = 200;
+const LOAD_CONCURRENCY = 8;
+
+export type SummaryBoard = 'RG' | 'TN' | 'NG';
+export type SummaryInvestor = 'F' | 'D';
+
+export interface BrokerSummaryRangeRequest {
+  stockCode: string;
+  /** YYYYMMDD */
+  from: string;
+  /** YYYYMMDD */
+  to: string;
+  board?: SummaryBoard | undefined;
+  investor?: SummaryInvestor | undefined;
+}
+
+/**
+ * Baris per broker dengan nama kolom yang sama seperti file broker_summary harian,
+ * jadi konsumen endpoint harian bisa langsung memakai hasil agregasi.
+ * Konvensi kolom Buyer/Seller (termasuk swap di CSV) ikut file sumber.
+ */
+export interface BrokerSummaryRow {
+  BrokerCode: string;
+  BuyerVol: number;
+  BuyerValue: number;
+  BuyerAvg: number;
+  BuyerFreq: number;
+  BLot: number;
+  SellerVol: number;
+  SellerValue: number;
+  SellerAvg: number;
+  SellerFreq: number;
+  SLot: number;
+  NetBuyVol: number;
+  NetBuyValue: number;
+  NetBuyerAvg: number;
+  NBLot: number;
+  NetSellVol: number;
+  NetSellValue: number;
+  NetSellerAvg: number;
+  NSLot: number;
+  /** Jumlah hari broker ini muncul di range */
+  Days: number;
+}
+
+export interface BrokerSummaryRangeResult {
+  stockCode: string;
+  from: string;
+  to: string;
+  board: SummaryBoard | null;
+  investor: SummaryInvestor | null;
+  /** Tanggal yang punya data (YYYYMMDD, urut naik) */
+  dates: string[];
+  /** Hari kerja di range yang tidak punya file (libur bursa / belum diproses) */
+  missingDates: string[];
+  brokerData: BrokerSummaryRow[];
+  daily: Array<{ date: string; brokerData: BrokerSummaryRow[] }>;
+  cached: boolean;
+  generatedAt: string;
+}
+
+export class BrokerSummaryRangeValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BrokerSummaryRangeValidationError';
+  }
+}
+
+interface Accumulator {
+  buyerVol: number;
+  buyerValue: number;
+  buyerFreq: number;
+  sellerVol: number;
+  sellerValue: number;
+  sellerFreq: number;
+  /** Net bertanda (NetBuy - NetSell), dijumlah per hari lalu dipecah lagi di akhir */
+  netVol: number;
+  netValue: number;
+  days: number;
+}
+
+const emptyAccumulator = (): Accumulator => ({
+  buyerVol: 0, buyerValue: 0, buyerFreq: 0,
+  sellerVol: 0, sellerValue: 0, sellerFreq: 0,
+  netVol: 0, netValue: 0, days: 0
+});
+
+const toNumber = (value: string | undefined): number => parseFloat(value || '0') || 0;
+
+/**
+ * Parse satu file harian ke accumulator per broker.
+ * broker_summary memakai kolom BrokerCode; file broker_transaction_stock (F/D) memakai Broker.
+ */
+function parseDay(csv: string): Map<string, Accumulator> {
+  const result = new Map<string, Accumulator>();
+  const lines = csv.trim().split(/\r?\n/);
+  const headers = (lines[0] || '').replace(/^\uFEFF/, '').split(',').map(h => h.trim());
+  const col = (name: string) => headers.indexOf(name);
+  const brokerIdx = col('BrokerCode') >= 0 ? col('BrokerCode') : col('Broker');
+  if (brokerIdx < 0) return result;
+
+  const idx = {
+    buyerVol: col('BuyerVol'), buyerValue: col('BuyerValue'), buyerFreq: col('BuyerFreq'),
+    sellerVol: col('SellerVol'), sellerValue: col('SellerValue'), sellerFreq: col('SellerFreq'),
+    netBuyVol: col('NetBuyVol'), netBuyValue: col('NetBuyValue'),
+    netSellVol: col('NetSellVol'), netSellValue: col('NetSellValue')
+  };
+  const pick = (values: string[], i: number) => (i >= 0 ? toNumber(values[i]) : 0);
+
+  for (let i = 1; i < lines.length; i++) {
+    const values = (lines[i] || '').split(',').map(v => v.trim());
+    if (values.length !== headers.length) continue;
+    const broker = values[brokerIdx];
+    if (!broker) continue;
+
+    result.set(broker, {
+      buyerVol: pick(values, idx.buyerVol),
+      buyerValue: pick(values, idx.buyerValue),
+      buyerFreq: pick(values, idx.buyerFreq),
+      sellerVol: pick(values, idx.sellerVol),
+      sellerValue: pick(values, idx.sellerValue),
+      sellerFreq: pick(values, idx.sellerFreq),
+      netVol: pick(values, idx.netBuyVol) - pick(values, idx.netSellVol),
+      netValue: pick(values, idx.netBuyValue) - pick(values, idx.netSellValue),
+      days: 1
+    });
+  }
+  return result;
+}
+
+/**
+ * Accumulator → baris output. Average selalu dihitung ulang dari total value / total volume
+ * (VWAP range), bukan rata-rata dari average harian.
+ */
+function toRow(broker: string, acc: Accumulator): BrokerSummaryRow {
+  // Sama seperti kalkulasi harian: net negatif menjadi NetSell, NetBuy = 0
+  const isNetSell = acc.netVol < 0 || acc.netValue < 0;
+  const netBuyVol = isNetSell ? 0 : acc.netVol;
+  const netBuyValue = isNetSell ? 0 : acc.netValue;
+  const netSellVol = isNetSell ? Math.abs(acc.netVol) : 0;
+  const netSellValue = isNetSell ? Math.abs(acc.netValue) : 0;
+
+  return {
+    BrokerCode: broker,
+    BuyerVol: acc.buyerVol,
+    BuyerValue: acc.buyerValue,
+    BuyerAvg: acc.buyerVol > 0 ? acc.buyerValue / acc.buyerVol : 0,
+    BuyerFreq: acc.buyerFreq,
+    BLot: acc.buyerVol / 100,
+    SellerVol: acc.sellerVol,
+    SellerValue: acc.sellerValue,
+    SellerAvg: acc.sellerVol > 0 ? acc.sellerValue / acc.sellerVol : 0,
+    SellerFreq: acc.sellerFreq,
+    SLot: acc.sellerVol / 100,
+    NetBuyVol: netBuyVol,
+    NetBuyValue: netBuyValue,
+    NetBuyerAvg: netBuyVol > 0 ? netBuyValue / netBuyVol : 0,
+    NBLot: netBuyVol / 100,
+    NetSellVol: netSellVol,
+    NetSellValue: netSellValue,
+    NetSellerAvg: netSellVol > 0 ? netSellValue / netSellVol : 0,
+    NSLot: netSellVol / 100,
+    Days: acc.days
+  };
+}
+
+const sortByNetValue = (rows: BrokerSummaryRow[]) =>
+  rows.sort((a, b) => (b.NetBuyValue - b.NetSellValue) - (a.NetBuyValue - a.NetSellValue));
+
+export class BrokerSummaryRangeService {
+  private cache = new Map<string, { result: BrokerSummaryRangeResult; timestamp: number }>();
+
+  /**
+   * Path file harian. Tanpa investor filter memakai broker_summary (All Trade / per board);
+   * dengan F/D memakai broker_transaction pivot Stock yang sudah dipisah per tipe investor.
+   */
+  getDailyPath(stockCode: string, date: string, board?: SummaryBoard, investor?: SummaryInvestor): string {
+    if (investor) {
+      return getBrokerTransactionPath(stockCode, date, 'Stock', investor, board || '');
+    }
+    if (board) {
+      const folder = board.toLowerCase();
+      return `broker_summary_${folder}/broker_summary_${folder}_${date}/${stockCode}.csv`;
+    }
+    return `broker_summary/broker_summary_${date}/${stockCode}.csv`;
+  }
+
+  async getRange(request: BrokerSummaryRangeRequest): Promise<BrokerSummaryRangeResult> {
+    const { stockCode, from, to, board, investor } = request;
+    if (from > to) {
+      throw new BrokerSummaryRangeValidationError('from must be before or equal to to');
+    }
+    const calendarDays = Math.round(
+      (Date.UTC(+to.slice(0, 4), +to.slice(4, 6) - 1, +to.slice(6, 8)) - Date.UTC(+from.slice(0, 4), +from.slice(4, 6) - 1, +from.slice(6, 8))) / 86400000
+    ) + 1;
+    if (calendarDays > MAX_RANGE_DAYS) {
+      throw new BrokerSummaryRangeValidationError(`Date range is limited to ${MAX_RANGE_DAYS} days`);
+    }
+    const dates = await tradingCalendar.tradingDaysBetween(from, to);
+
+    const cacheKey = [stockCode, from, to, board || 'ALL', investor || 'ALL'].join('|');
+    const cached = this.cache.get(cacheKey);
+    if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
+      return { ...cached.result, cached: true };
+    }
+
+    const perDay: Array<{ date: string; brokers: Map<string, Accumulator> } | null> = [];
+    // Error selain "not found" (timeout, storage down) membuat hasil tidak lengkap -> tidak di-cache
+    let readFailed = false;
+    for (let i = 0; i < dates.length; i += LOAD_CONCURRENCY) {
+      const batch = await Promise.all(dates.slice(i, i + LOAD_CONCURRENCY).map(async date => {
+        const path = this.getDailyPath(stockCode, date, board, investor);
+        try {
+          return { date, brokers: parseDay(await downloadText(path)) };
+        } catch (error) {
+          // File tidak ada = hari libur / belum diproses
+          if (!(error instanceof Error && error.message.includes('Blob not found'))) {
+            readFailed = true;
+            console.warn(`⚠️ Broker summary range could not read ${path}:`, error instanceof Error ? error.message : error);
+          }
+          return null;
+        }
+      }));
+      perDay.push(...batch);
+    }
+
+    const totals = new Map<string, Accumulator>();
+    const daily: BrokerSummaryRangeResult['daily'] = [];
+    const available: string[] = [];
+
+    perDay.forEach(day => {
+      if (!day || day.brokers.size === 0) return;
+      available.push(day.date);
+      const rows: BrokerSummaryRow[] = [];
+      day.brokers.forEach((acc, broker) => {
+        rows.push(toRow(broker, acc));
+        const total = totals.get(broker) || emptyAccumulator();
+        total.buyerVol += acc.buyerVol;
+        total.buyerValue += acc.buyerValue;
+        total.buyerFreq += acc.buyerFreq;
+        total.sellerVol += acc.sellerVol;
+        total.sellerValue += acc.sellerValue;
+        total.sellerFreq += acc.sellerFreq;
+        total.netVol += acc.netVol;
+        total.netValue += acc.netValue;
+        total.days += 1;
+        totals.set(broker, total);
+      });
+      daily.push({ date: day.date, brokerData: sortByNetValue(rows) });
+    });
+
+    const result: BrokerSummaryRangeResult = {
+      stockCode,
+      from,
+      to,
+      board: board || null,
+      investor: investor || null,
+      dates: available,
+      missingDates: dates.filter(date => !available.includes(date)),
+      brokerData: sortByNetValue(Array.from(totals.entries()).map(([broker, acc]) => toRow(broker, acc))),
+      daily,
+      cached: false,
+      generatedAt: new Date().toISOString()
+    };
+
+    if (readFailed) {
+      return result;
+    }
+    this.cache.set(cacheKey, { result, timestamp: Date.now() });
+    if (this.cache.size > MAX_CACHE_ENTRIES) {
+      // Map menjaga urutan insert, entry pertama adalah yang paling lama
+      const oldestKey = this.cache.keys().next().value;
+      if (oldestKey !== undefined) this.cache.delete(oldestKey);
+    }
+    return result;
+  }
+}
+
+export const brokerSummaryRange: BrokerSummaryRangeService = new BrokerSummaryRangeService();
@@ -0,0 +1,385 @@
+// corporateActionService.ts
+// Tabel corporate action (split, reverse split, bonus, rights issue) + engine back-adjustment OHLCV
+//
+// Sumber: csv_input/corporate_actions.csv
+//   ticker,ex_date,type,ratio_old,ratio_new,price,notes
+// File stock/ tetap berisi harga mentah TICMI. Seri adjusted dihitung saat file dibaca,
+// jadi koreksi di tabel langsung berlaku pada run kalkulasi berikutnya tanpa menulis ulang OHLC.
+//
+// Rasio dibaca "ratio_old : ratio_new":
+//   split 1:5          -> 1 saham lama jadi 5 saham, harga sebelum ex-date x 1/5
+//   reverse_split 10:1 -> 10 saham lama jadi 1 saham, harga x 10
+//   bonus 10:3         -> tiap 10 saham dapat 3 saham bonus, harga x 10/13
+//   rights 5:2 @ price -> tiap 5 saham boleh menebus 2 saham baru di harga price,
+//                         harga x TERP / close cum, TERP = (5 x close cum + 2 x price) / 7
+// Volume dibagi dengan faktor harga yang sama sehingga Value (harga x volume) tetap.
+
+import { downloadText, uploadText, exists } from '../utils/azureBlob';
+
+export const CORPORATE_ACTIONS_PATH = 'csv_input/corporate_actions.csv';
+export const CORPORATE_ACTION_TYPES = ['split', 'reverse_split', 'bonus', 'rights'] as const;
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+const CSV_HEADER = 'ticker,ex_date,type,ratio_old,ratio_new,price,notes';
+
+export type CorporateActionType = typeof CORPORATE_ACTION_TYPES[number];
+
+export interface CorporateAction {
+  ticker: string;
+  /** YYYYMMDD, hari pertama harga diperdagangkan tanpa hak */
+  exDate: string;
+  type: CorporateActionType;
+  ratioOld: number;
+  ratioNew: number;
+  /** Harga tebus rights issue; null untuk tipe lain */
+  price: number | null;
+  notes: string;
+}
+
+export interface AppliedAdjustment {
+  exDate: string;
+  type: CorporateActionType;
+  /** Pengali harga untuk semua baris sebelum exDate */
+  factor: number;
+  /** Close terakhir sebelum exDate (dipakai untuk TERP rights) */
+  cumClose: number | null;
+}
+
+export interface AdjustedContent {
+  content: string;
+  adjustments: AppliedAdjustment[];
+}
+
+export class CorporateActionValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CorporateActionValidationError';
+  }
+}
+
+/** Tanggal bisa YYYY-MM-DD, YYYYMMDD, atau DD/MM/YYYY; return YYYYMMDD atau '' */
+function normalizeDate(value: string): string {
+  const raw = (value || '').trim();
+  if (/^\d{4}-\d{2}-\d{2}/.test(raw)) return raw.slice(0, 10).replace(/-/g, '');
+  if (/^\d{8}$/.test(raw)) return raw;
+  const parts = raw.split('/');
+  if (parts.length === 3 && parts[2]?.length === 4) {
+    return `${parts[2]}${parts[1]!.padStart(2, '0')}${parts[0]!.padStart(2, '0')}`;
+  }
+  return '';
+}
+
+const csvValue = (value: string): string => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+function parseCsvLine(line: string): string[] {
+  const result: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      result.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  result.push(current.trim());
+  return result;
+}
+
+const actionKey = (action: Pick<CorporateAction, 'ticker' | 'exDate' | 'type'>) => `${action.ticker}|${action.exDate}|${action.type}`;
+
+/**
+ * Faktor harga satu corporate action. cumClose hanya dibutuhkan rights issue;
+ * rights yang harga tebusnya >= close cum tidak mendilusi harga (faktor 1).
+ */
+export function getPriceFactor(action: CorporateAction, cumClose: number | null): number {
+  switch (action.type) {
+    case 'split':
+    case 'reverse_split':
+      return action.ratioOld / action.ratioNew;
+    case 'bonus':
+      return action.ratioOld / (action.ratioOld + action.ratioNew);
+    case 'rights': {
+      if (!cumClose || cumClose <= 0 || action.price === null || action.price >= cumClose) return 1;
+      const terp = (action.ratioOld * cumClose + action.ratioNew * action.price) / (action.ratioOld + action.ratioNew);
+      return terp / cumClose;
+    }
+  }
+}
+
+const roundPrice = (value: number) => Math.round(value * 10000) / 10000;
+
+/**
+ * Back-adjust isi CSV OHLC (format file stock/, urutan baris bebas).
+ * Baris sebelum ex-date dikalikan faktor kumulatif semua action setelahnya; kolom lain
+ * dan urutan baris tidak diubah supaya parser yang sudah ada tetap bisa membacanya.
+ */
+export function backAdjustOhlcCsv(content: string, actions: CorporateAction[]): AdjustedContent {
+  if (actions.length === 0 || !content) return { content, adjustments: [] };
+
+  const lines = content.split('\n');
+  const header = (lines[0] || '').replace(/^\uFEFF/, '').split(',').map(col => col.trim().replace(/\r$/, '').toLowerCase());
+  const column = (...names: string[]) => header.findIndex(col => names.includes(col));
+  const dateIdx = column('date', 'tanggal');
+  const closeIdx = column('close', 'close_price');
+  if (dateIdx < 0 || closeIdx < 0) return { content, adjustments: [] };
+  const priceIdx = [column('open', 'open_price'), column('high', 'high_price'), column('low', 'low_price'), closeIdx].filter(idx => idx >= 0);
+  const volumeIdx = column('volume', 'vol');
+
+  const rows: Array<{ lineIndex: number; date: string; values: string[] }> = [];
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i]!;
+    if (!line.trim()) continue;
+    const values = line.split(',');
+    const date = normalizeDate(values[dateIdx] || '');
+    if (date) rows.push({ lineIndex: i, date, values });
+  }
+  if (rows.length === 0) return { content, adjustments: [] };
+
+  // Close cum = close mentah pada hari bursa terakhir sebelum ex-date
+  const byDate = [...rows].sort((a, b) => a.date.localeCompare(b.date));
+  const adjustments: AppliedAdjustment[] = [...actions]
+    .sort((a, b) => a.exDate.localeCompare(b.exDate))
+    .map(action => {
+      let cumClose: number | null = null;
+      for (const row of byDate) {
+        if (row.date >= action.exDate) break;
+        const close = parseFloat(row.values[closeIdx] || '');
+        if (Number.isFinite(close) && close > 0) cumClose = close;
+      }
+      return { exDate: action.exDate, type: action.type, factor: getPriceFactor(action, cumClose), cumClose };
+    })
+    .filter(adjustment => adjustment.factor !== 1 && Number.isFinite(adjustment.factor) && adjustment.factor > 0);
+  if (adjustments.length === 0) return { content, adjustments: [] };
+
+  const output = [...lines];
+  for (const row of rows) {
+    const factor = adjustments.reduce((product, adjustment) => (row.date < adjustment.exDate ? product * adjustment.factor : product), 1);
+    if (factor === 1) continue;
+
+    const values = [...row.values];
+    const trailingCr = values[values.length - 1]?.endsWith('\r') ?? false;
+    if (trailingCr) values[values.length - 1] = values[values.length - 1]!.slice(0, -1);
+    priceIdx.forEach(idx => {
+      const price = parseFloat(values[idx] || '');
+      if (Number.isFinite(price)) values[idx] = String(roundPrice(price * factor));
+    });
+    if (volumeIdx >= 0) {
+      const volume = parseFloat(values[volumeIdx] || '');
+      if (Number.isFinite(volume)) values[volumeIdx] = String(Math.round(volume / factor));
+    }
+    output[row.lineIndex] = values.join(',') + (trailingCr ? '\r' : '');
+  }
+
+  return { content: output.join('\n'), adjustments };
+}
+
+export class CorporateActionService {
+  private actions = new Map<string, CorporateAction[]>();
+  private loadedAt = 0;
+  private loading: Promise<void> | null = null;
+
+  async load(force = false): Promise<void> {
+    if (!force && this.loadedAt > 0 && Date.now() - this.loadedAt < CACHE_TTL_MS) return;
+    if (this.loading) return this.loading;
+
+    this.loading = this.doLoad().finally(() => {
+      this.loading = null;
+    });
+    return this.loading;
+  }
+
+  invalidate(): void {
+    this.loadedAt = 0;
+  }
+
+  async listActions(ticker?: string): Promise<CorporateAction[]> {
+    await this.load();
+    const all = ticker
+      ? this.actions.get(ticker.trim().toUpperCase()) || []
+      : Array.from(this.actions.values()).flat();
+    return [...all].sort((a, b) => a.ticker.localeCompare(b.ticker) || a.exDate.localeCompare(b.exDate));
+  }
+
+  async getActions(ticker: string): Promise<CorporateAction[]> {
+    await this.load();
+    return this.actions.get(ticker.trim().toUpperCase()) || [];
+  }
+
+  /**
+   * Tambah atau ganti action (kunci: ticker + ex_date + type)
+   */
+  async upsertAction(input: {
+    ticker: string;
+    exDate: string;
+    type: string;
+    ratioOld: number;
+    ratioNew: number;
+    price?: number | null;
+    notes?: string;
+  }): Promise<{ previous: CorporateAction | null; current: CorporateAction }> {
+    const current = this.validate(input);
+    await this.load(true);
+
+    const list = this.actions.get(current.ticker) || [];
+    const index = list.findIndex(action => actionKey(action) === actionKey(current));
+    const previous = index >= 0 ? list[index]! : null;
+    if (index >= 0) {
+      list[index] = current;
+    } else {
+      list.push(current);
+    }
+    this.actions.set(current.ticker, list);
+    await this.save();
+    return { previous, current };
+  }
+
+  async removeAction(ticker: string, exDate: string, type: string): Promise<CorporateAction | null> {
+    const code = ticker.trim().toUpperCase();
+    const date = normalizeDate(exDate);
+    const actionType = type.trim().toLowerCase();
+    await this.load(true);
+
+    const list = this.actions.get(code) || [];
+    const index = list.findIndex(action => action.exDate === date && action.type === actionType);
+    if (index < 0) return null;
+
+    const [previous] = list.splice(index, 1);
+    if (list.length === 0) {
+      this.actions.delete(code);
+    }
+    await this.save();
+    return previous || null;
+  }
+
+  /**
+   * Seri adjusted untuk satu ticker. Ticker tanpa corporate action dikembalikan apa adanya.
+   */
+  async adjustContent(ticker: string, content: string): Promise<AdjustedContent> {
+    const actions = await this.getActions(ticker);
+    return backAdjustOhlcCsv(content, actions);
+  }
+
+  private validate(input: {
+    ticker: string;
+    exDate: string;
+    type: string;
+    ratioOld: number;
+    ratioNew: number;
+    price?: number | null;
+    notes?: string;
+  }): CorporateAction {
+    const ticker = (input.ticker || '').trim().toUpperCase();
+    if (!/^[A-Z0-9]{2,6}$/.test(ticker)) {
+      throw new CorporateActionValidationError(`Invalid ticker: ${input.ticker}`);
+    }
+    const exDate = normalizeDate(input.exDate);
+    if (!exDate) {
+      throw new CorporateActionValidationError('exDate must be YYYYMMDD or YYYY-MM-DD');
+    }
+    const type = CORPORATE_ACTION_TYPES.find(name => name === (input.type || '').trim().toLowerCase());
+    if (!type) {
+      throw new CorporateActionValidationError(`Unknown type "${input.type}". Valid types: ${CORPORATE_ACTION_TYPES.join(', ')}`);
+    }
+
+    const ratioOld = Number(input.ratioOld);
+    const ratioNew = Number(input.ratioNew);
+    if (!(ratioOld > 0) || !(ratioNew > 0)) {
+      throw new CorporateActionValidationError('ratioOld and ratioNew must be positive numbers');
+    }
+    if (type === 'split' && ratioNew <= ratioOld) {
+      throw new CorporateActionValidationError('A split needs ratioNew > ratioOld (e.g. 1:5)');
+    }
+    if (type === 'reverse_split' && ratioOld <= ratioNew) {
+      throw new CorporateActionValidationError('A reverse split needs ratioOld > ratioNew (e.g. 10:1)');
+    }
+
+    let price: number | null = null;
+    if (type === 'rights') {
+      price = Number(input.price);
+      if (!(price > 0)) {
+        throw new CorporateActionValidationError('Rights issue needs the exercise price');
+      }
+    }
+
+    return { ticker, exDate, type, ratioOld, ratioNew, price, notes: (input.notes || '').trim() };
+  }
+
+  private async doLoad(): Promise<void> {
+    const actions = new Map<string, CorporateAction[]>();
+    try {
+      if (await exists(CORPORATE_ACTIONS_PATH)) {
+        const content = await downloadText(CORPORATE_ACTIONS_PATH);
+        const lines = content.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+        const header = parseCsvLine((lines[0] || '').replace(/^\uFEFF/, '')).map(h => h.toLowerCase());
+        const idx = (name: string) => header.indexOf(name);
+
+        for (let i = 1; i < lines.length; i++) {
+          const values = parseCsvLine(lines[i]!);
+          try {
+            const action = this.validate({
+              ticker: values[idx('ticker')] || '',
+              exDate: values[idx('ex_date')] || '',
+              type: values[idx('type')] || '',
+              ratioOld: parseFloat(values[idx('ratio_old')] || ''),
+              ratioNew: parseFloat(values[idx('ratio_new')] || ''),
+              price: parseFloat(values[idx('price')] || ''),
+              notes: values[idx('notes')] || ''
+            });
+            const list = actions.get(action.ticker) || [];
+            if (!list.some(existing => actionKey(existing) === actionKey(action))) list.push(action);
+            actions.set(action.ticker, list);
+          } catch (error) {
+            console.warn(`⚠️ Skipping corporate action on line ${i + 1}: ${error instanceof Error ? error.message : error}`);
+          }
+        }
+      }
+    } catch (error) {
+      // Tanpa tabel, seri adjusted sama dengan seri mentah
+      console.warn('⚠️ Could not load corporate actions, serving unadjusted prices:', error);
+    }
+
+    this.actions = actions;
+    this.loadedAt = Date.now();
+  }
+
+  private async save(): Promise<void> {
+    const rows = Array.from(this.actions.values())
+      .flat()
+      .sort((a, b) => a.ticker.localeCompare(b.ticker) || a.exDate.localeCompare(b.exDate) || a.type.localeCompare(b.type))
+      .map(action => [
+        action.ticker,
+        action.exDate,
+        action.type,
+        String(action.ratioOld),
+        String(action.ratioNew),
+        action.price === null ? '' : String(action.price),
+        action.notes
+      ].map(csvValue).join(','));
+    await uploadText(CORPORATE_ACTIONS_PATH, [CSV_HEADER, ...rows].join('\n'));
+  }
+}
+
+export const corporateActions: CorporateActionService = new CorporateActionService();
+
+/**
+ * Adjust isi file stock/{sector}/{TICKER}.csv yang dibaca langsung (tanpa stockCache)
+ */
+export async function adjustStockContent(blobName: string, content: string): Promise<string> {
+  const ticker = (blobName.split('/').pop() || '').replace('.csv', '');
+  if (!ticker) return content;
+  return (await corporateActions.adjustContent(ticker, content)).content;
+}
@@ -3,7 +3,7 @@
 // Base service with parallel processing and connection pooling
 
 import axios, { AxiosInstance } from 'axios';
-import { BlobServiceClient, StorageSharedKeyCredential } from '@azure/storage-blob';
+import { getStorageDriver, AzureStorageDriver, StorageDriver } from '../utils/storageDriver';
 // Removed unused imports
 
 // Connection Pool Configuration
@@ -49,78 +49,34 @@ const MAX_CONCURRENT_REQUESTS_PHASE_8 = 1; // Phase 8: 1 concurrent
 const MEMORY_CLEANUP_INTERVAL = 100;
 
 // Azure Storage Service with Connection Pooling
+// Delegasi ke storage driver aktif (Azure atau local) - lihat utils/storageDriver.ts
 class OptimizedAzureStorageService {
-  private containerClient: any;
+  private driver: StorageDriver;
 
   constructor() {
-    const connectionString = process.env['AZURE_STORAGE_CONNECTION_STRING'];
-    const containerName = process.env['AZURE_STORAGE_CONTAINER_NAME'] || 'stock-trading-data';
-
-    if (!connectionString) {
-      throw new Error('AZURE_STORAGE_CONNECTION_STRING is required');
-    }
-
-    const connectionStringParts = connectionString.split(';');
-    const accountNamePart = connectionStringParts.find(part => part.startsWith('AccountName='));
-    const accountKeyPart = connectionStringParts.find(part => part.startsWith('AccountKey='));
-    const endpointSuffixPart = connectionStringParts.find(part => part.startsWith('EndpointSuffix='));
-
-    if (!accountNamePart || !accountKeyPart || !endpointSuffixPart) {
-      throw new Error('Invalid connection string format - missing required parts');
-    }
-
-    const accountName = accountNamePart.split('=')[1];
-    const accountKey = accountKeyPart.split('=')[1];
-    const endpointSuffix = endpointSuffixPart.split('=')[1];
-
-    if (!accountName || !accountKey || !endpointSuffix) {
-      throw new Error('Invalid connection string format - empty values');
-    }
-
-    const accountUrl = `https://${accountName}.blob.${endpointSuffix}`;
-    const credential = new StorageSharedKeyCredential(accountName, accountKey);
-
-    this.containerClient = new BlobServiceClient(accountUrl, credential)
-      .getContainerClient(containerName);
+    this.driver = getStorageDriver();
   }
 
   async ensureContainerExists(): Promise<void> {
-    await this.containerClient.createIfNotExists();
+    if (this.driver instanceof AzureStorageDriver) {
+      await this.driver.ensureContainerExists();
+    }
   }
 
   async uploadCsvData(blobName: string, csvData: string): Promise<void> {
-    const blobClient = this.containerClient.getBlockBlobClient(blobName);
-    await blobClient.upload(csvData, Buffer.byteLength(csvData), {
-      blobHTTPHeaders: { blobContentType: 'text/csv' }
-    });
+    await this.driver.uploadText(blobName, csvData, 'text/csv', 1);
   }
 
   async downloadCsvData(blobName: string): Promise<string> {
-    const blobClient = this.containerClient.getBlockBlobClient(blobName);
-    const downloadResponse = await blobClient.download();
-    return await this.streamToString(downloadResponse.readableStreamBody!);
+    return await this.driver.downloadText(blobName);
   }
 
   async blobExists(blobName: string): Promise<boolean> {
-    const blobClient = this.containerClient.getBlockBlobClient(blobName);
-    return await blobClient.exists();
+    return await this.driver.exists(blobName);
   }
 
   async listBlobs(prefix: string): Promise<string[]> {
-    const blobs: string[] = [];
-    for await (const blob of this.containerClient.listBlobsFlat({ prefix })) {
-      blobs.push(blob.name);
-    }
-    return blobs;
-  }
-
-  private async streamToString(readableStream: NodeJS.ReadableStream): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const chunks: Buffer[] = [];
-      readableStream.on('data', (data: Buffer) => chunks.push(data));
-      readableStream.on('end', () => resolve(Buffer.concat(chunks).toString()));
-      readableStream.on('error', reject);
-    });
+    return await this.driver.listPaths({ prefix });
   }
 }
 
@@ -442,8 +398,7 @@ export {
   MAX_CONCURRENT_REQUESTS_PHASE_8,
   MAX_CONCURRENT_REQUESTS_INDEX,
   MAX_CONCURRENT_REQUESTS,
-  getEmitenListFromCsv,
-  getSectorFallback
+  getEmitenListFromCsv
 };
 
 async function getEmitenListFromCsv(azureStorage: OptimizedAzureStorageService): Promise<string[]> {
@@ -473,13 +428,3 @@ async function getEmitenListFromCsv(azureStorage: OptimizedAzureStorageService):
     return [];
   }
 }
-
-function getSectorFallback(emiten: string, sectors: string[]): string {
-  if (!sectors || sectors.length === 0) return 'Technology';
-  const hash = emiten.split('').reduce((a, b) => {
-    a = ((a << 5) - a) + b.charCodeAt(0);
-    return a & a;
-  }, 0);
-
-  return sectors[Math.abs(hash) % sectors.length] || 'Technology';
-}
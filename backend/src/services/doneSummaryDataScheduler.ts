@@ -2,8 +2,14 @@
 // Service for daily done summary data updates from Google Cloud Storage to Azure
 
 import { Storage } from '@google-cloud/storage';
-import { BlobServiceClient, StorageSharedKeyCredential } from '@azure/storage-blob';
+import { getStorageDriver, AzureStorageDriver, StorageDriver } from '../utils/storageDriver';
 import { SchedulerLogService } from './schedulerLogService';
+import { tradingCalendar } from './tradingCalendarService';
+import { recomputeManifest, SOURCE_DATASET } from './recomputeManifest';
+import { doneSummaryCache } from '../cache/doneSummaryCacheService';
+
+// Hanya tanggal terbaru yang dicek apakah di-publish ulang oleh bursa
+const REPUBLISH_CHECK_DATES = 30;
 
 
 // Google Cloud Storage Service
@@ -25,13 +31,20 @@ class GoogleCloudStorageService {
     }
   }
   
-  async listFiles(prefix: string): Promise<string[]> {
+  /**
+   * List files beserta fingerprint isi (md5/generation) untuk deteksi re-publish
+   */
+  async listFilesWithOrigin(prefix: string): Promise<Map<string, string>> {
     try {
       const [files] = await this.bucket.getFiles({ prefix });
-      return files.map((file: any) => file.name);
+      const result = new Map<string, string>();
+      files.forEach((file: any) => {
+        result.set(file.name, String(file.metadata?.md5Hash || file.metadata?.generation || ''));
+      });
+      return result;
     } catch (error) {
       console.error('Error listing GCS files:', error);
-      return [];
+      return new Map();
     }
   }
   
@@ -57,83 +70,38 @@ class GoogleCloudStorageService {
 }
 
 // Azure Storage Service
+// Delegasi ke storage driver aktif (Azure atau local) - lihat utils/storageDriver.ts
 class AzureStorageService {
-  private containerClient: any;
-  
+  private driver: StorageDriver;
+
   constructor() {
-    const connectionString = process.env['AZURE_STORAGE_CONNECTION_STRING'];
-    const containerName = process.env['AZURE_STORAGE_CONTAINER_NAME'] || 'stock-trading-data';
-    
-    if (!connectionString) {
-      throw new Error('AZURE_STORAGE_CONNECTION_STRING is required');
-    }
-    
-    const connectionStringParts = connectionString.split(';');
-    const accountNamePart = connectionStringParts.find(part => part.startsWith('AccountName='));
-    const accountKeyPart = connectionStringParts.find(part => part.startsWith('AccountKey='));
-    const endpointSuffixPart = connectionStringParts.find(part => part.startsWith('EndpointSuffix='));
-    
-    if (!accountNamePart || !accountKeyPart || !endpointSuffixPart) {
-      throw new Error('Invalid connection string format - missing required parts');
-    }
-    
-    const accountName = accountNamePart.split('=')[1];
-    const accountKey = accountKeyPart.split('=')[1];
-    const endpointSuffix = endpointSuffixPart.split('=')[1];
-    
-    if (!accountName || !accountKey || !endpointSuffix) {
-      throw new Error('Invalid connection string format - empty values');
-    }
-    
-    const accountUrl = `https://${accountName}.blob.${endpointSuffix}`;
-    const credential = new StorageSharedKeyCredential(accountName, accountKey);
-    
-    this.containerClient = new BlobServiceClient(accountUrl, credential)
-      .getContainerClient(containerName);
+    this.driver = getStorageDriver();
   }
-  
+
   async ensureContainerExists(): Promise<void> {
-    await this.containerClient.createIfNotExists();
-  }
-  
-  async uploadFile(blobName: string, fileData: Buffer, contentType: string = 'text/csv'): Promise<void> {
-    const blobClient = this.containerClient.getBlockBlobClient(blobName);
-    await blobClient.upload(fileData, fileData.length, {
-      blobHTTPHeaders: { blobContentType: contentType }
-    });
+    if (this.driver instanceof AzureStorageDriver) {
+      await this.driver.ensureContainerExists();
+    }
   }
-  
+
   async uploadString(blobName: string, data: string, contentType: string = 'text/csv'): Promise<void> {
-    const blobClient = this.containerClient.getBlockBlobClient(blobName);
-    await blobClient.upload(data, Buffer.byteLength(data), {
-      blobHTTPHeaders: { blobContentType: contentType }
-    });
+    await this.driver.uploadText(blobName, data, contentType);
   }
-  
-  async blobExists(blobName: string): Promise<boolean> {
-    const blobClient = this.containerClient.getBlockBlobClient(blobName);
-    return await blobClient.exists();
+
+  async downloadString(blobName: string): Promise<string> {
+    return await this.driver.downloadText(blobName);
   }
-}
 
-// Helper functions
-async function streamToBuffer(readableStream: NodeJS.ReadableStream): Promise<Buffer> {
-  return new Promise((resolve, reject) => {
-    const chunks: Buffer[] = [];
-    readableStream.on('data', (data: Buffer) => chunks.push(data));
-    readableStream.on('end', () => resolve(Buffer.concat(chunks)));
-    readableStream.on('error', reject);
-  });
+  async blobExists(blobName: string): Promise<boolean> {
+    return await this.driver.exists(blobName);
+  }
 }
 
 // Main update function
 export async function updateDoneSummaryData(logId?: string | null, triggeredBy?: string): Promise<void> {
-  // Skip if weekend
-  const today = new Date();
-  const dayOfWeek = today.getDay();
-  
-  if (dayOfWeek === 0 || dayOfWeek === 6) {
-    console.log('📅 Weekend detected - skipping Done Summary Data sync (no market data available)');
+  // Skip if weekend / IDX holiday
+  if (!(await tradingCalendar.isTradingDay())) {
+    console.log('📅 Non-trading day (weekend/IDX holiday) - skipping Done Summary Data sync (no market data available)');
     return;
   }
   
@@ -164,31 +132,22 @@ export async function updateDoneSummaryData(logId?: string | null, triggeredBy?:
 
     // Download GCS credentials from Azure
     const credentialsBlobName = 'csv_input/cred-bucket-ferry.json';
-    const credentialsBlobClient = azureStorage['containerClient'].getBlockBlobClient(credentialsBlobName);
-    
-    let gcsCredentials;
-    try {
-      const credentialsDownloadResponse = await credentialsBlobClient.download();
-      const credentialsBuffer = await streamToBuffer(credentialsDownloadResponse.readableStreamBody!);
-      const credentialsJson = credentialsBuffer.toString();
-      gcsCredentials = JSON.parse(credentialsJson);
-    } catch (error: any) {
-      if (error.statusCode === 404) {
-        const errorMsg = `GCS credentials not found at ${credentialsBlobName}. Please upload cred-bucket-ferry.json to csv_input/ directory in Azure.`;
-        console.error(`❌ Done Summary scheduler error: ${errorMsg}`);
-        if (finalLogId) {
-          await SchedulerLogService.markFailed(finalLogId, errorMsg, error);
-        }
-        return;
+    if (!(await azureStorage.blobExists(credentialsBlobName))) {
+      const errorMsg = `GCS credentials not found at ${credentialsBlobName}. Please upload cred-bucket-ferry.json to csv_input/ directory in Azure.`;
+      console.error(`❌ Done Summary scheduler error: ${errorMsg}`);
+      if (finalLogId) {
+        await SchedulerLogService.markFailed(finalLogId, errorMsg);
       }
-      throw error;
+      return;
     }
+    const gcsCredentials = JSON.parse(await azureStorage.downloadString(credentialsBlobName));
     
     const gcsStorage = new GoogleCloudStorageService(gcsCredentials);
 
     // List all files in GCS and check which ones don't exist in Azure
     console.log('ℹ️ Listing all files in GCS...');
-    const gcsAllFiles = await gcsStorage.listFiles('');
+    const gcsOrigins = await gcsStorage.listFilesWithOrigin('');
+    const gcsAllFiles = Array.from(gcsOrigins.keys());
     
     // Filter for DT CSV files (pattern: YYYYMMDD/DTYYMMDD.csv)
     const gcsCsvFiles = gcsAllFiles.filter((fileName: string) => {
@@ -208,9 +167,10 @@ export async function updateDoneSummaryData(logId?: string | null, triggeredBy?:
     
     // Check which files already exist in Azure and filter out existing ones
     const filesToProcess: string[] = [];
+    const republishedDates = new Set<string>();
     let existingCount = 0;
     
-    for (const gcsFileName of sortedGcsFiles) {
+    for (const [index, gcsFileName] of sortedGcsFiles.entries()) {
       // Derive date and target Azure path
       const match = gcsFileName.match(/^(\d{8})\/DT(\d{6})\.csv$/);
       const dateStr = match ? match[1] : '';
@@ -221,6 +181,14 @@ export async function updateDoneSummaryData(logId?: string | null, triggeredBy?:
       
       // Check if already exists in Azure
       if (await azureStorage.blobExists(azureBlobName)) {
+        // File yang isinya berubah di GCS (di-publish ulang oleh bursa) di-sync ulang
+        const origin = gcsOrigins.get(gcsFileName);
+        if (dateStr && origin && index < REPUBLISH_CHECK_DATES && await recomputeManifest.isSourceRepublished(dateStr, origin)) {
+          console.log(`♻️ Done Summary ${dateStr} was re-published in GCS - will re-sync`);
+          republishedDates.add(dateStr);
+          filesToProcess.push(gcsFileName);
+          continue;
+        }
         existingCount++;
         continue;
       }
@@ -283,6 +251,18 @@ export async function updateDoneSummaryData(logId?: string | null, triggeredBy?:
           // Upload to Azure Storage
           await azureStorage.uploadString(azureBlobName, fileData, 'text/csv');
           
+          if (dateStr) {
+            const origin = gcsOrigins.get(gcsFileName);
+            if (origin) {
+              await recomputeManifest.recordSourceSync(dateStr, origin);
+            }
+            // Output turunan dari versi lama tanggal ini harus dihitung ulang
+            if (republishedDates.has(dateStr)) {
+              doneSummaryCache.clearDate(dateStr);
+              await recomputeManifest.invalidate(SOURCE_DATASET, dateStr, 'done-summary re-published');
+            }
+          }
+          
           console.log(`✅ Done Summary SUCCESS - ${dateStr || gcsFileName} - Done summary transferred successfully`);
           successCount++;
         } catch (gcsError: any) {
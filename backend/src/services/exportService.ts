@@ -0,0 +1,513 @@
+// exportService.ts
+// Export dataset (broker summary, broker transaction, foreign/money flow, accumulation,
+// haka-haki, break done trade) untuk rentang tanggal + filter ticker/broker ke satu file
+// CSV, XLSX (satu sheet per tanggal / per kode) atau Parquet.
+// CSV di-stream ke response per file sumber; XLSX/Parquet dibangun di memori (dibatasi MAX_EXPORT_ROWS).
+
+import { Writable } from 'stream';
+import * as XLSX from 'xlsx';
+import { downloadText, exists } from '../utils/azureBlob';
+import { getBrokerTransactionPath } from '../utils/brokerTransactionPath';
+import { writeParquet, ParquetColumn } from '../utils/parquetWriter';
+import { Feature } from '../config/entitlements';
+import { tradingCalendar } from './tradingCalendarService';
+
+export const EXPORT_DATASETS = [
+  'broker_summary',
+  'broker_transaction',
+  'foreign_flow',
+  'money_flow',
+  'accumulation',
+  'haka_haki',
+  'break_done_trade'
+] as const;
+
+export type ExportDataset = typeof EXPORT_DATASETS[number];
+export type ExportFormat = 'csv' | 'xlsx' | 'parquet';
+
+export const MAX_EXPORT_DAYS = 93;
+export const MAX_EXPORT_CODES = 50;
+export const MAX_EXPORT_FILES = 1500;
+export const MAX_EXPORT_ROWS = 500_000;
+// Baris per row group Parquet supaya encoding tidak memegang satu page raksasa per kolom
+const PARQUET_ROW_GROUP_SIZE = 50_000;
+
+const LOAD_CONCURRENCY = 8;
+
+/** Fitur entitlement yang dibutuhkan per dataset (sama dengan halaman asalnya) */
+export const EXPORT_DATASET_FEATURES: Record<ExportDataset, Feature> = {
+  broker_summary: 'broker_activity',
+  broker_transaction: 'broker_activity',
+  foreign_flow: 'story',
+  money_flow: 'story',
+  accumulation: 'story',
+  haka_haki: 'stock_transaction',
+  break_done_trade: 'stock_transaction'
+};
+
+export interface ExportRequest {
+  dataset: ExportDataset;
+  /** YYYY-MM-DD atau YYYYMMDD */
+  fromDate: string;
+  toDate: string;
+  tickers: string[];
+  brokers: string[];
+  /** Board RG/TN/NG (broker_summary, broker_transaction, haka_haki) */
+  board?: 'RG' | 'TN' | 'NG' | undefined;
+  /** Investor type F/D (broker_transaction, haka_haki) */
+  investor?: 'F' | 'D' | undefined;
+  /** Pivot broker_transaction: Broker = file per broker, Stock = file per ticker */
+  pivot?: 'Broker' | 'Stock' | undefined;
+  format: ExportFormat;
+  /** Pengelompokan sheet untuk XLSX */
+  groupBy?: 'date' | 'code' | undefined;
+}
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  body: Buffer;
+  rowCount: number;
+  fileCount: number;
+}
+
+/** Hasil validasi + daftar file sumber; dibuat sebelum header response dikirim */
+export interface ExportPlan {
+  request: ExportRequest;
+  fromDate: string;
+  toDate: string;
+  tickers: string[];
+  sources: ExportSource[];
+  baseName: string;
+}
+
+export class ExportValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExportValidationError';
+  }
+}
+
+interface ExportSource {
+  path: string;
+  /** YYYY-MM-DD untuk dataset per tanggal; null jika tanggal diambil dari kolom Date di file */
+  date: string | null;
+  /** Kolom konteks yang ditambahkan di depan tiap baris, mis. { Ticker: 'BBCA' } */
+  context: Record<string, string>;
+}
+
+interface ExportRow {
+  date: string;
+  code: string;
+  values: Map<string, string>;
+}
+
+/** 'YYYY-MM-DD', 'YYYYMMDD', 'YYYY-MM-DDTHH:mm' -> 'YYYYMMDD' */
+const compactDate = (value: string): string => value.trim().slice(0, 10).replace(/[-/]/g, '');
+const isoDate = (compact: string): string => `${compact.slice(0, 4)}-${compact.slice(4, 6)}-${compact.slice(6, 8)}`;
+
+/**
+ * Split satu baris CSV; delimiter ';' dipakai file broker_transaction format lama.
+ * Quote ganda ("a,b") didukung seperlunya.
+ */
+function splitCsvLine(line: string, delimiter: string): string[] {
+  if (!line.includes('"')) {
+    return line.split(delimiter).map(v => v.trim());
+  }
+  const values: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (ch === delimiter && !inQuotes) {
+      values.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  values.push(current.trim());
+  return values;
+}
+
+function parseCsv(content: string): { header: string[]; rows: string[][] } {
+  const lines = content.split(/\r?\n/).filter(line => line.trim().length > 0);
+  const headerLine = (lines[0] || '').replace(/^\uFEFF/, '');
+  const delimiter = headerLine.includes(',') || !headerLine.includes(';') ? ',' : ';';
+  return {
+    header: splitCsvLine(headerLine, delimiter),
+    rows: lines.slice(1).map(line => splitCsvLine(line, delimiter))
+  };
+}
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = [];
+  for (let i = 0; i < items.length; i += limit) {
+    results.push(...(await Promise.all(items.slice(i, i + limit).map(fn))));
+  }
+  return results;
+}
+
+/** Tulis dengan backpressure; resolve juga saat koneksi ditutup agar tidak menggantung */
+function writeChunk(out: Writable, chunk: string): Promise<void> {
+  if (out.write(chunk)) return Promise.resolve();
+  return new Promise(resolve => {
+    const done = () => {
+      out.off('drain', done);
+      out.off('close', done);
+      resolve();
+    };
+    out.on('drain', done);
+    out.on('close', done);
+  });
+}
+
+const compareRows = (a: ExportRow, b: ExportRow): number => a.date.localeCompare(b.date) || a.code.localeCompare(b.code);
+
+const csvEscape = (value: string): string => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+const NUMERIC_RE = /^-?\d+(\.\d+)?([eE][-+]?\d+)?$/;
+
+export class ExportService {
+  /**
+   * Validasi request dan susun daftar file sumber. Dipanggil sebelum response dikirim
+   * supaya error validasi tetap bisa dibalas 400.
+   */
+  async prepare(request: ExportRequest): Promise<ExportPlan> {
+    const fromDate = compactDate(request.fromDate);
+    const toDate = compactDate(request.toDate);
+    const tickers = Array.from(new Set(request.tickers.map(t => t.trim().toUpperCase()).filter(Boolean)));
+    const brokers = Array.from(new Set(request.brokers.map(b => b.trim().toUpperCase()).filter(Boolean)));
+    this.validate(request, fromDate, toDate, tickers, brokers);
+
+    // Hanya hari bursa: weekend dan libur bursa tidak punya file
+    const dates = await tradingCalendar.tradingDaysBetween(fromDate, toDate);
+    const sources = this.buildSources(request, dates, tickers, brokers);
+    if (sources.length > MAX_EXPORT_FILES) {
+      throw new ExportValidationError(`Export would read ${sources.length} files (max ${MAX_EXPORT_FILES}). Narrow the date range or filters.`);
+    }
+
+    return { request, fromDate, toDate, tickers, sources, baseName: `${request.dataset}_${fromDate}_${toDate}` };
+  }
+
+  getFilename(plan: ExportPlan): string {
+    return `${plan.baseName}.${plan.request.format}`;
+  }
+
+  /**
+   * XLSX / Parquet butuh seluruh baris (sheet per grup, tipe kolom Parquet), jadi dibangun di memori
+   */
+  async build(plan: ExportPlan): Promise<ExportFile> {
+    const { columns, rows, fileCount } = await this.loadRows(plan);
+
+    if (plan.request.format === 'xlsx') {
+      return {
+        filename: this.getFilename(plan),
+        contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        body: this.toXlsx(columns, rows, plan.request.groupBy || 'date'),
+        rowCount: rows.length,
+        fileCount
+      };
+    }
+    return {
+      filename: this.getFilename(plan),
+      contentType: 'application/vnd.apache.parquet',
+      body: this.toParquet(columns, rows),
+      rowCount: rows.length,
+      fileCount
+    };
+  }
+
+  /**
+   * Stream CSV ke `out`. Baris dikirim per kelompok file (satu tanggal, atau satu file time series)
+   * yang sudah diurutkan, jadi memori hanya sebesar satu kelompok, bukan seluruh export.
+   * Kolom header diambil dari kelompok pertama; kolom baru di file berikutnya diabaikan.
+   */
+  async streamCsv(plan: ExportPlan, out: Writable): Promise<{ rowCount: number; fileCount: number }> {
+    const columns = this.contextColumns(plan.sources);
+    const seen = new Set(columns);
+    let headerWritten = false;
+    const ignoredColumns = new Set<string>();
+    const addColumn = (name: string) => {
+      if (seen.has(name)) return;
+      if (headerWritten) {
+        if (!ignoredColumns.has(name)) {
+          ignoredColumns.add(name);
+          console.warn(`⚠️ Export ${plan.baseName}: column ${name} appeared after the CSV header was sent, skipped`);
+        }
+        return;
+      }
+      seen.add(name);
+      columns.push(name);
+    };
+
+    const tickerSet = new Set(plan.tickers);
+    let pending: ExportRow[] = [];
+    let pendingKey: string | null = null;
+    let rowCount = 0;
+    let fileCount = 0;
+
+    const flush = async () => {
+      if (!headerWritten && (pending.length > 0 || pendingKey === null)) {
+        headerWritten = true;
+        await writeChunk(out, `\uFEFF${columns.map(csvEscape).join(',')}\n`);
+      }
+      if (pending.length === 0) return;
+      pending.sort(compareRows);
+      const lines = pending.map(row => this.rowArray(columns, row).map(csvEscape).join(',')).join('\n');
+      rowCount += pending.length;
+      pending = [];
+      await writeChunk(out, `${lines}\n`);
+    };
+
+    for (let i = 0; i < plan.sources.length && !out.destroyed; i += LOAD_CONCURRENCY) {
+      const loaded = await Promise.all(plan.sources.slice(i, i + LOAD_CONCURRENCY).map(source => this.readSource(source)));
+      for (const { source, csv } of loaded) {
+        const key = source.date ?? source.path;
+        if (pendingKey !== null && key !== pendingKey) {
+          await flush();
+        }
+        pendingKey = key;
+        if (!csv) continue;
+        fileCount++;
+        pending.push(...this.extractRows(plan, source, csv, tickerSet, addColumn));
+      }
+    }
+    pendingKey = null;
+    await flush();
+    return { rowCount, fileCount };
+  }
+
+  private validate(request: ExportRequest, fromDate: string, toDate: string, tickers: string[], brokers: string[]) {
+    if (!/^\d{8}$/.test(fromDate) || !/^\d{8}$/.test(toDate)) {
+      throw new ExportValidationError('fromDate and toDate must be valid dates');
+    }
+    if (fromDate > toDate) {
+      throw new ExportValidationError('fromDate must be before toDate');
+    }
+    const days = (Date.parse(isoDate(toDate)) - Date.parse(isoDate(fromDate))) / 86400000 + 1;
+    if (days > MAX_EXPORT_DAYS) {
+      throw new ExportValidationError(`Date range is limited to ${MAX_EXPORT_DAYS} days per export`);
+    }
+    if (tickers.length > MAX_EXPORT_CODES || brokers.length > MAX_EXPORT_CODES) {
+      throw new ExportValidationError(`At most ${MAX_EXPORT_CODES} tickers / brokers per export`);
+    }
+
+    const { dataset } = request;
+    const needsTicker = ['broker_summary', 'foreign_flow', 'money_flow', 'haka_haki', 'break_done_trade'].includes(dataset)
+      || (dataset === 'broker_transaction' && request.pivot === 'Stock');
+    if (needsTicker && tickers.length === 0) {
+      throw new ExportValidationError(`At least one ticker is required for ${dataset}`);
+    }
+    if (dataset === 'broker_transaction' && request.pivot !== 'Stock' && brokers.length === 0) {
+      throw new ExportValidationError('At least one broker is required for broker_transaction (Broker pivot)');
+    }
+  }
+
+  private buildSources(request: ExportRequest, dates: string[], tickers: string[], brokers: string[]): ExportSource[] {
+    const board = request.board;
+    const boardLower = board?.toLowerCase();
+    const sources: ExportSource[] = [];
+
+    switch (request.dataset) {
+      case 'broker_summary':
+        for (const date of dates) {
+          const prefix = boardLower
+            ? `broker_summary_${boardLower}/broker_summary_${boardLower}_${date}/`
+            : `broker_summary/broker_summary_${date}/`;
+          tickers.forEach(ticker => sources.push({ path: `${prefix}${ticker}.csv`, date: isoDate(date), context: { Ticker: ticker } }));
+        }
+        break;
+
+      case 'broker_transaction': {
+        const pivot = request.pivot === 'Stock' ? 'Stock' : 'Broker';
+        const codes = pivot === 'Stock' ? tickers : brokers;
+        const label = pivot === 'Stock' ? 'Ticker' : 'Broker';
+        for (const date of dates) {
+          codes.forEach(code => sources.push({
+            path: getBrokerTransactionPath(code, date, pivot, request.investor || '', board || ''),
+            date: isoDate(date),
+            context: { [label]: code }
+          }));
+        }
+        break;
+      }
+
+      case 'foreign_flow':
+        tickers.forEach(ticker => sources.push({ path: `foreign_flow/${ticker}.csv`, date: null, context: { Ticker: ticker } }));
+        break;
+
+      case 'money_flow':
+        tickers.forEach(ticker => sources.push({ path: `money_flow/stock/${ticker}.csv`, date: null, context: { Ticker: ticker } }));
+        break;
+
+      case 'accumulation':
+        // Satu file per tanggal berisi semua emiten; filter ticker dilakukan per baris (kolom Symbol)
+        dates.forEach(date => sources.push({ path: `accumulation_distribution/${date}.csv`, date: isoDate(date), context: {} }));
+        break;
+
+      case 'haka_haki': {
+        // Suffix file mengikuti haka_haki_analysis: '' untuk All/All, selain itu _{inv}_{board}
+        const inv = (request.investor || 'All').toLowerCase();
+        const boardPart = boardLower || 'all';
+        const suffix = inv === 'all' && boardPart === 'all' ? '' : `_${inv}_${boardPart}`;
+        const brokerFiles = brokers.length > 0 ? brokers : ['All'];
+        for (const date of dates) {
+          tickers.forEach(ticker => brokerFiles.forEach(broker => sources.push({
+            path: `done_summary_haka_haki/${date}/${ticker}/${broker}${suffix}.csv`,
+            date: isoDate(date),
+            context: { Ticker: ticker, Broker: broker }
+          })));
+        }
+        break;
+      }
+
+      case 'break_done_trade':
+        for (const date of dates) {
+          tickers.forEach(ticker => sources.push({ path: `done_detail/${date}/STOCK/${ticker}.csv`, date: isoDate(date), context: { Ticker: ticker } }));
+        }
+        break;
+    }
+
+    return sources;
+  }
+
+  private contextColumns(sources: ExportSource[]): string[] {
+    // Kolom konteks selalu di depan (Ticker / Broker)
+    const columns: string[] = ['Date'];
+    sources.forEach(source => Object.keys(source.context).forEach(name => {
+      if (!columns.includes(name)) columns.push(name);
+    }));
+    return columns;
+  }
+
+  private async readSource(source: ExportSource): Promise<{ source: ExportSource; csv: ReturnType<typeof parseCsv> | null }> {
+    try {
+      if (!(await exists(source.path))) return { source, csv: null };
+      return { source, csv: parseCsv(await downloadText(source.path)) };
+    } catch (error) {
+      console.warn(`⚠️ Export could not read ${source.path}:`, error);
+      return { source, csv: null };
+    }
+  }
+
+  private extractRows(
+    plan: ExportPlan,
+    source: ExportSource,
+    csv: ReturnType<typeof parseCsv>,
+    tickerSet: Set<string>,
+    addColumn: (name: string) => void
+  ): ExportRow[] {
+    const dateIdx = csv.header.findIndex(h => h.toLowerCase() === 'date');
+    const symbolIdx = plan.request.dataset === 'accumulation' ? csv.header.indexOf('Symbol') : -1;
+    csv.header.forEach((name, idx) => {
+      if (idx !== dateIdx) addColumn(name);
+    });
+
+    const rows: ExportRow[] = [];
+    for (const values of csv.rows) {
+      let date = source.date;
+      if (!date) {
+        // Dataset time series: tanggal diambil dari kolom Date dan difilter ke rentang export
+        const rowDate = compactDate(values[dateIdx] || '');
+        if (!/^\d{8}$/.test(rowDate) || rowDate < plan.fromDate || rowDate > plan.toDate) continue;
+        date = isoDate(rowDate);
+      }
+      if (symbolIdx >= 0 && tickerSet.size > 0 && !tickerSet.has((values[symbolIdx] || '').toUpperCase())) {
+        continue;
+      }
+
+      const rowValues = new Map<string, string>(Object.entries(source.context));
+      csv.header.forEach((name, idx) => {
+        if (idx !== dateIdx) rowValues.set(name, values[idx] ?? '');
+      });
+      const code = source.context['Ticker'] || source.context['Broker'] || (symbolIdx >= 0 ? values[symbolIdx] || '' : '');
+      rows.push({ date, code, values: rowValues });
+    }
+    return rows;
+  }
+
+  private async loadRows(plan: ExportPlan) {
+    const columns = this.contextColumns(plan.sources);
+    const seen = new Set(columns);
+    const addColumn = (name: string) => {
+      if (!seen.has(name)) {
+        seen.add(name);
+        columns.push(name);
+      }
+    };
+
+    const tickerSet = new Set(plan.tickers);
+    const rows: ExportRow[] = [];
+    let fileCount = 0;
+
+    const loaded = await mapWithConcurrency(plan.sources, LOAD_CONCURRENCY, source => this.readSource(source));
+    for (const { source, csv } of loaded) {
+      if (!csv) continue;
+      fileCount++;
+      rows.push(...this.extractRows(plan, source, csv, tickerSet, addColumn));
+      if (rows.length > MAX_EXPORT_ROWS) {
+        throw new ExportValidationError(`Export exceeds ${MAX_EXPORT_ROWS.toLocaleString()} rows. Narrow the date range, filters or use CSV.`);
+      }
+    }
+
+    rows.sort(compareRows);
+    return { columns, rows, fileCount };
+  }
+
+  private rowArray(columns: string[], row: ExportRow): string[] {
+    return columns.map(column => (column === 'Date' ? row.date : row.values.get(column) ?? ''));
+  }
+
+  private toXlsx(columns: string[], rows: ExportRow[], groupBy: 'date' | 'code'): Buffer {
+    const workbook = XLSX.utils.book_new();
+    const groups = new Map<string, ExportRow[]>();
+    rows.forEach(row => {
+      const key = (groupBy === 'code' ? row.code : row.date) || 'Data';
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(row);
+    });
+    if (groups.size === 0) {
+      groups.set('Data', []);
+    }
+
+    const usedNames = new Set<string>();
+    for (const [key, groupRows] of groups) {
+      const aoa: Array<Array<string | number>> = [columns];
+      groupRows.forEach(row => aoa.push(
+        this.rowArray(columns, row).map(value => (NUMERIC_RE.test(value) ? Number(value) : value))
+      ));
+
+      // Nama sheet Excel: max 31 karakter, tanpa []:*?/\ dan harus unik
+      const base = key.replace(/[[\]:*?/\\]/g, '_').slice(0, 31) || 'Data';
+      let name = base;
+      for (let n = 2; usedNames.has(name); n++) {
+        name = `${base.slice(0, 31 - String(n).length - 1)}_${n}`;
+      }
+      usedNames.add(name);
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(aoa), name);
+    }
+
+    return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+  }
+
+  private toParquet(columns: string[], rows: ExportRow[]): Buffer {
+    const matrix = rows.map(row => this.rowArray(columns, row));
+    // Kolom numeric jika semua nilai non-kosong berupa angka; Date & kolom konteks tetap string
+    const schema: ParquetColumn[] = columns.map((name, idx) => {
+      const numeric = name !== 'Date'
+        && matrix.some(values => (values[idx] || '') !== '')
+        && matrix.every(values => !values[idx] || NUMERIC_RE.test(values[idx]!));
+      return { name, type: numeric ? 'double' : 'string' };
+    });
+    return writeParquet(schema, matrix, PARQUET_ROW_GROUP_SIZE);
+  }
+}
+
+export const exportService: ExportService = new ExportService();
@@ -14,6 +14,7 @@ import {
   MAX_CONCURRENT_REQUESTS_INDEX
 } from './dataUpdateService';
 import { SchedulerLogService } from './schedulerLogService';
+import { tradingCalendar } from './tradingCalendarService';
 
 // Process single index with optimized error handling
 async function processIndex(
@@ -67,14 +68,9 @@ async function processIndex(
       existingData = await parseCsvString(existingCsvData);
     }
     
-    // Generate all dates in the past 7 days range
-    const requiredDates: string[] = [];
-    for (let d = new Date(sevenDaysAgoDate); d <= new Date(todayDate); d.setDate(d.getDate() + 1)) {
-      const dateStr = d.toISOString().split('T')[0];
-      if (dateStr) {
-        requiredDates.push(dateStr);
-      }
-    }
+    // Hari bursa dalam 7 hari terakhir (weekend/libur bursa tidak pernah punya data)
+    const requiredDates = (await tradingCalendar.tradingDaysBetween(sevenDaysAgoDate, todayDate))
+      .map(date => `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}`);
     
     // Check which dates are missing
     const existingDates = new Set(
@@ -181,12 +177,9 @@ async function processIndex(
 
 // Main update function
 export async function updateIndexData(logId?: string | null, triggeredBy?: string): Promise<void> {
-  // Skip if weekend
-  const today = new Date();
-  const dayOfWeek = today.getDay();
-  
-  if (dayOfWeek === 0 || dayOfWeek === 6) {
-    console.log('📅 Weekend detected - skipping Index Data update (no market data available)');
+  // Skip if weekend / IDX holiday
+  if (!(await tradingCalendar.isTradingDay())) {
+    console.log('📅 Non-trading day (weekend/IDX holiday) - skipping Index Data update (no market data available)');
     return;
   }
   
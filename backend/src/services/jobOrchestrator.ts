@@ -0,0 +1,379 @@
+// jobOrchestrator.ts
+// Setiap kalkulator terdaftar sebagai job node (input/output dataset, retry, timeout)
+// dan dijalankan oleh DAG executor: node jalan setelah semua node upstream-nya di run
+// yang sama sukses, node yang upstream-nya gagal ditandai skipped.
+//
+// Status terakhir setiap node per tanggal disimpan di job_runs/{YYYYMMDD}.json sehingga
+// developer dashboard bisa menjalankan ulang satu node yang gagal beserta semua downstream-nya.
+
+import { randomUUID } from 'crypto';
+import { downloadText, uploadText } from '../utils/azureBlob';
+
+const JOB_RUNS_PREFIX = 'job_runs';
+
+export interface JobContext {
+  triggeredBy: string;
+  manual: boolean;
+}
+
+export interface JobResult {
+  success: boolean;
+  message?: string;
+}
+
+export interface RetryPolicy {
+  /** Total percobaan termasuk yang pertama */
+  attempts: number;
+  backoffMs: number;
+  /** Pengali backoff untuk percobaan berikutnya (default 2) */
+  backoffFactor?: number;
+}
+
+export interface JobNode {
+  id: string;
+  name: string;
+  phaseId: string;
+  /** Dataset yang dibaca; dataset tanpa node produsen (stock, index, done_summary) dianggap input eksternal */
+  inputs: string[];
+  outputs: string[];
+  retry: RetryPolicy;
+  timeoutMs: number;
+  run: (context: JobContext) => Promise<JobResult>;
+}
+
+export type JobNodeStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'skipped';
+
+export interface JobNodeState {
+  nodeId: string;
+  status: JobNodeStatus;
+  attempts: number;
+  runId: string;
+  triggeredBy: string;
+  startedAt?: string;
+  finishedAt?: string;
+  durationMs?: number;
+  error?: string;
+}
+
+export interface JobRun {
+  runId: string;
+  date: string;
+  startedAt: string;
+  finishedAt?: string;
+  /** Urutan eksekusi (topologis) */
+  order: string[];
+  nodes: Record<string, JobNodeState>;
+}
+
+export interface JobDateState {
+  date: string;
+  updatedAt: string;
+  nodes: Record<string, JobNodeState>;
+}
+
+export interface ExecuteOptions {
+  /** Tanggal (YYYYMMDD) tempat status node dicatat */
+  date: string;
+  /** Jumlah node yang boleh jalan bersamaan (default 1) */
+  concurrency?: number;
+  /** Jeda antar node pada mode sequential, untuk kalkulasi yang sangat berat */
+  pauseBetweenMs?: number;
+  /** Hentikan node yang belum mulai begitu ada node gagal */
+  stopOnFailure?: boolean;
+  /** Dipanggil sebelum node mulai; false = node di-skip (mis. memory tinggi) */
+  beforeNode?: (node: JobNode) => Promise<boolean>;
+  onNodeFinished?: (state: JobNodeState, finished: number, total: number) => Promise<void> | void;
+}
+
+export class JobTimeoutError extends Error {
+  constructor(nodeId: string, timeoutMs: number) {
+    super(`${nodeId} timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = 'JobTimeoutError';
+  }
+}
+
+export class JobGraph {
+  private nodes: Map<string, JobNode> = new Map();
+
+  register(node: JobNode): void {
+    if (this.nodes.has(node.id)) {
+      throw new Error(`Job node already registered: ${node.id}`);
+    }
+    const producer = node.outputs
+      .map(output => this.getProducer(output))
+      .find(existing => existing !== null);
+    if (producer) {
+      throw new Error(`${node.id} declares an output already produced by ${producer.id}`);
+    }
+    this.nodes.set(node.id, node);
+    try {
+      this.assertAcyclic();
+    } catch (error) {
+      this.nodes.delete(node.id);
+      throw error;
+    }
+  }
+
+  getNode(id: string): JobNode | undefined {
+    return this.nodes.get(id);
+  }
+
+  listNodes(): JobNode[] {
+    return Array.from(this.nodes.values());
+  }
+
+  getPhaseNodes(phaseId: string): string[] {
+    return this.listNodes().filter(node => node.phaseId === phaseId).map(node => node.id);
+  }
+
+  /**
+   * Node yang output-nya dibaca langsung oleh node ini
+   */
+  getUpstream(id: string): string[] {
+    const node = this.nodes.get(id);
+    if (!node) return [];
+    return node.inputs
+      .map(input => this.getProducer(input))
+      .filter((producer): producer is JobNode => producer !== null && producer.id !== id)
+      .map(producer => producer.id);
+  }
+
+  /**
+   * Semua node yang (langsung atau tidak langsung) membaca output node ini
+   */
+  getDownstream(id: string): string[] {
+    const result: string[] = [];
+    const queue = [id];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const node of this.nodes.values()) {
+        if (node.id !== id && !result.includes(node.id) && this.getUpstream(node.id).includes(current)) {
+          result.push(node.id);
+          queue.push(node.id);
+        }
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Urutkan subset node secara topologis; di antara node yang siap, urutan registrasi dipertahankan
+   */
+  topologicalOrder(ids: string[]): string[] {
+    const selected = this.listNodes().map(node => node.id).filter(nodeId => ids.includes(nodeId));
+    const ordered: string[] = [];
+    const remaining = [...selected];
+    while (remaining.length > 0) {
+      const index = remaining.findIndex(nodeId =>
+        this.getUpstream(nodeId).every(upstream => !remaining.includes(upstream))
+      );
+      if (index < 0) {
+        throw new Error(`Job graph has a cycle between: ${remaining.join(', ')}`);
+      }
+      ordered.push(remaining.splice(index, 1)[0]!);
+    }
+    return ordered;
+  }
+
+  private getProducer(dataset: string): JobNode | null {
+    for (const node of this.nodes.values()) {
+      if (node.outputs.includes(dataset)) return node;
+    }
+    return null;
+  }
+
+  private assertAcyclic(): void {
+    this.topologicalOrder(this.listNodes().map(node => node.id));
+  }
+}
+
+export class DagExecutor {
+  private dateStates: Map<string, JobDateState> = new Map();
+  // Write per tanggal diserialisasi agar node paralel tidak saling menimpa
+  private writeQueues: Map<string, Promise<void>> = new Map();
+  private activeRuns: Set<string> = new Set();
+
+  constructor(private readonly graph: JobGraph) {}
+
+  isRunning(): boolean {
+    return this.activeRuns.size > 0;
+  }
+
+  /**
+   * Jalankan node-node ini. Dependency ke node di luar subset dianggap sudah terpenuhi
+   * (mis. phase sebelumnya); dependency di dalam subset harus sukses dulu.
+   */
+  async execute(ids: string[], context: JobContext, options: ExecuteOptions): Promise<JobRun> {
+    const order = this.graph.topologicalOrder(ids);
+    const run: JobRun = {
+      runId: randomUUID(),
+      date: options.date,
+      startedAt: new Date().toISOString(),
+      order,
+      nodes: {}
+    };
+    for (const nodeId of order) {
+      run.nodes[nodeId] = { nodeId, status: 'pending', attempts: 0, runId: run.runId, triggeredBy: context.triggeredBy };
+    }
+
+    this.activeRuns.add(run.runId);
+    try {
+      const concurrency = Math.max(1, options.concurrency ?? 1);
+      const running = new Map<string, Promise<void>>();
+      let finished = 0;
+      let stopped = false;
+
+      const finish = async (state: JobNodeState) => {
+        finished++;
+        await this.recordState(options.date, state);
+        try {
+          await options.onNodeFinished?.(state, finished, order.length);
+        } catch (error) {
+          console.warn(`⚠️ onNodeFinished failed for ${state.nodeId}:`, error instanceof Error ? error.message : error);
+        }
+      };
+
+      while (order.some(nodeId => run.nodes[nodeId]!.status === 'pending')) {
+        for (const nodeId of order) {
+          const state = run.nodes[nodeId]!;
+          if (state.status !== 'pending') continue;
+
+          const upstream = this.graph.getUpstream(nodeId).filter(id => run.nodes[id]);
+          const blocked = upstream.find(id => ['failed', 'skipped'].includes(run.nodes[id]!.status));
+          if (stopped || blocked) {
+            state.status = 'skipped';
+            state.error = stopped ? 'Run stopped after an earlier failure' : `Upstream ${blocked} did not succeed`;
+            state.finishedAt = new Date().toISOString();
+            console.log(`⏭️ Job ${nodeId} skipped: ${state.error}`);
+            await finish(state);
+            continue;
+          }
+          if (running.size >= concurrency) break;
+          if (!upstream.every(id => run.nodes[id]!.status === 'succeeded')) continue;
+
+          const node = this.graph.getNode(nodeId)!;
+          state.status = 'running';
+          const task = (async () => {
+            if (options.beforeNode && !(await options.beforeNode(node))) {
+              state.status = 'skipped';
+              state.error = 'Skipped by pre-run check';
+              state.finishedAt = new Date().toISOString();
+            } else {
+              await this.runNode(node, state, context, options.date);
+            }
+            if (state.status === 'failed' && options.stopOnFailure) stopped = true;
+            await finish(state);
+            if (options.pauseBetweenMs && concurrency === 1 && order.some(id => run.nodes[id]!.status === 'pending')) {
+              console.log(`⏳ Waiting ${Math.round(options.pauseBetweenMs / 1000)}s before next job...`);
+              await new Promise(resolve => setTimeout(resolve, options.pauseBetweenMs));
+            }
+          })().finally(() => running.delete(nodeId));
+          running.set(nodeId, task);
+        }
+
+        if (running.size > 0) {
+          await Promise.race(running.values());
+        }
+      }
+      await Promise.all(running.values());
+    } finally {
+      this.activeRuns.delete(run.runId);
+      run.finishedAt = new Date().toISOString();
+    }
+    return run;
+  }
+
+  async getDateState(date: string): Promise<JobDateState> {
+    const cached = this.dateStates.get(date);
+    if (cached) return cached;
+
+    let state: JobDateState = { date, updatedAt: new Date().toISOString(), nodes: {} };
+    try {
+      const parsed = JSON.parse(await downloadText(this.getStatePath(date))) as JobDateState;
+      if (parsed && typeof parsed.nodes === 'object') {
+        state = parsed;
+      }
+    } catch (error) {
+      if (!(error instanceof Error && error.message.includes('Blob not found'))) {
+        throw error;
+      }
+    }
+    this.dateStates.set(date, state);
+    return state;
+  }
+
+  private async runNode(node: JobNode, state: JobNodeState, context: JobContext, date: string): Promise<void> {
+    const startTime = Date.now();
+    state.startedAt = new Date(startTime).toISOString();
+    await this.recordState(date, state);
+
+    const backoffFactor = node.retry.backoffFactor ?? 2;
+    for (let attempt = 1; attempt <= Math.max(1, node.retry.attempts); attempt++) {
+      state.attempts = attempt;
+      console.log(`🔄 Job ${node.id} attempt ${attempt}/${node.retry.attempts}...`);
+      let timedOut = false;
+      try {
+        const result = await this.withTimeout(node, node.run(context));
+        if (result.success) {
+          state.status = 'succeeded';
+          delete state.error;
+          break;
+        }
+        state.error = result.message || 'Job reported failure';
+      } catch (error) {
+        state.error = error instanceof Error ? error.message : String(error);
+        timedOut = error instanceof JobTimeoutError;
+      }
+
+      console.error(`❌ Job ${node.id} attempt ${attempt} failed: ${state.error}`);
+      // Kalkulasi tidak bisa dibatalkan: percobaan yang timeout masih jalan di background,
+      // jadi jangan retry agar dua instance tidak menulis output yang sama
+      if (timedOut) break;
+      if (attempt < node.retry.attempts) {
+        const delay = node.retry.backoffMs * Math.pow(backoffFactor, attempt - 1);
+        console.log(`⏳ Retrying ${node.id} in ${Math.round(delay / 1000)}s...`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+
+    if (state.status !== 'succeeded') {
+      state.status = 'failed';
+    }
+    state.finishedAt = new Date().toISOString();
+    state.durationMs = Date.now() - startTime;
+    console.log(`${state.status === 'succeeded' ? '✅' : '❌'} Job ${node.id} ${state.status} in ${Math.round(state.durationMs / 1000)}s`);
+  }
+
+  private withTimeout(node: JobNode, promise: Promise<JobResult>): Promise<JobResult> {
+    let timer: NodeJS.Timeout | null = null;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new JobTimeoutError(node.id, node.timeoutMs)), node.timeoutMs);
+    });
+    return Promise.race([promise, timeout]).finally(() => {
+      if (timer) clearTimeout(timer);
+    });
+  }
+
+  private async recordState(date: string, state: JobNodeState): Promise<void> {
+    const previous = this.writeQueues.get(date) || Promise.resolve();
+    const next = previous.then(async () => {
+      const dateState = await this.getDateState(date);
+      dateState.nodes[state.nodeId] = { ...state };
+      dateState.updatedAt = new Date().toISOString();
+      await uploadText(this.getStatePath(date), JSON.stringify(dateState, null, 2), 'application/json');
+    });
+    const tracked = next.catch(error => {
+      console.warn(`⚠️ Could not record job state for ${state.nodeId} ${date}:`, error instanceof Error ? error.message : error);
+    }).finally(() => {
+      if (this.writeQueues.get(date) === tracked) {
+        this.writeQueues.delete(date);
+      }
+    });
+    this.writeQueues.set(date, tracked);
+    await tracked;
+  }
+
+  private getStatePath(date: string): string {
+    return `${JOB_RUNS_PREFIX}/${date}.json`;
+  }
+}
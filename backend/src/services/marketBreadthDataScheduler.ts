@@ -0,0 +1,97 @@
+import MarketBreadthCalculator from '../calculations/market/market_breadth';
+import { SchedulerLogService } from './schedulerLogService';
+
+export class MarketBreadthDataScheduler {
+  private calculator: MarketBreadthCalculator;
+
+  constructor() {
+    this.calculator = new MarketBreadthCalculator();
+  }
+
+  /**
+   * Recalculate the market breadth time series for the most recent trading dates
+   */
+  async generateMarketBreadth(_dateSuffix?: string, logId?: string | null, triggeredBy?: string): Promise<{ success: boolean; message: string; data?: any }> {
+    // Only create log entry if logId is not provided (called from scheduler, not manual trigger)
+    let finalLogId = logId;
+    if (!finalLogId) {
+      const logEntry = await SchedulerLogService.createLog({
+        feature_name: 'market_breadth',
+        trigger_type: triggeredBy && !triggeredBy.startsWith('Phase') && !triggeredBy.startsWith('phase') ? 'manual' : 'scheduled',
+        triggered_by: triggeredBy || 'Phase 3 Flow Trade',
+        status: 'running',
+        environment: process.env['NODE_ENV'] || 'development'
+      });
+
+      if (!logEntry) {
+        console.error('❌ Failed to create scheduler log entry');
+        return {
+          success: false,
+          message: 'Failed to create scheduler log entry'
+        };
+      }
+
+      finalLogId = logEntry.id!;
+    }
+
+    try {
+      console.log('🔄 Starting Market Breadth calculation...');
+      
+      if (finalLogId) {
+        await SchedulerLogService.updateLog(finalLogId, {
+          progress_percentage: 0,
+          current_processing: 'Starting Market Breadth calculation...'
+        });
+      }
+      
+      const result = await this.calculator.generateMarketBreadth(finalLogId);
+      
+      // Check if this is called from a Phase (don't mark completed/failed if so, Phase will handle it)
+      const isFromPhase = triggeredBy && (triggeredBy.startsWith('Phase') || triggeredBy.startsWith('phase'));
+      
+      if (result.success) {
+        console.log('✅ Market Breadth calculation completed successfully');
+        if (finalLogId && !isFromPhase) {
+          await SchedulerLogService.markCompleted(finalLogId, {
+            total_files_processed: result.data?.dates || 0,
+            files_created: 1,
+            files_failed: 0
+          });
+        }
+      } else {
+        console.error('❌ Market Breadth calculation failed:', result.message);
+        if (finalLogId && !isFromPhase) {
+          await SchedulerLogService.markFailed(finalLogId, result.message);
+        }
+      }
+      
+      return result;
+    } catch (error) {
+      console.error('❌ Error during Market Breadth calculation:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      // Check if this is called from a Phase (don't mark failed if so, Phase will handle it)
+      const isFromPhase = triggeredBy && (triggeredBy.startsWith('Phase') || triggeredBy.startsWith('phase'));
+      if (finalLogId && !isFromPhase) {
+        await SchedulerLogService.markFailed(finalLogId, errorMessage, error);
+      }
+      return {
+        success: false,
+        message: `Failed to generate market breadth data: ${errorMessage}`
+      };
+    }
+  }
+
+
+  /**
+   * Get generation status
+   */
+  async getStatus(): Promise<{ status: string; lastUpdate?: string; message: string }> {
+    return {
+      status: 'ready',
+      message: 'Market Breadth service is ready to generate data'
+    };
+  }
+}
+
+export default MarketBreadthDataScheduler;
+
@@ -0,0 +1,373 @@
+// recomputeManifest.ts
+// Manifest yang mencatat setiap output turunan dibangun dari input apa (per tanggal)
+//
+// Setiap entry menyimpan fingerprint input (etag DT file untuk done_summary,
+// buildId untuk dataset turunan) dan versi kode kalkulasi. Jika DT file
+// di-publish ulang oleh bursa, etag berubah sehingga semua output yang dibangun
+// dari tanggal itu terdeteksi stale; setelah dibangun ulang, buildId barunya
+// membuat dataset downstream ikut stale pada run berikutnya.
+
+import { randomUUID } from 'crypto';
+import { downloadText, uploadText, stat } from '../utils/azureBlob';
+import { getDtBlobName } from '../utils/dtReader';
+
+export const SOURCE_DATASET = 'done_summary';
+/** Input dari Phase 1 (file time series per ticker / index), tidak punya entry manifest per tanggal */
+export const EXTERNAL_DATASETS = ['stock', 'index'];
+
+export interface DatasetDefinition {
+  /** Dataset yang dibaca kalkulasi ini */
+  inputs: string[];
+  /** Naikkan saat logika kalkulasi berubah agar output lama dihitung ulang */
+  version: string;
+}
+
+const BROKER_TRANSACTION_DATASETS = [
+  'broker_transaction',
+  'broker_transaction_rg_tn_ng',
+  'broker_transaction_f_d',
+  'broker_transaction_f_d_rg_tn_ng'
+];
+
+const BROKER_TRANSACTION_STOCK_DATASETS = [
+  'broker_transaction_stock',
+  'broker_transaction_stock_rg_tn_ng',
+  'broker_transaction_stock_f_d',
+  'broker_transaction_stock_f_d_rg_tn_ng'
+];
+
+/**
+ * Dependency graph dataset turunan. Key = dataset id yang dipakai kalkulasi saat
+ * memanggil needsRebuild / recordBuild.
+ */
+export const DATASET_GRAPH: Record<string, DatasetDefinition> = {
+  // Phase 2 - Market Rotation
+  rrc: { inputs: ['stock', 'index'], version: '1' },
+  rrg: { inputs: ['stock', 'index'], version: '1' },
+  seasonality: { inputs: ['stock', 'index'], version: '1' },
+  trend_output: { inputs: ['stock'], version: '1' },
+  watchlist: { inputs: ['stock'], version: '1' },
+  // Phase 3 - Flow Trade
+  money_flow: { inputs: ['stock', 'index'], version: '1' },
+  foreign_flow: { inputs: [SOURCE_DATASET], version: '2' },
+  break_done_trade: { inputs: [SOURCE_DATASET], version: '1' },
+  haka_haki: { inputs: [SOURCE_DATASET], version: '1' },
+  stock_intraday: { inputs: [SOURCE_DATASET], version: '1' },
+  market_breadth: { inputs: ['stock', 'foreign_flow', 'broker_summary', 'accumulation_distribution'], version: '1' },
+  // Phase 4 - Broker Summary
+  top_broker: { inputs: [SOURCE_DATASET], version: '1' },
+  broker_summary: { inputs: [SOURCE_DATASET], version: '1' },
+  broker_summary_type: { inputs: [SOURCE_DATASET], version: '1' },
+  broker_summary_idx: { inputs: ['broker_summary', 'broker_summary_type'], version: '1' },
+  broker_summary_sector: { inputs: ['broker_summary', 'broker_summary_type'], version: '1' },
+  // Phase 5 - Broktrans Broker
+  broker_transaction: { inputs: [SOURCE_DATASET], version: '1' },
+  broker_transaction_rg_tn_ng: { inputs: [SOURCE_DATASET], version: '1' },
+  broker_transaction_f_d: { inputs: [SOURCE_DATASET], version: '1' },
+  broker_transaction_f_d_rg_tn_ng: { inputs: [SOURCE_DATASET], version: '1' },
+  broker_transaction_all: { inputs: BROKER_TRANSACTION_DATASETS, version: '1' },
+  broker_transaction_sector: { inputs: BROKER_TRANSACTION_DATASETS, version: '1' },
+  // Phase 6 - Broktrans Stock
+  broker_transaction_stock: { inputs: [SOURCE_DATASET], version: '1' },
+  broker_transaction_stock_rg_tn_ng: { inputs: [SOURCE_DATASET], version: '1' },
+  broker_transaction_stock_f_d: { inputs: [SOURCE_DATASET], version: '1' },
+  broker_transaction_stock_f_d_rg_tn_ng: { inputs: [SOURCE_DATASET], version: '1' },
+  broker_transaction_stock_idx: { inputs: BROKER_TRANSACTION_STOCK_DATASETS, version: '1' },
+  broker_transaction_stock_sector: { inputs: BROKER_TRANSACTION_STOCK_DATASETS, version: '1' },
+  // Phase 7 - Bid Breakdown
+  bid_ask: { inputs: [SOURCE_DATASET], version: '1' },
+  broker_breakdown: { inputs: [SOURCE_DATASET], version: '1' },
+  // Phase 8 - Additional
+  broker_inventory: { inputs: ['broker_transaction', 'stock'], version: '1' },
+  accumulation_distribution: { inputs: ['bid_ask', 'stock'], version: '1' },
+  broker_clustering: { inputs: ['broker_transaction'], version: '1' }
+};
+
+export interface ManifestEntry {
+  date: string;
+  variant?: string;
+  buildId: string;
+  version: string;
+  /** Fingerprint setiap input saat output dibangun */
+  inputs: Record<string, string>;
+  builtAt: string;
+  /** Output sudah ada sebelum manifest dipakai - dicatat tanpa rebuild */
+  adopted?: boolean;
+  invalidatedAt?: string;
+  invalidatedReason?: string;
+  /** Khusus done_summary: fingerprint file di sumber (GCS) saat terakhir di-sync */
+  origin?: string;
+}
+
+interface DatasetManifest {
+  dataset: string;
+  updatedAt: string;
+  entries: Record<string, ManifestEntry>;
+}
+
+export interface DatasetStatus {
+  dataset: string;
+  entries: ManifestEntry[];
+  staleReason: string | null;
+}
+
+const MISSING = 'missing';
+const EXTERNAL = 'external';
+const MANIFEST_PREFIX = 'recompute_manifest';
+
+export class RecomputeManifestService {
+  private manifests: Map<string, { manifest: DatasetManifest; loadedAt: number }> = new Map();
+  // Write per dataset diserialisasi agar update paralel dari batch yang sama tidak saling menimpa
+  private writeQueues: Map<string, Promise<void>> = new Map();
+
+  // Reload manifest dari storage setelah 5 menit (mis. diubah instance lain)
+  private readonly CACHE_TTL = 5 * 60 * 1000;
+
+  constructor(private readonly graph: Record<string, DatasetDefinition> = DATASET_GRAPH) {}
+
+  /**
+   * Dataset yang (langsung atau tidak langsung) dibangun dari dataset ini
+   */
+  public getDependents(dataset: string): string[] {
+    const result: string[] = [];
+    const queue = [dataset];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const [name, definition] of Object.entries(this.graph)) {
+        if (definition.inputs.includes(current) && !result.includes(name)) {
+          result.push(name);
+          queue.push(name);
+        }
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Cek apakah output yang SUDAH ADA perlu dibangun ulang.
+   * Output tanpa entry manifest dianggap valid dan dicatat (adopted), sehingga
+   * mengaktifkan manifest tidak memicu rebuild massal.
+   */
+  public async needsRebuild(dataset: string, date: string, variant?: string): Promise<boolean> {
+    try {
+      const reason = await this.getStaleReason(dataset, date, variant);
+      if (reason) {
+        console.log(`♻️ ${dataset} ${this.partitionKey(date, variant)} is stale (${reason}) - will recompute`);
+        return true;
+      }
+      return false;
+    } catch (error) {
+      // Manifest tidak terbaca: jangan blokir kalkulasi, anggap output masih valid seperti perilaku lama
+      console.warn(`⚠️ Could not check recompute manifest for ${dataset} ${date}:`, error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  /**
+   * Alasan output stale, atau null jika masih sesuai input dan versi kode
+   */
+  public async getStaleReason(dataset: string, date: string, variant?: string): Promise<string | null> {
+    const definition = this.getDefinition(dataset);
+    const key = this.partitionKey(date, variant);
+    const current = await this.resolveInputs(definition, date);
+    const entry = (await this.loadManifest(dataset)).entries[key];
+
+    if (!entry) {
+      await this.writeEntry(dataset, key, {
+        date,
+        ...(variant ? { variant } : {}),
+        buildId: randomUUID(),
+        version: definition.version,
+        inputs: current,
+        builtAt: new Date().toISOString(),
+        adopted: true
+      });
+      return null;
+    }
+
+    if (entry.invalidatedAt) {
+      return `invalidated: ${entry.invalidatedReason || 'manual'}`;
+    }
+    if (entry.version !== definition.version) {
+      return `code version ${entry.version} -> ${definition.version}`;
+    }
+
+    const changed = definition.inputs.filter(input => entry.inputs[input] !== current[input]);
+    if (changed.length === 0) return null;
+
+    // Entry adopted yang dicatat sebelum input-nya masuk manifest: lengkapi saja, bukan perubahan data
+    if (entry.adopted && changed.every(input => entry.inputs[input] === MISSING)) {
+      await this.writeEntry(dataset, key, { ...entry, inputs: current });
+      return null;
+    }
+
+    return `input changed: ${changed.join(', ')}`;
+  }
+
+  /**
+   * Catat bahwa output dataset untuk tanggal ini baru saja dibangun dari input saat ini
+   */
+  public async recordBuild(dataset: string, date: string, variant?: string): Promise<void> {
+    try {
+      const definition = this.getDefinition(dataset);
+      const inputs = await this.resolveInputs(definition, date);
+      await this.writeEntry(dataset, this.partitionKey(date, variant), {
+        date,
+        ...(variant ? { variant } : {}),
+        buildId: randomUUID(),
+        version: definition.version,
+        inputs,
+        builtAt: new Date().toISOString()
+      });
+    } catch (error) {
+      console.warn(`⚠️ Could not record ${dataset} ${date} in recompute manifest:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Tandai output dataset (dan semua dependent-nya) untuk tanggal ini sebagai stale
+   * @returns dataset yang ter-invalidate
+   */
+  public async invalidate(dataset: string, date: string, reason: string): Promise<string[]> {
+    const targets = dataset === SOURCE_DATASET || EXTERNAL_DATASETS.includes(dataset)
+      ? this.getDependents(dataset)
+      : [dataset, ...this.getDependents(dataset)];
+    const invalidatedAt = new Date().toISOString();
+    const invalidated: string[] = [];
+
+    for (const target of targets) {
+      const manifest = await this.loadManifest(target);
+      const keys = Object.keys(manifest.entries).filter(key => manifest.entries[key]?.date === date);
+      for (const key of keys) {
+        const entry = manifest.entries[key]!;
+        await this.writeEntry(target, key, { ...entry, invalidatedAt, invalidatedReason: reason });
+      }
+      if (keys.length > 0) invalidated.push(target);
+    }
+
+    console.log(`♻️ Invalidated ${invalidated.length} dataset(s) for ${date} (${reason})${invalidated.length > 0 ? `: ${invalidated.join(', ')}` : ''}`);
+    return invalidated;
+  }
+
+  /**
+   * Bandingkan fingerprint sumber (GCS) dengan yang tercatat saat sync terakhir.
+   * Tanggal yang belum pernah tercatat langsung dicatat dan tidak dianggap re-publish.
+   */
+  public async isSourceRepublished(date: string, origin: string): Promise<boolean> {
+    const entry = (await this.loadManifest(SOURCE_DATASET)).entries[date];
+    if (!entry?.origin) {
+      await this.recordSourceSync(date, origin);
+      return false;
+    }
+    return entry.origin !== origin;
+  }
+
+  /**
+   * Catat DT file yang baru di-sync dari sumber
+   */
+  public async recordSourceSync(date: string, origin: string): Promise<void> {
+    const info = await stat(getDtBlobName(date));
+    await this.writeEntry(SOURCE_DATASET, date, {
+      date,
+      buildId: info?.etag || MISSING,
+      version: '1',
+      inputs: {},
+      builtAt: new Date().toISOString(),
+      origin
+    });
+  }
+
+  /**
+   * Status semua dataset untuk satu tanggal (untuk endpoint developer)
+   */
+  public async getDateStatus(date: string): Promise<DatasetStatus[]> {
+    const result: DatasetStatus[] = [];
+    for (const dataset of Object.keys(this.graph)) {
+      const manifest = await this.loadManifest(dataset);
+      const entries = Object.values(manifest.entries).filter(entry => entry.date === date);
+      const dateEntry = manifest.entries[date];
+      const staleReason = dateEntry ? await this.getStaleReason(dataset, date) : null;
+      result.push({ dataset, entries, staleReason });
+    }
+    return result;
+  }
+
+  private getDefinition(dataset: string): DatasetDefinition {
+    const definition = this.graph[dataset];
+    if (!definition) {
+      throw new Error(`Unknown dataset in recompute manifest: ${dataset}`);
+    }
+    return definition;
+  }
+
+  private partitionKey(date: string, variant?: string): string {
+    return variant ? `${date}:${variant}` : date;
+  }
+
+  /**
+   * Fingerprint input saat ini: etag DT file untuk sumber, buildId untuk dataset turunan.
+   * Input eksternal (stock, index) tidak dilacak per tanggal; perubahannya di-propagate lewat invalidate.
+   */
+  private async resolveInputs(definition: DatasetDefinition, date: string): Promise<Record<string, string>> {
+    const inputs: Record<string, string> = {};
+    for (const input of definition.inputs) {
+      if (input === SOURCE_DATASET) {
+        const info = await stat(getDtBlobName(date));
+        inputs[input] = info ? `etag:${info.etag}` : MISSING;
+      } else if (EXTERNAL_DATASETS.includes(input)) {
+        inputs[input] = EXTERNAL;
+      } else {
+        const upstream = (await this.loadManifest(input)).entries[date];
+        inputs[input] = upstream && !upstream.invalidatedAt ? upstream.buildId : MISSING;
+      }
+    }
+    return inputs;
+  }
+
+  private getManifestPath(dataset: string): string {
+    return `${MANIFEST_PREFIX}/${dataset}.json`;
+  }
+
+  private async loadManifest(dataset: string): Promise<DatasetManifest> {
+    const cached = this.manifests.get(dataset);
+    if (cached && (Date.now() - cached.loadedAt < this.CACHE_TTL || this.writeQueues.has(dataset))) {
+      return cached.manifest;
+    }
+
+    let manifest: DatasetManifest = { dataset, updatedAt: new Date().toISOString(), entries: {} };
+    try {
+      const content = await downloadText(this.getManifestPath(dataset));
+      const parsed = JSON.parse(content) as DatasetManifest;
+      if (parsed && typeof parsed.entries === 'object') {
+        manifest = parsed;
+      }
+    } catch (error) {
+      if (!(error instanceof Error && error.message.includes('Blob not found'))) {
+        throw error;
+      }
+    }
+
+    this.manifests.set(dataset, { manifest, loadedAt: Date.now() });
+    return manifest;
+  }
+
+  private async writeEntry(dataset: string, key: string, entry: ManifestEntry): Promise<void> {
+    const previous = this.writeQueues.get(dataset) || Promise.resolve();
+    const next = previous.then(async () => {
+      const manifest = await this.loadManifest(dataset);
+      manifest.entries[key] = entry;
+      manifest.updatedAt = new Date().toISOString();
+      await uploadText(this.getManifestPath(dataset), JSON.stringify(manifest), 'application/json');
+    });
+    const tracked = next.catch(() => undefined).finally(() => {
+      if (this.writeQueues.get(dataset) === tracked) {
+        this.writeQueues.delete(dataset);
+      }
+    });
+    this.writeQueues.set(dataset, tracked);
+    await next;
+  }
+}
+
+// Singleton instance
+export const recomputeManifest: RecomputeManifestService = new RecomputeManifestService();
@@ -11,6 +11,7 @@ import BidAskDataScheduler from './bidAskDataScheduler';
 import BrokerSummaryDataScheduler from './brokerSummaryDataScheduler';
 import TopBrokerDataScheduler from './topBrokerDataScheduler';
 import BrokerInventoryDataScheduler from './brokerInventoryDataScheduler';
+import BrokerClusteringDataScheduler from './brokerClusteringDataScheduler';
 import BrokerSummaryTypeDataScheduler from './brokerSummaryTypeDataScheduler';
 import BrokerSummaryIDXDataScheduler from './brokerSummaryIDXDataScheduler';
 import BrokerSummarySectorDataScheduler from './brokerSummarySectorDataScheduler';
@@ -19,6 +20,8 @@ import ForeignFlowDataScheduler from './foreignFlowDataScheduler';
 import MoneyFlowDataScheduler from './moneyFlowDataScheduler';
 import BreakDoneTradeDataScheduler from './breakDoneTradeDataScheduler';
 import HakaHakiAnalysisDataScheduler from './hakaHakiAnalysisDataScheduler';
+import IntradayOhlcDataScheduler from './intradayOhlcDataScheduler';
+import MarketBreadthDataScheduler from './marketBreadthDataScheduler';
 import BrokerTransactionDataScheduler from './brokerTransactionDataScheduler';
 import BrokerTransactionRGTNNGDataScheduler from './brokerTransactionRGTNNGDataScheduler';
 import BrokerTransactionFDDataScheduler from './brokerTransactionFDDataScheduler';
@@ -35,11 +38,17 @@ import { updateIndexData } from './indexDataScheduler';
 import { updateShareholdersData } from './shareholdersDataScheduler';
 import { updateHoldingData } from './holdingDataScheduler';
 import { updateEmitenList } from '../calculations/input/emiten_list';
+import { runDataQualityValidation } from './dataQualityService';
 import { updateWatchlistSnapshot } from './watchlistSnapshotService';
 import { doneSummaryCache } from '../cache/doneSummaryCacheService';
 import { stockCache } from '../cache/stockCacheService';
 import { brokerTransactionCache } from '../cache/brokerTransactionCacheService';
 import { indexCache } from '../cache/indexCacheService';
+import { AlertService } from './alertService';
+import { tradingCalendar, todayInExchangeTimezone } from './tradingCalendarService';
+import { JobGraph, DagExecutor, JobNode, JobContext, JobResult, JobNodeState, ExecuteOptions } from './jobOrchestrator';
+import { recomputeManifest, DATASET_GRAPH, SOURCE_DATASET } from './recomputeManifest';
+import { BackfillRunner, BackfillTarget, BackfillJob, BackfillRequest, BackfillValidationError } from './backfillService';
 
 // ======================
 // SCHEDULER CONFIGURATION
@@ -53,15 +62,15 @@ let SCHEDULER_CONFIG = {
 
   // Phase 1a-1b: Input data (scheduled)
   // Phase 2-8 are auto-triggered sequentially after Phase 1a completes
-  // Phase 1a: Input Daily (Emiten List, Stock, Index, Done Summary)
+  // Phase 1a: Input Daily (Emiten List, Stock, Index, Done Summary), then Data Quality validation
   // Phase 1b: Input Monthly (Shareholders & Holding)
   // Phase 2: Market Rotation (RRC, RRG, Seasonal, Trend Filter, Watchlist Snapshot)
-  // Phase 3: Flow Trade (Money Flow, Foreign Flow, Break Done Trade)
+  // Phase 3: Flow Trade (Money Flow, Foreign Flow, Break Done Trade, HAKA HAKI, Intraday OHLC), then Market Breadth
   // Phase 4: Broker Summary (Top Broker, Broker Summary, Broker Summary IDX, Broker Summary by Type, Broker Summary Sector)
   // Phase 5: Broktrans Broker (Broker Transaction, Broker Transaction RG/TN/NG, Broker Transaction F/D, Broker Transaction F/D RG/TN/NG)
   // Phase 6: Broktrans Stock (Broker Transaction Stock, Broker Transaction Stock F/D, Broker Transaction Stock RG/TN/NG, Broker Transaction Stock F/D RG/TN/NG)
   // Phase 7: Bid Breakdown (Bid/Ask Footprint, Broker Breakdown)
-  // Phase 8: Additional (Broker Inventory, Accumulation Distribution)
+  // Phase 8: Additional (Broker Inventory, Accumulation Distribution, Broker Clustering)
 
   // Memory Management
   MEMORY_CLEANUP_INTERVAL: 5000,  // 5 seconds
@@ -71,7 +80,7 @@ let SCHEDULER_CONFIG = {
   // Timezone
   TIMEZONE: 'Asia/Jakarta',
 
-  // Weekend Skip
+  // Weekend Skip (weekend + libur bursa dari trading calendar)
   WEEKEND_SKIP: true
 };
 
@@ -208,19 +217,10 @@ function calculateResizeTime(schedulerTime: string): string {
   return `${String(resizeHours).padStart(2, '0')}:${String(resizeMinutes).padStart(2, '0')}`;
 }
 
-// Check if today is weekend (Saturday = 6, Sunday = 0) in scheduler timezone
-function isWeekend(): boolean {
-  const today = new Date();
-  const timezone = SCHEDULER_CONFIG.TIMEZONE || 'Asia/Jakarta';
-
-  // Get day of week in scheduler timezone
-  const dayOfWeekInTz = new Intl.DateTimeFormat('en-US', {
-    timeZone: timezone,
-    weekday: 'short'
-  }).formatToParts(today);
-
-  const weekday = dayOfWeekInTz.find(p => p.type === 'weekday')?.value || '';
-  return weekday === 'Sat' || weekday === 'Sun';
+// Check if today is not an IDX trading day (weekend, libur bursa, cuti bersama) in scheduler timezone
+async function isNonTradingDay(): Promise<boolean> {
+  const today = todayInExchangeTimezone(SCHEDULER_CONFIG.TIMEZONE || 'Asia/Jakarta');
+  return !(await tradingCalendar.isTradingDay(today));
 }
 
 // Generate cron schedules from configuration (will be updated when config changes)
@@ -281,6 +281,7 @@ const bidAskService = new BidAskDataScheduler();
 const brokerSummaryService = new BrokerSummaryDataScheduler();
 const topBrokerService = new TopBrokerDataScheduler();
 const brokerInventoryService = new BrokerInventoryDataScheduler();
+const brokerClusteringService = new BrokerClusteringDataScheduler();
 const brokerBreakdownService = new BrokerBreakdownDataScheduler();
 const brokerSummaryTypeService = new BrokerSummaryTypeDataScheduler();
 const brokerSummaryIDXService = new BrokerSummaryIDXDataScheduler();
@@ -289,6 +290,8 @@ const foreignFlowService = new ForeignFlowDataScheduler();
 const moneyFlowService = new MoneyFlowDataScheduler();
 const breakDoneTradeService = new BreakDoneTradeDataScheduler();
 const hakaHakiAnalysisService = new HakaHakiAnalysisDataScheduler();
+const intradayOhlcService = new IntradayOhlcDataScheduler();
+const marketBreadthService = new MarketBreadthDataScheduler();
 const brokerTransactionService = new BrokerTransactionDataScheduler();
 const brokerTransactionRGTNNGService = new BrokerTransactionRGTNNGDataScheduler();
 const brokerTransactionFDService = new BrokerTransactionFDDataScheduler();
@@ -299,6 +302,109 @@ const brokerTransactionStockRGTNNGService = new BrokerTransactionStockRGTNNGData
 const brokerTransactionStockFDRGTNNGService = new BrokerTransactionStockFDRGTNNGDataScheduler();
 const brokerTransactionStockIDXService = new BrokerTransactionStockIDXDataScheduler();
 
+// ======================
+// JOB GRAPH (Phase 2 - 8)
+// ======================
+// Input 'stock' / 'index' (Phase 1a) dan done_summary tidak punya node produsen -> input eksternal.
+// Output memakai dataset id yang sama dengan recompute manifest agar rerun bisa meng-invalidate-nya.
+const LIGHT_JOB = { retry: { attempts: 3, backoffMs: 30 * 1000 }, timeoutMs: 60 * 60 * 1000 };
+const HEAVY_JOB = { retry: { attempts: 2, backoffMs: 2 * 60 * 1000 }, timeoutMs: 3 * 60 * 60 * 1000 };
+
+// Kalkulator Phase 2 tidak mengembalikan status: sukses = tidak throw
+async function completes(work: Promise<unknown>): Promise<JobResult> {
+  await work;
+  return { success: true };
+}
+
+const jobGraph = new JobGraph();
+const jobNodes: JobNode[] = [
+  // Phase 2 - Market Rotation
+  { id: 'rrc', name: 'RRC Calculation', phaseId: 'phase2_market_rotation', inputs: ['stock', 'index'], outputs: ['rrc'], ...LIGHT_JOB,
+    run: () => completes(forceRegenerate()) },
+  { id: 'rrg', name: 'RRG Calculation', phaseId: 'phase2_market_rotation', inputs: ['stock', 'index'], outputs: ['rrg'], ...LIGHT_JOB,
+    run: () => completes(forceRegenerateRRG()) },
+  { id: 'seasonal', name: 'Seasonal Calculation', phaseId: 'phase2_market_rotation', inputs: ['stock', 'index'], outputs: ['seasonality'], ...LIGHT_JOB,
+    run: ({ triggeredBy }) => completes(forceRegenerateSeasonal('scheduled', null, triggeredBy)) },
+  { id: 'trend_filter', name: 'Trend Filter Calculation', phaseId: 'phase2_market_rotation', inputs: ['stock'], outputs: ['trend_output'], ...LIGHT_JOB,
+    run: ({ triggeredBy }) => trendFilterService.generateTrendFilterData(null, triggeredBy) },
+  { id: 'watchlist_snapshot', name: 'Watchlist Snapshot', phaseId: 'phase2_market_rotation', inputs: ['stock'], outputs: ['watchlist'], ...LIGHT_JOB,
+    run: ({ triggeredBy }) => completes(updateWatchlistSnapshot(null, triggeredBy)) },
+  // Phase 3 - Flow Trade
+  { id: 'money_flow', name: 'Money Flow', phaseId: 'phase3_flow_trade', inputs: ['stock', 'index'], outputs: ['money_flow'], ...LIGHT_JOB,
+    run: ({ triggeredBy }) => moneyFlowService.generateMoneyFlowData('all', null, triggeredBy) },
+  { id: 'foreign_flow', name: 'Foreign Flow', phaseId: 'phase3_flow_trade', inputs: [SOURCE_DATASET], outputs: ['foreign_flow'], ...LIGHT_JOB,
+    run: ({ triggeredBy }) => foreignFlowService.generateForeignFlowData('all', null, triggeredBy) },
+  { id: 'break_done_trade', name: 'Break Done Trade', phaseId: 'phase3_flow_trade', inputs: [SOURCE_DATASET], outputs: ['break_done_trade'], ...LIGHT_JOB,
+    run: ({ triggeredBy }) => breakDoneTradeService.generateBreakDoneTradeData('all', null, triggeredBy) },
+  { id: 'haka_haki', name: 'HAKA HAKI Analysis', phaseId: 'phase3_flow_trade', inputs: [SOURCE_DATASET], outputs: ['haka_haki'], ...LIGHT_JOB,
+    run: ({ triggeredBy }) => hakaHakiAnalysisService.generateHakaHakiData('all', null, triggeredBy) },
+  { id: 'stock_intraday', name: 'Intraday OHLC', phaseId: 'phase3_flow_trade', inputs: [SOURCE_DATASET], outputs: ['stock_intraday'], ...LIGHT_JOB,
+    run: ({ triggeredBy }) => intradayOhlcService.generateIntradayData('all', null, triggeredBy) },
+  // Kolom dari Phase 4/8 untuk hari ini masih kosong saat jalan di Phase 3 dan terisi di run berikutnya
+  { id: 'market_breadth', name: 'Market Breadth', phaseId: 'phase3_flow_trade',
+    inputs: ['stock', 'foreign_flow', 'broker_summary', 'accumulation_distribution'], outputs: ['market_breadth'], ...LIGHT_JOB,
+    run: ({ triggeredBy }) => marketBreadthService.generateMarketBreadth('all', null, triggeredBy) },
+  // Phase 4 - Broker Summary
+  { id: 'top_broker', name: 'Top Broker', phaseId: 'phase4_broker_summary', inputs: [SOURCE_DATASET], outputs: ['top_broker'], ...HEAVY_JOB,
+    run: ({ triggeredBy }) => topBrokerService.generateTopBrokerData('all', null, triggeredBy) },
+  { id: 'broker_summary', name: 'Broker Summary', phaseId: 'phase4_broker_summary', inputs: [SOURCE_DATASET], outputs: ['broker_summary'], ...HEAVY_JOB,
+    run: ({ triggeredBy }) => brokerSummaryService.generateBrokerSummaryData('all', null, triggeredBy) },
+  { id: 'broker_summary_type', name: 'Broker Summary Type', phaseId: 'phase4_broker_summary', inputs: [SOURCE_DATASET], outputs: ['broker_summary_type'], ...HEAVY_JOB,
+    run: ({ triggeredBy }) => brokerSummaryTypeService.generateBrokerSummaryTypeData('all', null, triggeredBy) },
+  { id: 'broker_summary_idx', name: 'Broker Summary IDX', phaseId: 'phase4_broker_summary',
+    inputs: ['broker_summary', 'broker_summary_type'], outputs: ['broker_summary_idx'], ...HEAVY_JOB,
+    run: ({ triggeredBy }) => brokerSummaryIDXService.generateBrokerSummaryIDXData('all', null, triggeredBy) },
+  { id: 'broker_summary_sector', name: 'Broker Summary Sector', phaseId: 'phase4_broker_summary',
+    inputs: ['broker_summary', 'broker_summary_type'], outputs: ['broker_summary_sector'], ...HEAVY_JOB,
+    run: ({ triggeredBy }) => brokerSummarySectorService.generateBrokerSummarySectorData('all', null, triggeredBy) },
+  // Phase 5 - Broktrans Broker
+  { id: 'broker_transaction', name: 'Broker Transaction', phaseId: 'phase5_broktrans_broker', inputs: [SOURCE_DATASET], outputs: ['broker_transaction'], ...HEAVY_JOB,
+    run: ({ triggeredBy }) => brokerTransactionService.generateBrokerTransactionData('all', null, triggeredBy) },
+  { id: 'broker_transaction_rg_tn_ng', name: 'Broker Transaction RG/TN/NG', phaseId: 'phase5_broktrans_broker', inputs: [SOURCE_DATASET], outputs: ['broker_transaction_rg_tn_ng'], ...HEAVY_JOB,
+    run: ({ triggeredBy }) => brokerTransactionRGTNNGService.generateBrokerTransactionRGTNNGData('all', null, triggeredBy) },
+  { id: 'broker_transaction_f_d', name: 'Broker Transaction F/D', phaseId: 'phase5_broktrans_broker', inputs: [SOURCE_DATASET], outputs: ['broker_transaction_f_d'], ...HEAVY_JOB,
+    run: ({ triggeredBy }) => brokerTransactionFDService.generateBrokerTransactionData('all', null, triggeredBy) },
+  { id: 'broker_transaction_f_d_rg_tn_ng', name: 'Broker Transaction F/D RG/TN/NG', phaseId: 'phase5_broktrans_broker', inputs: [SOURCE_DATASET], outputs: ['broker_transaction_f_d_rg_tn_ng'], ...HEAVY_JOB,
+    run: ({ triggeredBy }) => brokerTransactionFDRGTNNGService.generateBrokerTransactionData('all', null, triggeredBy) },
+  // Phase 6 - Broktrans Stock
+  { id: 'broker_transaction_stock', name: 'Broker Transaction Stock', phaseId: 'phase6_broktrans_stock', inputs: [SOURCE_DATASET], outputs: ['broker_transaction_stock'], ...HEAVY_JOB,
+    run: ({ triggeredBy }) => brokerTransactionStockService.generateBrokerTransactionData('all', null, triggeredBy) },
+  { id: 'broker_transaction_stock_f_d', name: 'Broker Transaction Stock F/D', phaseId: 'phase6_broktrans_stock', inputs: [SOURCE_DATASET], outputs: ['broker_transaction_stock_f_d'], ...HEAVY_JOB,
+    run: ({ triggeredBy }) => brokerTransactionStockFDService.generateBrokerTransactionData('all', null, triggeredBy) },
+  { id: 'broker_transaction_stock_rg_tn_ng', name: 'Broker Transaction Stock RG/TN/NG', phaseId: 'phase6_broktrans_stock', inputs: [SOURCE_DATASET], outputs: ['broker_transaction_stock_rg_tn_ng'], ...HEAVY_JOB,
+    run: ({ triggeredBy }) => brokerTransactionStockRGTNNGService.generateBrokerTransactionData('all', null, triggeredBy) },
+  { id: 'broker_transaction_stock_f_d_rg_tn_ng', name: 'Broker Transaction Stock F/D RG/TN/NG', phaseId: 'phase6_broktrans_stock', inputs: [SOURCE_DATASET], outputs: ['broker_transaction_stock_f_d_rg_tn_ng'], ...HEAVY_JOB,
+    run: ({ triggeredBy }) => brokerTransactionStockFDRGTNNGService.generateBrokerTransactionData('all', null, triggeredBy) },
+  { id: 'broker_transaction_stock_idx', name: 'Broker Transaction Stock IDX', phaseId: 'phase6_broktrans_stock',
+    inputs: ['broker_transaction_stock', 'broker_transaction_stock_f_d', 'broker_transaction_stock_rg_tn_ng', 'broker_transaction_stock_f_d_rg_tn_ng'],
+    outputs: ['broker_transaction_stock_idx'], ...HEAVY_JOB,
+    run: ({ triggeredBy }) => brokerTransactionStockIDXService.generateBrokerTransactionStockIDXData('all', null, triggeredBy) },
+  // Phase 7 - Bid Breakdown
+  { id: 'bid_ask', name: 'Bid/Ask Footprint', phaseId: 'phase7_bid_breakdown', inputs: [SOURCE_DATASET], outputs: ['bid_ask'], ...HEAVY_JOB,
+    run: ({ triggeredBy }) => bidAskService.generateBidAskData('all', null, triggeredBy) },
+  { id: 'broker_breakdown', name: 'Broker Breakdown', phaseId: 'phase7_bid_breakdown', inputs: [SOURCE_DATASET], outputs: ['broker_breakdown'], ...HEAVY_JOB,
+    run: ({ triggeredBy }) => brokerBreakdownService.generateBrokerBreakdownData('all', null, triggeredBy) },
+  // Phase 8 - Additional
+  { id: 'broker_inventory', name: 'Broker Inventory', phaseId: 'phase8_additional', inputs: ['broker_transaction', 'stock'], outputs: ['broker_inventory'], ...HEAVY_JOB,
+    run: ({ triggeredBy }) => brokerInventoryService.generateBrokerInventoryData('all', null, triggeredBy) },
+  { id: 'accumulation_distribution', name: 'Accumulation Distribution', phaseId: 'phase8_additional', inputs: ['bid_ask', 'stock'], outputs: ['accumulation_distribution'], ...HEAVY_JOB,
+    run: ({ triggeredBy }) => accumulationService.generateAccumulationData('all', null, triggeredBy) },
+  { id: 'broker_clustering', name: 'Broker Clustering', phaseId: 'phase8_additional', inputs: ['broker_transaction'], outputs: ['broker_clustering'], ...HEAVY_JOB,
+    run: ({ triggeredBy }) => brokerClusteringService.generateBrokerClusteringData('all', null, triggeredBy) }
+];
+jobNodes.forEach(node => jobGraph.register(node));
+const jobExecutor = new DagExecutor(jobGraph);
+let jobRerunActive = false;
+
+// Backfill menunggu di antara tanggal selama phase / rerun jalan, karena memakai instance kalkulator yang sama
+const backfillRunner = new BackfillRunner({
+  busyReason: () => {
+    const runningPhase = Object.keys(phaseStatus).find(phaseId => phaseStatus[phaseId] === 'running');
+    if (runningPhase) return `${getPhaseName(runningPhase)} is running`;
+    return jobRerunActive ? 'job rerun in progress' : null;
+  }
+});
+
 // Memory monitoring variables
 let memoryMonitorInterval: NodeJS.Timeout | null = null;
 
@@ -466,6 +572,47 @@ async function checkMemoryBeforeLargeOperation(operationName: string): Promise<b
 
   return true;
 }
+
+/**
+ * Jalankan semua job node milik satu phase lewat DAG executor dan update progress phase log
+ */
+async function runPhaseJobs(
+  phaseId: string,
+  context: JobContext,
+  logEntry: SchedulerLog | null,
+  options: Omit<ExecuteOptions, 'date' | 'onNodeFinished'> = {}
+): Promise<JobNodeState[]> {
+  // Phase (cron) yang mulai saat backfill jalan: status phase sudah 'running' sehingga backfill
+  // berhenti setelah tanggal yang sedang dihitung; tunggu tanggal itu selesai sebelum memakai kalkulator
+  if (backfillRunner.isRunning()) {
+    console.log(`⏳ ${getPhaseName(phaseId)} waiting for the current backfill date to finish`);
+    if (logEntry) {
+      await SchedulerLogService.updateLog(logEntry.id!, { current_processing: 'Waiting for backfill date to finish' });
+    }
+    await backfillRunner.waitForCurrentDate();
+  }
+
+  const run = await jobExecutor.execute(jobGraph.getPhaseNodes(phaseId), context, {
+    ...options,
+    date: todayInExchangeTimezone(TIMEZONE),
+    onNodeFinished: async (state, finished, total) => {
+      if (logEntry) {
+        await SchedulerLogService.updateLog(logEntry.id!, {
+          progress_percentage: Math.round((finished / total) * 100),
+          current_processing: `${jobGraph.getNode(state.nodeId)?.name || state.nodeId} ${state.status} (${finished}/${total})`
+        });
+      }
+    }
+  });
+
+  const states = run.order.map(nodeId => run.nodes[nodeId]!);
+  states.forEach(state => {
+    const attempts = state.attempts > 1 ? `, ${state.attempts} attempts` : '';
+    console.log(`📊 ${jobGraph.getNode(state.nodeId)?.name || state.nodeId}: ${state.status.toUpperCase()} (${Math.round((state.durationMs || 0) / 1000)}s${attempts})`);
+  });
+  return states;
+}
+
 /**
  * Run Phase 2 - Market Rotation Calculations (RRC, RRG, Seasonal, Trend Filter)
  */
@@ -520,112 +667,37 @@ export async function runPhase2MarketRotationCalculations(manualTriggeredBy?: st
     // Track batch performance
     trackBatchPerformance(phaseStartTime, 'Phase 2 Market Rotation Start');
 
-    // Run market rotation calculations in parallel
-    const marketRotationTasks = [
-      { name: 'RRC Calculation', service: forceRegenerate, method: null },
-      { name: 'RRG Calculation', service: forceRegenerateRRG, method: null },
-      { name: 'Seasonal Calculation', service: forceRegenerateSeasonal, method: null },
-      { name: 'Trend Filter Calculation', service: trendFilterService, method: 'generateTrendFilterData' },
-      { name: 'Watchlist Snapshot', service: updateWatchlistSnapshot, method: null }
-    ];
-
-    const triggeredBy = fromManual ? manualTriggeredBy : 'Phase 2 Market Rotation';
-    const marketRotationPromises = marketRotationTasks.map(async (task, index) => {
-      const startTime = Date.now();
-
-      try {
-        console.log(`🔄 Starting ${task.name} (${index + 1}/5)...`);
-
-        // Update progress in database for phase log
-        if (logEntry) {
-          await SchedulerLogService.updateLog(logEntry.id!, {
-            progress_percentage: Math.round((index / 5) * 100),
-            current_processing: `Running ${task.name}...`
-          });
-        }
-
-        // Run calculation - services will create their own log entries
-        if (task.method) {
-          // Call method on service instance with triggeredBy
-          if (task.name === 'Trend Filter Calculation') {
-            await (task.service as any)[task.method](null, triggeredBy);
-          } else {
-            await (task.service as any)[task.method]();
-          }
-        } else {
-          // Call service directly as a function with triggeredBy
-          if (task.name === 'Seasonal Calculation') {
-            await (task.service as any)('scheduled', null, triggeredBy);
-          } else if (task.name === 'Watchlist Snapshot') {
-            await (task.service as any)(null, triggeredBy);
-          } else if (task.name === 'RRC Calculation') {
-            // RRC uses (forceOverride, triggerType, logId, triggeredBy)
-            await (task.service as any)(false, fromManual ? 'manual' : 'scheduled', null, triggeredBy);
-          } else if (task.name === 'RRG Calculation') {
-            // RRG uses (forceOverride, triggerType, logId, triggeredBy)
-            await (task.service as any)(false, fromManual ? 'manual' : 'scheduled', null, triggeredBy);
-          } else {
-            // Fallback for other services
-            await (task.service as any)();
-          }
-        }
-
-        const duration = Date.now() - startTime;
-
-        // If we reach here without throwing an error, the task succeeded
-        console.log(`✅ ${task.name} completed in ${Math.round(duration / 1000)}s`);
-        return { name: task.name, success: true, duration };
-
-      } catch (error) {
-        const duration = Date.now() - startTime;
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        console.error(`❌ ${task.name} failed:`, errorMessage);
-        return { name: task.name, success: false, error: errorMessage, duration };
-      }
-    });
-
-    // Wait for all calculations to complete
-    const marketRotationResults = await Promise.allSettled(marketRotationPromises);
-
-    // Process results
-    const results: Array<{ name: string; success: boolean; error?: string; duration?: number }> = [];
-    marketRotationResults.forEach((result, index) => {
-      if (result.status === 'fulfilled') {
-        results.push(result.value);
-      } else {
-        results.push({
-          name: marketRotationTasks[index]?.name || 'Unknown',
-          success: false,
-          error: result.reason instanceof Error ? result.reason.message : 'Unknown error'
-        });
-      }
-    });
-
-    const successCount = results.filter(r => r.success).length;
+    // Node Phase 2 tidak saling bergantung -> semua jalan paralel
+    const triggeredBy = fromManual ? manualTriggeredBy! : 'Phase 2 Market Rotation';
+    const results = await runPhaseJobs('phase2_market_rotation', { triggeredBy, manual: fromManual }, logEntry, { concurrency: 5 });
+    const successCount = results.filter(r => r.status === 'succeeded').length;
     const phaseEndTime = new Date();
     const totalDuration = Math.round((phaseEndTime.getTime() - phaseStartTime) / 1000);
 
     console.log(`\n📊 ===== PHASE 2 MARKET ROTATION COMPLETED =====`);
-    console.log(`✅ Success: ${successCount}/5 calculations`);
+    console.log(`✅ Success: ${successCount}/${results.length} calculations`);
     console.log(`🕐 End Time: ${phaseEndTime.toISOString()}`);
     console.log(`⏱️ Total Duration: ${totalDuration}s`);
 
     // Update database log
     if (logEntry) {
-      if (successCount === 5) {
+      if (successCount === results.length) {
         await SchedulerLogService.markCompleted(logEntry.id!, {
-          total_files_processed: 5,
+          total_files_processed: results.length,
           files_created: successCount,
-          files_failed: 5 - successCount
+          files_failed: results.length - successCount
         });
       } else {
-        await SchedulerLogService.markFailed(logEntry.id!, `Phase 2 Market Rotation failed: ${successCount}/5 calculations successful`, { successCount, totalDuration });
+        await SchedulerLogService.markFailed(logEntry.id!, `Phase 2 Market Rotation failed: ${successCount}/${results.length} calculations successful`, { successCount, totalDuration });
       }
     }
 
     // Cleanup after Phase 2 Market Rotation
     await aggressiveMemoryCleanup();
 
+    // Evaluate user alert rules on fresh RRG / trend output
+    await AlertService.evaluateAfterPhase('phase2_market_rotation');
+
     // Stop memory monitoring for this phase
     stopMemoryMonitoring();
 
@@ -658,7 +730,7 @@ export async function runPhase2MarketRotationCalculations(manualTriggeredBy?: st
 }
 
 /**
- * Run Phase 3 - Flow Trade (Money Flow, Foreign Flow, Break Done Trade)
+ * Run Phase 3 - Flow Trade (Money Flow, Foreign Flow, Break Done Trade, HAKA HAKI, Intraday OHLC)
  */
 export async function runPhase3FlowTradeCalculations(manualTriggeredBy?: string): Promise<void> {
   // Check if phase is enabled before starting
@@ -671,7 +743,7 @@ export async function runPhase3FlowTradeCalculations(manualTriggeredBy?: string)
   const phaseStartTime = Date.now();
   console.log(`\n🚀 ===== PHASE 3 FLOW TRADE STARTED =====`);
   console.log(`🕐 Start Time: ${new Date(phaseStartTime).toISOString()}`);
-  console.log(`📋 Phase: Flow Trade (Money Flow, Foreign Flow, Break Done Trade)`);
+  console.log(`📋 Phase: Flow Trade (Money Flow, Foreign Flow, Break Done Trade, HAKA HAKI, Intraday OHLC, Market Breadth)`);
 
   // Start memory monitoring for this phase
   startMemoryMonitoring();
@@ -714,88 +786,37 @@ export async function runPhase3FlowTradeCalculations(manualTriggeredBy?: string)
 
     console.log('🔄 Starting Phase 3 Flow Trade calculations (PARALLEL MODE)...');
 
-    // Run light calculations in parallel
-    const lightCalculations = [
-      { name: 'Money Flow', featureName: 'money_flow', service: moneyFlowService, method: 'generateMoneyFlowData' },
-      { name: 'Foreign Flow', featureName: 'foreign_flow', service: foreignFlowService, method: 'generateForeignFlowData' },
-      { name: 'Break Done Trade', featureName: 'break_done_trade', service: breakDoneTradeService, method: 'generateBreakDoneTradeData' },
-      { name: 'HAKA HAKI Analysis', featureName: 'haka_haki_analysis', service: hakaHakiAnalysisService, method: 'generateHakaHakiData' }
-    ];
-
-    const lightCalculationPromises = lightCalculations.map(async (task, index) => {
-      const startTime = Date.now();
-      const triggeredBy = fromManual ? manualTriggeredBy : 'Phase 3 Flow Trade';
-
-      try {
-        console.log(`🔄 Starting ${task.name} (${index + 1}/4)...`);
-
-        // Update progress in database for phase log
-        if (logEntry) {
-          await SchedulerLogService.updateLog(logEntry.id!, {
-            progress_percentage: Math.round((index / 4) * 100),
-            current_processing: `Running ${task.name}...`
-          });
-        }
-
-        // Run calculation - pass logId to enable progress tracking, but don't pass logId so each calculation creates its own log entry
-        await (task.service as any)[task.method]('all', null, triggeredBy);
-
-        const duration = Date.now() - startTime;
-
-        // If we reach here without throwing an error, the task succeeded
-        console.log(`✅ ${task.name} completed in ${Math.round(duration / 1000)}s`);
-        return { name: task.name, success: true, duration };
-
-      } catch (error) {
-        const duration = Date.now() - startTime;
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        console.error(`❌ ${task.name} failed:`, errorMessage);
-        return { name: task.name, success: false, error: errorMessage, duration };
-      }
-    });
-
-    // Wait for all calculations to complete
-    const lightCalculationResults = await Promise.allSettled(lightCalculationPromises);
-
-    // Process results
-    const results: Array<{ name: string; success: boolean; error?: string; duration?: number }> = [];
-    lightCalculationResults.forEach((result, index) => {
-      if (result.status === 'fulfilled') {
-        results.push(result.value);
-      } else {
-        results.push({
-          name: lightCalculations[index]?.name || 'Unknown',
-          success: false,
-          error: result.reason instanceof Error ? result.reason.message : 'Unknown error'
-        });
-      }
-    });
-
-    const successCount = results.filter(r => r.success).length;
+    // Market Breadth menunggu Foreign Flow; node lain jalan paralel
+    const triggeredBy = fromManual ? manualTriggeredBy! : 'Phase 3 Flow Trade';
+    const results = await runPhaseJobs('phase3_flow_trade', { triggeredBy, manual: fromManual }, logEntry, { concurrency: 5 });
+    const successCount = results.filter(r => r.status === 'succeeded').length;
     const phaseEndTime = new Date();
     const totalDuration = Math.round((phaseEndTime.getTime() - phaseStartTime) / 1000);
 
     console.log(`\n📊 ===== PHASE 3 FLOW TRADE COMPLETED =====`);
-    console.log(`✅ Success: ${successCount}/4 calculations`);
+    console.log(`✅ Success: ${successCount}/${results.length} calculations`);
     console.log(`🕐 End Time: ${phaseEndTime.toISOString()}`);
     console.log(`⏱️ Total Duration: ${totalDuration}s`);
 
     // Update database log
     if (logEntry) {
-      if (successCount === 4) {
+      if (successCount === results.length) {
         await SchedulerLogService.markCompleted(logEntry.id!, {
-          total_files_processed: 4,
+          total_files_processed: results.length,
           files_created: successCount,
-          files_failed: 4 - successCount
+          files_failed: results.length - successCount
         });
       } else {
-        await SchedulerLogService.markFailed(logEntry.id!, `Phase 3 Flow Trade failed: ${successCount}/4 calculations successful`, { successCount, totalDuration });
+        await SchedulerLogService.markFailed(logEntry.id!, `Phase 3 Flow Trade failed: ${successCount}/${results.length} calculations successful`, { successCount, totalDuration });
       }
     }
 
     // Cleanup after Phase 3 Flow Trade
     await aggressiveMemoryCleanup();
 
+    // Evaluate user alert rules on fresh money flow / foreign flow output
+    await AlertService.evaluateAfterPhase('phase3_flow_trade');
+
     // Stop memory monitoring for this phase
     stopMemoryMonitoring();
 
@@ -874,104 +895,18 @@ export async function runPhase4BrokerSummaryCalculations(manualTriggeredBy?: str
       console.log('📊 Phase 4 Broker Summary database log created:', logEntry.id);
     }
 
-    const phaseTasks = [
-      { name: 'Top Broker', featureName: 'top_broker' },
-      { name: 'Broker Summary', featureName: 'broker_summary' },
-      { name: 'Broker Summary IDX', featureName: 'broker_summary_idx' },
-      { name: 'Broker Summary Type', featureName: 'broker_summary_type' },
-      { name: 'Broker Summary Sector', featureName: 'broker_summary_sector' },
-    ] as const;
-
-    // Top Broker
-    console.log('🔄 Starting Top Broker calculation...');
-    const topBrokerStartTime = Date.now();
-    // Pass null as logId so each calculation creates its own log entry with progress tracking
-    // Pass phase name for triggered_by instead of phase_id
-    const triggeredByForChild = fromManual ? manualTriggeredBy : 'Phase 4 Broker Summary';
-    const resultTopBroker = await topBrokerService.generateTopBrokerData('all', null, triggeredByForChild);
-    const topBrokerDuration = Math.round((Date.now() - topBrokerStartTime) / 1000);
-    console.log(`📊 Top Broker completed in ${topBrokerDuration}s`);
-    if (logEntry) {
-      // Hitung progress phase sebagai rata-rata progress kalkulasi individual
-      const progress = Math.round((1 / phaseTasks.length) * 100);
-      await SchedulerLogService.updateLog(logEntry.id!, {
-        progress_percentage: progress,
-        current_processing: 'Top Broker completed'
-      });
-    }
-
-    // Broker Summary
-    console.log('🔄 Starting Broker Summary calculation...');
-    const brokerSummaryStartTime = Date.now();
-    // Pass null as logId so each calculation creates its own log entry with progress tracking
-    const resultSummary = await brokerSummaryService.generateBrokerSummaryData('all', null, triggeredByForChild);
-    const brokerSummaryDuration = Math.round((Date.now() - brokerSummaryStartTime) / 1000);
-    console.log(`📊 Broker Summary completed in ${brokerSummaryDuration}s`);
-    if (logEntry) {
-      const progress = Math.round((2 / phaseTasks.length) * 100);
-      await SchedulerLogService.updateLog(logEntry.id!, {
-        progress_percentage: progress,
-        current_processing: 'Broker Summary completed'
-      });
-    }
-
-    // Broker Summary IDX
-    console.log('🔄 Starting Broker Summary IDX calculation...');
-    const idxStartTime = Date.now();
-    // Pass null as logId so each calculation creates its own log entry with progress tracking
-    const resultIDX = await brokerSummaryIDXService.generateBrokerSummaryIDXData('all', null, triggeredByForChild);
-    const idxDuration = Math.round((Date.now() - idxStartTime) / 1000);
-    console.log(`📊 Broker Summary IDX completed in ${idxDuration}s`);
-    if (logEntry) {
-      const progress = Math.round((3 / phaseTasks.length) * 100);
-      await SchedulerLogService.updateLog(logEntry.id!, {
-        progress_percentage: progress,
-        current_processing: 'Broker Summary IDX completed'
-      });
-    }
-
-    // Broker Summary by Type
-    console.log('🔄 Starting Broker Summary by Type (RG/TN/NG) calculation...');
-    const brokerSummaryTypeStartTime = Date.now();
-    // Pass null as logId so each calculation creates its own log entry with progress tracking
-    const resultType = await brokerSummaryTypeService.generateBrokerSummaryTypeData('all', null, triggeredByForChild);
-    const brokerSummaryTypeDuration = Math.round((Date.now() - brokerSummaryTypeStartTime) / 1000);
-    console.log(`📊 Broker Summary Type completed in ${brokerSummaryTypeDuration}s`);
-    if (logEntry) {
-      const progress = Math.round((4 / phaseTasks.length) * 100);
-      await SchedulerLogService.updateLog(logEntry.id!, {
-        progress_percentage: progress,
-        current_processing: 'Broker Summary Type completed'
-      });
-    }
-
-    // Broker Summary Sector
-    console.log('🔄 Starting Broker Summary Sector calculation...');
-    const brokerSummarySectorStartTime = Date.now();
-    // Pass null as logId so each calculation creates its own log entry with progress tracking
-    const resultSector = await brokerSummarySectorService.generateBrokerSummarySectorData('all', null, triggeredByForChild);
-    const brokerSummarySectorDuration = Math.round((Date.now() - brokerSummarySectorStartTime) / 1000);
-    console.log(`📊 Broker Summary Sector completed in ${brokerSummarySectorDuration}s`);
-    if (logEntry) {
-      await SchedulerLogService.updateLog(logEntry.id!, {
-        progress_percentage: 100,
-        current_processing: 'All Broker Summary calculations completed'
-      });
-    }
+    // Sequential: kalkulasi broker summary berat di memory; IDX/Sector menunggu Summary + Type
+    const triggeredByForChild = fromManual ? manualTriggeredBy! : 'Phase 4 Broker Summary';
+    const results = await runPhaseJobs('phase4_broker_summary', { triggeredBy: triggeredByForChild, manual: fromManual }, logEntry);
 
     const phaseEndTime = new Date();
     const totalDuration = Math.round((phaseEndTime.getTime() - phaseStartTime) / 1000);
 
-    const successCount = (resultTopBroker.success ? 1 : 0) + (resultSummary.success ? 1 : 0) + (resultIDX.success ? 1 : 0) + (resultType.success ? 1 : 0) + (resultSector.success ? 1 : 0);
-    const totalCalculations = 5;
+    const successCount = results.filter(r => r.status === 'succeeded').length;
+    const totalCalculations = results.length;
 
     console.log(`\n📊 ===== PHASE 4 BROKER SUMMARY COMPLETED =====`);
     console.log(`✅ Success: ${successCount}/${totalCalculations} calculations`);
-    console.log(`📊 Top Broker: ${resultTopBroker.success ? 'SUCCESS' : 'FAILED'} (${topBrokerDuration}s)`);
-    console.log(`📊 Broker Summary: ${resultSummary.success ? 'SUCCESS' : 'FAILED'} (${brokerSummaryDuration}s)`);
-    console.log(`📊 Broker Summary IDX: ${resultIDX.success ? 'SUCCESS' : 'FAILED'} (${idxDuration}s)`);
-    console.log(`📊 Broker Summary Type: ${resultType.success ? 'SUCCESS' : 'FAILED'} (${brokerSummaryTypeDuration}s)`);
-    console.log(`📊 Broker Summary Sector: ${resultSector.success ? 'SUCCESS' : 'FAILED'} (${brokerSummarySectorDuration}s)`);
     console.log(`🕐 End Time: ${phaseEndTime.toISOString()}`);
     console.log(`⏱️ Total Duration: ${totalDuration}s`);
 
@@ -1071,75 +1006,18 @@ export async function runPhase5BroktransBrokerCalculations(manualTriggeredBy?: s
       console.log('📊 Phase 5 Broktrans Broker database log created:', logEntry.id);
     }
 
+    // Sequential: setiap kalkulasi broker transaction membaca seluruh DT file
     const triggeredBy = fromManual ? manualTriggeredBy! : 'Phase 5 Broktrans Broker';
-
-    console.log('🔄 Starting Broker Transaction calculation...');
-    const brokerTransactionStartTime = Date.now();
-    // Pass null as logId so each calculation creates its own log entry with progress tracking
-    const resultTransaction = await brokerTransactionService.generateBrokerTransactionData('all', null, triggeredBy);
-    const brokerTransactionDuration = Math.round((Date.now() - brokerTransactionStartTime) / 1000);
-    console.log(`📊 Broker Transaction completed in ${brokerTransactionDuration}s`);
-    if (logEntry) {
-      const progress = Math.round((1 / 4) * 100);
-      await SchedulerLogService.updateLog(logEntry.id!, {
-        progress_percentage: progress,
-        current_processing: 'Broker Transaction completed'
-      });
-    }
-
-    console.log('🔄 Starting Broker Transaction RG/TN/NG calculation...');
-    const brokerTransactionRGTNNGStartTime = Date.now();
-    // Pass null as logId so each calculation creates its own log entry with progress tracking
-    const resultTransactionRGTNNG = await brokerTransactionRGTNNGService.generateBrokerTransactionRGTNNGData('all', null, triggeredBy);
-    const brokerTransactionRGTNNGDuration = Math.round((Date.now() - brokerTransactionRGTNNGStartTime) / 1000);
-    console.log(`📊 Broker Transaction RG/TN/NG completed in ${brokerTransactionRGTNNGDuration}s`);
-    if (logEntry) {
-      const progress = Math.round((2 / 4) * 100);
-      await SchedulerLogService.updateLog(logEntry.id!, {
-        progress_percentage: progress,
-        current_processing: 'Broker Transaction RG/TN/NG completed'
-      });
-    }
-
-    console.log('🔄 Starting Broker Transaction F/D calculation...');
-    const brokerTransactionFDStartTime = Date.now();
-    // Pass null as logId so each calculation creates its own log entry with progress tracking
-    const resultTransactionFD = await brokerTransactionFDService.generateBrokerTransactionData('all', null, triggeredBy);
-    const brokerTransactionFDDuration = Math.round((Date.now() - brokerTransactionFDStartTime) / 1000);
-    console.log(`📊 Broker Transaction F/D completed in ${brokerTransactionFDDuration}s`);
-    if (logEntry) {
-      const progress = Math.round((3 / 4) * 100);
-      await SchedulerLogService.updateLog(logEntry.id!, {
-        progress_percentage: progress,
-        current_processing: 'Broker Transaction F/D completed'
-      });
-    }
-
-    console.log('🔄 Starting Broker Transaction F/D RG/TN/NG calculation...');
-    const brokerTransactionFDRGTNNGStartTime = Date.now();
-    // Pass null as logId so each calculation creates its own log entry with progress tracking
-    const resultTransactionFDRGTNNG = await brokerTransactionFDRGTNNGService.generateBrokerTransactionData('all', null, triggeredBy);
-    const brokerTransactionFDRGTNNGDuration = Math.round((Date.now() - brokerTransactionFDRGTNNGStartTime) / 1000);
-    console.log(`📊 Broker Transaction F/D RG/TN/NG completed in ${brokerTransactionFDRGTNNGDuration}s`);
-    if (logEntry) {
-      const progress = Math.round((4 / 4) * 100);
-      await SchedulerLogService.updateLog(logEntry.id!, {
-        progress_percentage: progress,
-        current_processing: 'Broker Transaction F/D RG/TN/NG completed'
-      });
-    }
+    const results = await runPhaseJobs('phase5_broktrans_broker', { triggeredBy, manual: fromManual }, logEntry);
 
     const phaseEndTime = new Date();
     const totalDuration = Math.round((phaseEndTime.getTime() - phaseStartTime) / 1000);
 
+    const successCount = results.filter(r => r.status === 'succeeded').length;
+    const totalCalculations = results.length;
+
     console.log(`\n📊 ===== PHASE 5 BROKTRANS BROKER COMPLETED =====`);
-    const successCount = (resultTransaction.success ? 1 : 0) + (resultTransactionRGTNNG.success ? 1 : 0) + (resultTransactionFD.success ? 1 : 0) + (resultTransactionFDRGTNNG.success ? 1 : 0);
-    const totalCalculations = 4;
     console.log(`✅ Success: ${successCount}/${totalCalculations} calculations`);
-    console.log(`📊 Broker Transaction: ${resultTransaction.success ? 'SUCCESS' : 'FAILED'} (${brokerTransactionDuration}s)`);
-    console.log(`📊 Broker Transaction RG/TN/NG: ${resultTransactionRGTNNG.success ? 'SUCCESS' : 'FAILED'} (${brokerTransactionRGTNNGDuration}s)`);
-    console.log(`📊 Broker Transaction F/D: ${resultTransactionFD.success ? 'SUCCESS' : 'FAILED'} (${brokerTransactionFDDuration}s)`);
-    console.log(`📊 Broker Transaction F/D RG/TN/NG: ${resultTransactionFDRGTNNG.success ? 'SUCCESS' : 'FAILED'} (${brokerTransactionFDRGTNNGDuration}s)`);
     console.log(`🕐 End Time: ${phaseEndTime.toISOString()}`);
     console.log(`⏱️ Total Duration: ${totalDuration}s`);
 
@@ -1152,7 +1030,7 @@ export async function runPhase5BroktransBrokerCalculations(manualTriggeredBy?: s
           files_failed: totalCalculations - successCount
         });
       } else {
-        await SchedulerLogService.markFailed(logEntry.id!, `Phase 5 Broktrans Broker failed: ${successCount}/${totalCalculations} calculations successful`, { successCount, totalCalculations, totalDuration, results: { resultTransaction, resultTransactionRGTNNG, resultTransactionFD, resultTransactionFDRGTNNG } });
+        await SchedulerLogService.markFailed(logEntry.id!, `Phase 5 Broktrans Broker failed: ${successCount}/${totalCalculations} calculations successful`, { successCount, totalCalculations, totalDuration, results });
       }
     }
 
@@ -1240,90 +1118,18 @@ export async function runPhase6BroktransStockCalculations(manualTriggeredBy?: st
       console.log('📊 Phase 6 Broktrans Stock database log created:', logEntry.id);
     }
 
+    // Sequential; Stock IDX menunggu keempat output broker transaction stock
     const triggeredBy = fromManual ? manualTriggeredBy! : 'Phase 6 Broktrans Stock';
-
-    console.log('🔄 Starting Broker Transaction Stock calculation...');
-    const brokerTransactionStockStartTime = Date.now();
-    // Pass null as logId so each calculation creates its own log entry with progress tracking
-    const resultTransactionStock = await brokerTransactionStockService.generateBrokerTransactionData('all', null, triggeredBy);
-    const brokerTransactionStockDuration = Math.round((Date.now() - brokerTransactionStockStartTime) / 1000);
-    console.log(`📊 Broker Transaction Stock completed in ${brokerTransactionStockDuration}s`);
-    if (logEntry) {
-      const progress = Math.round((1 / 5) * 100);
-      await SchedulerLogService.updateLog(logEntry.id!, {
-        progress_percentage: progress,
-        current_processing: 'Broker Transaction Stock completed'
-      });
-    }
-
-    console.log('🔄 Starting Broker Transaction Stock F/D calculation...');
-    const brokerTransactionStockFDStartTime = Date.now();
-    // Pass null as logId so each calculation creates its own log entry with progress tracking
-    const resultTransactionStockFD = await brokerTransactionStockFDService.generateBrokerTransactionData('all', null, triggeredBy);
-    const brokerTransactionStockFDDuration = Math.round((Date.now() - brokerTransactionStockFDStartTime) / 1000);
-    console.log(`📊 Broker Transaction Stock F/D completed in ${brokerTransactionStockFDDuration}s`);
-    if (logEntry) {
-      const progress = Math.round((2 / 5) * 100);
-      await SchedulerLogService.updateLog(logEntry.id!, {
-        progress_percentage: progress,
-        current_processing: 'Broker Transaction Stock F/D completed'
-      });
-    }
-
-    console.log('🔄 Starting Broker Transaction Stock RG/TN/NG calculation...');
-    const brokerTransactionStockRGTNNGStartTime = Date.now();
-    // Pass null as logId so each calculation creates its own log entry with progress tracking
-    const resultTransactionStockRGTNNG = await brokerTransactionStockRGTNNGService.generateBrokerTransactionData('all', null, triggeredBy);
-    const brokerTransactionStockRGTNNGDuration = Math.round((Date.now() - brokerTransactionStockRGTNNGStartTime) / 1000);
-    console.log(`📊 Broker Transaction Stock RG/TN/NG completed in ${brokerTransactionStockRGTNNGDuration}s`);
-    if (logEntry) {
-      const progress = Math.round((3 / 5) * 100);
-      await SchedulerLogService.updateLog(logEntry.id!, {
-        progress_percentage: progress,
-        current_processing: 'Broker Transaction Stock RG/TN/NG completed'
-      });
-    }
-
-    console.log('🔄 Starting Broker Transaction Stock F/D RG/TN/NG calculation...');
-    const brokerTransactionStockFDRGTNNGStartTime = Date.now();
-    // Pass null as logId so each calculation creates its own log entry with progress tracking
-    const resultTransactionStockFDRGTNNG = await brokerTransactionStockFDRGTNNGService.generateBrokerTransactionData('all', null, triggeredBy);
-    const brokerTransactionStockFDRGTNNGDuration = Math.round((Date.now() - brokerTransactionStockFDRGTNNGStartTime) / 1000);
-    console.log(`📊 Broker Transaction Stock F/D RG/TN/NG completed in ${brokerTransactionStockFDRGTNNGDuration}s`);
-    if (logEntry) {
-      const progress = Math.round((4 / 5) * 100);
-      await SchedulerLogService.updateLog(logEntry.id!, {
-        progress_percentage: progress,
-        current_processing: 'Broker Transaction Stock F/D RG/TN/NG completed'
-      });
-    }
-
-    console.log('🔄 Starting Broker Transaction Stock IDX calculation...');
-    const brokerTransactionStockIDXStartTime = Date.now();
-    // Pass null as logId so each calculation creates its own log entry with progress tracking
-    const resultTransactionStockIDX = await brokerTransactionStockIDXService.generateBrokerTransactionStockIDXData('all', null, triggeredBy);
-    const brokerTransactionStockIDXDuration = Math.round((Date.now() - brokerTransactionStockIDXStartTime) / 1000);
-    console.log(`📊 Broker Transaction Stock IDX completed in ${brokerTransactionStockIDXDuration}s`);
-    if (logEntry) {
-      await SchedulerLogService.updateLog(logEntry.id!, {
-        progress_percentage: 100,
-        current_processing: 'All Broktrans Stock calculations completed'
-      });
-    }
+    const results = await runPhaseJobs('phase6_broktrans_stock', { triggeredBy, manual: fromManual }, logEntry);
 
     const phaseEndTime = new Date();
     const totalDuration = Math.round((phaseEndTime.getTime() - phaseStartTime) / 1000);
 
-    const successCount = (resultTransactionStock.success ? 1 : 0) + (resultTransactionStockFD.success ? 1 : 0) + (resultTransactionStockRGTNNG.success ? 1 : 0) + (resultTransactionStockFDRGTNNG.success ? 1 : 0) + (resultTransactionStockIDX.success ? 1 : 0);
-    const totalCalculations = 5;
+    const successCount = results.filter(r => r.status === 'succeeded').length;
+    const totalCalculations = results.length;
 
     console.log(`\n📊 ===== PHASE 6 BROKTRANS STOCK COMPLETED =====`);
     console.log(`✅ Success: ${successCount}/${totalCalculations} calculations`);
-    console.log(`📊 Broker Transaction Stock: ${resultTransactionStock.success ? 'SUCCESS' : 'FAILED'} (${brokerTransactionStockDuration}s)`);
-    console.log(`📊 Broker Transaction Stock F/D: ${resultTransactionStockFD.success ? 'SUCCESS' : 'FAILED'} (${brokerTransactionStockFDDuration}s)`);
-    console.log(`📊 Broker Transaction Stock RG/TN/NG: ${resultTransactionStockRGTNNG.success ? 'SUCCESS' : 'FAILED'} (${brokerTransactionStockRGTNNGDuration}s)`);
-    console.log(`📊 Broker Transaction Stock F/D RG/TN/NG: ${resultTransactionStockFDRGTNNG.success ? 'SUCCESS' : 'FAILED'} (${brokerTransactionStockFDRGTNNGDuration}s)`);
-    console.log(`📊 Broker Transaction Stock IDX: ${resultTransactionStockIDX.success ? 'SUCCESS' : 'FAILED'} (${brokerTransactionStockIDXDuration}s)`);
     console.log(`🕐 End Time: ${phaseEndTime.toISOString()}`);
     console.log(`⏱️ Total Duration: ${totalDuration}s`);
 
@@ -1336,7 +1142,7 @@ export async function runPhase6BroktransStockCalculations(manualTriggeredBy?: st
           files_failed: totalCalculations - successCount
         });
       } else {
-        await SchedulerLogService.markFailed(logEntry.id!, `Phase 6 Broktrans Stock failed: ${successCount}/${totalCalculations} calculations successful`, { successCount, totalCalculations, totalDuration, results: { resultTransactionStock, resultTransactionStockFD, resultTransactionStockRGTNNG, resultTransactionStockFDRGTNNG, resultTransactionStockIDX } });
+        await SchedulerLogService.markFailed(logEntry.id!, `Phase 6 Broktrans Stock failed: ${successCount}/${totalCalculations} calculations successful`, { successCount, totalCalculations, totalDuration, results });
       }
     }
 
@@ -1424,47 +1230,18 @@ export async function runPhase7BidBreakdownCalculations(manualTriggeredBy?: stri
       console.log('📊 Phase 7 Bid Breakdown database log created:', logEntry.id);
     }
 
+    // Sequential: bid/ask dan broker breakdown sama-sama berat di memory
     const triggeredBy = fromManual ? manualTriggeredBy! : 'Phase 7 Bid Breakdown';
-
-    console.log('🔄 Starting Bid/Ask Footprint calculation...');
-    const bidAskStartTime = Date.now();
-    // Pass null as logId so each calculation creates its own log entry with progress tracking
-    const bidAskResult = await bidAskService.generateBidAskData('all', null, triggeredBy);
-    const bidAskDuration = Math.round((Date.now() - bidAskStartTime) / 1000);
-
-    console.log(`📊 Bid/Ask Footprint completed in ${bidAskDuration}s`);
-    if (logEntry) {
-      const progress = Math.round((1 / 2) * 100);
-      await SchedulerLogService.updateLog(logEntry.id!, {
-        progress_percentage: progress,
-        current_processing: 'Bid/Ask Footprint completed'
-      });
-    }
-
-    console.log('🔄 Starting Broker Breakdown calculation...');
-    const brokerBreakdownStartTime = Date.now();
-    // Pass null as logId so each calculation creates its own log entry with progress tracking
-    const brokerBreakdownResult = await brokerBreakdownService.generateBrokerBreakdownData('all', null, triggeredBy);
-    const brokerBreakdownDuration = Math.round((Date.now() - brokerBreakdownStartTime) / 1000);
-
-    console.log(`📊 Broker Breakdown completed in ${brokerBreakdownDuration}s`);
-    if (logEntry) {
-      await SchedulerLogService.updateLog(logEntry.id!, {
-        progress_percentage: 100,
-        current_processing: 'Bid Breakdown calculations completed'
-      });
-    }
+    const results = await runPhaseJobs('phase7_bid_breakdown', { triggeredBy, manual: fromManual }, logEntry);
 
     const phaseEndTime = new Date();
     const totalDuration = Math.round((phaseEndTime.getTime() - phaseStartTime) / 1000);
 
-    const successCount = (bidAskResult.success ? 1 : 0) + (brokerBreakdownResult.success ? 1 : 0);
-    const totalCalculations = 2;
+    const successCount = results.filter(r => r.status === 'succeeded').length;
+    const totalCalculations = results.length;
 
     console.log(`\n📊 ===== PHASE 7 BID BREAKDOWN COMPLETED =====`);
     console.log(`✅ Success: ${successCount}/${totalCalculations} calculations`);
-    console.log(`📊 Bid/Ask Footprint: ${bidAskResult.success ? 'SUCCESS' : 'FAILED'} (${bidAskDuration}s)`);
-    console.log(`📊 Broker Breakdown: ${brokerBreakdownResult.success ? 'SUCCESS' : 'FAILED'} (${brokerBreakdownDuration}s)`);
     console.log(`🕐 End Time: ${phaseEndTime.toISOString()}`);
     console.log(`⏱️ Total Duration: ${totalDuration}s`);
 
@@ -1516,7 +1293,7 @@ export async function runPhase7BidBreakdownCalculations(manualTriggeredBy?: stri
 }
 
 /**
- * Run Phase 8 - Additional (Broker Inventory, Accumulation Distribution)
+ * Run Phase 8 - Additional (Broker Inventory, Accumulation Distribution, Broker Clustering)
  */
 export async function runPhase8AdditionalCalculations(manualTriggeredBy?: string): Promise<void> {
   // Check if phase is enabled before starting
@@ -1529,7 +1306,7 @@ export async function runPhase8AdditionalCalculations(manualTriggeredBy?: string
   const phaseStartTime = Date.now();
   console.log(`\n🚀 ===== PHASE 8 ADDITIONAL STARTED =====`);
   console.log(`🕐 Start Time: ${new Date(phaseStartTime).toISOString()}`);
-  console.log(`📋 Phase: Additional (Broker Inventory, Accumulation Distribution)`);
+  console.log(`📋 Phase: Additional (Broker Inventory, Accumulation Distribution, Broker Clustering)`);
 
   // Start memory monitoring for this phase
   startMemoryMonitoring();
@@ -1567,63 +1344,21 @@ export async function runPhase8AdditionalCalculations(manualTriggeredBy?: string
 
     console.log('🔄 Starting Additional calculations (SEQUENTIAL)...');
     const triggeredBy = fromManual ? manualTriggeredBy! : 'Phase 8 Additional';
-    const additionalCalculations = [
-      { name: 'Broker Inventory', featureName: 'broker_inventory', service: brokerInventoryService, method: 'generateBrokerInventoryData' },
-      { name: 'Accumulation Distribution', featureName: 'accumulation_distribution', service: accumulationService, method: 'generateAccumulationData' }
-    ];
-
-    let totalSuccessCount = 0;
-    let totalCalculations = 0;
-
-    for (const calc of additionalCalculations) {
-      console.log(`\n🔄 Starting ${calc.name} (${totalCalculations + 1}/${additionalCalculations.length})...`);
-
-      // Check memory before each calculation
-      const memoryOk = await monitorMemoryUsage();
-      if (!memoryOk) {
-        console.log('⚠️ Skipping remaining calculations due to high memory usage');
-        break;
-      }
-
-      const calcStartTime = Date.now();
-      try {
-        // Pass null as logId so each calculation creates its own log entry with progress tracking
-        const result = await (calc.service as any)[calc.method]('all', null, triggeredBy);
-        const calcDuration = Math.round((Date.now() - calcStartTime) / 1000);
-
-        if (result.success) {
-          totalSuccessCount++;
-          console.log(`✅ ${calc.name} completed in ${calcDuration}s`);
-        } else {
-          console.error(`❌ ${calc.name} failed:`, result.message);
-          console.error(`❌ Stopping Phase 8 due to critical calculation failure`);
-          break; // Stop processing remaining calculations
+    // Kalkulasi sangat berat: cek memory sebelum tiap node, jeda 10s antar node, berhenti di kegagalan pertama
+    const results = await runPhaseJobs('phase8_additional', { triggeredBy, manual: fromManual }, logEntry, {
+      pauseBetweenMs: 10000,
+      stopOnFailure: true,
+      beforeNode: async (node) => {
+        const memoryOk = await monitorMemoryUsage();
+        if (!memoryOk) {
+          console.log(`⚠️ Skipping ${node.name} due to high memory usage`);
         }
-      } catch (error) {
-        const calcDuration = Math.round((Date.now() - calcStartTime) / 1000);
-        console.error(`❌ ${calc.name} error in ${calcDuration}s:`, error);
-        console.error(`❌ Stopping Phase 8 due to critical calculation error`);
-        break; // Stop processing remaining calculations
-      }
-
-      totalCalculations++;
-
-      // Update overall phase log progress after each calculation
-      if (logEntry && totalCalculations > 0) {
-        const progress = Math.round((totalSuccessCount / additionalCalculations.length) * 100);
-        await SchedulerLogService.updateLog(logEntry.id!, {
-          progress_percentage: progress,
-          current_processing: `${calc.name} completed (${totalSuccessCount}/${additionalCalculations.length})`
-        });
+        return memoryOk;
       }
+    });
 
-      // No aggressive cleanup during calculations to prevent data loss
-      // Longer delay between calculations for very heavy operations
-      if (totalCalculations < additionalCalculations.length) {
-        console.log('⏳ Waiting 10s before next calculation...');
-        await new Promise(resolve => setTimeout(resolve, 10000));
-      }
-    }
+    const totalSuccessCount = results.filter(r => r.status === 'succeeded').length;
+    const totalCalculations = results.filter(r => r.status !== 'skipped').length;
 
     const phaseEndTime = new Date();
     const totalDuration = Math.round((phaseEndTime.getTime() - phaseStartTime) / 1000);
@@ -1652,6 +1387,9 @@ export async function runPhase8AdditionalCalculations(manualTriggeredBy?: string
       }
     }
 
+    // Evaluate user alert rules on fresh broker inventory output
+    await AlertService.evaluateAfterPhase('phase8_additional');
+
     console.log(`\n🎉 ===== ALL PHASES COMPLETED =====`);
     console.log(`📊 Total time from Phase 1a start: Check individual phase logs`);
 
@@ -1731,9 +1469,9 @@ export async function runPhase1DataCollection(manualTriggeredBy?: string): Promi
     console.log(`🕐 Start Time: ${new Date(phaseStartTime).toISOString()}`);
     console.log(`📋 Phase: Input Daily (Emiten List, Stock, Index, Done Summary) - 7 days`);
 
-    // Skip if weekend
-    if (isWeekend()) {
-      console.log('📅 Weekend detected - skipping Phase 1a Input Daily (no market data available)');
+    // Skip if weekend / IDX holiday
+    if (await isNonTradingDay()) {
+      console.log('📅 Non-trading day (weekend/IDX holiday) - skipping Phase 1a Input Daily (no market data available)');
       return;
     }
 
@@ -1899,14 +1637,24 @@ export async function runPhase1DataCollection(manualTriggeredBy?: string): Promi
       // Cleanup after Phase 1
       await aggressiveMemoryCleanup();
 
+      // Validasi data mentah (repair/quarantine OHLC, cocokkan DT vs OHLC) sebelum Phase 2-8 memakainya
+      let qualityPassed = true;
+      if (successCount === totalTasks) {
+        const quality = await runDataQualityValidation(null, triggeredBy);
+        qualityPassed = quality.passed;
+        console.log(`${quality.passed ? '✅' : '🚨'} ${quality.message}`);
+      }
+
       // Trigger Phase 2 automatically if Phase 1 succeeded and Phase 2 is enabled
       // Pass manualTriggeredBy if this was manually triggered
-      if (successCount === totalTasks && phaseEnabled['phase2_market_rotation']) {
+      if (successCount === totalTasks && qualityPassed && phaseEnabled['phase2_market_rotation']) {
         console.log('🔄 Triggering Phase 2 Market Rotation calculations...');
         await runPhase2MarketRotationCalculations(fromManual ? manualTriggeredBy : undefined);
       } else {
         if (!phaseEnabled['phase2_market_rotation']) {
           console.log('⚠️ Skipping Phase 2 - Phase 2 is disabled');
+        } else if (!qualityPassed) {
+          console.log('⚠️ Holding Phase 2-8 - critical data quality checks failed (see data_quality/reports)');
         } else {
           console.log('⚠️ Skipping Phase 2 due to Phase 1 failure');
         }
@@ -2302,6 +2050,14 @@ export async function triggerPhase(phaseId: string, triggeredBy?: string): Promi
       return { success: false, message: `Phase ${phaseId} is already running` };
     }
 
+    if (jobRerunActive) {
+      return { success: false, message: 'A job rerun is in progress. Please wait until it finishes.' };
+    }
+
+    if (backfillRunner.isRunning()) {
+      return { success: false, message: 'A backfill is in progress. Cancel it or wait until it finishes.' };
+    }
+
     switch (phaseId) {
       case 'phase1a_input_daily':
         await runPhase1DataCollection(triggeredBy);
@@ -2338,6 +2094,172 @@ export async function triggerPhase(phaseId: string, triggeredBy?: string): Promi
   }
 }
 
+/**
+ * Semua job node beserta status terakhirnya pada satu tanggal (untuk developer dashboard)
+ */
+export async function getJobGraphStatus(date: string) {
+  const dateState = await jobExecutor.getDateState(date);
+  return {
+    date,
+    rerunActive: jobRerunActive,
+    nodes: jobGraph.listNodes().map(node => ({
+      id: node.id,
+      name: node.name,
+      phaseId: node.phaseId,
+      inputs: node.inputs,
+      outputs: node.outputs,
+      upstream: jobGraph.getUpstream(node.id),
+      downstream: jobGraph.getDownstream(node.id),
+      retry: node.retry,
+      timeoutMs: node.timeoutMs,
+      state: dateState.nodes[node.id] || null
+    }))
+  };
+}
+
+/**
+ * Jalankan ulang satu job node beserta semua downstream-nya untuk satu tanggal.
+ * Output di recompute manifest di-invalidate dulu agar kalkulator menghitung ulang
+ * tanggal itu walaupun file output-nya sudah ada. Berjalan di background.
+ */
+export async function rerunJobFrom(nodeId: string, date: string, triggeredBy: string): Promise<{ success: boolean; message: string; nodes?: string[]; logId?: string }> {
+  if (!jobGraph.getNode(nodeId)) {
+    return { success: false, message: `Unknown job: ${nodeId}` };
+  }
+  if (!/^\d{8}$/.test(date)) {
+    return { success: false, message: 'Invalid date format. Expected YYYYMMDD' };
+  }
+  const runningPhase = Object.keys(phaseStatus).find(phaseId => phaseStatus[phaseId] === 'running');
+  if (runningPhase) {
+    return { success: false, message: `${getPhaseName(runningPhase)} is running. Please wait until it finishes.` };
+  }
+  if (jobRerunActive || jobExecutor.isRunning()) {
+    return { success: false, message: 'Another job run is in progress' };
+  }
+  if (backfillRunner.isRunning()) {
+    return { success: false, message: 'A backfill is in progress. Cancel it or wait until it finishes.' };
+  }
+
+  jobRerunActive = true;
+  const nodes = jobGraph.topologicalOrder([nodeId, ...jobGraph.getDownstream(nodeId)]);
+  let logEntry: SchedulerLog | null = null;
+  try {
+    logEntry = await SchedulerLogService.createLog({
+      feature_name: 'job_rerun',
+      trigger_type: 'manual',
+      triggered_by: triggeredBy,
+      status: 'running',
+      started_at: new Date().toISOString(),
+      environment: process.env['NODE_ENV'] || 'development'
+    });
+
+    const covered = new Set<string>();
+    for (const id of nodes) {
+      for (const output of jobGraph.getNode(id)!.outputs) {
+        if (!DATASET_GRAPH[output] || covered.has(output)) continue;
+        await recomputeManifest.invalidate(output, date, `rerun from ${nodeId} by ${triggeredBy}`);
+        [output, ...recomputeManifest.getDependents(output)].forEach(dataset => covered.add(dataset));
+      }
+    }
+  } catch (error) {
+    jobRerunActive = false;
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to prepare job rerun' };
+  }
+
+  console.log(`🔁 Rerunning ${nodes.length} job(s) for ${date} from ${nodeId}: ${nodes.join(', ')}`);
+  const rerunLog = logEntry;
+  jobExecutor.execute(nodes, { triggeredBy, manual: true }, {
+    date,
+    onNodeFinished: async (state, finished, total) => {
+      if (rerunLog) {
+        await SchedulerLogService.updateLog(rerunLog.id!, {
+          progress_percentage: Math.round((finished / total) * 100),
+          current_processing: `${jobGraph.getNode(state.nodeId)?.name || state.nodeId} ${state.status} (${finished}/${total})`
+        });
+      }
+    }
+  }).then(async (run) => {
+    const states = Object.values(run.nodes);
+    const succeeded = states.filter(state => state.status === 'succeeded').length;
+    console.log(`🔁 Job rerun for ${date} finished: ${succeeded}/${states.length} succeeded`);
+    if (rerunLog) {
+      if (succeeded === states.length) {
+        await SchedulerLogService.markCompleted(rerunLog.id!, {
+          total_files_processed: states.length,
+          files_created: succeeded,
+          files_failed: 0
+        });
+      } else {
+        await SchedulerLogService.markFailed(rerunLog.id!, `Job rerun from ${nodeId} failed: ${succeeded}/${states.length} jobs successful`, { date, results: states });
+      }
+    }
+  }).catch(async (error) => {
+    console.error(`❌ Job rerun from ${nodeId} error:`, error);
+    if (rerunLog) {
+      await SchedulerLogService.markFailed(rerunLog.id!, error instanceof Error ? error.message : 'Unknown error', error);
+    }
+  }).finally(() => {
+    jobRerunActive = false;
+  });
+
+  return {
+    success: true,
+    message: `Rerunning ${nodes.length} job(s) for ${date}`,
+    nodes,
+    ...(logEntry?.id ? { logId: logEntry.id } : {})
+  };
+}
+
+// Hanya node yang membaca DT langsung: tanggalnya dipilih dari daftar DT file yang bisa dibatasi per tanggal.
+// Node turunan (IDX, sector, inventory, ...) ikut di-invalidate lewat manifest pada mode overwrite.
+function getBackfillTarget(feature: string): BackfillTarget | null {
+  const node = jobGraph.getNode(feature);
+  if (!node || !node.inputs.includes(SOURCE_DATASET)) return null;
+  return {
+    feature: node.id,
+    name: node.name,
+    datasets: node.outputs.filter(output => DATASET_GRAPH[output]),
+    run: (triggeredBy) => node.run({ triggeredBy, manual: true })
+  };
+}
+
+/**
+ * Kalkulator yang bisa di-backfill untuk rentang tanggal historis
+ */
+export function getBackfillFeatures() {
+  return jobGraph.listNodes()
+    .filter(node => getBackfillTarget(node.id) !== null)
+    .map(node => ({ feature: node.id, name: node.name, phaseId: node.phaseId }));
+}
+
+export async function startBackfill(feature: string, request: BackfillRequest): Promise<BackfillJob> {
+  const target = getBackfillTarget(feature);
+  if (!target) {
+    throw new BackfillValidationError(`Feature ${feature} does not support backfill`);
+  }
+  return backfillRunner.start(target, request);
+}
+
+export async function resumeBackfill(jobId: string, triggeredBy: string): Promise<BackfillJob> {
+  const job = await backfillRunner.getJob(jobId);
+  const target = job ? getBackfillTarget(job.feature) : null;
+  if (!job || !target) {
+    throw new BackfillValidationError(job ? `Feature ${job.feature} does not support backfill` : `Backfill job not found: ${jobId}`);
+  }
+  return backfillRunner.resume(jobId, target, triggeredBy);
+}
+
+export async function getBackfillJobs(limit?: number) {
+  return {
+    activeJobId: backfillRunner.getActiveJobId(),
+    jobs: await backfillRunner.listJobs(limit)
+  };
+}
+
+export async function getBackfillJob(jobId: string): Promise<BackfillJob | null> {
+  return backfillRunner.getJob(jobId);
+}
+
 /**
  * Start the scheduler
  */
@@ -2370,9 +2292,9 @@ export function startScheduler(): void {
       console.log(`🕐 Start Time: ${new Date(phaseStartTime).toISOString()}`);
       console.log(`📋 Phase: Input Daily (Emiten List, Stock, Index, Done Summary) - 7 days`);
 
-      // Skip if weekend
-      if (isWeekend()) {
-        console.log('📅 Weekend detected - skipping Phase 1a Input Daily (no market data available)');
+      // Skip if weekend / IDX holiday
+      if (await isNonTradingDay()) {
+        console.log('📅 Non-trading day (weekend/IDX holiday) - skipping Phase 1a Input Daily (no market data available)');
         phaseStatus['phase1a_input_daily'] = 'idle';
         return;
       }
@@ -2535,14 +2457,24 @@ export function startScheduler(): void {
         // Cleanup after Phase 1a Input Daily
         await aggressiveMemoryCleanup();
 
+        // Validasi data mentah sebelum Phase 2-8; cek critical menahan phase berikutnya
+        let qualityPassed = true;
+        if (successCount >= Math.ceil(totalTasks * 0.67)) {
+          const quality = await runDataQualityValidation(null, 'Phase 1a Input Daily');
+          qualityPassed = quality.passed;
+          console.log(`${quality.passed ? '✅' : '🚨'} ${quality.message}`);
+        }
+
         // Trigger Phase 2 automatically if Phase 1 succeeded and Phase 2 is enabled
         // Phase 2 will be triggered from scheduled Phase 1, so no manualTriggeredBy needed
-        if (successCount >= Math.ceil(totalTasks * 0.67) && phaseEnabled['phase2_market_rotation']) { // Trigger Phase 2 if at least ~2/3 succeed
+        if (successCount >= Math.ceil(totalTasks * 0.67) && qualityPassed && phaseEnabled['phase2_market_rotation']) { // Trigger Phase 2 if at least ~2/3 succeed
           console.log('🔄 Triggering Phase 2 Market Rotation calculations...');
           await runPhase2MarketRotationCalculations();
         } else {
           if (!phaseEnabled['phase2_market_rotation']) {
             console.log('⚠️ Skipping Phase 2 - Phase 2 is disabled');
+          } else if (!qualityPassed) {
+            console.log('⚠️ Holding Phase 2-8 - critical data quality checks failed (see data_quality/reports)');
           } else {
             console.log('⚠️ Skipping Phase 2 due to insufficient Phase 1 success rate');
           }
@@ -2885,9 +2817,9 @@ function scheduleResizeBeforeWebhook(): void {
 
   // Schedule webhook trigger
   resizeBeforeWebhookTask = cron.schedule(resizeCron, async () => {
-    // Check if weekend skip is enabled
-    if (SCHEDULER_CONFIG.WEEKEND_SKIP && isWeekend()) {
-      console.log('📅 Weekend detected - skipping resize-before webhook trigger');
+    // Check if weekend skip is enabled (berlaku juga untuk libur bursa)
+    if (SCHEDULER_CONFIG.WEEKEND_SKIP && await isNonTradingDay()) {
+      console.log('📅 Non-trading day (weekend/IDX holiday) - skipping resize-before webhook trigger');
       return;
     }
 
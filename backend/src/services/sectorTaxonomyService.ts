@@ -0,0 +1,406 @@
+// sectorTaxonomyService.ts
+// Satu sumber klasifikasi emiten (IDX-IC: sector -> sub-sector -> industry) untuk route & calculator
+//
+// Sumber: csv_input/sector_mapping.csv
+//   sector,emiten,sub_sector,industry
+// Dua kolom pertama tetap sama dengan format lama, jadi reader lama (sector,emiten) tidak terganggu.
+// Ticker yang tidak ada di mapping masuk bucket "Unclassified" - tidak lagi di-hash ke sektor acak.
+
+import { downloadText, uploadText, listPaths, deletePath, exists } from '../utils/azureBlob';
+import { stockCache } from '../cache/stockCacheService';
+
+export const SECTOR_MAPPING_PATH = 'csv_input/sector_mapping.csv';
+export const UNCLASSIFIED_SECTOR = 'Unclassified';
+
+// IDX-IC level 1
+export const IDX_IC_SECTORS = [
+  'Basic Materials',
+  'Consumer Cyclicals',
+  'Consumer Non-Cyclicals',
+  'Energy',
+  'Financials',
+  'Healthcare',
+  'Industrials',
+  'Infrastructures',
+  'Properties & Real Estate',
+  'Technology',
+  'Transportation & Logistic'
+];
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+// Admin biasanya mengedit beberapa ticker sekaligus; recompute digabung jadi satu run
+const RECOMPUTE_DEBOUNCE_MS = 2 * 60 * 1000;
+
+export interface SectorClassification {
+  ticker: string;
+  sector: string;
+  subSector: string;
+  industry: string;
+}
+
+export interface SectorTaxonomyNode {
+  sector: string;
+  tickerCount: number;
+  subSectors: Array<{
+    name: string;
+    industries: Array<{ name: string; tickers: string[] }>;
+  }>;
+}
+
+export interface SectorRecomputeStatus {
+  scheduledAt: string | null;
+  running: boolean;
+  lastRunAt: string | null;
+  lastError: string | null;
+}
+
+export class SectorTaxonomyValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SectorTaxonomyValidationError';
+  }
+}
+
+function parseCsvLine(line: string): string[] {
+  const result: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      result.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  result.push(current.trim());
+  return result;
+}
+
+const csvValue = (value: string): string => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export class SectorTaxonomyService {
+  private classifications = new Map<string, SectorClassification>();
+  // ticker -> path file stock yang benar-benar ada (termasuk file lama hasil hash fallback)
+  private stockPaths = new Map<string, string>();
+  private loadedAt = 0;
+  // Error load terakhir sector_mapping.csv; selama ada, save() menolak menulis agar file tidak tertimpa mapping parsial
+  private mappingLoadError: string | null = null;
+  private loading: Promise<void> | null = null;
+  private recomputeTimer: NodeJS.Timeout | null = null;
+  private recomputeStatus: SectorRecomputeStatus = { scheduledAt: null, running: false, lastRunAt: null, lastError: null };
+
+  async load(force = false): Promise<void> {
+    if (!force && this.loadedAt > 0 && Date.now() - this.loadedAt < CACHE_TTL_MS) return;
+    if (this.loading) return this.loading;
+
+    this.loading = this.doLoad().finally(() => {
+      this.loading = null;
+    });
+    return this.loading;
+  }
+
+  invalidate(): void {
+    this.loadedAt = 0;
+  }
+
+  async getClassification(ticker: string): Promise<SectorClassification> {
+    await this.load();
+    const code = ticker.trim().toUpperCase();
+    return this.classifications.get(code) || { ticker: code, sector: UNCLASSIFIED_SECTOR, subSector: '', industry: '' };
+  }
+
+  async getSector(ticker: string): Promise<string> {
+    return (await this.getClassification(ticker)).sector;
+  }
+
+  async listClassifications(): Promise<SectorClassification[]> {
+    await this.load();
+    return Array.from(this.classifications.values()).sort((a, b) => a.ticker.localeCompare(b.ticker));
+  }
+
+  /**
+   * sector -> tickers (hanya ticker yang terklasifikasi)
+   */
+  async getSectorMapping(): Promise<Record<string, string[]>> {
+    await this.load();
+    const mapping: Record<string, string[]> = {};
+    for (const item of this.classifications.values()) {
+      (mapping[item.sector] ||= []).push(item.ticker);
+    }
+    Object.values(mapping).forEach(tickers => tickers.sort());
+    return mapping;
+  }
+
+  async getTaxonomy(): Promise<SectorTaxonomyNode[]> {
+    await this.load();
+    const tree = new Map<string, Map<string, Map<string, string[]>>>();
+    for (const item of this.classifications.values()) {
+      const subSectors = tree.get(item.sector) || new Map<string, Map<string, string[]>>();
+      tree.set(item.sector, subSectors);
+      const industries = subSectors.get(item.subSector) || new Map<string, string[]>();
+      subSectors.set(item.subSector, industries);
+      const tickers = industries.get(item.industry) || [];
+      industries.set(item.industry, tickers);
+      tickers.push(item.ticker);
+    }
+
+    return Array.from(tree.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([sector, subSectors]) => {
+        let tickerCount = 0;
+        const subSectorNodes = Array.from(subSectors.entries())
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([name, industries]) => ({
+            name,
+            industries: Array.from(industries.entries())
+              .sort(([a], [b]) => a.localeCompare(b))
+              .map(([industryName, tickers]) => {
+                tickerCount += tickers.length;
+                return { name: industryName, tickers: tickers.sort() };
+              })
+          }));
+        return { sector, tickerCount, subSectors: subSectorNodes };
+      });
+  }
+
+  /**
+   * Ticker yang punya file stock tapi belum ada di mapping
+   */
+  async getUnclassifiedTickers(): Promise<string[]> {
+    await this.load();
+    return Array.from(this.stockPaths.keys())
+      .filter(ticker => !this.classifications.has(ticker))
+      .sort();
+  }
+
+  /**
+   * Path file OHLC untuk ticker. File yang sudah ada dipakai apa adanya (termasuk yang dulu
+   * ditaruh hash fallback di folder sektor lain); kalau belum ada, pakai folder sektor hasil klasifikasi.
+   */
+  async resolveStockPath(ticker: string): Promise<string> {
+    await this.load();
+    const code = ticker.trim().toUpperCase();
+    const existing = this.stockPaths.get(code);
+    if (existing) return existing;
+    const sector = this.classifications.get(code)?.sector || UNCLASSIFIED_SECTOR;
+    return `stock/${sector}/${code}.csv`;
+  }
+
+  /**
+   * Set / ubah klasifikasi ticker. File stock dipindah ke folder sektor baru dan
+   * calculator level sektor dijadwalkan ulang jika sektornya berubah.
+   */
+  async setClassification(
+    ticker: string,
+    input: { sector: string; subSector?: string; industry?: string },
+    triggeredBy: string
+  ): Promise<{ previous: SectorClassification; current: SectorClassification; relocatedFrom: string | null }> {
+    const code = ticker.trim().toUpperCase();
+    if (!/^[A-Z0-9]{2,6}$/.test(code)) {
+      throw new SectorTaxonomyValidationError(`Invalid ticker: ${ticker}`);
+    }
+    const sector = IDX_IC_SECTORS.find(name => name.toLowerCase() === input.sector.trim().toLowerCase());
+    if (!sector) {
+      throw new SectorTaxonomyValidationError(`Unknown sector "${input.sector}". Valid sectors: ${IDX_IC_SECTORS.join(', ')}`);
+    }
+
+    await this.load(true);
+    const previous = await this.getClassification(code);
+    const current: SectorClassification = {
+      ticker: code,
+      sector,
+      subSector: (input.subSector || '').trim(),
+      industry: (input.industry || '').trim()
+    };
+
+    this.classifications.set(code, current);
+    await this.save();
+    const relocatedFrom = await this.relocateStockFile(code, sector);
+
+    if (previous.sector !== current.sector) {
+      this.scheduleSectorRecompute(triggeredBy);
+    }
+    return { previous, current, relocatedFrom };
+  }
+
+  /**
+   * Hapus ticker dari mapping -> kembali ke bucket Unclassified
+   */
+  async removeClassification(ticker: string, triggeredBy: string): Promise<SectorClassification | null> {
+    const code = ticker.trim().toUpperCase();
+    await this.load(true);
+    const previous = this.classifications.get(code) || null;
+    if (!previous) return null;
+
+    this.classifications.delete(code);
+    await this.save();
+    await this.relocateStockFile(code, UNCLASSIFIED_SECTOR);
+    this.scheduleSectorRecompute(triggeredBy);
+    return previous;
+  }
+
+  /**
+   * Jadwalkan recompute calculator level sektor (debounced)
+   */
+  scheduleSectorRecompute(triggeredBy: string, delayMs: number = RECOMPUTE_DEBOUNCE_MS): void {
+    if (this.recomputeTimer) clearTimeout(this.recomputeTimer);
+    this.recomputeStatus.scheduledAt = new Date(Date.now() + delayMs).toISOString();
+    this.recomputeTimer = setTimeout(() => {
+      this.recomputeTimer = null;
+      this.recomputeStatus.scheduledAt = null;
+      this.runSectorRecompute(triggeredBy).catch(error => {
+        console.error('❌ Sector recompute failed:', error);
+      });
+    }, delayMs);
+  }
+
+  getRecomputeStatus(): SectorRecomputeStatus {
+    return { ...this.recomputeStatus };
+  }
+
+  /**
+   * Jalankan ulang semua output yang bergantung pada komposisi sektor.
+   * Masing-masing calculator membuat log scheduler sendiri.
+   */
+  async runSectorRecompute(triggeredBy: string): Promise<void> {
+    if (this.recomputeStatus.running) {
+      console.log('⚠️ Sector recompute already running, rescheduling');
+      this.scheduleSectorRecompute(triggeredBy);
+      return;
+    }
+
+    this.recomputeStatus.running = true;
+    this.recomputeStatus.lastError = null;
+    const label = `Sector mapping change (${triggeredBy})`;
+    console.log(`🔄 Sector recompute started - ${label}`);
+
+    try {
+      // Import lazy: calculator sektor sendiri memakai service ini (hindari circular import)
+      const { preGenerateAllRRG } = await import('./rrgDataScheduler');
+      const { generateSectorSeasonalityOnly } = await import('./seasonalityDataScheduler');
+      const { BrokerSummarySectorDataScheduler } = await import('./brokerSummarySectorDataScheduler');
+      const { BrokerTransactionStockSectorDataScheduler } = await import('./brokerTransactionStockSectorDataScheduler');
+
+      await preGenerateAllRRG(true, 'manual', null, label);
+      await generateSectorSeasonalityOnly();
+      await new BrokerSummarySectorDataScheduler().generateBrokerSummarySectorData('all', null, label);
+      await new BrokerTransactionStockSectorDataScheduler().generateBrokerTransactionStockSectorData('all', null, label);
+      console.log('✅ Sector recompute completed');
+    } catch (error: any) {
+      this.recomputeStatus.lastError = error?.message || String(error);
+      throw error;
+    } finally {
+      this.recomputeStatus.running = false;
+      this.recomputeStatus.lastRunAt = new Date().toISOString();
+    }
+  }
+
+  private async doLoad(): Promise<void> {
+    let classifications: Map<string, SectorClassification> | null = new Map();
+    try {
+      const content = await downloadText(SECTOR_MAPPING_PATH);
+      const lines = content.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+      const header = parseCsvLine((lines[0] || '').replace(/^\uFEFF/, '')).map(h => h.toLowerCase());
+      const sectorIdx = header.indexOf('sector') >= 0 ? header.indexOf('sector') : 0;
+      const emitenIdx = header.indexOf('emiten') >= 0 ? header.indexOf('emiten') : 1;
+      const subSectorIdx = header.indexOf('sub_sector');
+      const industryIdx = header.indexOf('industry');
+
+      for (let i = 1; i < lines.length; i++) {
+        const values = parseCsvLine(lines[i]!);
+        const sector = values[sectorIdx] || '';
+        const ticker = (values[emitenIdx] || '').toUpperCase();
+        if (!sector || !ticker || sector === UNCLASSIFIED_SECTOR) continue;
+        classifications!.set(ticker, {
+          ticker,
+          sector,
+          subSector: subSectorIdx >= 0 ? values[subSectorIdx] || '' : '',
+          industry: industryIdx >= 0 ? values[industryIdx] || '' : ''
+        });
+      }
+    } catch (error) {
+      if (await this.isMappingMissing()) {
+        // Belum ada mapping: semua ticker jatuh ke Unclassified, bukan ke sektor acak
+        console.warn('⚠️ Sector mapping not found, all tickers treated as Unclassified');
+      } else {
+        // Gagal baca sementara: pakai mapping sebelumnya, jangan anggap kosong
+        classifications = null;
+        this.mappingLoadError = error instanceof Error ? error.message : String(error);
+        console.error('❌ Could not load sector mapping, keeping previous classifications:', error);
+      }
+    }
+
+    let stockPaths: Map<string, string> | null = new Map();
+    try {
+      const files = await listPaths({ prefix: 'stock/' });
+      for (const file of files) {
+        const parts = file.split('/');
+        if (parts.length !== 3 || !parts[2]?.endsWith('.csv')) continue;
+        stockPaths!.set(parts[2].replace('.csv', '').toUpperCase(), file);
+      }
+    } catch (error) {
+      stockPaths = null;
+      console.warn('⚠️ Could not list stock files for sector taxonomy:', error);
+    }
+
+    if (stockPaths) this.stockPaths = stockPaths;
+    if (classifications) {
+      this.classifications = classifications;
+      this.mappingLoadError = null;
+      this.loadedAt = Date.now();
+    } else {
+      // Tidak di-cache: request berikutnya mencoba load lagi
+      this.loadedAt = 0;
+    }
+  }
+
+  private async isMappingMissing(): Promise<boolean> {
+    try {
+      return !(await exists(SECTOR_MAPPING_PATH));
+    } catch {
+      return false;
+    }
+  }
+
+  private async save(): Promise<void> {
+    if (this.mappingLoadError) {
+      throw new Error(`Sector mapping could not be loaded (${this.mappingLoadError}); refusing to overwrite ${SECTOR_MAPPING_PATH}`);
+    }
+    const rows = Array.from(this.classifications.values())
+      .sort((a, b) => a.sector.localeCompare(b.sector) || a.ticker.localeCompare(b.ticker))
+      .map(item => [item.sector, item.ticker, item.subSector, item.industry].map(csvValue).join(','));
+    await uploadText(SECTOR_MAPPING_PATH, ['sector,emiten,sub_sector,industry', ...rows].join('\n'));
+  }
+
+  /**
+   * Pindahkan stock/{lama}/X.csv ke stock/{sector}/X.csv. Return path lama jika dipindah.
+   */
+  private async relocateStockFile(ticker: string, sector: string): Promise<string | null> {
+    const currentPath = this.stockPaths.get(ticker);
+    const targetPath = `stock/${sector}/${ticker}.csv`;
+    if (!currentPath || currentPath === targetPath) return null;
+
+    const content = await downloadText(currentPath);
+    await uploadText(targetPath, content);
+    await deletePath(currentPath);
+    this.stockPaths.set(ticker, targetPath);
+    stockCache.clearStock(currentPath.split('/')[1] || '', ticker);
+    console.log(`📦 Moved ${currentPath} -> ${targetPath}`);
+    return currentPath;
+  }
+}
+
+export const sectorTaxonomy: SectorTaxonomyService = new SectorTaxonomyService();
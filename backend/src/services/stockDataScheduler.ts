@@ -14,98 +14,8 @@ import {
   MAX_CONCURRENT_REQUESTS_PHASE_1_STOCK
 } from './dataUpdateService';
 import { SchedulerLogService } from './schedulerLogService';
-
-// Sector mapping cache - loaded from csv_input/sector_mapping.csv
-const SECTOR_MAPPING: { [key: string]: string[] } = {};
-
-function getSectorForEmiten(emiten: string): string {
-  // Check if emiten already exists in mapping
-  for (const [sector, emitens] of Object.entries(SECTOR_MAPPING)) {
-    if (emitens.includes(emiten)) {
-      return sector;
-    }
-  }
-
-  // If not found, distribute based on hash (same logic as stock.ts)
-  const sectors = Object.keys(SECTOR_MAPPING);
-  if (sectors.length === 0) {
-    return 'Technology'; // Default fallback
-  }
-
-  const hash = emiten.split('').reduce((a, b) => {
-    a = ((a << 5) - a) + b.charCodeAt(0);
-    return a & a;
-  }, 0);
-
-  return sectors[Math.abs(hash) % sectors.length] || 'Technology';
-}
-
-async function buildSectorMappingFromCsv(azureStorage: OptimizedAzureStorageService): Promise<void> {
-  console.log('🔍 Building sector mapping from csv_input/sector_mapping.csv...');
-
-  try {
-    // Load sector mapping from CSV
-    const sectorMappingCsvData = await azureStorage.downloadCsvData('csv_input/sector_mapping.csv');
-    const sectorMappingLines = sectorMappingCsvData.split('\n')
-      .map(line => line.trim())
-      .filter(line => line && line.length > 0);
-
-    // Clear existing mapping
-    Object.keys(SECTOR_MAPPING).forEach(sector => {
-      SECTOR_MAPPING[sector] = [];
-    });
-
-    // Parse CSV data (skip header)
-    for (let i = 1; i < sectorMappingLines.length; i++) {
-      const line = sectorMappingLines[i];
-      if (!line) continue;
-
-      const values = line.split(',');
-      if (values.length >= 2) {
-        const sector = values[0]?.trim() || '';
-        const emiten = values[1]?.trim() || '';
-
-        if (sector && emiten) {
-          if (!SECTOR_MAPPING[sector]) {
-            SECTOR_MAPPING[sector] = [];
-          }
-          SECTOR_MAPPING[sector].push(emiten);
-        }
-      }
-    }
-
-    console.log('📊 Sector mapping built successfully from CSV');
-    console.log(`📊 Found ${Object.keys(SECTOR_MAPPING).length} sectors with total ${Object.values(SECTOR_MAPPING).flat().length} emitens`);
-
-    // Log sector breakdown
-    Object.entries(SECTOR_MAPPING).forEach(([sector, emitens]) => {
-      console.log(`📊 ${sector}: ${emitens.length} emitens`);
-    });
-
-  } catch (error) {
-    console.warn('⚠️ Could not build sector mapping from CSV:', error);
-    console.log('⚠️ Using default sector mapping');
-
-    // Initialize with default sectors
-    const defaultSectors = [
-      'Basic Materials',
-      'Consumer Cyclicals',
-      'Consumer Non-Cyclicals',
-      'Energy',
-      'Financials',
-      'Healthcare',
-      'Industrials',
-      'Infrastructures',
-      'Properties & Real Estate',
-      'Technology',
-      'Transportation & Logistic'
-    ];
-
-    defaultSectors.forEach(sector => {
-      SECTOR_MAPPING[sector] = [];
-    });
-  }
-}
+import { sectorTaxonomy } from './sectorTaxonomyService';
+import { tradingCalendar } from './tradingCalendarService';
 
 // Get list of emitens from csv_input/emiten_list.csv
 async function getEmitenListFromCsv(azureStorage: OptimizedAzureStorageService): Promise<string[]> {
@@ -177,8 +87,8 @@ async function processEmiten(
       }
     }
 
-    const sector = getSectorForEmiten(emiten);
-    const azureBlobName = `stock/${sector}/${emiten}.csv`;
+    // Ticker tanpa klasifikasi ditulis ke stock/Unclassified/ (bukan sektor acak)
+    const azureBlobName = await sectorTaxonomy.resolveStockPath(emiten);
 
     // Calculate 7 days ago date
     const sevenDaysAgo = new Date(todayDate);
@@ -198,14 +108,9 @@ async function processEmiten(
       existingData = await parseCsvString(existingCsvData);
     }
 
-    // Generate all dates in the past 7 days range
-    const requiredDates: string[] = [];
-    for (let d = new Date(sevenDaysAgoDate); d <= new Date(todayDate); d.setDate(d.getDate() + 1)) {
-      const dateStr = d.toISOString().split('T')[0];
-      if (dateStr) {
-        requiredDates.push(dateStr);
-      }
-    }
+    // Hari bursa dalam 7 hari terakhir (weekend/libur bursa tidak pernah punya data)
+    const requiredDates = (await tradingCalendar.tradingDaysBetween(sevenDaysAgoDate, todayDate))
+      .map(date => `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}`);
 
     // Check which dates are missing
     const existingDates = new Set(
@@ -358,12 +263,9 @@ async function processEmiten(
 
 // Main update function
 export async function updateStockData(logId?: string | null, triggeredBy?: string): Promise<void> {
-  // Skip if weekend
-  const today = new Date();
-  const dayOfWeek = today.getDay();
-
-  if ((dayOfWeek === 0 || dayOfWeek === 6) && triggeredBy !== 'manual_force') {
-    console.log('📅 Weekend detected - skipping Stock Data update (no market data available)');
+  // Skip if weekend / IDX holiday
+  if (!(await tradingCalendar.isTradingDay()) && triggeredBy !== 'manual_force') {
+    console.log('📅 Non-trading day (weekend/IDX holiday) - skipping Stock Data update (no market data available)');
     return;
   }
 
@@ -392,11 +294,11 @@ export async function updateStockData(logId?: string | null, triggeredBy?: strin
     const azureStorage = new OptimizedAzureStorageService();
     await azureStorage.ensureContainerExists();
 
-    await buildSectorMappingFromCsv(azureStorage);
-    console.log('ℹ️ Sector mapping built from CSV');
+    await sectorTaxonomy.load(true);
+    console.log('ℹ️ Sector taxonomy loaded');
 
     // Get list of emitens from sector mapping (all emitens from all sectors)
-    const sectorEmitens = Object.values(SECTOR_MAPPING).flat();
+    const sectorEmitens = Object.values(await sectorTaxonomy.getSectorMapping()).flat();
 
     // Get list of emitens from emiten_list.csv
     const csvEmitens = await getEmitenListFromCsv(azureStorage);
@@ -0,0 +1,278 @@
+// tradingCalendarService.ts
+// Kalender bursa IDX: weekend + daftar libur bursa (termasuk cuti bersama) + half day
+//
+// Sumber: csv_input/trading_calendar.json -> { holidays, halfDays, updatedAt, updatedBy }
+// Diedit dari developer dashboard. Selama file belum ada, dipakai libur bertanggal tetap
+// (tahun lalu s/d tahun depan); libur yang tanggalnya bergeser (Imlek, Nyepi, Idul Fitri,
+// Waisak, cuti bersama, dst.) mengikuti pengumuman IDX tiap tahun dan harus diisi manual.
+// Semua tanggal YYYYMMDD, dihitung pada zona waktu bursa (Asia/Jakarta).
+
+import { downloadText, uploadText, exists } from '../utils/azureBlob';
+
+export const TRADING_CALENDAR_PATH = 'csv_input/trading_calendar.json';
+export const EXCHANGE_TIMEZONE = 'Asia/Jakarta';
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+// Libur terpanjang (Idul Fitri + cuti bersama + weekend) tidak lebih dari ~11 hari
+const MAX_NON_TRADING_STREAK = 31;
+const MAX_RANGE_DAYS = 3 * 366;
+
+const FIXED_HOLIDAYS: Array<{ monthDay: string; description: string }> = [
+  { monthDay: '0101', description: 'Tahun Baru Masehi' },
+  { monthDay: '0501', description: 'Hari Buruh Internasional' },
+  { monthDay: '0601', description: 'Hari Lahir Pancasila' },
+  { monthDay: '0817', description: 'Hari Kemerdekaan RI' },
+  { monthDay: '1225', description: 'Hari Raya Natal' },
+  { monthDay: '1231', description: 'Libur Bursa akhir tahun' }
+];
+
+export interface MarketHoliday {
+  date: string;
+  description: string;
+}
+
+export interface HalfDay {
+  date: string;
+  /** Jam tutup perdagangan hari itu (HH:MM WIB) */
+  closeTime: string;
+  description: string;
+}
+
+export interface TradingCalendarData {
+  holidays: MarketHoliday[];
+  halfDays: HalfDay[];
+  updatedAt: string | null;
+  updatedBy: string | null;
+}
+
+export class TradingCalendarValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TradingCalendarValidationError';
+  }
+}
+
+/** 'YYYY-MM-DD' atau 'YYYYMMDD' -> 'YYYYMMDD' ('' jika tidak valid) */
+export function toCompactDate(value: string): string {
+  const compact = (value || '').trim().slice(0, 10).replace(/-/g, '');
+  if (!/^\d{8}$/.test(compact)) return '';
+  const date = new Date(Date.UTC(+compact.slice(0, 4), +compact.slice(4, 6) - 1, +compact.slice(6, 8)));
+  return date.toISOString().slice(0, 10).replace(/-/g, '') === compact ? compact : '';
+}
+
+/** Tanggal hari ini (YYYYMMDD) di zona waktu bursa */
+export function todayInExchangeTimezone(timezone: string = EXCHANGE_TIMEZONE): string {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).formatToParts(new Date());
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+  return `${part('year')}${part('month')}${part('day')}`;
+}
+
+const toUtcDate = (compact: string) => new Date(Date.UTC(+compact.slice(0, 4), +compact.slice(4, 6) - 1, +compact.slice(6, 8)));
+const fromUtcDate = (date: Date) => date.toISOString().slice(0, 10).replace(/-/g, '');
+
+function defaultCalendar(): TradingCalendarData {
+  const year = new Date().getUTCFullYear();
+  const holidays: MarketHoliday[] = [];
+  for (const y of [year - 1, year, year + 1]) {
+    FIXED_HOLIDAYS.forEach(holiday => holidays.push({ date: `${y}${holiday.monthDay}`, description: holiday.description }));
+  }
+  return { holidays, halfDays: [], updatedAt: null, updatedBy: null };
+}
+
+export class TradingCalendarService {
+  private calendar: TradingCalendarData = defaultCalendar();
+  private holidayDates = new Set<string>();
+  private loadedAt = 0;
+  private loading: Promise<void> | null = null;
+
+  constructor() {
+    // Pemakaian sync sebelum load pertama tetap mengenali libur bertanggal tetap, bukan hanya weekend
+    this.apply(defaultCalendar());
+    this.loadedAt = 0;
+  }
+
+  async load(force = false): Promise<void> {
+    if (!force && this.loadedAt > 0 && Date.now() - this.loadedAt < CACHE_TTL_MS) return;
+    if (this.loading) return this.loading;
+
+    this.loading = this.doLoad().finally(() => {
+      this.loading = null;
+    });
+    return this.loading;
+  }
+
+  async getCalendar(): Promise<TradingCalendarData> {
+    await this.load();
+    return {
+      ...this.calendar,
+      holidays: [...this.calendar.holidays],
+      halfDays: [...this.calendar.halfDays]
+    };
+  }
+
+  /**
+   * Ganti seluruh daftar libur dan half day
+   */
+  async update(input: { holidays: unknown; halfDays?: unknown }, updatedBy: string): Promise<TradingCalendarData> {
+    const holidays = this.validateHolidays(input.holidays);
+    const halfDays = this.validateHalfDays(input.halfDays ?? []);
+    const holidaySet = new Set(holidays.map(holiday => holiday.date));
+    const clash = halfDays.find(halfDay => holidaySet.has(halfDay.date));
+    if (clash) {
+      throw new TradingCalendarValidationError(`${clash.date} cannot be both a holiday and a half day`);
+    }
+
+    const calendar: TradingCalendarData = { holidays, halfDays, updatedAt: new Date().toISOString(), updatedBy };
+    await uploadText(TRADING_CALENDAR_PATH, JSON.stringify(calendar, null, 2), 'application/json');
+    this.apply(calendar);
+    return this.getCalendar();
+  }
+
+  /**
+   * Hari bursa = bukan Sabtu/Minggu dan tidak ada di daftar libur. Tanpa argumen: hari ini (WIB).
+   */
+  async isTradingDay(date?: string): Promise<boolean> {
+    await this.load();
+    const compact = date ? toCompactDate(date) : todayInExchangeTimezone();
+    if (!compact) return false;
+    return this.isTradingDaySync(compact);
+  }
+
+  /**
+   * Hari bursa terakhir sebelum date (tidak termasuk date itu sendiri)
+   */
+  async previousTradingDay(date: string): Promise<string> {
+    await this.load();
+    const compact = toCompactDate(date);
+    if (!compact) {
+      throw new TradingCalendarValidationError(`Invalid date: ${date}`);
+    }
+    const cursor = toUtcDate(compact);
+    for (let i = 0; i < MAX_NON_TRADING_STREAK; i++) {
+      cursor.setUTCDate(cursor.getUTCDate() - 1);
+      const candidate = fromUtcDate(cursor);
+      if (this.isTradingDaySync(candidate)) return candidate;
+    }
+    throw new Error(`No trading day found within ${MAX_NON_TRADING_STREAK} days before ${compact}`);
+  }
+
+  /**
+   * Semua hari bursa dari from s/d to (inklusif), urut naik
+   */
+  async tradingDaysBetween(from: string, to: string): Promise<string[]> {
+    await this.load();
+    const start = toCompactDate(from);
+    const end = toCompactDate(to);
+    if (!start || !end) {
+      throw new TradingCalendarValidationError(`Invalid date range: ${from} - ${to}`);
+    }
+
+    const dates: string[] = [];
+    const cursor = toUtcDate(start);
+    for (let i = 0; i <= MAX_RANGE_DAYS; i++) {
+      const candidate = fromUtcDate(cursor);
+      if (candidate > end) break;
+      if (this.isTradingDaySync(candidate)) dates.push(candidate);
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+    }
+    return dates;
+  }
+
+  /**
+   * count hari bursa terakhir s/d date (inklusif jika date hari bursa), urut naik
+   */
+  async lastTradingDays(date: string, count: number): Promise<string[]> {
+    await this.load();
+    const compact = toCompactDate(date);
+    if (!compact) {
+      throw new TradingCalendarValidationError(`Invalid date: ${date}`);
+    }
+
+    const dates: string[] = [];
+    const cursor = toUtcDate(compact);
+    for (let scanned = 0; dates.length < count && scanned < count * 2 + MAX_NON_TRADING_STREAK; scanned++) {
+      const candidate = fromUtcDate(cursor);
+      if (this.isTradingDaySync(candidate)) dates.push(candidate);
+      cursor.setUTCDate(cursor.getUTCDate() - 1);
+    }
+    return dates.reverse();
+  }
+
+  async getHalfDay(date: string): Promise<HalfDay | null> {
+    await this.load();
+    const compact = toCompactDate(date);
+    return this.calendar.halfDays.find(halfDay => halfDay.date === compact) || null;
+  }
+
+  private isTradingDaySync(compact: string): boolean {
+    const day = toUtcDate(compact).getUTCDay();
+    return day !== 0 && day !== 6 && !this.holidayDates.has(compact);
+  }
+
+  private validateHolidays(value: unknown): MarketHoliday[] {
+    if (!Array.isArray(value)) {
+      throw new TradingCalendarValidationError('holidays must be an array');
+    }
+    const byDate = new Map<string, MarketHoliday>();
+    value.forEach((item: any, index) => {
+      const date = toCompactDate(String(item?.date ?? ''));
+      if (!date) {
+        throw new TradingCalendarValidationError(`holidays[${index}].date must be YYYYMMDD or YYYY-MM-DD`);
+      }
+      byDate.set(date, { date, description: String(item?.description ?? '').trim() });
+    });
+    return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  private validateHalfDays(value: unknown): HalfDay[] {
+    if (!Array.isArray(value)) {
+      throw new TradingCalendarValidationError('halfDays must be an array');
+    }
+    const byDate = new Map<string, HalfDay>();
+    value.forEach((item: any, index) => {
+      const date = toCompactDate(String(item?.date ?? ''));
+      if (!date) {
+        throw new TradingCalendarValidationError(`halfDays[${index}].date must be YYYYMMDD or YYYY-MM-DD`);
+      }
+      const closeTime = String(item?.closeTime ?? '').trim();
+      if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(closeTime)) {
+        throw new TradingCalendarValidationError(`halfDays[${index}].closeTime must be HH:MM`);
+      }
+      byDate.set(date, { date, closeTime, description: String(item?.description ?? '').trim() });
+    });
+    return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  private async doLoad(): Promise<void> {
+    try {
+      if (await exists(TRADING_CALENDAR_PATH)) {
+        const parsed = JSON.parse(await downloadText(TRADING_CALENDAR_PATH));
+        this.apply({
+          holidays: this.validateHolidays(parsed?.holidays ?? []),
+          halfDays: this.validateHalfDays(parsed?.halfDays ?? []),
+          updatedAt: parsed?.updatedAt ?? null,
+          updatedBy: parsed?.updatedBy ?? null
+        });
+      } else {
+        this.apply(defaultCalendar());
+      }
+    } catch (error) {
+      // File rusak: tetap jalan dengan kalender terakhir yang berhasil dibaca (minimal weekend)
+      console.error(`❌ Failed to load ${TRADING_CALENDAR_PATH}, keeping previous calendar:`, error);
+      this.loadedAt = Date.now();
+    }
+  }
+
+  private apply(calendar: TradingCalendarData): void {
+    this.calendar = calendar;
+    this.holidayDates = new Set(calendar.holidays.map(holiday => holiday.date));
+    this.loadedAt = Date.now();
+  }
+}
+
+export const tradingCalendar: TradingCalendarService = new TradingCalendarService();
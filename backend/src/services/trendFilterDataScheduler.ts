@@ -1,5 +1,8 @@
 import TrendFilterCalculator from '../calculations/trend/trend_filter';
 import { SchedulerLogService } from './schedulerLogService';
+import { downloadText, exists } from '../utils/azureBlob';
+import { trendRuleSets } from './trendRuleSetService';
+import { DEFAULT_TREND_RULE_SET_ID, getTrendOutputPrefix } from '../calculations/trend/trend_rules';
 
 export class TrendFilterDataScheduler {
   private trendFilterCalculator: TrendFilterCalculator;
@@ -10,7 +13,11 @@ export class TrendFilterDataScheduler {
     this.trendFilterCalculator = new TrendFilterCalculator();
   }
 
-  public async generateTrendFilterData(logId?: string | null, triggeredBy?: string): Promise<{ success: boolean; message: string; data?: any }> {
+  /**
+   * Generate trend data untuk semua rule set (default + custom).
+   * ruleSetIds membatasi ke rule set tertentu, mis. setelah rule set custom disimpan.
+   */
+  public async generateTrendFilterData(logId?: string | null, triggeredBy?: string, ruleSetIds?: string[]): Promise<{ success: boolean; message: string; data?: any }> {
     if (this.isGenerating) {
       return {
         success: false,
@@ -51,7 +58,9 @@ export class TrendFilterDataScheduler {
         });
       }
 
-      await this.trendFilterCalculator.generateTrendFilterData(finalLogId);
+      const allRuleSets = await trendRuleSets.list();
+      const ruleSets = ruleSetIds ? allRuleSets.filter(ruleSet => ruleSetIds.includes(ruleSet.id)) : allRuleSets;
+      await this.trendFilterCalculator.generateTrendFilterData(finalLogId, ruleSets);
 
       this.lastGenerated = new Date();
       this.isGenerating = false;
@@ -69,6 +78,7 @@ export class TrendFilterDataScheduler {
         message: 'Trend filter data generated successfully',
         data: {
           generatedAt: this.lastGenerated,
+          ruleSets: ruleSets.map(ruleSet => ruleSet.id),
           status: 'completed'
         }
       };
@@ -93,29 +103,32 @@ export class TrendFilterDataScheduler {
     };
   }
 
-  public async getTrendFilterData(period?: string): Promise<{ success: boolean; data?: any; error?: string }> {
+  public async getTrendFilterData(requestedPeriod?: string, ruleSetId: string = DEFAULT_TREND_RULE_SET_ID): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const { BlobServiceClient } = await import('@azure/storage-blob');
-      const blobServiceClient = BlobServiceClient.fromConnectionString(
-        process.env['AZURE_STORAGE_CONNECTION_STRING'] || ''
-      );
-      const containerName = process.env['AZURE_STORAGE_CONTAINER_NAME'] || 'bandarmolony-data';
+      const ruleSet = await trendRuleSets.get(ruleSetId);
+      if (!ruleSet) {
+        return {
+          success: false,
+          error: `Trend rule set ${ruleSetId} not found`
+        };
+      }
 
-      const containerClient = blobServiceClient.getContainerClient(containerName);
+      // Default rule set tetap default ke 5D seperti sebelumnya; rule set custom ke periode pertamanya
+      const period = requestedPeriod
+        || (ruleSet.id === DEFAULT_TREND_RULE_SET_ID ? '5d' : ruleSet.periods[0]?.label);
+      const prefix = getTrendOutputPrefix(ruleSet.id);
 
       // Get summary data
-      const summaryBlobName = 'trend_output/trend-summary.csv';
-      const summaryBlobClient = containerClient.getBlobClient(summaryBlobName);
+      const summaryBlobName = `${prefix}trend-summary.csv`;
       
-      if (!(await summaryBlobClient.exists())) {
+      if (!(await exists(summaryBlobName))) {
         return {
           success: false,
           error: 'Trend summary data not found. Please generate data first.'
         };
       }
 
-      const summaryDownloadResponse = await summaryBlobClient.download();
-      const summaryContent = await this.streamToString(summaryDownloadResponse.readableStreamBody!);
+      const summaryContent = await downloadText(summaryBlobName);
       const summaryLines = summaryContent.trim().split('\n').slice(1);
       
       const summary: any = {};
@@ -139,18 +152,16 @@ export class TrendFilterDataScheduler {
       }
 
       // Get period data
-      const periodBlobName = `trend_output/o1-trend-${(period || '5d').toLowerCase()}.csv`;
-      const periodBlobClient = containerClient.getBlobClient(periodBlobName);
+      const periodBlobName = `${prefix}o1-trend-${(period || '5d').toLowerCase()}.csv`;
       
-      if (!(await periodBlobClient.exists())) {
+      if (!(await exists(periodBlobName))) {
         return {
           success: false,
           error: `Trend data for period ${period || '5d'} not found. Please generate data first.`
         };
       }
 
-      const periodDownloadResponse = await periodBlobClient.download();
-      const periodContent = await this.streamToString(periodDownloadResponse.readableStreamBody!);
+      const periodContent = await downloadText(periodBlobName);
       const periodLines = periodContent.trim().split('\n').slice(1);
       
       const stocks: any[] = [];
@@ -172,7 +183,8 @@ export class TrendFilterDataScheduler {
         data: {
           summary,
           stocks,
-          period: period || '5d'
+          period: period || '5d',
+          ruleSet: ruleSet.id
         }
       };
     } catch (error) {
@@ -183,19 +195,6 @@ export class TrendFilterDataScheduler {
       };
     }
   }
-
-  private async streamToString(readableStream: NodeJS.ReadableStream): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const chunks: any[] = [];
-      readableStream.on('data', (data) => {
-        chunks.push(data.toString());
-      });
-      readableStream.on('end', () => {
-        resolve(chunks.join(''));
-      });
-      readableStream.on('error', reject);
-    });
-  }
 }
 
 export default TrendFilterDataScheduler;
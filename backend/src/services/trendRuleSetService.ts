@@ -0,0 +1,147 @@
+// trendRuleSetService.ts
+// Penyimpanan rule set Trend Filter (definisi "uptrend" versi tim) sebagai JSON di storage
+//
+// Sumber: csv_input/trend_rule_sets.json -> array TrendRuleSet (tanpa rule set default).
+// Rule set default selalu dari kode (DEFAULT_TREND_RULE_SET) dan tidak bisa diubah/dihapus.
+
+import { downloadText, uploadText, exists, listPaths, deletePath } from '../utils/azureBlob';
+import {
+  DEFAULT_TREND_RULE_SET,
+  DEFAULT_TREND_RULE_SET_ID,
+  TrendRuleSet,
+  getTrendOutputPrefix
+} from '../calculations/trend/trend_rules';
+
+export const TREND_RULE_SETS_PATH = 'csv_input/trend_rule_sets.json';
+export const MAX_CUSTOM_RULE_SETS = 10;
+// Batas panjang periode: data stock harian yang disimpan tidak jauh lebih dari setahun
+export const MAX_TREND_PERIOD_DAYS = 250;
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+export class TrendRuleSetValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TrendRuleSetValidationError';
+  }
+}
+
+export class TrendRuleSetService {
+  private custom: TrendRuleSet[] = [];
+  private loadedAt = 0;
+  // Error load terakhir; selama ada, save/remove ditolak agar file tidak tertimpa daftar kosong
+  private loadError: string | null = null;
+
+  async list(): Promise<TrendRuleSet[]> {
+    await this.load();
+    return [DEFAULT_TREND_RULE_SET, ...this.custom];
+  }
+
+  async get(id: string): Promise<TrendRuleSet | null> {
+    if (id === DEFAULT_TREND_RULE_SET_ID) return DEFAULT_TREND_RULE_SET;
+    await this.load();
+    return this.custom.find(ruleSet => ruleSet.id === id) || null;
+  }
+
+  /**
+   * Create / replace rule set custom. Output lama tidak dihapus di sini -
+   * caller men-trigger generate ulang agar file periode yang baru terisi.
+   */
+  async save(ruleSet: TrendRuleSet, updatedBy: string): Promise<TrendRuleSet> {
+    if (ruleSet.id === DEFAULT_TREND_RULE_SET_ID) {
+      throw new TrendRuleSetValidationError('The default rule set cannot be modified');
+    }
+    this.validate(ruleSet);
+
+    await this.load(true);
+    const index = this.custom.findIndex(item => item.id === ruleSet.id);
+    if (index === -1 && this.custom.length >= MAX_CUSTOM_RULE_SETS) {
+      throw new TrendRuleSetValidationError(`Maximum ${MAX_CUSTOM_RULE_SETS} custom rule sets`);
+    }
+
+    const saved: TrendRuleSet = { ...ruleSet, updatedAt: new Date().toISOString(), updatedBy };
+    const next = [...this.custom];
+    if (index === -1) {
+      next.push(saved);
+    } else {
+      next[index] = saved;
+    }
+    await this.persist(next);
+    return saved;
+  }
+
+  /**
+   * Hapus rule set custom beserta seluruh file output-nya
+   */
+  async remove(id: string): Promise<boolean> {
+    if (id === DEFAULT_TREND_RULE_SET_ID) {
+      throw new TrendRuleSetValidationError('The default rule set cannot be deleted');
+    }
+    await this.load(true);
+    if (!this.custom.some(ruleSet => ruleSet.id === id)) return false;
+
+    await this.persist(this.custom.filter(ruleSet => ruleSet.id !== id));
+
+    const outputs = await listPaths({ prefix: getTrendOutputPrefix(id) });
+    for (const path of outputs) {
+      await deletePath(path);
+    }
+    return true;
+  }
+
+  private validate(ruleSet: TrendRuleSet): void {
+    const labels = new Set<string>();
+    for (const period of ruleSet.periods) {
+      const key = period.label.toLowerCase();
+      if (labels.has(key)) {
+        throw new TrendRuleSetValidationError(`Duplicate period label: ${period.label}`);
+      }
+      labels.add(key);
+      if (period.days > MAX_TREND_PERIOD_DAYS) {
+        throw new TrendRuleSetValidationError(`Period ${period.label} exceeds ${MAX_TREND_PERIOD_DAYS} days`);
+      }
+    }
+
+    const { shortWindow, longWindow } = ruleSet.ma;
+    if (shortWindow !== null && longWindow !== null && shortWindow >= longWindow) {
+      throw new TrendRuleSetValidationError('ma.shortWindow must be smaller than ma.longWindow');
+    }
+    if (ruleSet.scoreThresholds.downtrend >= ruleSet.scoreThresholds.uptrend) {
+      throw new TrendRuleSetValidationError('scoreThresholds.downtrend must be lower than scoreThresholds.uptrend');
+    }
+  }
+
+  private async load(force = false): Promise<void> {
+    if (!force && this.loadedAt > 0 && Date.now() - this.loadedAt < CACHE_TTL_MS) return;
+
+    try {
+      if (await exists(TREND_RULE_SETS_PATH)) {
+        const parsed = JSON.parse(await downloadText(TREND_RULE_SETS_PATH));
+        this.custom = Array.isArray(parsed)
+          ? parsed.filter((item: any) => item && typeof item.id === 'string' && item.id !== DEFAULT_TREND_RULE_SET_ID)
+          : [];
+      } else {
+        this.custom = [];
+      }
+      this.loadedAt = Date.now();
+      this.loadError = null;
+    } catch (error) {
+      // File rusak jangan sampai mematikan trend filter default; rule set terakhir tetap dipakai
+      // dan tidak di-cache supaya request berikutnya mencoba load lagi
+      console.error(`❌ Failed to load ${TREND_RULE_SETS_PATH}:`, error);
+      this.loadError = error instanceof Error ? error.message : String(error);
+      this.loadedAt = 0;
+    }
+  }
+
+  private async persist(ruleSets: TrendRuleSet[]): Promise<void> {
+    if (this.loadError) {
+      throw new Error(`Trend rule sets could not be loaded (${this.loadError}); refusing to overwrite ${TREND_RULE_SETS_PATH}`);
+    }
+    await uploadText(TREND_RULE_SETS_PATH, JSON.stringify(ruleSets, null, 2), 'application/json');
+    this.custom = ruleSets;
+    this.loadedAt = Date.now();
+  }
+}
+
+export const trendRuleSets: TrendRuleSetService = new TrendRuleSetService();
@@ -0,0 +1,310 @@
+// watchlistService.ts
+// Named watchlists per user (persisted di database), dengan urutan, catatan per simbol
+// dan share link read-only
+//
+// Tabel database:
+// - watchlists      : id, user_id, name, position, share_token (nullable, unique), created_at, updated_at
+// - watchlist_items : id, watchlist_id, symbol, note, position, created_at (unique: watchlist_id + symbol)
+
+import { randomBytes } from 'crypto';
+import { supabaseAdmin } from '../supabaseClient';
+
+export const MAX_WATCHLISTS_PER_USER = 20;
+export const MAX_ITEMS_PER_WATCHLIST = 300;
+
+export interface WatchlistItem {
+  symbol: string;
+  note: string | null;
+  position: number;
+}
+
+export interface Watchlist {
+  id: string;
+  user_id: string;
+  name: string;
+  position: number;
+  share_token: string | null;
+  created_at: string;
+  updated_at: string;
+  items: WatchlistItem[];
+}
+
+export interface WatchlistItemInput {
+  symbol: string;
+  note?: string | null | undefined;
+}
+
+export class WatchlistValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WatchlistValidationError';
+  }
+}
+
+const normalizeSymbol = (symbol: string): string => symbol.trim().toUpperCase();
+
+/**
+ * Buang simbol kosong / duplikat, pertahankan urutan kemunculan pertama
+ */
+function dedupeItems(items: WatchlistItemInput[]): WatchlistItemInput[] {
+  const seen = new Set<string>();
+  const result: WatchlistItemInput[] = [];
+  for (const item of items) {
+    const symbol = normalizeSymbol(item.symbol || '');
+    if (!symbol || seen.has(symbol)) continue;
+    seen.add(symbol);
+    result.push({ symbol, note: item.note ?? null });
+  }
+  return result;
+}
+
+/**
+ * Parse CSV import. Kolom pertama = ticker, kolom kedua (opsional) = note.
+ * Header "symbol"/"ticker" di baris pertama diabaikan.
+ */
+export function parseWatchlistCsv(content: string): WatchlistItemInput[] {
+  const items: WatchlistItemInput[] = [];
+  const lines = content.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+  lines.forEach((line, index) => {
+    const [rawSymbol, ...rest] = line.split(',');
+    const symbol = (rawSymbol || '').replace(/^\uFEFF/, '').replace(/"/g, '').trim();
+    if (index === 0 && /^(symbol|ticker|code|kode)$/i.test(symbol)) return;
+    if (!/^[A-Za-z0-9.]{1,12}$/.test(symbol)) return;
+    const note = rest.join(',').replace(/^"|"$/g, '').replace(/""/g, '"').trim();
+    items.push({ symbol, note: note || null });
+  });
+  return dedupeItems(items);
+}
+
+export function buildWatchlistCsv(watchlist: Watchlist): string {
+  const escape = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+  const rows = watchlist.items.map(item => `${item.symbol},${escape(item.note || '')}`);
+  return ['symbol,note', ...rows].join('\n');
+}
+
+export class WatchlistService {
+  static async listWatchlists(userId: string): Promise<Watchlist[]> {
+    const { data, error } = await supabaseAdmin
+      .from('watchlists')
+      .select('*, items:watchlist_items(symbol, note, position)')
+      .eq('user_id', userId)
+      .order('position', { ascending: true })
+      .order('created_at', { ascending: true });
+    if (error) throw error;
+    return (data || []).map(this.sortItems);
+  }
+
+  static async getWatchlist(userId: string, watchlistId: string): Promise<Watchlist | null> {
+    const { data, error } = await supabaseAdmin
+      .from('watchlists')
+      .select('*, items:watchlist_items(symbol, note, position)')
+      .eq('id', watchlistId)
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) throw error;
+    return data ? this.sortItems(data) : null;
+  }
+
+  /**
+   * Ambil watchlist lewat share token (read-only, tanpa user_id)
+   */
+  static async getSharedWatchlist(shareToken: string): Promise<Watchlist | null> {
+    const { data, error } = await supabaseAdmin
+      .from('watchlists')
+      .select('*, items:watchlist_items(symbol, note, position)')
+      .eq('share_token', shareToken)
+      .maybeSingle();
+    if (error) throw error;
+    return data ? this.sortItems(data) : null;
+  }
+
+  static async createWatchlist(userId: string, name: string, items: WatchlistItemInput[] = []): Promise<Watchlist> {
+    const { count, error: countError } = await supabaseAdmin
+      .from('watchlists')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId);
+    if (countError) throw countError;
+    if ((count || 0) >= MAX_WATCHLISTS_PER_USER) {
+      throw new WatchlistValidationError(`Maximum ${MAX_WATCHLISTS_PER_USER} watchlists per user`);
+    }
+
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseAdmin
+      .from('watchlists')
+      .insert([{ user_id: userId, name, position: count || 0, share_token: null, created_at: now, updated_at: now }])
+      .select()
+      .single();
+    if (error) throw error;
+
+    if (items.length > 0) {
+      await this.replaceItems(data.id, items);
+    }
+    return (await this.getWatchlist(userId, data.id))!;
+  }
+
+  static async renameWatchlist(userId: string, watchlistId: string, name: string): Promise<Watchlist | null> {
+    const { data, error } = await supabaseAdmin
+      .from('watchlists')
+      .update({ name, updated_at: new Date().toISOString() })
+      .eq('id', watchlistId)
+      .eq('user_id', userId)
+      .select('id');
+    if (error) throw error;
+    if (!data || data.length === 0) return null;
+    return this.getWatchlist(userId, watchlistId);
+  }
+
+  static async deleteWatchlist(userId: string, watchlistId: string): Promise<boolean> {
+    const owned = await this.getWatchlist(userId, watchlistId);
+    if (!owned) return false;
+
+    const { error: itemsError } = await supabaseAdmin.from('watchlist_items').delete().eq('watchlist_id', watchlistId);
+    if (itemsError) throw itemsError;
+    const { error } = await supabaseAdmin.from('watchlists').delete().eq('id', watchlistId).eq('user_id', userId);
+    if (error) throw error;
+    return true;
+  }
+
+  /**
+   * Simpan urutan watchlist milik user sesuai urutan ids
+   */
+  static async reorderWatchlists(userId: string, orderedIds: string[]): Promise<Watchlist[]> {
+    const now = new Date().toISOString();
+    for (let i = 0; i < orderedIds.length; i++) {
+      const { error } = await supabaseAdmin
+        .from('watchlists')
+        .update({ position: i, updated_at: now })
+        .eq('id', orderedIds[i]!)
+        .eq('user_id', userId);
+      if (error) throw error;
+    }
+    return this.listWatchlists(userId);
+  }
+
+  /**
+   * Ganti seluruh isi watchlist; urutan array = urutan tampil
+   */
+  static async setItems(userId: string, watchlistId: string, items: WatchlistItemInput[]): Promise<Watchlist | null> {
+    const owned = await this.getWatchlist(userId, watchlistId);
+    if (!owned) return null;
+    await this.replaceItems(watchlistId, items);
+    await this.touch(watchlistId);
+    return this.getWatchlist(userId, watchlistId);
+  }
+
+  /**
+   * Tambah simbol ke akhir watchlist (simbol yang sudah ada hanya di-update note-nya)
+   */
+  static async addItems(userId: string, watchlistId: string, items: WatchlistItemInput[]): Promise<Watchlist | null> {
+    const owned = await this.getWatchlist(userId, watchlistId);
+    if (!owned) return null;
+
+    const merged: WatchlistItemInput[] = owned.items.map(item => ({ symbol: item.symbol, note: item.note }));
+    for (const item of dedupeItems(items)) {
+      const existing = merged.find(m => m.symbol === item.symbol);
+      if (existing) {
+        if (item.note) existing.note = item.note;
+      } else {
+        merged.push(item);
+      }
+    }
+    await this.replaceItems(watchlistId, merged);
+    await this.touch(watchlistId);
+    return this.getWatchlist(userId, watchlistId);
+  }
+
+  static async updateItemNote(userId: string, watchlistId: string, symbol: string, note: string | null): Promise<Watchlist | null> {
+    const owned = await this.getWatchlist(userId, watchlistId);
+    if (!owned) return null;
+    const { error } = await supabaseAdmin
+      .from('watchlist_items')
+      .update({ note: note || null })
+      .eq('watchlist_id', watchlistId)
+      .eq('symbol', normalizeSymbol(symbol));
+    if (error) throw error;
+    await this.touch(watchlistId);
+    return this.getWatchlist(userId, watchlistId);
+  }
+
+  static async removeItem(userId: string, watchlistId: string, symbol: string): Promise<Watchlist | null> {
+    const owned = await this.getWatchlist(userId, watchlistId);
+    if (!owned) return null;
+    const remaining = owned.items.filter(item => item.symbol !== normalizeSymbol(symbol));
+    await this.replaceItems(watchlistId, remaining);
+    await this.touch(watchlistId);
+    return this.getWatchlist(userId, watchlistId);
+  }
+
+  /**
+   * Buat (atau ganti) share token. Token lama otomatis tidak berlaku.
+   */
+  static async createShareToken(userId: string, watchlistId: string): Promise<string | null> {
+    const token = randomBytes(16).toString('hex');
+    const { data, error } = await supabaseAdmin
+      .from('watchlists')
+      .update({ share_token: token, updated_at: new Date().toISOString() })
+      .eq('id', watchlistId)
+      .eq('user_id', userId)
+      .select('id');
+    if (error) throw error;
+    return data && data.length > 0 ? token : null;
+  }
+
+  static async revokeShareToken(userId: string, watchlistId: string): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+      .from('watchlists')
+      .update({ share_token: null, updated_at: new Date().toISOString() })
+      .eq('id', watchlistId)
+      .eq('user_id', userId)
+      .select('id');
+    if (error) throw error;
+    return !!data && data.length > 0;
+  }
+
+  private static async replaceItems(watchlistId: string, items: WatchlistItemInput[]): Promise<void> {
+    const normalized = dedupeItems(items);
+    if (normalized.length > MAX_ITEMS_PER_WATCHLIST) {
+      throw new WatchlistValidationError(`Maximum ${MAX_ITEMS_PER_WATCHLIST} symbols per watchlist`);
+    }
+
+    const { data: existing, error: selectError } = await supabaseAdmin
+      .from('watchlist_items')
+      .select('id, symbol, created_at')
+      .eq('watchlist_id', watchlistId);
+    if (selectError) throw selectError;
+
+    // Upsert dulu baru hapus simbol yang dibuang: kalau salah satu gagal, item lama tidak hilang
+    const existingBySymbol = new Map<string, any>((existing || []).map((row: any) => [row.symbol, row]));
+    const now = new Date().toISOString();
+    if (normalized.length > 0) {
+      const { error } = await supabaseAdmin
+        .from('watchlist_items')
+        .upsert(normalized.map((item, position) => ({
+          watchlist_id: watchlistId,
+          symbol: item.symbol,
+          note: item.note || null,
+          position,
+          created_at: existingBySymbol.get(item.symbol)?.created_at || now
+        })), { onConflict: 'watchlist_id,symbol' });
+      if (error) throw error;
+    }
+
+    const keep = new Set(normalized.map(item => item.symbol));
+    const removedIds = (existing || []).filter((row: any) => !keep.has(row.symbol)).map((row: any) => row.id);
+    if (removedIds.length > 0) {
+      const { error: deleteError } = await supabaseAdmin.from('watchlist_items').delete().in('id', removedIds);
+      if (deleteError) throw deleteError;
+    }
+  }
+
+  private static async touch(watchlistId: string): Promise<void> {
+    await supabaseAdmin.from('watchlists').update({ updated_at: new Date().toISOString() }).eq('id', watchlistId);
+  }
+
+  private static sortItems(row: any): Watchlist {
+    const items: WatchlistItem[] = (row.items || [])
+      .map((item: any) => ({ symbol: item.symbol, note: item.note ?? null, position: item.position ?? 0 }))
+      .sort((a: WatchlistItem, b: WatchlistItem) => a.position - b.position);
+    return { ...row, items };
+  }
+}
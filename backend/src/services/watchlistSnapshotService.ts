@@ -2,7 +2,8 @@
 import WatchlistCalculator, { WatchlistStock } from '../calculations/watchlist/watchlist';
 import { uploadText } from '../utils/azureBlob';
 import { SchedulerLogService } from './schedulerLogService';
-import { BATCH_SIZE_PHASE_2, OptimizedAzureStorageService, getEmitenListFromCsv, getSectorFallback } from './dataUpdateService';
+import { BATCH_SIZE_PHASE_2, OptimizedAzureStorageService, getEmitenListFromCsv } from './dataUpdateService';
+import { sectorTaxonomy, UNCLASSIFIED_SECTOR } from './sectorTaxonomyService';
 
 const SNAPSHOT_BLOB_PATH = 'watchlist/watchlist.csv';
 
@@ -77,32 +78,7 @@ export async function updateWatchlistSnapshot(logId?: string | null, triggeredBy
     const calculator = new WatchlistCalculator();
 
     // 1. Load Sector Mapping (Source of Truth for Sectors)
-    const sectorMapping: SectorLookup = {};
-    try {
-      const mappingCsv = await azureStorage.downloadCsvData('csv_input/sector_mapping.csv');
-      const lines = mappingCsv.split('\n').map(l => l.trim()).filter(l => l);
-      for (let i = 1; i < lines.length; i++) {
-        const line = lines[i];
-        if (!line) continue;
-        const parts = line.split(',');
-        if (parts.length >= 2) {
-          const part0 = parts[0];
-          const part1 = parts[1];
-          if (part0 && part1) {
-            const sector = part0.trim();
-            const emiten = part1.trim();
-            if (sector && emiten) {
-              if (!sectorMapping[sector]) sectorMapping[sector] = [];
-              sectorMapping[sector]?.push(emiten);
-            }
-          }
-        }
-      }
-    } catch (e) {
-      console.warn('⚠️ Could not load sector_mapping.csv, using default sectors');
-      // Initialize default sectors for hash fallback
-      ['Basic Materials', 'Consumer Cyclicals', 'Financials', 'Infrastructure', 'Technology'].forEach(s => sectorMapping[s] = []);
-    }
+    const sectorMapping: SectorLookup = await sectorTaxonomy.getSectorMapping();
     const availableSectors = Object.keys(sectorMapping);
 
     // 2. Load Emiten List (Source of Truth for Tickers) using shared helper
@@ -136,9 +112,9 @@ export async function updateWatchlistSnapshot(logId?: string | null, triggeredBy
             break;
           }
         }
-        // Fallback if not found
+        // Belum terklasifikasi -> Unclassified
         if (!sector) {
-          sector = getSectorFallback(ticker, availableSectors);
+          sector = UNCLASSIFIED_SECTOR;
         }
 
         stockLookup.set(ticker, { sector: sector, ticker: ticker });
@@ -0,0 +1,288 @@
+/**
+ * API Key Manager - Personal API keys untuk akses data secara programatik (notebook, script)
+ *
+ * Tabel database:
+ * - user_api_keys : id, user_id, name, key_prefix, key_hash (unique), is_active,
+ *                   request_count, last_used_at, last_used_ip, created_at, updated_at,
+ *                   rotated_at, revoked_at
+ *
+ * Counter pemakaian ditambah secara atomik lewat RPC (aman untuk beberapa instance backend):
+ *   create or replace function increment_api_key_usage(
+ *     p_key_id uuid, p_count integer, p_last_used_at timestamptz, p_last_used_ip text
+ *   ) returns void language sql as $$
+ *     update user_api_keys
+ *        set request_count = coalesce(request_count, 0) + p_count,
+ *            last_used_at = greatest(coalesce(last_used_at, p_last_used_at), p_last_used_at),
+ *            last_used_ip = coalesce(p_last_used_ip, last_used_ip)
+ *      where id = p_key_id;
+ *   $$;
+ *
+ * Secret hanya dikembalikan sekali saat create/rotate; yang disimpan hanya hash SHA-256
+ * (sama seperti token_hash di user_sessions).
+ */
+
+import crypto from 'crypto';
+import { supabaseAdmin } from '../supabaseClient';
+import { SessionManager } from './sessionManager';
+
+export const API_KEY_PREFIX = 'gk_';
+export const MAX_API_KEYS_PER_USER = 5;
+
+const KEY_COLUMNS = 'id, name, key_prefix, is_active, request_count, last_used_at, last_used_ip, created_at, updated_at, rotated_at, revoked_at';
+
+// Lookup hash → key di-cache sebentar; revoke/rotate dari instance ini langsung membuang cache
+const LOOKUP_CACHE_TTL_MS = 60 * 1000;
+// Counter pemakaian dikumpulkan di memory lalu di-flush berkala, supaya tiap request tidak menulis ke DB
+const USAGE_FLUSH_INTERVAL_MS = 30 * 1000;
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  key_prefix: string;
+  is_active: boolean;
+  request_count: number;
+  last_used_at: string | null;
+  last_used_ip: string | null;
+  created_at: string;
+  updated_at: string;
+  rotated_at: string | null;
+  revoked_at: string | null;
+}
+
+export interface ApiKeyIdentity {
+  keyId: string;
+  userId: string;
+  name: string;
+}
+
+export class ApiKeyValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApiKeyValidationError';
+  }
+}
+
+const lookupCache = new Map<string, { identity: ApiKeyIdentity; expiresAt: number }>();
+const pendingUsage = new Map<string, { count: number; lastUsedAt: string; ip: string | null }>();
+let flushTimer: NodeJS.Timeout | null = null;
+
+export class ApiKeyManager {
+  /**
+   * Generate secret baru. Format: gk_<43 char base64url>
+   */
+  static generateKey(): { key: string; prefix: string; hash: string } {
+    const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+    return {
+      key,
+      prefix: key.slice(0, API_KEY_PREFIX.length + 6),
+      hash: SessionManager.generateTokenHash(key)
+    };
+  }
+
+  static isApiKey(value: string | undefined | null): boolean {
+    return !!value && value.startsWith(API_KEY_PREFIX);
+  }
+
+  /**
+   * List key milik user (tanpa hash)
+   */
+  static async listKeys(userId: string): Promise<ApiKeyRecord[]> {
+    const { data, error } = await supabaseAdmin
+      .from('user_api_keys')
+      .select(KEY_COLUMNS)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    // Gabungkan pemakaian yang belum di-flush supaya counter di UI tidak tertinggal
+    return ((data || []) as ApiKeyRecord[]).map(record => {
+      const pending = pendingUsage.get(record.id);
+      if (!pending) return record;
+      return {
+        ...record,
+        request_count: (record.request_count || 0) + pending.count,
+        last_used_at: pending.lastUsedAt,
+        last_used_ip: pending.ip || record.last_used_ip
+      };
+    });
+  }
+
+  /**
+   * Buat key baru. Secret plaintext hanya ada di return value ini.
+   */
+  static async createKey(userId: string, name: string): Promise<{ key: string; record: ApiKeyRecord }> {
+    const { count, error: countError } = await supabaseAdmin
+      .from('user_api_keys')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('is_active', true);
+
+    if (countError) throw countError;
+    if ((count || 0) >= MAX_API_KEYS_PER_USER) {
+      throw new ApiKeyValidationError(`Maximum ${MAX_API_KEYS_PER_USER} active API keys per user`);
+    }
+
+    const generated = this.generateKey();
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseAdmin
+      .from('user_api_keys')
+      .insert({
+        user_id: userId,
+        name,
+        key_prefix: generated.prefix,
+        key_hash: generated.hash,
+        is_active: true,
+        request_count: 0,
+        created_at: now,
+        updated_at: now
+      })
+      .select(KEY_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    return { key: generated.key, record: data as ApiKeyRecord };
+  }
+
+  static async renameKey(userId: string, keyId: string, name: string): Promise<ApiKeyRecord | null> {
+    const { data, error } = await supabaseAdmin
+      .from('user_api_keys')
+      .update({ name, updated_at: new Date().toISOString() })
+      .eq('id', keyId)
+      .eq('user_id', userId)
+      .select(KEY_COLUMNS)
+      .maybeSingle();
+
+    if (error) throw error;
+    return (data as ApiKeyRecord) || null;
+  }
+
+  /**
+   * Ganti secret tanpa mengubah nama & counter pemakaian. Secret lama langsung tidak berlaku.
+   */
+  static async rotateKey(userId: string, keyId: string): Promise<{ key: string; record: ApiKeyRecord } | null> {
+    const generated = this.generateKey();
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseAdmin
+      .from('user_api_keys')
+      .update({
+        key_prefix: generated.prefix,
+        key_hash: generated.hash,
+        rotated_at: now,
+        updated_at: now
+      })
+      .eq('id', keyId)
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .select(KEY_COLUMNS)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    this.forgetKey(keyId);
+    return { key: generated.key, record: data as ApiKeyRecord };
+  }
+
+  static async revokeKey(userId: string, keyId: string): Promise<ApiKeyRecord | null> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseAdmin
+      .from('user_api_keys')
+      .update({ is_active: false, revoked_at: now, updated_at: now })
+      .eq('id', keyId)
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .select(KEY_COLUMNS)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    this.forgetKey(keyId);
+    return data as ApiKeyRecord;
+  }
+
+  /**
+   * Validasi secret dari header request. Return null jika tidak dikenal / sudah direvoke.
+   */
+  static async authenticate(rawKey: string): Promise<ApiKeyIdentity | null> {
+    const hash = SessionManager.generateTokenHash(rawKey);
+    const cached = lookupCache.get(hash);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.identity;
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('user_api_keys')
+      .select('id, user_id, name')
+      .eq('key_hash', hash)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) {
+      lookupCache.delete(hash);
+      return null;
+    }
+
+    const identity: ApiKeyIdentity = { keyId: data.id, userId: data.user_id, name: data.name };
+    lookupCache.set(hash, { identity, expiresAt: Date.now() + LOOKUP_CACHE_TTL_MS });
+    return identity;
+  }
+
+  /**
+   * Catat pemakaian key (di-buffer, lihat flushUsage)
+   */
+  static recordUsage(keyId: string, ipAddress?: string): void {
+    const current = pendingUsage.get(keyId);
+    pendingUsage.set(keyId, {
+      count: (current?.count || 0) + 1,
+      lastUsedAt: new Date().toISOString(),
+      ip: ipAddress || current?.ip || null
+    });
+
+    if (!flushTimer) {
+      flushTimer = setTimeout(() => {
+        flushTimer = null;
+        this.flushUsage().catch(err => console.error('ApiKeyManager: Failed to flush usage:', err));
+      }, USAGE_FLUSH_INTERVAL_MS);
+      flushTimer.unref?.();
+    }
+  }
+
+  /**
+   * Tambahkan counter yang ter-buffer ke database (increment atomik, bukan tulis nilai absolut).
+   * Dipanggil juga saat shutdown karena timer flush di-unref.
+   */
+  static async flushUsage(): Promise<void> {
+    const entries = Array.from(pendingUsage.entries());
+    pendingUsage.clear();
+
+    for (const [keyId, usage] of entries) {
+      const { error } = await supabaseAdmin.rpc('increment_api_key_usage', {
+        p_key_id: keyId,
+        p_count: usage.count,
+        p_last_used_at: usage.lastUsedAt,
+        p_last_used_ip: usage.ip
+      });
+
+      if (error) {
+        console.error(`ApiKeyManager: Failed to update usage for key ${keyId}:`, error);
+        // Kembalikan ke buffer supaya ikut flush berikutnya
+        const current = pendingUsage.get(keyId);
+        pendingUsage.set(keyId, {
+          count: usage.count + (current?.count || 0),
+          lastUsedAt: current?.lastUsedAt || usage.lastUsedAt,
+          ip: current?.ip || usage.ip
+        });
+      }
+    }
+  }
+
+  private static forgetKey(keyId: string): void {
+    for (const [hash, entry] of lookupCache.entries()) {
+      if (entry.identity.keyId === keyId) {
+        lookupCache.delete(hash);
+      }
+    }
+  }
+}
@@ -114,6 +114,29 @@ export class AuditLogger {
     );
   }
 
+  /**
+   * Log API key lifecycle (created, renamed, rotated, revoked)
+   */
+  static async logApiKeyEvent(
+    userId: string,
+    event: 'api_key_created' | 'api_key_renamed' | 'api_key_rotated' | 'api_key_revoked',
+    keyId: string,
+    details?: any,
+    ipAddress?: string,
+    userAgent?: string
+  ) {
+    return this.logUserAction(
+      userId,
+      event,
+      'api_key',
+      keyId,
+      null,
+      details,
+      ipAddress,
+      userAgent
+    );
+  }
+
   /**
    * Log system events
    */
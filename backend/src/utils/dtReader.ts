@@ -0,0 +1,259 @@
+/**
+ * DT Reader - Shared streaming parser untuk done-summary DT files
+ *
+ * Semua kalkulasi yang membaca done-summary/YYYYMMDD/DTyymmdd.csv memakai
+ * reader ini, sehingga perubahan kolom dari feed bursa cukup diperbaiki
+ * di satu tempat. File dibaca per baris (stream), tidak ditampung sebagai
+ * satu string besar.
+ */
+
+import readline from 'readline';
+import { downloadStream } from './azureBlob';
+
+/**
+ * Canonical transaction record dari DT file.
+ * Nama field mengikuti nama kolom feed; semantik buyer/seller per kolom
+ * ditentukan oleh masing-masing kalkulasi.
+ */
+export interface DtTransaction {
+  STK_CODE: string;
+  BRK_COD1: string;
+  BRK_COD2: string;
+  STK_VOLM: number;
+  STK_PRIC: number;
+  TRX_CODE: string;
+  TRX_DATE: string;
+  TRX_TIME: string;
+  TRX_TYPE: string; // Board type: RG, TN, NG
+  TRX_SESS: string;
+  TYP: string;
+  INV_TYP1: string;
+  INV_TYP2: string;
+  TRX_ORD1: number;
+  TRX_ORD2: number;
+}
+
+export interface DtMalformedRow {
+  line: number;
+  reason: string;
+  raw: string;
+}
+
+export interface DtReadReport {
+  blobName: string;
+  header: string[];
+  totalRows: number;
+  acceptedRows: number;
+  filteredRows: number; // Valid tapi tidak lolos filter (non-4-char stock, stockCode filter)
+  malformedRows: number;
+  malformedSamples: DtMalformedRow[];
+}
+
+export interface DtReadOptions {
+  /** Hanya ambil transaksi untuk kode saham ini */
+  stockCode?: string;
+  /** Hanya kode emiten 4 huruf (default true, sama seperti kalkulasi lama) */
+  regularStocksOnly?: boolean;
+  /** Jumlah maksimal contoh baris rusak yang disimpan di report */
+  maxMalformedSamples?: number;
+}
+
+export const DT_SEPARATOR = ';';
+
+// Kolom wajib - tanpa kolom ini baris tidak bisa dipakai kalkulasi apapun
+const REQUIRED_COLUMNS = ['STK_CODE', 'BRK_COD1', 'BRK_COD2', 'STK_VOLM', 'STK_PRIC'] as const;
+
+const DEFAULT_MAX_MALFORMED_SAMPLES = 20;
+
+/**
+ * Build DT blob path dari tanggal YYYYMMDD
+ * @example getDtBlobName('20251021') -> 'done-summary/20251021/DT251021.csv'
+ */
+export function getDtBlobName(date: string): string {
+  return `done-summary/${date}/DT${date.slice(2)}.csv`;
+}
+
+/**
+ * Extract tanggal YYYYMMDD dari DT blob path
+ */
+export function getDtDateFromBlobName(blobName: string): string {
+  return blobName.split('/')[1] || 'unknown';
+}
+
+/**
+ * Line parser dengan state header. Dipakai oleh stream reader maupun parser string.
+ */
+class DtLineParser {
+  private columnIndex: Map<string, number> | null = null;
+  private lineNumber = 0;
+  readonly report: DtReadReport;
+  private readonly stockFilter: string | null;
+  private readonly regularStocksOnly: boolean;
+  private readonly maxMalformedSamples: number;
+
+  constructor(blobName: string, options: DtReadOptions = {}) {
+    this.report = {
+      blobName,
+      header: [],
+      totalRows: 0,
+      acceptedRows: 0,
+      filteredRows: 0,
+      malformedRows: 0,
+      malformedSamples: []
+    };
+    this.stockFilter = options.stockCode ? options.stockCode.toUpperCase() : null;
+    this.regularStocksOnly = options.regularStocksOnly ?? true;
+    this.maxMalformedSamples = options.maxMalformedSamples ?? DEFAULT_MAX_MALFORMED_SAMPLES;
+  }
+
+  /**
+   * Parse satu baris. Return null untuk header, baris kosong, baris rusak, atau baris yang difilter.
+   */
+  parseLine(rawLine: string): DtTransaction | null {
+    this.lineNumber++;
+    const line = rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine;
+    if (line.trim().length === 0) return null;
+
+    if (!this.columnIndex) {
+      this.readHeader(line);
+      return null;
+    }
+
+    this.report.totalRows++;
+    const values = line.split(DT_SEPARATOR);
+    if (values.length < this.report.header.length) {
+      this.markMalformed(line, `expected ${this.report.header.length} columns, got ${values.length}`);
+      return null;
+    }
+
+    const stockCode = this.value(values, 'STK_CODE');
+    if (!stockCode) {
+      this.markMalformed(line, 'empty STK_CODE');
+      return null;
+    }
+    if ((this.regularStocksOnly && stockCode.length !== 4) || (this.stockFilter && stockCode !== this.stockFilter)) {
+      this.report.filteredRows++;
+      return null;
+    }
+
+    const volume = parseFloat(this.value(values, 'STK_VOLM'));
+    const price = parseFloat(this.value(values, 'STK_PRIC'));
+    if (!Number.isFinite(volume) || !Number.isFinite(price)) {
+      this.markMalformed(line, 'non-numeric STK_VOLM/STK_PRIC');
+      return null;
+    }
+
+    this.report.acceptedRows++;
+    return {
+      STK_CODE: stockCode,
+      BRK_COD1: this.value(values, 'BRK_COD1'),
+      BRK_COD2: this.value(values, 'BRK_COD2'),
+      STK_VOLM: volume,
+      STK_PRIC: price,
+      TRX_CODE: this.value(values, 'TRX_CODE'),
+      TRX_DATE: this.value(values, 'TRX_DATE'),
+      TRX_TIME: this.value(values, 'TRX_TIME'),
+      TRX_TYPE: this.value(values, 'TRX_TYPE'),
+      TRX_SESS: this.value(values, 'TRX_SESS'),
+      TYP: this.value(values, 'TYP'),
+      INV_TYP1: this.value(values, 'INV_TYP1'),
+      INV_TYP2: this.value(values, 'INV_TYP2'),
+      TRX_ORD1: parseInt(this.value(values, 'TRX_ORD1') || '0', 10) || 0,
+      TRX_ORD2: parseInt(this.value(values, 'TRX_ORD2') || '0', 10) || 0
+    };
+  }
+
+  private readHeader(line: string): void {
+    const header = line.split(DT_SEPARATOR).map(col => col.trim().replace(/^\uFEFF/, ''));
+    const missing = REQUIRED_COLUMNS.filter(col => !header.includes(col));
+    if (missing.length > 0) {
+      throw new Error(`DT file ${this.report.blobName} is missing required columns: ${missing.join(', ')}`);
+    }
+    this.report.header = header;
+    this.columnIndex = new Map(header.map((col, index) => [col, index]));
+  }
+
+  private value(values: string[], column: string): string {
+    const index = this.columnIndex?.get(column);
+    if (index === undefined) return '';
+    return values[index]?.trim() || '';
+  }
+
+  private markMalformed(line: string, reason: string): void {
+    this.report.malformedRows++;
+    if (this.report.malformedSamples.length < this.maxMalformedSamples) {
+      this.report.malformedSamples.push({ line: this.lineNumber, reason, raw: line.slice(0, 200) });
+    }
+  }
+}
+
+function logReport(report: DtReadReport): void {
+  if (report.malformedRows > 0) {
+    const sample = report.malformedSamples[0];
+    console.warn(`⚠️ DT ${report.blobName}: ${report.malformedRows} malformed rows skipped (first at line ${sample?.line}: ${sample?.reason})`);
+  }
+}
+
+/**
+ * Stream transaksi dari DT file baris per baris.
+ * Report diisi selama iterasi dan lengkap setelah iterasi selesai.
+ */
+export async function* streamDtTransactions(
+  blobName: string,
+  options: DtReadOptions = {},
+  report?: (report: DtReadReport) => void
+): AsyncGenerator<DtTransaction> {
+  const parser = new DtLineParser(blobName, options);
+  const stream = await downloadStream(blobName);
+  const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+
+  try {
+    for await (const line of lines) {
+      const row = parser.parseLine(line);
+      if (row) yield row;
+    }
+  } finally {
+    lines.close();
+    (stream as NodeJS.ReadableStream & { destroy?: () => void }).destroy?.();
+    logReport(parser.report);
+    report?.(parser.report);
+  }
+}
+
+/**
+ * Baca seluruh transaksi dari DT file (streaming) ke array
+ */
+export async function readDtTransactions(
+  blobName: string,
+  options: DtReadOptions = {}
+): Promise<{ data: DtTransaction[]; report: DtReadReport }> {
+  const data: DtTransaction[] = [];
+  let finalReport: DtReadReport | null = null;
+  for await (const row of streamDtTransactions(blobName, options, r => { finalReport = r; })) {
+    data.push(row);
+  }
+  return { data, report: finalReport! };
+}
+
+/**
+ * Parse DT content yang sudah ada di memory (mis. upload manual atau test)
+ */
+export function parseDtContent(
+  content: string,
+  blobName = 'inline',
+  options: DtReadOptions = {}
+): { data: DtTransaction[]; report: DtReadReport } {
+  const parser = new DtLineParser(blobName, options);
+  const data: DtTransaction[] = [];
+  let start = 0;
+  while (start <= content.length) {
+    const end = content.indexOf('\n', start);
+    const line = end === -1 ? content.slice(start) : content.slice(start, end);
+    const row = parser.parseLine(line);
+    if (row) data.push(row);
+    if (end === -1) break;
+    start = end + 1;
+  }
+  logReport(parser.report);
+  return { data, report: parser.report };
+}
@@ -0,0 +1,259 @@
+/**
+ * Parquet Writer - Writer Parquet minimal tanpa dependency eksternal
+ *
+ * Cakupan sengaja dibatasi untuk export dataset tabular:
+ * - row group dibatasi `rowGroupSize` baris, satu data page (v1) per kolom per row group, tanpa kompresi
+ * - kolom OPTIONAL DOUBLE (numeric) atau BYTE_ARRAY UTF8 (string)
+ * - encoding PLAIN untuk value, RLE/bit-packed hybrid untuk definition level
+ * Metadata ditulis dengan Thrift compact protocol sesuai parquet-format.
+ */
+
+export type ParquetColumnType = 'double' | 'string';
+
+export interface ParquetColumn {
+  name: string;
+  type: ParquetColumnType;
+}
+
+// Enum parquet-format
+const PARQUET_TYPE = { DOUBLE: 5, BYTE_ARRAY: 6 } as const;
+const REPETITION_OPTIONAL = 1;
+const CONVERTED_TYPE_UTF8 = 0;
+const ENCODING_PLAIN = 0;
+const ENCODING_RLE = 3;
+const CODEC_UNCOMPRESSED = 0;
+const PAGE_TYPE_DATA_PAGE = 0;
+
+// Tipe field Thrift compact protocol
+const CT = { I32: 5, I64: 6, BINARY: 8, LIST: 9, STRUCT: 12 } as const;
+
+class ByteWriter {
+  private chunks: number[] = [];
+
+  byte(value: number) {
+    this.chunks.push(value & 0xff);
+  }
+
+  // Unsigned varint; pakai aritmatika biasa (bukan bitwise) supaya aman untuk nilai > 2^31
+  varint(value: number) {
+    let v = value;
+    while (v >= 0x80) {
+      this.byte((v % 0x80) | 0x80);
+      v = Math.floor(v / 0x80);
+    }
+    this.byte(v);
+  }
+
+  bytes(buffer: Uint8Array) {
+    for (const b of buffer) this.chunks.push(b);
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.from(this.chunks);
+  }
+}
+
+type ThriftValue =
+  | { t: typeof CT.I32 | typeof CT.I64; v: number }
+  | { t: typeof CT.BINARY; v: string }
+  | { t: typeof CT.LIST; elem: typeof CT.I32 | typeof CT.BINARY | typeof CT.STRUCT; v: ThriftValue[] }
+  | { t: typeof CT.STRUCT; v: ThriftStruct };
+
+// Field id → value (field undefined dilewati)
+type ThriftStruct = Array<[number, ThriftValue | undefined]>;
+
+const i32 = (v: number): ThriftValue => ({ t: CT.I32, v });
+const i64 = (v: number): ThriftValue => ({ t: CT.I64, v });
+const str = (v: string): ThriftValue => ({ t: CT.BINARY, v });
+const struct = (v: ThriftStruct): ThriftValue => ({ t: CT.STRUCT, v });
+const list = (elem: typeof CT.I32 | typeof CT.BINARY | typeof CT.STRUCT, v: ThriftValue[]): ThriftValue => ({ t: CT.LIST, elem, v });
+
+function writeValue(w: ByteWriter, value: ThriftValue) {
+  switch (value.t) {
+    case CT.I32:
+    case CT.I64:
+      // zigzag varint
+      w.varint(value.v >= 0 ? value.v * 2 : -value.v * 2 - 1);
+      break;
+    case CT.BINARY: {
+      const bytes = Buffer.from(value.v, 'utf8');
+      w.varint(bytes.length);
+      w.bytes(bytes);
+      break;
+    }
+    case CT.LIST:
+      if (value.v.length < 15) {
+        w.byte((value.v.length << 4) | value.elem);
+      } else {
+        w.byte(0xf0 | value.elem);
+        w.varint(value.v.length);
+      }
+      value.v.forEach(item => writeValue(w, item));
+      break;
+    case CT.STRUCT:
+      writeStruct(w, value.v);
+      break;
+  }
+}
+
+function writeStruct(w: ByteWriter, fields: ThriftStruct) {
+  let lastId = 0;
+  for (const [id, value] of fields) {
+    if (!value) continue;
+    const delta = id - lastId;
+    if (delta > 0 && delta <= 15) {
+      w.byte((delta << 4) | value.t);
+    } else {
+      w.byte(value.t);
+      w.varint(id >= 0 ? id * 2 : -id * 2 - 1);
+    }
+    writeValue(w, value);
+    lastId = id;
+  }
+  w.byte(0); // STOP
+}
+
+function serializeStruct(fields: ThriftStruct): Buffer {
+  const w = new ByteWriter();
+  writeStruct(w, fields);
+  return w.toBuffer();
+}
+
+/**
+ * Definition level (max level 1) sebagai bit-packed run: 1 = ada nilai, 0 = null.
+ * Diawali panjang 4-byte little endian sesuai format data page v1.
+ */
+function encodeDefinitionLevels(present: boolean[]): Buffer {
+  const groups = Math.ceil(present.length / 8);
+  const w = new ByteWriter();
+  w.varint((groups << 1) | 1);
+  for (let g = 0; g < groups; g++) {
+    let byte = 0;
+    for (let bit = 0; bit < 8; bit++) {
+      if (present[g * 8 + bit]) byte |= 1 << bit;
+    }
+    w.byte(byte);
+  }
+  const body = w.toBuffer();
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(body.length, 0);
+  return Buffer.concat([length, body]);
+}
+
+function encodeValues(column: ParquetColumn, values: Array<string | number | null>): { levels: boolean[]; data: Buffer } {
+  const levels: boolean[] = [];
+  const parts: Buffer[] = [];
+
+  for (const raw of values) {
+    if (raw === null || raw === undefined || raw === '') {
+      levels.push(false);
+      continue;
+    }
+    if (column.type === 'double') {
+      const num = typeof raw === 'number' ? raw : Number(raw);
+      if (!Number.isFinite(num)) {
+        levels.push(false);
+        continue;
+      }
+      const buf = Buffer.alloc(8);
+      buf.writeDoubleLE(num, 0);
+      parts.push(buf);
+    } else {
+      const bytes = Buffer.from(String(raw), 'utf8');
+      const len = Buffer.alloc(4);
+      len.writeUInt32LE(bytes.length, 0);
+      parts.push(len, bytes);
+    }
+    levels.push(true);
+  }
+
+  return { levels, data: Buffer.concat(parts) };
+}
+
+/**
+ * Tulis tabel ke buffer Parquet. `rows` berisi array nilai sesuai urutan `columns`.
+ * Baris dipecah per `rowGroupSize` supaya buffer encoding per kolom tetap kecil.
+ */
+export function writeParquet(columns: ParquetColumn[], rows: Array<Array<string | number | null>>, rowGroupSize = 50_000): Buffer {
+  const magic = Buffer.from('PAR1', 'ascii');
+  const body: Buffer[] = [magic];
+  let offset = magic.length;
+  const rowGroups: ThriftValue[] = [];
+  const groupSize = Math.max(1, Math.floor(rowGroupSize));
+
+  for (let start = 0; start === 0 || start < rows.length; start += groupSize) {
+    const groupRows = rows.slice(start, start + groupSize);
+    const columnChunks: ThriftValue[] = [];
+    let totalByteSize = 0;
+
+    columns.forEach((column, index) => {
+      const { levels, data } = encodeValues(column, groupRows.map(row => row[index] ?? null));
+      const pageData = Buffer.concat([encodeDefinitionLevels(levels), data]);
+      const physicalType = column.type === 'double' ? PARQUET_TYPE.DOUBLE : PARQUET_TYPE.BYTE_ARRAY;
+
+      const pageHeader = serializeStruct([
+        [1, i32(PAGE_TYPE_DATA_PAGE)],
+        [2, i32(pageData.length)],
+        [3, i32(pageData.length)],
+        [5, struct([
+          [1, i32(groupRows.length)],
+          [2, i32(ENCODING_PLAIN)],
+          [3, i32(ENCODING_RLE)],
+          [4, i32(ENCODING_RLE)]
+        ])]
+      ]);
+
+      const chunkOffset = offset;
+      const chunkSize = pageHeader.length + pageData.length;
+      body.push(pageHeader, pageData);
+      offset += chunkSize;
+      totalByteSize += chunkSize;
+
+      columnChunks.push(struct([
+        [2, i64(chunkOffset)],
+        [3, struct([
+          [1, i32(physicalType)],
+          [2, list(CT.I32, [i32(ENCODING_PLAIN), i32(ENCODING_RLE)])],
+          [3, list(CT.BINARY, [str(column.name)])],
+          [4, i32(CODEC_UNCOMPRESSED)],
+          [5, i64(groupRows.length)],
+          [6, i64(chunkSize)],
+          [7, i64(chunkSize)],
+          [9, i64(chunkOffset)]
+        ])]
+      ]));
+    });
+
+    rowGroups.push(struct([
+      [1, list(CT.STRUCT, columnChunks)],
+      [2, i64(totalByteSize)],
+      [3, i64(groupRows.length)]
+    ]));
+  }
+
+  const schema: ThriftValue[] = [
+    struct([
+      [4, str('schema')],
+      [5, i32(columns.length)]
+    ]),
+    ...columns.map(column => struct([
+      [1, i32(column.type === 'double' ? PARQUET_TYPE.DOUBLE : PARQUET_TYPE.BYTE_ARRAY)],
+      [3, i32(REPETITION_OPTIONAL)],
+      [4, str(column.name)],
+      [6, column.type === 'string' ? i32(CONVERTED_TYPE_UTF8) : undefined]
+    ]))
+  ];
+
+  const footer = serializeStruct([
+    [1, i32(1)],
+    [2, list(CT.STRUCT, schema)],
+    [3, i64(rows.length)],
+    [4, list(CT.STRUCT, rowGroups)],
+    [6, str('bandarmolony-backend')]
+  ]);
+
+  const footerLength = Buffer.alloc(4);
+  footerLength.writeUInt32LE(footer.length, 0);
+  body.push(footer, footerLength, magic);
+  return Buffer.concat(body);
+}
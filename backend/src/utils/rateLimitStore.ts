@@ -0,0 +1,97 @@
+/**
+ * Rate Limit Store - Penyimpanan state token bucket untuk middleware rate limiting
+ *
+ * Default-nya in-memory (per proses). Untuk deployment multi-instance, implementasikan
+ * RateLimitStore (mis. di Redis) lalu pasang lewat setRateLimitStore() saat startup.
+ */
+
+import { BucketConfig } from '../config/rateLimits';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Kapasitas bucket */
+  limit: number;
+  /** Token tersisa setelah request ini (dibulatkan ke bawah) */
+  remaining: number;
+  /** Detik sampai bucket penuh kembali */
+  resetSeconds: number;
+  /** Detik sampai request dengan cost yang sama bisa lolos (0 jika allowed) */
+  retryAfterSeconds: number;
+}
+
+export interface RateLimitStore {
+  consume(key: string, cost: number, bucket: BucketConfig): Promise<RateLimitResult>;
+  reset(key: string): Promise<void>;
+}
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+  refillPerMs: number;
+  capacity: number;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, BucketState>();
+  private sweepTimer: NodeJS.Timeout;
+
+  constructor(sweepIntervalMs: number = 60 * 1000) {
+    // Bucket yang sudah terisi penuh tidak perlu disimpan lagi
+    this.sweepTimer = setInterval(() => this.sweep(), sweepIntervalMs);
+    this.sweepTimer.unref?.();
+  }
+
+  async consume(key: string, cost: number, bucket: BucketConfig): Promise<RateLimitResult> {
+    const now = Date.now();
+    const refillPerMs = bucket.refillPerMinute / 60000;
+    // Cost lebih besar dari kapasitas tidak akan pernah lolos, jadi dibatasi ke kapasitas
+    const effectiveCost = Math.min(cost, bucket.capacity);
+
+    const state = this.buckets.get(key);
+    let tokens = bucket.capacity;
+    if (state) {
+      tokens = Math.min(bucket.capacity, state.tokens + (now - state.updatedAt) * refillPerMs);
+    }
+
+    const allowed = tokens >= effectiveCost;
+    if (allowed) {
+      tokens -= effectiveCost;
+    }
+
+    this.buckets.set(key, { tokens, updatedAt: now, refillPerMs, capacity: bucket.capacity });
+
+    return {
+      allowed,
+      limit: bucket.capacity,
+      remaining: Math.max(0, Math.floor(tokens)),
+      resetSeconds: Math.ceil((bucket.capacity - tokens) / refillPerMs / 1000),
+      retryAfterSeconds: allowed ? 0 : Math.ceil((effectiveCost - tokens) / refillPerMs / 1000)
+    };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.buckets.delete(key);
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const [key, state] of this.buckets.entries()) {
+      if (state.tokens + (now - state.updatedAt) * state.refillPerMs >= state.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+let activeStore: RateLimitStore | null = null;
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!activeStore) {
+    activeStore = new MemoryRateLimitStore();
+  }
+  return activeStore;
+}
+
+export function setRateLimitStore(store: RateLimitStore): void {
+  activeStore = store;
+}
@@ -77,6 +77,11 @@ export const ERROR_CODES = {
   EMAIL_NOT_CONFIRMED: 'EMAIL_NOT_CONFIRMED',
   ACCOUNT_BLOCKED: 'ACCOUNT_BLOCKED',
   ACCOUNT_SUSPENDED: 'ACCOUNT_SUSPENDED',
+  INVALID_API_KEY: 'INVALID_API_KEY',
+  
+  // Subscription / entitlement errors
+  SUBSCRIPTION_REQUIRED: 'SUBSCRIPTION_REQUIRED',
+  FEATURE_NOT_IN_PLAN: 'FEATURE_NOT_IN_PLAN',
   
   // Validation errors
   VALIDATION_ERROR: 'VALIDATION_ERROR',
@@ -118,6 +123,7 @@ export const HTTP_STATUS = {
   CREATED: 201,
   BAD_REQUEST: 400,
   UNAUTHORIZED: 401,
+  PAYMENT_REQUIRED: 402,
   FORBIDDEN: 403,
   NOT_FOUND: 404,
   CONFLICT: 409,
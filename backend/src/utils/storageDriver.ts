@@ -0,0 +1,376 @@
+/**
+ * Storage Driver - Abstraction over the blob storage used by calculators and routes
+ * Driver dipilih via STORAGE_DRIVER ('azure' | 'local'), default 'azure'
+ */
+
+import { BlobServiceClient } from '@azure/storage-blob';
+import { promises as fs, createReadStream } from 'fs';
+import path from 'path';
+import config from '../config';
+
+export interface StorageListOptions {
+  prefix?: string;
+  maxResults?: number;
+}
+
+export interface StorageObjectInfo {
+  size: number;
+  lastModified: Date | null;
+  /** Berubah setiap kali isi object ditulis ulang - dipakai sebagai fingerprint input */
+  etag: string;
+}
+
+export interface StorageDriver {
+  readonly name: string;
+  downloadText(blobPath: string): Promise<string>;
+  downloadStream(blobPath: string): Promise<NodeJS.ReadableStream>;
+  uploadText(blobPath: string, content: string, contentType?: string, retries?: number): Promise<void>;
+  exists(blobPath: string): Promise<boolean>;
+  stat(blobPath: string): Promise<StorageObjectInfo | null>;
+  listPaths(options: StorageListOptions): Promise<string[]>;
+  listPrefixes(prefix: string): Promise<string[]>;
+  /** Hapus object; false jika memang tidak ada */
+  deletePath(blobPath: string): Promise<boolean>;
+}
+
+/**
+ * Azure Blob Storage driver (production default)
+ */
+export class AzureStorageDriver implements StorageDriver {
+  readonly name = 'azure';
+  private container: any = null;
+
+  constructor(
+    private readonly connectionString: string = config.AZURE_STORAGE_CONNECTION_STRING,
+    private readonly containerName: string = config.AZURE_STORAGE_CONTAINER_NAME || 'stock-trading-data'
+  ) {}
+
+  private getContainer(): any {
+    if (this.container) return this.container;
+    if (!this.connectionString) {
+      throw new Error('Azure Storage configuration is missing');
+    }
+    const service = BlobServiceClient.fromConnectionString(this.connectionString);
+    this.container = service.getContainerClient(this.containerName);
+    return this.container;
+  }
+
+  async ensureContainerExists(): Promise<void> {
+    await this.getContainer().createIfNotExists();
+  }
+
+  async downloadText(blobPath: string): Promise<string> {
+    const blobClient = this.getContainer().getBlobClient(blobPath);
+    const blobExists = await blobClient.exists();
+    if (!blobExists) {
+      throw new Error(`Blob not found: ${blobPath}`);
+    }
+    const download = await blobClient.download();
+    return await streamToString(download.readableStreamBody);
+  }
+
+  async downloadStream(blobPath: string): Promise<NodeJS.ReadableStream> {
+    const blobClient = this.getContainer().getBlobClient(blobPath);
+    const blobExists = await blobClient.exists();
+    if (!blobExists) {
+      throw new Error(`Blob not found: ${blobPath}`);
+    }
+    const download = await blobClient.download();
+    if (!download.readableStreamBody) {
+      throw new Error(`Blob has no content stream: ${blobPath}`);
+    }
+    return download.readableStreamBody;
+  }
+
+  async exists(blobPath: string): Promise<boolean> {
+    const blobClient = this.getContainer().getBlobClient(blobPath);
+    return await blobClient.exists();
+  }
+
+  async stat(blobPath: string): Promise<StorageObjectInfo | null> {
+    const blobClient = this.getContainer().getBlobClient(blobPath);
+    try {
+      const props = await blobClient.getProperties();
+      return {
+        size: props.contentLength ?? 0,
+        lastModified: props.lastModified ?? null,
+        etag: props.etag ?? ''
+      };
+    } catch (error: any) {
+      if (error?.statusCode === 404) return null;
+      throw error;
+    }
+  }
+
+  async listPaths(options: StorageListOptions): Promise<string[]> {
+    const out: string[] = [];
+    const iter = this.getContainer().listBlobsFlat({ prefix: options.prefix });
+    let i = 0;
+    for await (const item of iter) {
+      out.push(item.name);
+      i++;
+      if (options.maxResults && i >= options.maxResults) break;
+    }
+    return out;
+  }
+
+  async deletePath(blobPath: string): Promise<boolean> {
+    const result = await this.getContainer().getBlobClient(blobPath).deleteIfExists();
+    return !!result?.succeeded;
+  }
+
+  async listPrefixes(prefix: string): Promise<string[]> {
+    const out: string[] = [];
+    const iter = this.getContainer().listBlobsByHierarchy('/', { prefix });
+    for await (const item of iter) {
+      if ((item as any).kind === 'prefix') {
+        out.push((item as any).name);
+      }
+    }
+    return out;
+  }
+
+  /**
+   * Upload text dengan retry logic untuk handle network errors
+   */
+  async uploadText(blobPath: string, content: string, contentType = 'text/csv', retries = 3): Promise<void> {
+    const maxRetries = retries;
+    let lastError: any = null;
+
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      try {
+        const blockBlob = this.getContainer().getBlockBlobClient(blobPath);
+
+        if (attempt === 1) {
+          console.log(`📤 Uploading to Azure: ${blobPath} (${Buffer.byteLength(content)} bytes)`);
+        } else {
+          console.log(`🔄 Retry ${attempt}/${maxRetries} uploading to Azure: ${blobPath}`);
+        }
+
+        await blockBlob.upload(content, Buffer.byteLength(content), {
+          blobHTTPHeaders: { blobContentType: contentType },
+        });
+
+        if (attempt > 1) {
+          console.log(`✅ Successfully uploaded to Azure (after ${attempt} attempts): ${blobPath}`);
+        } else {
+          console.log(`✅ Successfully uploaded to Azure: ${blobPath}`);
+        }
+
+        return; // Success, exit function
+      } catch (error: any) {
+        lastError = error;
+
+        // Check if error is retryable (network errors)
+        const isRetryable =
+          error?.code === 'EADDRNOTAVAIL' ||
+          error?.code === 'ECONNRESET' ||
+          error?.code === 'ETIMEDOUT' ||
+          error?.code === 'ENOTFOUND' ||
+          error?.code === 'ECONNREFUSED' ||
+          error?.name === 'RestError' ||
+          (error?.message && (
+            error.message.includes('connect') ||
+            error.message.includes('timeout') ||
+            error.message.includes('network')
+          ));
+
+        if (!isRetryable || attempt === maxRetries) {
+          // Not retryable or max retries reached
+          if (attempt === maxRetries) {
+            console.error(`❌ Failed to upload to Azure after ${maxRetries} attempts: ${blobPath}`, error);
+          } else {
+            console.error(`❌ Failed to upload to Azure (non-retryable error): ${blobPath}`, error);
+          }
+          throw error;
+        }
+
+        // Calculate exponential backoff delay: 1s, 2s, 4s
+        const delayMs = Math.min(1000 * Math.pow(2, attempt - 1), 10000); // Max 10 seconds
+        console.warn(`⚠️ Upload failed (attempt ${attempt}/${maxRetries}), retrying in ${delayMs}ms...`, error?.code || error?.message);
+
+        // Wait before retry
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+    }
+
+    // Should never reach here, but just in case
+    throw lastError || new Error(`Failed to upload ${blobPath} after ${maxRetries} attempts`);
+  }
+}
+
+/**
+ * Local filesystem driver - blob path dipetakan ke file di bawah root directory
+ * Dipakai untuk menjalankan pipeline di laptop atau terhadap fixture folder
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local';
+  private readonly root: string;
+
+  constructor(root: string = config.LOCAL_STORAGE_ROOT) {
+    this.root = path.resolve(root);
+  }
+
+  getRoot(): string {
+    return this.root;
+  }
+
+  private resolve(blobPath: string): string {
+    const resolved = path.resolve(this.root, ...blobPath.split('/').filter(Boolean));
+    if (resolved !== this.root && !resolved.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage path: ${blobPath}`);
+    }
+    return resolved;
+  }
+
+  async downloadText(blobPath: string): Promise<string> {
+    try {
+      return await fs.readFile(this.resolve(blobPath), 'utf8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT' || error?.code === 'EISDIR') {
+        throw new Error(`Blob not found: ${blobPath}`);
+      }
+      throw error;
+    }
+  }
+
+  async downloadStream(blobPath: string): Promise<NodeJS.ReadableStream> {
+    const target = this.resolve(blobPath);
+    if (!(await this.exists(blobPath))) {
+      throw new Error(`Blob not found: ${blobPath}`);
+    }
+    return createReadStream(target);
+  }
+
+  async uploadText(blobPath: string, content: string, _contentType = 'text/csv', _retries = 3): Promise<void> {
+    const target = this.resolve(blobPath);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    // Tulis ke file sementara lalu rename agar reader tidak melihat file setengah jadi
+    const tmp = `${target}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tmp, content, 'utf8');
+    await fs.rename(tmp, target);
+  }
+
+  async exists(blobPath: string): Promise<boolean> {
+    try {
+      const stat = await fs.stat(this.resolve(blobPath));
+      return stat.isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  async stat(blobPath: string): Promise<StorageObjectInfo | null> {
+    try {
+      const info = await fs.stat(this.resolve(blobPath));
+      if (!info.isFile()) return null;
+      return {
+        size: info.size,
+        lastModified: info.mtime,
+        etag: `${info.size.toString(16)}-${Math.round(info.mtimeMs).toString(16)}`
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  async listPaths(options: StorageListOptions): Promise<string[]> {
+    const prefix = options.prefix || '';
+    // Mulai walk dari directory terdalam yang pasti mengandung prefix
+    const baseDir = prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/') + 1) : '';
+    const files = await this.walk(baseDir);
+    const out = files.filter(name => name.startsWith(prefix)).sort();
+    return options.maxResults ? out.slice(0, options.maxResults) : out;
+  }
+
+  async deletePath(blobPath: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.resolve(blobPath));
+      return true;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  async listPrefixes(prefix: string): Promise<string[]> {
+    const baseDir = prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/') + 1) : '';
+    const namePart = prefix.slice(baseDir.length);
+    let entries: import('fs').Dirent[];
+    try {
+      entries = await fs.readdir(this.resolve(baseDir), { withFileTypes: true });
+    } catch {
+      return [];
+    }
+    return entries
+      .filter(entry => entry.isDirectory() && entry.name.startsWith(namePart))
+      .map(entry => `${baseDir}${entry.name}/`)
+      .sort();
+  }
+
+  private async walk(relativeDir: string): Promise<string[]> {
+    let entries: import('fs').Dirent[];
+    try {
+      entries = await fs.readdir(this.resolve(relativeDir), { withFileTypes: true });
+    } catch {
+      return [];
+    }
+    const out: string[] = [];
+    for (const entry of entries) {
+      const name = `${relativeDir}${entry.name}`;
+      if (entry.isDirectory()) {
+        out.push(...await this.walk(`${name}/`));
+      } else if (entry.isFile() && !entry.name.endsWith('.tmp')) {
+        out.push(name);
+      }
+    }
+    return out;
+  }
+}
+
+let activeDriver: StorageDriver | null = null;
+
+/**
+ * Create driver sesuai config STORAGE_DRIVER
+ */
+export function createStorageDriver(driverName: string = config.STORAGE_DRIVER): StorageDriver {
+  switch (driverName.toLowerCase()) {
+    case 'local':
+      return new LocalStorageDriver();
+    case 'azure':
+    case '':
+      return new AzureStorageDriver();
+    default:
+      throw new Error(`Unknown storage driver: ${driverName}`);
+  }
+}
+
+/**
+ * Get active storage driver (lazy, singleton)
+ */
+export function getStorageDriver(): StorageDriver {
+  if (!activeDriver) {
+    activeDriver = createStorageDriver();
+    if (activeDriver instanceof LocalStorageDriver) {
+      console.log(`🗂️ Using local storage driver: ${activeDriver.getRoot()}`);
+    }
+  }
+  return activeDriver;
+}
+
+/**
+ * Override active storage driver (mis. untuk test terhadap fixture folder)
+ */
+export function setStorageDriver(driver: StorageDriver | null): void {
+  activeDriver = driver;
+}
+
+async function streamToString(readable: NodeJS.ReadableStream | undefined): Promise<string> {
+  if (!readable) return '';
+  return await new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    readable.on('data', (d) => chunks.push(Buffer.isBuffer(d) ? d : Buffer.from(d)));
+    readable.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    readable.on('error', reject);
+  });
+}
@@ -15,8 +15,10 @@ import { ResetPasswordPage } from "./components/auth/ResetPasswordPage";
 import { ProtectedRoute } from "./components/dashboard/ProtectedRoute";
 import { PublicRoute } from "./components/dashboard/PublicRoute";
 import { Sidebar } from "./components/dashboard/Sidebar";
+import { AlertInbox } from "./components/dashboard/AlertInbox";
+import { SharedWatchlistPage } from "./components/dashboard/SharedWatchlistPage";
 import { Avatar, AvatarFallback, AvatarImage } from "./components/ui/avatar";
-import { User, Home, ChevronRight, TrendingUp, Activity, ArrowRightLeft, BookOpen, Star, BarChart3, CreditCard, Shield } from "lucide-react";
+import { User, Home, ChevronRight, TrendingUp, Activity, ArrowRightLeft, BookOpen, Star, BarChart3, CreditCard, Shield, FlaskConical } from "lucide-react";
 
 // Import all dashboard components
 import MarketRotationRRG from "./components/market-rotation/MarketRotationRRG";
@@ -36,6 +38,7 @@ import { StoryForeignFlow } from "./components/story/StoryForeignFlow";
 import { AstrologyLunarCalendar } from "./components/astrology/AstrologyLunarCalendar";
 import BaZiCycleAnalyzer from "./components/astrology/BaZiCycleAnalysis";
 import { TechnicalAnalysisTradingView } from "./components/technical-analysis/TechnicalAnalysisTradingView";
+import { BacktestPage } from "./components/backtest/BacktestPage";
 import { ProfilePage } from "./components/profile/ProfilePage";
 import { SubscriptionPage } from "./components/subscription/SubscriptionPage";
 import { NotSubscribed } from "./components/subscription/NotSubscribed";
@@ -175,6 +178,7 @@ function DashboardLayout() {
     },
     'astrology': { title: 'Astrology', icon: Star, children: { 'lunar': 'Ba Zi & Shio', 'bazi-cycle': 'Ba Zi Cycle Analysis' } },
     'technical-analysis': { title: 'Technical Analysis', icon: BarChart3 },
+    'backtest': { title: 'Backtest', icon: FlaskConical },
     'profile': { title: 'Profile' },
     'subscription': { title: 'Subscription', icon: CreditCard },
     'admin': { title: 'Admin', icon: Shield },
@@ -296,6 +300,10 @@ function DashboardLayout() {
           </div>
         );
 
+      // Backtest
+      case "backtest":
+        return <BacktestPage />;
+
       // Profile
       case "profile":
         return <ProfilePage />;
@@ -361,6 +369,9 @@ function DashboardLayout() {
           </div>
 
           <div className="flex items-center gap-3">
+            {/* Alert Inbox */}
+            <AlertInbox />
+
             {/* Profile Button */}
             <div className="relative">
               <button
@@ -473,6 +484,9 @@ function PublicRouteWrapper() {
       <Route path="/terms" element={<TermsPage />} />
       <Route path="/privacy" element={<PrivacyPage />} />
 
+      {/* Read-only shared watchlist */}
+      <Route path="/watchlist/shared/:token" element={<SharedWatchlistPage />} />
+
       {/* Email verification handler */}
       <Route
         path="/auth/verify"
@@ -571,6 +585,14 @@ function PublicRouteWrapper() {
         }
       />
 
+      {/* Backtest route */}
+      <Route
+        path="/backtest"
+        element={
+          <ProtectedRoute children={<DashboardLayout />} />
+        }
+      />
+
       {/* Admin route */}
       <Route
         path="/admin"
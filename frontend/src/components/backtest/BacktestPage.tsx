@@ -0,0 +1,386 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Play, Plus, Trash2, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from '../ui/table';
+import { api, BacktestCondition, BacktestResult, BacktestSignalSource } from '../../services/api';
+
+const SOURCE_LABELS: Record<BacktestSignalSource, string> = {
+  price: 'Price',
+  accumulation: 'Accumulation/Distribution',
+  foreign_flow: 'Foreign Flow',
+  money_flow: 'Money Flow (MFI)',
+  rrg: 'RRG',
+  top_broker: 'Top Broker Rank',
+};
+
+// Dipakai sebelum /api/backtest/fields selesai dimuat
+const FALLBACK_FIELDS: Record<BacktestSignalSource, string[]> = {
+  price: ['Close', 'Volume', 'ChangePercent'],
+  accumulation: ['AboveMA20', 'VPercent5D'],
+  foreign_flow: ['NetBuyVol', 'NetBuyValue'],
+  money_flow: ['MFI'],
+  rrg: ['quadrant', 'rs_ratio', 'rs_momentum'],
+  top_broker: ['rank'],
+};
+
+const OPERATORS: BacktestCondition['operator'][] = ['>', '>=', '<', '<=', '==', '!='];
+
+const EXIT_REASON_LABELS: Record<string, string> = {
+  signal: 'Exit rule',
+  stop_loss: 'Stop loss',
+  take_profit: 'Take profit',
+  max_holding: 'Max holding',
+  end_of_test: 'End of test',
+};
+
+const formatDate = (yyyymmdd: string) => `${yyyymmdd.slice(0, 4)}-${yyyymmdd.slice(4, 6)}-${yyyymmdd.slice(6, 8)}`;
+const formatIdr = (value: number) => value.toLocaleString('id-ID', { maximumFractionDigits: 0 });
+const formatPct = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+function defaultDateRange() {
+  const to = new Date();
+  const from = new Date(to);
+  from.setFullYear(to.getFullYear() - 1);
+  return { from: from.toISOString().slice(0, 10), to: to.toISOString().slice(0, 10) };
+}
+
+interface ConditionListProps {
+  title: string;
+  hint: string;
+  conditions: BacktestCondition[];
+  fields: Record<BacktestSignalSource, string[]>;
+  onChange: (conditions: BacktestCondition[]) => void;
+}
+
+function ConditionList({ title, hint, conditions, fields, onChange }: ConditionListProps) {
+  const update = (index: number, patch: Partial<BacktestCondition>) => {
+    onChange(conditions.map((condition, i) => (i === index ? { ...condition, ...patch } : condition)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label className="text-sm font-medium">{title}</Label>
+          <p className="text-xs text-muted-foreground">{hint}</p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...conditions, { source: 'money_flow', field: 'MFI', operator: '>', value: 50 }])}
+        >
+          <Plus className="w-3 h-3 mr-1" /> Add
+        </Button>
+      </div>
+      {conditions.length === 0 && <p className="text-xs text-muted-foreground italic">No conditions</p>}
+      {conditions.map((condition, index) => (
+        <div key={index} className="flex flex-wrap items-center gap-2">
+          <select
+            value={condition.source}
+            onChange={(e) => {
+              const source = e.target.value as BacktestSignalSource;
+              update(index, { source, field: fields[source][0] || '', broker: source === 'top_broker' ? condition.broker || '' : undefined });
+            }}
+            className="h-9 px-2 border border-[#3a4252] rounded-md bg-background text-foreground text-sm"
+          >
+            {(Object.keys(SOURCE_LABELS) as BacktestSignalSource[]).map((source) => (
+              <option key={source} value={source}>{SOURCE_LABELS[source]}</option>
+            ))}
+          </select>
+          <select
+            value={condition.field}
+            onChange={(e) => update(index, { field: e.target.value })}
+            className="h-9 px-2 border border-[#3a4252] rounded-md bg-background text-foreground text-sm"
+          >
+            {fields[condition.source].map((field) => (
+              <option key={field} value={field}>{field}</option>
+            ))}
+          </select>
+          {condition.source === 'top_broker' && (
+            <Input
+              value={condition.broker || ''}
+              onChange={(e) => update(index, { broker: e.target.value.toUpperCase() })}
+              placeholder="Broker"
+              className="h-9 w-20"
+            />
+          )}
+          <select
+            value={condition.operator}
+            onChange={(e) => update(index, { operator: e.target.value as BacktestCondition['operator'] })}
+            className="h-9 px-2 border border-[#3a4252] rounded-md bg-background text-foreground text-sm"
+          >
+            {OPERATORS.map((operator) => (
+              <option key={operator} value={operator}>{operator}</option>
+            ))}
+          </select>
+          <Input
+            value={String(condition.value)}
+            onChange={(e) => {
+              const raw = e.target.value;
+              const numeric = Number(raw);
+              update(index, { value: raw.trim() !== '' && Number.isFinite(numeric) ? numeric : raw });
+            }}
+            placeholder={condition.field === 'quadrant' ? 'LEADING' : '0'}
+            className="h-9 w-28"
+          />
+          <Button variant="ghost" size="sm" onClick={() => onChange(conditions.filter((_, i) => i !== index))}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Backtest rule entry/exit di atas output platform (accumulation, foreign flow, MFI, RRG, top broker)
+ * - Sinyal dievaluasi di close, eksekusi di open hari berikutnya
+ * - Fraksi harga IDX, lot 100 lembar, fee beli/jual
+ */
+export function BacktestPage() {
+  const initialRange = useMemo(defaultDateRange, []);
+  const [fields, setFields] = useState<Record<BacktestSignalSource, string[]>>(FALLBACK_FIELDS);
+  const [symbols, setSymbols] = useState('BBCA, BBRI, TLKM');
+  const [fromDate, setFromDate] = useState(initialRange.from);
+  const [toDate, setToDate] = useState(initialRange.to);
+  const [initialCapital, setInitialCapital] = useState(100_000_000);
+  const [maxPositions, setMaxPositions] = useState(3);
+  const [buyFeePct, setBuyFeePct] = useState(0.15);
+  const [sellFeePct, setSellFeePct] = useState(0.25);
+  const [stopLossPct, setStopLossPct] = useState('');
+  const [takeProfitPct, setTakeProfitPct] = useState('');
+  const [maxHoldingDays, setMaxHoldingDays] = useState('');
+  const [entry, setEntry] = useState<BacktestCondition[]>([
+    { source: 'accumulation', field: 'AboveMA20', operator: '==', value: 1 },
+    { source: 'money_flow', field: 'MFI', operator: '>', value: 60 },
+  ]);
+  const [exit, setExit] = useState<BacktestCondition[]>([
+    { source: 'money_flow', field: 'MFI', operator: '<', value: 40 },
+  ]);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<BacktestResult | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    api.getBacktestFields().then((response) => {
+      if (mounted && response.success && response.data) setFields(response.data.fields);
+    });
+    return () => { mounted = false; };
+  }, []);
+
+  const optionalNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+  const handleRun = async () => {
+    setRunning(true);
+    setError(null);
+    const stopLoss = optionalNumber(stopLossPct);
+    const takeProfit = optionalNumber(takeProfitPct);
+    const maxHolding = optionalNumber(maxHoldingDays);
+    const response = await api.runBacktest({
+      symbols: symbols.split(/[\s,]+/).map((s) => s.trim().toUpperCase()).filter(Boolean),
+      fromDate,
+      toDate,
+      entry,
+      exit,
+      initialCapital,
+      maxPositions,
+      buyFeePct,
+      sellFeePct,
+      ...(stopLoss !== undefined && { stopLossPct: stopLoss }),
+      ...(takeProfit !== undefined && { takeProfitPct: takeProfit }),
+      ...(maxHolding !== undefined && { maxHoldingDays: maxHolding }),
+    });
+    if (response.success && response.data) {
+      setResult(response.data);
+    } else {
+      setError(response.error || 'Failed to run backtest');
+    }
+    setRunning(false);
+  };
+
+  const chartData = useMemo(
+    () => (result?.equityCurve || []).map((point) => ({ ...point, label: formatDate(point.date) })),
+    [result]
+  );
+
+  const metricCards = result
+    ? [
+        { label: 'Final Equity', value: formatIdr(result.metrics.finalEquity) },
+        { label: 'Total Return', value: formatPct(result.metrics.totalReturnPct), tone: result.metrics.totalReturnPct },
+        { label: 'CAGR', value: formatPct(result.metrics.cagrPct), tone: result.metrics.cagrPct },
+        { label: 'Max Drawdown', value: formatPct(result.metrics.maxDrawdownPct), tone: result.metrics.maxDrawdownPct },
+        { label: 'Win Rate', value: `${result.metrics.winRatePct.toFixed(1)}% (${result.metrics.wins}/${result.metrics.totalTrades})` },
+        { label: 'Avg Trade', value: formatPct(result.metrics.avgReturnPct), tone: result.metrics.avgReturnPct },
+        { label: 'Profit Factor', value: result.metrics.profitFactor === null ? '-' : result.metrics.profitFactor.toFixed(2) },
+        { label: 'Total Fees', value: formatIdr(result.metrics.totalFees) },
+        { label: 'Exposure', value: `${result.metrics.exposurePct.toFixed(1)}%` },
+      ]
+    : [];
+
+  return (
+    <div className="space-y-4 p-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Backtest</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div className="md:col-span-2 space-y-1">
+              <Label className="text-xs">Symbols (comma separated)</Label>
+              <Input value={symbols} onChange={(e) => setSymbols(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">From</Label>
+              <Input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">To</Label>
+              <Input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Initial Capital (IDR)</Label>
+              <Input type="number" value={initialCapital} onChange={(e) => setInitialCapital(Number(e.target.value))} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Max Positions</Label>
+              <Input type="number" min={1} value={maxPositions} onChange={(e) => setMaxPositions(Number(e.target.value))} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Buy Fee %</Label>
+              <Input type="number" step="0.01" value={buyFeePct} onChange={(e) => setBuyFeePct(Number(e.target.value))} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Sell Fee %</Label>
+              <Input type="number" step="0.01" value={sellFeePct} onChange={(e) => setSellFeePct(Number(e.target.value))} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Stop Loss % (optional)</Label>
+              <Input type="number" value={stopLossPct} onChange={(e) => setStopLossPct(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Take Profit % (optional)</Label>
+              <Input type="number" value={takeProfitPct} onChange={(e) => setTakeProfitPct(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Max Holding Days (optional)</Label>
+              <Input type="number" value={maxHoldingDays} onChange={(e) => setMaxHoldingDays(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <ConditionList title="Entry" hint="All conditions must hold at close" conditions={entry} fields={fields} onChange={setEntry} />
+            <ConditionList title="Exit" hint="Any condition triggers an exit at next open" conditions={exit} fields={fields} onChange={setExit} />
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Button onClick={handleRun} disabled={running || entry.length === 0}>
+              {running ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+              Run Backtest
+            </Button>
+            <span className="text-xs text-muted-foreground">IDX tick sizes, 1 lot = 100 shares, fills at next open</span>
+          </div>
+          {error && <p className="text-sm text-red-500">{error}</p>}
+        </CardContent>
+      </Card>
+
+      {result && (
+        <>
+          {result.skippedSymbols.length > 0 && (
+            <p className="text-xs text-yellow-500">No price data in range for: {result.skippedSymbols.join(', ')}</p>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-9 gap-3">
+            {metricCards.map((metric) => (
+              <Card key={metric.label}>
+                <CardContent className="p-3">
+                  <div className="text-xs text-muted-foreground">{metric.label}</div>
+                  <div
+                    className={`text-sm font-semibold ${
+                      metric.tone === undefined ? '' : metric.tone > 0 ? 'text-green-500' : metric.tone < 0 ? 'text-red-500' : ''
+                    }`}
+                  >
+                    {metric.value}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Equity Curve</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={320}>
+                <ComposedChart data={chartData} margin={{ top: 10, right: 10, left: 10, bottom: 10 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
+                  <XAxis dataKey="label" tick={{ fontSize: 10 }} minTickGap={40} />
+                  <YAxis yAxisId="equity" tick={{ fontSize: 10 }} tickFormatter={(value) => `${(value / 1_000_000).toFixed(0)}M`} />
+                  <YAxis yAxisId="drawdown" orientation="right" tick={{ fontSize: 10 }} tickFormatter={(value) => `${value}%`} />
+                  <Tooltip
+                    formatter={(value: any, name: any) => (name === 'Drawdown' ? `${Number(value).toFixed(2)}%` : formatIdr(Number(value)))}
+                  />
+                  <Legend />
+                  <Area yAxisId="drawdown" type="monotone" dataKey="drawdownPct" name="Drawdown" stroke="#ef4444" fill="#ef4444" fillOpacity={0.15} />
+                  <Line yAxisId="equity" type="monotone" dataKey="equity" name="Equity" stroke="#10b981" dot={false} strokeWidth={2} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Trades ({result.trades.length})</CardTitle>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Symbol</TableHead>
+                    <TableHead>Entry</TableHead>
+                    <TableHead>Entry Price</TableHead>
+                    <TableHead>Exit</TableHead>
+                    <TableHead>Exit Price</TableHead>
+                    <TableHead>Lots</TableHead>
+                    <TableHead>Days</TableHead>
+                    <TableHead>Net P/L</TableHead>
+                    <TableHead>Return</TableHead>
+                    <TableHead>Reason</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.trades.map((trade, index) => (
+                    <TableRow key={`${trade.symbol}-${trade.entryDate}-${index}`}>
+                      <TableCell className="font-medium">{trade.symbol}</TableCell>
+                      <TableCell>{formatDate(trade.entryDate)}</TableCell>
+                      <TableCell>{formatIdr(trade.entryPrice)}</TableCell>
+                      <TableCell>{formatDate(trade.exitDate)}</TableCell>
+                      <TableCell>{formatIdr(trade.exitPrice)}</TableCell>
+                      <TableCell>{trade.lots}</TableCell>
+                      <TableCell>{trade.holdingDays}</TableCell>
+                      <TableCell className={trade.netPnl >= 0 ? 'text-green-500' : 'text-red-500'}>{formatIdr(trade.netPnl)}</TableCell>
+                      <TableCell className={trade.returnPct >= 0 ? 'text-green-500' : 'text-red-500'}>{formatPct(trade.returnPct)}</TableCell>
+                      <TableCell>{EXIT_REASON_LABELS[trade.exitReason] || trade.exitReason}</TableCell>
+                    </TableRow>
+                  ))}
+                  {result.trades.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={10} className="text-center text-muted-foreground">
+                        No trades - entry conditions never matched in this range
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { Search, Loader2, Calendar } from 'lucide-react';
+import { Search, Loader2, Calendar, Download, Network } from 'lucide-react';
 
-import { api } from '../../services/api';
+import { api, BrokerClusterData } from '../../services/api';
 import { useToast } from '../../contexts/ToastContext';
 import { loadStockList } from '../../data/stockList';
 
@@ -60,6 +60,11 @@ interface UserPreferences {
 
 // Import menu preferences service
 import { menuPreferencesService } from '../../services/menuPreferences';
+import { DatasetExportDialog } from './DatasetExportDialog';
+import { getClusterColorClass, useDarkMode } from '../../utils/brokerColors';
+
+// Cluster dengan confidence di bawah ini tidak di-overlay (terlalu lemah untuk dianggap satu grup)
+const MIN_CLUSTER_CONFIDENCE = 0.6;
 
 // Utility functions for saving/loading preferences (now using cookies)
 const loadPreferences = (): Partial<UserPreferences> | null => {
@@ -199,6 +204,10 @@ export function BrokerSummaryPage({ selectedStock: propSelectedStock, disableTic
   const [displayedTickers, setDisplayedTickers] = useState<string[]>(propSelectedStock ? [propSelectedStock] : ['BBCA']); // Tickers displayed in header (updated when Show button clicked)
   const [displayedMarket, setDisplayedMarket] = useState<'RG' | 'TN' | 'NG' | ''>('RG'); // Market/Board displayed in header (updated when Show button clicked)
   const [isMenuTwoRows, setIsMenuTwoRows] = useState(false); // Track if menu wraps to 2 rows
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showClusters, setShowClusters] = useState(false);
+  const [brokerClusters, setBrokerClusters] = useState<BrokerClusterData | null>(null);
+  const isDarkMode = useDarkMode();
 
   // Stock selection state
   const [availableStocks, setAvailableStocks] = useState<string[]>([]);
@@ -229,6 +238,45 @@ export function BrokerSummaryPage({ selectedStock: propSelectedStock, disableTic
   const shouldFetchDataRef = useRef<boolean>(false); // Ref to track shouldFetchData for async functions (always up-to-date)
   const abortControllerRef = useRef<AbortController | null>(null); // Ref to abort ongoing fetch
 
+  // Broker cluster overlay: satu ticker saham = cluster per emiten, selain itu (multi ticker/sektor) = cluster global
+  useEffect(() => {
+    if (!showClusters) {
+      setBrokerClusters(null);
+      return;
+    }
+    const singleStock = displayedTickers.length === 1 && /^[A-Z]{4}$/.test(displayedTickers[0] || '') ? displayedTickers[0]! : '';
+    let cancelled = false;
+    api.getBrokerClusters(singleStock, MIN_CLUSTER_CONFIDENCE).then((result) => {
+      if (cancelled) return;
+      if (!result.success || !result.data) {
+        setBrokerClusters(null);
+        showToast({ type: 'warning', title: 'Broker Cluster', message: result.error || 'Data cluster belum tersedia' });
+        return;
+      }
+      setBrokerClusters(result.data);
+    });
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [showClusters, displayedTickers]);
+
+  // Broker → index cluster (urutan cluster dari API = urutan warna)
+  const clusterIndexByBroker = useMemo(() => {
+    const map = new Map<string, number>();
+    brokerClusters?.clusters.forEach((cluster, idx) => {
+      cluster.brokers.forEach((broker) => {
+        if (!map.has(broker)) map.set(broker, idx);
+      });
+    });
+    return map;
+  }, [brokerClusters]);
+
+  const getClusterOverlayClass = (brokerCode: string): string => {
+    const idx = clusterIndexByBroker.get(brokerCode);
+    return idx === undefined ? '' : `${getClusterColorClass(idx, isDarkMode)} font-semibold`;
+  };
+
   // Enhanced cache system with persistence and size limits
   // Key format: `${ticker}-${date}-${market}` or `sector-${sectorName}-${date}-${market}`
   const dataCacheRef = useRef<Map<string, { data: BrokerSummaryData[]; timestamp: number }>>(new Map());
@@ -850,58 +898,13 @@ export function BrokerSummaryPage({ selectedStock: propSelectedStock, disableTic
         const market = marketFilter || '';
         const cache = dataCacheRef.current;
 
-        // Helper function to fetch data for a single ticker-date combination (with cache)
-        const fetchSingleData = async (ticker: string, date: string, skipCache: boolean = false): Promise<{ ticker: string; date: string; data: BrokerSummaryData[] }> => {
-          // CRITICAL: Check if fetch was aborted
-          if (abortController.signal.aborted || !shouldFetchDataRef.current) {
-            throw new Error('Fetch aborted');
-          }
-
-          const cacheKey = `${ticker}-${date}-${market}`;
-          const now = Date.now();
-          const cached = cache.get(cacheKey);
-
-          // Check cache first (skip cache on retry)
-          // Cache is valid if it exists and hasn't expired
-          if (!skipCache && cached) {
-            const age = now - cached.timestamp;
-            if (age <= CACHE_EXPIRY_MS) {
-              console.log(`[BrokerSummary] Cache HIT: ${ticker} on ${date} (age: ${Math.round(age / 1000)}s)`);
-              return { ticker, date, data: cached.data };
-            } else {
-              // Cache expired, remove it
-              cache.delete(cacheKey);
-              console.log(`[BrokerSummary] Cache EXPIRED: ${ticker} on ${date} (age: ${Math.round(age / 1000)}s)`);
-            }
-          } else if (!skipCache) {
-            console.log(`[BrokerSummary] Cache MISS: ${ticker} on ${date}`);
-          }
-
-          // CRITICAL: Check again before API call
-          if (abortController.signal.aborted || !shouldFetchDataRef.current) {
-            throw new Error('Fetch aborted');
-          }
-
-          // Fetch from API
-          const res = await api.getBrokerSummaryData(ticker, date, market as 'RG' | 'TN' | 'NG' | '');
-
-          // Check if response is successful
-          if (!res || !res.success) {
-            console.error(`[BrokerSummary] Failed to fetch data for ${ticker} on ${date}:`, res?.error || 'Unknown error');
-            return { ticker, date, data: [] };
-          }
-
-          // Check if brokerData exists
-          if (!res.data || !res.data.brokerData || !Array.isArray(res.data.brokerData)) {
-            console.warn(`[BrokerSummary] No broker data in response for ${ticker} on ${date}`);
-            return { ticker, date, data: [] };
-          }
-
+        // Map raw CSV rows (endpoint harian maupun breakdown range) ke format tabel
+        const mapBrokerRows = (ticker: string, brokerData: any[]): BrokerSummaryData[] => {
           // Check if this is a sector or IDX
           const isSector = selectedTickers.some(t => t.startsWith('[SECTOR] ') && t.replace('[SECTOR] ', '') === ticker);
           const isIDX = ticker === 'IDX';
 
-          const rows: BrokerSummaryData[] = (res.data.brokerData ?? []).map((r: any) => {
+          return (brokerData ?? []).map((r: any) => {
             // Backend already calculates NetSellVol, NetSellValue, NetBuyerAvg, NetSellerAvg
             // Backend also handles the logic: if NetBuy is negative, it becomes NetSell and NetBuy = 0
             // IMPORTANT: 
@@ -1002,6 +1005,51 @@ export function BrokerSummaryPage({ selectedStock: propSelectedStock, disableTic
               nsval: netSellValue
             };
           }) as BrokerSummaryData[];
+        };
+
+        // Helper function to fetch data for a single ticker-date combination (with cache)
+        const fetchSingleData = async (ticker: string, date: string, skipCache: boolean = false): Promise<{ ticker: string; date: string; data: BrokerSummaryData[] }> => {
+          // CRITICAL: Check if fetch was aborted
+          if (abortController.signal.aborted || !shouldFetchDataRef.current) {
+            throw new Error('Fetch aborted');
+          }
+
+          const cacheKey = `${ticker}-${date}-${market}`;
+          const now = Date.now();
+          const cached = cache.get(cacheKey);
+
+          // Check cache first (skip cache on retry)
+          // Cache is valid if it exists and hasn't expired
+          if (!skipCache && cached) {
+            const age = now - cached.timestamp;
+            if (age <= CACHE_EXPIRY_MS) {
+              return { ticker, date, data: cached.data };
+            }
+            // Cache expired, remove it
+            cache.delete(cacheKey);
+          }
+
+          // CRITICAL: Check again before API call
+          if (abortController.signal.aborted || !shouldFetchDataRef.current) {
+            throw new Error('Fetch aborted');
+          }
+
+          // Fetch from API
+          const res = await api.getBrokerSummaryData(ticker, date, market as 'RG' | 'TN' | 'NG' | '');
+
+          // Check if response is successful
+          if (!res || !res.success) {
+            console.error(`[BrokerSummary] Failed to fetch data for ${ticker} on ${date}:`, res?.error || 'Unknown error');
+            return { ticker, date, data: [] };
+          }
+
+          // Check if brokerData exists
+          if (!res.data || !res.data.brokerData || !Array.isArray(res.data.brokerData)) {
+            console.warn(`[BrokerSummary] No broker data in response for ${ticker} on ${date}`);
+            return { ticker, date, data: [] };
+          }
+
+          const rows = mapBrokerRows(ticker, res.data.brokerData);
 
           // Store in cache
           cache.set(cacheKey, { data: rows, timestamp: now });
@@ -1012,6 +1060,40 @@ export function BrokerSummaryPage({ selectedStock: propSelectedStock, disableTic
           return { ticker, date, data: rows };
         };
 
+        // Multi-hari: ambil seluruh range per ticker dalam satu request (backend mengagregasi + breakdown harian)
+        // lalu isi cache per tanggal, sehingga loop per-hari di bawah cukup membaca cache.
+        // Jika request range gagal, loop di bawah tetap fallback ke fetch per hari.
+        if (selectedDates.length > 1) {
+          const sortedDates = [...selectedDates].sort();
+          const rangeFrom = sortedDates[0] || '';
+          const rangeTo = sortedDates[sortedDates.length - 1] || '';
+          await Promise.all(uniqueTickers.map(async (ticker) => {
+            const needsFetch = selectedDates.some(date => !cache.has(`${ticker}-${date}-${market}`));
+            if (!needsFetch) return;
+            const rangeRes = await api.getBrokerSummaryRange(ticker, rangeFrom, rangeTo, market as 'RG' | 'TN' | 'NG' | '');
+            if (!rangeRes.success || !rangeRes.data) {
+              console.warn(`[BrokerSummary] Range fetch failed for ${ticker}, falling back to per-day fetch:`, rangeRes.error);
+              return;
+            }
+            const timestamp = Date.now();
+            const toIsoDate = (d: string) => `${d.slice(0, 4)}-${d.slice(4, 6)}-${d.slice(6, 8)}`;
+            rangeRes.data.daily.forEach(day => {
+              cache.set(`${ticker}-${toIsoDate(day.date)}-${market}`, { data: mapBrokerRows(ticker, day.brokerData), timestamp });
+            });
+            // Hari tanpa file (libur) disimpan kosong agar tidak di-request ulang per hari
+            rangeRes.data.missingDates.forEach(date => {
+              cache.set(`${ticker}-${toIsoDate(date)}-${market}`, { data: [], timestamp });
+            });
+          }));
+          saveCacheToStorage();
+
+          if (abortController.signal.aborted || !shouldFetchDataRef.current) {
+            setIsLoading(false);
+            setIsDataReady(false);
+            return;
+          }
+        }
+
         // OPTIMIZED: Fetch all data in parallel with batching to avoid overwhelming browser
         // Batch size: Increased to 20 for faster sector loading (sectors have many stocks)
         // For sectors with 20+ stocks, this reduces batch count significantly
@@ -2289,6 +2371,9 @@ export function BrokerSummaryPage({ selectedStock: propSelectedStock, disableTic
                         }
                         return 'text-white font-semibold';
                       };
+                      // Kolom kode broker: warna cluster (jika overlay aktif) menggantikan warna asing/pemerintah
+                      const getBrokerCellClass = (brokerCode: string): string =>
+                        getClusterOverlayClass(brokerCode) || getBrokerColorClass(brokerCode);
 
                       // OPTIMIZED: Use memoized total data
                       const sortedTotalBuy = totalValueDataMemo.buy;
@@ -2339,7 +2424,7 @@ export function BrokerSummaryPage({ selectedStock: propSelectedStock, disableTic
                             return (
                               <React.Fragment key={`${date}-${rowIdx}`}>
                                 {/* BY (Buyer) Columns - Using Buyer fields */}
-                                <td className={`text-center py-[1px] px-[5.4px] w-4 font-bold ${dateIndex === 0 ? 'border-l-2 border-white' : ''} ${buyData ? getBrokerColorClass(buyData.broker) : ''}`}>
+                                <td className={`text-center py-[1px] px-[5.4px] w-4 font-bold ${dateIndex === 0 ? 'border-l-2 border-white' : ''} ${buyData ? getBrokerCellClass(buyData.broker) : ''}`}>
                                   {buyData?.broker || '-'}
                                 </td>
                                 <td className="text-right py-[1px] px-[5.4px] text-green-600 font-bold w-6" style={{ fontVariantNumeric: 'tabular-nums' }}>
@@ -2353,7 +2438,7 @@ export function BrokerSummaryPage({ selectedStock: propSelectedStock, disableTic
                                 </td>
                                 {/* SL (Seller) Columns - Keep # column */}
                                 <td className={`text-center py-[1px] px-[5.4px] text-white bg-[#3a4252] font-bold w-4 ${sellData ? getBrokerColorClass(sellData.broker) : ''}`}>{sellData ? rowIdx + 1 : '-'}</td>
-                                <td className={`py-[1px] px-[5.4px] font-bold w-4 ${sellData ? getBrokerColorClass(sellData.broker) : ''}`}>
+                                <td className={`py-[1px] px-[5.4px] font-bold w-4 ${sellData ? getBrokerCellClass(sellData.broker) : ''}`}>
                                   {sellData?.broker || '-'}
                                 </td>
                                 <td className="text-right py-[1px] px-[5.4px] text-red-600 font-bold w-6" style={{ fontVariantNumeric: 'tabular-nums' }}>
@@ -2378,7 +2463,7 @@ export function BrokerSummaryPage({ selectedStock: propSelectedStock, disableTic
                             const totalSellAvg = totalSell && totalSell.nslot > 0 ? Math.abs(totalSell.nsval) / totalSell.nslot : 0;
                             return (
                               <React.Fragment>
-                                <td className={`text-center py-[1px] px-[4.5px] font-bold ${showOnlyTotal || datesForHeader.length === 0 ? 'border-l-2 border-white' : 'border-l-[10px] border-white'} ${totalBuy ? getBrokerColorClass(totalBuy.broker) : ''}`}>
+                                <td className={`text-center py-[1px] px-[4.5px] font-bold ${showOnlyTotal || datesForHeader.length === 0 ? 'border-l-2 border-white' : 'border-l-[10px] border-white'} ${totalBuy ? getBrokerCellClass(totalBuy.broker) : ''}`}>
                                   {totalBuy?.broker || '-'}
                                 </td>
                                 <td className="text-right py-[1px] px-[4.5px] text-green-600 font-bold" style={{ fontVariantNumeric: 'tabular-nums' }}>
@@ -2391,7 +2476,7 @@ export function BrokerSummaryPage({ selectedStock: propSelectedStock, disableTic
                                   {totalBuy && totalBuyAvg > 0 ? formatAverage(totalBuyAvg) : '-'}
                                 </td>
                                 <td className={`text-center py-[1px] px-[5.4px] text-white bg-[#3a4252] font-bold ${totalSell ? getBrokerColorClass(totalSell.broker) : ''}`}>{totalSell ? rowIdx + 1 : '-'}</td>
-                                <td className={`py-[1px] px-[4.5px] font-bold ${totalSell ? getBrokerColorClass(totalSell.broker) : ''}`}>
+                                <td className={`py-[1px] px-[4.5px] font-bold ${totalSell ? getBrokerCellClass(totalSell.broker) : ''}`}>
                                   {totalSell?.broker || '-'}
                                 </td>
                                 <td className="text-right py-[1px] px-[4.5px] text-red-600 font-bold" style={{ fontVariantNumeric: 'tabular-nums' }}>
@@ -2474,6 +2559,9 @@ export function BrokerSummaryPage({ selectedStock: propSelectedStock, disableTic
                         }
                         return 'text-white font-semibold';
                       };
+                      // Kolom kode broker: warna cluster (jika overlay aktif) menggantikan warna asing/pemerintah
+                      const getBrokerCellClass = (brokerCode: string): string =>
+                        getClusterOverlayClass(brokerCode) || getBrokerColorClass(brokerCode);
 
                       // OPTIMIZED: Use memoized total data
                       const sortedTotalNetBuy = totalNetDataMemo.buy;
@@ -2630,7 +2718,7 @@ export function BrokerSummaryPage({ selectedStock: propSelectedStock, disableTic
                               return (
                                 <React.Fragment key={`${date}-${rowIdx}`}>
                                   {/* Net Buy Columns (BY) - Display NetSell Data - No # */}
-                                  <td className={`text-center py-[1px] px-[5.4px] w-4 font-bold ${dateIndex === 0 ? 'border-l-2 border-white' : ''} ${netSellData ? getBrokerColorClass(netSellData.broker) : ''}`} style={byColumnStyle}>
+                                  <td className={`text-center py-[1px] px-[5.4px] w-4 font-bold ${dateIndex === 0 ? 'border-l-2 border-white' : ''} ${netSellData ? getBrokerCellClass(netSellData.broker) : ''}`} style={byColumnStyle}>
                                     {netSellData?.broker || '-'}
                                   </td>
                                   <td className={`text-right py-[1px] px-[5.4px] w-6 font-bold ${netBuyBgStyle ? '' : 'text-green-600'}`} style={{ ...byColumnStyle, fontVariantNumeric: 'tabular-nums' }}>
@@ -2644,7 +2732,7 @@ export function BrokerSummaryPage({ selectedStock: propSelectedStock, disableTic
                                   </td>
                                   {/* Net Sell Columns (SL) - Display NetBuy Data - Keep # */}
                                   <td className={`text-center py-[1px] px-[5.4px] text-white bg-[#3a4252] font-bold w-4 ${netBuyData ? getBrokerColorClass(netBuyData.broker) : ''}`}>{netBuyData ? rowIdx + 1 : '-'}</td>
-                                  <td className={`py-[1px] px-[5.4px] w-4 font-bold ${netBuyData ? getBrokerColorClass(netBuyData.broker) : ''} ${sellBgStyle ? 'text-white' : ''}`} style={slColumnStyle}>
+                                  <td className={`py-[1px] px-[5.4px] w-4 font-bold ${netBuyData ? getBrokerCellClass(netBuyData.broker) : ''} ${sellBgStyle ? 'text-white' : ''}`} style={slColumnStyle}>
                                     {netBuyData?.broker || '-'}
                                   </td>
                                   <td className={`text-right py-[1px] px-[5.4px] w-6 font-bold ${sellBgStyle ? 'text-white' : 'text-red-600'}`} style={{ ...slColumnStyle, fontVariantNumeric: 'tabular-nums' }}>
@@ -2690,7 +2778,7 @@ export function BrokerSummaryPage({ selectedStock: propSelectedStock, disableTic
                               return (
                                 <React.Fragment>
                                   {/* Total BY columns - Display totalNetSell data */}
-                                  <td className={`text-center py-[1px] px-[4.5px] font-bold ${showOnlyTotal || datesForHeader.length === 0 ? 'border-l-2 border-white' : 'border-l-[10px] border-white'} ${totalNetSell ? getBrokerColorClass(totalNetSell.broker) : ''}`} style={totalNetBuyBgStyle}>
+                                  <td className={`text-center py-[1px] px-[4.5px] font-bold ${showOnlyTotal || datesForHeader.length === 0 ? 'border-l-2 border-white' : 'border-l-[10px] border-white'} ${totalNetSell ? getBrokerCellClass(totalNetSell.broker) : ''}`} style={totalNetBuyBgStyle}>
                                     {totalNetSell?.broker || '-'}
                                   </td>
                                   <td className={`text-right py-[1px] px-[4.5px] font-bold ${totalNetBuyBgStyle ? '' : 'text-green-600'}`} style={{ ...totalNetBuyBgStyle, fontVariantNumeric: 'tabular-nums' }}>
@@ -2704,7 +2792,7 @@ export function BrokerSummaryPage({ selectedStock: propSelectedStock, disableTic
                                   </td>
                                   {/* Total SL columns - Display totalNetBuy data */}
                                   <td className={`text-center py-[1px] px-[5.4px] text-white bg-[#3a4252] font-bold ${totalNetBuy ? getBrokerColorClass(totalNetBuy.broker) : ''}`}>{totalNetBuy ? rowIdx + 1 : '-'}</td>
-                                  <td className={`py-[1px] px-[4.5px] font-bold ${totalNetBuy ? getBrokerColorClass(totalNetBuy.broker) : ''}`} style={totalSellUnderlineStyle}>
+                                  <td className={`py-[1px] px-[4.5px] font-bold ${totalNetBuy ? getBrokerCellClass(totalNetBuy.broker) : ''}`} style={totalSellUnderlineStyle}>
                                     {totalNetBuy?.broker || '-'}
                                   </td>
                                   <td className="text-right py-[1px] px-[4.5px] text-red-600 font-bold" style={{ ...totalSellUnderlineStyle, fontVariantNumeric: 'tabular-nums' }}>
@@ -3503,9 +3591,60 @@ export function BrokerSummaryPage({ selectedStock: propSelectedStock, disableTic
           >
             Show
           </button>
+
+          <button
+            onClick={() => setShowExportDialog(true)}
+            disabled={selectedTickers.length === 0}
+            className="h-9 px-4 border border-[#3a4252] rounded-md hover:bg-muted disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm font-medium whitespace-nowrap flex items-center justify-center gap-2 w-full md:w-auto"
+          >
+            <Download className="w-4 h-4" />
+            Export
+          </button>
+
+          <button
+            onClick={() => setShowClusters((prev) => !prev)}
+            title="Warnai broker yang terdeteksi bergerak sebagai satu grup"
+            className={`h-9 px-4 border rounded-md transition-colors text-sm font-medium whitespace-nowrap flex items-center justify-center gap-2 w-full md:w-auto ${showClusters ? 'border-primary bg-primary/10 text-primary' : 'border-[#3a4252] hover:bg-muted'}`}
+          >
+            <Network className="w-4 h-4" />
+            Clusters
+          </button>
         </div>
       </div>
 
+      {/* Legend broker cluster (grup broker yang net buy/sell-nya bergerak bersama) */}
+      {showClusters && brokerClusters && (
+        <div className="flex flex-wrap items-center gap-2 px-4 pt-3 text-xs">
+          <span className="text-muted-foreground">
+            {brokerClusters.scope === 'stock' ? `Cluster ${brokerClusters.stockCode}` : 'Cluster global'} ({brokerClusters.tradingDays} hari s/d {brokerClusters.asOf}):
+          </span>
+          {brokerClusters.clusters.length === 0 && (
+            <span className="text-muted-foreground">Tidak ada grup dengan confidence ≥ {MIN_CLUSTER_CONFIDENCE * 100}%</span>
+          )}
+          {brokerClusters.clusters.map((cluster, idx) => (
+            <span
+              key={cluster.id}
+              className={`px-2 py-0.5 rounded border font-semibold ${getClusterColorClass(idx, isDarkMode)}`}
+              title={`Korelasi ${cluster.correlation.toFixed(2)} · Co-accumulation ${(cluster.coAccumulation * 100).toFixed(0)}%${cluster.priceLevelOverlap !== null ? ` · Overlap harga ${(cluster.priceLevelOverlap * 100).toFixed(0)}%` : ''}`}
+            >
+              {cluster.brokers.join(' · ')} ({(cluster.confidence * 100).toFixed(0)}%)
+            </span>
+          ))}
+        </div>
+      )}
+
+      <DatasetExportDialog
+        open={showExportDialog}
+        onOpenChange={setShowExportDialog}
+        defaults={{
+          dataset: 'broker_summary',
+          fromDate: startDate,
+          toDate: endDate,
+          tickers: selectedTickers,
+          board: marketFilter
+        }}
+      />
+
 
 
       {/* Loading State - only show when actually loading (isLoading === true) */}
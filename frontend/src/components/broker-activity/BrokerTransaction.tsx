@@ -1,9 +1,10 @@
 import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
-import { Loader2, Calendar, Search } from 'lucide-react';
+import { Loader2, Calendar, Search, Download } from 'lucide-react';
 import { api } from '../../services/api';
 import { useToast } from '../../contexts/ToastContext';
 import { menuPreferencesService } from '../../services/menuPreferences';
 import { STOCK_LIST, loadStockList } from '../../data/stockList';
+import { DatasetExportDialog } from './DatasetExportDialog';
 
 interface BrokerTransactionData {
   Emiten: string;
@@ -358,6 +359,7 @@ export function BrokerTransaction() {
     }
     return '';
   });
+  const [showExportDialog, setShowExportDialog] = useState(false);
   const [brokerInput, setBrokerInput] = useState('');
   const [debouncedBrokerInput, setDebouncedBrokerInput] = useState('');
   const [selectedBrokers, setSelectedBrokers] = useState<string[]>(() => {
@@ -5904,9 +5906,32 @@ return (
         >
           Show
         </button>
+
+        <button
+          onClick={() => setShowExportDialog(true)}
+          className="h-9 px-4 border border-[#3a4252] rounded-md hover:bg-muted transition-colors text-sm font-medium whitespace-nowrap flex items-center justify-center gap-2 w-full md:w-auto"
+        >
+          <Download className="w-4 h-4" />
+          Export
+        </button>
       </div>
     </div>
 
+    <DatasetExportDialog
+      open={showExportDialog}
+      onOpenChange={setShowExportDialog}
+      defaults={{
+        dataset: 'broker_transaction',
+        fromDate: startDate || '',
+        toDate: endDate || '',
+        tickers: selectedTickers,
+        brokers: selectedBrokers,
+        board: boardFilter,
+        investor: invFilter,
+        pivot: pivotFilter
+      }}
+    />
+
 
 
     {/* Loading State */}
@@ -0,0 +1,233 @@
+import { useEffect, useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '../ui/dialog';
+import { api, DatasetExportParams, ExportDatasetName } from '../../services/api';
+import { useToast } from '../../contexts/ToastContext';
+
+const DATASET_OPTIONS: Array<{ value: ExportDatasetName; label: string }> = [
+  { value: 'broker_summary', label: 'Broker Summary' },
+  { value: 'broker_transaction', label: 'Broker Transaction' },
+  { value: 'foreign_flow', label: 'Foreign Flow' },
+  { value: 'money_flow', label: 'Money Flow' },
+  { value: 'accumulation', label: 'Accumulation / Distribution' },
+  { value: 'haka_haki', label: 'Haka Haki' },
+  { value: 'break_done_trade', label: 'Break Done Trade' }
+];
+
+const selectClass = 'h-9 px-3 border border-[#3a4252] rounded-md bg-background text-foreground text-sm w-full';
+const inputClass = 'h-9 px-3 border border-[#3a4252] rounded-md bg-background text-foreground text-sm w-full';
+
+const parseCodes = (value: string) =>
+  value.split(/[\s,]+/).map((code) => code.trim().toUpperCase()).filter(Boolean);
+
+export interface DatasetExportDefaults {
+  dataset: ExportDatasetName;
+  fromDate?: string;
+  toDate?: string;
+  tickers?: string[];
+  brokers?: string[];
+  board?: 'RG' | 'TN' | 'NG' | '';
+  investor?: 'F' | 'D' | '';
+  pivot?: 'Broker' | 'Stock';
+}
+
+interface DatasetExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Filter yang sedang aktif di halaman, dipakai sebagai nilai awal form */
+  defaults: DatasetExportDefaults;
+}
+
+export function DatasetExportDialog({ open, onOpenChange, defaults }: DatasetExportDialogProps) {
+  const { showToast } = useToast();
+  const [dataset, setDataset] = useState<ExportDatasetName>(defaults.dataset);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [tickers, setTickers] = useState('');
+  const [brokers, setBrokers] = useState('');
+  const [board, setBoard] = useState<'RG' | 'TN' | 'NG' | ''>('');
+  const [investor, setInvestor] = useState<'F' | 'D' | ''>('');
+  const [pivot, setPivot] = useState<'Broker' | 'Stock'>('Broker');
+  const [format, setFormat] = useState<DatasetExportParams['format']>('xlsx');
+  const [groupBy, setGroupBy] = useState<'date' | 'code'>('date');
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Reset form ke filter halaman setiap kali dialog dibuka
+  useEffect(() => {
+    if (!open) return;
+    setDataset(defaults.dataset);
+    setFromDate(defaults.fromDate || '');
+    setToDate(defaults.toDate || defaults.fromDate || '');
+    setTickers((defaults.tickers || []).join(', '));
+    setBrokers((defaults.brokers || []).join(', '));
+    setBoard(defaults.board || '');
+    setInvestor(defaults.investor || '');
+    setPivot(defaults.pivot || 'Broker');
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  // broker_transaction memakai ticker ATAU broker sesuai pivot; haka_haki memakai keduanya
+  const showTickers = dataset !== 'broker_transaction' || pivot === 'Stock';
+  const showBrokers = dataset === 'haka_haki' || (dataset === 'broker_transaction' && pivot === 'Broker');
+  const supportsBoard = ['broker_summary', 'broker_transaction', 'haka_haki'].includes(dataset);
+  const supportsInvestor = ['broker_transaction', 'haka_haki'].includes(dataset);
+
+  const handleExport = async () => {
+    if (!fromDate || !toDate) return;
+    const params: DatasetExportParams = {
+      dataset,
+      fromDate,
+      toDate,
+      tickers: showTickers ? parseCodes(tickers) : [],
+      brokers: showBrokers ? parseCodes(brokers) : [],
+      format
+    };
+    if (supportsBoard && board) params.board = board;
+    if (supportsInvestor && investor) params.investor = investor;
+    if (dataset === 'broker_transaction') params.pivot = pivot;
+    if (format === 'xlsx') params.groupBy = groupBy;
+
+    setIsExporting(true);
+    const result = await api.exportDataset(params);
+    setIsExporting(false);
+
+    if (!result.success || !result.data) {
+      showToast({ type: 'error', title: 'Export gagal', message: result.error || '' });
+      return;
+    }
+    if (result.data.rowCount === 0) {
+      showToast({ type: 'warning', title: 'Tidak ada data', message: 'Tidak ada data untuk filter dan rentang tanggal ini.' });
+      return;
+    }
+
+    const url = URL.createObjectURL(result.data.blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = result.data.filename;
+    link.click();
+    URL.revokeObjectURL(url);
+    showToast({
+      type: 'success',
+      title: 'Export selesai',
+      message: `${result.data.rowCount.toLocaleString('id-ID')} baris diexport ke ${result.data.filename}`
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] max-w-lg mx-auto p-6">
+        <DialogHeader>
+          <DialogTitle>Export Data</DialogTitle>
+          <DialogDescription>
+            Export dataset untuk rentang tanggal (maks. 93 hari) dan daftar ticker/broker ke satu file.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 py-2">
+          <div className="sm:col-span-2 space-y-1">
+            <label className="text-sm font-medium">Dataset</label>
+            <select value={dataset} onChange={(e) => setDataset(e.target.value as ExportDatasetName)} className={selectClass}>
+              {DATASET_OPTIONS.map((o) => (
+                <option key={o.value} value={o.value}>{o.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-sm font-medium">From</label>
+            <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className={inputClass} />
+          </div>
+          <div className="space-y-1">
+            <label className="text-sm font-medium">To</label>
+            <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className={inputClass} />
+          </div>
+
+          {dataset === 'broker_transaction' && (
+            <div className="sm:col-span-2 space-y-1">
+              <label className="text-sm font-medium">Pivot</label>
+              <select value={pivot} onChange={(e) => setPivot(e.target.value as 'Broker' | 'Stock')} className={selectClass}>
+                <option value="Broker">Per Broker</option>
+                <option value="Stock">Per Ticker</option>
+              </select>
+            </div>
+          )}
+
+          {showTickers && (
+            <div className="sm:col-span-2 space-y-1">
+              <label className="text-sm font-medium">
+                Tickers {dataset === 'accumulation' && <span className="text-muted-foreground font-normal">(kosongkan = semua)</span>}
+              </label>
+              <input value={tickers} onChange={(e) => setTickers(e.target.value)} placeholder="BBCA, BBRI" className={inputClass} />
+            </div>
+          )}
+          {showBrokers && (
+            <div className="sm:col-span-2 space-y-1">
+              <label className="text-sm font-medium">
+                Brokers {dataset === 'haka_haki' && <span className="text-muted-foreground font-normal">(kosongkan = All)</span>}
+              </label>
+              <input value={brokers} onChange={(e) => setBrokers(e.target.value)} placeholder="YP, CC" className={inputClass} />
+            </div>
+          )}
+
+          {supportsBoard && (
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Board</label>
+              <select value={board} onChange={(e) => setBoard(e.target.value as 'RG' | 'TN' | 'NG' | '')} className={selectClass}>
+                <option value="">All</option>
+                <option value="RG">RG</option>
+                <option value="TN">TN</option>
+                <option value="NG">NG</option>
+              </select>
+            </div>
+          )}
+          {supportsInvestor && (
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Investor</label>
+              <select value={investor} onChange={(e) => setInvestor(e.target.value as 'F' | 'D' | '')} className={selectClass}>
+                <option value="">All</option>
+                <option value="F">Foreign</option>
+                <option value="D">Domestic</option>
+              </select>
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <label className="text-sm font-medium">Format</label>
+            <select value={format} onChange={(e) => setFormat(e.target.value as DatasetExportParams['format'])} className={selectClass}>
+              <option value="xlsx">Excel (.xlsx)</option>
+              <option value="csv">CSV</option>
+              <option value="parquet">Parquet</option>
+            </select>
+          </div>
+          {format === 'xlsx' && (
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Sheet per</label>
+              <select value={groupBy} onChange={(e) => setGroupBy(e.target.value as 'date' | 'code')} className={selectClass}>
+                <option value="date">Tanggal</option>
+                <option value="code">Ticker / Broker</option>
+              </select>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <button
+            onClick={() => onOpenChange(false)}
+            className="h-9 px-4 border border-[#3a4252] rounded-md text-sm hover:bg-muted transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting || !fromDate || !toDate}
+            className="h-9 px-4 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm font-medium flex items-center justify-center gap-2"
+          >
+            {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            Export
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Bell, CheckCheck } from "lucide-react";
+import { api, AlertEvent } from "../../services/api";
+
+// Alert dievaluasi setelah phase scheduler selesai, polling jarang sudah cukup
+const POLL_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Inbox alert in-app di header
+ * - Badge jumlah alert belum dibaca
+ * - Buka dropdown => tampilkan alert terbaru, klik item => tandai dibaca
+ */
+export function AlertInbox() {
+  const [open, setOpen] = useState(false);
+  const [events, setEvents] = useState<AlertEvent[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const wrapRef = useRef<HTMLDivElement | null>(null);
+
+  const loadInbox = useCallback(async () => {
+    setLoading(true);
+    const result = await api.getAlertInbox();
+    if (result.success && result.data) {
+      setEvents(result.data.events);
+      setUnreadCount(result.data.unreadCount);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadInbox();
+    const interval = setInterval(loadInbox, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadInbox]);
+
+  useEffect(() => {
+    const onDocClick = (e: MouseEvent) => {
+      if (!wrapRef.current) return;
+      if (!wrapRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", onDocClick);
+    return () => document.removeEventListener("mousedown", onDocClick);
+  }, []);
+
+  const markRead = async (ids?: string[]) => {
+    const result = await api.markAlertsRead(ids);
+    if (result.success && result.data) {
+      setUnreadCount(result.data.unreadCount);
+      setEvents((prev) => prev.map((event) => (!ids || ids.includes(event.id) ? { ...event, is_read: true } : event)));
+    }
+  };
+
+  return (
+    <div ref={wrapRef} className="relative">
+      <button
+        type="button"
+        className="relative w-9 h-9 flex items-center justify-center rounded-md hover:bg-accent transition"
+        aria-haspopup="menu"
+        aria-expanded={open}
+        onClick={() => {
+          setOpen((v) => !v);
+          if (!open) loadInbox();
+        }}
+        title="Alerts"
+      >
+        <Bell className="w-4 h-4" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[16px] h-4 px-1 rounded-full bg-red-500 text-white text-[10px] leading-4 text-center">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div
+          role="menu"
+          className="absolute right-0 mt-2 w-80 max-h-96 overflow-y-auto rounded-md border border-border bg-popover shadow-lg z-50"
+        >
+          <div className="flex items-center justify-between px-3 py-2 border-b border-border">
+            <span className="text-sm font-medium">Alerts</span>
+            {unreadCount > 0 && (
+              <button
+                className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                onClick={() => markRead()}
+              >
+                <CheckCheck className="w-3 h-3" /> Mark all read
+              </button>
+            )}
+          </div>
+
+          {loading && events.length === 0 ? (
+            <div className="px-3 py-4 text-sm text-muted-foreground">Loading...</div>
+          ) : events.length === 0 ? (
+            <div className="px-3 py-4 text-sm text-muted-foreground">No alerts yet</div>
+          ) : (
+            events.map((event) => (
+              <button
+                key={event.id}
+                role="menuitem"
+                className={`w-full text-left px-3 py-2 hover:bg-accent border-b border-border last:border-b-0 ${
+                  event.is_read ? "" : "bg-accent/40"
+                }`}
+                onClick={() => !event.is_read && markRead([event.id])}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium truncate">{event.rule_name}</span>
+                  {!event.is_read && <span className="w-2 h-2 rounded-full bg-blue-500 shrink-0" />}
+                </div>
+                <div className="text-xs text-muted-foreground mt-0.5">{event.message}</div>
+                <div className="text-[10px] text-muted-foreground mt-0.5">
+                  {new Date(event.created_at).toLocaleString()}
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import { MarketParticipantCard } from './MarketParticipantCard';
 import { OwnershipStructureCard } from './OwnershipStructureCard';
 import { ForeignFlowCard } from './ForeignFlowCard';
 import { BrokerInventoryCard } from './BrokerInventoryCard';
+import { MarketBreadthCard } from './MarketBreadthCard';
 
 export function Dashboard() {
   const { showToast } = useToast();
@@ -50,6 +51,7 @@ export function Dashboard() {
       'ownership-structure': true,
       'foreign-flow': true,
       'broker-inventory': true,
+      'market-breadth': true,
     });
   };
 
@@ -72,6 +74,9 @@ export function Dashboard() {
         onStockSelect={handleStockSelect}
       />
       
+      {/* Market Breadth (market-wide, tidak tergantung saham terpilih) */}
+      <MarketBreadthCard defaultExpanded={expandedSections['market-breadth'] || false} />
+
       {/* Analysis Sections */}
       <div ref={analysisSectionRef} className="space-y-4 sm:space-y-6">
         {/* Done Summary Card */}
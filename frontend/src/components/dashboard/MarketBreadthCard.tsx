@@ -0,0 +1,145 @@
+import { useEffect, useState } from 'react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { CollapsibleSection } from './CollapsibleSection';
+import { api, type MarketBreadthData, type MarketBreadthRow } from '../../services/api';
+
+interface MarketBreadthCardProps {
+  defaultExpanded?: boolean;
+}
+
+const BREADTH_PERIODS = [
+  { label: '1M', days: 22 },
+  { label: '3M', days: 66 },
+  { label: '6M', days: 132 }
+];
+
+const formatDate = (date: string) => `${date.slice(6, 8)}/${date.slice(4, 6)}`;
+
+const formatValue = (num: number | null): string => {
+  if (num === null) return '-';
+  const abs = Math.abs(num);
+  const sign = num < 0 ? '-' : '+';
+  if (abs >= 1e12) return `${sign}${(abs / 1e12).toFixed(2)}T`;
+  if (abs >= 1e9) return `${sign}${(abs / 1e9).toFixed(2)}B`;
+  if (abs >= 1e6) return `${sign}${(abs / 1e6).toFixed(2)}M`;
+  return `${sign}${abs.toLocaleString()}`;
+};
+
+const formatPct = (pct: number | null) => (pct === null ? '-' : `${pct.toFixed(1)}%`);
+
+export function MarketBreadthCard({ defaultExpanded = false }: MarketBreadthCardProps) {
+  const [days, setDays] = useState(22);
+  const [breadth, setBreadth] = useState<MarketBreadthData | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    api.getMarketBreadth(days).then(result => {
+      if (cancelled) return;
+      if (!result.success) {
+        console.warn('No market breadth available:', result.error);
+      }
+      setBreadth(result.success && result.data ? result.data : null);
+      setLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [days]);
+
+  const latest = breadth?.latest ?? null;
+  const chartData = (breadth?.series ?? []).map((row: MarketBreadthRow) => ({
+    date: formatDate(row.Date),
+    Advancers: row.Advancers,
+    Decliners: -row.Decliners,
+    'Above MA20': row.AboveMA20Pct,
+    'Above MA50': row.AboveMA50Pct,
+    'Above MA200': row.AboveMA200Pct
+  }));
+
+  const stat = (label: string, value: string, colorClass = '') => (
+    <div className="rounded-md border border-border p-2">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className={`text-sm font-semibold ${colorClass}`}>{value}</p>
+    </div>
+  );
+
+  return (
+    <CollapsibleSection
+      title="Market Breadth"
+      subtitle={`Market-wide advancers/decliners, new highs/lows and trend participation${latest ? ` (${formatDate(latest.Date)})` : ''}`}
+      defaultExpanded={defaultExpanded}
+    >
+      <div className="space-y-4">
+        <div className="flex justify-end gap-1">
+          {BREADTH_PERIODS.map(period => (
+            <button
+              key={period.days}
+              onClick={() => setDays(period.days)}
+              className={`px-2 py-1 text-xs rounded border border-border ${days === period.days ? 'bg-primary text-primary-foreground' : 'hover:bg-accent'}`}
+            >
+              {period.label}
+            </button>
+          ))}
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading market breadth...</p>
+        ) : !breadth || !latest ? (
+          <p className="text-sm text-muted-foreground">Market breadth is not available yet</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-8 gap-2">
+              {stat('Advancers', latest.Advancers.toLocaleString(), 'text-green-600')}
+              {stat('Decliners', latest.Decliners.toLocaleString(), 'text-red-600')}
+              {stat('New 52W High / Low', `${latest.NewHighs} / ${latest.NewLows}`)}
+              {stat('Above MA20', formatPct(latest.AboveMA20Pct))}
+              {stat('Above MA50', formatPct(latest.AboveMA50Pct))}
+              {stat('Above MA200', formatPct(latest.AboveMA200Pct))}
+              {stat(
+                'Foreign Net',
+                formatValue(latest.ForeignNetValue),
+                (latest.ForeignNetValue ?? 0) >= 0 ? 'text-green-600' : 'text-red-600'
+              )}
+              {stat(
+                'Top / Bottom Sector',
+                latest.TopSector ? `${latest.TopSector} / ${latest.BottomSector}` : '-'
+              )}
+            </div>
+
+            <div className="h-72 w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+                  <XAxis dataKey="date" tick={{ fontSize: 11 }} />
+                  <YAxis yAxisId="count" tick={{ fontSize: 11 }} tickFormatter={(value) => Math.abs(value).toLocaleString()} />
+                  <YAxis yAxisId="pct" orientation="right" domain={[0, 100]} tick={{ fontSize: 11 }} tickFormatter={(value) => `${value}%`} />
+                  <Tooltip
+                    formatter={(value: any, name: any) => {
+                      if (value === null || value === undefined) return ['-', name];
+                      return name === 'Decliners' ? [Math.abs(value), name] : [String(name).startsWith('Above') ? `${value}%` : value, name];
+                    }}
+                    contentStyle={{
+                      backgroundColor: 'hsl(var(--card))',
+                      border: '1px solid hsl(var(--border))',
+                      borderRadius: '6px',
+                      fontSize: '12px'
+                    }}
+                  />
+                  <Legend wrapperStyle={{ fontSize: '12px' }} />
+                  <Bar yAxisId="count" dataKey="Advancers" stackId="breadth" fill="#16a34a" />
+                  <Bar yAxisId="count" dataKey="Decliners" stackId="breadth" fill="#dc2626" />
+                  <Line yAxisId="pct" type="monotone" dataKey="Above MA20" stroke="#3b82f6" dot={false} connectNulls />
+                  <Line yAxisId="pct" type="monotone" dataKey="Above MA50" stroke="#f59e0b" dot={false} connectNulls />
+                  <Line yAxisId="pct" type="monotone" dataKey="Above MA200" stroke="#8b5cf6" dot={false} connectNulls />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Sector net = top 5 net buyer brokers + top 5 net seller brokers in the sector. MA and sector figures for the latest date fill in after the evening broker and accumulation calculations finish.
+            </p>
+          </>
+        )}
+      </div>
+    </CollapsibleSection>
+  );
+}
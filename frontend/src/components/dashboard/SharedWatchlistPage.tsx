@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { api } from '../../services/api';
+
+type SharedWatchlist = NonNullable<Awaited<ReturnType<typeof api.getSharedWatchlist>>['data']>;
+
+/**
+ * Tampilan read-only watchlist yang di-share lewat link (tanpa login)
+ */
+export function SharedWatchlistPage() {
+  const { token } = useParams<{ token: string }>();
+  const [watchlist, setWatchlist] = useState<SharedWatchlist | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!token) return;
+    let isMounted = true;
+    api.getSharedWatchlist(token).then((response) => {
+      if (!isMounted) return;
+      if (response.success && response.data) {
+        setWatchlist(response.data);
+      } else {
+        setError(response.error || 'Shared watchlist not found');
+      }
+      setIsLoading(false);
+    });
+    return () => {
+      isMounted = false;
+    };
+  }, [token]);
+
+  return (
+    <div className="min-h-screen bg-background text-foreground flex justify-center p-6">
+      <Card className="w-full max-w-2xl">
+        <CardHeader>
+          <CardTitle>{watchlist ? watchlist.name : 'Shared Watchlist'}</CardTitle>
+          {watchlist && (
+            <p className="text-xs text-muted-foreground">
+              Read-only · updated {new Date(watchlist.updated_at).toLocaleString()}
+            </p>
+          )}
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Loader2 className="w-6 h-6 animate-spin mx-auto" />
+            </div>
+          ) : error || !watchlist ? (
+            <p className="text-center py-8 text-red-600">{error}</p>
+          ) : watchlist.items.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">This watchlist is empty</p>
+          ) : (
+            <div className="space-y-2">
+              {watchlist.items.map((item) => {
+                const changeClass =
+                  !item.change ? 'text-muted-foreground' : item.change > 0 ? 'text-green-600' : 'text-red-600';
+                return (
+                  <div key={item.symbol} className="flex items-center justify-between p-3 rounded-lg border border-border">
+                    <div className="min-w-0">
+                      <p className="font-medium">{item.symbol}</p>
+                      <p className="text-sm text-muted-foreground truncate">{item.name}</p>
+                      {item.note && <p className="text-xs text-muted-foreground italic truncate">{item.note}</p>}
+                    </div>
+                    <div className="text-right">
+                      <p className="font-medium">{item.price !== null ? item.price.toLocaleString() : '--'}</p>
+                      <p className={`text-sm ${changeClass}`}>
+                        {item.changePercent !== null
+                          ? `${item.changePercent > 0 ? '+' : ''}${item.changePercent.toFixed(2)}%`
+                          : '--'}
+                      </p>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -14,6 +14,7 @@ import {
   LogOut,
   User,
   Shield,
+  FlaskConical,
 } from "lucide-react";
 import { useProfile } from "../../contexts/ProfileContext";
 import { useAuth } from "../../contexts/AuthContext";
@@ -84,6 +85,12 @@ const menuItems = [
     url: "#",
     route: "technical-analysis",
   },
+  {
+    title: "Backtest",
+    icon: FlaskConical,
+    url: "#",
+    route: "backtest",
+  },
 ];
 
 /** ===== BOTTOM MENU ===== */
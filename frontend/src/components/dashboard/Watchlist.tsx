@@ -1,8 +1,12 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
 import { Badge } from '../ui/badge';
-import { TrendingUp, TrendingDown, Star, Search, X, Loader2 } from 'lucide-react';
-import { api } from '../../services/api';
+import { TrendingUp, TrendingDown, Star, Search, X, Loader2, Plus, Upload, Download, Share2, StickyNote, ChevronUp, ChevronDown } from 'lucide-react';
+import { api, UserWatchlist } from '../../services/api';
+
+// Key lama (favorites di localStorage) - dimigrasikan sekali ke list server
+const LEGACY_FAVORITES_KEY = 'watchlist-favorites';
+const ACTIVE_LIST_KEY = 'watchlist-active-list';
 
 interface StockData {
   symbol: string;
@@ -21,19 +25,92 @@ interface WatchlistProps {
 
 export function Watchlist({ selectedStock, onStockSelect, showFavoritesOnly: propShowFavoritesOnly }: WatchlistProps) {
   const [searchQuery, setSearchQuery] = useState('');
-  const [favorites, setFavorites] = useState<string[]>(() => {
-    const saved = localStorage.getItem('watchlist-favorites');
-    return saved ? JSON.parse(saved) : ['BBRI', 'BBCA', 'BMRI'];
-  });
+  const [lists, setLists] = useState<UserWatchlist[]>([]);
+  const [activeListId, setActiveListId] = useState<string | null>(() => localStorage.getItem(ACTIVE_LIST_KEY));
+  const [listMessage, setListMessage] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+  // Migrasi favorites lama cukup sekali per mount (StrictMode menjalankan effect dua kali di dev)
+  const legacyMigrationRef = useRef<Promise<UserWatchlist | null> | null>(null);
   const showFavoritesOnly = propShowFavoritesOnly || false;
   const [showSearchDropdown, setShowSearchDropdown] = useState(false);
   const [stocksData, setStocksData] = useState<StockData[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  const activeList = useMemo(
+    () => lists.find((list) => list.id === activeListId) || lists[0] || null,
+    [lists, activeListId]
+  );
+  const favorites = useMemo(() => activeList?.items.map((item) => item.symbol) || [], [activeList]);
+  const notes = useMemo(
+    () => new Map((activeList?.items || []).map((item) => [item.symbol, item.note])),
+    [activeList]
+  );
+
+  useEffect(() => {
+    if (activeList) {
+      localStorage.setItem(ACTIVE_LIST_KEY, activeList.id);
+    }
+  }, [activeList]);
+
+  const replaceList = useCallback((updated: UserWatchlist) => {
+    setLists((prev) => prev.map((list) => (list.id === updated.id ? updated : list)));
+  }, []);
+
+  const showListMessage = (message: string) => {
+    setListMessage(message);
+    setTimeout(() => setListMessage(null), 4000);
+  };
+
+  // Favorites lama di localStorage => satu list "Favorites" di server, hanya kalau key lama masih ada
+  const migrateLegacyFavorites = async (saved: string): Promise<UserWatchlist | null> => {
+    let legacySymbols: string[] = [];
+    try {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed)) legacySymbols = parsed.filter((symbol): symbol is string => typeof symbol === 'string');
+    } catch {
+      // abaikan data localStorage yang rusak
+    }
+    if (legacySymbols.length === 0) {
+      localStorage.removeItem(LEGACY_FAVORITES_KEY);
+      return null;
+    }
+    const created = await api.createUserWatchlist('Favorites', legacySymbols.map((symbol) => ({ symbol })));
+    if (!created.success || !created.data) return null;
+    localStorage.removeItem(LEGACY_FAVORITES_KEY);
+    return created.data;
+  };
+
+  // Load list dari server; user yang belum punya list dan masih punya favorites lama => migrasi
   useEffect(() => {
-    localStorage.setItem('watchlist-favorites', JSON.stringify(favorites));
-  }, [favorites]);
+    let isMounted = true;
+
+    const loadLists = async () => {
+      const response = await api.getUserWatchlists();
+      if (!response.success || !response.data) {
+        if (isMounted) showListMessage(response.error || 'Failed to load watchlists');
+        return;
+      }
+
+      let serverLists = response.data;
+      if (serverLists.length === 0) {
+        const saved = localStorage.getItem(LEGACY_FAVORITES_KEY);
+        if (!legacyMigrationRef.current && saved) {
+          legacyMigrationRef.current = migrateLegacyFavorites(saved);
+        }
+        const migrated = legacyMigrationRef.current ? await legacyMigrationRef.current : null;
+        if (migrated) serverLists = [migrated];
+      }
+
+      if (isMounted) setLists(serverLists);
+    };
+
+    loadLists();
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
 
   useEffect(() => {
     let isMounted = true;
@@ -80,13 +157,124 @@ export function Watchlist({ selectedStock, onStockSelect, showFavoritesOnly: pro
     };
   }, []);
 
+  const saveItems = async (items: Array<{ symbol: string; note: string | null }>) => {
+    if (!activeList) return;
+    const previous = activeList;
+    // Optimistic update, rollback kalau server gagal
+    replaceList({ ...activeList, items: items.map((item, position) => ({ ...item, position })) });
+    const response = await api.setUserWatchlistItems(activeList.id, items);
+    if (response.success && response.data) {
+      replaceList(response.data);
+    } else {
+      replaceList(previous);
+      showListMessage(response.error || 'Failed to update watchlist');
+    }
+  };
+
   const toggleFavorite = (symbol: string, e: React.MouseEvent) => {
     e.stopPropagation();
-    setFavorites((prev) =>
-      prev.includes(symbol) ? prev.filter((fav) => fav !== symbol) : [...prev, symbol]
+    if (!activeList) return;
+    const items = activeList.items.map((item) => ({ symbol: item.symbol, note: item.note }));
+    saveItems(
+      favorites.includes(symbol)
+        ? items.filter((item) => item.symbol !== symbol)
+        : [...items, { symbol, note: null }]
     );
   };
 
+  const moveFavorite = (symbol: string, direction: -1 | 1, e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!activeList) return;
+    const items = activeList.items.map((item) => ({ symbol: item.symbol, note: item.note }));
+    const index = items.findIndex((item) => item.symbol === symbol);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= items.length) return;
+    [items[index], items[target]] = [items[target]!, items[index]!];
+    saveItems(items);
+  };
+
+  const editNote = async (symbol: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!activeList) return;
+    const note = window.prompt(`Note for ${symbol}`, notes.get(symbol) || '');
+    if (note === null) return;
+    const response = await api.updateUserWatchlistNote(activeList.id, symbol, note.trim() || null);
+    if (response.success && response.data) {
+      replaceList(response.data);
+    } else {
+      showListMessage(response.error || 'Failed to update note');
+    }
+  };
+
+  const handleCreateList = async () => {
+    const name = window.prompt('New watchlist name');
+    if (!name || !name.trim()) return;
+    const response = await api.createUserWatchlist(name.trim());
+    if (response.success && response.data) {
+      setLists((prev) => [...prev, response.data!]);
+      setActiveListId(response.data.id);
+    } else {
+      showListMessage(response.error || 'Failed to create watchlist');
+    }
+  };
+
+  const handleExport = async () => {
+    if (!activeList) return;
+    const response = await api.exportUserWatchlist(activeList.id);
+    if (!response.success || response.data === undefined) {
+      showListMessage(response.error || 'Failed to export watchlist');
+      return;
+    }
+    const blob = new Blob([response.data], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${activeList.name.replace(/[^A-Za-z0-9_-]+/g, '_') || 'watchlist'}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !activeList) return;
+    const response = await api.importUserWatchlist(activeList.id, await file.text());
+    if (response.success && response.data) {
+      replaceList(response.data.list);
+      showListMessage(`Imported ${response.data.imported} symbols`);
+    } else {
+      showListMessage(response.error || 'Failed to import watchlist');
+    }
+  };
+
+  const handleShare = async () => {
+    if (!activeList) return;
+    if (activeList.share_token && window.confirm('Revoke the current share link? Teammates using it will lose access.')) {
+      const response = await api.shareUserWatchlist(activeList.id, true);
+      if (response.success) {
+        replaceList({ ...activeList, share_token: null });
+        showListMessage('Share link revoked');
+      } else {
+        showListMessage(response.error || 'Failed to revoke share link');
+      }
+      return;
+    }
+
+    const token = activeList.share_token || (await api.shareUserWatchlist(activeList.id)).data?.shareToken;
+    if (!token) {
+      showListMessage('Failed to create share link');
+      return;
+    }
+    replaceList({ ...activeList, share_token: token });
+    const link = `${window.location.origin}/watchlist/shared/${token}`;
+    try {
+      await navigator.clipboard.writeText(link);
+      showListMessage('Read-only share link copied to clipboard');
+    } catch {
+      window.prompt('Read-only share link', link);
+    }
+  };
+
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
     setSearchQuery(value);
@@ -144,11 +332,13 @@ export function Watchlist({ selectedStock, onStockSelect, showFavoritesOnly: pro
   const sortedStocks = useMemo(() => {
     const stocks = [...filteredStocks];
     stocks.sort((a, b) => {
-      const aIsFavorite = favorites.includes(a.symbol);
-      const bIsFavorite = favorites.includes(b.symbol);
+      const aIndex = favorites.indexOf(a.symbol);
+      const bIndex = favorites.indexOf(b.symbol);
 
-      if (aIsFavorite && !bIsFavorite) return -1;
-      if (!aIsFavorite && bIsFavorite) return 1;
+      // Favorites mengikuti urutan di list, sisanya alfabetis
+      if (aIndex >= 0 && bIndex >= 0) return aIndex - bIndex;
+      if (aIndex >= 0) return -1;
+      if (bIndex >= 0) return 1;
       return a.symbol.localeCompare(b.symbol);
     });
     return stocks;
@@ -165,6 +355,45 @@ export function Watchlist({ selectedStock, onStockSelect, showFavoritesOnly: pro
           </div>
         </CardTitle>
 
+        <div className="flex items-center gap-1 mb-2">
+          <select
+            value={activeList?.id || ''}
+            onChange={(e) => setActiveListId(e.target.value)}
+            disabled={lists.length === 0}
+            className="flex-1 min-w-0 px-2 py-1 border border-border rounded-md bg-background text-foreground text-sm"
+          >
+            {lists.map((list) => (
+              <option key={list.id} value={list.id}>
+                {list.name} ({list.items.length})
+              </option>
+            ))}
+          </select>
+          <button onClick={handleCreateList} className="p-1.5 rounded-md hover:bg-muted" title="New watchlist">
+            <Plus className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            disabled={!activeList}
+            className="p-1.5 rounded-md hover:bg-muted disabled:opacity-50"
+            title="Import tickers (CSV)"
+          >
+            <Upload className="w-4 h-4" />
+          </button>
+          <button onClick={handleExport} disabled={!activeList} className="p-1.5 rounded-md hover:bg-muted disabled:opacity-50" title="Export CSV">
+            <Download className="w-4 h-4" />
+          </button>
+          <button
+            onClick={handleShare}
+            disabled={!activeList}
+            className={`p-1.5 rounded-md hover:bg-muted disabled:opacity-50 ${activeList?.share_token ? 'text-primary' : ''}`}
+            title={activeList?.share_token ? 'Copy share link (click again to revoke)' : 'Create read-only share link'}
+          >
+            <Share2 className="w-4 h-4" />
+          </button>
+          <input ref={importInputRef} type="file" accept=".csv,text/csv,text/plain" className="hidden" onChange={handleImportFile} />
+        </div>
+        {listMessage && <p className="text-xs text-muted-foreground mb-2">{listMessage}</p>}
+
         <div className="relative">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
           <input
@@ -335,7 +564,27 @@ export function Watchlist({ selectedStock, onStockSelect, showFavoritesOnly: pro
                       </Badge>
                     </div>
                     <p className="text-sm text-muted-foreground truncate">{stock.name}</p>
+                    {notes.get(stock.symbol) && (
+                      <p className="text-xs text-muted-foreground italic truncate">{notes.get(stock.symbol)}</p>
+                    )}
                   </div>
+                  {favorites.includes(stock.symbol) && (
+                    <div className="flex items-center mr-2">
+                      <button onClick={(e) => editNote(stock.symbol, e)} className="p-1 text-muted-foreground hover:text-foreground" title="Edit note">
+                        <StickyNote className="w-3.5 h-3.5" />
+                      </button>
+                      {showFavoritesOnly && (
+                        <div className="flex flex-col">
+                          <button onClick={(e) => moveFavorite(stock.symbol, -1, e)} className="text-muted-foreground hover:text-foreground" title="Move up">
+                            <ChevronUp className="w-3.5 h-3.5" />
+                          </button>
+                          <button onClick={(e) => moveFavorite(stock.symbol, 1, e)} className="text-muted-foreground hover:text-foreground" title="Move down">
+                            <ChevronDown className="w-3.5 h-3.5" />
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  )}
                   <div className="text-right">
                     <p className={`font-medium ${selectedStock === stock.symbol ? 'text-primary' : 'text-card-foreground'}`}>
                       {Number.isFinite(stock.price) ? stock.price.toLocaleString() : '--'}
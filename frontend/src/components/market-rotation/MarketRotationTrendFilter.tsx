@@ -3,7 +3,7 @@ import { Card } from '../ui/card';
 import { Button } from '../ui/button';
 import { Badge } from '../ui/badge';
 import { TrendingUp, TrendingDown, Minus, Search, ChevronLeft, ChevronRight, Loader2, RefreshCw } from 'lucide-react';
-import { api } from '../../services/api';
+import { api, TrendRuleSet } from '../../services/api';
 
 interface TrendStock {
   Symbol: string;
@@ -28,10 +28,13 @@ interface SummaryItem {
   color: string;
 }
 
-const timeframes = ['3D', '5D', '2W', '1M'];
+const DEFAULT_RULE_SET_ID = 'default';
+const DEFAULT_TIMEFRAMES = ['3D', '5D', '2W', '1M'];
 
 export function MarketRotationTrendFilter() {
   const [selectedTimeframe, setSelectedTimeframe] = useState("1M");
+  const [ruleSets, setRuleSets] = useState<TrendRuleSet[]>([]);
+  const [selectedRuleSet, setSelectedRuleSet] = useState(DEFAULT_RULE_SET_ID);
   const [selectedSector, setSelectedSector] = useState("All Sectors");
   const [selectedTrend, setSelectedTrend] = useState("all");
   const [currentPage, setCurrentPage] = useState({
@@ -51,17 +54,40 @@ export function MarketRotationTrendFilter() {
 
   const itemsPerPage = 15;
 
+  const activeRuleSet = ruleSets.find((ruleSet) => ruleSet.id === selectedRuleSet);
+  const timeframes = activeRuleSet ? activeRuleSet.periods.map((period) => period.label) : DEFAULT_TIMEFRAMES;
+
+  // Load available rule sets (default + custom team definitions)
+  useEffect(() => {
+    let mounted = true;
+    api.getTrendRuleSets().then((response) => {
+      if (mounted && response.success && response.data) {
+        setRuleSets(response.data);
+      }
+    });
+    return () => { mounted = false; };
+  }, []);
+
+  const handleRuleSetChange = (ruleSetId: string) => {
+    const ruleSet = ruleSets.find((item) => item.id === ruleSetId);
+    const labels = ruleSet ? ruleSet.periods.map((period) => period.label) : DEFAULT_TIMEFRAMES;
+    if (!labels.includes(selectedTimeframe)) {
+      setSelectedTimeframe(labels[labels.length - 1] || selectedTimeframe);
+    }
+    setSelectedRuleSet(ruleSetId);
+  };
+
   // Load trend data from API
   useEffect(() => {
     let mounted = true;
     (async () => {
-      console.log('🔄 TREND: Loading trend data for timeframe:', selectedTimeframe);
+      console.log('🔄 TREND: Loading trend data for timeframe:', selectedTimeframe, 'rule set:', selectedRuleSet);
 
       try {
         setLoading(true);
         setError(null);
 
-        const response = await api.getTrendFilterData(selectedTimeframe);
+        const response = await api.getTrendFilterData(selectedTimeframe, selectedRuleSet);
 
         if (response.success && response.data) {
           console.log('✅ TREND: Data loaded:', response.data);
@@ -93,8 +119,11 @@ export function MarketRotationTrendFilter() {
             // Debug logging for each stock
             console.log(`🔍 Stock Debug: ${trendStock.Symbol} - trend="${trendLower}", changePct=${changePct}%`);
 
-            // Derive trend from changePct (sum over period) to guard against bad backend labels
-            const derivedLower = changePct > 1 ? 'uptrend' : changePct < -1 ? 'downtrend' : 'sideways';
+            // Default rule set: derive trend from changePct (sum over period) to guard against bad backend labels.
+            // Custom rule sets define their own "uptrend", so the backend label is used as-is.
+            const derivedLower = selectedRuleSet !== DEFAULT_RULE_SET_ID
+              ? trendLower
+              : changePct > 1 ? 'uptrend' : changePct < -1 ? 'downtrend' : 'sideways';
             if (trendLower !== derivedLower) {
               console.warn(`⚠️ Reclassifying trend: ${trendStock.Symbol} - received="${trendLower}" -> derived="${derivedLower}" (changePct=${changePct}%)`);
             }
@@ -160,7 +189,7 @@ export function MarketRotationTrendFilter() {
       }
     })();
     return () => { mounted = false; };
-  }, [selectedTimeframe]);
+  }, [selectedTimeframe, selectedRuleSet]);
 
   // Monitor menu height to detect if it wraps to 2 rows
   useEffect(() => {
@@ -203,7 +232,7 @@ export function MarketRotationTrendFilter() {
       }
       clearTimeout(timeoutId);
     };
-  }, [selectedTimeframe, selectedTrend, selectedSector]);
+  }, [selectedTimeframe, selectedTrend, selectedSector, selectedRuleSet]);
 
 
   const getTrendIcon = (trend: string) => {
@@ -377,10 +406,32 @@ export function MarketRotationTrendFilter() {
             </select>
           </div>
 
+          {/* Rule Set Filter */}
+          {ruleSets.length > 1 && (
+            <div className="flex flex-col md:flex-row md:items-center gap-2 w-full md:w-auto">
+              <label className="text-sm font-medium whitespace-nowrap">Rule Set:</label>
+              <select
+                value={selectedRuleSet}
+                onChange={(e) => handleRuleSetChange(e.target.value)}
+                title={activeRuleSet?.description || ''}
+                className="h-9 px-3 border border-[#3a4252] rounded-md bg-background text-foreground text-sm w-full md:w-auto"
+              >
+                {ruleSets.map((ruleSet) => (
+                  <option key={ruleSet.id} value={ruleSet.id}>
+                    {ruleSet.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Timeframe Filter */}
           <div className="flex flex-col md:flex-row md:items-center gap-2 w-full md:w-auto">
             <label className="text-sm font-medium whitespace-nowrap">Timeframe:</label>
-            <div className="grid grid-cols-4 gap-1 border border-[#3a4252] rounded-lg p-1">
+            <div
+              className="grid gap-1 border border-[#3a4252] rounded-lg p-1"
+              style={{ gridTemplateColumns: `repeat(${Math.max(timeframes.length, 1)}, minmax(0, 1fr))` }}
+            >
               {timeframes.map((tf) => (
                 <Button
                   key={tf}
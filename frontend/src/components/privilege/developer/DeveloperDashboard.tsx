@@ -4,7 +4,7 @@ import { RefreshCw, Shield, AlertTriangle } from "lucide-react";
 import { useProfile } from "../../../contexts/ProfileContext";
 import { useNavigate } from "react-router-dom";
 import { getRoleDisplayName } from "../../../utils/role";
-import { UserStats, UserManagement, DataSchedulerControl, SchedulerLogs, ManualTriggerControl, SchedulerConfigControl } from "../shared";
+import { UserStats, UserManagement, DataSchedulerControl, SchedulerLogs, ManualTriggerControl, SchedulerConfigControl, TradingCalendarControl, JobGraphControl } from "../shared";
 
 export function DeveloperDashboard() {
   const navigate = useNavigate();
@@ -66,9 +66,15 @@ export function DeveloperDashboard() {
       {/* Scheduler Configuration */}
       <SchedulerConfigControl />
 
+      {/* IDX Trading Calendar */}
+      <TradingCalendarControl />
+
       {/* Manual Data Trigger Progress */}
       <ManualTriggerControl />
 
+      {/* Calculation Job Graph */}
+      <JobGraphControl />
+
       {/* Scheduler Data Progress */}
       <DataSchedulerControl />
 
@@ -0,0 +1,225 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../../ui/card";
+import { Button } from "../../ui/button";
+import { Input } from "../../ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../../ui/table";
+import { Loader2, GitBranch, RefreshCw, RotateCcw } from "lucide-react";
+import { useToast } from "../../../contexts/ToastContext";
+import { api, type JobGraphStatus, type JobNodeInfo, type JobNodeStatus } from "../../../services/api";
+import { ConfirmationDialog } from "../../ui/confirmation-dialog";
+
+const STATUS_STYLES: Record<JobNodeStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+  running: 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300',
+  succeeded: 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300',
+  failed: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+  skipped: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/40 dark:text-yellow-300'
+};
+
+// Tanggal hari ini (YYYY-MM-DD) untuk input date
+const todayInput = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+// "phase4_broker_summary" -> "Phase 4"
+const phaseLabel = (phaseId: string) => {
+  const match = phaseId.match(/^phase(\d+[a-z]?)/i);
+  return match ? `Phase ${match[1]}` : phaseId;
+};
+
+const formatDuration = (ms?: number) => {
+  if (ms === undefined) return '-';
+  const seconds = Math.round(ms / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+};
+
+export function JobGraphControl() {
+  const { showToast } = useToast();
+  const [date, setDate] = useState(todayInput());
+  const [loading, setLoading] = useState(false);
+  const [graph, setGraph] = useState<JobGraphStatus | null>(null);
+  const [rerunning, setRerunning] = useState<string | null>(null);
+  const [confirmationDialog, setConfirmationDialog] = useState<{
+    open: boolean;
+    title: string;
+    description: string;
+    onConfirm: () => void;
+  }>({
+    open: false,
+    title: '',
+    description: '',
+    onConfirm: () => {},
+  });
+
+  const loadGraph = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await api.getJobGraph(date.replace(/-/g, ''));
+      if (result.success && result.data) {
+        setGraph(result.data);
+      } else {
+        showToast({
+          type: 'error',
+          title: 'Load Failed',
+          message: result.error || 'Failed to load job graph'
+        });
+      }
+    } catch (error: any) {
+      showToast({
+        type: 'error',
+        title: 'Load Error',
+        message: error.message || 'Failed to load job graph'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [date, showToast]);
+
+  useEffect(() => {
+    loadGraph();
+  }, [loadGraph]);
+
+  const handleRerun = (node: JobNodeInfo) => {
+    const compactDate = date.replace(/-/g, '');
+    const downstream = node.downstream.length > 0
+      ? ` and ${node.downstream.length} downstream job(s): ${node.downstream.join(', ')}`
+      : '';
+    setConfirmationDialog({
+      open: true,
+      title: `Rerun ${node.name}`,
+      description: `Rerun ${node.name}${downstream} for ${date}? Their outputs for this date will be recomputed.`,
+      onConfirm: async () => {
+        setRerunning(node.id);
+        try {
+          const result = await api.rerunJob(node.id, compactDate);
+          if (result.success) {
+            showToast({
+              type: 'success',
+              title: 'Rerun Started',
+              message: result.data?.message || `Rerunning ${node.name}`
+            });
+            setTimeout(() => loadGraph(), 1000);
+          } else {
+            showToast({
+              type: 'error',
+              title: 'Rerun Failed',
+              message: result.error || 'Failed to rerun job'
+            });
+          }
+        } catch (error: any) {
+          showToast({
+            type: 'error',
+            title: 'Rerun Error',
+            message: error.message || 'Failed to rerun job'
+          });
+        } finally {
+          setRerunning(null);
+        }
+      },
+    });
+  };
+
+  const nodes = graph?.nodes || [];
+  const failedCount = nodes.filter(node => node.state?.status === 'failed').length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <GitBranch className="w-5 h-5" />
+            <span className="text-lg sm:text-xl">Calculation Jobs</span>
+          </div>
+          <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-2">
+            <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="sm:w-44 h-9" />
+            <Button onClick={loadGraph} disabled={loading} variant="outline" size="sm" className="w-full sm:w-auto">
+              {loading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+              Refresh
+            </Button>
+          </div>
+        </CardTitle>
+        <CardDescription className="mt-2">
+          Phase 2 - 8 calculators as job nodes with declared inputs/outputs, retries and timeouts. Rerun a node to recompute it and everything downstream of it for the selected date.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {graph && (
+          <div className="flex flex-wrap gap-4 text-sm mb-4">
+            <span><span className="font-medium">Jobs:</span> {nodes.length}</span>
+            <span><span className="font-medium">Failed:</span> <span className={failedCount > 0 ? 'text-red-600' : ''}>{failedCount}</span></span>
+            {graph.rerunActive && <span className="text-blue-600 font-medium">Rerun in progress</span>}
+          </div>
+        )}
+        <div className="overflow-x-auto border border-border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Phase</TableHead>
+                <TableHead>Job</TableHead>
+                <TableHead>Depends On</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Duration</TableHead>
+                <TableHead>Error</TableHead>
+                <TableHead className="w-24"><span className="sr-only">Rerun</span></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {nodes.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground">
+                    {loading ? 'Loading jobs...' : 'No jobs registered'}
+                  </TableCell>
+                </TableRow>
+              ) : nodes.map(node => (
+                <TableRow key={node.id}>
+                  <TableCell className="whitespace-nowrap text-muted-foreground">{phaseLabel(node.phaseId)}</TableCell>
+                  <TableCell>
+                    <div className="font-medium">{node.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      retry {node.retry.attempts}x, timeout {formatDuration(node.timeoutMs)}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">{node.upstream.length > 0 ? node.upstream.join(', ') : '-'}</TableCell>
+                  <TableCell>
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[node.state?.status || 'pending']}`}>
+                      {node.state ? node.state.status : 'not run'}
+                    </span>
+                  </TableCell>
+                  <TableCell>{node.state?.attempts ?? '-'}</TableCell>
+                  <TableCell className="whitespace-nowrap">{formatDuration(node.state?.durationMs)}</TableCell>
+                  <TableCell className="text-xs text-red-600 max-w-xs">
+                    <span className="block truncate" title={node.state?.error || ''}>{node.state?.error || ''}</span>
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      onClick={() => handleRerun(node)}
+                      disabled={rerunning !== null || graph?.rerunActive || node.state?.status === 'running'}
+                      size="sm"
+                      variant={node.state?.status === 'failed' ? 'default' : 'outline'}
+                      className="h-7"
+                    >
+                      {rerunning === node.id ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <RotateCcw className="w-3 h-3 mr-1" />}
+                      Rerun
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <ConfirmationDialog
+        open={confirmationDialog.open}
+        onOpenChange={(open) => setConfirmationDialog({ ...confirmationDialog, open })}
+        title={confirmationDialog.title}
+        description={confirmationDialog.description}
+        onConfirm={confirmationDialog.onConfirm}
+        confirmText="Yes"
+        cancelText="No"
+      />
+    </Card>
+  );
+}
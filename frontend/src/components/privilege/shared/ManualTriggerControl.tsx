@@ -3,9 +3,12 @@ import { Card, CardContent, CardHeader, CardTitle } from "../../ui/card";
 import { Button } from "../../ui/button";
 import { Badge } from "../../ui/badge";
 import { Progress } from "../../ui/progress";
-import { Loader2, CheckCircle, AlertCircle, X, RefreshCw, Play } from "lucide-react";
+import { Input } from "../../ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../../ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../ui/select";
+import { Loader2, CheckCircle, AlertCircle, X, RefreshCw, Play, History, RotateCcw } from "lucide-react";
 import { useToast } from "../../../contexts/ToastContext";
-import { api } from "../../../services/api";
+import { api, type BackfillJob, type BackfillMode, type BackfillOverview } from "../../../services/api";
 import { ConfirmationDialog } from "../../ui/confirmation-dialog";
 import { supabase } from "../../../lib/supabase";
 import { Checkbox } from "../../ui/checkbox";
@@ -43,6 +46,7 @@ const MANUAL_TRIGGERS_BY_PHASE: PhaseGroup[] = [
       { name: "Stock Data", type: "stock", description: "Update stock data from TICMI API" },
       { name: "Index Data", type: "index", description: "Update index data from TICMI API" },
       { name: "Done Summary Data", type: "done-summary", description: "Update done summary from GCS" },
+      { name: "Data Quality", type: "data-quality", description: "Validate OHLC and DT files, repair/quarantine bad rows and write daily quality report" },
     ]
   },
   {
@@ -69,6 +73,8 @@ const MANUAL_TRIGGERS_BY_PHASE: PhaseGroup[] = [
       { name: "Foreign Flow", type: "foreign-flow", description: "Calculate foreign flow data" },
       { name: "Break Done Trade", type: "break-done-trade", description: "Break down done trade data by stock code" },
       { name: "HAKA HAKI Analysis", type: "haka-haki-analysis", description: "Analyze HAKA/HAKI for all stocks from Done Summary" },
+      { name: "Intraday OHLC", type: "stock-intraday", description: "Build 1/5/15/30/60 minute candles per stock from Done Summary" },
+      { name: "Market Breadth", type: "market-breadth", description: "Advancers/decliners, new highs/lows, % above MA, foreign net and sector leaders" },
     ]
   },
   {
@@ -114,10 +120,19 @@ const MANUAL_TRIGGERS_BY_PHASE: PhaseGroup[] = [
     items: [
       { name: "Broker Inventory", type: "broker-inventory", description: "Calculate broker inventory data" },
       { name: "Accumulation Distribution", type: "accumulation", description: "Calculate accumulation distribution data" },
+      { name: "Broker Clustering", type: "broker-clustering", description: "Detect broker groups that move together (per emiten and global)" },
     ]
   },
 ];
 
+// YYYYMMDD -> YYYY-MM-DD
+const formatCompactDate = (date: string) => (date.length === 8 ? `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}` : date);
+
+const BACKFILL_MODE_LABELS: Record<BackfillMode, string> = {
+  skip_existing: 'Skip existing',
+  overwrite: 'Overwrite'
+};
+
 export function ManualTriggerControl() {
   const { showToast } = useToast();
   const [runningTasks, setRunningTasks] = useState<RunningTask[]>([]);
@@ -127,6 +142,14 @@ export function ManualTriggerControl() {
   const [selectedTaskIds, setSelectedTaskIds] = useState<Set<string>>(new Set());
   const [bulkCancelDialogOpen, setBulkCancelDialogOpen] = useState(false);
   const [cancellingBulk, setCancellingBulk] = useState(false);
+  const [backfill, setBackfill] = useState<BackfillOverview | null>(null);
+  const [loadingBackfill, setLoadingBackfill] = useState(false);
+  const [backfillFeature, setBackfillFeature] = useState('');
+  const [backfillFrom, setBackfillFrom] = useState('');
+  const [backfillTo, setBackfillTo] = useState('');
+  const [backfillMode, setBackfillMode] = useState<BackfillMode>('skip_existing');
+  const [startingBackfill, setStartingBackfill] = useState(false);
+  const [resumingJobId, setResumingJobId] = useState<string | null>(null);
   const [confirmationDialog, setConfirmationDialog] = useState<{
     open: boolean;
     title: string;
@@ -256,9 +279,25 @@ export function ManualTriggerControl() {
     }
   }, [normalizeFeatureName]);
 
+  // Load backfill-capable calculators and recent backfill jobs
+  const loadBackfill = useCallback(async () => {
+    setLoadingBackfill(true);
+    try {
+      const result = await api.getBackfillJobs();
+      if (result.success && result.data) {
+        setBackfill(result.data);
+      }
+    } catch (error) {
+      console.error('Error loading backfill jobs:', error);
+    } finally {
+      setLoadingBackfill(false);
+    }
+  }, []);
+
   // Load on mount and listen for status changes via Supabase realtime
   useEffect(() => {
     loadRunningTasks();
+    loadBackfill();
 
     // Subscribe to scheduler_logs table changes
     const channel = supabase
@@ -277,6 +316,9 @@ export function ManualTriggerControl() {
           if (featureName && !featureName.startsWith('phase')) {
             // Refresh this section when a manual trigger completes
             loadRunningTasks();
+            if (featureName.startsWith('backfill_')) {
+              loadBackfill();
+            }
           }
         }
       )
@@ -301,7 +343,7 @@ export function ManualTriggerControl() {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [loadRunningTasks]);
+  }, [loadRunningTasks, loadBackfill]);
 
   // Handle manual trigger
   const handleTriggerDataUpdate = async (type: string) => {
@@ -362,6 +404,61 @@ export function ManualTriggerControl() {
     });
   };
 
+  // Start a historical backfill for the selected calculator and date range
+  const handleStartBackfill = () => {
+    const feature = backfill?.features.find(f => f.feature === backfillFeature);
+    if (!feature || !backfillFrom || !backfillTo) {
+      showToast({ type: 'error', title: 'Incomplete Backfill', message: 'Please select a calculator and a date range' });
+      return;
+    }
+    if (backfillFrom > backfillTo) {
+      showToast({ type: 'error', title: 'Invalid Range', message: 'From date must not be after To date' });
+      return;
+    }
+
+    setConfirmationDialog({
+      open: true,
+      title: 'Start Backfill',
+      description: backfillMode === 'overwrite'
+        ? `Recompute ${feature.name} for every DT date from ${backfillFrom} to ${backfillTo}? Existing outputs will be overwritten and dependent datasets marked stale.`
+        : `Compute ${feature.name} for DT dates from ${backfillFrom} to ${backfillTo} that have no output yet?`,
+      onConfirm: async () => {
+        setStartingBackfill(true);
+        try {
+          const result = await api.startBackfill(feature.feature, backfillFrom, backfillTo, backfillMode);
+          if (result.success) {
+            showToast({ type: 'success', title: 'Backfill Started', message: result.message || `Backfill ${feature.name} started` });
+            await Promise.all([loadBackfill(), loadRunningTasks()]);
+          } else {
+            showToast({ type: 'error', title: 'Backfill Failed', message: result.error || 'Failed to start backfill' });
+          }
+        } catch (error: any) {
+          showToast({ type: 'error', title: 'Backfill Error', message: error.message || 'Failed to start backfill' });
+        } finally {
+          setStartingBackfill(false);
+        }
+      },
+    });
+  };
+
+  // Resume a backfill from its unfinished (and failed) dates
+  const handleResumeBackfill = async (job: BackfillJob) => {
+    setResumingJobId(job.id);
+    try {
+      const result = await api.resumeBackfill(job.id);
+      if (result.success) {
+        showToast({ type: 'success', title: 'Backfill Resumed', message: result.message || `Backfill ${job.featureName} resumed` });
+        await Promise.all([loadBackfill(), loadRunningTasks()]);
+      } else {
+        showToast({ type: 'error', title: 'Resume Failed', message: result.error || 'Failed to resume backfill' });
+      }
+    } catch (error: any) {
+      showToast({ type: 'error', title: 'Resume Error', message: error.message || 'Failed to resume backfill' });
+    } finally {
+      setResumingJobId(null);
+    }
+  };
+
   // Cancel a running task
   const handleCancelTask = async (logId: string, featureName: string) => {
     setConfirmationDialog({
@@ -664,6 +761,146 @@ export function ManualTriggerControl() {
         </CardContent>
       </Card>
 
+      {/* Historical Backfill - recompute one calculator for a date range */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <div className="flex items-center gap-2">
+              <History className="w-5 h-5" />
+              <span className="text-lg sm:text-xl">Historical Backfill</span>
+            </div>
+            <Button
+              onClick={loadBackfill}
+              disabled={loadingBackfill}
+              variant="outline"
+              size="sm"
+              className="w-full sm:w-auto"
+            >
+              {loadingBackfill ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <RefreshCw className="w-4 h-4 mr-2" />
+              )}
+              Refresh
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Runs the calculator once per DT date in the range. Skip existing only fills dates without output; overwrite recomputes every date.
+            Progress is saved per date, so a cancelled or interrupted backfill can be resumed.
+          </p>
+          <div className="flex flex-col lg:flex-row gap-2">
+            <Select value={backfillFeature} onValueChange={setBackfillFeature}>
+              <SelectTrigger className="w-full lg:w-72">
+                <SelectValue placeholder="Select calculator" />
+              </SelectTrigger>
+              <SelectContent>
+                {(backfill?.features || []).map(feature => (
+                  <SelectItem key={feature.feature} value={feature.feature}>{feature.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input type="date" value={backfillFrom} onChange={(e) => setBackfillFrom(e.target.value)} className="lg:w-44" />
+            <Input type="date" value={backfillTo} onChange={(e) => setBackfillTo(e.target.value)} className="lg:w-44" />
+            <Select value={backfillMode} onValueChange={(value) => setBackfillMode(value as BackfillMode)}>
+              <SelectTrigger className="w-full lg:w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="skip_existing">{BACKFILL_MODE_LABELS.skip_existing}</SelectItem>
+                <SelectItem value="overwrite">{BACKFILL_MODE_LABELS.overwrite}</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={handleStartBackfill}
+              disabled={startingBackfill || !!backfill?.activeJobId}
+              size="sm"
+              className="h-10"
+            >
+              {startingBackfill ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Play className="w-4 h-4 mr-2" />
+              )}
+              Start Backfill
+            </Button>
+          </div>
+
+          <div className="overflow-x-auto border border-border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Calculator</TableHead>
+                  <TableHead>Range</TableHead>
+                  <TableHead>Mode</TableHead>
+                  <TableHead>Dates</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-28"><span className="sr-only">Actions</span></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(backfill?.jobs || []).length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">
+                      {loadingBackfill ? 'Loading backfills...' : 'No backfills yet'}
+                    </TableCell>
+                  </TableRow>
+                ) : backfill!.jobs.map(job => {
+                  const failedCount = Object.keys(job.failedDates).length;
+                  return (
+                    <TableRow key={job.id}>
+                      <TableCell>
+                        <div className="font-medium">{job.featureName}</div>
+                        <div className="text-xs text-muted-foreground">By: {job.triggeredBy}</div>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{formatCompactDate(job.fromDate)} - {formatCompactDate(job.toDate)}</TableCell>
+                      <TableCell>{BACKFILL_MODE_LABELS[job.mode]}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {job.completedDates.length}/{job.dates.length}
+                        {failedCount > 0 && (
+                          <span className="ml-2 text-xs text-red-600" title={Object.entries(job.failedDates).map(([date, error]) => `${date}: ${error}`).join('\n')}>
+                            {failedCount} failed
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell>{getStatusBadge(job.status)}</TableCell>
+                      <TableCell>
+                        {job.status === 'running' && job.logId ? (
+                          <Button
+                            onClick={() => handleCancelTask(job.logId!, `Backfill ${job.featureName}`)}
+                            variant="destructive"
+                            size="sm"
+                            className="h-7"
+                          >
+                            Cancel
+                          </Button>
+                        ) : job.status !== 'completed' && (
+                          <Button
+                            onClick={() => handleResumeBackfill(job)}
+                            disabled={resumingJobId !== null || !!backfill?.activeJobId}
+                            variant="outline"
+                            size="sm"
+                            className="h-7"
+                          >
+                            {resumingJobId === job.id ? (
+                              <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                            ) : (
+                              <RotateCcw className="w-3 h-3 mr-1" />
+                            )}
+                            Resume
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Manual Data Trigger Progress - Running Tasks */}
       <Card>
         <CardHeader>
@@ -0,0 +1,266 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../../ui/card";
+import { Button } from "../../ui/button";
+import { Input } from "../../ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../../ui/table";
+import { Loader2, CalendarDays, Save, RefreshCw, Plus, Trash2 } from "lucide-react";
+import { useToast } from "../../../contexts/ToastContext";
+import { api, type MarketHoliday, type MarketHalfDay, type TradingCalendarData } from "../../../services/api";
+
+// YYYYMMDD -> YYYY-MM-DD
+const formatDate = (date?: string) => (date && date.length === 8 ? `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}` : date || '-');
+
+const dayName = (date: string) =>
+  new Date(`${formatDate(date)}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short' });
+
+export function TradingCalendarControl() {
+  const { showToast } = useToast();
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [calendar, setCalendar] = useState<TradingCalendarData | null>(null);
+  const [holidays, setHolidays] = useState<MarketHoliday[]>([]);
+  const [halfDays, setHalfDays] = useState<MarketHalfDay[]>([]);
+  const [dirty, setDirty] = useState(false);
+  const [newDate, setNewDate] = useState('');
+  const [newDescription, setNewDescription] = useState('');
+  const [newCloseTime, setNewCloseTime] = useState('');
+
+  const loadCalendar = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await api.getTradingCalendar();
+      if (result.success && result.data) {
+        setCalendar(result.data);
+        setHolidays(result.data.holidays);
+        setHalfDays(result.data.halfDays);
+        setDirty(false);
+      } else {
+        showToast({
+          type: 'error',
+          title: 'Load Failed',
+          message: result.error || 'Failed to load trading calendar'
+        });
+      }
+    } catch (error: any) {
+      showToast({
+        type: 'error',
+        title: 'Load Error',
+        message: error.message || 'Failed to load trading calendar'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [showToast]);
+
+  useEffect(() => {
+    loadCalendar();
+  }, [loadCalendar]);
+
+  // Close time diisi -> half day, kosong -> libur penuh
+  const handleAdd = () => {
+    const date = newDate.replace(/-/g, '');
+    if (date.length !== 8) {
+      showToast({ type: 'error', title: 'Invalid Date', message: 'Please pick a date' });
+      return;
+    }
+    if (holidays.some(h => h.date === date) || halfDays.some(h => h.date === date)) {
+      showToast({ type: 'error', title: 'Duplicate Date', message: `${formatDate(date)} is already in the calendar` });
+      return;
+    }
+
+    const description = newDescription.trim();
+    if (newCloseTime) {
+      setHalfDays(prev => [...prev, { date, closeTime: newCloseTime, description }].sort((a, b) => a.date.localeCompare(b.date)));
+    } else {
+      setHolidays(prev => [...prev, { date, description }].sort((a, b) => a.date.localeCompare(b.date)));
+    }
+    setNewDate('');
+    setNewDescription('');
+    setNewCloseTime('');
+    setDirty(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const result = await api.updateTradingCalendar(holidays, halfDays);
+      if (result.success) {
+        showToast({
+          type: 'success',
+          title: 'Calendar Saved',
+          message: `${holidays.length} holidays and ${halfDays.length} half days saved`
+        });
+        await loadCalendar();
+      } else {
+        showToast({
+          type: 'error',
+          title: 'Save Failed',
+          message: result.error || 'Failed to save trading calendar'
+        });
+      }
+    } catch (error: any) {
+      showToast({
+        type: 'error',
+        title: 'Save Error',
+        message: error.message || 'Failed to save trading calendar'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <CalendarDays className="w-5 h-5" />
+            <span className="text-lg sm:text-xl">IDX Trading Calendar</span>
+          </div>
+          <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-2">
+            <Button onClick={loadCalendar} disabled={loading || saving} variant="outline" size="sm" className="w-full sm:w-auto">
+              {loading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+              Refresh
+            </Button>
+            <Button onClick={handleSave} disabled={!dirty || saving} size="sm" className="w-full sm:w-auto">
+              {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+              Save
+            </Button>
+          </div>
+        </CardTitle>
+        <CardDescription className="mt-2">
+          Market holidays (including cuti bersama) and shortened sessions. Scheduled phases skip non-trading days and calculators use this calendar to find the previous trading day.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {calendar && (
+          <div className="p-3 sm:p-4 bg-muted rounded-lg grid grid-cols-1 sm:grid-cols-3 gap-2 text-sm">
+            <div>
+              <span className="font-medium">Today: </span>
+              <span className="text-muted-foreground">{formatDate(calendar.today)}</span>
+              <span className={`ml-2 font-medium ${calendar.isTradingDay ? 'text-green-600' : 'text-red-600'}`}>
+                {calendar.isTradingDay ? 'Trading day' : 'Market closed'}
+              </span>
+            </div>
+            <div>
+              <span className="font-medium">Previous trading day: </span>
+              <span className="text-muted-foreground">{formatDate(calendar.previousTradingDay)}</span>
+            </div>
+            <div>
+              <span className="font-medium">Last updated: </span>
+              <span className="text-muted-foreground">
+                {calendar.updatedAt ? `${new Date(calendar.updatedAt).toLocaleString()}${calendar.updatedBy ? ` by ${calendar.updatedBy}` : ''}` : 'Default (fixed-date holidays only)'}
+              </span>
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-col md:flex-row gap-2">
+          <Input type="date" value={newDate} onChange={(e) => setNewDate(e.target.value)} className="md:w-44" />
+          <Input
+            type="text"
+            value={newDescription}
+            onChange={(e) => setNewDescription(e.target.value)}
+            placeholder="Description, e.g. Idul Fitri"
+            className="flex-1"
+          />
+          <Input
+            type="time"
+            value={newCloseTime}
+            onChange={(e) => setNewCloseTime(e.target.value)}
+            className="md:w-32"
+            title="Fill in close time for a half day, leave empty for a full holiday"
+          />
+          <Button onClick={handleAdd} variant="outline" size="sm" className="h-10">
+            <Plus className="w-4 h-4 mr-2" />
+            {newCloseTime ? 'Add Half Day' : 'Add Holiday'}
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+          <div>
+            <h4 className="text-sm font-semibold mb-2">Holidays ({holidays.length})</h4>
+            <div className="max-h-96 overflow-y-auto border border-border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="w-12"><span className="sr-only">Remove</span></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {holidays.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={3} className="text-center text-muted-foreground">No holidays</TableCell>
+                    </TableRow>
+                  ) : holidays.map(holiday => (
+                    <TableRow key={holiday.date}>
+                      <TableCell className="whitespace-nowrap">{formatDate(holiday.date)} <span className="text-xs text-muted-foreground">{dayName(holiday.date)}</span></TableCell>
+                      <TableCell>{holiday.description || '-'}</TableCell>
+                      <TableCell>
+                        <Button
+                          onClick={() => {
+                            setHolidays(prev => prev.filter(h => h.date !== holiday.date));
+                            setDirty(true);
+                          }}
+                          size="sm"
+                          variant="ghost"
+                          className="h-6 px-2"
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold mb-2">Half Days ({halfDays.length})</h4>
+            <div className="max-h-96 overflow-y-auto border border-border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Close</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="w-12"><span className="sr-only">Remove</span></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {halfDays.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-muted-foreground">No half days</TableCell>
+                    </TableRow>
+                  ) : halfDays.map(halfDay => (
+                    <TableRow key={halfDay.date}>
+                      <TableCell className="whitespace-nowrap">{formatDate(halfDay.date)} <span className="text-xs text-muted-foreground">{dayName(halfDay.date)}</span></TableCell>
+                      <TableCell>{halfDay.closeTime}</TableCell>
+                      <TableCell>{halfDay.description || '-'}</TableCell>
+                      <TableCell>
+                        <Button
+                          onClick={() => {
+                            setHalfDays(prev => prev.filter(h => h.date !== halfDay.date));
+                            setDirty(true);
+                          }}
+                          size="sm"
+                          variant="ghost"
+                          className="h-6 px-2"
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
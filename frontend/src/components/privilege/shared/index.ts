@@ -5,3 +5,5 @@ export { SchedulerLogs } from './SchedulerLogs';
 export { ManualTriggerControl } from './ManualTriggerControl';
 export { SchedulerConfigControl } from './SchedulerConfigControl';
 
+export { TradingCalendarControl } from './TradingCalendarControl';
+export { JobGraphControl } from './JobGraphControl';
@@ -0,0 +1,421 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Checkbox } from "../ui/checkbox";
+import { ConfirmationDialog } from "../ui/confirmation-dialog";
+import { BellRing, Pencil, Trash2, Pause, Play, Plus, X, Loader2 } from "lucide-react";
+import { api, AlertRule } from "../../services/api";
+import { useToast } from "../../contexts/ToastContext";
+
+type RuleType = AlertRule["rule_type"];
+
+const RULE_TYPE_LABELS: Record<RuleType, string> = {
+  foreign_net_buy: "Foreign net buy",
+  mfi: "Money Flow Index",
+  rrg_quadrant: "RRG quadrant",
+  trend: "Trend",
+  broker_accumulation: "Broker accumulation",
+};
+
+const selectClass = "h-9 px-3 border border-[#3a4252] rounded-md bg-background text-foreground text-sm w-full";
+
+interface RuleForm {
+  id: string | null;
+  name: string;
+  rule_type: RuleType;
+  stockCode: string;
+  brokerCode: string;
+  operator: ">" | "<";
+  threshold: string;
+  days: string;
+  metric: "value" | "volume";
+  quadrant: "LEADING" | "WEAKENING" | "LAGGING" | "IMPROVING";
+  period: "3D" | "5D" | "2W" | "1M";
+  trend: "Uptrend" | "Sideways" | "Downtrend";
+  email: boolean;
+  webhook: boolean;
+  webhookUrl: string;
+}
+
+const emptyForm = (): RuleForm => ({
+  id: null,
+  name: "",
+  rule_type: "foreign_net_buy",
+  stockCode: "",
+  brokerCode: "",
+  operator: ">",
+  threshold: "",
+  days: "1",
+  metric: "value",
+  quadrant: "LEADING",
+  period: "1M",
+  trend: "Uptrend",
+  email: false,
+  webhook: false,
+  webhookUrl: "",
+});
+
+const formFromRule = (rule: AlertRule): RuleForm => {
+  const p = rule.params || {};
+  return {
+    ...emptyForm(),
+    id: rule.id,
+    name: rule.name,
+    rule_type: rule.rule_type,
+    stockCode: p["stockCode"] ?? "",
+    brokerCode: p["brokerCode"] ?? "",
+    operator: p["operator"] ?? ">",
+    threshold: String(p["threshold"] ?? p["thresholdLots"] ?? ""),
+    days: String(p["days"] ?? 1),
+    metric: p["metric"] ?? "value",
+    quadrant: p["quadrant"] ?? "LEADING",
+    period: p["period"] ?? "1M",
+    trend: p["trend"] ?? "Uptrend",
+    email: rule.channels.includes("email"),
+    webhook: rule.channels.includes("webhook"),
+    webhookUrl: rule.webhook_url ?? "",
+  };
+};
+
+// Params mengikuti schema per rule type di backend (alertService ALERT_RULE_PARAM_SCHEMAS)
+const paramsFromForm = (form: RuleForm): Record<string, any> => {
+  const stockCode = form.stockCode.trim().toUpperCase();
+  switch (form.rule_type) {
+    case "foreign_net_buy":
+      return { stockCode, operator: form.operator, threshold: Number(form.threshold), days: Number(form.days) || 1, metric: form.metric };
+    case "mfi":
+      return { stockCode, operator: form.operator, threshold: Number(form.threshold) };
+    case "rrg_quadrant":
+      return { stockCode, quadrant: form.quadrant };
+    case "trend":
+      return { stockCode, period: form.period, trend: form.trend };
+    case "broker_accumulation":
+      return { stockCode, brokerCode: form.brokerCode.trim().toUpperCase(), operator: form.operator, thresholdLots: Number(form.threshold) };
+  }
+};
+
+const describeRule = (rule: AlertRule): string => {
+  const p = rule.params || {};
+  switch (rule.rule_type) {
+    case "foreign_net_buy":
+      return `${p["stockCode"]} foreign net buy ${p["metric"] === "volume" ? "volume" : "value"} ${p["operator"]} ${Number(p["threshold"]).toLocaleString("id-ID")} selama ${p["days"] ?? 1} hari`;
+    case "mfi":
+      return `${p["stockCode"]} MFI ${p["operator"]} ${p["threshold"]}`;
+    case "rrg_quadrant":
+      return `${p["stockCode"]} masuk kuadran RRG ${p["quadrant"]}`;
+    case "trend":
+      return `${p["stockCode"]} trend ${p["period"]} = ${p["trend"]}`;
+    case "broker_accumulation":
+      return `${p["brokerCode"]} akumulasi ${p["stockCode"]} ${p["operator"]} ${Number(p["thresholdLots"]).toLocaleString("id-ID")} lot`;
+  }
+};
+
+export function AlertRulesCard() {
+  const { showToast } = useToast();
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [form, setForm] = useState<RuleForm | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<AlertRule | null>(null);
+
+  const loadRules = async () => {
+    const result = await api.getAlertRules();
+    if (result.success && result.data) {
+      setRules(result.data);
+    } else if (result.error) {
+      showToast({ type: "error", title: "Gagal memuat alert rule", message: result.error });
+    }
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadRules();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const updateForm = (changes: Partial<RuleForm>) => setForm((prev) => (prev ? { ...prev, ...changes } : prev));
+
+  const handleSave = async () => {
+    if (!form || !form.name.trim() || !form.stockCode.trim()) return;
+    const channels: Array<"email" | "webhook"> = [];
+    if (form.email) channels.push("email");
+    if (form.webhook) channels.push("webhook");
+
+    setIsBusy(true);
+    const result = await api.saveAlertRule(
+      {
+        name: form.name.trim(),
+        rule_type: form.rule_type,
+        params: paramsFromForm(form),
+        channels,
+        webhook_url: form.webhook && form.webhookUrl.trim() ? form.webhookUrl.trim() : null,
+      },
+      form.id ?? undefined
+    );
+    setIsBusy(false);
+    if (!result.success) {
+      showToast({ type: "error", title: "Gagal menyimpan alert rule", message: result.error || "" });
+      return;
+    }
+    setForm(null);
+    await loadRules();
+  };
+
+  const handleToggleActive = async (rule: AlertRule) => {
+    setIsBusy(true);
+    const result = await api.saveAlertRule(
+      { name: rule.name, rule_type: rule.rule_type, params: rule.params, is_active: !rule.is_active },
+      rule.id
+    );
+    setIsBusy(false);
+    if (!result.success) {
+      showToast({ type: "error", title: "Gagal mengubah status rule", message: result.error || "" });
+      return;
+    }
+    await loadRules();
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!pendingDelete) return;
+    setIsBusy(true);
+    const result = await api.deleteAlertRule(pendingDelete.id);
+    setIsBusy(false);
+    if (!result.success) {
+      showToast({ type: "error", title: "Gagal menghapus alert rule", message: result.error || "" });
+    }
+    setPendingDelete(null);
+    await loadRules();
+  };
+
+  const needsOperator = form && ["foreign_net_buy", "mfi", "broker_accumulation"].includes(form.rule_type);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="w-5 h-5" />
+          Alert Rules
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="px-4 sm:px-6 space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Rule dievaluasi setiap kali data harian selesai dihitung. Alert yang cocok muncul di inbox (ikon lonceng), dan bisa juga
+          dikirim lewat email atau webhook (https).
+        </p>
+
+        {form ? (
+          <div className="rounded-md border p-3 space-y-3">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              <Input
+                placeholder="Nama rule, mis. BBRI asing masuk"
+                value={form.name}
+                maxLength={100}
+                onChange={(e) => updateForm({ name: e.target.value })}
+              />
+              <select
+                value={form.rule_type}
+                onChange={(e) => updateForm({ rule_type: e.target.value as RuleType })}
+                className={selectClass}
+              >
+                {(Object.keys(RULE_TYPE_LABELS) as RuleType[]).map((type) => (
+                  <option key={type} value={type}>
+                    {RULE_TYPE_LABELS[type]}
+                  </option>
+                ))}
+              </select>
+              <Input
+                placeholder="Kode saham, mis. BBRI"
+                value={form.stockCode}
+                maxLength={10}
+                onChange={(e) => updateForm({ stockCode: e.target.value.toUpperCase() })}
+              />
+              {form.rule_type === "broker_accumulation" && (
+                <Input
+                  placeholder="Kode broker, mis. YP"
+                  value={form.brokerCode}
+                  maxLength={5}
+                  onChange={(e) => updateForm({ brokerCode: e.target.value.toUpperCase() })}
+                />
+              )}
+              {needsOperator && (
+                <div className="flex gap-2">
+                  <select
+                    value={form.operator}
+                    onChange={(e) => updateForm({ operator: e.target.value as ">" | "<" })}
+                    className={`${selectClass} w-20`}
+                  >
+                    <option value=">">&gt;</option>
+                    <option value="<">&lt;</option>
+                  </select>
+                  <Input
+                    type="number"
+                    placeholder={form.rule_type === "broker_accumulation" ? "Lot" : "Threshold"}
+                    value={form.threshold}
+                    onChange={(e) => updateForm({ threshold: e.target.value })}
+                  />
+                </div>
+              )}
+              {form.rule_type === "foreign_net_buy" && (
+                <div className="flex gap-2">
+                  <select
+                    value={form.metric}
+                    onChange={(e) => updateForm({ metric: e.target.value as "value" | "volume" })}
+                    className={selectClass}
+                  >
+                    <option value="value">Value (Rp)</option>
+                    <option value="volume">Volume</option>
+                  </select>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={30}
+                    placeholder="Hari"
+                    value={form.days}
+                    onChange={(e) => updateForm({ days: e.target.value })}
+                  />
+                </div>
+              )}
+              {form.rule_type === "rrg_quadrant" && (
+                <select
+                  value={form.quadrant}
+                  onChange={(e) => updateForm({ quadrant: e.target.value as RuleForm["quadrant"] })}
+                  className={selectClass}
+                >
+                  {["LEADING", "WEAKENING", "LAGGING", "IMPROVING"].map((quadrant) => (
+                    <option key={quadrant} value={quadrant}>
+                      {quadrant}
+                    </option>
+                  ))}
+                </select>
+              )}
+              {form.rule_type === "trend" && (
+                <div className="flex gap-2">
+                  <select
+                    value={form.period}
+                    onChange={(e) => updateForm({ period: e.target.value as RuleForm["period"] })}
+                    className={selectClass}
+                  >
+                    {["3D", "5D", "2W", "1M"].map((period) => (
+                      <option key={period} value={period}>
+                        {period}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={form.trend}
+                    onChange={(e) => updateForm({ trend: e.target.value as RuleForm["trend"] })}
+                    className={selectClass}
+                  >
+                    {["Uptrend", "Sideways", "Downtrend"].map((trend) => (
+                      <option key={trend} value={trend}>
+                        {trend}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+              <label className="flex items-center gap-2">
+                <Checkbox checked={form.email} onCheckedChange={(checked) => updateForm({ email: checked === true })} />
+                Email
+              </label>
+              <label className="flex items-center gap-2">
+                <Checkbox checked={form.webhook} onCheckedChange={(checked) => updateForm({ webhook: checked === true })} />
+                Webhook
+              </label>
+            </div>
+            {form.webhook && (
+              <Input
+                placeholder="https://example.com/webhook"
+                value={form.webhookUrl}
+                onChange={(e) => updateForm({ webhookUrl: e.target.value })}
+              />
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => setForm(null)} disabled={isBusy}>
+                <X className="w-4 h-4 mr-2" />
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={isBusy || !form.name.trim() || !form.stockCode.trim()}>
+                {isBusy && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {form.id ? "Save Rule" : "Create Rule"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button variant="outline" onClick={() => setForm(emptyForm())}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Rule
+          </Button>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" /> Loading...
+          </div>
+        ) : rules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Belum ada alert rule.</p>
+        ) : (
+          <div className="divide-y border rounded-md">
+            {rules.map((rule) => (
+              <div key={rule.id} className="p-3 flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4">
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium break-words">{rule.name}</span>
+                    <Badge
+                      className={
+                        rule.is_active
+                          ? "bg-green-100 text-green-800 border-green-200"
+                          : "bg-gray-100 text-gray-800 border-gray-200"
+                      }
+                    >
+                      {rule.is_active ? "Active" : "Paused"}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {describeRule(rule)}
+                    {rule.channels.length > 0 ? ` · ${rule.channels.join(", ")}` : ""}
+                    {rule.last_value ? ` · Terakhir: ${rule.last_value}` : ""}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Button size="sm" variant="ghost" title={rule.is_active ? "Pause" : "Resume"} disabled={isBusy} onClick={() => handleToggleActive(rule)}>
+                    {rule.is_active ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                  </Button>
+                  <Button size="sm" variant="ghost" title="Edit" onClick={() => setForm(formFromRule(rule))}>
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    title="Delete"
+                    className="text-red-600 hover:text-red-700"
+                    onClick={() => setPendingDelete(rule)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <ConfirmationDialog
+        open={pendingDelete !== null}
+        onOpenChange={(open) => !open && setPendingDelete(null)}
+        title="Delete alert rule?"
+        description={`"${pendingDelete?.name ?? ""}" akan dihapus dan tidak dievaluasi lagi.`}
+        onConfirm={handleConfirmDelete}
+        confirmText="Delete"
+        cancelText="Cancel"
+        isLoading={isBusy}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,271 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { ConfirmationDialog } from "../ui/confirmation-dialog";
+import { KeyRound, Copy, RefreshCw, Trash2, Pencil, Check, X, Loader2, Crown } from "lucide-react";
+import { api, ApiKeyRecord } from "../../services/api";
+import { useToast } from "../../contexts/ToastContext";
+
+const API_URL = (import.meta as any).env?.VITE_API_URL || "http://localhost:3001";
+
+const formatDateTime = (value: string | null) =>
+  value ? new Date(value).toLocaleString("id-ID", { dateStyle: "medium", timeStyle: "short" }) : "Never";
+
+export function ApiKeysCard() {
+  const navigate = useNavigate();
+  const { showToast } = useToast();
+  const [keys, setKeys] = useState<ApiKeyRecord[]>([]);
+  const [maxKeys, setMaxKeys] = useState(5);
+  const [apiAccess, setApiAccess] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [newKeyName, setNewKeyName] = useState("");
+  // Secret hanya tersedia sekali setelah create/rotate
+  const [revealedKey, setRevealedKey] = useState<{ id: string; key: string } | null>(null);
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const [pendingAction, setPendingAction] = useState<{ type: "rotate" | "revoke"; key: ApiKeyRecord } | null>(null);
+
+  const loadKeys = async () => {
+    const result = await api.getApiKeys();
+    if (result.success && result.data) {
+      setKeys(result.data.keys);
+      setMaxKeys(result.data.maxKeys);
+      setApiAccess(result.data.apiAccess);
+    } else if (result.error) {
+      showToast({ type: "error", title: "Gagal memuat API key", message: result.error });
+    }
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadKeys();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const activeKeys = keys.filter((k) => k.is_active);
+
+  const handleCreate = async () => {
+    const name = newKeyName.trim();
+    if (!name) return;
+    setIsBusy(true);
+    const result = await api.createApiKey(name);
+    setIsBusy(false);
+    if (!result.success || !result.data) {
+      showToast({ type: "error", title: "Gagal membuat API key", message: result.error || "" });
+      return;
+    }
+    setNewKeyName("");
+    setRevealedKey({ id: result.data.record.id, key: result.data.key });
+    await loadKeys();
+  };
+
+  const handleRename = async () => {
+    if (!editing || !editing.name.trim()) return;
+    setIsBusy(true);
+    const result = await api.renameApiKey(editing.id, editing.name.trim());
+    setIsBusy(false);
+    if (!result.success) {
+      showToast({ type: "error", title: "Gagal mengganti nama", message: result.error || "" });
+      return;
+    }
+    setEditing(null);
+    await loadKeys();
+  };
+
+  const handleConfirmAction = async () => {
+    if (!pendingAction) return;
+    const { type, key } = pendingAction;
+    setIsBusy(true);
+    if (type === "rotate") {
+      const result = await api.rotateApiKey(key.id);
+      if (result.success && result.data) {
+        setRevealedKey({ id: key.id, key: result.data.key });
+      } else {
+        showToast({ type: "error", title: "Gagal rotate API key", message: result.error || "" });
+      }
+    } else {
+      const result = await api.revokeApiKey(key.id);
+      if (result.success) {
+        if (revealedKey?.id === key.id) setRevealedKey(null);
+        showToast({ type: "success", title: "API key direvoke", message: `${key.name} tidak bisa dipakai lagi.` });
+      } else {
+        showToast({ type: "error", title: "Gagal revoke API key", message: result.error || "" });
+      }
+    }
+    setIsBusy(false);
+    setPendingAction(null);
+    await loadKeys();
+  };
+
+  const copyKey = async (value: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      showToast({ type: "success", title: "Disalin", message: "API key disalin ke clipboard." });
+    } catch {
+      showToast({ type: "error", title: "Gagal menyalin", message: "Salin API key secara manual." });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="w-5 h-5" />
+          API Keys
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="px-4 sm:px-6 space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Gunakan API key untuk menarik data (broker summary, foreign flow, inventory, dll) dari notebook atau script.
+          Kirim lewat header <code className="text-xs bg-muted px-1 py-0.5 rounded">X-API-Key</code>, contoh:{" "}
+          <code className="text-xs bg-muted px-1 py-0.5 rounded break-all">
+            curl -H "X-API-Key: gk_..." {API_URL}/api/broker-summary/...
+          </code>
+        </p>
+
+        {revealedKey && (
+          <div className="rounded-md border border-amber-300 bg-amber-50 dark:bg-amber-950/30 p-3 space-y-2">
+            <p className="text-sm font-medium">Simpan API key ini sekarang - tidak akan ditampilkan lagi.</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 text-xs bg-background border rounded px-2 py-1.5 break-all">{revealedKey.key}</code>
+              <Button size="sm" variant="outline" onClick={() => copyKey(revealedKey.key)}>
+                <Copy className="w-4 h-4" />
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setRevealedKey(null)}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" /> Loading...
+          </div>
+        ) : (
+          <>
+            {apiAccess ? (
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  placeholder="Nama key, mis. Jupyter notebook"
+                  value={newKeyName}
+                  maxLength={60}
+                  onChange={(e) => setNewKeyName(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+                  disabled={isBusy || activeKeys.length >= maxKeys}
+                />
+                <Button onClick={handleCreate} disabled={isBusy || !newKeyName.trim() || activeKeys.length >= maxKeys}>
+                  {isBusy ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <KeyRound className="w-4 h-4 mr-2" />}
+                  Create Key
+                </Button>
+              </div>
+            ) : (
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-md border p-3">
+                <p className="text-sm text-muted-foreground">Plan kamu belum termasuk akses API.</p>
+                <Button size="sm" onClick={() => navigate("/subscription")}>
+                  <Crown className="w-4 h-4 mr-2" />
+                  Upgrade Plan
+                </Button>
+              </div>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              {activeKeys.length}/{maxKeys} active keys
+            </p>
+
+            {keys.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Belum ada API key.</p>
+            ) : (
+              <div className="divide-y border rounded-md">
+                {keys.map((key) => (
+                  <div key={key.id} className="p-3 flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4">
+                    <div className="flex-1 min-w-0 space-y-1">
+                      {editing?.id === key.id ? (
+                        <div className="flex items-center gap-2">
+                          <Input
+                            value={editing.name}
+                            maxLength={60}
+                            onChange={(e) => setEditing({ id: key.id, name: e.target.value })}
+                            onKeyDown={(e) => e.key === "Enter" && handleRename()}
+                            className="h-8"
+                          />
+                          <Button size="sm" variant="ghost" onClick={handleRename} disabled={isBusy}>
+                            <Check className="w-4 h-4" />
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => setEditing(null)}>
+                            <X className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-medium break-words">{key.name}</span>
+                          <code className="text-xs text-muted-foreground">{key.key_prefix}…</code>
+                          <Badge
+                            className={
+                              key.is_active
+                                ? "bg-green-100 text-green-800 border-green-200"
+                                : "bg-gray-100 text-gray-800 border-gray-200"
+                            }
+                          >
+                            {key.is_active ? "Active" : "Revoked"}
+                          </Badge>
+                        </div>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        {key.request_count.toLocaleString("id-ID")} requests · Last used {formatDateTime(key.last_used_at)}
+                        {key.last_used_ip ? ` (${key.last_used_ip})` : ""} · Created {formatDateTime(key.created_at)}
+                      </p>
+                    </div>
+                    {key.is_active && (
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        <Button size="sm" variant="ghost" title="Rename" onClick={() => setEditing({ id: key.id, name: key.name })}>
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          title="Rotate"
+                          disabled={!apiAccess}
+                          onClick={() => setPendingAction({ type: "rotate", key })}
+                        >
+                          <RefreshCw className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          title="Revoke"
+                          className="text-red-600 hover:text-red-700"
+                          onClick={() => setPendingAction({ type: "revoke", key })}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <ConfirmationDialog
+        open={pendingAction !== null}
+        onOpenChange={(open) => !open && setPendingAction(null)}
+        title={pendingAction?.type === "rotate" ? "Rotate API key?" : "Revoke API key?"}
+        description={
+          pendingAction?.type === "rotate"
+            ? `Secret baru akan dibuat untuk "${pendingAction?.key.name}". Secret lama langsung tidak berlaku.`
+            : `"${pendingAction?.key.name ?? ""}" akan dinonaktifkan permanen. Script yang memakai key ini akan berhenti bekerja.`
+        }
+        onConfirm={handleConfirmAction}
+        confirmText={pendingAction?.type === "rotate" ? "Rotate" : "Revoke"}
+        cancelText="Cancel"
+        isLoading={isBusy}
+      />
+    </Card>
+  );
+}
@@ -7,6 +7,8 @@ import { Button } from "../ui/button";
 import { Calendar, Shield, CreditCard, Edit, Lock, Loader2, User, Crown, Clock } from "lucide-react";
 import { EditProfile } from "./EditProfile";
 import { EditPassword } from "./EditPassword";
+import { ApiKeysCard } from "./ApiKeysCard";
+import { AlertRulesCard } from "./AlertRulesCard";
 import { useProfile } from "../../contexts/ProfileContext";
 import { api } from "../../services/api";
 import { useToast } from "../../contexts/ToastContext";
@@ -442,6 +444,9 @@ export function ProfilePage() {
             </CardContent>
           </Card>
 
+          <ApiKeysCard />
+          <AlertRulesCard />
+
           <Card>
             <CardHeader className="pb-2">
               <CardTitle>Recent Activity</CardTitle>
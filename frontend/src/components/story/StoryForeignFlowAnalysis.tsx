@@ -1,16 +1,27 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
-import { api } from '../../services/api';
+import { api, type ForeignTopFlowsData } from '../../services/api';
 
 interface StoryForeignFlowAnalysisProps {
   selectedStock?: string;
 }
 
+const TOP_FLOW_PERIODS = [
+  { days: 1, label: '1D' },
+  { days: 5, label: '1W' },
+  { days: 20, label: '1M' }
+];
+
+const normalizeDate = (date: string) => String(date || '').replace(/[^0-9]/g, '');
+
 export function StoryForeignFlowAnalysis({ selectedStock: propSelectedStock }: StoryForeignFlowAnalysisProps) {
   const [selectedStock, setSelectedStock] = useState(propSelectedStock || 'BBRI');
   const [foreignFlowDataReal, setForeignFlowDataReal] = useState<any[]>([]);
   const [loading, setLoading] = useState(false);
+  const [topFlows, setTopFlows] = useState<ForeignTopFlowsData | null>(null);
+  const [topFlowDays, setTopFlowDays] = useState(1);
+  const [topFlowsLoading, setTopFlowsLoading] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
   const resizeTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const [chartKey, setChartKey] = useState(0);
@@ -44,6 +55,14 @@ export function StoryForeignFlowAnalysis({ selectedStock: propSelectedStock }: S
             sellVol: row.SellVol,
             netBuyVol: row.NetBuyVol
           }));
+
+          // Posisi net kumulatif, di-anchor ke tanggal paling awal yang ditampilkan
+          const anchor = foreignData.map(row => normalizeDate(row.time)).filter(Boolean).sort()[0];
+          const cumulativeResponse = await api.getForeignCumulative(selectedStock, anchor);
+          if (cumulativeResponse.success && cumulativeResponse.data?.data) {
+            const cumulativeByDate = new Map(cumulativeResponse.data.data.map(point => [point.Date, point.CumulativeNetVol]));
+            foreignData = foreignData.map(row => ({ ...row, cumulativeNetVol: cumulativeByDate.get(normalizeDate(row.time)) ?? null }));
+          }
           setForeignFlowDataReal(foreignData);
           console.log(`✅ Foreign flow data loaded: ${foreignData.length} records`);
         } else {
@@ -61,6 +80,21 @@ export function StoryForeignFlowAnalysis({ selectedStock: propSelectedStock }: S
     fetchForeignFlowData();
   }, [selectedStock]);
 
+  // Ranking top foreign inflow/outflow se-market
+  useEffect(() => {
+    let cancelled = false;
+    setTopFlowsLoading(true);
+    api.getForeignTopFlows(topFlowDays, 10, 'value').then(result => {
+      if (cancelled) return;
+      if (!result.success) {
+        console.warn('No foreign flow ranking available:', result.error);
+      }
+      setTopFlows(result.success && result.data ? result.data : null);
+      setTopFlowsLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [topFlowDays]);
+
   // Debounced resize handler to prevent loop - AGGRESSIVE throttling
   const handleResize = useCallback(() => {
     if (isResizingRef.current) return;
@@ -132,6 +166,72 @@ export function StoryForeignFlowAnalysis({ selectedStock: propSelectedStock }: S
     return num.toLocaleString();
   };
 
+  const formatSigned = (num: number): string => `${num < 0 ? '-' : '+'}${formatNumber(Math.abs(num))}`;
+
+  const renderTopFlowList = (title: string, rows: ForeignTopFlowsData['inflow'], colorClass: string) => (
+    <div>
+      <h4 className="text-sm font-medium mb-2">{title}</h4>
+      {rows.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No data</p>
+      ) : (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-muted-foreground">
+              <th className="text-left font-normal py-1">Stock</th>
+              <th className="text-right font-normal py-1">Net Value</th>
+              <th className="text-right font-normal py-1">Net Volume</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.Stock} className={`border-t border-border ${row.Stock === selectedStock ? 'bg-accent' : ''}`}>
+                <td className="py-1 font-medium">{row.Stock}</td>
+                <td className={`py-1 text-right ${colorClass}`}>{formatSigned(row.NetBuyValue)}</td>
+                <td className={`py-1 text-right ${colorClass}`}>{formatSigned(row.NetBuyVol)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+
+  const topFlowsPanel = (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle>Top Foreign Inflow / Outflow</CardTitle>
+          <div className="flex gap-1">
+            {TOP_FLOW_PERIODS.map(period => (
+              <button
+                key={period.days}
+                onClick={() => setTopFlowDays(period.days)}
+                className={`px-2 py-1 text-xs rounded border border-border ${topFlowDays === period.days ? 'bg-primary text-primary-foreground' : 'hover:bg-accent'}`}
+              >
+                {period.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Market-wide net foreign value{topFlows?.dates.length ? ` over ${topFlows.dates.length} trading day(s) up to ${topFlows.dates[0]}` : ''}
+        </p>
+      </CardHeader>
+      <CardContent>
+        {topFlowsLoading ? (
+          <p className="text-sm text-muted-foreground">Loading ranking...</p>
+        ) : !topFlows ? (
+          <p className="text-sm text-muted-foreground">Foreign flow ranking is not available yet</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {renderTopFlowList('Top Inflow', topFlows.inflow, 'text-green-600')}
+            {renderTopFlowList('Top Outflow', topFlows.outflow, 'text-red-600')}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+
   // Custom tooltip formatter
   const customTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
@@ -168,94 +268,111 @@ export function StoryForeignFlowAnalysis({ selectedStock: propSelectedStock }: S
 
   if (foreignFlowDataReal.length === 0) {
     return (
-      <Card>
-        <CardContent className="flex items-center justify-center py-8">
-          <div className="text-center">
-            <p className="text-muted-foreground">No foreign flow data available for {selectedStock}</p>
-          </div>
-        </CardContent>
-      </Card>
+      <div className="space-y-4">
+        <Card>
+          <CardContent className="flex items-center justify-center py-8">
+            <div className="text-center">
+              <p className="text-muted-foreground">No foreign flow data available for {selectedStock}</p>
+            </div>
+          </CardContent>
+        </Card>
+        {topFlowsPanel}
+      </div>
     );
   }
 
   return (
-    <Card>
-      <CardHeader>
-        <CardTitle>{selectedStock} - Foreign Flow Analysis</CardTitle>
-        <p className="text-sm text-muted-foreground">
-          Foreign investor buying and selling activity. Positive net = Foreign net buy (bullish), Negative net = Foreign net sell (bearish)
-        </p>
-      </CardHeader>
-      <CardContent>
-        <div 
-          ref={containerRef} 
-          className="w-full" 
-          style={{ 
-            height: '320px', 
-            width: '100%',
-            position: 'relative',
-            overflow: 'hidden',
-            minWidth: '100%'
-          }}
-        >
-          <ResponsiveContainer 
-            width={chartDimensions.width || '100%'} 
-            height={chartDimensions.height || 320} 
-            key={`${chartKey}-${chartDimensions.width}-${chartDimensions.height}`}
-            debounce={500}
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>{selectedStock} - Foreign Flow Analysis</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Foreign investor buying and selling activity. Positive net = Foreign net buy (bullish), Negative net = Foreign net sell (bearish)
+          </p>
+        </CardHeader>
+        <CardContent>
+          <div 
+            ref={containerRef} 
+            className="w-full" 
+            style={{ 
+              height: '320px', 
+              width: '100%',
+              position: 'relative',
+              overflow: 'hidden',
+              minWidth: '100%'
+            }}
           >
-            <ComposedChart 
-              data={foreignFlowDataReal} 
-              margin={{ top: 10, right: 10, left: 10, bottom: 10 }}
+            <ResponsiveContainer 
+              width={chartDimensions.width || '100%'} 
+              height={chartDimensions.height || 320} 
+              key={`${chartKey}-${chartDimensions.width}-${chartDimensions.height}`}
+              debounce={500}
             >
-              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
-              <XAxis 
-                dataKey="time" 
-                axisLine={false}
-                tickLine={false}
-                tick={{ fontSize: 10, fill: 'hsl(var(--muted-foreground))' }}
-                allowDataOverflow={false}
-              />
-              <YAxis 
-                yAxisId="left"
-                axisLine={false}
-                tickLine={false}
-                tick={{ fontSize: 10, fill: 'hsl(var(--muted-foreground))' }}
-                tickFormatter={formatNumber}
-                label={{ value: 'Volume', angle: -90, position: 'insideLeft', style: { fontSize: 12 } }}
-                allowDataOverflow={false}
-                width={60}
-              />
-              <YAxis 
-                yAxisId="right"
-                orientation="right"
-                axisLine={false}
-                tickLine={false}
-                tick={{ fontSize: 10, fill: 'hsl(var(--muted-foreground))' }}
-                tickFormatter={formatNumber}
-                label={{ value: 'Net Buy Volume', angle: 90, position: 'insideRight', style: { fontSize: 12 } }}
-                allowDataOverflow={false}
-                width={80}
-              />
-              <Tooltip 
-                content={customTooltip}
-              />
-              <Legend />
-              <Bar yAxisId="left" dataKey="buyVol" fill="#10b981" name="Foreign Buy" />
-              <Bar yAxisId="left" dataKey="sellVol" fill="#ef4444" name="Foreign Sell" />
-              <Line 
-                yAxisId="right" 
-                type="monotone" 
-                dataKey="netBuyVol" 
-                stroke="#3b82f6" 
-                strokeWidth={2}
-                name="Net Buy Volume"
-                dot={false}
-              />
-            </ComposedChart>
-          </ResponsiveContainer>
-        </div>
-      </CardContent>
-    </Card>
+              <ComposedChart 
+                data={foreignFlowDataReal} 
+                margin={{ top: 10, right: 10, left: 10, bottom: 10 }}
+              >
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
+                <XAxis 
+                  dataKey="time" 
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{ fontSize: 10, fill: 'hsl(var(--muted-foreground))' }}
+                  allowDataOverflow={false}
+                />
+                <YAxis 
+                  yAxisId="left"
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{ fontSize: 10, fill: 'hsl(var(--muted-foreground))' }}
+                  tickFormatter={formatNumber}
+                  label={{ value: 'Volume', angle: -90, position: 'insideLeft', style: { fontSize: 12 } }}
+                  allowDataOverflow={false}
+                  width={60}
+                />
+                <YAxis 
+                  yAxisId="right"
+                  orientation="right"
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{ fontSize: 10, fill: 'hsl(var(--muted-foreground))' }}
+                  tickFormatter={formatNumber}
+                  label={{ value: 'Net Buy Volume', angle: 90, position: 'insideRight', style: { fontSize: 12 } }}
+                  allowDataOverflow={false}
+                  width={80}
+                />
+                <Tooltip 
+                  content={customTooltip}
+                />
+                <Legend />
+                <Bar yAxisId="left" dataKey="buyVol" fill="#10b981" name="Foreign Buy" />
+                <Bar yAxisId="left" dataKey="sellVol" fill="#ef4444" name="Foreign Sell" />
+                <Line 
+                  yAxisId="right" 
+                  type="monotone" 
+                  dataKey="netBuyVol" 
+                  stroke="#3b82f6" 
+                  strokeWidth={2}
+                  name="Net Buy Volume"
+                  dot={false}
+                />
+                <Line
+                  yAxisId="right"
+                  type="monotone"
+                  dataKey="cumulativeNetVol"
+                  stroke="#f59e0b"
+                  strokeWidth={2}
+                  strokeDasharray="4 2"
+                  name="Cumulative Net"
+                  dot={false}
+                  connectNulls
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </CardContent>
+      </Card>
+      {topFlowsPanel}
+    </div>
   );
 }
@@ -3,7 +3,7 @@ import { Card } from '../ui/card';
 import { Settings as SettingsIcon, BarChart2, Search, Plus, X } from 'lucide-react';
 // import { Button } from '../ui/button';
 import { FootprintChart } from '../footprint/FootprintChart';
-import { api } from '../../services/api';
+import { api, type IntradayInterval } from '../../services/api';
 import { STOCK_LIST, loadStockList } from '../../data/stockList';
 import { menuPreferencesService } from '../../services/menuPreferences';
 import {
@@ -14,6 +14,8 @@ import {
   calculateStochastic,
   calculateVolumeHistogram,
   calculateBuySellFrequency,
+  calculateVWAP,
+  calculateVolumeProfile,
   calculateDailyShio,
   calculateDailyElement,
   getDailyShioInfo,
@@ -21,7 +23,8 @@ import {
   SHIO_INFO,
   ELEMENT_INFO,
   IndicatorEditor,
-  type OhlcRow
+  type OhlcRow,
+  type PriceLevelRow
 } from './indicators';
 
 // Error Boundary Component
@@ -104,6 +107,17 @@ declare global {
 type ChartStyle = 'line' | 'candles' | 'footprint';
 type Timeframe = '1M' | '5M' | '15M' | '30M' | '1H' | '1D' | '1W' | '1MO' | '3M' | '6M' | '1Y';
 
+// Timeframe intraday diambil dari bar yang sudah dibangun di backend (DT done-summary)
+const INTRADAY_TIMEFRAME_MINUTES: Partial<Record<Timeframe, IntradayInterval>> = {
+  '1M': 1,
+  '5M': 5,
+  '15M': 15,
+  '30M': 30,
+  '1H': 60
+};
+// Jumlah sesi bursa yang dimuat untuk timeframe intraday
+const INTRADAY_SESSIONS = 3;
+
 export type IndicatorData = {
   time: number;
   value: number;
@@ -112,7 +126,7 @@ export type IndicatorData = {
 type Indicator = {
   id: string;
   name: string;
-  type: 'ma' | 'sma' | 'ema' | 'rsi' | 'macd' | 'stochastic' | 'volume_histogram' | 'buy_sell_frequency' | 'daily_shio' | 'daily_element';
+  type: 'ma' | 'sma' | 'ema' | 'rsi' | 'macd' | 'stochastic' | 'volume_histogram' | 'buy_sell_frequency' | 'vwap' | 'volume_profile' | 'daily_shio' | 'daily_element';
   period: number;
   color: string;
   enabled: boolean;
@@ -122,8 +136,16 @@ type Indicator = {
   displayMode?: 'emoji' | 'shape'; // For Daily Shio and Daily Element - display mode
   shape?: 'circle' | 'square' | 'arrowUp' | 'arrowDown'; // For Daily Shio and Daily Element - marker shape
   shapeColors?: Record<string, string>; // For Daily Shio and Daily Element - custom colors per shio/element (overrides default colors)
+  vwapMode?: 'session' | 'anchored'; // For VWAP
+  anchorDate?: string; // For anchored VWAP - YYYYMMDD
+  bandMultipliers?: number[]; // For VWAP - standard deviation band multipliers (0 = hidden)
+  valueAreaPercent?: number; // For Volume Profile - share of volume inside the value area (period = lookback days)
 };
 
+// Bar volume profile dalam koordinat pixel container chart
+type VolumeProfileBar = { top: number; height: number; width: number; color: string };
+type VolumeProfileLine = { top: number; label: string; color: string };
+
 
 // Removed utility functions - now using API data directly
 
@@ -504,12 +526,14 @@ export const TechnicalAnalysisTradingView = React.memo(function TechnicalAnalysi
     showDownColor: true
   });
   const [rows, setRows] = useState<OhlcRow[]>([]);
+  const [intradayRows, setIntradayRows] = useState<OhlcRow[]>([]);
   const [, setSrc] = useState<'file' | 'mock' | 'none'>('none');
   const [, setPlotted] = useState(0);
   const [err, setErr] = useState<string | null>(null);
   const [isLoadingData, setIsLoadingData] = useState<boolean>(false);
   const [bidAskData, setBidAskData] = useState<any[]>([]);
   const [indicatorSeriesReady, setIndicatorSeriesReady] = useState<{ [key: string]: boolean }>({});
+  const [volumeProfileOverlay, setVolumeProfileOverlay] = useState<{ bars: VolumeProfileBar[]; lines: VolumeProfileLine[] }>({ bars: [], lines: [] });
   const [indicatorReloaded, setIndicatorReloaded] = useState<{ [key: string]: boolean }>({});
   const [searchQuery, setSearchQuery] = useState<string>(selectedStock || initialPrefs.symbol || 'BBCA');
   const [showSearchDropdown, setShowSearchDropdown] = useState<boolean>(false);
@@ -693,6 +717,10 @@ export const TechnicalAnalysisTradingView = React.memo(function TechnicalAnalysi
   const indicatorRefs = useRef<{ [key: string]: any }>({});
   // Track any auxiliary series added for a single indicator (e.g., MACD signal, Stochastic %D)
   const indicatorAuxRefs = useRef<{ [key: string]: any[] }>({});
+  // Input volume profile aktif; dibaca ulang tiap visible range berubah
+  const volumeProfileRef = useRef<{ indicator: Indicator; rows: OhlcRow[]; priceLevels: PriceLevelRow[] } | null>(null);
+  // Unsubscribe listener viewport volume profile milik chart/series yang sedang aktif
+  const volumeProfileListenerRef = useRef<(() => void) | null>(null);
 
   // Separate chart refs for indicators
   const indicatorChartRefs = useRef<{ [key: string]: IChartApi }>({});
@@ -710,6 +738,8 @@ export const TechnicalAnalysisTradingView = React.memo(function TechnicalAnalysi
       'stochastic': 14,
       'volume_histogram': 1,
       'buy_sell_frequency': 14,
+      'vwap': 1,
+      'volume_profile': 20,
       'daily_shio': 1,
       'daily_element': 1
     };
@@ -719,6 +749,8 @@ export const TechnicalAnalysisTradingView = React.memo(function TechnicalAnalysi
       name: type === 'ma' ? `MA (${maMode === 'exponential' ? 'Exponential' : 'Simple'})` :
         type === 'stochastic' ? '%K (Stochastic)' :
           type === 'buy_sell_frequency' ? 'Buy / Sell Frequency' :
+            type === 'vwap' ? 'Session VWAP' :
+            type === 'volume_profile' ? 'Volume Profile' :
             type === 'daily_shio' ? 'Daily Shio' :
               type === 'daily_element' ? 'Daily Element' :
                 `${type.toUpperCase()}`,
@@ -728,6 +760,8 @@ export const TechnicalAnalysisTradingView = React.memo(function TechnicalAnalysi
       enabled: true,
       separateScale,
       ...(type === 'ma' && { maMode }),
+      ...(type === 'vwap' ? { vwapMode: 'session' as const, bandMultipliers: [1, 2] } : {}),
+      ...(type === 'volume_profile' ? { valueAreaPercent: 70 } : {}),
       ...(type === 'daily_shio' || type === 'daily_element' ? { dayLimit: 30 } : {})
     };
     setIndicators(prev => [...prev, newIndicator]);
@@ -837,6 +871,62 @@ export const TechnicalAnalysisTradingView = React.memo(function TechnicalAnalysi
     setEditingIndicator(null);
   };
 
+  // Volume profile digambar sebagai overlay HTML karena lightweight-charts tidak punya
+  // histogram horizontal. Profile dihitung ulang dari candle yang sedang terlihat.
+  const layoutVolumeProfile = () => {
+    const current = volumeProfileRef.current;
+    const chart = chartRef.current;
+    const series = priceRef.current;
+    if (!current || !chart || !series) {
+      setVolumeProfileOverlay({ bars: [], lines: [] });
+      return;
+    }
+
+    const visibleRange = chart.timeScale().getVisibleRange();
+    const visibleDates = new Set(
+      current.rows
+        .filter(row => !visibleRange || (row.time >= (visibleRange.from as number) && row.time <= (visibleRange.to as number)))
+        .map(row => new Date(row.time * 1000).toISOString().slice(0, 10).replace(/-/g, ''))
+    );
+    const profile = calculateVolumeProfile(current.priceLevels, {
+      lookbackDays: current.indicator.period || 20,
+      valueAreaPercent: current.indicator.valueAreaPercent ?? 70
+    }, visibleDates);
+    if (!profile.levels.length) {
+      setVolumeProfileOverlay({ bars: [], lines: [] });
+      return;
+    }
+
+    const maxVolume = Math.max(...profile.levels.map(level => level.volume));
+    const coordinates = profile.levels.map(level => series.priceToCoordinate(level.price) as number | null);
+    const bars: VolumeProfileBar[] = [];
+    profile.levels.forEach((level, i) => {
+      const y = coordinates[i];
+      if (y === null || y === undefined) return;
+      // Tinggi bar = jarak ke level harga tetangga (tick size), dibatasi supaya tetap terbaca
+      const neighbour = coordinates[i + 1] ?? coordinates[i - 1];
+      const height = Math.max(1, Math.min(14, neighbour != null ? Math.abs(y - neighbour) - 1 : 4));
+      bars.push({
+        top: y - height / 2,
+        height,
+        width: (level.volume / maxVolume) * 100,
+        color: level.price === profile.poc ? '#f59e0b' : level.inValueArea ? current.indicator.color : '#94a3b8'
+      });
+    });
+
+    const lines: VolumeProfileLine[] = [];
+    const addLine = (price: number | null, label: string, color: string) => {
+      if (price === null) return;
+      const y = series.priceToCoordinate(price) as number | null;
+      if (y !== null) lines.push({ top: y, label: `${label} ${price.toLocaleString()}`, color });
+    };
+    addLine(profile.valueAreaHigh, 'VAH', current.indicator.color);
+    addLine(profile.poc, 'POC', '#f59e0b');
+    addLine(profile.valueAreaLow, 'VAL', current.indicator.color);
+
+    setVolumeProfileOverlay({ bars, lines });
+  };
+
   // Function to sync time scale with all indicator charts
   const syncTimeScaleWithIndicators = () => {
     if (!chartRef.current) return;
@@ -978,6 +1068,34 @@ export const TechnicalAnalysisTradingView = React.memo(function TechnicalAnalysi
     return () => { cancelled = true; };
   }, [symbol]);
 
+  // Load intraday bars when an intraday timeframe is selected
+  useEffect(() => {
+    const interval = INTRADAY_TIMEFRAME_MINUTES[timeframe];
+    if (!interval) {
+      setIntradayRows([]);
+      return;
+    }
+    let cancelled = false;
+    (async () => {
+      const result = await api.getIntradayData(symbol, interval, undefined, INTRADAY_SESSIONS);
+      if (cancelled) return;
+      if (!result.success || !result.data?.data.length) {
+        console.warn(`No intraday data for ${symbol} (${interval}m):`, result.error);
+        setIntradayRows([]);
+        return;
+      }
+      // Jam WIB disimpan sebagai UTC supaya sumbu waktu chart menampilkan jam bursa apa adanya
+      const parsed: OhlcRow[] = result.data.data.map((bar) => {
+        const [hour, minute] = bar.Time.split(':').map(Number);
+        const time = Date.UTC(+bar.Date.slice(0, 4), +bar.Date.slice(4, 6) - 1, +bar.Date.slice(6, 8), hour || 0, minute || 0) / 1000;
+        return { time, open: bar.Open, high: bar.High, low: bar.Low, close: bar.Close, volume: bar.Volume };
+      });
+      setIntradayRows(parsed);
+    })();
+
+    return () => { cancelled = true; };
+  }, [symbol, timeframe]);
+
   // Load bid/ask data from API when symbol changes
   useEffect(() => {
     let cancelled = false;
@@ -1131,6 +1249,10 @@ export const TechnicalAnalysisTradingView = React.memo(function TechnicalAnalysi
   // Get available timeframes based on data frequency
   const availableTimeframes = useMemo(() => {
     const allTimeframes: { value: Timeframe; label: string; minFreq: string }[] = [
+      { value: '1M', label: '1 Minute', minFreq: '1min' },
+      { value: '5M', label: '5 Minutes', minFreq: '5min' },
+      { value: '15M', label: '15 Minutes', minFreq: '15min' },
+      { value: '30M', label: '30 Minutes', minFreq: '30min' },
       { value: '1H', label: '1 Hour', minFreq: '1hour' },
       { value: '1D', label: '1 Day', minFreq: '1day' },
       { value: '1W', label: '1 Week', minFreq: '1day' },
@@ -1162,6 +1284,8 @@ export const TechnicalAnalysisTradingView = React.memo(function TechnicalAnalysi
 
   // Aggregate data based on timeframe
   const filteredRows = useMemo(() => {
+    // Intraday: bar sudah di-aggregate per interval di backend
+    if (INTRADAY_TIMEFRAME_MINUTES[timeframe] && intradayRows.length) return intradayRows;
     if (!rows.length) return rows;
 
     // Sort rows by time
@@ -1231,7 +1355,7 @@ export const TechnicalAnalysisTradingView = React.memo(function TechnicalAnalysi
     console.log('📊 First 3 filtered rows:', sortedRows.slice(0, 3));
     console.log('📊 Last 3 filtered rows:', sortedRows.slice(-3));
     return sortedRows;
-  }, [rows, timeframe]);
+  }, [rows, intradayRows, timeframe]);
 
   // Create chart when container is ready and data is loaded
   useEffect(() => {
@@ -1303,7 +1427,7 @@ export const TechnicalAnalysisTradingView = React.memo(function TechnicalAnalysi
 
   // Update chart data when data changes
   useEffect(() => {
-    if (!chartRef.current || style === 'footprint' as ChartStyle || isLoadingData || rows.length === 0) return;
+    if (!chartRef.current || style === 'footprint' as ChartStyle || isLoadingData || rows.length === 0) return undefined;
 
     console.log('📊 Chart data useEffect triggered:', {
       filteredRowsLength: filteredRows.length,
@@ -1345,7 +1469,7 @@ export const TechnicalAnalysisTradingView = React.memo(function TechnicalAnalysi
     if (!filteredRows.length) {
       console.log('No rows to plot');
       setPlotted(0);
-      return;
+      return undefined;
     }
 
     console.log(`📊 Rendering chart with ${filteredRows.length} rows, style: ${style}, isLoadingData: ${isLoadingData}`);
@@ -1411,6 +1535,7 @@ export const TechnicalAnalysisTradingView = React.memo(function TechnicalAnalysi
 
       // Collect all markers for Daily Shio and Element first
       const allMarkers: SeriesMarker[] = [];
+      volumeProfileRef.current = null;
 
       indicators.forEach(indicator => {
         console.log(`📊 Processing indicator: ${indicator.type} (${indicator.id})`, {
@@ -1492,6 +1617,18 @@ export const TechnicalAnalysisTradingView = React.memo(function TechnicalAnalysi
             // Use buy frequency as main indicator data
             indicatorData = buySellData.buyFreq;
             break;
+          case 'vwap':
+            indicatorData = calculateVWAP(filteredRows, bidAskData, {
+              mode: indicator.vwapMode || 'session',
+              ...(indicator.anchorDate ? { anchorDate: indicator.anchorDate } : {}),
+              bandMultipliers: []
+            }).vwap;
+            break;
+          case 'volume_profile':
+            // Tidak ada series; overlay di-layout setelah price series siap
+            volumeProfileRef.current = { indicator, rows: filteredRows, priceLevels: bidAskData };
+            setIndicatorSeriesReady(prev => ({ ...prev, [indicator.id]: true }));
+            break;
           case 'daily_shio':
             // Daily Shio returns data, labels, and colors
             const shioResult = calculateDailyShio(filteredRows);
@@ -1708,6 +1845,32 @@ export const TechnicalAnalysisTradingView = React.memo(function TechnicalAnalysi
               }
             }
 
+            // Add standard deviation bands for VWAP in main chart
+            if (indicator.type === 'vwap') {
+              const multipliers = (indicator.bandMultipliers || [1, 2]).filter(m => m > 0);
+              const vwapData = calculateVWAP(filteredRows, bidAskData, {
+                mode: indicator.vwapMode || 'session',
+                ...(indicator.anchorDate ? { anchorDate: indicator.anchorDate } : {}),
+                bandMultipliers: multipliers
+              });
+              multipliers.forEach((multiplier, i) => {
+                [vwapData.upperBands[i], vwapData.lowerBands[i]].forEach((band, side) => {
+                  if (!band?.length) return;
+                  const bandSeries = chart.addSeries(LineSeries, {
+                    color: indicator.color,
+                    lineWidth: 1,
+                    lineStyle: 2,
+                    lastValueVisible: false,
+                    priceLineVisible: false,
+                    title: `${side === 0 ? '+' : '-'}${multiplier}σ`
+                  });
+                  bandSeries.setData(band.map(b => ({ time: b.time as any, value: b.value })));
+                  if (!indicatorAuxRefs.current[indicator.id]) indicatorAuxRefs.current[indicator.id] = [];
+                  indicatorAuxRefs.current[indicator.id]?.push(bandSeries);
+                });
+              });
+            }
+
             // Add sell frequency line for Buy/Sell Frequency in main chart
             if (indicator.type === 'buy_sell_frequency') {
               const buySellData = calculateBuySellFrequency(filteredRows, bidAskData, indicator.period);
@@ -1782,6 +1945,41 @@ export const TechnicalAnalysisTradingView = React.memo(function TechnicalAnalysi
 
       chart.timeScale().fitContent();
       console.log(`📊 Chart fitContent called, plotted ${filteredRows.length} rows`);
+
+      // Volume profile mengikuti viewport. lightweight-charts tidak punya event perubahan price scale,
+      // jadi dipasang primitive kosong: updateAllViews dipanggil setiap chart redraw (autoscale, drag
+      // sumbu harga, resize). Layout hanya diulang kalau range time/price scale benar-benar berubah.
+      const priceSeries = priceRef.current;
+      const timeScale = chart.timeScale();
+      let frame: number | null = null;
+      let lastViewport = '';
+      const scheduleVolumeProfileLayout = () => {
+        if (frame !== null) return;
+        frame = requestAnimationFrame(() => {
+          frame = null;
+          const viewport = JSON.stringify([
+            timeScale.getVisibleLogicalRange(),
+            priceSeries?.priceScale().getVisibleRange(),
+            chart.paneSize()
+          ]);
+          if (viewport === lastViewport) return;
+          lastViewport = viewport;
+          layoutVolumeProfile();
+        });
+      };
+      const viewportPrimitive = { updateAllViews: scheduleVolumeProfileLayout };
+      timeScale.subscribeVisibleLogicalRangeChange(scheduleVolumeProfileLayout);
+      priceSeries?.attachPrimitive(viewportPrimitive);
+      volumeProfileListenerRef.current = () => {
+        if (frame !== null) cancelAnimationFrame(frame);
+        try {
+          timeScale.unsubscribeVisibleLogicalRangeChange(scheduleVolumeProfileLayout);
+          priceSeries?.detachPrimitive(viewportPrimitive);
+        } catch (error) {
+          // Chart sudah di-remove lebih dulu; listener ikut hilang bersama chart
+        }
+      };
+      requestAnimationFrame(() => layoutVolumeProfile());
       setPlotted(filteredRows.length);
       setErr(null);
 
@@ -1791,6 +1989,11 @@ export const TechnicalAnalysisTradingView = React.memo(function TechnicalAnalysi
       setErr(e?.message ?? 'render error');
       setPlotted(0);
     }
+
+    return () => {
+      volumeProfileListenerRef.current?.();
+      volumeProfileListenerRef.current = null;
+    };
   }, [filteredRows, chartColors, volumeHistogramSettings, rsiSettings, stochasticSettings, style, indicators, isLoadingData, bidAskData]);
 
   // Add chart listeners only once
@@ -3052,10 +3255,28 @@ export const TechnicalAnalysisTradingView = React.memo(function TechnicalAnalysi
                   />
                 </div>
               ) : (
-                <div
-                  ref={containerRef}
-                  className="h-full w-full"
-                />
+                <>
+                  <div
+                    ref={containerRef}
+                    className="h-full w-full"
+                  />
+                  {(volumeProfileOverlay.bars.length > 0 || volumeProfileOverlay.lines.length > 0) && (
+                    <div className="absolute inset-0 pointer-events-none overflow-hidden" style={{ right: chartRef.current?.priceScale('right').width() ?? 0 }}>
+                      {volumeProfileOverlay.bars.map((bar, i) => (
+                        <div
+                          key={i}
+                          className="absolute right-0"
+                          style={{ top: bar.top, height: bar.height, width: `${bar.width * 0.25}%`, backgroundColor: bar.color, opacity: 0.35 }}
+                        />
+                      ))}
+                      {volumeProfileOverlay.lines.map(line => (
+                        <div key={line.label} className="absolute left-0 right-0 border-t border-dashed" style={{ top: line.top, borderColor: line.color }}>
+                          <span className="absolute left-1 -top-4 text-[10px] font-medium" style={{ color: line.color }}>{line.label}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </>
               )}
             </>
           )}
@@ -3416,6 +3637,18 @@ export const TechnicalAnalysisTradingView = React.memo(function TechnicalAnalysi
                   >
                     Buy / Sell Frequency
                   </button>
+                  <button
+                    onClick={() => addIndicator('vwap', '#0ea5e9', false)}
+                    className="w-full px-3 py-2 text-xs border border-border rounded hover:bg-accent text-left"
+                  >
+                    VWAP (Session / Anchored)
+                  </button>
+                  <button
+                    onClick={() => addIndicator('volume_profile', '#3b82f6', false)}
+                    className="w-full px-3 py-2 text-xs border border-border rounded hover:bg-accent text-left"
+                  >
+                    Volume Profile (Overlay Only)
+                  </button>
                   <button
                     onClick={() => addIndicator('daily_shio', '#7c3aed', false)}
                     className="w-full px-3 py-2 text-xs border border-border rounded hover:bg-accent text-left"
@@ -5,7 +5,9 @@ import {
   MACDSettings, 
   VolumeHistogramSettings, 
   BuySellFrequencySettings, 
-  StochasticSettings 
+  StochasticSettings,
+  VWAPSettings,
+  VolumeProfileSettings
 } from './settings';
 import { SHIO_INFO } from './DailyShio';
 import { ELEMENT_INFO } from './DailyElement';
@@ -58,6 +60,12 @@ export function IndicatorEditor({
       case 'stochastic':
         return <StochasticSettings editedIndicator={editedIndicator} setEditedIndicator={setEditedIndicator} />;
 
+      case 'vwap':
+        return <VWAPSettings editedIndicator={editedIndicator} setEditedIndicator={setEditedIndicator} />;
+
+      case 'volume_profile':
+        return <VolumeProfileSettings editedIndicator={editedIndicator} setEditedIndicator={setEditedIndicator} />;
+
       case 'daily_shio':
       case 'daily_element':
         return (
@@ -0,0 +1,115 @@
+import { IndicatorData } from '../TechnicalAnalysisTradingView';
+
+export interface OhlcRow {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+}
+
+/**
+ * Satu baris price-level dari bid_ask/bid_ask_{date}/{STOCK}.csv
+ * (output BidAskCalculator.createPriceLevelData) + field date yang ditambahkan saat load.
+ */
+export interface PriceLevelRow {
+  Price: number;
+  BidVolume: number;
+  AskVolume: number;
+  TotalVolume: number;
+  date: string; // YYYYMMDD
+}
+
+export type VWAPMode = 'session' | 'anchored';
+
+export interface VWAPOptions {
+  mode: VWAPMode;
+  /** YYYYMMDD, hanya untuk mode anchored. Kosong = hari pertama yang punya data bid/ask */
+  anchorDate?: string;
+  /** Kelipatan standar deviasi untuk band, contoh [1, 2] */
+  bandMultipliers: number[];
+}
+
+export interface VWAPResult {
+  vwap: IndicatorData[];
+  /** upperBands[i] / lowerBands[i] sesuai bandMultipliers[i] */
+  upperBands: IndicatorData[][];
+  lowerBands: IndicatorData[][];
+}
+
+interface VolumeMoments {
+  volume: number;
+  priceVolume: number;
+  priceSquaredVolume: number;
+}
+
+const candleDate = (time: number) => new Date(time * 1000).toISOString().slice(0, 10).replace(/-/g, '');
+
+/**
+ * Sum volume, price*volume dan price^2*volume per tanggal.
+ * Dari tiga angka ini VWAP dan varians bisa dihitung untuk satu sesi maupun kumulatif.
+ */
+function momentsByDate(levels: PriceLevelRow[]): Map<string, VolumeMoments> {
+  const result = new Map<string, VolumeMoments>();
+  levels.forEach(level => {
+    const volume = level.TotalVolume || (level.BidVolume || 0) + (level.AskVolume || 0);
+    if (!level.date || !level.Price || volume <= 0) return;
+    const moments = result.get(level.date) || { volume: 0, priceVolume: 0, priceSquaredVolume: 0 };
+    moments.volume += volume;
+    moments.priceVolume += level.Price * volume;
+    moments.priceSquaredVolume += level.Price * level.Price * volume;
+    result.set(level.date, moments);
+  });
+  return result;
+}
+
+/**
+ * VWAP dari volume per level harga (bukan typical price candle), dengan band standar deviasi
+ * volume-weighted. Mode session reset tiap hari bursa; mode anchored akumulasi sejak anchorDate.
+ * Data bid/ask adalah agregat harian, jadi untuk candle intraday nilainya rata dalam satu sesi.
+ */
+export function calculateVWAP(data: OhlcRow[], priceLevels: PriceLevelRow[], options: VWAPOptions): VWAPResult {
+  const result: VWAPResult = {
+    vwap: [],
+    upperBands: options.bandMultipliers.map(() => []),
+    lowerBands: options.bandMultipliers.map(() => [])
+  };
+  if (!data.length || !priceLevels?.length) return result;
+
+  const byDate = momentsByDate(priceLevels);
+  const sortedDates = Array.from(byDate.keys()).sort();
+  const anchor = options.mode === 'anchored' ? (options.anchorDate || sortedDates[0] || '') : '';
+
+  // VWAP per tanggal, dihitung sekali lalu dipetakan ke candle
+  const vwapByDate = new Map<string, { vwap: number; stdDev: number }>();
+  const cumulative: VolumeMoments = { volume: 0, priceVolume: 0, priceSquaredVolume: 0 };
+  sortedDates.forEach(date => {
+    const day = byDate.get(date)!;
+    let moments: VolumeMoments = day;
+    if (options.mode === 'anchored') {
+      if (date < anchor) return;
+      cumulative.volume += day.volume;
+      cumulative.priceVolume += day.priceVolume;
+      cumulative.priceSquaredVolume += day.priceSquaredVolume;
+      moments = cumulative;
+    }
+    const vwap = moments.priceVolume / moments.volume;
+    const variance = Math.max(0, moments.priceSquaredVolume / moments.volume - vwap * vwap);
+    vwapByDate.set(date, { vwap, stdDev: Math.sqrt(variance) });
+  });
+
+  const seenTimes = new Set<number>();
+  data.forEach(candle => {
+    const point = vwapByDate.get(candleDate(candle.time));
+    if (!point || seenTimes.has(candle.time)) return;
+    seenTimes.add(candle.time);
+    result.vwap.push({ time: candle.time, value: point.vwap });
+    options.bandMultipliers.forEach((multiplier, i) => {
+      result.upperBands[i]?.push({ time: candle.time, value: point.vwap + multiplier * point.stdDev });
+      result.lowerBands[i]?.push({ time: candle.time, value: point.vwap - multiplier * point.stdDev });
+    });
+  });
+
+  return result;
+}
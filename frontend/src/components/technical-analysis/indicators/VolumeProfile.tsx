@@ -0,0 +1,108 @@
+import type { PriceLevelRow } from './VWAP';
+
+export interface VolumeProfileLevel {
+  price: number;
+  volume: number;
+  buyVolume: number;
+  sellVolume: number;
+  inValueArea: boolean;
+}
+
+export interface VolumeProfileResult {
+  /** Urut harga naik */
+  levels: VolumeProfileLevel[];
+  poc: number | null;
+  valueAreaHigh: number | null;
+  valueAreaLow: number | null;
+  totalVolume: number;
+  /** Tanggal yang masuk ke profile (YYYYMMDD, urut naik) */
+  dates: string[];
+}
+
+export interface VolumeProfileOptions {
+  /** Jumlah hari bursa terakhir (dari tanggal yang terlihat di chart) */
+  lookbackDays: number;
+  /** Persentase volume di value area, standar 70 */
+  valueAreaPercent: number;
+}
+
+const emptyProfile = (): VolumeProfileResult => ({
+  levels: [],
+  poc: null,
+  valueAreaHigh: null,
+  valueAreaLow: null,
+  totalVolume: 0,
+  dates: []
+});
+
+/**
+ * Volume profile multi-hari dari volume per level harga.
+ * visibleDates membatasi profile ke tanggal yang sedang ditampilkan chart (visible range);
+ * lookbackDays diambil dari tanggal terbaru di dalamnya.
+ * BidVolume = HAKA (buyer-initiated), AskVolume = HAKI, sesuai BidAskCalculator.
+ */
+export function calculateVolumeProfile(
+  priceLevels: PriceLevelRow[],
+  options: VolumeProfileOptions,
+  visibleDates?: Set<string>
+): VolumeProfileResult {
+  if (!priceLevels?.length) return emptyProfile();
+
+  const availableDates = Array.from(new Set(priceLevels.map(level => level.date)))
+    .filter(date => !!date && (!visibleDates || visibleDates.has(date)))
+    .sort();
+  const dates = availableDates.slice(-Math.max(1, options.lookbackDays));
+  const dateSet = new Set(dates);
+
+  const byPrice = new Map<number, { volume: number; buyVolume: number; sellVolume: number }>();
+  priceLevels.forEach(level => {
+    if (!dateSet.has(level.date) || !level.Price) return;
+    const entry = byPrice.get(level.Price) || { volume: 0, buyVolume: 0, sellVolume: 0 };
+    entry.buyVolume += level.BidVolume || 0;
+    entry.sellVolume += level.AskVolume || 0;
+    entry.volume += level.TotalVolume || (level.BidVolume || 0) + (level.AskVolume || 0);
+    byPrice.set(level.Price, entry);
+  });
+  if (byPrice.size === 0) return emptyProfile();
+
+  const levels: VolumeProfileLevel[] = Array.from(byPrice.entries())
+    .map(([price, entry]) => ({ price, ...entry, inValueArea: false }))
+    .sort((a, b) => a.price - b.price);
+  const totalVolume = levels.reduce((sum, level) => sum + level.volume, 0);
+
+  let pocIndex = 0;
+  levels.forEach((level, i) => {
+    if (level.volume > (levels[pocIndex]?.volume ?? 0)) pocIndex = i;
+  });
+
+  // Value area: mulai dari POC, tambah sisi (atas/bawah) yang volumenya lebih besar
+  // sampai mencapai valueAreaPercent dari total volume
+  const target = totalVolume * Math.min(100, Math.max(1, options.valueAreaPercent)) / 100;
+  let low = pocIndex;
+  let high = pocIndex;
+  let areaVolume = levels[pocIndex]?.volume ?? 0;
+  while (areaVolume < target && (low > 0 || high < levels.length - 1)) {
+    const below = low > 0 ? levels[low - 1]?.volume ?? 0 : -1;
+    const above = high < levels.length - 1 ? levels[high + 1]?.volume ?? 0 : -1;
+    if (above >= below) {
+      high++;
+      areaVolume += above;
+    } else {
+      low--;
+      areaVolume += below;
+    }
+  }
+  for (let i = low; i <= high; i++) {
+    const level = levels[i];
+    if (level) level.inValueArea = true;
+  }
+
+  return {
+    levels,
+    poc: levels[pocIndex]?.price ?? null,
+    valueAreaHigh: levels[high]?.price ?? null,
+    valueAreaLow: levels[low]?.price ?? null,
+    totalVolume,
+    dates
+  };
+}
@@ -6,6 +6,8 @@ export { calculateMACD } from './MACD';
 export { calculateStochastic } from './Stochastic';
 export { calculateVolumeHistogram } from './VolumeHistogram';
 export { calculateBuySellFrequency } from './BuySellFrequency';
+export { calculateVWAP } from './VWAP';
+export { calculateVolumeProfile } from './VolumeProfile';
 export { calculateDailyShio, getDailyShioInfo, SHIO_INFO } from './DailyShio';
 export { calculateDailyElement, getDailyElementInfo, ELEMENT_INFO } from './DailyElement';
 
@@ -15,3 +17,5 @@ export { IndicatorEditor } from './IndicatorEditor';
 // Export types
 export type { OhlcRow } from './SMA';
 export type { IndicatorEditorProps } from './IndicatorEditor';
+export type { PriceLevelRow, VWAPMode, VWAPResult } from './VWAP';
+export type { VolumeProfileLevel, VolumeProfileResult } from './VolumeProfile';
@@ -0,0 +1,83 @@
+export interface VWAPSettingsProps {
+  editedIndicator: any;
+  setEditedIndicator: (indicator: any) => void;
+}
+
+const toInputDate = (yyyymmdd?: string) =>
+  yyyymmdd && yyyymmdd.length === 8 ? `${yyyymmdd.slice(0, 4)}-${yyyymmdd.slice(4, 6)}-${yyyymmdd.slice(6, 8)}` : '';
+
+export function VWAPSettings({ editedIndicator, setEditedIndicator }: VWAPSettingsProps) {
+  const mode = editedIndicator.vwapMode || 'session';
+  const bands: number[] = editedIndicator.bandMultipliers || [1, 2];
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium mb-2">Mode</label>
+        <select
+          value={mode}
+          onChange={(e) => setEditedIndicator((prev: any) => ({
+            ...prev,
+            vwapMode: e.target.value as 'session' | 'anchored',
+            name: e.target.value === 'anchored' ? 'Anchored VWAP' : 'Session VWAP'
+          }))}
+          className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground"
+        >
+          <option value="session">Session (reset every trading day)</option>
+          <option value="anchored">Anchored (cumulative from date)</option>
+        </select>
+      </div>
+      {mode === 'anchored' && (
+        <div>
+          <label className="block text-sm font-medium mb-2">Anchor Date</label>
+          <input
+            type="date"
+            value={toInputDate(editedIndicator.anchorDate)}
+            onChange={(e) => setEditedIndicator((prev: any) => ({ ...prev, anchorDate: e.target.value.replace(/-/g, '') }))}
+            className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground"
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            Empty = first day with bid/ask data. Only the most recent 21 trading days of bid/ask data are loaded.
+          </p>
+        </div>
+      )}
+      <div>
+        <label className="block text-sm font-medium mb-2">Standard Deviation Bands</label>
+        <div className="flex items-center gap-2">
+          {[0, 1].map(i => (
+            <input
+              key={i}
+              type="number"
+              step="0.5"
+              min="0"
+              max="5"
+              value={bands[i] ?? 0}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                const next = [...bands];
+                next[i] = isNaN(value) ? 0 : Math.max(0, Math.min(5, value));
+                setEditedIndicator((prev: any) => ({ ...prev, bandMultipliers: next }));
+              }}
+              className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground"
+            />
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground mt-1">
+          Multiplier of the volume-weighted standard deviation. 0 hides the band.
+        </p>
+      </div>
+      <div>
+        <label className="block text-sm font-medium mb-2">Color</label>
+        <div className="flex items-center gap-2">
+          <input
+            type="color"
+            value={editedIndicator.color}
+            onChange={(e) => setEditedIndicator((prev: any) => ({ ...prev, color: e.target.value }))}
+            className="w-8 h-8 border border-border rounded cursor-pointer"
+          />
+          <span className="text-sm text-muted-foreground">{editedIndicator.color}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+export interface VolumeProfileSettingsProps {
+  editedIndicator: any;
+  setEditedIndicator: (indicator: any) => void;
+}
+
+export function VolumeProfileSettings({ editedIndicator, setEditedIndicator }: VolumeProfileSettingsProps) {
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium mb-2">Lookback (trading days)</label>
+        <input
+          type="number"
+          value={editedIndicator.period}
+          onChange={(e) => {
+            const value = parseInt(e.target.value);
+            setEditedIndicator((prev: any) => ({ ...prev, period: isNaN(value) ? (prev.period || 20) : Math.max(1, Math.min(21, value)) }));
+          }}
+          className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground"
+          min="1"
+          max="21"
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          Counted back from the last visible day on the chart (1-21).
+        </p>
+      </div>
+      <div>
+        <label className="block text-sm font-medium mb-2">Value Area (%)</label>
+        <input
+          type="number"
+          value={editedIndicator.valueAreaPercent ?? 70}
+          onChange={(e) => {
+            const value = parseInt(e.target.value);
+            setEditedIndicator((prev: any) => ({ ...prev, valueAreaPercent: isNaN(value) ? 70 : Math.max(1, Math.min(100, value)) }));
+          }}
+          className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground"
+          min="1"
+          max="100"
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium mb-2">Color</label>
+        <div className="flex items-center gap-2">
+          <input
+            type="color"
+            value={editedIndicator.color}
+            onChange={(e) => setEditedIndicator((prev: any) => ({ ...prev, color: e.target.value }))}
+            className="w-8 h-8 border border-border rounded cursor-pointer"
+          />
+          <span className="text-sm text-muted-foreground">{editedIndicator.color}</span>
+        </div>
+        <p className="text-xs text-muted-foreground mt-1">
+          Used for the value area bars; the POC is drawn in amber.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ export { MACDSettings } from './MACDSettings';
 export { VolumeHistogramSettings } from './VolumeHistogramSettings';
 export { BuySellFrequencySettings } from './BuySellFrequencySettings';
 export { StochasticSettings } from './StochasticSettings';
+export { VWAPSettings } from './VWAPSettings';
+export { VolumeProfileSettings } from './VolumeProfileSettings';
 
 // Export types
 export type { SMASettingsProps } from './SMASettings';
@@ -13,3 +15,5 @@ export type { MACDSettingsProps } from './MACDSettings';
 export type { VolumeHistogramSettingsProps } from './VolumeHistogramSettings';
 export type { BuySellFrequencySettingsProps } from './BuySellFrequencySettings';
 export type { StochasticSettingsProps } from './StochasticSettings';
+export type { VWAPSettingsProps } from './VWAPSettings';
+export type { VolumeProfileSettingsProps } from './VolumeProfileSettings';
@@ -25,6 +25,19 @@ export interface ProfileData {
   subscriptionEndDate?: string;
 }
 
+export interface UserEntitlements {
+  role: string;
+  isActive: boolean;
+  subscriptionStatus: string;
+  plan: string;
+  subscriptionEndDate: string | null;
+  features: string[];
+  allFeatures: string[];
+  plans: Record<string, string[]>;
+  /** API route prefix (tanpa /api/) → feature */
+  routes: Record<string, string>;
+}
+
 export interface AuthResponse {
   success: boolean;
   token?: string;
@@ -36,6 +49,396 @@ export interface AuthResponse {
   message?: string;
 }
 
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  key_prefix: string;
+  is_active: boolean;
+  request_count: number;
+  last_used_at: string | null;
+  last_used_ip: string | null;
+  created_at: string;
+  updated_at: string;
+  rotated_at: string | null;
+  revoked_at: string | null;
+}
+
+export interface BrokerSummaryRangeRow {
+  BrokerCode: string;
+  BuyerVol: number;
+  BuyerValue: number;
+  BuyerAvg: number;
+  BuyerFreq: number;
+  BLot: number;
+  SellerVol: number;
+  SellerValue: number;
+  SellerAvg: number;
+  SellerFreq: number;
+  SLot: number;
+  NetBuyVol: number;
+  NetBuyValue: number;
+  NetBuyerAvg: number;
+  NBLot: number;
+  NetSellVol: number;
+  NetSellValue: number;
+  NetSellerAvg: number;
+  NSLot: number;
+  Days: number;
+}
+
+export interface BrokerSummaryRangeData {
+  stockCode: string;
+  from: string;
+  to: string;
+  board: 'RG' | 'TN' | 'NG' | null;
+  investor: 'F' | 'D' | null;
+  dates: string[];
+  missingDates: string[];
+  brokerData: BrokerSummaryRangeRow[];
+  daily: Array<{ date: string; brokerData: BrokerSummaryRangeRow[] }>;
+  cached: boolean;
+  generatedAt: string;
+}
+
+export interface BrokerClusterPair {
+  a: string;
+  b: string;
+  correlation: number;
+  coAccumulation: number;
+  priceLevelOverlap: number | null;
+  commonDays: number;
+  confidence: number;
+  emitenCount?: number;
+}
+
+export interface BrokerCluster {
+  id: number;
+  brokers: string[];
+  confidence: number;
+  correlation: number;
+  coAccumulation: number;
+  priceLevelOverlap: number | null;
+  netValue: number;
+  pairs: BrokerClusterPair[];
+}
+
+export interface BrokerClusterData {
+  scope: 'global' | 'stock';
+  stockCode: string | null;
+  asOf: string;
+  from: string;
+  to: string;
+  tradingDays: number;
+  brokerCount: number;
+  clusters: BrokerCluster[];
+  generatedAt: string;
+}
+
+export type IntradayInterval = 1 | 5 | 15 | 30 | 60;
+
+export interface IntradayBar {
+  Date: string;
+  Time: string;
+  Open: number;
+  High: number;
+  Low: number;
+  Close: number;
+  Volume: number;
+  Value: number;
+  Frequency: number;
+  BuyVolume: number;
+  SellVolume: number;
+}
+
+export interface IntradayDataResponse {
+  stockCode: string;
+  interval: IntradayInterval;
+  dates: string[];
+  data: IntradayBar[];
+  total: number;
+}
+
+export interface ForeignStockFlow {
+  Stock: string;
+  BuyVol: number;
+  SellVol: number;
+  NetBuyVol: number;
+  BuyValue: number;
+  SellValue: number;
+  NetBuyValue: number;
+}
+
+export interface ForeignTopFlowsData {
+  /** Tanggal yang dijumlah (YYYYMMDD, terbaru dulu) */
+  dates: string[];
+  inflow: ForeignStockFlow[];
+  outflow: ForeignStockFlow[];
+  sortBy: 'value' | 'volume';
+}
+
+export interface ForeignCumulativePoint {
+  Date: string;
+  NetBuyVol: number;
+  CumulativeNetVol: number;
+}
+
+export interface MarketBreadthRow {
+  Date: string;
+  Advancers: number;
+  Decliners: number;
+  Unchanged: number;
+  TotalStocks: number;
+  NewHighs: number;
+  NewLows: number;
+  /** null = data accumulation/foreign/sektor tanggal itu belum dihitung */
+  AboveMA20Pct: number | null;
+  AboveMA50Pct: number | null;
+  AboveMA200Pct: number | null;
+  ForeignNetVolume: number | null;
+  ForeignNetValue: number | null;
+  TopSector: string;
+  TopSectorNetValue: number | null;
+  BottomSector: string;
+  BottomSectorNetValue: number | null;
+}
+
+export interface MarketBreadthData {
+  /** Urut tanggal naik */
+  series: MarketBreadthRow[];
+  latest: MarketBreadthRow | null;
+}
+
+export interface MarketHoliday {
+  /** YYYYMMDD */
+  date: string;
+  description: string;
+}
+
+export interface MarketHalfDay {
+  /** YYYYMMDD */
+  date: string;
+  /** HH:MM WIB */
+  closeTime: string;
+  description: string;
+}
+
+export interface TradingCalendarData {
+  holidays: MarketHoliday[];
+  halfDays: MarketHalfDay[];
+  updatedAt: string | null;
+  updatedBy: string | null;
+  today?: string;
+  isTradingDay?: boolean;
+  previousTradingDay?: string;
+}
+
+export type JobNodeStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'skipped';
+
+export interface JobNodeState {
+  nodeId: string;
+  status: JobNodeStatus;
+  attempts: number;
+  runId: string;
+  triggeredBy: string;
+  startedAt?: string;
+  finishedAt?: string;
+  durationMs?: number;
+  error?: string;
+}
+
+export interface JobNodeInfo {
+  id: string;
+  name: string;
+  phaseId: string;
+  inputs: string[];
+  outputs: string[];
+  upstream: string[];
+  downstream: string[];
+  retry: { attempts: number; backoffMs: number; backoffFactor?: number };
+  timeoutMs: number;
+  /** null = node belum pernah jalan untuk tanggal ini */
+  state: JobNodeState | null;
+}
+
+export interface JobGraphStatus {
+  /** YYYYMMDD */
+  date: string;
+  rerunActive: boolean;
+  nodes: JobNodeInfo[];
+}
+
+export type BackfillMode = 'skip_existing' | 'overwrite';
+
+export type BackfillStatus = 'running' | 'completed' | 'failed' | 'cancelled' | 'interrupted';
+
+export interface BackfillFeature {
+  feature: string;
+  name: string;
+  phaseId: string;
+}
+
+export interface BackfillJob {
+  id: string;
+  feature: string;
+  featureName: string;
+  /** YYYYMMDD */
+  fromDate: string;
+  toDate: string;
+  mode: BackfillMode;
+  dates: string[];
+  completedDates: string[];
+  failedDates: Record<string, string>;
+  status: BackfillStatus;
+  logId?: string;
+  triggeredBy: string;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  error?: string;
+}
+
+export interface BackfillOverview {
+  features: BackfillFeature[];
+  activeJobId: string | null;
+  jobs: BackfillJob[];
+}
+
+export type ExportDatasetName =
+  | 'broker_summary'
+  | 'broker_transaction'
+  | 'foreign_flow'
+  | 'money_flow'
+  | 'accumulation'
+  | 'haka_haki'
+  | 'break_done_trade';
+
+export interface DatasetExportParams {
+  dataset: ExportDatasetName;
+  fromDate: string;
+  toDate: string;
+  tickers?: string[];
+  brokers?: string[];
+  board?: 'RG' | 'TN' | 'NG';
+  investor?: 'F' | 'D';
+  pivot?: 'Broker' | 'Stock';
+  format: 'csv' | 'xlsx' | 'parquet';
+  groupBy?: 'date' | 'code';
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  rule_type: 'foreign_net_buy' | 'mfi' | 'rrg_quadrant' | 'trend' | 'broker_accumulation';
+  params: Record<string, any>;
+  channels: Array<'email' | 'webhook'>;
+  webhook_url: string | null;
+  is_active: boolean;
+  last_matched: boolean;
+  last_value: string | null;
+  last_evaluated_at: string | null;
+  last_triggered_at: string | null;
+  created_at: string;
+}
+
+export interface AlertEvent {
+  id: string;
+  rule_id: string;
+  rule_name: string;
+  rule_type: AlertRule['rule_type'];
+  phase_id: string | null;
+  message: string;
+  payload: Record<string, any>;
+  is_read: boolean;
+  created_at: string;
+}
+
+export interface UserWatchlist {
+  id: string;
+  name: string;
+  position: number;
+  share_token: string | null;
+  created_at: string;
+  updated_at: string;
+  items: Array<{ symbol: string; note: string | null; position: number }>;
+}
+
+export interface TrendRuleSet {
+  id: string;
+  name: string;
+  description?: string;
+  periods: Array<{ label: string; days: number }>;
+  ma: { type: 'SMA' | 'EMA' | 'WMA'; shortWindow: number | null; longWindow: number | null };
+  changeThresholdPct: number;
+  momentumWindow: number;
+  adx?: { period: number; minAdx: number; weight: number };
+  slope?: { window: number; minSlopePct: number; weight: number };
+  scoreThresholds: { uptrend: number; downtrend: number };
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+export type BacktestSignalSource = 'price' | 'accumulation' | 'foreign_flow' | 'money_flow' | 'rrg' | 'top_broker';
+
+export interface BacktestCondition {
+  source: BacktestSignalSource;
+  field: string;
+  operator: '>' | '>=' | '<' | '<=' | '==' | '!=';
+  value: number | string;
+  broker?: string | undefined;
+}
+
+export interface BacktestRequest {
+  symbols: string[];
+  fromDate: string;
+  toDate: string;
+  entry: BacktestCondition[];
+  exit: BacktestCondition[];
+  initialCapital?: number;
+  maxPositions?: number;
+  buyFeePct?: number;
+  sellFeePct?: number;
+  stopLossPct?: number;
+  takeProfitPct?: number;
+  maxHoldingDays?: number;
+}
+
+export interface BacktestTrade {
+  symbol: string;
+  entryDate: string;
+  entryPrice: number;
+  exitDate: string;
+  exitPrice: number;
+  lots: number;
+  shares: number;
+  fees: number;
+  netPnl: number;
+  returnPct: number;
+  holdingDays: number;
+  exitReason: 'signal' | 'stop_loss' | 'take_profit' | 'max_holding' | 'end_of_test';
+}
+
+export interface BacktestResult {
+  metrics: {
+    initialCapital: number;
+    finalEquity: number;
+    totalReturnPct: number;
+    cagrPct: number;
+    maxDrawdownPct: number;
+    winRatePct: number;
+    totalTrades: number;
+    wins: number;
+    losses: number;
+    avgReturnPct: number;
+    profitFactor: number | null;
+    totalFees: number;
+    exposurePct: number;
+  };
+  equityCurve: Array<{ date: string; equity: number; cash: number; openPositions: number; drawdownPct: number }>;
+  trades: BacktestTrade[];
+  skippedSymbols: string[];
+  generatedAt: string;
+}
+
 const API_URL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:3001';
 
 // Global 401 handler - emit event when 401 detected
@@ -68,6 +471,29 @@ const checkResponse = async (response: Response, endpoint: string) => {
     error.code = errorCode;
     throw error;
   }
+
+  if (response.status === 429) {
+    const retryAfter = response.headers.get('Retry-After');
+    const error: any = new Error(`Too many requests. Please wait${retryAfter ? ` ${retryAfter}s` : ''} and try again.`);
+    error.code = 'RATE_LIMITED';
+    error.retryAfter = retryAfter ? Number(retryAfter) : undefined;
+    throw error;
+  }
+
+  // Gating subscription dari backend (requireEntitlement): 402 = belum subscribe, 403 = plan tidak mencakup fitur
+  if (response.status === 402 || response.status === 403) {
+    try {
+      const errorData = await response.clone().json();
+      if (errorData.code === 'SUBSCRIPTION_REQUIRED' || errorData.code === 'FEATURE_NOT_IN_PLAN') {
+        const error: any = new Error(errorData.error || 'Your subscription does not include this feature.');
+        error.code = errorData.code;
+        error.details = errorData.details;
+        throw error;
+      }
+    } catch (parseError: any) {
+      if (parseError?.code) throw parseError;
+    }
+  }
   return response;
 };
 
@@ -132,6 +558,160 @@ export const api = {
     }
   },
 
+  // Alerts (user rules + in-app inbox)
+  async getAlertInbox(unreadOnly = false, limit = 30): Promise<{ success: boolean; data?: { events: AlertEvent[]; unreadCount: number }; error?: string }> {
+    try {
+      const params = new URLSearchParams({ limit: String(limit) });
+      if (unreadOnly) params.append('unread', 'true');
+      const res = await authenticatedFetch(`${API_URL}/api/alerts/inbox?${params}`, {}, '/api/alerts/inbox');
+      const json = await safeJson(res);
+      if (!res.ok || !json.ok) throw new Error(json.error || 'Failed to load alerts');
+      return { success: true, data: json.data };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to load alerts' };
+    }
+  },
+
+  async markAlertsRead(ids?: string[]): Promise<{ success: boolean; data?: { unreadCount: number }; error?: string }> {
+    try {
+      const res = await authenticatedFetch(`${API_URL}/api/alerts/inbox/read`, {
+        method: 'POST',
+        body: JSON.stringify(ids ? { ids } : {})
+      }, '/api/alerts/inbox/read');
+      const json = await safeJson(res);
+      if (!res.ok || !json.ok) throw new Error(json.error || 'Failed to mark alerts as read');
+      return { success: true, data: json.data };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to mark alerts as read' };
+    }
+  },
+
+  // Personal API keys (akses data programatik via header X-API-Key)
+  async getApiKeys(): Promise<{ success: boolean; data?: { keys: ApiKeyRecord[]; maxKeys: number; apiAccess: boolean }; error?: string }> {
+    try {
+      const res = await authenticatedFetch(`${API_URL}/api/api-keys`, {}, '/api/api-keys');
+      const json = await safeJson(res);
+      if (!res.ok || !json.ok) throw new Error(json.error || 'Failed to load API keys');
+      return { success: true, data: json.data };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to load API keys' };
+    }
+  },
+
+  async createApiKey(name: string): Promise<{ success: boolean; data?: { key: string; record: ApiKeyRecord }; error?: string }> {
+    try {
+      const res = await authenticatedFetch(`${API_URL}/api/api-keys`, {
+        method: 'POST',
+        body: JSON.stringify({ name })
+      }, '/api/api-keys');
+      const json = await safeJson(res);
+      if (!res.ok || !json.ok) throw new Error(json.error || 'Failed to create API key');
+      return { success: true, data: json.data };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to create API key' };
+    }
+  },
+
+  async renameApiKey(keyId: string, name: string): Promise<{ success: boolean; data?: ApiKeyRecord; error?: string }> {
+    try {
+      const res = await authenticatedFetch(`${API_URL}/api/api-keys/${keyId}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ name })
+      }, '/api/api-keys');
+      const json = await safeJson(res);
+      if (!res.ok || !json.ok) throw new Error(json.error || 'Failed to rename API key');
+      return { success: true, data: json.data };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to rename API key' };
+    }
+  },
+
+  async rotateApiKey(keyId: string): Promise<{ success: boolean; data?: { key: string; record: ApiKeyRecord }; error?: string }> {
+    try {
+      const res = await authenticatedFetch(`${API_URL}/api/api-keys/${keyId}/rotate`, { method: 'POST' }, '/api/api-keys');
+      const json = await safeJson(res);
+      if (!res.ok || !json.ok) throw new Error(json.error || 'Failed to rotate API key');
+      return { success: true, data: json.data };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to rotate API key' };
+    }
+  },
+
+  async revokeApiKey(keyId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const res = await authenticatedFetch(`${API_URL}/api/api-keys/${keyId}`, { method: 'DELETE' }, '/api/api-keys');
+      const json = await safeJson(res);
+      if (!res.ok || !json.ok) throw new Error(json.error || 'Failed to revoke API key');
+      return { success: true };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to revoke API key' };
+    }
+  },
+
+  async exportDataset(params: DatasetExportParams): Promise<{ success: boolean; data?: { blob: Blob; filename: string; rowCount: number }; error?: string }> {
+    try {
+      const res = await authenticatedFetch(`${API_URL}/api/export`, {
+        method: 'POST',
+        body: JSON.stringify(params)
+      }, '/api/export');
+      if (!res.ok) {
+        const json = await safeJson(res);
+        throw new Error(json.error || 'Failed to export dataset');
+      }
+      const disposition = res.headers.get('Content-Disposition') || '';
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `${params.dataset}.${params.format}`;
+      const blob = await res.blob();
+      // CSV di-stream tanpa X-Export-Rows: hitung baris data (tanpa header) dari isi file
+      const rowHeader = res.headers.get('X-Export-Rows');
+      const rowCount = rowHeader !== null
+        ? Number(rowHeader)
+        : Math.max(0, (await blob.text()).split('\n').filter(line => line.trim()).length - 1);
+      return {
+        success: true,
+        data: { blob, filename, rowCount }
+      };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to export dataset' };
+    }
+  },
+
+  async getAlertRules(): Promise<{ success: boolean; data?: AlertRule[]; error?: string }> {
+    try {
+      const res = await authenticatedFetch(`${API_URL}/api/alerts/rules`, {}, '/api/alerts/rules');
+      const json = await safeJson(res);
+      if (!res.ok || !json.ok) throw new Error(json.error || 'Failed to load alert rules');
+      return { success: true, data: json.data };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to load alert rules' };
+    }
+  },
+
+  async saveAlertRule(rule: Partial<AlertRule> & { name: string; rule_type: string; params: Record<string, any> }, ruleId?: string): Promise<{ success: boolean; data?: AlertRule; error?: string }> {
+    try {
+      const url = ruleId ? `${API_URL}/api/alerts/rules/${ruleId}` : `${API_URL}/api/alerts/rules`;
+      const res = await authenticatedFetch(url, {
+        method: ruleId ? 'PUT' : 'POST',
+        body: JSON.stringify(rule)
+      }, '/api/alerts/rules');
+      const json = await safeJson(res);
+      if (!res.ok || !json.ok) throw new Error(json.error || 'Failed to save alert rule');
+      return { success: true, data: json.data };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to save alert rule' };
+    }
+  },
+
+  async deleteAlertRule(ruleId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const res = await authenticatedFetch(`${API_URL}/api/alerts/rules/${ruleId}`, { method: 'DELETE' }, '/api/alerts/rules');
+      const json = await safeJson(res);
+      if (!res.ok || !json.ok) throw new Error(json.error || 'Failed to delete alert rule');
+      return { success: true };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to delete alert rule' };
+    }
+  },
+
   // Seasonal Analysis
   async getSeasonalityData(type: 'index' | 'sector' | 'stock', startDate?: string, endDate?: string): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
@@ -270,6 +850,136 @@ export const api = {
     }
   },
 
+  // Named watchlists per user (server-side)
+  async getUserWatchlists(): Promise<{ success: boolean; data?: UserWatchlist[]; error?: string }> {
+    try {
+      const res = await authenticatedFetch(`${API_URL}/api/watchlist/lists`, {}, '/api/watchlist/lists');
+      const json = await safeJson(res);
+      if (!res.ok || !json.ok) throw new Error(json.error || 'Failed to load watchlists');
+      return { success: true, data: json.data };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to load watchlists' };
+    }
+  },
+
+  async createUserWatchlist(name: string, items: Array<{ symbol: string; note?: string | null }> = []): Promise<{ success: boolean; data?: UserWatchlist; error?: string }> {
+    try {
+      const res = await authenticatedFetch(`${API_URL}/api/watchlist/lists`, {
+        method: 'POST',
+        body: JSON.stringify({ name, items })
+      }, '/api/watchlist/lists');
+      const json = await safeJson(res);
+      if (!res.ok || !json.ok) throw new Error(json.error || 'Failed to create watchlist');
+      return { success: true, data: json.data };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to create watchlist' };
+    }
+  },
+
+  async renameUserWatchlist(listId: string, name: string): Promise<{ success: boolean; data?: UserWatchlist; error?: string }> {
+    try {
+      const res = await authenticatedFetch(`${API_URL}/api/watchlist/lists/${listId}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ name })
+      }, '/api/watchlist/lists/:id');
+      const json = await safeJson(res);
+      if (!res.ok || !json.ok) throw new Error(json.error || 'Failed to rename watchlist');
+      return { success: true, data: json.data };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to rename watchlist' };
+    }
+  },
+
+  async deleteUserWatchlist(listId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const res = await authenticatedFetch(`${API_URL}/api/watchlist/lists/${listId}`, { method: 'DELETE' }, '/api/watchlist/lists/:id');
+      const json = await safeJson(res);
+      if (!res.ok || !json.ok) throw new Error(json.error || 'Failed to delete watchlist');
+      return { success: true };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to delete watchlist' };
+    }
+  },
+
+  async setUserWatchlistItems(listId: string, items: Array<{ symbol: string; note?: string | null }>): Promise<{ success: boolean; data?: UserWatchlist; error?: string }> {
+    try {
+      const res = await authenticatedFetch(`${API_URL}/api/watchlist/lists/${listId}/items`, {
+        method: 'PUT',
+        body: JSON.stringify({ items })
+      }, '/api/watchlist/lists/:id/items');
+      const json = await safeJson(res);
+      if (!res.ok || !json.ok) throw new Error(json.error || 'Failed to update watchlist');
+      return { success: true, data: json.data };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to update watchlist' };
+    }
+  },
+
+  async updateUserWatchlistNote(listId: string, symbol: string, note: string | null): Promise<{ success: boolean; data?: UserWatchlist; error?: string }> {
+    try {
+      const res = await authenticatedFetch(`${API_URL}/api/watchlist/lists/${listId}/items/${encodeURIComponent(symbol)}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ note })
+      }, '/api/watchlist/lists/:id/items/:symbol');
+      const json = await safeJson(res);
+      if (!res.ok || !json.ok) throw new Error(json.error || 'Failed to update note');
+      return { success: true, data: json.data };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to update note' };
+    }
+  },
+
+  async exportUserWatchlist(listId: string): Promise<{ success: boolean; data?: string; error?: string }> {
+    try {
+      const res = await authenticatedFetch(`${API_URL}/api/watchlist/lists/${listId}/export`, {}, '/api/watchlist/lists/:id/export');
+      if (!res.ok) {
+        const json = await safeJson(res);
+        throw new Error(json.error || 'Failed to export watchlist');
+      }
+      return { success: true, data: await res.text() };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to export watchlist' };
+    }
+  },
+
+  async importUserWatchlist(listId: string, csv: string, mode: 'append' | 'replace' = 'append'): Promise<{ success: boolean; data?: { list: UserWatchlist; imported: number }; error?: string }> {
+    try {
+      const res = await authenticatedFetch(`${API_URL}/api/watchlist/lists/${listId}/import`, {
+        method: 'POST',
+        body: JSON.stringify({ csv, mode })
+      }, '/api/watchlist/lists/:id/import');
+      const json = await safeJson(res);
+      if (!res.ok || !json.ok) throw new Error(json.error || 'Failed to import watchlist');
+      return { success: true, data: json.data };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to import watchlist' };
+    }
+  },
+
+  async shareUserWatchlist(listId: string, revoke = false): Promise<{ success: boolean; data?: { shareToken?: string }; error?: string }> {
+    try {
+      const res = await authenticatedFetch(`${API_URL}/api/watchlist/lists/${listId}/share`, {
+        method: revoke ? 'DELETE' : 'POST'
+      }, '/api/watchlist/lists/:id/share');
+      const json = await safeJson(res);
+      if (!res.ok || !json.ok) throw new Error(json.error || 'Failed to update share link');
+      return { success: true, data: json.data };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to update share link' };
+    }
+  },
+
+  async getSharedWatchlist(token: string): Promise<{ success: boolean; data?: { name: string; updated_at: string; items: Array<{ symbol: string; note: string | null; name: string; price: number | null; change: number | null; changePercent: number | null }> }; error?: string }> {
+    try {
+      const res = await fetch(`${API_URL}/api/watchlist/shared/${encodeURIComponent(token)}`);
+      const json = await safeJson(res);
+      if (!res.ok || !json.ok) throw new Error(json.error || 'Shared watchlist not found');
+      return { success: true, data: json.data };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Shared watchlist not found' };
+    }
+  },
+
   async getEmitenList(): Promise<{ success: boolean; data?: string[]; error?: string }> {
     try {
       const response = await authenticatedFetch(`${API_URL}/api/stock/emiten-list`, {}, '/api/stock/emiten-list');
@@ -370,6 +1080,15 @@ export const api = {
     }
   },
 
+  async getEntitlements(): Promise<UserEntitlements> {
+    const response = await authenticatedFetch(`${API_URL}/api/me/entitlements`, {}, '/api/me/entitlements');
+    const result = await safeJson(response);
+    if (!response.ok || !result.ok) {
+      throw new Error(result.error || `Failed to fetch entitlements: ${response.status}`);
+    }
+    return result.data as UserEntitlements;
+  },
+
   async uploadAvatar(file: File): Promise<{ avatarUrl: string; filePath: string }> {
     try {
       const { data: { session } } = await supabase.auth.getSession();
@@ -1591,7 +2310,7 @@ export const api = {
 
   async clearRRCCache(): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const res = await fetch(`${API_URL}/api/rrc/debug/clear-cache`, {
+      const res = await authenticatedFetch(`${API_URL}/api/rrc/debug/clear-cache`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -1606,7 +2325,7 @@ export const api = {
   // RRG API methods
   async listRRGInputs(): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const res = await fetch(`${API_URL}/api/rrg/inputs`, {
+      const res = await authenticatedFetch(`${API_URL}/api/rrg/inputs`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -1627,7 +2346,7 @@ export const api = {
       if (startDate) params.append('startDate', startDate);
       if (endDate) params.append('endDate', endDate);
 
-      const res = await fetch(`${API_URL}/api/rrg/data?${params}`, {
+      const res = await authenticatedFetch(`${API_URL}/api/rrg/data?${params}`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -1641,7 +2360,7 @@ export const api = {
 
   async getRRGStatus(): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const res = await fetch(`${API_URL}/api/rrg/status`, {
+      const res = await authenticatedFetch(`${API_URL}/api/rrg/status`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -1656,7 +2375,7 @@ export const api = {
   // Debug RRG API methods
   async triggerRRGUpdate(): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const res = await fetch(`${API_URL}/api/rrg/debug/trigger-update`, {
+      const res = await authenticatedFetch(`${API_URL}/api/rrg/debug/trigger-update`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -1670,7 +2389,7 @@ export const api = {
 
   async stopRRGGeneration(): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const res = await fetch(`${API_URL}/api/rrg/debug/stop-generation`, {
+      const res = await authenticatedFetch(`${API_URL}/api/rrg/debug/stop-generation`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -1684,7 +2403,7 @@ export const api = {
 
   async clearRRGCache(): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const res = await fetch(`${API_URL}/api/rrg/debug/clear-cache`, {
+      const res = await authenticatedFetch(`${API_URL}/api/rrg/debug/clear-cache`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -1699,7 +2418,7 @@ export const api = {
   // RRG Scanner API
   async getRRGScannerData(type: 'stock' | 'sector'): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const res = await fetch(`${API_URL}/api/rrg/scanner/${type}`, {
+      const res = await authenticatedFetch(`${API_URL}/api/rrg/scanner/${type}`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -1714,7 +2433,7 @@ export const api = {
   // Seasonality API
   async getSeasonalityInputs(): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const res = await fetch(`${API_URL}/api/seasonality/inputs`);
+      const res = await authenticatedFetch(`${API_URL}/api/seasonality/inputs`);
       const json = await res.json();
       if (!res.ok) throw new Error(json.error || 'Failed to get seasonality inputs');
       return { success: true, data: json };
@@ -1725,7 +2444,7 @@ export const api = {
 
   async clearSeasonalityCache(): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const res = await fetch(`${API_URL}/api/seasonality/debug/clear-cache`, {
+      const res = await authenticatedFetch(`${API_URL}/api/seasonality/debug/clear-cache`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -1744,7 +2463,7 @@ export const api = {
       items.forEach(item => params.append('items', item));
       params.append('index', index);
 
-      const res = await fetch(`${API_URL}/api/rrc/data?${params}`, {
+      const res = await authenticatedFetch(`${API_URL}/api/rrc/data?${params}`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -1758,7 +2477,7 @@ export const api = {
 
   async preGenerateRRC(): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const res = await fetch(`${API_URL}/api/rrc/pre-generate`, {
+      const res = await authenticatedFetch(`${API_URL}/api/rrc/pre-generate`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -1796,11 +2515,12 @@ export const api = {
     }
   },
 
-  async getTrendFilterData(period?: string): Promise<{ success: boolean; data?: any; error?: string }> {
+  async getTrendFilterData(period?: string, ruleSet?: string): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const url = period
+      const base = period
         ? `${API_URL}/api/trend-filter/data/${period}`
         : `${API_URL}/api/trend-filter/data`;
+      const url = ruleSet && ruleSet !== 'default' ? `${base}?ruleSet=${encodeURIComponent(ruleSet)}` : base;
       const res = await authenticatedFetch(url);
       const json = await safeJson(res);
       if (!res.ok) throw new Error(json.error || 'Failed to get trend filter data');
@@ -1810,9 +2530,10 @@ export const api = {
     }
   },
 
-  async getTrendFilterPeriods(): Promise<{ success: boolean; data?: string[]; error?: string }> {
+  async getTrendFilterPeriods(ruleSet?: string): Promise<{ success: boolean; data?: string[]; error?: string }> {
     try {
-      const res = await authenticatedFetch(`${API_URL}/api/trend-filter/periods`);
+      const query = ruleSet ? `?ruleSet=${encodeURIComponent(ruleSet)}` : '';
+      const res = await authenticatedFetch(`${API_URL}/api/trend-filter/periods${query}`);
       const json = await safeJson(res);
       if (!res.ok) throw new Error(json.error || 'Failed to get trend filter periods');
       return { success: true, data: json.data };
@@ -1821,13 +2542,84 @@ export const api = {
     }
   },
 
+  async getTrendRuleSets(): Promise<{ success: boolean; data?: TrendRuleSet[]; error?: string }> {
+    try {
+      const res = await authenticatedFetch(`${API_URL}/api/trend-filter/rule-sets`);
+      const json = await safeJson(res);
+      if (!res.ok) throw new Error(json.error || 'Failed to get trend rule sets');
+      return { success: true, data: json.data };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to get trend rule sets' };
+    }
+  },
+
+  async saveTrendRuleSet(id: string, ruleSet: Omit<TrendRuleSet, 'id' | 'updatedAt' | 'updatedBy'>): Promise<{ success: boolean; data?: TrendRuleSet; error?: string }> {
+    try {
+      const res = await authenticatedFetch(`${API_URL}/api/trend-filter/rule-sets/${encodeURIComponent(id)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(ruleSet),
+      });
+      const json = await safeJson(res);
+      if (!res.ok) throw new Error(json.error || 'Failed to save trend rule set');
+      return { success: true, data: json.data };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to save trend rule set' };
+    }
+  },
+
+  async deleteTrendRuleSet(id: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const res = await authenticatedFetch(`${API_URL}/api/trend-filter/rule-sets/${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+      });
+      const json = await safeJson(res);
+      if (!res.ok) throw new Error(json.error || 'Failed to delete trend rule set');
+      return { success: true };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to delete trend rule set' };
+    }
+  },
+
+  // Backtest API
+  async getBacktestFields(): Promise<{ success: boolean; data?: { fields: Record<BacktestSignalSource, string[]>; limits: { maxSymbols: number; maxYears: number } }; error?: string }> {
+    try {
+      const res = await authenticatedFetch(`${API_URL}/api/backtest/fields`);
+      const json = await safeJson(res);
+      if (!res.ok) throw new Error(json.error || 'Failed to get backtest fields');
+      return { success: true, data: json.data };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to get backtest fields' };
+    }
+  },
+
+  async runBacktest(request: BacktestRequest): Promise<{ success: boolean; data?: BacktestResult; error?: string }> {
+    try {
+      const res = await authenticatedFetch(`${API_URL}/api/backtest/run`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      }, '/api/backtest/run');
+      const json = await safeJson(res);
+      if (!res.ok) {
+        const detail = Array.isArray(json.details) && json.details[0]
+          ? `${json.details[0].path?.join('.')}: ${json.details[0].message}`
+          : null;
+        throw new Error(detail || json.error || 'Failed to run backtest');
+      }
+      return { success: true, data: json.data };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to run backtest' };
+    }
+  },
+
   // Money Flow API
   async getMoneyFlowData(stockCode: string, limit?: number): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
       const params = new URLSearchParams();
       if (limit) params.append('limit', limit.toString());
 
-      const res = await fetch(`${API_URL}/api/moneyflow/stock/${stockCode}?${params}`, {
+      const res = await authenticatedFetch(`${API_URL}/api/moneyflow/stock/${stockCode}?${params}`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -1845,7 +2637,7 @@ export const api = {
       const params = new URLSearchParams();
       if (limit) params.append('limit', limit.toString());
 
-      const res = await fetch(`${API_URL}/api/foreign/stock/${stockCode}?${params}`, {
+      const res = await authenticatedFetch(`${API_URL}/api/foreign/stock/${stockCode}?${params}`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -1857,13 +2649,69 @@ export const api = {
     }
   },
 
+  // Ranking net foreign inflow/outflow se-market atas N hari bursa terakhir
+  async getForeignTopFlows(
+    days: number = 1,
+    limit: number = 10,
+    sortBy: 'value' | 'volume' = 'value',
+    date?: string
+  ): Promise<{ success: boolean; data?: ForeignTopFlowsData; error?: string }> {
+    try {
+      const params = new URLSearchParams({ days: String(days), limit: String(limit), sortBy });
+      if (date) params.append('date', date);
+      const res = await authenticatedFetch(`${API_URL}/api/foreign/top-flows?${params}`, {
+        method: 'GET',
+        headers: { 'Content-Type': 'application/json' },
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to get top foreign flows');
+      return { success: true, data: json.data };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to get top foreign flows' };
+    }
+  },
+
+  // Net foreign kumulatif sejak anchor date (YYYYMMDD)
+  async getForeignCumulative(stockCode: string, anchor?: string): Promise<{ success: boolean; data?: { code: string; anchor: string; data: ForeignCumulativePoint[] }; error?: string }> {
+    try {
+      const params = new URLSearchParams();
+      if (anchor) params.append('anchor', anchor);
+      const res = await authenticatedFetch(`${API_URL}/api/foreign/stock/${stockCode}/cumulative?${params}`, {
+        method: 'GET',
+        headers: { 'Content-Type': 'application/json' },
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to get cumulative foreign flow');
+      return { success: true, data: json.data };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to get cumulative foreign flow' };
+    }
+  },
+
+  // Market breadth harian (time series N hari bursa terakhir)
+  async getMarketBreadth(days: number = 60, endDate?: string): Promise<{ success: boolean; data?: MarketBreadthData; error?: string }> {
+    try {
+      const params = new URLSearchParams({ days: String(days) });
+      if (endDate) params.append('endDate', endDate);
+      const res = await authenticatedFetch(`${API_URL}/api/market-breadth?${params}`, {
+        method: 'GET',
+        headers: { 'Content-Type': 'application/json' },
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to get market breadth');
+      return { success: true, data: json.data };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to get market breadth' };
+    }
+  },
+
   // Holding/Shareholding API
   async getHoldingData(stockCode: string, limit?: number): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
       const params = new URLSearchParams();
       if (limit) params.append('limit', limit.toString());
 
-      const res = await fetch(`${API_URL}/api/holding/stock/${stockCode}?${params}`, {
+      const res = await authenticatedFetch(`${API_URL}/api/holding/stock/${stockCode}?${params}`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -1881,7 +2729,7 @@ export const api = {
       const params = new URLSearchParams();
       if (limit) params.append('limit', limit.toString());
 
-      const res = await fetch(`${API_URL}/api/shareholders/stock/${stockCode}?${params}`, {
+      const res = await authenticatedFetch(`${API_URL}/api/shareholders/stock/${stockCode}?${params}`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -1896,7 +2744,7 @@ export const api = {
   // Get list of stocks from shareholders directory
   async getShareholdersStockList(): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const res = await fetch(`${API_URL}/api/shareholders/list`, {
+      const res = await authenticatedFetch(`${API_URL}/api/shareholders/list`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -1911,7 +2759,7 @@ export const api = {
   // Stock Data API
   async getStockList(): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const res = await fetch(`${API_URL}/api/stock/list`, {
+      const res = await authenticatedFetch(`${API_URL}/api/stock/list`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -1926,7 +2774,7 @@ export const api = {
   // Get stock list with company names from emiten_detail_list.csv
   async getStockListWithCompanyNames(): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const res = await fetch(`${API_URL}/api/stock-list`, {
+      const res = await authenticatedFetch(`${API_URL}/api/stock-list`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -1941,7 +2789,7 @@ export const api = {
   // Get stock detail for specific stock code
   async getStockDetail(stockCode: string): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const res = await fetch(`${API_URL}/api/stock-list/${stockCode}`, {
+      const res = await authenticatedFetch(`${API_URL}/api/stock-list/${stockCode}`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -1953,14 +2801,16 @@ export const api = {
     }
   },
 
-  async getStockData(stockCode: string, startDate?: string, endDate?: string, limit?: number): Promise<{ success: boolean; data?: any; error?: string }> {
+  // adjusted=true: harga di-back-adjust corporate action (split, bonus, rights)
+  async getStockData(stockCode: string, startDate?: string, endDate?: string, limit?: number, adjusted: boolean = false): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
       const params = new URLSearchParams();
       if (startDate) params.append('startDate', startDate);
       if (endDate) params.append('endDate', endDate);
       if (limit) params.append('limit', limit.toString());
+      if (adjusted) params.append('adjusted', 'true');
 
-      const res = await fetch(`${API_URL}/api/stock/data/${stockCode}?${params}`, {
+      const res = await authenticatedFetch(`${API_URL}/api/stock/data/${stockCode}?${params}`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -1972,6 +2822,24 @@ export const api = {
     }
   },
 
+  // Get intraday OHLC bars (interval dalam menit: 1/5/15/30/60) untuk sesi terakhir s/d date
+  async getIntradayData(stockCode: string, interval: IntradayInterval, date?: string, days: number = 1): Promise<{ success: boolean; data?: IntradayDataResponse; error?: string }> {
+    try {
+      const params = new URLSearchParams({ interval: String(interval), days: String(days) });
+      if (date) params.append('date', date.replace(/-/g, ''));
+
+      const res = await authenticatedFetch(`${API_URL}/api/stock/intraday/${stockCode}?${params}`, {
+        method: 'GET',
+        headers: { 'Content-Type': 'application/json' },
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to get intraday data');
+      return { success: true, data: json.data };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to get intraday data' };
+    }
+  },
+
   // Get sector OHLC price data
   async getSectorOhlcPrice(sectorName: string, startDate?: string, endDate?: string, limit?: number): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
@@ -1980,7 +2848,7 @@ export const api = {
       if (endDate) params.append('endDate', endDate);
       if (limit) params.append('limit', limit.toString());
 
-      const res = await fetch(`${API_URL}/api/sector-ohlc-price/${encodeURIComponent(sectorName)}?${params}`, {
+      const res = await authenticatedFetch(`${API_URL}/api/sector-ohlc-price/${encodeURIComponent(sectorName)}?${params}`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -1995,7 +2863,7 @@ export const api = {
   // Get sector mapping (stock code -> sector name)
   async getSectorMapping(): Promise<{ success: boolean; data?: { stockToSector: { [stock: string]: string }; sectors: string[]; sectorMapping: { [sector: string]: string[] } }; error?: string }> {
     try {
-      const res = await fetch(`${API_URL}/api/stock/sector-mapping`, {
+      const res = await authenticatedFetch(`${API_URL}/api/stock/sector-mapping`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -2010,7 +2878,7 @@ export const api = {
   // Get latest available date for a specific stock
   async getLatestStockDate(stockCode: string): Promise<{ success: boolean; data?: { latestDate: string; stockCode: string }; error?: string }> {
     try {
-      const res = await fetch(`${API_URL}/api/stock/latest-date/${stockCode}`, {
+      const res = await authenticatedFetch(`${API_URL}/api/stock/latest-date/${stockCode}`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -2025,7 +2893,7 @@ export const api = {
   // Get bid/ask data for specific stock and date
   async getBidAskData(stockCode: string, date: string): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const res = await fetch(`${API_URL}/api/bidask/stock/${stockCode}/${date}`, {
+      const res = await authenticatedFetch(`${API_URL}/api/bidask/stock/${stockCode}/${date}`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -2040,7 +2908,7 @@ export const api = {
   // Get Buy/Sell Frequency data for specific stock and date
   async getBuySellFrequencyData(stockCode: string, date: string): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const res = await fetch(`${API_URL}/api/bidask/frequency/${stockCode}/${date}`, {
+      const res = await authenticatedFetch(`${API_URL}/api/bidask/frequency/${stockCode}/${date}`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -2064,7 +2932,7 @@ export const api = {
   // Get broker list from csv_input/broker_list.csv
   async getBrokerList(): Promise<{ success: boolean; data?: { brokers: string[] }; error?: string }> {
     try {
-      const res = await fetch(`${API_URL}/api/broker/list`, {
+      const res = await authenticatedFetch(`${API_URL}/api/broker/list`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -2093,7 +2961,7 @@ export const api = {
       // CRITICAL: Encode code to handle sector names with spaces (e.g., "Basic Materials_ALL" -> "Basic%20Materials_ALL")
       // Backend will decode this to get the actual sector name
       const encodedCode = encodeURIComponent(code);
-      const res = await fetch(`${API_URL}/api/broker/transaction/${encodedCode}?${params.toString()}`, {
+      const res = await authenticatedFetch(`${API_URL}/api/broker/transaction/${encodedCode}?${params.toString()}`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -2106,15 +2974,16 @@ export const api = {
   },
 
 
-  async getMultipleStocksData(stockCodes: string[], startDate?: string, endDate?: string, limit?: number): Promise<{ success: boolean; data?: any; error?: string }> {
+  async getMultipleStocksData(stockCodes: string[], startDate?: string, endDate?: string, limit?: number, adjusted: boolean = false): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
       const params = new URLSearchParams();
       stockCodes.forEach(code => params.append('stocks', code));
       if (startDate) params.append('startDate', startDate);
       if (endDate) params.append('endDate', endDate);
       if (limit) params.append('limit', limit.toString());
+      if (adjusted) params.append('adjusted', 'true');
 
-      const res = await fetch(`${API_URL}/api/stock/data?${params}`, {
+      const res = await authenticatedFetch(`${API_URL}/api/stock/data?${params}`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -2129,7 +2998,7 @@ export const api = {
   // Footprint Data API
   async getFootprintData(stockCode: string, date: string): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const res = await fetch(`${API_URL}/api/stock/footprint/${stockCode}?date=${date}`, {
+      const res = await authenticatedFetch(`${API_URL}/api/stock/footprint/${stockCode}?date=${date}`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -2147,7 +3016,7 @@ export const api = {
       const params = new URLSearchParams();
       if (limit) params.append('limit', limit.toString());
 
-      const res = await fetch(`${API_URL}/api/done-summary/stock/${stockCode}/${date}?${params}`, {
+      const res = await authenticatedFetch(`${API_URL}/api/done-summary/stock/${stockCode}/${date}?${params}`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -2162,7 +3031,7 @@ export const api = {
   // Get list of available dates from done-summary
   async getDoneSummaryDates(): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const res = await fetch(`${API_URL}/api/done-summary/dates`, {
+      const res = await authenticatedFetch(`${API_URL}/api/done-summary/dates`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -2177,7 +3046,7 @@ export const api = {
   // Get list of available stocks from done-summary
   async getDoneSummaryStocks(): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const res = await fetch(`${API_URL}/api/done-summary/stocks`, {
+      const res = await authenticatedFetch(`${API_URL}/api/done-summary/stocks`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -2192,7 +3061,7 @@ export const api = {
   // Get broker breakdown data for specific stock and date
   async getBrokerBreakdownData(stockCode: string, date: string): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const res = await fetch(`${API_URL}/api/done-summary/broker-breakdown/${stockCode}/${date}`, {
+      const res = await authenticatedFetch(`${API_URL}/api/done-summary/broker-breakdown/${stockCode}/${date}`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -2215,7 +3084,7 @@ export const api = {
       // Empty string means "All Boards" (files without board suffix in blob storage)
       params.append('board', board || '');
 
-      const res = await fetch(`${API_URL}/api/broker-breakdown/done-summary/${stockCode}/${date}?${params.toString()}`, {
+      const res = await authenticatedFetch(`${API_URL}/api/broker-breakdown/done-summary/${stockCode}/${date}?${params.toString()}`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -2264,7 +3133,7 @@ export const api = {
   async getDoneSummaryBatch(stockCode: string, dates: string[]): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
       const datesParam = dates.join(',');
-      const res = await fetch(`${API_URL}/api/done-summary/batch/${stockCode}?dates=${datesParam}`, {
+      const res = await authenticatedFetch(`${API_URL}/api/done-summary/batch/${stockCode}?dates=${datesParam}`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -2279,7 +3148,7 @@ export const api = {
   // Pagination for large datasets
   async getDoneSummaryPagination(stockCode: string, date: string, page: number = 1, pageSize: number = 1000, limit: number = 10000): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const res = await fetch(`${API_URL}/api/done-summary/pagination/${stockCode}/${date}?page=${page}&pageSize=${pageSize}&limit=${limit}`, {
+      const res = await authenticatedFetch(`${API_URL}/api/done-summary/pagination/${stockCode}/${date}?page=${page}&pageSize=${pageSize}&limit=${limit}`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -2296,7 +3165,7 @@ export const api = {
   // Get list of available dates from done_detail directory
   async getBreakDoneTradeDates(): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const res = await fetch(`${API_URL}/api/break-done-trade/dates`, {
+      const res = await authenticatedFetch(`${API_URL}/api/break-done-trade/dates`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -2311,7 +3180,7 @@ export const api = {
   // Get list of available stocks for a specific date from done_detail directory
   async getBreakDoneTradeStocks(date: string): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const res = await fetch(`${API_URL}/api/break-done-trade/stocks/${date}`, {
+      const res = await authenticatedFetch(`${API_URL}/api/break-done-trade/stocks/${date}`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -2326,7 +3195,7 @@ export const api = {
   // Get break done trade data for specific stock and date
   async getBreakDoneTradeData(stockCode: string, date: string): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const res = await fetch(`${API_URL}/api/break-done-trade/data/${date}/${stockCode}`, {
+      const res = await authenticatedFetch(`${API_URL}/api/break-done-trade/data/${date}/${stockCode}`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -2403,7 +3272,7 @@ export const api = {
   // Get list of available dates from accumulation_distribution directory
   async getAccumulationDistributionDates(): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const res = await fetch(`${API_URL}/api/accumulation/dates`, {
+      const res = await authenticatedFetch(`${API_URL}/api/accumulation/dates`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -2418,7 +3287,7 @@ export const api = {
   // Get accumulation distribution data for specific date
   async getAccumulationDistributionData(date: string): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const res = await fetch(`${API_URL}/api/accumulation/data/${date}`, {
+      const res = await authenticatedFetch(`${API_URL}/api/accumulation/data/${date}`, {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -2433,7 +3302,7 @@ export const api = {
   // Calculate and store accumulation distribution data for specific date
   async calculateAccumulationDistribution(date: string): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const res = await fetch(`${API_URL}/api/accumulation/generate`, {
+      const res = await authenticatedFetch(`${API_URL}/api/accumulation/generate`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ date })
@@ -2449,7 +3318,7 @@ export const api = {
 
   async getBidAskDates(): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const res = await fetch(`${API_URL}/api/bidask/dates`);
+      const res = await authenticatedFetch(`${API_URL}/api/bidask/dates`);
       const json = await res.json();
       if (!res.ok) throw new Error(json.error || 'Failed to get bid/ask dates');
       return { success: true, data: json.data };
@@ -2460,7 +3329,7 @@ export const api = {
 
   async getBidAskStocks(date: string): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const res = await fetch(`${API_URL}/api/bidask/stocks/${date}`);
+      const res = await authenticatedFetch(`${API_URL}/api/bidask/stocks/${date}`);
       const json = await res.json();
       if (!res.ok) throw new Error(json.error || 'Failed to get bid/ask stocks');
       return { success: true, data: json.data };
@@ -2529,6 +3398,55 @@ export const api = {
     }
   },
 
+  // Broker summary multi-hari dalam satu request (agregasi + breakdown harian dari backend)
+  getBrokerSummaryRange: async (
+    stockCode: string,
+    from: string,
+    to: string,
+    market: 'RG' | 'TN' | 'NG' | '' = '',
+    investor: 'F' | 'D' | '' = ''
+  ): Promise<{ success: boolean; data?: BrokerSummaryRangeData; error?: string }> => {
+    try {
+      const params = new URLSearchParams({ from: from.replace(/-/g, ''), to: to.replace(/-/g, '') });
+      if (market) params.set('market', market);
+      if (investor) params.set('investor', investor);
+      const response = await authenticatedFetch(
+        `${API_URL}/api/broker-summary/range/${encodeURIComponent(stockCode)}?${params.toString()}`,
+        {},
+        'getBrokerSummaryRange'
+      );
+      const json = await safeJson(response);
+      if (!response.ok || !json.success) {
+        return { success: false, error: json.error || `HTTP ${response.status}: Failed to get broker summary range` };
+      }
+      return { success: true, data: json.data };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to get broker summary range' };
+    }
+  },
+
+  // Broker clusters (grup broker yang bergerak bersama); stockCode kosong = global
+  getBrokerClusters: async (
+    stockCode: string = '',
+    minConfidence: number = 0
+  ): Promise<{ success: boolean; data?: BrokerClusterData; error?: string }> => {
+    try {
+      const scope = stockCode ? encodeURIComponent(stockCode.toUpperCase()) : 'global';
+      const response = await authenticatedFetch(
+        `${API_URL}/api/broker-clusters/${scope}?minConfidence=${minConfidence}`,
+        {},
+        'getBrokerClusters'
+      );
+      const json = await safeJson(response);
+      if (!response.ok || !json.success) {
+        return { success: false, error: json.error || `HTTP ${response.status}: Failed to get broker clusters` };
+      }
+      return { success: true, data: json.data };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to get broker clusters' };
+    }
+  },
+
   // Get available dates for broker summary
   getBrokerSummaryDates: async () => {
     try {
@@ -2589,7 +3507,7 @@ export const api = {
       const url = `${API_URL}/api/broker-inventory/${stockCode}/${brokerCode}`;
       console.log(`[API] Fetching broker inventory: ${url}`);
 
-      const response = await fetch(url);
+      const response = await authenticatedFetch(url);
       const data = await response.json();
 
       if (!response.ok) {
@@ -2615,7 +3533,7 @@ export const api = {
       const url = `${API_URL}/api/broker-inventory/brokers/${stockCode}`;
       console.log(`[API] Fetching broker inventory brokers: ${url}`);
 
-      const response = await fetch(url);
+      const response = await authenticatedFetch(url);
       const data = await response.json();
 
       if (!response.ok) {
@@ -2634,6 +3552,41 @@ export const api = {
     }
   },
 
+  // Screen emitens where selected brokers (or top-N net buyers) keep accumulating
+  getBrokerInventoryScreener: async (params: {
+    brokers?: string[];
+    topN?: number;
+    window?: number;
+    minNetValue?: number;
+    minStreak?: number;
+    minPriceChange?: number;
+    maxPriceChange?: number;
+    limit?: number;
+  } = {}) => {
+    try {
+      const query = new URLSearchParams();
+      Object.entries(params).forEach(([key, value]) => {
+        if (value === undefined) return;
+        const serialized = Array.isArray(value) ? value.join(',') : String(value);
+        if (serialized) query.set(key, serialized);
+      });
+      const url = `${API_URL}/api/broker-inventory/screener${query.toString() ? `?${query.toString()}` : ''}`;
+
+      const response = await authenticatedFetch(url);
+      const data = await response.json();
+
+      if (!response.ok) {
+        console.error(`[API] Broker inventory screener request failed: ${response.status}`, data);
+        return { success: false, error: data.error || `HTTP ${response.status}: Failed to run broker inventory screener` };
+      }
+
+      return data;
+    } catch (err: any) {
+      console.error(`[API] Broker inventory screener fetch error:`, err);
+      return { success: false, error: err.message || 'Failed to run broker inventory screener' };
+    }
+  },
+
   // Get top brokers for a specific date
   getTopBrokers: async (date: string) => {
     try {
@@ -2642,7 +3595,7 @@ export const api = {
       const url = `${API_URL}/api/top-broker?date=${dateStr}`;
       console.log(`[API] Fetching top brokers: ${url}`);
 
-      const response = await fetch(url);
+      const response = await authenticatedFetch(url);
       const data = await response.json();
 
       if (!response.ok) {
@@ -2668,7 +3621,7 @@ export const api = {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 60000); // 60 second timeout
 
-      const response = await fetch(`${API_URL}/api/broker/transaction/dates`, {
+      const response = await authenticatedFetch(`${API_URL}/api/broker/transaction/dates`, {
         signal: controller.signal,
         headers: {
           'Content-Type': 'application/json',
@@ -2756,6 +3709,44 @@ export const api = {
     }
   },
 
+  async getBackfillJobs(): Promise<{ success: boolean; data?: BackfillOverview; error?: string }> {
+    try {
+      const response = await authenticatedFetch(`${API_URL}/api/trigger/backfill`, {}, '/api/trigger/backfill');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to get backfill jobs');
+      return { success: true, data: data.data };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to get backfill jobs' };
+    }
+  },
+
+  async startBackfill(feature: string, fromDate: string, toDate: string, mode: BackfillMode): Promise<{ success: boolean; data?: BackfillJob; message?: string; error?: string }> {
+    try {
+      const response = await authenticatedFetch(`${API_URL}/api/trigger/backfill`, {
+        method: 'POST',
+        body: JSON.stringify({ feature, fromDate, toDate, mode })
+      }, '/api/trigger/backfill');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to start backfill');
+      return { success: true, data: data.data, message: data.message };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to start backfill' };
+    }
+  },
+
+  async resumeBackfill(jobId: string): Promise<{ success: boolean; data?: BackfillJob; message?: string; error?: string }> {
+    try {
+      const response = await authenticatedFetch(`${API_URL}/api/trigger/backfill/${jobId}/resume`, {
+        method: 'POST',
+      }, '/api/trigger/backfill/resume');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to resume backfill');
+      return { success: true, data: data.data, message: data.message };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to resume backfill' };
+    }
+  },
+
   // Scheduler Management API
   async getSchedulerConfig(): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
@@ -2909,5 +3900,72 @@ export const api = {
     }
   },
 
+  async getTradingCalendar(): Promise<{ success: boolean; data?: TradingCalendarData; error?: string }> {
+    try {
+      const response = await fetch(`${API_URL}/api/developer/trading-calendar`, {
+        headers: {
+          'Authorization': `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`
+        }
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to get trading calendar');
+      return { success: true, data: data.data };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to get trading calendar' };
+    }
+  },
+
+  async updateTradingCalendar(holidays: MarketHoliday[], halfDays: MarketHalfDay[]): Promise<{ success: boolean; data?: TradingCalendarData; error?: string }> {
+    try {
+      const response = await fetch(`${API_URL}/api/developer/trading-calendar`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`
+        },
+        body: JSON.stringify({ holidays, halfDays })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to update trading calendar');
+      return { success: true, data: data.data };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to update trading calendar' };
+    }
+  },
+
+  async getJobGraph(date?: string): Promise<{ success: boolean; data?: JobGraphStatus; error?: string }> {
+    try {
+      const query = date ? `?date=${encodeURIComponent(date)}` : '';
+      const response = await fetch(`${API_URL}/api/developer/scheduler/jobs${query}`, {
+        headers: {
+          'Authorization': `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`
+        }
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to get job graph');
+      return { success: true, data: data.data };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to get job graph' };
+    }
+  },
+
+  async rerunJob(nodeId: string, date: string): Promise<{ success: boolean; data?: { message: string; nodes?: string[]; logId?: string }; error?: string }> {
+    try {
+      const response = await fetch(`${API_URL}/api/developer/scheduler/jobs/${encodeURIComponent(nodeId)}/rerun`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`
+        },
+        body: JSON.stringify({ date })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to rerun job');
+      return { success: true, data: data.data };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to rerun job' };
+    }
+  },
+
 
 };
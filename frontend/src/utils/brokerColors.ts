@@ -155,6 +155,20 @@ export function getBrokerColorClass(brokerCode: string, isDarkMode: boolean = fa
     : 'bg-gray-100 text-gray-900 border-gray-200');
 }
 
+// Urutan warna untuk overlay cluster broker (grup ke-1 = Biru, dst.)
+export const CLUSTER_COLOR_ORDER: string[] = ['Biru', 'Merah', 'Hijau', 'Orange', 'Pink', 'Kuning', 'Coklat', 'Gold', 'Grey'];
+
+// Get color name for a broker cluster index (wraps around when there are more clusters than colors)
+export function getClusterColorName(clusterIndex: number): string {
+  return CLUSTER_COLOR_ORDER[clusterIndex % CLUSTER_COLOR_ORDER.length] || 'Grey';
+}
+
+// Get broker cluster color class (supports dark mode)
+export function getClusterColorClass(clusterIndex: number, isDarkMode: boolean = false): string {
+  const colorMap = isDarkMode ? COLOR_TO_CSS_CLASS_DARK : COLOR_TO_CSS_CLASS_LIGHT;
+  return colorMap[getClusterColorName(clusterIndex)] || '';
+}
+
 // Get broker color name
 export function getBrokerColorName(brokerCode: string): string {
   return BROKER_COLORS[brokerCode] || 'Default';
@@ -55,6 +55,7 @@ export function getFeatureNameFromRoute(route: string): string {
     "story": "Story",
     "astrology": "Astrology",
     "technical-analysis": "Technical Analysis",
+    "backtest": "Backtest",
     "admin": "Admin Dashboard",
     "developer": "Developer Dashboard",
   };